@@ -14,6 +14,9 @@ const app = new cdk.App();
 // Get environment from context
 const environment = app.node.tryGetContext('environment') || 'dev';
 
+// LLM provider/model per environment, e.g. "llm": { "dev": { "LLM_MODEL_RECIPE_GENERATION": "..." } } in cdk.json
+const llmSettings = (app.node.tryGetContext('llm') || {})[environment];
+
 // AWS environment configuration
 const awsEnv = {
   account: process.env.CDK_DEFAULT_ACCOUNT,
@@ -25,6 +28,7 @@ const modularStack = new ModularStack(app, `SmartCooking-${environment}-Modular`
   environment,
   alertEmail: process.env.ALERT_EMAIL,
   domainName: environment === 'prod' ? 'awssmartcookingss.com' : undefined,
+  llmSettings,
   env: awsEnv,
   description: `Smart Cooking MVP - ${environment} environment (Modular Architecture)`,
   tags: {
@@ -99,6 +99,20 @@ export class DatabaseStack extends Construct {
       projectionType: dynamodb.ProjectionType.ALL
     });
 
+    // GSI5: Popular users, profiles ranked by their friend_count
+    this.table.addGlobalSecondaryIndex({
+      indexName: 'GSI5',
+      partitionKey: {
+        name: 'GSI5PK',
+        type: dynamodb.AttributeType.STRING
+      },
+      sortKey: {
+        name: 'friend_count',
+        type: dynamodb.AttributeType.NUMBER
+      },
+      projectionType: dynamodb.ProjectionType.ALL
+    });
+
     // CloudWatch Log Group for DynamoDB operations
     new logs.LogGroup(this, 'DatabaseLogGroup', {
       logGroupName: `/aws/dynamodb/smart-cooking-${environment}`,
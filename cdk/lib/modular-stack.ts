@@ -18,6 +18,8 @@ import * as cdk from 'aws-cdk-lib';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as apigwv2 from 'aws-cdk-lib/aws-apigatewayv2';
+import { WebSocketLambdaIntegration } from 'aws-cdk-lib/aws-apigatewayv2-integrations';
 import * as cognito from 'aws-cdk-lib/aws-cognito';
 import * as sns from 'aws-cdk-lib/aws-sns';
 import * as iam from 'aws-cdk-lib/aws-iam';
@@ -40,6 +42,8 @@ export interface ModularStackProps extends cdk.StackProps {
   environment: string;
   alertEmail?: string;
   domainName?: string;
+  /** LLM_* variables selecting provider/model per AI operation (see lambda/shared/ai/llm-config.ts) */
+  llmSettings?: Record<string, string>;
 }
 
 export class ModularStack extends cdk.Stack {
@@ -48,6 +52,7 @@ export class ModularStack extends cdk.Stack {
   public readonly auth: AuthStack;
   public readonly storage: StorageStack;
   public readonly api: apigateway.RestApi;
+  public readonly webSocketApi: apigwv2.WebSocketApi;
   public readonly lambdaFunctions: lambda.Function[];
   public readonly monitoringStack: MonitoringStack;
   public readonly costOptimization: CostOptimization;
@@ -57,7 +62,7 @@ export class ModularStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props: ModularStackProps) {
     super(scope, id, props);
 
-    const { environment, alertEmail, domainName } = props;
+    const { environment, alertEmail, domainName, llmSettings } = props;
 
     // ================================================================
     // 1. DATABASE LAYER
@@ -139,6 +144,7 @@ export class ModularStack extends cdk.Stack {
         ENVIRONMENT: environment,
         LOG_LEVEL: environment === 'prod' ? 'INFO' : 'DEBUG',
         ADMIN_TOPIC_ARN: alertTopic.topicArn,
+        ...llmSettings,
       },
       tracing: lambda.Tracing.ACTIVE,
     };
@@ -157,8 +163,8 @@ export class ModularStack extends cdk.Stack {
         minify: true,
         sourceMap: environment !== 'prod',
         externalModules: ['@aws-sdk/*'],
-        // Bundle all handler code together
-        nodeModules: [],
+        // Bundle all handler code together; pdfkit reads its font metrics from disk at runtime
+        nodeModules: ['pdfkit'],
       },
     });
 
@@ -206,6 +212,32 @@ export class ModularStack extends cdk.Stack {
       },
     });
 
+    // AI Suggestion Stream Lambda (Function URL with response streaming)
+    const aiSuggestionStreamFunction = new NodejsFunction(this, 'AISuggestionStream', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-ai-suggestion-stream-${environment}`,
+      entry: '../lambda/ai-suggestion/stream-handler.ts',
+      handler: 'handler',
+      memorySize: 768,
+      timeout: cdk.Duration.seconds(90), // Not bound by the 29s API Gateway limit
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    // API Gateway REST APIs cannot stream, so the client calls this URL directly
+    const aiSuggestionStreamUrl = aiSuggestionStreamFunction.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.NONE, // Handler verifies the Cognito ID token itself
+      invokeMode: lambda.InvokeMode.RESPONSE_STREAM,
+      cors: {
+        allowedOrigins: ['*'],
+        allowedMethods: [lambda.HttpMethod.POST],
+        allowedHeaders: ['Content-Type', 'Authorization'],
+      },
+    });
+
     // Posts Lambda
     const postsFunction = new NodejsFunction(this, 'Posts', {
       ...commonLambdaProps,
@@ -216,6 +248,7 @@ export class ModularStack extends cdk.Stack {
         minify: true,
         sourceMap: environment !== 'prod',
         externalModules: ['@aws-sdk/*'],
+        nodeModules: ['pdfkit'], // Recipe PDF export
       },
     });
 
@@ -279,6 +312,48 @@ export class ModularStack extends cdk.Stack {
       functionName: `smart-cooking-saved-recipes-${environment}`,
       entry: '../lambda/saved-recipes/index.ts',
       handler: 'handler',
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+        nodeModules: ['pdfkit'], // Recipe PDF export
+      },
+    });
+
+    // Meal Plans Lambda (weekly planner, fills empty slots via AI suggestions)
+    const mealPlansFunction = new NodejsFunction(this, 'MealPlans', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-meal-plans-${environment}`,
+      entry: '../lambda/meal-plans/index.ts',
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(60), // AI fill can take a while
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    // Shopping Lists Lambda (aggregated ingredients from recipes and meal plans)
+    const shoppingListsFunction = new NodejsFunction(this, 'ShoppingLists', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-shopping-lists-${environment}`,
+      entry: '../lambda/shopping-lists/index.ts',
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(30), // "already have" parsing may fall back to AI
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    // Pantry Lambda (ingredient inventory with expiry tracking)
+    const pantryFunction = new NodejsFunction(this, 'Pantry', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-pantry-${environment}`,
+      entry: '../lambda/pantry/index.ts',
+      handler: 'handler',
       bundling: {
         minify: true,
         sourceMap: environment !== 'prod',
@@ -299,19 +374,57 @@ export class ModularStack extends cdk.Stack {
       },
     });
 
+    // WebSocket Lambda (connections for real-time notifications)
+    const websocketFunction = new NodejsFunction(this, 'WebSocket', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-websocket-${environment}`,
+      entry: '../lambda/websocket/index.ts',
+      handler: 'handler',
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    // Notification Digest Lambda (scheduled daily/weekly email summaries)
+    const notificationDigestFunction = new NodejsFunction(this, 'NotificationDigest', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-notification-digest-${environment}`,
+      entry: '../lambda/notification-digest/index.ts',
+      handler: 'handler',
+      timeout: cdk.Duration.minutes(10),
+      environment: {
+        ...commonLambdaProps.environment,
+        // Must be a verified SES identity
+        SES_FROM_EMAIL: `no-reply@${domainName || 'awssmartcookingss.com'}`,
+      },
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
     // Collect all Lambda functions (including router)
     this.lambdaFunctions = [
       apiRouterFunction,
       authHandlerFunction,
       userProfileFunction,
       aiSuggestionFunction,
+      aiSuggestionStreamFunction,
       postsFunction,
       friendsFunction,
       notificationsFunction,
       adminFunction,
       monitoringFunction,
       savedRecipesFunction,
-      recipeSearchFunction
+      mealPlansFunction,
+      shoppingListsFunction,
+      pantryFunction,
+      recipeSearchFunction,
+      websocketFunction,
+      notificationDigestFunction
     ];
 
     // ================================================================
@@ -330,6 +443,10 @@ export class ModularStack extends cdk.Stack {
     // S3 permissions for posts (image uploads)
     this.storage.imagesBucket.grantReadWrite(postsFunction);
 
+    // S3 permissions for recipe exports (PDFs are stored and handed out as download links)
+    this.storage.imagesBucket.grantReadWrite(savedRecipesFunction);
+    this.storage.imagesBucket.grantReadWrite(apiRouterFunction);
+
     // CloudWatch permissions
     const cloudWatchMetricsPolicy = new iam.PolicyStatement({
       effect: iam.Effect.ALLOW,
@@ -357,6 +474,22 @@ export class ModularStack extends cdk.Stack {
       ]
     });
     aiSuggestionFunction.addToRolePolicy(bedrockPolicy);
+    aiSuggestionStreamFunction.addToRolePolicy(bedrockPolicy);
+    mealPlansFunction.addToRolePolicy(bedrockPolicy);
+    shoppingListsFunction.addToRolePolicy(bedrockPolicy);
+
+    // Automated moderation of posts and comments (lambda/shared/business/moderation).
+    // Images are checked with Rekognition; the LLM text classifier is opt-in via MODERATION_LLM_CLASSIFIER.
+    const moderationPolicy = new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['rekognition:DetectModerationLabels'],
+      resources: ['*']
+    });
+    [apiRouterFunction, postsFunction].forEach(fn => {
+      fn.addToRolePolicy(moderationPolicy);
+      fn.addToRolePolicy(bedrockPolicy);
+      fn.addEnvironment('MODERATION_IMAGE_CLASSIFIER', 'rekognition');
+    });
 
     // ================================================================
     // 6.5. EVENTBRIDGE SCHEDULED RULES
@@ -382,6 +515,30 @@ export class ModularStack extends cdk.Stack {
       new iam.ServicePrincipal('events.amazonaws.com')
     );
 
+    // Notification digests - daily at 1 AM UTC (8 AM in Vietnam); weekly digests go out on Mondays
+    const notificationDigestRule = new events.Rule(this, 'NotificationDigestScheduleRule', {
+      ruleName: `smart-cooking-notification-digest-${environment}`,
+      description: 'Send daily and weekly notification digest emails',
+      schedule: events.Schedule.cron({
+        hour: '1',
+        minute: '0',
+      }),
+      enabled: true,
+    });
+
+    notificationDigestRule.addTarget(
+      new targets.LambdaFunction(notificationDigestFunction, {
+        retryAttempts: 2,
+      })
+    );
+
+    // Digests are emailed through SES
+    notificationDigestFunction.addToRolePolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['ses:SendEmail'],
+      resources: ['*']
+    }));
+
     // Optional: Weekly abuse cleanup (runs every Monday at 2 AM UTC)
     // Note: TTL already handles auto-deletion, this is just for reporting/analytics
     const abuseCleanupRule = new events.Rule(this, 'AbuseCleanupScheduleRule', {
@@ -455,6 +612,35 @@ export class ModularStack extends cdk.Stack {
     // Also add method to v1 root
     v1.addMethod('ANY', routerIntegration);
 
+    // ================================================================
+    // 8.1. WEBSOCKET API (real-time notifications)
+    // ================================================================
+    this.webSocketApi = new apigwv2.WebSocketApi(this, 'WebSocketApi', {
+      apiName: `smart-cooking-websocket-${environment}`,
+      description: 'Pushes notifications to connected clients',
+      connectRouteOptions: {
+        integration: new WebSocketLambdaIntegration('WebSocketConnect', websocketFunction),
+      },
+      disconnectRouteOptions: {
+        integration: new WebSocketLambdaIntegration('WebSocketDisconnect', websocketFunction),
+      },
+      defaultRouteOptions: {
+        integration: new WebSocketLambdaIntegration('WebSocketDefault', websocketFunction),
+      },
+    });
+
+    const webSocketStage = new apigwv2.WebSocketStage(this, 'WebSocketStage', {
+      webSocketApi: this.webSocketApi,
+      stageName: environment,
+      autoDeploy: true,
+    });
+
+    // Any function can create a notification, so every function can push to connections
+    this.lambdaFunctions.forEach(fn => {
+      fn.addEnvironment('WEBSOCKET_ENDPOINT', webSocketStage.callbackUrl);
+      this.webSocketApi.grantManageConnections(fn);
+    });
+
     this.monitoringStack = new MonitoringStack(this, 'Monitoring', {
       environment,
       table: this.database.table,
@@ -501,6 +687,18 @@ export class ModularStack extends cdk.Stack {
       exportName: `SmartCooking-${environment}-ApiGatewayName`,
     });
 
+    new cdk.CfnOutput(this, 'WebSocketUrl', {
+      value: webSocketStage.url,
+      description: 'Real-time notifications WebSocket (NEXT_PUBLIC_WS_URL)',
+      exportName: `SmartCooking-${environment}-WebSocketUrl`,
+    });
+
+    new cdk.CfnOutput(this, 'AISuggestionStreamUrl', {
+      value: aiSuggestionStreamUrl.url,
+      description: 'Streaming recipe suggestions (NEXT_PUBLIC_AI_STREAM_URL)',
+      exportName: `SmartCooking-${environment}-AISuggestionStreamUrl`,
+    });
+
     // EventBridge outputs
     new cdk.CfnOutput(this, 'MonitoringScheduleRuleName', {
       value: monitoringScheduleRule.ruleName,
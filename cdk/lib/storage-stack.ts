@@ -45,6 +45,11 @@ export class StorageStack extends Construct {
         {
           abortIncompleteMultipartUploadAfter: cdk.Duration.days(7),
         },
+        {
+          // Generated recipe PDFs are only reachable through short-lived download links
+          prefix: 'exports/',
+          expiration: cdk.Duration.days(1),
+        },
         {
           transitions: [
             {
@@ -393,22 +393,23 @@ describe('Friends API - Integration Tests', () => {
             username: 'testuser5',
             full_name: 'Test User 5',
             avatar_url: 'https://example.com/avatar5.jpg',
-            is_friend: false,
+            friendship_status: 'none',
           },
           {
             user_id: 'user-6',
             username: 'testuser6',
             full_name: 'Test User 6',
             avatar_url: 'https://example.com/avatar6.jpg',
-            is_friend: true,
+            friendship_status: 'accepted',
           },
         ],
+        next_cursor: 'cursor-2',
       };
 
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
         status: 200,
-        json: async () => mockResponse,
+        json: async () => ({ success: true, data: mockResponse }),
       });
 
       // Act
@@ -417,10 +418,11 @@ describe('Friends API - Integration Tests', () => {
       // Assert
       expect(result.users).toHaveLength(2);
       expect(result.users[0].username).toBe('testuser5');
-      expect(result.users[0].is_friend).toBe(false);
-      expect(result.users[1].is_friend).toBe(true);
+      expect(result.users[0].friendship_status).toBe('none');
+      expect(result.users[1].friendship_status).toBe('accepted');
+      expect(result.next_cursor).toBe('cursor-2');
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining(`${API_URL}/users/search?q=testuser`),
+        expect.stringContaining(`${API_URL}/v1/users/search?q=testuser`),
         expect.objectContaining({
           headers: expect.objectContaining({
             'Authorization': `Bearer ${mockToken}`,
@@ -439,7 +441,7 @@ describe('Friends API - Integration Tests', () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
         status: 200,
-        json: async () => mockResponse,
+        json: async () => ({ success: true, data: mockResponse }),
       });
 
       // Act
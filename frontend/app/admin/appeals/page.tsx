@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import AdminRoute from '@/components/AdminRoute';
+import {
+  getAppeals,
+  approveAppeal,
+  denyAppeal,
+  AppealQueueItem
+} from '@/services/admin';
+import { AppealStatus } from '@/services/appeals';
+
+const TABS: Array<{ status: AppealStatus; label: string }> = [
+  { status: 'pending', label: 'Chờ xử lý' },
+  { status: 'approved', label: 'Đã chấp nhận' },
+  { status: 'denied', label: 'Đã từ chối' }
+];
+
+export default function AdminAppealsPage() {
+  return (
+    <AdminRoute permission="appeals:review">
+      <AdminAppealsContent />
+    </AdminRoute>
+  );
+}
+
+function AdminAppealsContent() {
+  const [status, setStatus] = useState<AppealStatus>('pending');
+  const [appeals, setAppeals] = useState<AppealQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  const loadAppeals = useCallback(async () => {
+    try {
+      setLoading(true);
+      setAppeals(await getAppeals(status));
+    } catch (error) {
+      console.error('Failed to load appeals:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadAppeals();
+  }, [loadAppeals]);
+
+  async function handleApprove(appeal: AppealQueueItem) {
+    const notes = prompt('Ghi chú gửi người dùng (không bắt buộc):');
+    if (notes === null) return;
+
+    try {
+      setReviewing(appeal.appeal_id);
+      const result = await approveAppeal(appeal.user_id, appeal.suspension_id, notes || undefined);
+      alert(result.suspension_lifted ? 'Đã chấp nhận khiếu nại và mở khóa tài khoản' : 'Đã chấp nhận khiếu nại (lần khóa đã kết thúc)');
+      await loadAppeals();
+    } catch (error) {
+      console.error('Failed to approve appeal:', error);
+      alert('Lỗi khi chấp nhận khiếu nại');
+    } finally {
+      setReviewing(null);
+    }
+  }
+
+  async function handleDeny(appeal: AppealQueueItem) {
+    const reason = prompt('Nhập lý do từ chối:');
+    if (!reason) return;
+
+    try {
+      setReviewing(appeal.appeal_id);
+      await denyAppeal(appeal.user_id, appeal.suspension_id, reason);
+      alert('Đã từ chối khiếu nại');
+      await loadAppeals();
+    } catch (error) {
+      console.error('Failed to deny appeal:', error);
+      alert('Lỗi khi từ chối khiếu nại');
+    } finally {
+      setReviewing(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">Khiếu nại khóa tài khoản</h1>
+
+        <div className="flex gap-2 mb-6">
+          {TABS.map((tab) => (
+            <button
+              key={tab.status}
+              onClick={() => setStatus(tab.status)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                status === tab.status ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 border hover:bg-gray-50'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Đang tải...</p>
+          </div>
+        ) : appeals.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">Không có khiếu nại nào</div>
+        ) : (
+          <div className="space-y-4">
+            {appeals.map((appeal) => (
+              <div key={appeal.appeal_id} className="bg-white rounded-lg shadow p-6">
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">@{appeal.username || appeal.user_id}</h2>
+                    <p className="text-sm text-gray-500">
+                      {appeal.suspension_reason} • Khóa lúc {new Date(appeal.suspension_id).toLocaleString('vi-VN')}
+                      {appeal.suspended_until && ` đến ${new Date(appeal.suspended_until).toLocaleString('vi-VN')}`}
+                    </p>
+                  </div>
+                  <span className="text-xs text-gray-500">{new Date(appeal.created_at).toLocaleString('vi-VN')}</span>
+                </div>
+
+                <p className="text-gray-700 whitespace-pre-line mb-3">{appeal.text}</p>
+
+                {appeal.evidence_urls.length > 0 && (
+                  <ul className="mb-3 space-y-1">
+                    {appeal.evidence_urls.map((url) => (
+                      <li key={url}>
+                        <a href={url} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:underline break-all">
+                          {url}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {appeal.review_note && (
+                  <p className="text-sm text-gray-600 italic mb-3">Ghi chú: {appeal.review_note}</p>
+                )}
+
+                {appeal.status === 'pending' && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleApprove(appeal)}
+                      disabled={reviewing === appeal.appeal_id}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Chấp nhận & mở khóa
+                    </button>
+                    <button
+                      onClick={() => handleDeny(appeal)}
+                      disabled={reviewing === appeal.appeal_id}
+                      className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Từ chối
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
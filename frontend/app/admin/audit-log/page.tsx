@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import AdminRoute from '@/components/AdminRoute';
+import {
+  getAuditLog,
+  AdminAction,
+  AdminActionType,
+  AuditLogFilters
+} from '@/services/admin';
+
+const ACTION_LABELS: Record<AdminActionType, string> = {
+  ban_user: 'Khóa tài khoản',
+  unban_user: 'Mở khóa tài khoản',
+  approve_recipe: 'Duyệt công thức',
+  reject_recipe: 'Từ chối công thức',
+  remove_post: 'Gỡ bài viết',
+  dismiss_report: 'Bỏ qua báo cáo',
+  approve_ban: 'Xác nhận khóa tự động',
+  reject_ban: 'Hủy khóa tự động',
+  approve_appeal: 'Chấp nhận khiếu nại',
+  deny_appeal: 'Từ chối khiếu nại',
+  approve_content: 'Duyệt nội dung',
+  reject_content: 'Gỡ nội dung',
+  hide_post: 'Ẩn bài viết'
+};
+
+const PAGE_SIZE = 50;
+
+// Largest page the API returns
+const EXPORT_PAGE_SIZE = 500;
+
+// CSV export follows the cursor through at most this many entries
+const MAX_EXPORT_ENTRIES = 5000;
+
+const CSV_COLUMNS: Array<keyof AdminAction> = [
+  'created_at',
+  'admin_id',
+  'admin_username',
+  'action_type',
+  'target_type',
+  'target_id',
+  'target_user_id',
+  'reason',
+  'notes'
+];
+
+function toCsv(entries: AdminAction[]): string {
+  const escape = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => escape(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+function downloadCsv(content: string, filename: string) {
+  // BOM so spreadsheet apps read Vietnamese text as UTF-8
+  const href = URL.createObjectURL(new Blob(['\uFEFF' + content], { type: 'text/csv;charset=utf-8' }));
+
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(href);
+}
+
+export default function AdminAuditLogPage() {
+  return (
+    <AdminRoute permission="audit:read">
+      <AdminAuditLogContent />
+    </AdminRoute>
+  );
+}
+
+function AdminAuditLogContent() {
+  const [draft, setDraft] = useState<AuditLogFilters>({});
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [entries, setEntries] = useState<AdminAction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const loadEntries = useCallback(async (cursor?: string) => {
+    try {
+      setLoading(true);
+      const page = await getAuditLog({ ...filters, limit: PAGE_SIZE, cursor });
+      setEntries(previous => (cursor ? [...previous, ...page.entries] : page.entries));
+      setNextCursor(page.next_cursor);
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+      alert('Lỗi khi tải nhật ký quản trị');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  function updateDraft(key: keyof AuditLogFilters, value: string) {
+    setDraft(previous => ({ ...previous, [key]: value || undefined }));
+  }
+
+  function handleSearch(e: React.FormEvent) {
+    e.preventDefault();
+    setFilters(draft);
+  }
+
+  function handleReset() {
+    setDraft({});
+    setFilters({});
+  }
+
+  async function handleExport() {
+    try {
+      setExporting(true);
+      const all: AdminAction[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await getAuditLog({ ...filters, limit: EXPORT_PAGE_SIZE, cursor });
+        all.push(...page.entries);
+        cursor = page.next_cursor;
+      } while (cursor && all.length < MAX_EXPORT_ENTRIES);
+
+      const today = new Date().toISOString().slice(0, 10);
+      downloadCsv(toCsv(all), `audit-log-${today}.csv`);
+
+      if (cursor) {
+        alert(`Chỉ xuất ${all.length} mục đầu tiên. Thu hẹp bộ lọc để xuất phần còn lại.`);
+      }
+    } catch (error) {
+      console.error('Failed to export audit log:', error);
+      alert('Lỗi khi xuất nhật ký quản trị');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Nhật ký quản trị</h1>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+          >
+            {exporting ? 'Đang xuất...' : 'Xuất CSV'}
+          </button>
+        </div>
+
+        <form onSubmit={handleSearch} className="bg-white rounded-lg shadow p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Quản trị viên (ID)</label>
+              <input
+                type="text"
+                value={draft.admin_id || ''}
+                onChange={(e) => updateDraft('admin_id', e.target.value.trim())}
+                className="w-full px-3 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Hành động</label>
+              <select
+                value={draft.action_type || ''}
+                onChange={(e) => updateDraft('action_type', e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg"
+              >
+                <option value="">Tất cả</option>
+                {(Object.keys(ACTION_LABELS) as AdminActionType[]).map((type) => (
+                  <option key={type} value={type}>{ACTION_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Người dùng bị tác động (ID)</label>
+              <input
+                type="text"
+                value={draft.target_user_id || ''}
+                onChange={(e) => updateDraft('target_user_id', e.target.value.trim())}
+                className="w-full px-3 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Từ ngày</label>
+              <input
+                type="date"
+                value={draft.from || ''}
+                onChange={(e) => updateDraft('from', e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Đến ngày</label>
+              <input
+                type="date"
+                value={draft.to || ''}
+                onChange={(e) => updateDraft('to', e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2 mt-4">
+            <button type="submit" className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700">
+              Lọc
+            </button>
+            <button type="button" onClick={handleReset} className="px-4 py-2 bg-white text-gray-700 border rounded-lg hover:bg-gray-50">
+              Xóa bộ lọc
+            </button>
+          </div>
+        </form>
+
+        {loading && entries.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Đang tải...</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">Không có mục nào</div>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Thời gian</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Quản trị viên</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Hành động</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Đối tượng</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Người dùng</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Lý do</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <tr key={entry.action_id}>
+                    <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleString('vi-VN')}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {entry.admin_username ? `@${entry.admin_username}` : entry.admin_id}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {ACTION_LABELS[entry.action_type] || entry.action_type}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 break-all">
+                      {entry.target_type}: {entry.target_id}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 break-all">{entry.target_user_id || '—'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {entry.reason || '—'}
+                      {entry.notes && <p className="text-xs text-gray-500 italic">{entry.notes}</p>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {nextCursor && (
+          <div className="text-center mt-6">
+            <button
+              onClick={() => loadEntries(nextCursor)}
+              disabled={loading}
+              className="px-4 py-2 bg-white text-gray-700 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              {loading ? 'Đang tải...' : 'Tải thêm'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
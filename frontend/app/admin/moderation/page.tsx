@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import AdminRoute from '@/components/AdminRoute';
+import {
+  getHeldContent,
+  reviewHeldContent,
+  HeldContentItem,
+  ReviewStatus
+} from '@/services/admin';
+
+const TABS: Array<{ status: ReviewStatus; label: string }> = [
+  { status: 'held', label: 'Chờ duyệt' },
+  { status: 'approved', label: 'Đã duyệt' },
+  { status: 'rejected', label: 'Đã gỡ' }
+];
+
+const SEVERITY_STYLES: Record<string, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800',
+  critical: 'bg-red-200 text-red-900'
+};
+
+export default function AdminModerationPage() {
+  return (
+    <AdminRoute permission="content:moderate">
+      <AdminModerationContent />
+    </AdminRoute>
+  );
+}
+
+function AdminModerationContent() {
+  const [status, setStatus] = useState<ReviewStatus>('held');
+  const [items, setItems] = useState<HeldContentItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      setItems(await getHeldContent(status));
+    } catch (error) {
+      console.error('Failed to load held content:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  async function handleReview(item: HeldContentItem, decision: 'approve' | 'reject') {
+    const notes = prompt(decision === 'approve' ? 'Ghi chú (không bắt buộc):' : 'Lý do gỡ (không bắt buộc):');
+    if (notes === null) return;
+
+    try {
+      setReviewing(item.content_id);
+      const result = await reviewHeldContent(item, decision, notes || undefined);
+      if (!result.content_found) {
+        alert('Nội dung đã bị tác giả xóa, đã đóng yêu cầu duyệt');
+      }
+      await loadItems();
+    } catch (error) {
+      console.error('Failed to review held content:', error);
+      alert('Lỗi khi duyệt nội dung');
+    } finally {
+      setReviewing(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Kiểm duyệt nội dung</h1>
+        <p className="text-gray-600 mb-8">Bài viết và bình luận bị hệ thống tự động giữ lại để duyệt</p>
+
+        <div className="flex gap-2 mb-6">
+          {TABS.map((tab) => (
+            <button
+              key={tab.status}
+              onClick={() => setStatus(tab.status)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                status === tab.status ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 border hover:bg-gray-50'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Đang tải...</p>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">Không có nội dung nào</div>
+        ) : (
+          <div className="space-y-4">
+            {items.map((item) => (
+              <div key={`${item.content_type}-${item.content_id}`} className="bg-white rounded-lg shadow p-6">
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      {item.content_type === 'post' ? 'Bài viết' : 'Bình luận'} của @{item.username || item.user_id}
+                    </h2>
+                    <a
+                      href={`/posts/${item.post_id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-blue-600 hover:underline"
+                    >
+                      Xem bài viết
+                    </a>
+                  </div>
+                  <span className="text-xs text-gray-500">{new Date(item.created_at).toLocaleString('vi-VN')}</span>
+                </div>
+
+                <p className="text-gray-700 whitespace-pre-line mb-3">{item.excerpt}</p>
+
+                {item.images.length > 0 && (
+                  <ul className="mb-3 space-y-1">
+                    {item.images.map((image) => (
+                      <li key={image} className="text-sm text-gray-600 break-all">🖼️ {image}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {item.signals.map((signal, index) => (
+                    <span
+                      key={index}
+                      className={`px-2 py-1 text-xs font-medium rounded-full ${SEVERITY_STYLES[signal.severity]}`}
+                      title={signal.matches?.join(', ')}
+                    >
+                      {signal.reason}
+                    </span>
+                  ))}
+                </div>
+
+                {item.review_note && (
+                  <p className="text-sm text-gray-600 italic mb-3">Ghi chú: {item.review_note}</p>
+                )}
+
+                {item.status === 'held' && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleReview(item, 'approve')}
+                      disabled={reviewing === item.content_id}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Duyệt & đăng
+                    </button>
+                    <button
+                      onClick={() => handleReview(item, 'reject')}
+                      disabled={reviewing === item.content_id}
+                      className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Gỡ
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -72,6 +72,24 @@ export default function AdminDashboard() {
                   >
                     Users
                   </a>
+                  <a
+                    href="/admin/appeals"
+                    className="text-purple-200 hover:bg-purple-700 hover:text-white px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Appeals
+                  </a>
+                  <a
+                    href="/admin/moderation"
+                    className="text-purple-200 hover:bg-purple-700 hover:text-white px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Moderation
+                  </a>
+                  <a
+                    href="/admin/audit-log"
+                    className="text-purple-200 hover:bg-purple-700 hover:text-white px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Audit Log
+                  </a>
                   <a
                     href="/admin/recipes"
                     className="text-purple-200 hover:bg-purple-700 hover:text-white px-3 py-2 rounded-md text-sm font-medium"
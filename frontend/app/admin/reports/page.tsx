@@ -3,12 +3,15 @@
  * Dashboard for managing user reports
  */
 
+import AdminRoute from '@/components/AdminRoute';
 import ReportsDashboard from '@/components/admin/ReportsDashboard';
 
 export default function AdminReportsPage() {
   return (
-    <div className="container mx-auto px-4 py-8">
-      <ReportsDashboard />
-    </div>
+    <AdminRoute permission="content:moderate">
+      <div className="container mx-auto px-4 py-8">
+        <ReportsDashboard />
+      </div>
+    </AdminRoute>
   );
 }
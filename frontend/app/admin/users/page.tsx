@@ -13,7 +13,7 @@ import {
 
 export default function AdminUsersPage() {
   return (
-    <AdminRoute>
+    <AdminRoute permission="users:read">
       <AdminUsersContent />
     </AdminRoute>
   );
@@ -1,28 +1,95 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import IngredientInput from '@/components/search/IngredientInput';
 import SectionCard from '@/components/search/SectionCard';
-import { getSearchCounts, getSectionPosts, CountsResponse, SectionResponse } from '@/services/search';
+import RecipeCard from '@/components/recipes/RecipeCard';
+import RecipeDetailModal from '@/components/recipes/RecipeDetailModal';
+import { getSearchCounts, getSectionPosts, CountsResponse, SectionResponse, SearchSortBy } from '@/services/search';
+import { streamRecipeSuggestions } from '@/services/aiSuggestions';
+import { Recipe, AISuggestionStats } from '@/types/recipe';
+
+const AI_RECIPE_COUNT = 3;
+
+// Community posts are ranked by how much of each recipe the user can already cook
+const SEARCH_MODE = 'ranked';
 
 export default function AISuggestPage() {
   const router = useRouter();
   const [ingredients, setIngredients] = useState<string[]>([]);
   const [counts, setCounts] = useState<CountsResponse | null>(null);
-  const [sortBy, setSortBy] = useState<'date' | 'likes' | 'comments'>('date');
+  const [sortBy, setSortBy] = useState<SearchSortBy>('match');
   const [loading, setLoading] = useState(false);
   const [sectionData, setSectionData] = useState<Record<string, SectionResponse>>({});
 
+  // Streamed AI suggestions
+  const [aiRecipes, setAiRecipes] = useState<Recipe[]>([]);
+  const [aiStats, setAiStats] = useState<AISuggestionStats | null>(null);
+  const [aiStreaming, setAiStreaming] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+
+  const [usingExpiring, setUsingExpiring] = useState(false);
+  const expiringLinkHandledRef = useRef(false);
+
+  // Stop an in-flight stream when leaving the page
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
+  const loadAISuggestions = useCallback(async (useExpiring = false) => {
+    streamAbortRef.current?.abort();
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+
+    setAiRecipes([]);
+    setAiStats(null);
+    setAiError(null);
+    setAiStreaming(true);
+    setUsingExpiring(useExpiring);
+
+    try {
+      await streamRecipeSuggestions(ingredients, AI_RECIPE_COUNT, frame => {
+        if (frame.type === 'recipe') {
+          setAiRecipes(prev => [...prev, frame.recipe]);
+        } else if (frame.type === 'stats') {
+          setAiStats(frame.stats);
+        } else {
+          setAiError(frame.message);
+        }
+      }, controller.signal, { useExpiring });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('AI suggestion failed:', error);
+      setAiError('Không thể lấy gợi ý từ AI. Vui lòng thử lại.');
+    } finally {
+      if (streamAbortRef.current === controller) {
+        setAiStreaming(false);
+      }
+    }
+  }, [ingredients]);
+
+  // Linked from the pantry page: start with what's about to expire, once per visit
+  useEffect(() => {
+    if (expiringLinkHandledRef.current) return;
+    expiringLinkHandledRef.current = true;
+    if (new URLSearchParams(window.location.search).get('use_expiring')) {
+      loadAISuggestions(true);
+    }
+  }, [loadAISuggestions]);
+
   async function handleSearch() {
     if (ingredients.length === 0) {
       alert('Vui lòng nhập ít nhất 1 thành phần');
       return;
     }
 
+    // Recipes stream in independently of the community search
+    loadAISuggestions();
+
     setLoading(true);
     try {
-      const countsData = await getSearchCounts(ingredients);
+      const countsData = await getSearchCounts(ingredients, SEARCH_MODE);
       setCounts(countsData);
     } catch (error) {
       console.error('Search failed:', error);
@@ -38,7 +105,8 @@ export default function AISuggestPage() {
       section as 'my' | 'friends' | 'public',
       page,
       10,
-      sortBy
+      sortBy,
+      SEARCH_MODE
     );
 
     setSectionData(prev => ({
@@ -67,37 +135,58 @@ export default function AISuggestPage() {
         >
           {loading ? 'Đang tìm...' : 'Tìm món ăn'}
         </button>
+
+        <button
+          onClick={() => loadAISuggestions(true)}
+          disabled={aiStreaming}
+          className="mt-2 w-full px-6 py-3 border border-orange-400 text-orange-600 rounded-lg hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          ⏰ Dùng nguyên liệu sắp hết hạn trong tủ bếp
+        </button>
       </div>
 
       {/* AI Suggestions Section */}
-      {counts && (
+      {(aiStreaming || aiRecipes.length > 0 || aiError) && (
         <div className="bg-white rounded-lg shadow p-6 mb-6">
           <h2 className="text-xl font-semibold mb-4">🤖 Gợi ý từ AI</h2>
           <p className="text-gray-600 mb-4">
-            Với {ingredients.join(', ')}, bạn có thể nấu:
+            {usingExpiring
+              ? 'Ưu tiên nguyên liệu sắp hết hạn trong tủ bếp, bạn có thể nấu:'
+              : `Với ${ingredients.join(', ')}, bạn có thể nấu:`}
           </p>
-          
-          {/* TODO: Integrate with AI service */}
-          <div className="space-y-3">
-            <div className="p-4 border rounded-lg hover:bg-gray-50">
-              <h3 className="font-medium">🍲 Món gợi ý 1</h3>
-              <p className="text-sm text-gray-600">Thêm: nước màu, hành tím</p>
-              <div className="mt-2 flex gap-2">
-                <button 
-                  onClick={() => router.push('/ai-suggest/recipe/1')}
-                  className="text-blue-600 hover:text-blue-800"
-                >
-                  Xem công thức AI →
-                </button>
-                <button 
-                  onClick={() => router.push('/ai-suggest/save/1')}
-                  className="text-green-600 hover:text-green-800"
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {aiRecipes.map(recipe => (
+              <div key={recipe.recipe_id} className="flex flex-col">
+                <RecipeCard recipe={recipe} onClick={() => setSelectedRecipe(recipe)} />
+                <button
+                  onClick={() => router.push(`/ai-suggest/save/${recipe.recipe_id}`)}
+                  className="mt-2 text-green-600 hover:text-green-800"
                 >
                   Lưu & Chỉnh sửa
                 </button>
               </div>
-            </div>
+            ))}
+
+            {/* Placeholders for recipes still being generated */}
+            {aiStreaming && Array.from({ length: Math.max(0, AI_RECIPE_COUNT - aiRecipes.length) }).map((_, i) => (
+              <div key={`pending-${i}`} className="h-64 rounded-lg bg-gray-100 animate-pulse" />
+            ))}
           </div>
+
+          {aiStreaming && (
+            <p className="mt-4 text-sm text-gray-500">Đang tạo thêm món ăn...</p>
+          )}
+
+          {aiStats && (
+            <p className="mt-4 text-sm text-gray-500">
+              {aiStats.from_database} món từ cơ sở dữ liệu, {aiStats.from_ai} món do AI tạo
+            </p>
+          )}
+
+          {aiError && (
+            <p className="mt-4 text-sm text-red-600">{aiError}</p>
+          )}
         </div>
       )}
 
@@ -109,6 +198,16 @@ export default function AISuggestPage() {
             
             {/* Sort Filter */}
             <div className="flex gap-2">
+              <button
+                onClick={() => setSortBy('match')}
+                className={`px-3 py-1 rounded ${
+                  sortBy === 'match' 
+                    ? 'bg-blue-600 text-white' 
+                    : 'bg-gray-200 text-gray-700'
+                }`}
+              >
+                Phù hợp nhất
+              </button>
               <button
                 onClick={() => setSortBy('date')}
                 className={`px-3 py-1 rounded ${
@@ -151,6 +250,7 @@ export default function AISuggestPage() {
               section="my"
               ingredients={ingredients}
               sortBy={sortBy}
+              data={sectionData['my']}
               onLoadPosts={handleLoadPosts}
             />
 
@@ -161,6 +261,7 @@ export default function AISuggestPage() {
               section="friends"
               ingredients={ingredients}
               sortBy={sortBy}
+              data={sectionData['friends']}
               onLoadPosts={handleLoadPosts}
             />
 
@@ -171,6 +272,7 @@ export default function AISuggestPage() {
               section="public"
               ingredients={ingredients}
               sortBy={sortBy}
+              data={sectionData['public']}
               onLoadPosts={handleLoadPosts}
             />
           </div>
@@ -181,6 +283,12 @@ export default function AISuggestPage() {
           </div>
         </div>
       )}
+
+      <RecipeDetailModal
+        recipe={selectedRecipe}
+        isOpen={selectedRecipe !== null}
+        onClose={() => setSelectedRecipe(null)}
+      />
     </div>
   );
 }
@@ -19,10 +19,12 @@ export async function GET(
 
     const { searchParams } = new URL(request.url);
     const limit = searchParams.get('limit') || '20';
+    const nextToken = searchParams.get('nextToken');
     const { postId } = params;
+    const query = new URLSearchParams({ limit, ...(nextToken && { last_key: nextToken }) });
 
     const response = await fetch(
-      `${API_BASE_URL}/v1/posts/${postId}/comments?limit=${limit}`,
+      `${API_BASE_URL}/v1/posts/${postId}/comments?${query}`,
       {
         headers: {
           'Authorization': authorization,
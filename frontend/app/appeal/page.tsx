@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import {
+  getMySuspensions,
+  submitAppeal,
+  AppealStatus,
+  UserSuspension
+} from '@/services/appeals';
+
+const STATUS_LABELS: Record<AppealStatus, { label: string; className: string }> = {
+  pending: { label: 'Đang chờ xem xét', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Đã chấp nhận', className: 'bg-green-100 text-green-800' },
+  denied: { label: 'Đã từ chối', className: 'bg-red-100 text-red-800' }
+};
+
+const MIN_TEXT_LENGTH = 20;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_EVIDENCE_URLS = 5;
+
+export default function AppealPage() {
+  return (
+    <ProtectedRoute>
+      <AppealContent />
+    </ProtectedRoute>
+  );
+}
+
+function AppealContent() {
+  const [suspensions, setSuspensions] = useState<UserSuspension[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSuspensions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSuspensions(await getMySuspensions());
+    } catch (err) {
+      console.error('Failed to load suspensions:', err);
+      setError(err instanceof Error ? err.message : 'Không thể tải lịch sử khóa tài khoản');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSuspensions();
+  }, [loadSuspensions]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Đang tải...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Khiếu nại khóa tài khoản</h1>
+        <p className="text-gray-600 mb-6">
+          Nếu bạn cho rằng tài khoản bị khóa nhầm, hãy gửi khiếu nại. Đội ngũ quản trị sẽ xem xét trong vòng 24-48 giờ.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg">{error}</div>
+        )}
+
+        {suspensions.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+            Tài khoản của bạn chưa từng bị khóa.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {suspensions.map((suspension) => (
+              <SuspensionCard
+                key={suspension.suspension_id}
+                suspension={suspension}
+                onSubmitted={loadSuspensions}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SuspensionCard({
+  suspension,
+  onSubmitted
+}: {
+  suspension: UserSuspension;
+  onSubmitted: () => void;
+}) {
+  const [text, setText] = useState('');
+  const [evidence, setEvidence] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canAppeal = suspension.can_appeal && suspension.is_active && !suspension.appeal;
+  const status = suspension.appeal ? STATUS_LABELS[suspension.appeal.status] : null;
+
+  async function handleSubmit() {
+    const evidenceUrls = evidence.split('\n').map(url => url.trim()).filter(Boolean);
+
+    if (text.trim().length < MIN_TEXT_LENGTH) {
+      setError(`Vui lòng mô tả ít nhất ${MIN_TEXT_LENGTH} ký tự`);
+      return;
+    }
+    if (evidenceUrls.length > MAX_EVIDENCE_URLS) {
+      setError(`Tối đa ${MAX_EVIDENCE_URLS} liên kết bằng chứng`);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await submitAppeal(suspension.suspension_id, text.trim(), evidenceUrls);
+      onSubmitted();
+    } catch (err) {
+      console.error('Failed to submit appeal:', err);
+      setError(err instanceof Error ? err.message : 'Không thể gửi khiếu nại');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{suspension.suspension_reason}</h2>
+          <p className="text-sm text-gray-500">
+            {new Date(suspension.suspended_at).toLocaleString('vi-VN')} → {new Date(suspension.suspended_until).toLocaleString('vi-VN')}
+          </p>
+        </div>
+        <span className={`px-2 py-1 text-xs font-medium rounded-full ${suspension.is_active ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-600'}`}>
+          {suspension.is_active ? 'Đang bị khóa' : 'Đã kết thúc'}
+        </span>
+      </div>
+
+      {suspension.appeal && status && (
+        <div className="border-t pt-3">
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-sm text-gray-600">Khiếu nại:</span>
+            <span className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>{status.label}</span>
+          </div>
+          <p className="text-sm text-gray-700 whitespace-pre-line">{suspension.appeal.text}</p>
+          {suspension.appeal.review_note && (
+            <p className="mt-2 text-sm text-gray-600 italic">Phản hồi: {suspension.appeal.review_note}</p>
+          )}
+        </div>
+      )}
+
+      {!suspension.appeal && !suspension.can_appeal && (
+        <p className="text-sm text-gray-500 border-t pt-3">Lần khóa này không thể khiếu nại do mức độ vi phạm nghiêm trọng.</p>
+      )}
+
+      {canAppeal && (
+        <div className="border-t pt-4 space-y-3">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={MAX_TEXT_LENGTH}
+            rows={5}
+            placeholder="Giải thích vì sao bạn cho rằng tài khoản bị khóa nhầm..."
+            className="w-full px-4 py-2 border rounded-lg"
+          />
+          <div className="text-xs text-gray-500 text-right">{text.length}/{MAX_TEXT_LENGTH}</div>
+          <textarea
+            value={evidence}
+            onChange={(e) => setEvidence(e.target.value)}
+            rows={2}
+            placeholder="Liên kết bằng chứng (không bắt buộc, mỗi dòng một liên kết)"
+            className="w-full px-4 py-2 border rounded-lg text-sm"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting ? 'Đang gửi...' : 'Gửi khiếu nại'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
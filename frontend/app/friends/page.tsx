@@ -17,6 +17,7 @@ import {
 import FriendRequestCard from '@/components/friends/FriendRequestCard';
 import FriendCard from '@/components/friends/FriendCard';
 import UserSearch from '@/components/friends/UserSearch';
+import FriendSuggestions from '@/components/friends/FriendSuggestions';
 
 type Tab = 'all' | 'pending' | 'search';
 
@@ -236,11 +237,16 @@ export default function FriendsPage() {
                 )}
               </div>
             )}
-
-            {/* Search Tab */}
-            {activeTab === 'search' && <UserSearch />}
           </>
         )}
+
+        {/* Search Tab */}
+        {activeTab === 'search' && (
+          <div className="space-y-6">
+            <FriendSuggestions />
+            <UserSearch />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,306 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import { getAllRecipes, SavedRecipe } from '@/services/savedRecipes';
+import {
+  getMealPlan,
+  setSlot,
+  clearSlot,
+  moveSlot,
+  fillEmptySlots,
+  getWeekStart,
+  shiftWeek,
+  MealPlan,
+  MealType,
+  SlotRef,
+  MEAL_TYPES
+} from '@/services/mealPlans';
+
+const MEAL_LABELS: Record<MealType, string> = {
+  breakfast: '🌅 Sáng',
+  lunch: '☀️ Trưa',
+  dinner: '🌙 Tối'
+};
+
+const DAY_LABELS = ['Thứ 2', 'Thứ 3', 'Thứ 4', 'Thứ 5', 'Thứ 6', 'Thứ 7', 'Chủ nhật'];
+
+export default function MealPlansPage() {
+  return (
+    <ProtectedRoute>
+      <MealPlansContent />
+    </ProtectedRoute>
+  );
+}
+
+function MealPlansContent() {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart());
+  const [plan, setPlan] = useState<MealPlan | null>(null);
+  const [savedRecipes, setSavedRecipes] = useState<SavedRecipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pickerSlot, setPickerSlot] = useState<SlotRef | null>(null);
+  const [dragSource, setDragSource] = useState<SlotRef | null>(null);
+  const [ingredientsInput, setIngredientsInput] = useState('');
+  const [filling, setFilling] = useState(false);
+  const [fillMessage, setFillMessage] = useState<string | null>(null);
+
+  const loadPlan = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setPlan(await getMealPlan(weekStart));
+    } catch (err) {
+      console.error('Failed to load meal plan:', err);
+      setError(err instanceof Error ? err.message : 'Không thể tải thực đơn');
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    loadPlan();
+  }, [loadPlan]);
+
+  useEffect(() => {
+    getAllRecipes()
+      .then(setSavedRecipes)
+      .catch(err => console.error('Failed to load saved recipes:', err));
+  }, []);
+
+  async function runUpdate(update: () => Promise<MealPlan>) {
+    try {
+      setError(null);
+      setPlan(await update());
+    } catch (err) {
+      console.error('Failed to update meal plan:', err);
+      setError(err instanceof Error ? err.message : 'Không thể cập nhật thực đơn');
+    }
+  }
+
+  async function handlePickRecipe(savedId: string) {
+    if (!pickerSlot) return;
+    const slot = pickerSlot;
+    setPickerSlot(null);
+    await runUpdate(() => setSlot(weekStart, slot, savedId));
+  }
+
+  async function handleDrop(target: SlotRef) {
+    const source = dragSource;
+    setDragSource(null);
+    if (!source || (source.date === target.date && source.meal === target.meal)) return;
+    await runUpdate(() => moveSlot(weekStart, source, target));
+  }
+
+  async function handleFill() {
+    const ingredients = ingredientsInput.split(',').map(i => i.trim()).filter(Boolean);
+    if (ingredients.length === 0) {
+      alert('Vui lòng nhập nguyên liệu bạn có');
+      return;
+    }
+
+    try {
+      setFilling(true);
+      setError(null);
+      setFillMessage(null);
+      const result = await fillEmptySlots(weekStart, ingredients);
+      setPlan(result.plan);
+      setFillMessage(
+        result.remaining_empty > 0
+          ? `Đã thêm ${result.filled.length} món. Còn ${result.remaining_empty} bữa trống, bấm lần nữa để gợi ý tiếp.`
+          : `Đã thêm ${result.filled.length} món vào thực đơn.`
+      );
+    } catch (err) {
+      console.error('Failed to fill meal plan:', err);
+      setError(err instanceof Error ? err.message : 'Không thể gợi ý món');
+    } finally {
+      setFilling(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">🗓️ Thực đơn tuần</h1>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setWeekStart(shiftWeek(weekStart, -1))}
+              className="px-3 py-2 bg-white border rounded-lg hover:bg-gray-100"
+            >
+              ← Tuần trước
+            </button>
+            <button
+              onClick={() => setWeekStart(getWeekStart())}
+              className="px-3 py-2 bg-white border rounded-lg hover:bg-gray-100"
+            >
+              Tuần này
+            </button>
+            <button
+              onClick={() => setWeekStart(shiftWeek(weekStart, 1))}
+              className="px-3 py-2 bg-white border rounded-lg hover:bg-gray-100"
+            >
+              Tuần sau →
+            </button>
+          </div>
+        </div>
+
+        {/* AI fill */}
+        <div className="bg-white rounded-lg shadow p-4 mb-6">
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              type="text"
+              value={ingredientsInput}
+              onChange={(e) => setIngredientsInput(e.target.value)}
+              placeholder="Nguyên liệu bạn có (vd: thịt gà, cà chua, trứng)"
+              className="flex-1 px-4 py-2 border rounded-lg"
+            />
+            <button
+              onClick={handleFill}
+              disabled={filling}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {filling ? 'Đang gợi ý...' : '✨ Gợi ý món cho bữa trống'}
+            </button>
+          </div>
+          {fillMessage && <p className="mt-2 text-sm text-green-700">{fillMessage}</p>}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 mb-6">{error}</div>
+        )}
+
+        {loading || !plan ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="grid grid-cols-[auto_repeat(7,minmax(140px,1fr))] gap-2 min-w-[1100px]">
+              {/* Day headers */}
+              <div />
+              {plan.days.map((day, index) => (
+                <div key={day.date} className="text-center font-semibold text-gray-700 py-2">
+                  <div>{DAY_LABELS[index]}</div>
+                  <div className="text-xs text-gray-500">{day.date.slice(8, 10)}/{day.date.slice(5, 7)}</div>
+                </div>
+              ))}
+
+              {MEAL_TYPES.map(meal => (
+                <MealRow
+                  key={meal}
+                  meal={meal}
+                  plan={plan}
+                  dragSource={dragSource}
+                  onDragStart={setDragSource}
+                  onDrop={handleDrop}
+                  onAdd={setPickerSlot}
+                  onRemove={(slot) => runUpdate(() => clearSlot(weekStart, slot))}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Saved recipe picker */}
+        {pickerSlot && (
+          <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[80vh] flex flex-col">
+              <div className="p-4 border-b flex justify-between items-center">
+                <h3 className="text-lg font-semibold">
+                  Chọn món cho {MEAL_LABELS[pickerSlot.meal]} {pickerSlot.date.slice(8, 10)}/{pickerSlot.date.slice(5, 7)}
+                </h3>
+                <button onClick={() => setPickerSlot(null)} className="text-gray-500 hover:text-gray-700">✕</button>
+              </div>
+              <div className="overflow-y-auto p-2">
+                {savedRecipes.length === 0 ? (
+                  <p className="p-4 text-gray-500 text-center">Bạn chưa lưu món nào.</p>
+                ) : (
+                  savedRecipes.map(recipe => (
+                    <button
+                      key={recipe.saved_id}
+                      onClick={() => handlePickRecipe(recipe.saved_id)}
+                      className="w-full text-left px-4 py-3 rounded-lg hover:bg-blue-50"
+                    >
+                      <div className="font-medium text-gray-900">{recipe.recipe_name}</div>
+                      <div className="text-xs text-gray-500">{recipe.recipe_ingredients.length} nguyên liệu</div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface MealRowProps {
+  meal: MealType;
+  plan: MealPlan;
+  dragSource: SlotRef | null;
+  onDragStart: (slot: SlotRef) => void;
+  onDrop: (slot: SlotRef) => void;
+  onAdd: (slot: SlotRef) => void;
+  onRemove: (slot: SlotRef) => void;
+}
+
+function MealRow({ meal, plan, dragSource, onDragStart, onDrop, onAdd, onRemove }: MealRowProps) {
+  return (
+    <>
+      <div className="flex items-center font-semibold text-gray-700 pr-2">{MEAL_LABELS[meal]}</div>
+      {plan.days.map(day => {
+        const slot = { date: day.date, meal };
+        const entry = day.meals[meal];
+
+        return (
+          <div
+            key={day.date}
+            onDragOver={(e) => dragSource && e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              onDrop(slot);
+            }}
+            className={`min-h-[96px] rounded-lg border-2 border-dashed p-2 ${
+              dragSource ? 'border-blue-300 bg-blue-50/40' : 'border-gray-200 bg-white'
+            }`}
+          >
+            {entry ? (
+              <div
+                draggable
+                onDragStart={() => onDragStart(slot)}
+                className="h-full rounded-md bg-white border border-gray-200 shadow-sm p-2 cursor-move"
+              >
+                <div className="flex justify-between gap-1">
+                  <span className="text-sm font-medium text-gray-900 line-clamp-2">{entry.recipe_name}</span>
+                  <button
+                    onClick={() => onRemove(slot)}
+                    className="text-gray-400 hover:text-red-600 text-xs"
+                    title="Xóa khỏi thực đơn"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="mt-1 text-xs text-gray-500">
+                  👥 {entry.servings}
+                  {entry.total_time_minutes ? ` · ⏱️ ${entry.total_time_minutes}'` : ''}
+                  {entry.source_type === 'suggestion' ? ' · ✨' : ''}
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => onAdd(slot)}
+                className="w-full h-full min-h-[76px] text-gray-400 hover:text-blue-600 text-2xl"
+                title="Thêm món"
+              >
+                +
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
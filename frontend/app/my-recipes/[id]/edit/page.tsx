@@ -4,7 +4,10 @@ import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import RecipeForm, { RecipeFormData } from '@/components/recipes/RecipeForm';
-import { getRecipe, updateRecipe, SavedRecipe } from '@/services/savedRecipes';
+import RecipeHistory from '@/components/recipes/RecipeHistory';
+import ShareToFeedButton from '@/components/recipes/ShareToFeedButton';
+import ExportMenu from '@/components/recipes/ExportMenu';
+import { getRecipe, updateRecipe, exportRecipe, SavedRecipe } from '@/services/savedRecipes';
 
 function EditRecipeContent() {
   const router = useRouter();
@@ -90,15 +93,29 @@ function EditRecipeContent() {
             Quay lại
           </button>
           
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            Chỉnh sửa công thức
-          </h1>
-          <p className="text-gray-600">
-            Cập nhật thông tin món ăn của bạn
-          </p>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                Chỉnh sửa công thức
+              </h1>
+              <p className="text-gray-600">
+                Cập nhật thông tin món ăn của bạn
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <ExportMenu
+                label="Xuất công thức"
+                onExport={(format) => exportRecipe(recipe.saved_id, format)}
+                className="px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              />
+              <ShareToFeedButton recipeId={recipe.saved_id} recipeTitle={recipe.recipe_name} />
+            </div>
+          </div>
         </div>
 
         <RecipeForm
+          // Re-mount after a restore so the form picks up the restored content
+          key={recipe.revision_count ?? 0}
           initialData={{
             recipe_name: recipe.recipe_name,
             recipe_ingredients: recipe.recipe_ingredients,
@@ -107,6 +124,15 @@ function EditRecipeContent() {
           onSave={handleSave}
           onCancel={handleCancel}
         />
+
+        <div className="mt-8">
+          <RecipeHistory
+            savedId={recipeId}
+            hasSourcePost={recipe.source_type === 'post' && !!recipe.source_id}
+            revisionCount={recipe.revision_count}
+            onRestored={loadRecipe}
+          />
+        </div>
       </div>
     </div>
   );
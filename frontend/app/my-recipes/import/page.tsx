@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import RecipeForm, { RecipeFormData } from '@/components/recipes/RecipeForm';
+import { importRecipe, saveRecipe, ImportedRecipe } from '@/services/savedRecipes';
+
+function ImportRecipeContent() {
+  const router = useRouter();
+
+  const [mode, setMode] = useState<'url' | 'text'>('url');
+  const [url, setUrl] = useState('');
+  const [text, setText] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState<ImportedRecipe | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleImport() {
+    try {
+      setImporting(true);
+      setError(null);
+      const result = await importRecipe(
+        mode === 'url' ? { url: url.trim() } : { text, ...(url.trim() && { url: url.trim() }) }
+      );
+      setImported(result);
+    } catch (err) {
+      setImported(null);
+      setError(err instanceof Error ? err.message : 'Không thể nhập công thức');
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function handleSave(data: RecipeFormData) {
+    if (!imported) return;
+
+    try {
+      // Keep the draft's source fields so the original page stays credited
+      const recipe = await saveRecipe({
+        ...imported.draft,
+        recipe_name: data.recipe_name,
+        recipe_ingredients: data.recipe_ingredients,
+        recipe_instructions: data.recipe_instructions.map((step) => ({
+          ...step,
+          duration_minutes: step.duration_minutes ?? null
+        }))
+      });
+
+      router.push(`/my-recipes/${recipe.saved_id}`);
+    } catch (err) {
+      alert('Lỗi khi lưu: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  const canImport = !importing && (mode === 'url' ? url.trim() !== '' : text.trim() !== '');
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4">
+        <div className="mb-6">
+          <button
+            onClick={() => router.push('/my-recipes')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Quay lại
+          </button>
+
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Nhập công thức</h1>
+          <p className="text-gray-600">
+            Dán đường dẫn tới trang công thức hoặc nội dung công thức, sau đó kiểm tra lại trước khi lưu
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <div className="flex gap-2 mb-4">
+            <button
+              onClick={() => setMode('url')}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${mode === 'url' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              Từ đường dẫn
+            </button>
+            <button
+              onClick={() => setMode('text')}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${mode === 'text' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              Dán nội dung
+            </button>
+          </div>
+
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder={mode === 'url' ? 'https://...' : 'Nguồn (không bắt buộc): https://...'}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 mb-3"
+          />
+
+          {mode === 'text' && (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={10}
+              placeholder={'Tên món\n\nNguyên liệu:\n- 300g thịt bò\n\nCách làm:\n1. ...'}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 mb-3"
+            />
+          )}
+
+          {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {importing ? 'Đang nhập...' : 'Nhập'}
+          </button>
+        </div>
+
+        {imported && (
+          <>
+            {imported.draft.original_post_url && (
+              <p className="mb-4 text-sm text-gray-600">
+                Nguồn:{' '}
+                <a href={imported.draft.original_post_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                  {imported.draft.original_author_username || imported.draft.original_post_url}
+                </a>
+              </p>
+            )}
+
+            <RecipeForm
+              // Each import starts a fresh form
+              key={JSON.stringify(imported.draft)}
+              initialData={{
+                recipe_name: imported.draft.recipe_name,
+                recipe_ingredients: imported.draft.recipe_ingredients.map((ingredient) => ({
+                  ...ingredient,
+                  unit: ingredient.unit || ''
+                })),
+                recipe_instructions: imported.draft.recipe_instructions.map((step) => ({
+                  ...step,
+                  duration_minutes: step.duration_minutes ?? undefined
+                }))
+              }}
+              onSave={handleSave}
+              onCancel={() => setImported(null)}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ImportRecipePage() {
+  return (
+    <ProtectedRoute>
+      <ImportRecipeContent />
+    </ProtectedRoute>
+  );
+}
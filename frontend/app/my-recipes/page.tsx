@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import ProtectedRoute from '@/components/ProtectedRoute';
+import ExportMenu from '@/components/recipes/ExportMenu';
 import {
   getRecipesWithGroups,
   deleteRecipe,
@@ -11,6 +12,7 @@ import {
   deleteGroup,
   addToGroup,
   removeFromGroup,
+  exportGroup,
   RecipesWithGroups,
   SavedRecipe,
   RecipeGroup
@@ -124,12 +126,20 @@ function MyRecipesContent() {
         {/* Header */}
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900">Món của tôi</h1>
-          <button
-            onClick={() => router.push('/ai-suggestions')}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-          >
-            + Tạo món mới
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => router.push('/my-recipes/import')}
+              className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Nhập công thức
+            </button>
+            <button
+              onClick={() => router.push('/ai-suggestions')}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              + Tạo món mới
+            </button>
+          </div>
         </div>
 
         {/* Stats */}
@@ -195,12 +205,22 @@ function MyRecipesContent() {
               <div className="p-6 border-b">
                 <div className="flex justify-between items-center">
                   <h3 className="text-xl font-semibold">🏷️ {group.group_name} ({group.items?.length || 0})</h3>
-                  <button
-                    onClick={() => handleDeleteGroup(group.group_id)}
-                    className="text-red-600 hover:text-red-800"
-                  >
-                    Xóa nhóm
-                  </button>
+                  <div className="flex items-center gap-4">
+                    {group.items && group.items.length > 0 && (
+                      <ExportMenu
+                        label="Xuất sách nấu ăn (PDF)"
+                        formats={['pdf']}
+                        onExport={() => exportGroup(group.group_id)}
+                        className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      />
+                    )}
+                    <button
+                      onClick={() => handleDeleteGroup(group.group_id)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Xóa nhóm
+                    </button>
+                  </div>
                 </div>
               </div>
               <div className="p-6">
@@ -316,6 +336,12 @@ function RecipeCard({
           </p>
         )}
 
+        {recipe.ancestry && recipe.ancestry.length > 1 && (
+          <p className="text-sm text-gray-500 mb-2">
+            🍴 Biến tấu từ @{recipe.ancestry[recipe.ancestry.length - 1].username || 'ẩn danh'}
+          </p>
+        )}
+
         <p className="text-sm text-gray-500 mb-4">
           {recipe.recipe_ingredients.length} thành phần • {recipe.recipe_instructions.length} bước
         </p>
@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import {
+  getPantryItems,
+  addPantryItem,
+  updatePantryItem,
+  deletePantryItem,
+  PantryItem,
+  PantryLocation
+} from '@/services/pantry';
+
+const LOCATION_LABELS: Record<PantryLocation, string> = {
+  fridge: '🧊 Tủ lạnh',
+  freezer: '❄️ Ngăn đá',
+  pantry: '🗄️ Tủ bếp'
+};
+
+const LOCATIONS: PantryLocation[] = ['fridge', 'freezer', 'pantry'];
+
+export default function PantryPage() {
+  return (
+    <ProtectedRoute>
+      <PantryContent />
+    </ProtectedRoute>
+  );
+}
+
+function PantryContent() {
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setItems(await getPantryItems());
+    } catch (err) {
+      console.error('Failed to load pantry:', err);
+      setError(err instanceof Error ? err.message : 'Không thể tải tủ bếp');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  async function handleQuantityChange(item: PantryItem, quantity: number | null) {
+    try {
+      setError(null);
+      const updated = await updatePantryItem(item.item_id, { quantity });
+      setItems(current => current.map(i => (i.item_id === updated.item_id ? updated : i)));
+    } catch (err) {
+      console.error('Failed to update pantry item:', err);
+      setError(err instanceof Error ? err.message : 'Không thể cập nhật');
+    }
+  }
+
+  async function handleDelete(item: PantryItem) {
+    try {
+      setError(null);
+      await deletePantryItem(item.item_id);
+      setItems(current => current.filter(i => i.item_id !== item.item_id));
+    } catch (err) {
+      console.error('Failed to delete pantry item:', err);
+      setError(err instanceof Error ? err.message : 'Không thể xóa');
+    }
+  }
+
+  const expiringCount = items.filter(item => item.expiry_status === 'expiring').length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">🥫 Tủ bếp</h1>
+          {expiringCount > 0 && (
+            <Link
+              href="/ai-suggest?use_expiring=1"
+              className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600"
+            >
+              ⏰ Nấu {expiringCount} món sắp hết hạn
+            </Link>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 mb-6">{error}</div>
+        )}
+
+        <AddItemForm onAdded={item => setItems(current => [...current, item])} />
+
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+            Tủ bếp đang trống. Thêm nguyên liệu bạn đang có để nhận gợi ý món ăn.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {LOCATIONS.map(location => {
+              // Items arrive sorted soonest-to-expire first
+              const group = items.filter(item => item.location === location);
+              if (group.length === 0) return null;
+
+              return (
+                <div key={location} className="bg-white rounded-lg shadow p-6">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-3">{LOCATION_LABELS[location]}</h2>
+                  <ul className="divide-y">
+                    {group.map(item => (
+                      <li key={item.item_id} className="flex items-center gap-3 py-2">
+                        <div className="flex-1">
+                          <span className="font-medium text-gray-900">{item.name}</span>
+                          {item.notes && <div className="text-xs text-gray-400">{item.notes}</div>}
+                        </div>
+                        <input
+                          type="number"
+                          min={0}
+                          step="any"
+                          defaultValue={item.quantity ?? ''}
+                          onBlur={(e) => {
+                            const value = e.target.value === '' ? null : Number(e.target.value);
+                            if (value !== item.quantity) handleQuantityChange(item, value);
+                          }}
+                          className="w-20 px-2 py-1 border rounded text-sm"
+                        />
+                        <span className="w-16 text-sm text-gray-500">{item.unit}</span>
+                        <ExpiryBadge item={item} />
+                        <button
+                          onClick={() => handleDelete(item)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Xóa"
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ExpiryBadge({ item }: { item: PantryItem }) {
+  const days = item.days_until_expiry;
+
+  switch (item.expiry_status) {
+    case 'expired':
+      return <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700">Đã hết hạn</span>;
+    case 'expiring':
+      return (
+        <span className="px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-700">
+          {days === 0 ? 'Hết hạn hôm nay' : `Còn ${days} ngày`}
+        </span>
+      );
+    case 'fresh':
+      return <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-700">Còn {days} ngày</span>;
+    default:
+      return <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-500">Không rõ hạn</span>;
+  }
+}
+
+function AddItemForm({ onAdded }: { onAdded: (item: PantryItem) => void }) {
+  const [name, setName] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [unit, setUnit] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [location, setLocation] = useState<PantryLocation>('fridge');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const item = await addPantryItem({
+        name: name.trim(),
+        quantity: quantity === '' ? null : Number(quantity),
+        unit: unit.trim() || null,
+        purchase_date: new Date().toISOString().slice(0, 10),
+        expiry_date: expiryDate || undefined,
+        location
+      });
+      onAdded(item);
+      setName('');
+      setQuantity('');
+      setUnit('');
+      setExpiryDate('');
+    } catch (err) {
+      console.error('Failed to add pantry item:', err);
+      setError(err instanceof Error ? err.message : 'Không thể thêm nguyên liệu');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-4 mb-6">
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nguyên liệu (vd: thịt ba chỉ)"
+          className="flex-1 min-w-[180px] px-3 py-2 border rounded-lg"
+        />
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          placeholder="Số lượng"
+          className="w-24 px-3 py-2 border rounded-lg"
+        />
+        <input
+          type="text"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value)}
+          placeholder="Đơn vị"
+          className="w-24 px-3 py-2 border rounded-lg"
+        />
+        <input
+          type="date"
+          value={expiryDate}
+          onChange={(e) => setExpiryDate(e.target.value)}
+          title="Hạn sử dụng"
+          className="px-3 py-2 border rounded-lg"
+        />
+        <select
+          value={location}
+          onChange={(e) => setLocation(e.target.value as PantryLocation)}
+          className="px-3 py-2 border rounded-lg"
+        >
+          {LOCATIONS.map(loc => (
+            <option key={loc} value={loc}>{LOCATION_LABELS[loc]}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={saving || !name.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Đang thêm...' : '+ Thêm'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </form>
+  );
+}
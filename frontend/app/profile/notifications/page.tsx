@@ -0,0 +1,313 @@
+/**
+ * Notification Settings Page
+ * Choose which notifications show in-app or in the email digest, quiet hours and digest frequency
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import {
+    getNotificationPreferences,
+    updateNotificationPreferences,
+    NotificationPreferences,
+    NotificationChannels,
+    NotificationDigestFrequency,
+    NotificationType,
+} from '@/services/notifications';
+
+// Moderation notices can't be turned off
+const NOTIFICATION_TYPE_LABELS: Record<Exclude<NotificationType, 'moderation'>, { label: string; description: string }> = {
+    reaction: { label: 'Likes', description: 'Someone likes your post' },
+    comment: { label: 'Comments', description: 'Comments on your posts and replies to your comments' },
+    mention: { label: 'Mentions', description: 'Someone @mentions you in a post or comment' },
+    friend_request: { label: 'Friend requests', description: 'Someone sends you a friend request' },
+    friend_accept: { label: 'Accepted requests', description: 'Someone accepts your friend request' },
+    recipe_approved: { label: 'Recipe approvals', description: 'A recipe you submitted is approved' },
+    recipe_forked: { label: 'Recipe variations', description: 'Someone publishes a variation of your recipe' },
+};
+
+const DIGEST_OPTIONS: { value: NotificationDigestFrequency; label: string }[] = [
+    { value: 'off', label: 'Off' },
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekly', label: 'Weekly (Mondays)' },
+];
+
+function Toggle({ checked, onChange, label }: { checked: boolean; onChange: (checked: boolean) => void; label: string }) {
+    return (
+        <button
+            type="button"
+            role="switch"
+            aria-checked={checked}
+            aria-label={label}
+            onClick={() => onChange(!checked)}
+            className={`relative inline-flex h-6 w-11 flex-shrink-0 rounded-full transition ${
+                checked ? 'bg-blue-600' : 'bg-gray-300'
+            }`}
+        >
+            <span
+                className={`inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transform transition ${
+                    checked ? 'translate-x-5' : 'translate-x-0.5'
+                }`}
+            />
+        </button>
+    );
+}
+
+function NotificationSettingsContent() {
+    const { token } = useAuth();
+    const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+    const [initialPreferences, setInitialPreferences] = useState<NotificationPreferences | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!token) return;
+
+        getNotificationPreferences(token)
+            .then((result) => {
+                setPreferences(result);
+                setInitialPreferences(result);
+                setError(null);
+            })
+            .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load notification settings'))
+            .finally(() => setLoading(false));
+    }, [token]);
+
+    const update = (changes: Partial<NotificationPreferences>) => {
+        setPreferences((prev) => (prev ? { ...prev, ...changes } : prev));
+        setSuccess(null);
+        setError(null);
+    };
+
+    const updateChannel = (type: NotificationType, channel: keyof NotificationChannels, enabled: boolean) => {
+        if (!preferences) return;
+        update({
+            types: {
+                ...preferences.types,
+                [type]: { ...preferences.types[type], [channel]: enabled },
+            },
+        });
+    };
+
+    const updateQuietHours = (changes: Partial<NotificationPreferences['quiet_hours']>) => {
+        if (!preferences) return;
+        update({ quiet_hours: { ...preferences.quiet_hours, ...changes } });
+    };
+
+    const handleSave = async () => {
+        if (!token || !preferences) return;
+
+        setSaving(true);
+        setError(null);
+        setSuccess(null);
+
+        try {
+            const saved = await updateNotificationPreferences(token, {
+                types: preferences.types,
+                quiet_hours: preferences.quiet_hours,
+                digest: preferences.digest,
+            });
+            setPreferences(saved);
+            setInitialPreferences(saved);
+            setSuccess('Notification settings saved');
+            setTimeout(() => setSuccess(null), 3000);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save notification settings');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleReset = () => {
+        setPreferences(initialPreferences);
+        setSuccess(null);
+        setError(null);
+    };
+
+    const hasChanges = JSON.stringify(preferences) !== JSON.stringify(initialPreferences);
+    const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-gray-50 py-8 px-4">
+                <div className="max-w-4xl mx-auto">
+                    <div className="flex items-center justify-center py-12">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8 px-4 sm:px-6 lg:px-8">
+            <div className="max-w-4xl mx-auto">
+                <Link
+                    href="/profile"
+                    className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-6 transition"
+                >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                    </svg>
+                    Back to Profile
+                </Link>
+
+                <div className="mb-6">
+                    <h1 className="text-3xl font-bold text-gray-900">Notification Settings</h1>
+                    <p className="text-gray-600 mt-2">
+                        Choose what you hear about and when
+                    </p>
+                </div>
+
+                {success && (
+                    <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+                        <p className="text-sm text-green-800">{success}</p>
+                    </div>
+                )}
+
+                {error && (
+                    <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                        <p className="text-sm text-red-800">{error}</p>
+                    </div>
+                )}
+
+                {preferences && (
+                    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                        {/* Per-type channels */}
+                        <div className="p-6">
+                            <div className="flex items-center justify-end gap-8 pb-2 text-xs font-medium uppercase text-gray-500">
+                                <span className="w-11 text-center">In-app</span>
+                                <span className="w-11 text-center">Email</span>
+                            </div>
+                            <div className="divide-y divide-gray-100">
+                                {(Object.keys(NOTIFICATION_TYPE_LABELS) as Array<keyof typeof NOTIFICATION_TYPE_LABELS>).map((type) => (
+                                    <div key={type} className="flex items-center justify-between py-4">
+                                        <div>
+                                            <p className="font-medium text-gray-900">{NOTIFICATION_TYPE_LABELS[type].label}</p>
+                                            <p className="text-sm text-gray-600">{NOTIFICATION_TYPE_LABELS[type].description}</p>
+                                        </div>
+                                        <div className="flex items-center gap-8">
+                                            <Toggle
+                                                label={`${NOTIFICATION_TYPE_LABELS[type].label} in-app`}
+                                                checked={preferences.types[type]?.in_app ?? true}
+                                                onChange={(enabled) => updateChannel(type, 'in_app', enabled)}
+                                            />
+                                            <Toggle
+                                                label={`${NOTIFICATION_TYPE_LABELS[type].label} by email`}
+                                                checked={preferences.types[type]?.email ?? true}
+                                                onChange={(enabled) => updateChannel(type, 'email', enabled)}
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Email digest */}
+                        <div className="p-6 border-t border-gray-200">
+                            <h2 className="text-lg font-semibold text-gray-900">Email Digest</h2>
+                            <p className="text-sm text-gray-600 mt-1">
+                                A summary of notifications with email turned on, instead of one email each
+                            </p>
+                            <div className="mt-4 flex gap-2">
+                                {DIGEST_OPTIONS.map((option) => (
+                                    <button
+                                        key={option.value}
+                                        type="button"
+                                        onClick={() => update({ digest: option.value })}
+                                        className={`px-4 py-2 rounded-lg border text-sm font-medium transition ${
+                                            preferences.digest === option.value
+                                                ? 'bg-blue-600 border-blue-600 text-white'
+                                                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                                        }`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Quiet hours */}
+                        <div className="p-6 border-t border-gray-200">
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <h2 className="text-lg font-semibold text-gray-900">Quiet Hours</h2>
+                                    <p className="text-sm text-gray-600 mt-1">
+                                        No live alerts during these hours; notifications wait in your list
+                                    </p>
+                                </div>
+                                <Toggle
+                                    label="Quiet hours"
+                                    checked={preferences.quiet_hours.enabled}
+                                    onChange={(enabled) => updateQuietHours({ enabled })}
+                                />
+                            </div>
+                            {preferences.quiet_hours.enabled && (
+                                <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                                    <label className="flex items-center gap-2">
+                                        From
+                                        <input
+                                            type="time"
+                                            value={preferences.quiet_hours.start}
+                                            onChange={(e) => updateQuietHours({ start: e.target.value })}
+                                            className="px-3 py-2 border border-gray-300 rounded-lg"
+                                        />
+                                    </label>
+                                    <label className="flex items-center gap-2">
+                                        to
+                                        <input
+                                            type="time"
+                                            value={preferences.quiet_hours.end}
+                                            onChange={(e) => updateQuietHours({ end: e.target.value })}
+                                            className="px-3 py-2 border border-gray-300 rounded-lg"
+                                        />
+                                    </label>
+                                    <span className="text-gray-500">({preferences.quiet_hours.timezone})</span>
+                                    {preferences.quiet_hours.timezone !== browserTimezone && (
+                                        <button
+                                            type="button"
+                                            onClick={() => updateQuietHours({ timezone: browserTimezone })}
+                                            className="text-blue-600 hover:text-blue-700 font-medium"
+                                        >
+                                            Use my time zone
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="bg-gray-50 px-6 py-4 flex items-center justify-between border-t border-gray-200">
+                            <button
+                                onClick={handleReset}
+                                disabled={!hasChanges || saving}
+                                className="px-4 py-2 text-gray-700 hover:text-gray-900 font-medium disabled:opacity-50 disabled:cursor-not-allowed transition"
+                            >
+                                Reset
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={!hasChanges || saving}
+                                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {saving ? 'Saving...' : 'Save'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default function NotificationSettingsPage() {
+    return (
+        <ProtectedRoute>
+            <NotificationSettingsContent />
+        </ProtectedRoute>
+    );
+}
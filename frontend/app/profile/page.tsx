@@ -353,6 +353,12 @@ function ProfilePageContent() {
                     >
                       Privacy Settings
                     </Link>
+                    <Link
+                      href="/profile/notifications"
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      Notification Settings
+                    </Link>
                     <Link
                       href="/notifications"
                       className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
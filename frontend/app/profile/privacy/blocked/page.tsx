@@ -0,0 +1,174 @@
+/**
+ * Blocked Users Page
+ * Manage users you have blocked or muted
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import {
+    getBlockedUsers,
+    getMutedUsers,
+    unblockUser,
+    unmuteUser,
+    RestrictedUser,
+    RestrictionType,
+} from '@/services/blocks';
+
+function RestrictedUserRow({
+    user,
+    actionLabel,
+    onAction,
+}: {
+    user: RestrictedUser;
+    actionLabel: string;
+    onAction: () => void;
+}) {
+    return (
+        <li className="flex items-center justify-between py-4">
+            <Link href={`/users/${user.user_id}`} className="flex items-center gap-3 min-w-0">
+                <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-gray-600 font-medium">
+                    {user.username.charAt(0).toUpperCase()}
+                </div>
+                <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{user.full_name || user.username}</p>
+                    <p className="text-sm text-gray-500 truncate">
+                        @{user.username} · since {new Date(user.since).toLocaleDateString()}
+                    </p>
+                </div>
+            </Link>
+            <button
+                onClick={onAction}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition"
+            >
+                {actionLabel}
+            </button>
+        </li>
+    );
+}
+
+function BlockedUsersContent() {
+    const [blocked, setBlocked] = useState<RestrictedUser[]>([]);
+    const [muted, setMuted] = useState<RestrictedUser[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadUsers = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            const [blockedUsers, mutedUsers] = await Promise.all([getBlockedUsers(), getMutedUsers()]);
+            setBlocked(blockedUsers);
+            setMuted(mutedUsers);
+        } catch (err) {
+            console.error('Failed to load blocked users:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load blocked users');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadUsers();
+    }, [loadUsers]);
+
+    const handleRemove = async (user: RestrictedUser, restriction: RestrictionType) => {
+        try {
+            setError(null);
+            if (restriction === 'block') {
+                await unblockUser(user.user_id);
+                setBlocked(current => current.filter(u => u.user_id !== user.user_id));
+            } else {
+                await unmuteUser(user.user_id);
+                setMuted(current => current.filter(u => u.user_id !== user.user_id));
+            }
+        } catch (err) {
+            console.error('Failed to update restriction:', err);
+            setError(err instanceof Error ? err.message : 'Failed to update');
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8 px-4 sm:px-6 lg:px-8">
+            <div className="max-w-4xl mx-auto">
+                <Link
+                    href="/profile/privacy"
+                    className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-6 transition"
+                >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                    </svg>
+                    Back to Privacy Settings
+                </Link>
+
+                <div className="mb-6">
+                    <h1 className="text-3xl font-bold text-gray-900">Blocked & Muted Users</h1>
+                    <p className="text-gray-600 mt-2">
+                        Blocked users can&apos;t see your posts or interact with you. Muted users stay your
+                        friends, but their posts, comments and notifications are hidden from you.
+                    </p>
+                </div>
+
+                {error && (
+                    <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                        <p className="text-sm text-red-800">{error}</p>
+                    </div>
+                )}
+
+                {loading ? (
+                    <div className="flex items-center justify-center py-12">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : (
+                    <div className="space-y-6">
+                        <section className="bg-white rounded-lg shadow-md p-6">
+                            <h2 className="text-lg font-semibold text-gray-900">Blocked ({blocked.length})</h2>
+                            {blocked.length === 0 ? (
+                                <p className="text-sm text-gray-500 mt-2">You haven&apos;t blocked anyone.</p>
+                            ) : (
+                                <ul className="divide-y divide-gray-200">
+                                    {blocked.map(user => (
+                                        <RestrictedUserRow
+                                            key={user.user_id}
+                                            user={user}
+                                            actionLabel="Unblock"
+                                            onAction={() => handleRemove(user, 'block')}
+                                        />
+                                    ))}
+                                </ul>
+                            )}
+                        </section>
+
+                        <section className="bg-white rounded-lg shadow-md p-6">
+                            <h2 className="text-lg font-semibold text-gray-900">Muted ({muted.length})</h2>
+                            {muted.length === 0 ? (
+                                <p className="text-sm text-gray-500 mt-2">You haven&apos;t muted anyone.</p>
+                            ) : (
+                                <ul className="divide-y divide-gray-200">
+                                    {muted.map(user => (
+                                        <RestrictedUserRow
+                                            key={user.user_id}
+                                            user={user}
+                                            actionLabel="Unmute"
+                                            onAction={() => handleRemove(user, 'mute')}
+                                        />
+                                    ))}
+                                </ul>
+                            )}
+                        </section>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default function BlockedUsersPage() {
+    return (
+        <ProtectedRoute>
+            <BlockedUsersContent />
+        </ProtectedRoute>
+    );
+}
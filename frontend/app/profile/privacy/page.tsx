@@ -220,6 +220,32 @@ function PrivacySettingsContent() {
                         </button>
                     </div>
                 </div>
+
+                <Link
+                    href="/profile/privacy/blocked"
+                    className="mt-6 flex items-center justify-between bg-white rounded-lg shadow-md p-6 hover:bg-gray-50 transition"
+                >
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900">Blocked & Muted Users</h2>
+                        <p className="text-sm text-gray-600 mt-1">Manage who can interact with you and whose content you see</p>
+                    </div>
+                    <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                </Link>
+
+                <Link
+                    href="/profile/notifications"
+                    className="mt-4 flex items-center justify-between bg-white rounded-lg shadow-md p-6 hover:bg-gray-50 transition"
+                >
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900">Notification Settings</h2>
+                        <p className="text-sm text-gray-600 mt-1">Choose which notifications you get in-app and by email, quiet hours and digests</p>
+                    </div>
+                    <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                </Link>
             </div>
         </div>
     );
@@ -0,0 +1,439 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import { useAuth } from '@/contexts/AuthContext';
+import { getAllRecipes, SavedRecipe } from '@/services/savedRecipes';
+import { getFriends, Friend } from '@/services/friends';
+import { getWeekStart } from '@/services/mealPlans';
+import {
+  getShoppingLists,
+  createShoppingList,
+  setItemChecked,
+  shareShoppingList,
+  unshareShoppingList,
+  deleteShoppingList,
+  ShoppingList,
+  ShoppingListItem
+} from '@/services/shoppingLists';
+
+const CATEGORY_LABELS: Record<string, string> = {
+  vegetable: '🥬 Rau củ',
+  herb: '🌿 Rau thơm',
+  protein: '🥩 Thịt, cá, trứng',
+  dairy: '🧀 Sữa',
+  carb: '🍚 Gạo, bún, bánh',
+  spice: '🧂 Gia vị',
+  condiment: '🫙 Nước chấm, dầu',
+  other: '🛒 Khác'
+};
+
+export default function ShoppingListsPage() {
+  return (
+    <ProtectedRoute>
+      <ShoppingListsContent />
+    </ProtectedRoute>
+  );
+}
+
+function ShoppingListsContent() {
+  const { user, token } = useAuth();
+  const [lists, setLists] = useState<ShoppingList[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [savedRecipes, setSavedRecipes] = useState<SavedRecipe[]>([]);
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+
+  const loadLists = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await getShoppingLists();
+      setLists(result);
+      setSelectedId(current => current ?? result[0]?.list_id ?? null);
+    } catch (err) {
+      console.error('Failed to load shopping lists:', err);
+      setError(err instanceof Error ? err.message : 'Không thể tải danh sách đi chợ');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLists();
+  }, [loadLists]);
+
+  useEffect(() => {
+    getAllRecipes()
+      .then(setSavedRecipes)
+      .catch(err => console.error('Failed to load saved recipes:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+    getFriends(token, 'accepted')
+      .then(result => setFriends(result.friends))
+      .catch(err => console.error('Failed to load friends:', err));
+  }, [token]);
+
+  const selected = lists.find(list => list.list_id === selectedId) || null;
+
+  function replaceList(updated: ShoppingList) {
+    setLists(current => current.map(list => (list.list_id === updated.list_id ? updated : list)));
+  }
+
+  function handleCreated(list: ShoppingList) {
+    setShowCreate(false);
+    setLists(current => [list, ...current]);
+    setSelectedId(list.list_id);
+  }
+
+  async function handleToggle(item: ShoppingListItem) {
+    if (!selected) return;
+    const list = selected;
+
+    // Optimistic update, reverted if the request fails
+    const toggled = { ...item, checked: !item.checked };
+    replaceList({ ...list, items: list.items.map(i => (i.item_id === item.item_id ? toggled : i)) });
+
+    try {
+      const saved = await setItemChecked(list.list_id, item.item_id, toggled.checked);
+      replaceList({ ...list, items: list.items.map(i => (i.item_id === item.item_id ? saved : i)) });
+    } catch (err) {
+      console.error('Failed to update item:', err);
+      replaceList(list);
+      setError(err instanceof Error ? err.message : 'Không thể cập nhật');
+    }
+  }
+
+  async function handleShare(friendId: string) {
+    if (!selected || !friendId) return;
+    try {
+      setError(null);
+      replaceList(await shareShoppingList(selected.list_id, friendId));
+    } catch (err) {
+      console.error('Failed to share shopping list:', err);
+      setError(err instanceof Error ? err.message : 'Không thể chia sẻ');
+    }
+  }
+
+  async function handleUnshare(friendId: string) {
+    if (!selected) return;
+    try {
+      setError(null);
+      const updated = await unshareShoppingList(selected.list_id, friendId);
+      if (friendId === user?.sub) {
+        // Left a list someone shared with us
+        setLists(current => current.filter(list => list.list_id !== updated.list_id));
+        setSelectedId(null);
+      } else {
+        replaceList(updated);
+      }
+    } catch (err) {
+      console.error('Failed to unshare shopping list:', err);
+      setError(err instanceof Error ? err.message : 'Không thể bỏ chia sẻ');
+    }
+  }
+
+  async function handleDelete() {
+    if (!selected || !confirm(`Xóa "${selected.name}"?`)) return;
+    try {
+      await deleteShoppingList(selected.list_id);
+      setLists(current => current.filter(list => list.list_id !== selected.list_id));
+      setSelectedId(null);
+    } catch (err) {
+      console.error('Failed to delete shopping list:', err);
+      setError(err instanceof Error ? err.message : 'Không thể xóa');
+    }
+  }
+
+  const isOwner = selected?.owner_id === user?.sub;
+  const friendName = (id: string) => friends.find(f => f.friend_id === id)?.full_name || id;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">🛒 Danh sách đi chợ</h1>
+          <button
+            onClick={() => setShowCreate(true)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            + Tạo danh sách
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 mb-6">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-6">
+            {/* Lists */}
+            <div className="space-y-2">
+              {lists.length === 0 && (
+                <p className="text-gray-500 text-sm">Chưa có danh sách nào.</p>
+              )}
+              {lists.map(list => {
+                const remaining = list.items.filter(item => !item.checked).length;
+                return (
+                  <button
+                    key={list.list_id}
+                    onClick={() => setSelectedId(list.list_id)}
+                    className={`w-full text-left p-3 rounded-lg border ${
+                      list.list_id === selectedId ? 'bg-blue-50 border-blue-300' : 'bg-white border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="font-medium text-gray-900">{list.name}</div>
+                    <div className="text-xs text-gray-500">
+                      Còn {remaining}/{list.items.length} món
+                      {list.owner_id !== user?.sub ? ' · 🤝 Được chia sẻ' : ''}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Selected list */}
+            {selected ? (
+              <div className="bg-white rounded-lg shadow p-6">
+                <div className="flex justify-between items-start gap-4 mb-4">
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900">{selected.name}</h2>
+                    <p className="text-sm text-gray-500">
+                      Từ: {selected.sources.map(source => source.name).join(', ')}
+                    </p>
+                  </div>
+                  {isOwner && (
+                    <button onClick={handleDelete} className="text-sm text-red-600 hover:text-red-700">
+                      Xóa
+                    </button>
+                  )}
+                </div>
+
+                <ItemsByCategory items={selected.items} onToggle={handleToggle} />
+
+                {/* Sharing */}
+                <div className="mt-6 pt-4 border-t">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Chia sẻ</h3>
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {selected.shared_with.length === 0 && (
+                      <span className="text-sm text-gray-500">Chưa chia sẻ với ai.</span>
+                    )}
+                    {selected.shared_with.map(id => (
+                      <span key={id} className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-full text-sm">
+                        {friendName(id)}
+                        {(isOwner || id === user?.sub) && (
+                          <button onClick={() => handleUnshare(id)} className="text-gray-400 hover:text-red-600">✕</button>
+                        )}
+                      </span>
+                    ))}
+                  </div>
+                  {isOwner && (
+                    <select
+                      value=""
+                      onChange={(e) => handleShare(e.target.value)}
+                      className="px-3 py-2 border rounded-lg text-sm"
+                    >
+                      <option value="">+ Chia sẻ với bạn bè...</option>
+                      {friends
+                        .filter(friend => !selected.shared_with.includes(friend.friend_id))
+                        .map(friend => (
+                          <option key={friend.friend_id} value={friend.friend_id}>{friend.full_name}</option>
+                        ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+                Chọn hoặc tạo một danh sách đi chợ.
+              </div>
+            )}
+          </div>
+        )}
+
+        {showCreate && (
+          <CreateListModal
+            savedRecipes={savedRecipes}
+            onClose={() => setShowCreate(false)}
+            onCreated={handleCreated}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ItemsByCategory({ items, onToggle }: { items: ShoppingListItem[]; onToggle: (item: ShoppingListItem) => void }) {
+  if (items.length === 0) {
+    return <p className="text-gray-500">Bạn đã có đủ nguyên liệu 🎉</p>;
+  }
+
+  // Items arrive sorted by category from the API
+  const groups: { category: string; items: ShoppingListItem[] }[] = [];
+  for (const item of items) {
+    const last = groups[groups.length - 1];
+    if (last && last.category === item.category) {
+      last.items.push(item);
+    } else {
+      groups.push({ category: item.category, items: [item] });
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.map(group => (
+        <div key={group.category}>
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">
+            {CATEGORY_LABELS[group.category] || group.category}
+          </h3>
+          <ul className="divide-y">
+            {group.items.map(item => (
+              <li key={item.item_id} className="flex items-center gap-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={item.checked}
+                  onChange={() => onToggle(item)}
+                  className="h-5 w-5 rounded border-gray-300"
+                />
+                <div className={`flex-1 ${item.checked ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                  <span className="font-medium">{item.name}</span>
+                  {item.quantity !== null && (
+                    <span className="ml-2 text-sm">{item.quantity}{item.unit ? ` ${item.unit}` : ''}</span>
+                  )}
+                  <div className="text-xs text-gray-400">{item.recipes.join(', ')}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CreateListModalProps {
+  savedRecipes: SavedRecipe[];
+  onClose: () => void;
+  onCreated: (list: ShoppingList) => void;
+}
+
+function CreateListModal({ savedRecipes, onClose, onCreated }: CreateListModalProps) {
+  const [name, setName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [includeMealPlan, setIncludeMealPlan] = useState(false);
+  const [alreadyHave, setAlreadyHave] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function toggleRecipe(savedId: string) {
+    setSelectedIds(current =>
+      current.includes(savedId) ? current.filter(id => id !== savedId) : [...current, savedId]
+    );
+  }
+
+  async function handleCreate() {
+    if (selectedIds.length === 0 && !includeMealPlan) {
+      setError('Chọn ít nhất một món hoặc thực đơn tuần');
+      return;
+    }
+
+    try {
+      setCreating(true);
+      setError(null);
+      const list = await createShoppingList({
+        name: name.trim() || undefined,
+        saved_ids: selectedIds,
+        meal_plan_week: includeMealPlan ? getWeekStart() : undefined,
+        already_have: alreadyHave.split(/[,\n]/).map(entry => entry.trim()).filter(Boolean)
+      });
+      onCreated(list);
+    } catch (err) {
+      console.error('Failed to create shopping list:', err);
+      setError(err instanceof Error ? err.message : 'Không thể tạo danh sách');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex justify-between items-center">
+          <h3 className="text-lg font-semibold">Tạo danh sách đi chợ</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-4">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Tên danh sách (không bắt buộc)"
+            className="w-full px-3 py-2 border rounded-lg"
+          />
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeMealPlan}
+              onChange={(e) => setIncludeMealPlan(e.target.checked)}
+            />
+            <span>🗓️ Tất cả món trong thực đơn tuần này</span>
+          </label>
+
+          <div>
+            <div className="text-sm font-semibold text-gray-700 mb-1">Món đã lưu</div>
+            <div className="max-h-48 overflow-y-auto border rounded-lg divide-y">
+              {savedRecipes.length === 0 ? (
+                <p className="p-3 text-sm text-gray-500">Bạn chưa lưu món nào.</p>
+              ) : (
+                savedRecipes.map(recipe => (
+                  <label key={recipe.saved_id} className="flex items-center gap-2 px-3 py-2 hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(recipe.saved_id)}
+                      onChange={() => toggleRecipe(recipe.saved_id)}
+                    />
+                    <span className="text-sm">{recipe.recipe_name}</span>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-semibold text-gray-700 mb-1">Đã có sẵn ở nhà</div>
+            <textarea
+              value={alreadyHave}
+              onChange={(e) => setAlreadyHave(e.target.value)}
+              placeholder="vd: nước mắm, 200g thịt gà, 2 quả trứng"
+              rows={3}
+              className="w-full px-3 py-2 border rounded-lg"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 border rounded-lg hover:bg-gray-50">Hủy</button>
+          <button
+            onClick={handleCreate}
+            disabled={creating}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {creating ? 'Đang tạo...' : 'Tạo danh sách'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * Tag Page
+ * Posts tagged with a hashtag, newest first
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getPostsByTag, Post } from '@/services/posts';
+import PostCard from '@/components/posts/PostCard';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Navigation from '@/components/Navigation';
+
+function TagPageContent() {
+  const params = useParams();
+  const { token } = useAuth();
+  const tag = decodeURIComponent(params.tag as string);
+
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [nextKey, setNextKey] = useState<string | undefined>();
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const loadPosts = useCallback(async (pageKey?: string) => {
+    if (!token) return;
+
+    try {
+      if (pageKey) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+
+      const result = await getPostsByTag(token, tag, 20, pageKey);
+      setPosts((prev) => (pageKey ? [...prev, ...result.posts] : result.posts));
+      setNextKey(result.next_key);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tagged posts');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [token, tag]);
+
+  useEffect(() => {
+    loadPosts();
+  }, [loadPosts]);
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 py-8 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-2xl mx-auto">
+          {/* Page Header */}
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">#{tag}</h1>
+            <p className="text-gray-800 mt-1">Posts tagged #{tag}</p>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : posts.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-md p-12 text-center">
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">No posts yet</h3>
+              <p className="text-gray-800">Nobody has tagged a post #{tag} yet</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {posts.map((post) => (
+                <PostCard key={post.post_id} post={post} />
+              ))}
+
+              {/* Load More Button */}
+              {nextKey && (
+                <div className="text-center py-4">
+                  <button
+                    onClick={() => loadPosts(nextKey)}
+                    disabled={loadingMore}
+                    className="px-6 py-3 bg-white text-gray-700 rounded-lg border border-gray-300 hover:bg-gray-50 transition font-medium disabled:opacity-50"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load More'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default function TagPage() {
+  return (
+    <ProtectedRoute>
+      <TagPageContent />
+    </ProtectedRoute>
+  );
+}
@@ -10,6 +10,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import AddFriendButton from '@/components/friends/AddFriendButton';
+import BlockUserButtons from '@/components/friends/BlockUserButtons';
 import PostCard from '@/components/posts/PostCard';
 import Image from 'next/image';
 import { Post } from '@/services/posts';
@@ -231,11 +232,15 @@ export default function UserProfilePage() {
               </div>
 
               {/* Add Friend Button */}
-              <div className="mt-4 sm:mt-0 sm:ml-auto">
+              <div className="mt-4 sm:mt-0 sm:ml-auto space-y-2">
                 <AddFriendButton
                   userId={profile.user_id}
                   username={profile.username}
                 />
+                <BlockUserButtons
+                  userId={profile.user_id}
+                  username={profile.username}
+                />
               </div>
             </div>
 
@@ -2,9 +2,14 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { isAdmin } from '@/lib/adminAuth';
+import { isAdmin, hasAdminPermission, AdminPermission } from '@/lib/adminAuth';
 
-export default function AdminRoute({ children }: { children: React.ReactNode }) {
+interface AdminRouteProps {
+  children: React.ReactNode;
+  permission?: AdminPermission; // Required on top of any admin role
+}
+
+export default function AdminRoute({ children, permission }: AdminRouteProps) {
   const router = useRouter();
   const [isAuthorized, setIsAuthorized] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -23,6 +28,12 @@ export default function AdminRoute({ children }: { children: React.ReactNode })
         return;
       }
 
+      if (permission && !(await hasAdminPermission(permission))) {
+        // Admin without access to this page - back to the admin dashboard
+        router.push('/admin');
+        return;
+      }
+
       setIsAuthorized(true);
     } catch (error) {
       console.error('Admin check failed:', error);
@@ -125,6 +125,30 @@ export default function Navigation() {
                                     My Recipes
                                 </span>
                             </Link>
+                            <Link href="/meal-plans" className={navLinkClass('/meal-plans')}>
+                                <span className="flex items-center gap-1">
+                                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                    </svg>
+                                    Meal Plan
+                                </span>
+                            </Link>
+                            <Link href="/shopping-lists" className={navLinkClass('/shopping-lists')}>
+                                <span className="flex items-center gap-1">
+                                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+                                    </svg>
+                                    Shopping
+                                </span>
+                            </Link>
+                            <Link href="/pantry" className={navLinkClass('/pantry')}>
+                                <span className="flex items-center gap-1">
+                                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                                    </svg>
+                                    Pantry
+                                </span>
+                            </Link>
                         </div>
                     </div>
 
@@ -225,6 +249,15 @@ export default function Navigation() {
                         <Link href="/my-recipes" className={`block ${navLinkClass('/my-recipes')}`}>
                             My Recipes
                         </Link>
+                        <Link href="/meal-plans" className={`block ${navLinkClass('/meal-plans')}`}>
+                            Meal Plan
+                        </Link>
+                        <Link href="/shopping-lists" className={`block ${navLinkClass('/shopping-lists')}`}>
+                            Shopping
+                        </Link>
+                        <Link href="/pantry" className={`block ${navLinkClass('/pantry')}`}>
+                            Pantry
+                        </Link>
                     </div>
                 )}
             </div>
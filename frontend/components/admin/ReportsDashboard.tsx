@@ -1,79 +1,116 @@
 /**
  * Admin Reports Dashboard Component
- * View and manage user reports
+ * Review report cases (all reports on one post) and resolve them one by one or in bulk
  */
 
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
-import { getPendingReports, Report, ReportStatus } from '@/services/posts';
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getReportCases,
+  getReportCase,
+  updateReportCase,
+  bulkResolveReportCases,
+  ReportCase,
+  ReportCaseDetail,
+  CaseStatus,
+} from '@/services/admin';
+
+const STATUS_TABS: Array<{ status: CaseStatus; label: string }> = [
+  { status: 'open', label: 'Open' },
+  { status: 'hidden', label: 'Auto-hidden' },
+  { status: 'upheld', label: 'Post removed' },
+  { status: 'dismissed', label: 'Dismissed' },
+];
+
+const REASON_LABELS: Record<string, string> = {
+  spam: 'Spam',
+  inappropriate_content: 'Inappropriate Content',
+  harassment: 'Harassment',
+  misinformation: 'Misinformation',
+  other: 'Other',
+};
+
+const getStatusColor = (status: CaseStatus) => {
+  switch (status) {
+    case 'open':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-300';
+    case 'hidden':
+      return 'bg-orange-100 text-orange-800 border-orange-300';
+    case 'upheld':
+      return 'bg-green-100 text-green-800 border-green-300';
+    case 'dismissed':
+      return 'bg-gray-100 text-gray-800 border-gray-300';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-300';
+  }
+};
+
+const isResolvable = (status: CaseStatus) => status === 'open' || status === 'hidden';
 
 export default function ReportsDashboard() {
-  const { token } = useAuth();
-  const [reports, setReports] = useState<Report[]>([]);
+  const [status, setStatus] = useState<CaseStatus>('open');
+  const [cases, setCases] = useState<ReportCase[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filter, setFilter] = useState<ReportStatus | 'all'>('pending');
-
-  useEffect(() => {
-    loadReports();
-  }, [token]);
-
-  const loadReports = async () => {
-    if (!token) return;
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
 
+  const loadCases = useCallback(async () => {
     setLoading(true);
     setError(null);
+    setSelected(new Set());
 
     try {
-      const data = await getPendingReports(token, 100);
-      setReports(data.reports);
+      setCases(await getReportCases(status, 100));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load reports');
+      setError(err instanceof Error ? err.message : 'Failed to load report cases');
     } finally {
       setLoading(false);
     }
-  };
+  }, [status]);
 
-  const filteredReports = reports.filter((report) => {
-    if (filter === 'all') return true;
-    return report.status === filter;
-  });
-
-  const getStatusColor = (status: ReportStatus) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-300';
-      case 'reviewed':
-        return 'bg-blue-100 text-blue-800 border-blue-300';
-      case 'dismissed':
-        return 'bg-gray-100 text-gray-800 border-gray-300';
-      case 'action_taken':
-        return 'bg-green-100 text-green-800 border-green-300';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-300';
-    }
+  useEffect(() => {
+    loadCases();
+  }, [loadCases]);
+
+  const toggleSelected = (postId: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(postId)) {
+        next.delete(postId);
+      } else {
+        next.add(postId);
+      }
+      return next;
+    });
   };
 
-  const getReasonLabel = (reason: string) => {
-    const labels: Record<string, string> = {
-      spam: 'Spam',
-      inappropriate_content: 'Inappropriate Content',
-      harassment: 'Harassment',
-      misinformation: 'Misinformation',
-      other: 'Other',
-    };
-    return labels[reason] || reason;
+  const toggleAll = () => {
+    setSelected(selected.size === cases.length ? new Set() : new Set(cases.map((c) => c.post_id)));
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center py-12">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-      </div>
-    );
-  }
+  const handleBulkResolve = async (decision: 'upheld' | 'dismissed') => {
+    const label = decision === 'upheld' ? 'remove the posts of' : 'dismiss';
+    const note = prompt(`Note for the ${selected.size} selected case(s) (optional). You are about to ${label} them.`);
+    if (note === null) return;
+
+    setWorking(true);
+    try {
+      const result = await bulkResolveReportCases(Array.from(selected), decision, note || undefined);
+      setMessage(
+        result.failed.length > 0
+          ? `${result.message}: ${result.failed.map((f) => `${f.post_id} (${f.error})`).join(', ')}`
+          : result.message
+      );
+      await loadCases();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to resolve cases');
+    } finally {
+      setWorking(false);
+    }
+  };
 
   if (error) {
     return (
@@ -83,150 +120,265 @@ export default function ReportsDashboard() {
     );
   }
 
+  const resolvable = isResolvable(status);
+
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="flex items-center justify-between">
-        <div>
-          <h2 className="text-2xl font-bold text-gray-900">Reports Dashboard</h2>
-          <p className="text-gray-600 mt-1">
-            {filteredReports.length} {filter === 'all' ? 'total' : filter} reports
-          </p>
-        </div>
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Reports Dashboard</h2>
+        <p className="text-gray-600 mt-1">
+          Reports are grouped into one case per post. Posts are hidden automatically once enough trusted users report them.
+        </p>
+      </div>
 
-        {/* Filter */}
-        <select
-          value={filter}
-          onChange={(e) => setFilter(e.target.value as ReportStatus | 'all')}
-          className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-        >
-          <option value="all">All Reports</option>
-          <option value="pending">Pending</option>
-          <option value="reviewed">Reviewed</option>
-          <option value="dismissed">Dismissed</option>
-          <option value="action_taken">Action Taken</option>
-        </select>
+      {/* Status Tabs */}
+      <div className="flex gap-2">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.status}
+            onClick={() => setStatus(tab.status)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium ${
+              status === tab.status ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border hover:bg-gray-50'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
       </div>
 
-      {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-          <div className="text-2xl font-bold text-yellow-900">
-            {reports.filter((r) => r.status === 'pending').length}
-          </div>
-          <div className="text-sm text-yellow-700">Pending Review</div>
+      {message && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex justify-between items-start">
+          <p className="text-sm text-blue-800">{message}</p>
+          <button onClick={() => setMessage(null)} className="text-blue-600 text-sm ml-4">
+            ✕
+          </button>
         </div>
-        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-          <div className="text-2xl font-bold text-blue-900">
-            {reports.filter((r) => r.status === 'reviewed').length}
+      )}
+
+      {/* Bulk Actions */}
+      {resolvable && cases.length > 0 && (
+        <div className="flex items-center justify-between bg-white border border-gray-200 rounded-lg p-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={selected.size === cases.length} onChange={toggleAll} />
+            {selected.size > 0 ? `${selected.size} selected` : 'Select all'}
+          </label>
+          <div className="flex gap-3">
+            <button
+              onClick={() => handleBulkResolve('upheld')}
+              disabled={selected.size === 0 || working}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition disabled:opacity-50"
+            >
+              Remove Posts
+            </button>
+            <button
+              onClick={() => handleBulkResolve('dismissed')}
+              disabled={selected.size === 0 || working}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              Dismiss
+            </button>
           </div>
-          <div className="text-sm text-blue-700">Reviewed</div>
         </div>
-        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-          <div className="text-2xl font-bold text-green-900">
-            {reports.filter((r) => r.status === 'action_taken').length}
-          </div>
-          <div className="text-sm text-green-700">Action Taken</div>
+      )}
+
+      {/* Cases List */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {cases.length === 0 ? (
+            <div className="text-center py-12 bg-gray-50 rounded-lg">
+              <p className="text-gray-600">No cases found</p>
+            </div>
+          ) : (
+            cases.map((reportCase) => (
+              <CaseCard
+                key={reportCase.post_id}
+                reportCase={reportCase}
+                selectable={resolvable}
+                selected={selected.has(reportCase.post_id)}
+                onToggle={() => toggleSelected(reportCase.post_id)}
+                onChanged={loadCases}
+              />
+            ))
+          )}
         </div>
-        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-          <div className="text-2xl font-bold text-gray-900">
-            {reports.filter((r) => r.status === 'dismissed').length}
+      )}
+    </div>
+  );
+}
+
+function CaseCard({
+  reportCase,
+  selectable,
+  selected,
+  onToggle,
+  onChanged,
+}: {
+  reportCase: ReportCase;
+  selectable: boolean;
+  selected: boolean;
+  onToggle: () => void;
+  onChanged: () => Promise<void>;
+}) {
+  const [detail, setDetail] = useState<ReportCaseDetail | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [note, setNote] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const loadDetail = async () => {
+    setDetail(await getReportCase(reportCase.post_id));
+  };
+
+  const toggleExpanded = async () => {
+    if (!expanded && !detail) {
+      try {
+        await loadDetail();
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'Failed to load case');
+        return;
+      }
+    }
+    setExpanded(!expanded);
+  };
+
+  const update = async (status?: 'hidden' | 'upheld' | 'dismissed') => {
+    setWorking(true);
+    try {
+      await updateReportCase(reportCase.post_id, { status, note: note.trim() || undefined });
+      setNote('');
+      if (status) {
+        await onChanged();
+      } else {
+        await loadDetail();
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update case');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const reasons = Object.entries(reportCase.reasons).sort(([, a], [, b]) => b - a);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition">
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-start gap-3 flex-1">
+          {selectable && <input type="checkbox" checked={selected} onChange={onToggle} className="mt-1" />}
+          <div className="flex-1">
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(reportCase.status)}`}>
+                {reportCase.status.toUpperCase()}
+              </span>
+              {reasons.map(([reason, count]) => (
+                <span
+                  key={reason}
+                  className="px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 border border-red-300"
+                >
+                  {REASON_LABELS[reason] || reason} × {count}
+                </span>
+              ))}
+            </div>
+            <p className="text-sm text-gray-600">
+              Post by <span className="font-medium">@{reportCase.author_username || reportCase.author_id}</span> •{' '}
+              {reportCase.report_count} report{reportCase.report_count === 1 ? '' : 's'} • trust score{' '}
+              {reportCase.weighted_score} • last reported {new Date(reportCase.last_reported_at).toLocaleString()}
+            </p>
           </div>
-          <div className="text-sm text-gray-700">Dismissed</div>
         </div>
+        <a
+          href={`/posts/${reportCase.post_id}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+        >
+          View Post →
+        </a>
       </div>
 
-      {/* Reports List */}
-      <div className="space-y-4">
-        {filteredReports.length === 0 ? (
-          <div className="text-center py-12 bg-gray-50 rounded-lg">
-            <svg
-              className="w-12 h-12 text-gray-400 mx-auto mb-4"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
-              />
-            </svg>
-            <p className="text-gray-600">No reports found</p>
+      <div className="bg-gray-50 rounded-lg p-4 mb-4">
+        <p className="text-sm text-gray-800 whitespace-pre-line">{reportCase.excerpt}</p>
+      </div>
+
+      <button onClick={toggleExpanded} className="text-sm text-blue-600 hover:text-blue-800">
+        {expanded ? 'Hide reports and history' : 'Show reports and history'}
+      </button>
+
+      {expanded && detail && (
+        <div className="border-t mt-4 pt-4 space-y-4">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Reports</h4>
+            <ul className="space-y-2">
+              {detail.reports.map((report) => (
+                <li key={report.report_id} className="text-sm text-gray-700">
+                  <span className="font-medium">@{report.reported_by_username || 'Unknown'}</span> —{' '}
+                  {REASON_LABELS[report.reason] || report.reason}
+                  {report.details ? `: ${report.details}` : ''}{' '}
+                  <span className="text-gray-500">({new Date(report.created_at).toLocaleString()})</span>
+                </li>
+              ))}
+            </ul>
           </div>
-        ) : (
-          filteredReports.map((report) => (
-            <div
-              key={report.report_id}
-              className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition"
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">History</h4>
+            <ul className="space-y-1">
+              {detail.events.map((event, index) => (
+                <li key={index} className="text-sm text-gray-600">
+                  {new Date(event.at).toLocaleString()} • {event.actor_id === 'system' ? 'System' : `Admin ${event.actor_id}`}
+                  {event.status ? ` → ${event.status}` : ''}
+                  {event.note ? `: ${event.note}` : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3 mt-4">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Admin note"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={() => update()}
+          disabled={working || !note.trim()}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+        >
+          Add Note
+        </button>
+        {reportCase.status === 'open' && (
+          <button
+            onClick={() => update('hidden')}
+            disabled={working}
+            className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition disabled:opacity-50"
+          >
+            Hide Post
+          </button>
+        )}
+        {isResolvable(reportCase.status) && (
+          <>
+            <button
+              onClick={() => update('upheld')}
+              disabled={working}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition disabled:opacity-50"
             >
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex-1">
-                  <div className="flex items-center gap-3 mb-2">
-                    <span
-                      className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(
-                        report.status
-                      )}`}
-                    >
-                      {report.status.replace('_', ' ').toUpperCase()}
-                    </span>
-                    <span className="px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 border border-red-300">
-                      {getReasonLabel(report.reason)}
-                    </span>
-                  </div>
-                  <p className="text-sm text-gray-600">
-                    Reported by{' '}
-                    <span className="font-medium">
-                      @{report.reported_by_username || 'Unknown'}
-                    </span>{' '}
-                    • {new Date(report.created_at).toLocaleString()}
-                  </p>
-                </div>
-                <a
-                  href={`/posts/${report.post_id}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-blue-600 hover:text-blue-800 text-sm font-medium"
-                >
-                  View Post →
-                </a>
-              </div>
-
-              {/* Details */}
-              <div className="bg-gray-50 rounded-lg p-4 mb-4">
-                <p className="text-sm text-gray-800">{report.details}</p>
-              </div>
-
-              {/* Admin Review */}
-              {report.reviewed_at && (
-                <div className="border-t pt-4">
-                  <p className="text-sm text-gray-600 mb-2">
-                    <span className="font-medium">Admin Review:</span>{' '}
-                    {report.admin_notes || 'No notes'}
-                  </p>
-                  {report.action_taken && (
-                    <p className="text-sm text-gray-600">
-                      <span className="font-medium">Action:</span>{' '}
-                      {report.action_taken.replace('_', ' ')}
-                    </p>
-                  )}
-                </div>
-              )}
-
-              {/* Actions (for pending reports) */}
-              {report.status === 'pending' && (
-                <div className="flex gap-3 mt-4">
-                  <button className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition">
-                    Take Action
-                  </button>
-                  <button className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition">
-                    Dismiss
-                  </button>
-                </div>
-              )}
-            </div>
-          ))
+              Remove Post
+            </button>
+            <button
+              onClick={() => update('dismissed')}
+              disabled={working}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              Dismiss
+            </button>
+          </>
         )}
       </div>
     </div>
@@ -8,8 +8,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { createComment } from '@/services/comments';
-import { searchUsersForMention } from '@/services/comments';
-import Image from 'next/image';
+import MentionTextarea from '@/components/ui/MentionTextarea';
 
 interface CommentInputProps {
   postId: string;
@@ -20,12 +19,6 @@ interface CommentInputProps {
   autoFocus?: boolean;
 }
 
-interface MentionSuggestion {
-  user_id: string;
-  username: string;
-  avatar_url?: string;
-}
-
 export default function CommentInput({
   postId,
   parentCommentId,
@@ -38,10 +31,6 @@ export default function CommentInput({
   const [content, setContent] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [showMentions, setShowMentions] = useState(false);
-  const [mentions, setMentions] = useState<MentionSuggestion[]>([]);
-  const [mentionQuery, setMentionQuery] = useState('');
-  const [selectedMentionIndex, setSelectedMentionIndex] = useState(0);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
@@ -50,78 +39,8 @@ export default function CommentInput({
     }
   }, [autoFocus]);
 
-  // Handle @mention detection and autocomplete
-  useEffect(() => {
-    const checkForMention = async () => {
-      const cursorPosition = inputRef.current?.selectionStart || 0;
-      const textBeforeCursor = content.substring(0, cursorPosition);
-      const mentionMatch = textBeforeCursor.match(/@(\w*)$/);
-
-      if (mentionMatch && token) {
-        const query = mentionMatch[1];
-        setMentionQuery(query);
-        setShowMentions(true);
-
-        if (query.length > 0) {
-          try {
-            const result = await searchUsersForMention(token, query);
-            setMentions(result.users);
-            setSelectedMentionIndex(0);
-          } catch (err) {
-            console.error('Failed to search users:', err);
-            setMentions([]);
-          }
-        } else {
-          setMentions([]);
-        }
-      } else {
-        setShowMentions(false);
-        setMentions([]);
-      }
-    };
-
-    const debounceTimer = setTimeout(checkForMention, 200);
-    return () => clearTimeout(debounceTimer);
-  }, [content, token]);
-
-  const insertMention = (username: string) => {
-    const cursorPosition = inputRef.current?.selectionStart || 0;
-    const textBeforeCursor = content.substring(0, cursorPosition);
-    const textAfterCursor = content.substring(cursorPosition);
-    const mentionMatch = textBeforeCursor.match(/@(\w*)$/);
-
-    if (mentionMatch) {
-      const beforeMention = textBeforeCursor.substring(0, mentionMatch.index);
-      const newContent = `${beforeMention}@${username} ${textAfterCursor}`;
-      setContent(newContent);
-      setShowMentions(false);
-      setMentions([]);
-
-      // Set cursor position after mention
-      setTimeout(() => {
-        const newPosition = beforeMention.length + username.length + 2;
-        inputRef.current?.setSelectionRange(newPosition, newPosition);
-        inputRef.current?.focus();
-      }, 0);
-    }
-  };
-
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (showMentions && mentions.length > 0) {
-      if (e.key === 'ArrowDown') {
-        e.preventDefault();
-        setSelectedMentionIndex((prev) => (prev + 1) % mentions.length);
-      } else if (e.key === 'ArrowUp') {
-        e.preventDefault();
-        setSelectedMentionIndex((prev) => (prev - 1 + mentions.length) % mentions.length);
-      } else if (e.key === 'Enter' || e.key === 'Tab') {
-        e.preventDefault();
-        insertMention(mentions[selectedMentionIndex].username);
-      } else if (e.key === 'Escape') {
-        setShowMentions(false);
-        setMentions([]);
-      }
-    } else if (e.key === 'Enter' && !e.shiftKey) {
+    if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
     }
@@ -139,13 +58,11 @@ export default function CommentInput({
 
     try {
       await createComment(token, postId, {
-        content: content.trim(),
+        text: content.trim(),
         parent_comment_id: parentCommentId,
       });
 
       setContent('');
-      setShowMentions(false);
-      setMentions([]);
       onCommentCreated?.();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to post comment');
@@ -171,10 +88,10 @@ export default function CommentInput({
 
           {/* Input Field */}
           <div className="flex-1">
-            <textarea
+            <MentionTextarea
               ref={inputRef}
               value={content}
-              onChange={(e) => setContent(e.target.value)}
+              onChange={setContent}
               onKeyDown={handleKeyDown}
               placeholder={placeholder}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
@@ -182,43 +99,6 @@ export default function CommentInput({
               maxLength={500}
             />
 
-            {/* Mention Autocomplete */}
-            {showMentions && mentions.length > 0 && (
-              <div className="absolute z-20 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
-                {mentions.map((mention, index) => (
-                  <button
-                    key={mention.user_id}
-                    type="button"
-                    onClick={() => insertMention(mention.username)}
-                    className={`w-full px-3 py-2 flex items-center gap-2 hover:bg-gray-100 transition ${
-                      index === selectedMentionIndex ? 'bg-blue-50' : ''
-                    }`}
-                  >
-                    {/* Avatar */}
-                    <div className="relative w-8 h-8 rounded-full overflow-hidden bg-gray-200 flex-shrink-0">
-                      {mention.avatar_url ? (
-                        <Image
-                          src={mention.avatar_url}
-                          alt={mention.username}
-                          fill
-                          className="object-cover"
-                        />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-blue-400 to-purple-500">
-                          <span className="text-sm font-bold text-white">
-                            {mention.username.charAt(0).toUpperCase()}
-                          </span>
-                        </div>
-                      )}
-                    </div>
-                    <span className="text-sm font-medium text-gray-900">
-                      @{mention.username}
-                    </span>
-                  </button>
-                ))}
-              </div>
-            )}
-
             {/* Error Message */}
             {error && (
               <p className="mt-1 text-sm text-red-600">{error}</p>
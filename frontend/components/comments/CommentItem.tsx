@@ -8,14 +8,18 @@
 import React, { useState } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
-import { Comment } from '@/services/comments';
+import { Comment, MAX_COMMENT_DEPTH } from '@/services/comments';
 import CommentInput from './CommentInput';
+import CommentReplies from './CommentReplies';
+import CommentRevisions from './CommentRevisions';
 
 interface CommentItemProps {
   comment: Comment;
   postId: string;
   currentUserId?: string;
+  postOwnerId?: string;          // Post owners can delete any comment on their post
   onDelete?: (commentId: string) => void;
+  onEdit?: (commentId: string, text: string) => Promise<Comment>;
   onReplyCreated?: () => void;
   level?: number;
 }
@@ -24,16 +28,25 @@ export default function CommentItem({
   comment,
   postId,
   currentUserId,
+  postOwnerId,
   onDelete,
+  onEdit,
   onReplyCreated,
   level = 0,
 }: CommentItemProps) {
+  const [current, setCurrent] = useState(comment);
   const [showReplyInput, setShowReplyInput] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [editText, setEditText] = useState(comment.text);
+  const [saving, setSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [repliesRefreshKey, setRepliesRefreshKey] = useState(0);
 
-  const isOwnComment = currentUserId === comment.user_id;
-  const maxNestingLevel = 2; // Limit nesting to 2 levels
+  const isOwnComment = currentUserId === current.user_id;
+  const canDelete = isOwnComment || (!!postOwnerId && currentUserId === postOwnerId);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -59,7 +72,7 @@ export default function CommentItem({
 
     setDeleting(true);
     try {
-      await onDelete(comment.comment_id);
+      await onDelete(current.comment_id);
       setShowDeleteConfirm(false);
     } catch (error) {
       console.error('Failed to delete comment:', error);
@@ -69,9 +82,27 @@ export default function CommentItem({
 
   const handleReplyCreated = () => {
     setShowReplyInput(false);
+    setRepliesRefreshKey((key) => key + 1);
     onReplyCreated?.();
   };
 
+  const handleSaveEdit = async () => {
+    if (!onEdit || !editText.trim()) return;
+
+    setSaving(true);
+    setEditError(null);
+    try {
+      const updated = await onEdit(current.comment_id, editText.trim());
+      setCurrent((prev) => ({ ...prev, ...updated }));
+      setEditing(false);
+      setShowHistory(false);
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : 'Failed to edit comment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // Parse @mentions and convert to links
   const renderContentWithMentions = (text: string | undefined) => {
     if (!text) return null;
@@ -97,19 +128,19 @@ export default function CommentItem({
     <div className={`${level > 0 ? 'ml-8 mt-3' : ''}`}>
       <div className="flex gap-2">
         {/* Avatar */}
-        <Link href={`/users/${comment.user_id}`} className="flex-shrink-0">
+        <Link href={`/users/${current.user_id}`} className="flex-shrink-0">
           <div className="relative w-8 h-8 rounded-full overflow-hidden bg-gray-200">
-            {comment.avatar_url ? (
+            {current.avatar_url ? (
               <Image
-                src={comment.avatar_url}
-                alt={comment.username}
+                src={current.avatar_url}
+                alt={current.username}
                 fill
                 className="object-cover"
               />
             ) : (
               <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-blue-400 to-purple-500">
                 <span className="text-sm font-bold text-white">
-                  {comment.username.charAt(0).toUpperCase()}
+                  {current.username.charAt(0).toUpperCase()}
                 </span>
               </div>
             )}
@@ -120,21 +151,76 @@ export default function CommentItem({
         <div className="flex-1 min-w-0">
           <div className="bg-gray-100 rounded-lg px-3 py-2">
             <Link
-              href={`/users/${comment.user_id}`}
+              href={`/users/${current.user_id}`}
               className="font-semibold text-sm text-gray-900 hover:underline"
             >
-              @{comment.username}
+              @{current.username}
             </Link>
-            <p className="text-sm text-gray-800 mt-1 break-words whitespace-pre-wrap">
-              {renderContentWithMentions(comment.text)}
-            </p>
+            {current.is_deleted ? (
+              <p className="text-sm text-gray-500 italic mt-1">This comment was deleted</p>
+            ) : editing ? (
+              <div className="mt-1">
+                <textarea
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  rows={2}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                  autoFocus
+                />
+                {editError && <p className="text-xs text-red-600 mt-1">{editError}</p>}
+                <div className="flex gap-2 mt-1">
+                  <button
+                    onClick={handleSaveEdit}
+                    disabled={saving || !editText.trim()}
+                    className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditing(false);
+                      setEditText(current.text);
+                      setEditError(null);
+                    }}
+                    className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300 transition"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-800 mt-1 break-words whitespace-pre-wrap">
+                {renderContentWithMentions(current.text)}
+              </p>
+            )}
           </div>
 
           {/* Action Buttons */}
           <div className="flex items-center gap-3 mt-1 px-2">
-            <span className="text-xs text-gray-500">{formatDate(comment.created_at)}</span>
-            
-            {level < maxNestingLevel && (
+            <span className="text-xs text-gray-500">{formatDate(current.created_at)}</span>
+
+            {current.moderation_status === 'held' && (
+              <span className="text-xs text-yellow-700" title="Only you can see this comment until a moderator approves it">
+                Pending review
+              </span>
+            )}
+            {current.moderation_status === 'rejected' && (
+              <span className="text-xs text-red-600" title="Only you can see this comment">
+                Removed by moderators
+              </span>
+            )}
+
+            {current.is_edited && !current.is_deleted && (
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                title={current.edited_at ? `Edited ${new Date(current.edited_at).toLocaleString('en-US')}` : undefined}
+                className="text-xs text-gray-500 hover:text-gray-700 transition"
+              >
+                (edited)
+              </button>
+            )}
+
+            {level < MAX_COMMENT_DEPTH && !current.is_deleted && (
               <button
                 onClick={() => setShowReplyInput(!showReplyInput)}
                 className="text-xs font-semibold text-gray-600 hover:text-blue-600 transition"
@@ -143,13 +229,16 @@ export default function CommentItem({
               </button>
             )}
 
-            {comment.reply_count && comment.reply_count > 0 ? (
-              <span className="text-xs text-gray-500">
-                {comment.reply_count} {comment.reply_count === 1 ? 'reply' : 'replies'}
-              </span>
-            ) : null}
+            {isOwnComment && onEdit && !current.is_deleted && !editing && (
+              <button
+                onClick={() => setEditing(true)}
+                className="text-xs font-semibold text-gray-600 hover:text-blue-600 transition"
+              >
+                Edit
+              </button>
+            )}
 
-            {isOwnComment && onDelete && (
+            {canDelete && onDelete && !current.is_deleted && (
               <div className="relative ml-auto">
                 <button
                   onClick={() => setShowDeleteConfirm(!showDeleteConfirm)}
@@ -184,13 +273,15 @@ export default function CommentItem({
             )}
           </div>
 
+          {showHistory && <CommentRevisions postId={postId} commentId={current.comment_id} />}
+
           {/* Reply Input */}
           {showReplyInput && (
             <div className="mt-3">
               <CommentInput
                 postId={postId}
-                parentCommentId={comment.comment_id}
-                placeholder={`Reply to @${comment.username}...`}
+                parentCommentId={current.comment_id}
+                placeholder={`Reply to @${current.username}...`}
                 onCommentCreated={handleReplyCreated}
                 onCancel={() => setShowReplyInput(false)}
                 autoFocus
@@ -199,6 +290,18 @@ export default function CommentItem({
           )}
         </div>
       </div>
+
+      {/* Replies */}
+      {((current.reply_count || 0) > 0 || repliesRefreshKey > 0) && (
+        <CommentReplies
+          parent={current}
+          postId={postId}
+          currentUserId={currentUserId}
+          postOwnerId={postOwnerId}
+          level={level + 1}
+          refreshKey={repliesRefreshKey}
+        />
+      )}
     </div>
   );
 }
@@ -1,22 +1,23 @@
 /**
  * Comment List Component
- * Display all comments for a post with nested structure
+ * Display top-level comments for a post; each comment loads its own replies
  */
 
 'use client';
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { getComments, deleteComment, Comment } from '@/services/comments';
+import { getComments, deleteComment, updateComment, Comment } from '@/services/comments';
 import CommentInput from './CommentInput';
 import CommentItem from './CommentItem';
 
 interface CommentListProps {
   postId: string;
+  postOwnerId?: string;
   initialCommentCount?: number;
 }
 
-export default function CommentList({ postId, initialCommentCount = 0 }: CommentListProps) {
+export default function CommentList({ postId, postOwnerId, initialCommentCount = 0 }: CommentListProps) {
   const { token, user } = useAuth();
   const [comments, setComments] = useState<Comment[]>([]);
   const [loading, setLoading] = useState(false);
@@ -41,31 +42,13 @@ export default function CommentList({ postId, initialCommentCount = 0 }: Comment
         setLoadingMore(true);
       }
 
+      // Top-level comments only; replies are paged in by each CommentItem
       const result = await getComments(token, postId, 20, isLoadMore ? nextToken : undefined);
 
-      // Organize comments into tree structure
-      const commentMap = new Map<string, Comment & { replies?: Comment[] }>();
-      const rootComments: (Comment & { replies?: Comment[] })[] = [];
-
-      // First pass: create map of all comments
-      result.comments.forEach((comment) => {
-        commentMap.set(comment.comment_id, { ...comment, replies: [] });
-      });
-
-      // Second pass: organize into tree
-      result.comments.forEach((comment) => {
-        if (comment.parent_comment_id && commentMap.has(comment.parent_comment_id)) {
-          const parent = commentMap.get(comment.parent_comment_id);
-          parent?.replies?.push(commentMap.get(comment.comment_id)!);
-        } else {
-          rootComments.push(commentMap.get(comment.comment_id)!);
-        }
-      });
-
       if (isLoadMore) {
-        setComments((prev) => [...prev, ...rootComments]);
+        setComments((prev) => [...prev, ...result.comments]);
       } else {
-        setComments(rootComments);
+        setComments(result.comments);
       }
 
       setNextToken(result.nextToken);
@@ -95,23 +78,24 @@ export default function CommentList({ postId, initialCommentCount = 0 }: Comment
     }
   };
 
-  const renderComment = (comment: Comment & { replies?: Comment[] }, level = 0) => {
+  const handleEditComment = async (commentId: string, text: string) => {
+    if (!token) throw new Error('Not signed in');
+    const updated = await updateComment(token, postId, commentId, text);
+    setComments((prev) => prev.map((comment) => (comment.comment_id === commentId ? updated : comment)));
+    return updated;
+  };
+
+  const renderComment = (comment: Comment) => {
     return (
-      <div key={comment.comment_id}>
-        <CommentItem
-          comment={comment}
-          postId={postId}
-          currentUserId={user?.sub}
-          onDelete={handleDeleteComment}
-          onReplyCreated={() => loadComments()}
-          level={level}
-        />
-        {comment.replies && comment.replies.length > 0 && (
-          <div>
-            {comment.replies.map((reply) => renderComment(reply, level + 1))}
-          </div>
-        )}
-      </div>
+      <CommentItem
+        key={comment.comment_id}
+        comment={comment}
+        postId={postId}
+        currentUserId={user?.sub}
+        postOwnerId={postOwnerId}
+        onDelete={handleDeleteComment}
+        onEdit={handleEditComment}
+      />
     );
   };
 
@@ -0,0 +1,123 @@
+/**
+ * Comment Replies Component
+ * Paginated replies under a comment
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getReplies, deleteComment, updateComment, Comment } from '@/services/comments';
+import CommentItem from './CommentItem';
+
+const REPLIES_PAGE_SIZE = 10;
+
+interface CommentRepliesProps {
+  parent: Comment;
+  postId: string;
+  currentUserId?: string;
+  postOwnerId?: string;
+  level: number;         // Nesting level of the replies
+  refreshKey: number;    // Bumped when a new reply was posted
+}
+
+export default function CommentReplies({
+  parent,
+  postId,
+  currentUserId,
+  postOwnerId,
+  level,
+  refreshKey,
+}: CommentRepliesProps) {
+  const { token } = useAuth();
+  const [replies, setReplies] = useState<Comment[]>([]);
+  const [nextToken, setNextToken] = useState<string | undefined>();
+  const [expanded, setExpanded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReplies = useCallback(async (pageToken?: string) => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const result = await getReplies(token, postId, parent.comment_id, REPLIES_PAGE_SIZE, pageToken);
+      setReplies((prev) => (pageToken ? [...prev, ...result.comments] : result.comments));
+      setNextToken(result.nextToken);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load replies');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, postId, parent.comment_id]);
+
+  // Show the thread again after the user replies
+  useEffect(() => {
+    if (refreshKey > 0) {
+      setExpanded(true);
+      loadReplies();
+    }
+  }, [refreshKey, loadReplies]);
+
+  const handleExpand = () => {
+    setExpanded(true);
+    loadReplies();
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!token) return;
+    await deleteComment(token, postId, commentId);
+    loadReplies();
+  };
+
+  const handleEdit = async (commentId: string, text: string) => {
+    if (!token) throw new Error('Not signed in');
+    const updated = await updateComment(token, postId, commentId, text);
+    setReplies((prev) => prev.map((reply) => (reply.comment_id === commentId ? updated : reply)));
+    return updated;
+  };
+
+  const replyCount = parent.reply_count || 0;
+
+  if (!expanded) {
+    return replyCount > 0 ? (
+      <button
+        onClick={handleExpand}
+        className="ml-10 mt-2 text-xs font-semibold text-gray-600 hover:text-blue-600 transition"
+      >
+        View {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+      </button>
+    ) : null;
+  }
+
+  return (
+    <div>
+      {replies.map((reply) => (
+        <CommentItem
+          key={reply.comment_id}
+          comment={reply}
+          postId={postId}
+          currentUserId={currentUserId}
+          postOwnerId={postOwnerId}
+          onDelete={handleDelete}
+          onEdit={handleEdit}
+          level={level}
+        />
+      ))}
+
+      {error && <p className="ml-10 mt-2 text-xs text-red-600">{error}</p>}
+
+      {nextToken && (
+        <button
+          onClick={() => loadReplies(nextToken)}
+          disabled={loading}
+          className="ml-10 mt-2 text-xs font-semibold text-gray-600 hover:text-blue-600 transition disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : 'View more replies'}
+        </button>
+      )}
+      {loading && !nextToken && <p className="ml-10 mt-2 text-xs text-gray-500">Loading...</p>}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Comment Revisions Component
+ * Edit history of a comment, loaded when opened
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getCommentRevisions, CommentRevision } from '@/services/comments';
+
+interface CommentRevisionsProps {
+  postId: string;
+  commentId: string;
+}
+
+export default function CommentRevisions({ postId, commentId }: CommentRevisionsProps) {
+  const { token } = useAuth();
+  const [revisions, setRevisions] = useState<CommentRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    getCommentRevisions(token, postId, commentId)
+      .then(setRevisions)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load edit history'))
+      .finally(() => setLoading(false));
+  }, [token, postId, commentId]);
+
+  return (
+    <div className="mt-2 px-3 py-2 border-l-2 border-gray-200">
+      <p className="text-xs font-semibold text-gray-600 mb-1">Edit history</p>
+      {loading && <p className="text-xs text-gray-500">Loading...</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {!loading && !error && (
+        <ul className="space-y-1">
+          {revisions.map((revision, index) => (
+            <li key={index} className="text-xs text-gray-600">
+              <span className="text-gray-400">
+                {new Date(revision.created_at).toLocaleString('en-US')}:
+              </span>{' '}
+              <span className="whitespace-pre-wrap">{revision.text}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
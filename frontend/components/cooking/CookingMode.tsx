@@ -1,7 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { Recipe } from '@/types/recipe';
+import { deductPantry, DeductPantryResult } from '@/services/pantry';
+import { DEFAULT_SERVINGS, UnitSystem, getScaleFactor, scaleIngredients } from '@/lib/recipeScaling';
+import ServingsControl from '@/components/recipes/ServingsControl';
 
 interface CookingModeProps {
   recipe: Recipe;
@@ -15,6 +18,15 @@ export default function CookingMode({ recipe, onComplete, onCancel }: CookingMod
   const [timer, setTimer] = useState<number>(0);
   const [isTimerRunning, setIsTimerRunning] = useState(false);
   const [showCompletion, setShowCompletion] = useState(false);
+  const [pantryResult, setPantryResult] = useState<DeductPantryResult | null>(null);
+  const pantryDeductedRef = useRef(false);
+  const [servings, setServings] = useState(recipe.servings || DEFAULT_SERVINGS);
+  const [units, setUnits] = useState<UnitSystem | undefined>(undefined);
+
+  const ingredients = useMemo(
+    () => scaleIngredients(recipe.ingredients, getScaleFactor(recipe.servings, servings), units),
+    [recipe, servings, units]
+  );
 
   const totalSteps = recipe.instructions.length;
   const currentInstruction = recipe.instructions[currentStep];
@@ -47,6 +59,23 @@ export default function CookingMode({ recipe, onComplete, onCancel }: CookingMod
     };
   }, [isTimerRunning, timer]);
 
+  // Take the cooked ingredients out of the pantry once, when the dish is done
+  useEffect(() => {
+    if (!showCompletion || pantryDeductedRef.current) return;
+    pantryDeductedRef.current = true;
+
+    deductPantry(
+      ingredients.map(ingredient => ({
+        name: ingredient.ingredient_name,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit
+      })),
+      recipe.title
+    )
+      .then(setPantryResult)
+      .catch(err => console.error('Failed to update pantry:', err));
+  }, [showCompletion, recipe, ingredients]);
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -106,6 +135,22 @@ export default function CookingMode({ recipe, onComplete, onCancel }: CookingMod
             <h2 className="text-2xl font-bold text-gray-900 mb-2">Hoàn thành!</h2>
             <p className="text-gray-600 mb-6">Bạn đã nấu xong món {recipe.title}</p>
 
+            {pantryResult && pantryResult.deductions.length > 0 && (
+              <div className="text-left bg-gray-50 rounded-lg p-4 mb-6">
+                <div className="text-sm font-semibold text-gray-700 mb-2">🥫 Đã trừ khỏi tủ bếp</div>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  {pantryResult.deductions.map(deduction => (
+                    <li key={deduction.item_id}>
+                      {deduction.name}: -{deduction.used}{deduction.unit ? ` ${deduction.unit}` : ''}
+                      {deduction.remaining > 0
+                        ? ` (còn ${deduction.remaining}${deduction.unit ? ` ${deduction.unit}` : ''})`
+                        : ' (đã hết)'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <button
               onClick={onComplete}
               className="w-full bg-green-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-green-700 transition-colors"
@@ -246,9 +291,18 @@ export default function CookingMode({ recipe, onComplete, onCancel }: CookingMod
 
         {/* Ingredients Reference */}
         <div className="bg-white rounded-2xl shadow-lg p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Nguyên liệu cần dùng</h3>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Nguyên liệu cần dùng</h3>
+            <ServingsControl
+              servings={servings}
+              onServingsChange={setServings}
+              units={units}
+              onUnitsChange={setUnits}
+              compact
+            />
+          </div>
           <div className="grid grid-cols-2 gap-3">
-            {recipe.ingredients.map((ing, idx) => (
+            {ingredients.map((ing, idx) => (
               <div key={idx} className="flex items-center text-sm">
                 <div className="w-2 h-2 bg-green-600 rounded-full mr-2" />
                 <span className="text-gray-900">{ing.ingredient_name}</span>
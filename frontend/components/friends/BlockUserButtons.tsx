@@ -0,0 +1,119 @@
+/**
+ * Block User Buttons Component
+ * Block or mute a user from their profile
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  blockUser,
+  unblockUser,
+  muteUser,
+  unmuteUser,
+  getBlockedUsers,
+  getMutedUsers,
+} from '@/services/blocks';
+
+interface BlockUserButtonsProps {
+  userId: string;
+  username: string;
+}
+
+export default function BlockUserButtons({ userId, username }: BlockUserButtonsProps) {
+  const { token, user } = useAuth();
+  const [blocked, setBlocked] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const checkRestrictions = async () => {
+      if (!token || user?.sub === userId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const [blockedUsers, mutedUsers] = await Promise.all([getBlockedUsers(), getMutedUsers()]);
+        setBlocked(blockedUsers.some((u) => u.user_id === userId));
+        setMuted(mutedUsers.some((u) => u.user_id === userId));
+      } catch (err) {
+        console.error('Failed to check block status:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    checkRestrictions();
+  }, [token, userId, user]);
+
+  const handleToggleBlock = async () => {
+    if (!blocked && !confirm(`Block @${username}? This also removes them from your friends.`)) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      if (blocked) {
+        await unblockUser(userId);
+      } else {
+        await blockUser(userId);
+      }
+      setBlocked(!blocked);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update block');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleMute = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      if (muted) {
+        await unmuteUser(userId);
+      } else {
+        await muteUser(userId);
+      }
+      setMuted(!muted);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update mute');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Don't show buttons for own profile
+  if (user?.sub === userId) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <button
+          onClick={handleToggleMute}
+          disabled={loading || blocked}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition text-sm disabled:opacity-50"
+        >
+          {muted ? 'Unmute' : 'Mute'}
+        </button>
+        <button
+          onClick={handleToggleBlock}
+          disabled={loading}
+          className="px-4 py-2 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 transition text-sm disabled:opacity-50"
+        >
+          {blocked ? 'Unblock' : 'Block'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * Friend Suggestions Component
+ * "People you may know" ranked by mutual friends
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { getFriendSuggestions, sendFriendRequest, SuggestedFriend } from '@/services/friends';
+import { useAuth } from '@/contexts/AuthContext';
+
+export default function FriendSuggestions() {
+  const { token } = useAuth();
+  const [suggestions, setSuggestions] = useState<SuggestedFriend[]>([]);
+  const [requested, setRequested] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sendingRequest, setSendingRequest] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    getFriendSuggestions(token)
+      .then(setSuggestions)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load suggestions'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleSendRequest = async (userId: string) => {
+    setSendingRequest(userId);
+    setError(null);
+    try {
+      await sendFriendRequest(token!, userId);
+      setRequested(prev => new Set(prev).add(userId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send request');
+    } finally {
+      setSendingRequest(null);
+    }
+  };
+
+  // Nothing to suggest yet (e.g. no friends)
+  if (!loading && !error && suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-xl font-bold text-gray-900 mb-4">People You May Know</h2>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading && (
+        <div className="text-center py-8 text-gray-500">
+          Loading suggestions...
+        </div>
+      )}
+
+      {!loading && suggestions.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {suggestions.map((user) => (
+            <div
+              key={user.user_id}
+              className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition"
+            >
+              {/* Avatar */}
+              <div className="relative w-12 h-12 flex-shrink-0">
+                <Image
+                  src={user.avatar_url || '/default-avatar.png'}
+                  alt={user.username}
+                  fill
+                  className="rounded-full object-cover"
+                />
+              </div>
+
+              {/* User Info */}
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-gray-900 truncate">
+                  {user.full_name || user.username}
+                </p>
+                <p className="text-sm text-gray-500 truncate">
+                  {user.mutual_friends_count > 0
+                    ? `${user.mutual_friends_count} mutual ${user.mutual_friends_count === 1 ? 'friend' : 'friends'}`
+                    : `@${user.username}`}
+                </p>
+              </div>
+
+              {/* Add Friend Button */}
+              <button
+                onClick={() => handleSendRequest(user.user_id)}
+                disabled={requested.has(user.user_id) || sendingRequest === user.user_id}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                  requested.has(user.user_id)
+                    ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
+                    : 'bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300'
+                }`}
+              >
+                {sendingRequest === user.user_id
+                  ? 'Sending...'
+                  : requested.has(user.user_id)
+                  ? 'Request Sent'
+                  : 'Add Friend'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,50 +5,87 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import Image from 'next/image';
-import { searchUsers, sendFriendRequest } from '@/services/friends';
+import { searchUsers, sendFriendRequest, UserSearchResult } from '@/services/friends';
 import { useAuth } from '@/contexts/AuthContext';
 
-interface SearchResult {
-  user_id: string;
-  username: string;
-  full_name: string;
-  avatar_url?: string;
-  is_friend: boolean;
-}
+const SEARCH_PAGE_SIZE = 20;
+
+const isConnected = (user: UserSearchResult) =>
+  user.friendship_status === 'accepted' || user.friendship_status === 'pending';
 
 export default function UserSearch() {
   const { token } = useAuth();
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<SearchResult[]>([]);
+  const [results, setResults] = useState<UserSearchResult[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sendingRequest, setSendingRequest] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
+  // Search as the user types; each keystroke cancels the request before it
   useEffect(() => {
-    const searchDelay = setTimeout(async () => {
-      if (query.trim().length < 2) {
-        setResults([]);
-        return;
-      }
+    abortRef.current?.abort();
 
-      setLoading(true);
-      setError(null);
+    if (query.trim().length < 2 || !token) {
+      setResults([]);
+      setNextCursor(undefined);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+
+    const searchDelay = setTimeout(async () => {
       try {
-        const data = await searchUsers(token!, query.trim());
-        setResults(data.users);
+        const page = await searchUsers(token, query.trim(), {
+          limit: SEARCH_PAGE_SIZE,
+          signal: controller.signal,
+        });
+        setResults(page.users);
+        setNextCursor(page.next_cursor);
+        setError(null);
       } catch (err) {
+        if (controller.signal.aborted) return;
         setError(err instanceof Error ? err.message : 'Search failed');
         setResults([]);
+        setNextCursor(undefined);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
-    }, 300); // Debounce 300ms
+    }, 150); // Short debounce, stale requests are cancelled anyway
 
-    return () => clearTimeout(searchDelay);
+    return () => {
+      clearTimeout(searchDelay);
+      controller.abort();
+    };
   }, [query, token]);
 
+  const handleLoadMore = async () => {
+    if (!token || !nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await searchUsers(token, query.trim(), {
+        limit: SEARCH_PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      setResults(prev => [...prev, ...page.users]);
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleSendRequest = async (userId: string) => {
     setSendingRequest(userId);
     setError(null);
@@ -57,7 +94,7 @@ export default function UserSearch() {
       // Update results to reflect sent request
       setResults(prev =>
         prev.map(user =>
-          user.user_id === userId ? { ...user, is_friend: true } : user
+          user.user_id === userId ? { ...user, friendship_status: 'pending' } : user
         )
       );
     } catch (err) {
@@ -89,16 +126,16 @@ export default function UserSearch() {
         </div>
       )}
 
-      {/* Loading State */}
-      {loading && (
+      {/* Loading State (earlier results stay visible while typing) */}
+      {loading && results.length === 0 && (
         <div className="text-center py-8 text-gray-500">
           Searching...
         </div>
       )}
 
       {/* Search Results */}
-      {!loading && results.length > 0 && (
-        <div className="space-y-3">
+      {results.length > 0 && (
+        <div className={`space-y-3 transition-opacity ${loading ? 'opacity-60' : ''}`}>
           {results.map((user) => (
             <div
               key={user.user_id}
@@ -117,31 +154,47 @@ export default function UserSearch() {
               {/* User Info */}
               <div className="flex-1 min-w-0">
                 <p className="font-semibold text-gray-900 truncate">
-                  {user.full_name}
+                  {user.full_name || user.username}
                 </p>
                 <p className="text-sm text-gray-500 truncate">
                   @{user.username}
+                  {user.mutual_friends_count
+                    ? ` · ${user.mutual_friends_count} mutual ${user.mutual_friends_count === 1 ? 'friend' : 'friends'}`
+                    : ''}
                 </p>
               </div>
 
               {/* Add Friend Button */}
               <button
                 onClick={() => handleSendRequest(user.user_id)}
-                disabled={user.is_friend || sendingRequest === user.user_id}
+                disabled={isConnected(user) || sendingRequest === user.user_id}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
-                  user.is_friend
+                  isConnected(user)
                     ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
                     : 'bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300'
                 }`}
               >
                 {sendingRequest === user.user_id
                   ? 'Sending...'
-                  : user.is_friend
+                  : user.friendship_status === 'accepted'
+                  ? 'Friends'
+                  : user.friendship_status === 'pending'
                   ? 'Request Sent'
                   : 'Add Friend'}
               </button>
             </div>
           ))}
+
+          {/* Next Page */}
+          {nextCursor && (
+            <button
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+              className="w-full py-2 text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Show more results'}
+            </button>
+          )}
         </div>
       )}
 
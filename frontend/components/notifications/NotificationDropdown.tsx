@@ -5,17 +5,22 @@
 
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import {
   getNotifications,
   markAsRead,
   markAllAsRead,
   deleteNotification,
+  connectNotificationSocket,
   Notification,
+  NotificationSocketEvent,
 } from '@/services/notifications';
 import NotificationItem from './NotificationItem';
 
+// Fallback refresh interval while the live channel is unavailable
+const POLL_INTERVAL_MS = 30000;
+
 export default function NotificationDropdown() {
   const { token } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
@@ -23,40 +28,18 @@ export default function NotificationDropdown() {
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(false);
   const [nextToken, setNextToken] = useState<string | undefined>();
+  const [socketConnected, setSocketConnected] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  // Auto-refresh every 30 seconds - DISABLED due to missing backend route
-  useEffect(() => {
-    // TODO: Enable when /notifications route is implemented
-    // if (token) {
-    //   loadNotifications();
-    //   const interval = setInterval(loadNotifications, 30000);
-    //   return () => clearInterval(interval);
-    // }
-  }, [token]);
-
-  // Close dropdown when clicking outside
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
-        setIsOpen(false);
-      }
-    };
-
-    if (isOpen) {
-      document.addEventListener('mousedown', handleClickOutside);
-      return () => document.removeEventListener('mousedown', handleClickOutside);
-    }
-  }, [isOpen]);
-
-  const loadNotifications = async (isLoadMore = false) => {
+  // First page without a cursor, the next page with one
+  const loadNotifications = useCallback(async (cursor?: string) => {
     if (!token) return;
 
     try {
-      setLoading(!isLoadMore);
-      const result = await getNotifications(token, 20, isLoadMore ? nextToken : undefined);
+      setLoading(!cursor);
+      const result = await getNotifications(token, 20, cursor);
 
-      if (isLoadMore) {
+      if (cursor) {
         setNotifications((prev) => [...prev, ...result.notifications]);
       } else {
         setNotifications(result.notifications);
@@ -69,7 +52,54 @@ export default function NotificationDropdown() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [token]);
+
+  // Load once, then receive new notifications and unread counts live
+  useEffect(() => {
+    if (!token) return;
+
+    loadNotifications();
+
+    const handleSocketEvent = (event: NotificationSocketEvent) => {
+      if (event.type === 'notification') {
+        // Grouped notifications ("An and 3 others...") arrive again under the same ID
+        setNotifications((prev) => [
+          event.notification,
+          ...prev.filter((n) => n.notification_id !== event.notification.notification_id),
+        ]);
+      } else if (event.type === 'unread_count') {
+        setUnreadCount(event.unread_count);
+      }
+    };
+
+    const socket = connectNotificationSocket(token, {
+      onEvent: handleSocketEvent,
+      onStatusChange: setSocketConnected,
+    });
+    return () => socket?.close();
+  }, [token, loadNotifications]);
+
+  // Poll while the socket is down or not configured
+  useEffect(() => {
+    if (!token || socketConnected) return;
+
+    const interval = setInterval(() => loadNotifications(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [token, socketConnected, loadNotifications]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
 
   const handleNotificationClick = async (notification: Notification) => {
     if (!token || notification.read) return;
@@ -195,7 +225,7 @@ export default function NotificationDropdown() {
                 {nextToken && (
                   <div className="p-3 text-center">
                     <button
-                      onClick={() => loadNotifications(true)}
+                      onClick={() => loadNotifications(nextToken)}
                       disabled={loading}
                       className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
                     >
@@ -82,6 +82,10 @@ export default function NotificationItem({
             />
           </svg>
         );
+      case 'recipe_forked':
+        return <span className="text-xl">🍴</span>;
+      case 'moderation':
+        return <span className="text-xl">🛡️</span>;
       default:
         return (
           <svg className="w-5 h-5 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -11,7 +11,9 @@ import { useSearchParams } from 'next/navigation';
 import Image from 'next/image';
 import { useAuth } from '@/contexts/AuthContext';
 import { createPost, uploadPostImage } from '@/services/posts';
+import { shareRecipe } from '@/services/savedRecipes';
 import RecipeForm, { RecipeFormData } from '@/components/recipes/RecipeForm';
+import MentionTextarea from '@/components/ui/MentionTextarea';
 
 interface CreatePostFormProps {
   onPostCreated?: () => void;
@@ -25,6 +27,7 @@ export default function CreatePostForm({ onPostCreated }: CreatePostFormProps) {
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [recipeId, setRecipeId] = useState('');
   const [recipeTitle, setRecipeTitle] = useState('');
+  const [sharedSavedId, setSharedSavedId] = useState('');
   const [privacy, setPrivacy] = useState<'public' | 'friends' | 'private'>('public');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -72,7 +75,7 @@ export default function CreatePostForm({ onPostCreated }: CreatePostFormProps) {
         const recipeData = JSON.parse(sharedRecipe);
 
         // Pre-fill form with recipe data
-        setRecipeId(recipeData.recipe_id);
+        setSharedSavedId(recipeData.saved_id);
         setRecipeTitle(recipeData.title);
 
         // Pre-fill content with recipe mention
@@ -193,18 +196,29 @@ export default function CreatePostForm({ onPostCreated }: CreatePostFormProps) {
       }
 
       // Step 2: Create post with image URLs
-      await createPost(token, {
-        caption: content.trim(),           // Fixed: content → caption
-        recipe_id: recipeId.trim() || undefined,
-        visibility: privacy,               // Fixed: privacy → visibility
-        imageUrls: imageUrls.length > 0 ? imageUrls : undefined,  // Fixed: images → imageUrls
-      });
+      if (sharedSavedId) {
+        // Published from the saved recipe so the post carries the recipe and its fork lineage
+        await shareRecipe(sharedSavedId, {
+          caption: content.trim(),
+          images: imageUrls.length > 0 ? imageUrls : undefined,
+          visibility: privacy,
+        });
+      } else {
+        await createPost(token, {
+          caption: content.trim(),           // Fixed: content → caption
+          recipe_id: recipeId.trim() || undefined,
+          visibility: privacy,               // Fixed: privacy → visibility
+          imageUrls: imageUrls.length > 0 ? imageUrls : undefined,  // Fixed: images → imageUrls
+        });
+      }
 
       // Reset form
       setContent('');
       setImageFile(null);
       setImagePreview(null);
       setRecipeId('');
+      setSharedSavedId('');
+      setRecipeTitle('');
       setPrivacy('public');
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -243,9 +257,9 @@ export default function CreatePostForm({ onPostCreated }: CreatePostFormProps) {
 
           {/* Content Input */}
           <div className="flex-1">
-            <textarea
+            <MentionTextarea
               value={content}
-              onChange={(e) => setContent(e.target.value)}
+              onChange={setContent}
               placeholder={`What's on your mind, ${user.name || 'Chef'}?`}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm text-gray-900 placeholder-gray-500"
               rows={2}
@@ -285,6 +299,7 @@ export default function CreatePostForm({ onPostCreated }: CreatePostFormProps) {
               type="button"
               onClick={() => {
                 setRecipeId('');
+                setSharedSavedId('');
                 setRecipeTitle('');
               }}
               className="p-1 text-blue-600 hover:bg-blue-100 rounded transition"
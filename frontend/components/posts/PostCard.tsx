@@ -6,11 +6,41 @@ import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
 import { Post } from '@/types/posts';
-import { addReaction, removeReaction, deletePost } from '@/services/posts';
+import { addReaction, removeReaction, deletePost, exportPost } from '@/services/posts';
+import { saveRecipe } from '@/services/savedRecipes';
 import ShareButton from './ShareButton';
 import ReportButton from './ReportButton';
+import ExportMenu from '@/components/recipes/ExportMenu';
 import { Icon } from '@/components/ui/Icon';
 
+// "#" at the start or after a non-word character, then letters (Vietnamese included), numbers, "_" or "-"
+const HASHTAG_PATTERN = /(^|[^A-Za-z0-9_&#\u00C0-\u024F\u1E00-\u1EFF])(#[A-Za-z0-9_\u00C0-\u024F\u1E00-\u1EFF-]+)/g;
+
+// Caption with each hashtag linked to its tag page
+function renderCaption(caption: string) {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(caption.matchAll(HASHTAG_PATTERN))) {
+    const tagStart = match.index! + match[1].length;
+    const tag = match[2];
+    parts.push(caption.substring(lastIndex, tagStart));
+    parts.push(
+      <Link
+        key={tagStart}
+        href={`/tags/${encodeURIComponent(tag.slice(1))}`}
+        className="text-blue-600 hover:underline"
+      >
+        {tag}
+      </Link>
+    );
+    lastIndex = tagStart + tag.length;
+  }
+
+  parts.push(caption.substring(lastIndex));
+  return parts;
+}
+
 interface PostCardProps {
   post: Post;
   onPostDeleted?: () => void;
@@ -90,12 +120,39 @@ export default function PostCard({ post, onPostDeleted, onPostUpdated }: PostCar
     }
   };
 
-  // Handle save to recipe
+  // Save the recipe to My Recipes; the server links the copy to this post as a fork
   const handleSaveRecipe = async () => {
-    // TODO: Implement save to savedRecipes
-    alert('Save to recipe feature coming soon!');
+    if (!post.recipeData) return;
+
+    try {
+      await saveRecipe({
+        recipe_name: post.recipeData.title,
+        recipe_ingredients: post.recipeData.ingredients.map((ing) => ({
+          name: ing.name,
+          quantity: ing.amount,
+          unit: ing.unit,
+        })),
+        recipe_instructions: post.recipeData.instructions.map((inst) => ({
+          step_number: inst.step,
+          description: inst.description,
+          duration_minutes: inst.duration ?? null,
+        })),
+        servings: post.recipeData.servings,
+        source_type: 'post',
+        source_id: post.post_id,
+        original_author_id: post.user_id,
+        original_author_username: post.username,
+        original_post_url: `/posts/${post.post_id}`,
+      });
+      alert('Recipe saved to My Recipes');
+    } catch (error) {
+      console.error('Failed to save recipe:', error);
+      alert('Failed to save recipe');
+    }
   };
 
+  const parent = post.ancestry?.[post.ancestry.length - 1];
+
   return (
     <motion.div
       layout
@@ -218,9 +275,21 @@ export default function PostCard({ post, onPostDeleted, onPostUpdated }: PostCar
         </div>
       </div>
 
+      {/* Moderation status, only ever shown to the author */}
+      {post.moderation_status === 'held' && (
+        <div className="mb-3 px-3 py-2 rounded-lg text-sm bg-yellow-50 border border-yellow-200 text-yellow-800">
+          ⏳ Pending review. Only you can see this post until a moderator approves it.
+        </div>
+      )}
+      {post.moderation_status === 'rejected' && (
+        <div className="mb-3 px-3 py-2 rounded-lg text-sm bg-red-50 border border-red-200 text-red-700">
+          🚫 Removed by moderators. Only you can see this post.
+        </div>
+      )}
+
       {/* Caption */}
       {post.caption && (
-        <p className="text-gray-800 mb-3 whitespace-pre-wrap">{post.caption}</p>
+        <p className="text-gray-800 mb-3 whitespace-pre-wrap">{renderCaption(post.caption)}</p>
       )}
 
       {/* Images */}
@@ -270,6 +339,31 @@ export default function PostCard({ post, onPostDeleted, onPostUpdated }: PostCar
             {post.recipeData.ingredients.length} ingredients • {post.recipeData.instructions.length} steps
             {post.recipeData.cookingTime && ` • ${post.recipeData.cookingTime} mins`}
           </p>
+          {parent && (
+            <p className="text-sm text-gray-600 mt-1">
+              🍴 Variation of{' '}
+              <Link href={`/users/${parent.user_id}`} className="text-blue-600 hover:underline">
+                @{parent.username || 'unknown'}
+              </Link>
+              &apos;s recipe
+              {post.ancestry!.length > 1 && `, originally by @${post.ancestry![0].username || 'unknown'}`}
+            </p>
+          )}
+          <div className="flex items-center gap-4 mt-2">
+            <Link
+              href={`/posts/${post.post_id}/forks`}
+              className="text-sm font-medium text-green-700 hover:underline"
+            >
+              See variations
+            </Link>
+            {token && (
+              <ExportMenu
+                label="Export"
+                onExport={(format) => exportPost(token, post.post_id, format)}
+                className="text-sm font-medium text-green-700 hover:underline disabled:opacity-50"
+              />
+            )}
+          </div>
         </div>
       )}
 
@@ -0,0 +1,91 @@
+/**
+ * Export Menu Component
+ * Downloads a recipe as PDF, Markdown or schema.org JSON-LD
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { RecipeExport, RecipeExportFormat } from '@/types/recipe';
+
+interface ExportMenuProps {
+  onExport: (format: RecipeExportFormat) => Promise<RecipeExport>;
+  label: string;
+  formats?: RecipeExportFormat[];
+  className?: string;
+}
+
+const FORMAT_LABELS: Record<RecipeExportFormat, string> = {
+  pdf: 'PDF',
+  markdown: 'Markdown',
+  jsonld: 'JSON-LD (schema.org)',
+};
+
+function download(result: RecipeExport) {
+  // PDFs come back as a signed link; text formats are saved from the response
+  const href = result.download_url
+    || URL.createObjectURL(new Blob([result.content || ''], { type: result.content_type }));
+
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = result.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  if (!result.download_url) URL.revokeObjectURL(href);
+}
+
+export default function ExportMenu({
+  onExport,
+  label,
+  formats = ['pdf', 'markdown', 'jsonld'],
+  className = '',
+}: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState<RecipeExportFormat | null>(null);
+
+  const handleExport = async (format: RecipeExportFormat) => {
+    try {
+      setExporting(format);
+      download(await onExport(format));
+      setOpen(false);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  // A single format needs no menu
+  if (formats.length === 1) {
+    return (
+      <button onClick={() => handleExport(formats[0])} disabled={exporting !== null} className={className}>
+        {exporting ? '...' : label}
+      </button>
+    );
+  }
+
+  return (
+    <div className="relative inline-block">
+      <button onClick={() => setOpen(!open)} disabled={exporting !== null} className={className}>
+        {exporting ? '...' : label}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-1 w-48 bg-white border border-gray-200 rounded-md shadow-lg">
+          {formats.map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
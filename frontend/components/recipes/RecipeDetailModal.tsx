@@ -1,7 +1,10 @@
 'use client';
 
-import React, { useEffect } from 'react';
-import { Recipe, getCookingMethodLabel, getCookingMethodColor, formatTime, getTotalTime, getCuisineTypeLabel, getMealTypeLabel } from '@/types/recipe';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Recipe, getCookingMethodLabel, getCookingMethodColor, formatTime, getTotalTime, getCuisineTypeLabel, getMealTypeLabel, getHealthGoalLabel } from '@/types/recipe';
+import { DEFAULT_SERVINGS, UnitSystem, getScaleFactor, scaleIngredients } from '@/lib/recipeScaling';
+import { useHouseholdSize } from '@/hooks/useHouseholdSize';
+import ServingsControl from './ServingsControl';
 
 interface RecipeDetailModalProps {
   recipe: Recipe | null;
@@ -16,6 +19,26 @@ export default function RecipeDetailModal({
   onClose,
   onStartCooking
 }: RecipeDetailModalProps) {
+  const householdSize = useHouseholdSize();
+  const [servings, setServings] = useState<number | null>(null);
+  const [units, setUnits] = useState<UnitSystem | undefined>(undefined);
+
+  // Each recipe opens at the household size again
+  useEffect(() => {
+    setServings(null);
+  }, [recipe?.recipe_id]);
+
+  const displayServings = servings ?? householdSize ?? recipe?.servings ?? DEFAULT_SERVINGS;
+
+  const scaledRecipe = useMemo(() => {
+    if (!recipe) return null;
+    return {
+      ...recipe,
+      servings: displayServings,
+      ingredients: scaleIngredients(recipe.ingredients, getScaleFactor(recipe.servings, displayServings), units)
+    };
+  }, [recipe, displayServings, units]);
+
   // Handle ESC key to close modal
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
@@ -35,7 +58,7 @@ export default function RecipeDetailModal({
     };
   }, [isOpen, onClose]);
 
-  if (!isOpen || !recipe) {
+  if (!isOpen || !recipe || !scaledRecipe) {
     return null;
   }
 
@@ -160,7 +183,7 @@ export default function RecipeDetailModal({
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                   </svg>
                 </div>
-                <div className="text-sm font-medium text-gray-900">{recipe.servings}</div>
+                <div className="text-sm font-medium text-gray-900">{displayServings}</div>
                 <div className="text-xs text-gray-600">Khẩu phần</div>
               </div>
             </div>
@@ -168,7 +191,14 @@ export default function RecipeDetailModal({
             {/* Nutritional Info */}
             {recipe.nutritional_info && (
               <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
-                <h3 className="text-sm font-semibold text-blue-900 mb-3">Thông tin dinh dưỡng (1 khẩu phần)</h3>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-semibold text-blue-900">Thông tin dinh dưỡng (1 khẩu phần)</h3>
+                  {recipe.nutritional_info.source && (
+                    <span className="text-xs text-blue-700">
+                      {recipe.nutritional_info.source === 'computed' ? 'Tính từ nguyên liệu' : 'Ước tính bởi AI'}
+                    </span>
+                  )}
+                </div>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
                   {recipe.nutritional_info.calories && (
                     <div>
@@ -194,7 +224,34 @@ export default function RecipeDetailModal({
                       <span className="font-medium text-gray-900">{recipe.nutritional_info.fat}</span>
                     </div>
                   )}
+                  {recipe.nutritional_info.fiber && (
+                    <div>
+                      <span className="text-gray-600">Fiber: </span>
+                      <span className="font-medium text-gray-900">{recipe.nutritional_info.fiber}</span>
+                    </div>
+                  )}
+                  {recipe.nutritional_info.sodium && (
+                    <div>
+                      <span className="text-gray-600">Sodium: </span>
+                      <span className="font-medium text-gray-900">{recipe.nutritional_info.sodium}</span>
+                    </div>
+                  )}
                 </div>
+                {recipe.health_goal_checks && recipe.health_goal_checks.length > 0 && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {recipe.health_goal_checks.map(check => (
+                      <span
+                        key={check.goal}
+                        title={check.reason}
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          check.met ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
+                        }`}
+                      >
+                        {check.met ? '✓' : '!'} {getHealthGoalLabel(check.goal)}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
 
@@ -206,8 +263,16 @@ export default function RecipeDetailModal({
                 </svg>
                 Nguyên liệu ({recipe.ingredients.length})
               </h3>
+              <div className="mb-4">
+                <ServingsControl
+                  servings={displayServings}
+                  onServingsChange={setServings}
+                  units={units}
+                  onUnitsChange={setUnits}
+                />
+              </div>
               <div className="space-y-2">
-                {recipe.ingredients.map((ingredient, index) => (
+                {scaledRecipe.ingredients.map((ingredient, index) => (
                   <div key={index} className="flex items-start p-3 bg-gray-50 rounded-lg">
                     <div className="flex-shrink-0 w-6 h-6 rounded-full bg-green-100 flex items-center justify-center mt-0.5">
                       <svg className="h-4 w-4 text-green-600" fill="currentColor" viewBox="0 0 20 20">
@@ -237,7 +302,7 @@ export default function RecipeDetailModal({
             {onStartCooking && (
               <div className="mt-8 pt-6 border-t border-gray-200">
                 <button
-                  onClick={() => onStartCooking(recipe)}
+                  onClick={() => onStartCooking(scaledRecipe)}
                   className="w-full bg-green-600 text-white py-4 px-6 rounded-lg font-semibold hover:bg-green-700 transition-colors flex items-center justify-center shadow-lg"
                 >
                   <svg className="h-6 w-6 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
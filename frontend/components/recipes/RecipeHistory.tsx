@@ -0,0 +1,238 @@
+/**
+ * Recipe History Component
+ * Revision list for a saved recipe with diffs against the current version or the source post
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getRevisions,
+  restoreRevision,
+  compareRecipeVersions,
+  RecipeRevision,
+  RecipeDiff,
+  RecipeIngredient,
+  RecipeVersion,
+} from '@/services/savedRecipes';
+
+interface RecipeHistoryProps {
+  savedId: string;
+  hasSourcePost: boolean;
+  // Revision count changes whenever the recipe is saved, which reloads the list
+  revisionCount?: number;
+  onRestored: () => void;
+}
+
+const REASON_LABELS: Record<RecipeRevision['reason'], string> = {
+  saved: 'Bản gốc',
+  edit: 'Chỉnh sửa',
+  restore: 'Khôi phục',
+};
+
+const formatIngredient = (ingredient: RecipeIngredient) =>
+  [ingredient.quantity, ingredient.unit, ingredient.name].filter(Boolean).join(' ');
+
+function DiffView({ diff }: { diff: RecipeDiff }) {
+  if (!diff.has_changes) {
+    return <p className="text-sm text-gray-600">Không có thay đổi</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {diff.recipe_name && (
+        <p>
+          <span className="font-medium">Tên món:</span>{' '}
+          <span className="line-through text-red-600">{diff.recipe_name.from}</span>{' '}
+          → <span className="text-green-700">{diff.recipe_name.to}</span>
+        </p>
+      )}
+
+      {diff.servings && (
+        <p>
+          <span className="font-medium">Khẩu phần:</span> {diff.servings.from ?? '—'} → {diff.servings.to ?? '—'}
+        </p>
+      )}
+
+      {(diff.ingredients.added.length > 0 || diff.ingredients.removed.length > 0 || diff.ingredients.changed.length > 0) && (
+        <div>
+          <p className="font-medium mb-1">Nguyên liệu</p>
+          <ul className="space-y-1">
+            {diff.ingredients.added.map((ingredient, i) => (
+              <li key={`added-${i}`} className="text-green-700">+ {formatIngredient(ingredient)}</li>
+            ))}
+            {diff.ingredients.removed.map((ingredient, i) => (
+              <li key={`removed-${i}`} className="text-red-600">− {formatIngredient(ingredient)}</li>
+            ))}
+            {diff.ingredients.changed.map((change, i) => (
+              <li key={`changed-${i}`} className="text-amber-700">
+                ~ {change.name}: {formatIngredient({ ...change.from, name: '' })} → {formatIngredient({ ...change.to, name: '' })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(diff.steps.added.length > 0 || diff.steps.removed.length > 0 || diff.steps.changed.length > 0 || diff.steps.moved.length > 0) && (
+        <div>
+          <p className="font-medium mb-1">Các bước</p>
+          <ul className="space-y-1">
+            {diff.steps.added.map((step) => (
+              <li key={`added-${step.step_number}`} className="text-green-700">+ Bước {step.step_number}: {step.description}</li>
+            ))}
+            {diff.steps.removed.map((step) => (
+              <li key={`removed-${step.step_number}`} className="text-red-600">− Bước {step.step_number}: {step.description}</li>
+            ))}
+            {diff.steps.changed.map((change) => (
+              <li key={`changed-${change.step_number}`} className="text-amber-700">
+                ~ Bước {change.step_number}: <span className="line-through">{change.from}</span> → {change.to}
+              </li>
+            ))}
+            {diff.steps.moved.map((move, i) => (
+              <li key={`moved-${i}`} className="text-blue-700">
+                ↕ {move.description} (bước {move.from_step} → {move.to_step})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function RecipeHistory({ savedId, hasSourcePost, revisionCount, onRestored }: RecipeHistoryProps) {
+  const [revisions, setRevisions] = useState<RecipeRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [comparing, setComparing] = useState<RecipeVersion | null>(null);
+  const [diff, setDiff] = useState<RecipeDiff | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRevisions(await getRevisions(savedId));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load revisions:', err);
+      setError('Không thể tải lịch sử chỉnh sửa');
+    } finally {
+      setLoading(false);
+    }
+  }, [savedId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, revisionCount]);
+
+  const handleCompare = async (version: RecipeVersion) => {
+    if (comparing === version) {
+      setComparing(null);
+      setDiff(null);
+      return;
+    }
+
+    try {
+      setComparing(version);
+      setDiff(null);
+      const result = await compareRecipeVersions(savedId, version, 'current');
+      setDiff(result.diff);
+    } catch (err) {
+      setComparing(null);
+      setError(err instanceof Error ? err.message : 'Không thể so sánh');
+    }
+  };
+
+  const handleRestore = async (revision: number) => {
+    if (!confirm(`Khôi phục phiên bản ${revision}? Các thay đổi hiện tại vẫn được lưu trong lịch sử.`)) return;
+
+    try {
+      setRestoring(revision);
+      await restoreRevision(savedId, revision);
+      setComparing(null);
+      setDiff(null);
+      await loadRevisions();
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Không thể khôi phục');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const latestRevision = revisions[0]?.revision;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Lịch sử chỉnh sửa</h2>
+        {hasSourcePost && (
+          <button
+            onClick={() => handleCompare('source')}
+            className={`text-sm font-medium ${comparing === 'source' ? 'text-gray-600' : 'text-blue-600 hover:text-blue-700'}`}
+          >
+            {comparing === 'source' ? 'Ẩn so sánh' : 'So sánh với bài viết gốc'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {comparing === 'source' && (
+        <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+          {diff ? <DiffView diff={diff} /> : <p className="text-sm text-gray-500">Đang so sánh...</p>}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {revisions.map((revision) => (
+            <li key={revision.revision} className="py-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    Phiên bản {revision.revision}
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {REASON_LABELS[revision.reason]}
+                      {revision.restored_from ? ` từ phiên bản ${revision.restored_from}` : ''}
+                      {revision.revision === latestRevision ? ' · hiện tại' : ''}
+                    </span>
+                  </p>
+                  <p className="text-sm text-gray-500">{new Date(revision.created_at).toLocaleString('vi-VN')}</p>
+                </div>
+
+                {revision.revision !== latestRevision && (
+                  <div className="flex items-center gap-3 text-sm">
+                    <button
+                      onClick={() => handleCompare(revision.revision)}
+                      className="text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      {comparing === revision.revision ? 'Ẩn' : 'So sánh'}
+                    </button>
+                    <button
+                      onClick={() => handleRestore(revision.revision)}
+                      disabled={restoring !== null}
+                      className="text-gray-700 hover:text-gray-900 font-medium disabled:opacity-50"
+                    >
+                      {restoring === revision.revision ? 'Đang khôi phục...' : 'Khôi phục'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {comparing === revision.revision && (
+                <div className="mt-3 p-4 bg-gray-50 rounded-lg">
+                  {diff ? <DiffView diff={diff} /> : <p className="text-sm text-gray-500">Đang so sánh...</p>}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { UnitSystem } from '@/lib/recipeScaling';
+
+interface ServingsControlProps {
+  servings: number;
+  onServingsChange: (servings: number) => void;
+  units?: UnitSystem;
+  onUnitsChange: (units: UnitSystem | undefined) => void;
+  compact?: boolean;
+}
+
+const MIN_SERVINGS = 1;
+const MAX_SERVINGS = 50;
+
+/**
+ * Servings stepper with a metric/imperial toggle, used to rescale recipe ingredients live
+ */
+export default function ServingsControl({
+  servings,
+  onServingsChange,
+  units,
+  onUnitsChange,
+  compact = false
+}: ServingsControlProps) {
+  const buttonClass = `${compact ? 'w-7 h-7' : 'w-8 h-8'} rounded-full border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onServingsChange(servings - 1)}
+          disabled={servings <= MIN_SERVINGS}
+          className={buttonClass}
+          aria-label="Giảm khẩu phần"
+        >
+          −
+        </button>
+        <span className="min-w-[4.5rem] text-center text-sm font-medium text-gray-900">
+          {servings} khẩu phần
+        </span>
+        <button
+          type="button"
+          onClick={() => onServingsChange(servings + 1)}
+          disabled={servings >= MAX_SERVINGS}
+          className={buttonClass}
+          aria-label="Tăng khẩu phần"
+        >
+          +
+        </button>
+      </div>
+
+      <select
+        value={units || ''}
+        onChange={(e) => onUnitsChange((e.target.value || undefined) as UnitSystem | undefined)}
+        className="px-2 py-1 border border-gray-300 rounded text-sm"
+        aria-label="Đơn vị"
+      >
+        <option value="">Đơn vị gốc</option>
+        <option value="metric">Hệ mét (g, ml)</option>
+        <option value="imperial">Imperial (oz, cup)</option>
+      </select>
+    </div>
+  );
+}
@@ -27,9 +27,10 @@ export default function ShareToFeedButton({
   const handleShare = () => {
     setIsSharing(true);
 
-    // Store recipe data in sessionStorage to pre-fill post form
+    // Store recipe data in sessionStorage to pre-fill post form; the post is published
+    // from the saved recipe so it keeps the recipe's fork lineage
     const recipeData = {
-      recipe_id: recipeId,
+      saved_id: recipeId,
       title: recipeTitle,
       image: recipeImage,
       description: recipeDescription,
@@ -6,3 +6,5 @@
 export { default as RecipeCard } from './RecipeCard';
 export { default as RecipeDetailModal } from './RecipeDetailModal';
 export { default as ShareToFeedButton } from './ShareToFeedButton';
+export { default as ServingsControl } from './ServingsControl';
+export { default as ExportMenu } from './ExportMenu';
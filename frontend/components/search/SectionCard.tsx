@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { Post } from '@/services/search';
+import { SectionResponse, SearchSortBy } from '@/services/search';
 import PostCard from '../posts/PostCard';
 
 interface SectionCardProps {
@@ -10,7 +10,8 @@ interface SectionCardProps {
     count: number;
     section: 'my' | 'friends' | 'public';
     ingredients: string[];
-    sortBy: 'date' | 'likes' | 'comments';
+    sortBy: SearchSortBy;
+    data?: SectionResponse;
     onLoadPosts: (section: string, page: number) => Promise<void>;
 }
 
@@ -21,13 +22,14 @@ export default function SectionCard({
     section,
     ingredients,
     sortBy,
+    data,
     onLoadPosts
 }: SectionCardProps) {
     const [isExpanded, setIsExpanded] = useState(false);
-    const [posts, setPosts] = useState<Post[]>([]);
     const [currentPage, setCurrentPage] = useState(1);
-    const [totalPages, setTotalPages] = useState(1);
     const [loading, setLoading] = useState(false);
+    const posts = data?.posts || [];
+    const totalPages = data?.totalPages || 1;
 
     async function handleExpand() {
         if (isExpanded) {
@@ -89,7 +91,21 @@ export default function SectionCard({
                             {/* Posts */}
                             <div className="space-y-4">
                                 {posts.map(post => (
-                                    <PostCard key={post.postId} post={post} />
+                                    <div key={post.postId}>
+                                        {post.ingredient_match && (
+                                            <div className="mb-2 text-sm">
+                                                <span className="font-semibold text-green-700">
+                                                    Có {post.ingredient_match.match_percentage}% nguyên liệu
+                                                </span>
+                                                {post.ingredient_match.missing_ingredients.length > 0 && (
+                                                    <span className="text-gray-600">
+                                                        {' '}· Còn thiếu: {post.ingredient_match.missing_ingredients.join(', ')}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        )}
+                                        <PostCard post={post} />
+                                    </div>
                                 ))}
                             </div>
 
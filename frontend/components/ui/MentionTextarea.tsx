@@ -0,0 +1,168 @@
+/**
+ * Mention Textarea Component
+ * Textarea with @mention autocomplete, suggesting friends first
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback, forwardRef, useImperativeHandle, useRef } from 'react';
+import Image from 'next/image';
+import { useAuth } from '@/contexts/AuthContext';
+import { searchUsersForMention, MentionSuggestion } from '@/services/comments';
+
+// "@" at the start or after a space, up to the cursor
+const MENTION_QUERY_PATTERN = /(^|\s)@([a-zA-Z0-9_-]*)$/;
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Called for keys the suggestion list doesn't handle
+  onKeyDown?: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+  placeholder?: string;
+  className?: string;
+  rows?: number;
+  maxLength?: number;
+}
+
+const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(function MentionTextarea(
+  { value, onChange, onKeyDown, placeholder, className, rows, maxLength },
+  ref
+) {
+  const { token } = useAuth();
+  const [suggestions, setSuggestions] = useState<MentionSuggestion[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useImperativeHandle(ref, () => inputRef.current as HTMLTextAreaElement);
+
+  // The cursor only moves with the value here, so the query is recomputed when the value changes
+  const getMentionQuery = useCallback(() => {
+    const cursorPosition = inputRef.current?.selectionStart ?? value.length;
+    const match = value.substring(0, cursorPosition).match(MENTION_QUERY_PATTERN);
+    return match ? { query: match[2], start: cursorPosition - match[2].length - 1, end: cursorPosition } : null;
+  }, [value]);
+
+  useEffect(() => {
+    const mention = getMentionQuery();
+    if (!mention || !mention.query || !token) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const debounceTimer = setTimeout(async () => {
+      try {
+        const result = await searchUsersForMention(token, mention.query, controller.signal);
+        setSuggestions(result.users);
+        setSelectedIndex(0);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to search users:', err);
+        setSuggestions([]);
+      }
+    }, 200);
+
+    return () => {
+      clearTimeout(debounceTimer);
+      controller.abort();
+    };
+  }, [getMentionQuery, token]);
+
+  const insertMention = (username: string) => {
+    const mention = getMentionQuery();
+    if (!mention) return;
+
+    const newValue = `${value.substring(0, mention.start)}@${username} ${value.substring(mention.end)}`;
+    onChange(newValue);
+    setSuggestions([]);
+
+    // Put the cursor after the inserted mention
+    setTimeout(() => {
+      const newPosition = mention.start + username.length + 2;
+      inputRef.current?.setSelectionRange(newPosition, newPosition);
+      inputRef.current?.focus();
+    }, 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setSelectedIndex((prev) => (prev + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setSelectedIndex((prev) => (prev - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[selectedIndex].username);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setSuggestions([]);
+        return;
+      }
+    }
+
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={inputRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={className}
+        rows={rows}
+        maxLength={maxLength}
+      />
+
+      {suggestions.length > 0 && (
+        <div className="absolute z-20 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.user_id}
+              type="button"
+              onClick={() => insertMention(suggestion.username)}
+              className={`w-full px-3 py-2 flex items-center gap-2 hover:bg-gray-100 transition ${
+                index === selectedIndex ? 'bg-blue-50' : ''
+              }`}
+            >
+              {/* Avatar */}
+              <div className="relative w-8 h-8 rounded-full overflow-hidden bg-gray-200 flex-shrink-0">
+                {suggestion.avatar_url ? (
+                  <Image
+                    src={suggestion.avatar_url}
+                    alt={suggestion.username}
+                    fill
+                    className="object-cover"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-blue-400 to-purple-500">
+                    <span className="text-sm font-bold text-white">
+                      {suggestion.username.charAt(0).toUpperCase()}
+                    </span>
+                  </div>
+                )}
+              </div>
+              <div className="min-w-0 text-left">
+                <p className="text-sm font-medium text-gray-900 truncate">@{suggestion.username}</p>
+                {suggestion.friendship_status === 'accepted' && (
+                  <p className="text-xs text-gray-500">Friend</p>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default MentionTextarea;
@@ -5,3 +5,4 @@
 
 export { default as Toast } from './Toast';
 export { default as ConfirmDialog } from './ConfirmDialog';
+export { default as MentionTextarea } from './MentionTextarea';
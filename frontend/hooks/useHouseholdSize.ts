@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { authenticatedFetch } from '@/lib/apiHelpers';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
+
+// Preferences rarely change within a session, so fetch them once per page load
+let cachedHouseholdSize: Promise<number | null> | null = null;
+
+function fetchHouseholdSize(): Promise<number | null> {
+  if (!cachedHouseholdSize) {
+    cachedHouseholdSize = authenticatedFetch(`${API_URL}/v1/users/profile/preferences`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        const prefs = data?.data?.preferences || data?.preferences;
+        return prefs?.household_size || null;
+      })
+      .catch(() => {
+        cachedHouseholdSize = null;
+        return null;
+      });
+  }
+  return cachedHouseholdSize;
+}
+
+/**
+ * Household size from the user's preferences, used as the default servings
+ * when showing a recipe. Null while loading or when not set.
+ */
+export function useHouseholdSize(): number | null {
+  const [householdSize, setHouseholdSize] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchHouseholdSize().then(size => {
+      if (!cancelled) setHouseholdSize(size);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return householdSize;
+}
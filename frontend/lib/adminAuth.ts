@@ -1,17 +1,70 @@
 /**
  * Admin Authentication Utilities
- * Checks if user belongs to Admins group in Cognito
+ * Maps the user's Cognito groups to admin roles and permissions.
+ * Mirrors lambda/shared/auth/admin-roles.ts, which is what the API enforces.
  */
 
 import { authService } from './auth';
 
+export type AdminRole = 'super_admin' | 'moderator' | 'support';
+
+export type AdminPermission =
+  | 'stats:read'
+  | 'users:read'
+  | 'users:suspend'
+  | 'users:reindex'
+  | 'appeals:review'
+  | 'content:moderate'
+  | 'recipes:review'
+  | 'audit:read';
+
+// Group names are matched case-insensitively
+const GROUP_ROLES: Record<string, AdminRole> = {
+  admin: 'super_admin',
+  admins: 'super_admin',
+  'super-admin': 'super_admin',
+  superadmins: 'super_admin',
+  moderator: 'moderator',
+  moderators: 'moderator',
+  support: 'support'
+};
+
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  super_admin: [
+    'stats:read',
+    'users:read',
+    'users:suspend',
+    'users:reindex',
+    'appeals:review',
+    'content:moderate',
+    'recipes:review',
+    'audit:read'
+  ],
+  moderator: ['stats:read', 'users:read', 'users:suspend', 'content:moderate', 'recipes:review'],
+  support: ['stats:read', 'users:read', 'users:suspend', 'appeals:review']
+};
+
 export interface AdminUser {
   email: string;
   sub: string;
   groups: string[];
+  roles: AdminRole[];
+  permissions: AdminPermission[];
   isAdmin: boolean;
 }
 
+export function getAdminRoles(groups: string[]): AdminRole[] {
+  const roles = groups
+    .map(group => GROUP_ROLES[group.toLowerCase()])
+    .filter((role): role is AdminRole => !!role);
+
+  return Array.from(new Set(roles));
+}
+
+export function getAdminPermissions(roles: AdminRole[]): AdminPermission[] {
+  return Array.from(new Set(roles.flatMap(role => ROLE_PERMISSIONS[role])));
+}
+
 /**
  * Get current user's groups from Cognito token
  */
@@ -32,11 +85,19 @@ export async function getUserGroups(): Promise<string[]> {
 }
 
 /**
- * Check if current user is an admin
+ * Check if current user has any admin role
  */
 export async function isAdmin(): Promise<boolean> {
   const groups = await getUserGroups();
-  return groups.includes('Admins');
+  return getAdminRoles(groups).length > 0;
+}
+
+/**
+ * Check if current user has an admin permission
+ */
+export async function hasAdminPermission(permission: AdminPermission): Promise<boolean> {
+  const groups = await getUserGroups();
+  return getAdminPermissions(getAdminRoles(groups)).includes(permission);
 }
 
 /**
@@ -51,13 +112,15 @@ export async function getAdminUser(): Promise<AdminUser | null> {
     const payload = idToken.decodePayload();
     
     const groups = payload['cognito:groups'] || [];
-    const isUserAdmin = groups.includes('Admins');
+    const roles = getAdminRoles(groups);
 
     return {
       email: payload.email || '',
       sub: payload.sub || '',
       groups,
-      isAdmin: isUserAdmin
+      roles,
+      permissions: getAdminPermissions(roles),
+      isAdmin: roles.length > 0
     };
   } catch (error) {
     console.error('Failed to get admin user:', error);
@@ -0,0 +1,14 @@
+/**
+ * Recipe scaling for live rescaling in the browser.
+ * Re-exports the backend scaler so amounts always match
+ * GET /v1/recipes/{id}?servings=N&units=metric|imperial.
+ */
+
+export {
+  DEFAULT_SERVINGS,
+  getScaleFactor,
+  scaleQuantity,
+  scaleIngredients
+} from '../../lambda/shared/business/ingredients/recipe-scaler';
+
+export type { UnitSystem } from '../../lambda/shared/business/ingredients/recipe-scaler';
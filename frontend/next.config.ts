@@ -1,6 +1,14 @@
-﻿import type { NextConfig } from 'next';
+﻿import path from 'path';
+import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
+  // lib/recipeScaling.ts bundles the backend recipe scaler from ../lambda
+  experimental: {
+    externalDir: true,
+  },
+  turbopack: {
+    root: path.join(__dirname, '..'),
+  },
   images: {
     unoptimized: true, // Keep for now, can enable optimization later
   },
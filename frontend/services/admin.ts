@@ -4,6 +4,8 @@
  */
 
 import { apiRequest } from '@/lib/apiHelpers';
+import { AppealStatus, SuspensionAppeal } from '@/services/appeals';
+import { Report } from '@/services/posts';
 
 export interface SuspendedUser {
   user_id: string;
@@ -87,6 +89,234 @@ export async function unbanUser(userId: string, reason: string): Promise<void> {
   });
 }
 
+// ==================== APPEALS ====================
+
+export interface AppealQueueItem extends SuspensionAppeal {
+  username?: string;
+}
+
+export interface AppealReviewResult {
+  success: boolean;
+  user_id: string;
+  suspension_id: string;
+  status: 'approved' | 'denied';
+  suspension_lifted: boolean;
+  message: string;
+}
+
+export async function getAppeals(status: AppealStatus = 'pending', limit: number = 50): Promise<AppealQueueItem[]> {
+  const data = await apiRequest<{ appeals: AppealQueueItem[] }>(`/admin/appeals?status=${status}&limit=${limit}`);
+  return data.appeals;
+}
+
+export async function approveAppeal(userId: string, suspensionId: string, notes?: string): Promise<AppealReviewResult> {
+  return await apiRequest<AppealReviewResult>(`/admin/appeals/${userId}/${encodeURIComponent(suspensionId)}/approve`, {
+    method: 'PUT',
+    body: JSON.stringify({ notes })
+  });
+}
+
+export async function denyAppeal(userId: string, suspensionId: string, reason: string): Promise<AppealReviewResult> {
+  return await apiRequest<AppealReviewResult>(`/admin/appeals/${userId}/${encodeURIComponent(suspensionId)}/deny`, {
+    method: 'PUT',
+    body: JSON.stringify({ reason })
+  });
+}
+
+// ==================== HELD CONTENT ====================
+
+export type ReviewStatus = 'held' | 'approved' | 'rejected';
+
+export interface ModerationSignal {
+  check: string;
+  action: 'hold' | 'reject';
+  category: 'profanity' | 'spam' | 'repeated_content' | 'image' | 'classifier';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  reason: string;
+  matches?: string[];
+}
+
+export interface HeldContentItem {
+  post_id: string;
+  content_type: 'post' | 'comment';
+  content_id: string;
+  user_id: string;
+  username?: string;
+  excerpt: string;
+  images: string[];
+  signals: ModerationSignal[];
+  status: ReviewStatus;
+  created_at: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_note?: string;
+}
+
+export interface HeldContentReviewResult {
+  success: boolean;
+  post_id: string;
+  content_type: 'post' | 'comment';
+  content_id: string;
+  status: 'approved' | 'rejected';
+  content_found: boolean;
+  message: string;
+}
+
+export async function getHeldContent(status: ReviewStatus = 'held', limit: number = 50): Promise<HeldContentItem[]> {
+  const data = await apiRequest<{ items: HeldContentItem[] }>(`/admin/moderation?status=${status}&limit=${limit}`);
+  return data.items;
+}
+
+export async function reviewHeldContent(
+  item: HeldContentItem,
+  decision: 'approve' | 'reject',
+  notes?: string
+): Promise<HeldContentReviewResult> {
+  return await apiRequest<HeldContentReviewResult>(
+    `/admin/moderation/${item.post_id}/${item.content_type}/${item.content_id}/${decision}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify({ notes })
+    }
+  );
+}
+
+// ==================== REPORT CASES ====================
+
+export type CaseStatus = 'open' | 'hidden' | 'upheld' | 'dismissed';
+
+export interface CaseEvent {
+  actor_id: string;
+  status?: CaseStatus;
+  note?: string;
+  at: string;
+}
+
+export interface ReportCase {
+  post_id: string;
+  author_id: string;
+  author_username?: string;
+  excerpt: string;
+  status: CaseStatus;
+  report_count: number;
+  reporter_ids: string[];
+  weighted_score: number;
+  reasons: Record<string, number>;
+  first_reported_at: string;
+  last_reported_at: string;
+  hidden_at?: string;
+  resolved_at?: string;
+  resolved_by?: string;
+  events: CaseEvent[];
+}
+
+export interface ReportCaseDetail extends ReportCase {
+  reports: Report[];
+}
+
+export interface ReportCaseUpdateResult {
+  success: boolean;
+  case: ReportCase;
+  post_found: boolean;
+  message: string;
+}
+
+export interface BulkResolveResult {
+  success: boolean;
+  resolved: string[];
+  failed: Array<{ post_id: string; error: string }>;
+  message: string;
+}
+
+export async function getReportCases(status: CaseStatus = 'open', limit: number = 50): Promise<ReportCase[]> {
+  const data = await apiRequest<{ cases: ReportCase[] }>(`/admin/reports/cases?status=${status}&limit=${limit}`);
+  return data.cases;
+}
+
+export async function getReportCase(postId: string): Promise<ReportCaseDetail> {
+  const data = await apiRequest<{ case: ReportCaseDetail }>(`/admin/reports/cases/${postId}`);
+  return data.case;
+}
+
+/**
+ * Change a case's status and/or add a note to it
+ */
+export async function updateReportCase(
+  postId: string,
+  update: { status?: Exclude<CaseStatus, 'open'>; note?: string }
+): Promise<ReportCaseUpdateResult> {
+  return await apiRequest<ReportCaseUpdateResult>(`/admin/reports/cases/${postId}`, {
+    method: 'PUT',
+    body: JSON.stringify(update)
+  });
+}
+
+export async function bulkResolveReportCases(
+  postIds: string[],
+  status: 'upheld' | 'dismissed',
+  note?: string
+): Promise<BulkResolveResult> {
+  return await apiRequest<BulkResolveResult>('/admin/reports/cases', {
+    method: 'PUT',
+    body: JSON.stringify({ post_ids: postIds, status, note })
+  });
+}
+
+// ==================== AUDIT LOG ====================
+
+export type AdminActionType =
+  | 'ban_user'
+  | 'unban_user'
+  | 'approve_recipe'
+  | 'reject_recipe'
+  | 'remove_post'
+  | 'dismiss_report'
+  | 'approve_ban'
+  | 'reject_ban'
+  | 'approve_appeal'
+  | 'deny_appeal'
+  | 'approve_content'
+  | 'reject_content'
+  | 'hide_post';
+
+export interface AdminAction {
+  action_id: string;
+  admin_id: string;
+  admin_username?: string;
+  action_type: AdminActionType;
+  target_type: 'user' | 'recipe' | 'post' | 'comment' | 'report';
+  target_id: string;
+  target_user_id?: string;
+  reason?: string;
+  notes?: string;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  admin_id?: string;
+  action_type?: AdminActionType;
+  target_user_id?: string;
+  from?: string; // YYYY-MM-DD or ISO timestamp
+  to?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface AuditLogPage {
+  entries: AdminAction[];
+  next_cursor?: string;
+}
+
+export async function getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogPage> {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.append(key, String(value));
+  });
+
+  const query = params.toString();
+  return await apiRequest<AuditLogPage>(`/admin/audit-log${query ? '?' + query : ''}`);
+}
+
 // ==================== VIOLATIONS ====================
 
 export async function getViolations(options?: {
@@ -0,0 +1,93 @@
+/**
+ * AI Suggestions Service
+ * Streams recipe suggestions as NDJSON frames so recipes render as they arrive
+ */
+
+import { authenticatedFetch } from '@/lib/apiHelpers';
+import { Recipe, AISuggestionStats } from '@/types/recipe';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+
+// Lambda Function URL with response streaming; the API Gateway route buffers the same frames
+const STREAM_URL = process.env.NEXT_PUBLIC_AI_STREAM_URL || `${API_BASE_URL}/v1/ai/suggest-recipes/stream`;
+
+export type SuggestionStreamFrame =
+  | {
+      type: 'recipe';
+      source: 'database' | 'ai';
+      recipe: Recipe;
+    }
+  | {
+      type: 'stats';
+      suggestion_id: string;
+      stats: AISuggestionStats;
+      cost_optimization: {
+        estimated_ai_cost_saved: number;
+        database_recipes_used: number;
+        ai_recipes_generated: number;
+      };
+    }
+  | {
+      type: 'error';
+      error: string;
+      message: string;
+    };
+
+/**
+ * Request recipe suggestions and call onFrame for every frame as it arrives
+ */
+export async function streamRecipeSuggestions(
+  ingredients: string[],
+  recipeCount: number,
+  onFrame: (frame: SuggestionStreamFrame) => void,
+  signal?: AbortSignal,
+  options: { useExpiring?: boolean } = {}
+): Promise<void> {
+  const response = await authenticatedFetch(STREAM_URL, {
+    method: 'POST',
+    body: JSON.stringify({
+      ingredients,
+      recipe_count: recipeCount,
+      // Put soon-to-expire pantry items first
+      use_expiring: options.useExpiring || undefined
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to get recipe suggestions');
+  }
+
+  if (!response.body) {
+    // No streaming support: parse the whole body at once
+    parseLines(await response.text(), onFrame);
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lastNewline = buffer.lastIndexOf('\n');
+    if (lastNewline === -1) continue;
+
+    parseLines(buffer.slice(0, lastNewline), onFrame);
+    buffer = buffer.slice(lastNewline + 1);
+  }
+
+  parseLines(buffer + decoder.decode(), onFrame);
+}
+
+function parseLines(chunk: string, onFrame: (frame: SuggestionStreamFrame) => void) {
+  for (const line of chunk.split('\n')) {
+    if (line.trim()) {
+      onFrame(JSON.parse(line) as SuggestionStreamFrame);
+    }
+  }
+}
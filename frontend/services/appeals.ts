@@ -0,0 +1,68 @@
+/**
+ * Appeals Service
+ * API calls for viewing suspensions and appealing them
+ */
+
+import { authenticatedFetch, handleApiError } from '@/lib/apiHelpers';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+
+export type AppealStatus = 'pending' | 'approved' | 'denied';
+
+export interface SuspensionAppeal {
+  appeal_id: string;
+  user_id: string;
+  suspension_id: string;
+  suspension_reason?: string;
+  suspended_until?: string;
+  text: string;
+  evidence_urls: string[];
+  status: AppealStatus;
+  created_at: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_note?: string;
+}
+
+export interface UserSuspension {
+  suspension_id: string;
+  suspended_at: string;
+  suspended_until: string;
+  suspension_reason: string;
+  suspended_by: 'system' | 'admin';
+  can_appeal: boolean;
+  is_active: boolean;
+  lifted_at?: string;
+  appeal?: SuspensionAppeal;
+}
+
+async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const response = await authenticatedFetch(`${API_BASE_URL}/v1/users/me/suspensions${path}`, options);
+
+  if (!response.ok) {
+    await handleApiError(response);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export async function getMySuspensions(): Promise<UserSuspension[]> {
+  const data = await request<{ suspensions: UserSuspension[]; count: number }>('');
+  return data.suspensions;
+}
+
+/**
+ * Appeal a suspension; each suspension can only be appealed once
+ */
+export async function submitAppeal(
+  suspensionId: string,
+  text: string,
+  evidenceUrls: string[] = []
+): Promise<SuspensionAppeal> {
+  const data = await request<{ appeal: SuspensionAppeal }>(`/${encodeURIComponent(suspensionId)}/appeal`, {
+    method: 'POST',
+    body: JSON.stringify({ text, evidence_urls: evidenceUrls })
+  });
+  return data.appeal;
+}
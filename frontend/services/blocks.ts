@@ -0,0 +1,60 @@
+/**
+ * Blocks Service
+ * API calls for blocking and muting other users
+ */
+
+import { authenticatedFetch, handleApiError } from '@/lib/apiHelpers';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+
+export type RestrictionType = 'block' | 'mute';
+
+export interface RestrictedUser {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+  since: string;
+}
+
+async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const response = await authenticatedFetch(`${API_BASE_URL}/v1/users${path}`, options);
+
+  if (!response.ok) {
+    await handleApiError(response);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export async function blockUser(userId: string): Promise<RestrictedUser> {
+  const data = await request<{ user: RestrictedUser }>(`/${userId}/block`, { method: 'POST' });
+  return data.user;
+}
+
+export async function unblockUser(userId: string): Promise<void> {
+  await request(`/${userId}/block`, { method: 'DELETE' });
+}
+
+/**
+ * Mute a user: their posts, comments and notifications are hidden but the friendship stays
+ */
+export async function muteUser(userId: string): Promise<RestrictedUser> {
+  const data = await request<{ user: RestrictedUser }>(`/${userId}/mute`, { method: 'POST' });
+  return data.user;
+}
+
+export async function unmuteUser(userId: string): Promise<void> {
+  await request(`/${userId}/mute`, { method: 'DELETE' });
+}
+
+export async function getBlockedUsers(): Promise<RestrictedUser[]> {
+  const data = await request<{ users: RestrictedUser[]; count: number }>('/blocked');
+  return data.users;
+}
+
+export async function getMutedUsers(): Promise<RestrictedUser[]> {
+  const data = await request<{ users: RestrictedUser[]; count: number }>('/muted');
+  return data.users;
+}
@@ -3,8 +3,20 @@
  * API integration for post comments
  */
 
+import { searchUsers, UserSearchResult } from './friends';
+
 const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
 
+// @username range in a post or comment, end exclusive
+export interface Mention {
+  user_id: string;
+  username: string;
+  start: number;
+  end: number;
+}
+
+export type MentionSuggestion = UserSearchResult;
+
 export interface Comment {
   comment_id: string;
   post_id: string;
@@ -12,12 +24,26 @@ export interface Comment {
   username: string;
   avatar_url?: string;          // Fixed: user_avatar → avatar_url
   text: string;                 // Fixed: content → text
+  mentions?: Mention[];
   created_at: string;
   updated_at?: string;
-  // Removed: parent_comment_id (schema doesn't support nested comments)
-  // Removed: reply_count (not in schema)
+  parent_comment_id?: string;   // Set on replies
+  depth?: number;               // 0 for top-level comments, up to MAX_COMMENT_DEPTH for replies
+  reply_count?: number;
+  is_edited?: boolean;
+  edited_at?: string;
+  is_deleted?: boolean;         // Deleted comment kept as a placeholder for its replies
+  moderation_status?: 'held' | 'approved' | 'rejected'; // Held comments are only returned to their author
 }
 
+export interface CommentRevision {
+  text: string;
+  created_at: string;
+}
+
+// Replies nest at most two levels below the post
+export const MAX_COMMENT_DEPTH = 2;
+
 export interface CommentsResponse {
   comments: Comment[];
   nextToken?: string;
@@ -25,7 +51,24 @@ export interface CommentsResponse {
 
 export interface CreateCommentRequest {
   text: string;                 // Fixed: content → text
-  // Removed: parent_comment_id (schema doesn't support nested comments)
+  parent_comment_id?: string;
+}
+
+interface CommentsPayload {
+  comments?: Array<Comment | { comment: Comment }>;
+  next_key?: string;
+  nextToken?: string;
+}
+
+/**
+ * Unwrap a comments listing from the API envelope ({ success, data: { comments: [{ comment }] } })
+ */
+function toCommentsResponse(result: CommentsPayload & { data?: CommentsPayload }): CommentsResponse {
+  const data = result.data ?? result;
+  return {
+    comments: (data.comments || []).map((c) => ('comment' in c ? c.comment : c)),
+    nextToken: data.next_key ?? data.nextToken,
+  };
 }
 
 /**
@@ -54,7 +97,36 @@ export async function getComments(
     throw new Error(error.message || 'Failed to load comments');
   }
 
-  return response.json();
+  return toCommentsResponse(await response.json());
+}
+
+/**
+ * Get a page of replies to a comment
+ */
+export async function getReplies(
+  token: string,
+  postId: string,
+  commentId: string,
+  limit: number = 10,
+  nextToken?: string
+): Promise<CommentsResponse> {
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    ...(nextToken && { last_key: nextToken }),
+  });
+
+  const response = await fetch(`${API_URL}/posts/${postId}/comments/${commentId}/replies?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load replies');
+  }
+
+  return toCommentsResponse(await response.json());
 }
 
 /**
@@ -84,41 +156,65 @@ export async function createComment(
 }
 
 /**
- * Delete a comment
+ * Edit a comment. The previous text is kept as a revision.
  */
-export async function deleteComment(
+export async function updateComment(
   token: string,
   postId: string,
-  commentId: string
-): Promise<{ message: string }> {
+  commentId: string,
+  text: string
+): Promise<Comment> {
   const response = await fetch(`${API_URL}/posts/${postId}/comments/${commentId}`, {
-    method: 'DELETE',
+    method: 'PUT',
     headers: {
+      'Content-Type': 'application/json',
       Authorization: `Bearer ${token}`,
     },
+    body: JSON.stringify({ text }),
   });
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.message || 'Failed to delete comment');
+    throw new Error(error.message || 'Failed to edit comment');
   }
 
-  return response.json();
+  const result = await response.json();
+  return (result.data ?? result).comment;
 }
 
 /**
- * Search users for @mentions
+ * Get the earlier versions of an edited comment, oldest first
  */
-export async function searchUsersForMention(
+export async function getCommentRevisions(
   token: string,
-  query: string
-): Promise<{ users: Array<{ user_id: string; username: string; avatar_url?: string }> }> {
-  const params = new URLSearchParams({
-    q: query,
-    limit: '10',
+  postId: string,
+  commentId: string
+): Promise<CommentRevision[]> {
+  const response = await fetch(`${API_URL}/posts/${postId}/comments/${commentId}/revisions`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
   });
 
-  const response = await fetch(`${API_URL}/users/search?${params}`, {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load edit history');
+  }
+
+  const result = await response.json();
+  return (result.data ?? result).revisions || [];
+}
+
+/**
+ * Delete a comment (allowed for its author and the post owner)
+ */
+export async function deleteComment(
+  token: string,
+  postId: string,
+  commentId: string
+): Promise<{ message: string }> {
+  const response = await fetch(`${API_URL}/posts/${postId}/comments/${commentId}`, {
+    method: 'DELETE',
     headers: {
       Authorization: `Bearer ${token}`,
     },
@@ -126,8 +222,23 @@ export async function searchUsersForMention(
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.message || 'Failed to search users');
+    throw new Error(error.message || 'Failed to delete comment');
   }
 
   return response.json();
 }
+
+/**
+ * Search users for @mentions, friends first
+ */
+export async function searchUsersForMention(
+  token: string,
+  query: string,
+  signal?: AbortSignal
+): Promise<{ users: MentionSuggestion[] }> {
+  const { users } = await searchUsers(token, query, { limit: 10, signal });
+
+  // Stable sort keeps the search ranking within each group
+  const isFriend = (user: MentionSuggestion) => (user.friendship_status === 'accepted' ? 0 : 1);
+  return { users: [...users].sort((a, b) => isFriend(a) - isFriend(b)) };
+}
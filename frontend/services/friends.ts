@@ -26,6 +26,15 @@ export interface FriendRequest {
   requested_at: string;
 }
 
+export interface SuggestedFriend {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+  bio?: string;
+  mutual_friends_count: number;
+}
+
 export interface FriendsResponse {
   friends: Friend[];
   total_count: number;
@@ -151,21 +160,45 @@ export async function removeFriend(
   return response.json();
 }
 
+export interface UserSearchResult {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+  friendship_status?: 'none' | 'pending' | 'accepted' | 'blocked';
+  mutual_friends_count?: number;
+}
+
+export interface UserSearchPage {
+  users: UserSearchResult[];
+  next_cursor?: string;
+}
+
 /**
  * Search users to add as friends
+ * Pass next_cursor from the previous page to load more; pass a signal to cancel
+ * superseded as-you-type requests
  */
 export async function searchUsers(
   token: string,
-  query: string
-): Promise<{ users: Array<{ user_id: string; username: string; full_name: string; avatar_url?: string; is_friend: boolean }> }> {
-  const url = new URL(`${API_URL}/users/search`);
+  query: string,
+  options: { cursor?: string; limit?: number; signal?: AbortSignal } = {}
+): Promise<UserSearchPage> {
+  const url = new URL(`${API_URL}/v1/users/search`);
   url.searchParams.append('q', query);
+  if (options.limit) {
+    url.searchParams.append('limit', options.limit.toString());
+  }
+  if (options.cursor) {
+    url.searchParams.append('cursor', options.cursor);
+  }
 
   const response = await fetch(url.toString(), {
     headers: {
       Authorization: `Bearer ${token}`,
       'Content-Type': 'application/json',
     },
+    signal: options.signal,
   });
 
   if (!response.ok) {
@@ -173,5 +206,32 @@ export async function searchUsers(
     throw new Error(error.error || 'Failed to search users');
   }
 
-  return response.json();
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get "People you may know" suggestions ranked by mutual friends
+ */
+export async function getFriendSuggestions(
+  token: string,
+  limit: number = 10
+): Promise<SuggestedFriend[]> {
+  const url = new URL(`${API_URL}/v1/friends/suggestions`);
+  url.searchParams.append('limit', limit.toString());
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch friend suggestions');
+  }
+
+  const result = await response.json();
+  return result.data.suggestions;
 }
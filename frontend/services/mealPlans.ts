@@ -0,0 +1,110 @@
+/**
+ * Meal Plans Service
+ * API calls for the weekly meal planner
+ */
+
+import { authenticatedFetch, handleApiError } from '@/lib/apiHelpers';
+import { RecipeIngredient } from '@/services/savedRecipes';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner'];
+
+export interface MealPlanEntry {
+  source_type: 'saved_recipe' | 'suggestion';
+  saved_id?: string;
+  recipe_id?: string;
+  recipe_name: string;
+  recipe_ingredients: RecipeIngredient[];
+  total_time_minutes?: number;
+  servings: number;
+  added_at: string;
+}
+
+export interface MealPlanDay {
+  date: string;
+  meals: Partial<Record<MealType, MealPlanEntry>>;
+}
+
+export interface MealPlan {
+  user_id: string;
+  week_start: string;
+  days: MealPlanDay[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SlotRef {
+  date: string;
+  meal: MealType;
+}
+
+export interface FillMealPlanResult {
+  plan: MealPlan;
+  filled: SlotRef[];
+  remaining_empty: number;
+}
+
+async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const response = await authenticatedFetch(`${API_BASE_URL}/v1/meal-plans${path}`, options);
+
+  if (!response.ok) {
+    await handleApiError(response);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Monday (YYYY-MM-DD) of the week containing the given date
+ */
+export function getWeekStart(date: Date = new Date()): string {
+  const monday = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  const offset = (monday.getUTCDay() + 6) % 7;
+  monday.setUTCDate(monday.getUTCDate() - offset);
+  return monday.toISOString().slice(0, 10);
+}
+
+export function shiftWeek(weekStart: string, weeks: number): string {
+  const date = new Date(`${weekStart}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + weeks * 7);
+  return date.toISOString().slice(0, 10);
+}
+
+export async function getMealPlan(weekStart: string): Promise<MealPlan> {
+  const data = await request<{ plan: MealPlan }>(`/${weekStart}`);
+  return data.plan;
+}
+
+export async function setSlot(weekStart: string, slot: SlotRef, savedId: string, servings?: number): Promise<MealPlan> {
+  const data = await request<{ plan: MealPlan }>(`/${weekStart}/slots/${slot.date}/${slot.meal}`, {
+    method: 'PUT',
+    body: JSON.stringify({ saved_id: savedId, servings })
+  });
+  return data.plan;
+}
+
+export async function clearSlot(weekStart: string, slot: SlotRef): Promise<MealPlan> {
+  const data = await request<{ plan: MealPlan }>(`/${weekStart}/slots/${slot.date}/${slot.meal}`, {
+    method: 'DELETE'
+  });
+  return data.plan;
+}
+
+export async function moveSlot(weekStart: string, from: SlotRef, to: SlotRef): Promise<MealPlan> {
+  const data = await request<{ plan: MealPlan }>(`/${weekStart}/move`, {
+    method: 'POST',
+    body: JSON.stringify({ from, to })
+  });
+  return data.plan;
+}
+
+export async function fillEmptySlots(weekStart: string, ingredients: string[], slots?: SlotRef[]): Promise<FillMealPlanResult> {
+  return await request<FillMealPlanResult>(`/${weekStart}/fill`, {
+    method: 'POST',
+    body: JSON.stringify({ ingredients, slots })
+  });
+}
@@ -11,7 +11,9 @@ export type NotificationType =
   | 'comment'
   | 'reaction'
   | 'mention'
-  | 'recipe_approved';
+  | 'recipe_approved'
+  | 'recipe_forked'
+  | 'moderation';
 
 export interface Notification {
   notification_id: string;
@@ -26,6 +28,7 @@ export interface Notification {
   read: boolean;
   created_at: string;
   expires_at: string;
+  actor_count?: number;
 }
 
 export interface NotificationsResponse {
@@ -141,3 +144,143 @@ export async function deleteNotification(
 
   return response.json();
 }
+
+export interface NotificationChannels {
+  in_app: boolean;
+  email: boolean;
+}
+
+export type NotificationDigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationPreferences {
+  types: Record<NotificationType, NotificationChannels>;
+  quiet_hours: {
+    enabled: boolean;
+    start: string;
+    end: string;
+    timezone: string;
+  };
+  digest: NotificationDigestFrequency;
+  updated_at?: string;
+}
+
+/**
+ * Get notification preferences
+ */
+export async function getNotificationPreferences(token: string): Promise<NotificationPreferences> {
+  const response = await fetch(`${API_URL}/v1/notifications/preferences`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load notification preferences');
+  }
+
+  const result = await response.json();
+  return result.data.preferences;
+}
+
+/**
+ * Update notification preferences; only the fields given are changed
+ */
+export async function updateNotificationPreferences(
+  token: string,
+  updates: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+  const response = await fetch(`${API_URL}/v1/notifications/preferences`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update notification preferences');
+  }
+
+  const result = await response.json();
+  return result.data.preferences;
+}
+
+/**
+ * Events pushed over the notification socket
+ */
+export type NotificationSocketEvent =
+  | { type: 'notification'; notification: Notification }
+  | { type: 'unread_count'; unread_count: number };
+
+export interface NotificationSocketOptions {
+  onEvent: (event: NotificationSocketEvent) => void;
+  // Called with true when the socket opens and false whenever it drops
+  onStatusChange?: (connected: boolean) => void;
+}
+
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL || '';
+
+// API Gateway closes sockets idle for 10 minutes
+const KEEPALIVE_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+/**
+ * Open a live notification channel, reconnecting with backoff until closed.
+ * Returns null when no WebSocket endpoint is configured.
+ */
+export function connectNotificationSocket(
+  token: string,
+  { onEvent, onStatusChange }: NotificationSocketOptions
+): { close: () => void } | null {
+  if (!WS_URL || typeof WebSocket === 'undefined') return null;
+
+  let socket: WebSocket | null = null;
+  let keepalive: ReturnType<typeof setInterval> | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempts = 0;
+  let closed = false;
+
+  const open = () => {
+    socket = new WebSocket(`${WS_URL}?token=${encodeURIComponent(token)}`);
+
+    socket.onopen = () => {
+      attempts = 0;
+      onStatusChange?.(true);
+      // Catch up on anything missed while disconnected
+      socket?.send(JSON.stringify({ action: 'sync' }));
+      keepalive = setInterval(() => socket?.send(JSON.stringify({ action: 'ping' })), KEEPALIVE_INTERVAL_MS);
+    };
+
+    socket.onmessage = (message) => {
+      try {
+        onEvent(JSON.parse(message.data));
+      } catch (err) {
+        console.error('Invalid notification event:', err);
+      }
+    };
+
+    socket.onclose = () => {
+      clearInterval(keepalive);
+      if (closed) return;
+
+      onStatusChange?.(false);
+      const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+      attempts += 1;
+      reconnectTimer = setTimeout(open, delay);
+    };
+  };
+
+  open();
+
+  return {
+    close: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      clearInterval(keepalive);
+      socket?.close();
+    },
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Pantry Service
+ * API calls for the ingredient inventory with expiry tracking
+ */
+
+import { authenticatedFetch, handleApiError } from '@/lib/apiHelpers';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+
+export type PantryLocation = 'fridge' | 'freezer' | 'pantry';
+
+export type ExpiryStatus = 'expired' | 'expiring' | 'fresh' | 'unknown';
+
+export interface PantryItem {
+  item_id: string;
+  user_id: string;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  purchase_date?: string;
+  expiry_date?: string;
+  location: PantryLocation;
+  notes?: string;
+  days_until_expiry: number | null;
+  expiry_status: ExpiryStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PantryItemInput {
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+  purchase_date?: string;
+  expiry_date?: string;
+  location?: PantryLocation;
+  notes?: string;
+}
+
+export interface PantryDeduction {
+  item_id: string;
+  name: string;
+  used: number;
+  unit: string | null;
+  remaining: number;
+}
+
+export interface DeductPantryResult {
+  deductions: PantryDeduction[];
+  not_in_pantry: string[];
+  untracked: string[];
+}
+
+async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const response = await authenticatedFetch(`${API_BASE_URL}/v1/pantry${path}`, options);
+
+  if (!response.ok) {
+    await handleApiError(response);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export async function getPantryItems(expiringWithin?: number): Promise<PantryItem[]> {
+  const query = expiringWithin !== undefined ? `?expiring_within=${expiringWithin}` : '';
+  const data = await request<{ items: PantryItem[]; total: number }>(query);
+  return data.items;
+}
+
+export async function addPantryItem(body: PantryItemInput): Promise<PantryItem> {
+  const data = await request<{ item: PantryItem }>('', {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+  return data.item;
+}
+
+export async function updatePantryItem(itemId: string, body: Partial<PantryItemInput>): Promise<PantryItem> {
+  const data = await request<{ item: PantryItem }>(`/${itemId}`, {
+    method: 'PUT',
+    body: JSON.stringify(body)
+  });
+  return data.item;
+}
+
+export async function deletePantryItem(itemId: string): Promise<void> {
+  await request(`/${itemId}`, { method: 'DELETE' });
+}
+
+/**
+ * Deduct a cooked recipe's ingredients from the pantry
+ */
+export async function deductPantry(
+  ingredients: { name: string; quantity?: string | number; unit?: string }[],
+  recipeTitle?: string
+): Promise<DeductPantryResult> {
+  return request<DeductPantryResult>('/deduct', {
+    method: 'POST',
+    body: JSON.stringify({ ingredients, recipe_title: recipeTitle })
+  });
+}
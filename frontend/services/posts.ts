@@ -3,6 +3,8 @@
  * API integration for social feed and posts
  */
 
+import { NutritionalInfo, RecipeExport, RecipeExportFormat } from '@/types/recipe';
+
 const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
 
 export interface RecipeData {
@@ -21,6 +23,14 @@ export interface RecipeData {
   cookingTime?: number;
   difficulty?: 'easy' | 'medium' | 'hard';
   servings?: number;
+  nutritional_info?: NutritionalInfo; // Computed by the server from the ingredients
+}
+
+export interface RecipeAncestor {
+  post_id: string;
+  user_id: string;
+  username?: string;
+  recipe_name?: string;
 }
 
 export interface Post {
@@ -43,6 +53,14 @@ export interface Post {
   
   // User's reaction to this post
   user_reaction?: 'like' | 'love' | 'wow';
+
+  // Recipe forks: every post the recipe came through, oldest first; the last one is the parent
+  forked_from_post_id?: string;
+  ancestry?: RecipeAncestor[];
+
+  // Held or rejected by moderation; only the author receives these posts
+  moderation_status?: 'held' | 'approved' | 'rejected';
+  moderation_reasons?: string[];
   
   // Legacy fields (for backward compatibility)
   recipe_id?: string;
@@ -125,6 +143,94 @@ export async function getUserPosts(
   return response.json();
 }
 
+export interface TagPostsResponse extends PostsResponse {
+  tag: string; // Normalized tag, e.g. "an-chay" for "#ăn-chay"
+  has_more: boolean;
+}
+
+/**
+ * Get posts tagged with a hashtag, newest first
+ */
+export async function getPostsByTag(
+  token: string,
+  tag: string,
+  limit: number = 20,
+  nextKey?: string
+): Promise<TagPostsResponse> {
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    ...(nextKey && { last_key: nextKey }),
+  });
+
+  const response = await fetch(`${API_URL}/v1/posts/tags/${encodeURIComponent(tag)}?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load tagged posts');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export interface ForksResponse {
+  forks: Array<{ post: Post; depth: number }>;
+  next_key?: string;
+  has_more: boolean;
+}
+
+/**
+ * Export a recipe post as PDF, Markdown or schema.org JSON-LD
+ */
+export async function exportPost(token: string, postId: string, format: RecipeExportFormat): Promise<RecipeExport> {
+  const response = await fetch(`${API_URL}/v1/posts/${postId}/export?format=${format}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to export recipe');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get published variations of a recipe post, including variations of variations
+ */
+export async function getPostForks(
+  token: string,
+  postId: string,
+  limit: number = 20,
+  nextKey?: string
+): Promise<ForksResponse> {
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    ...(nextKey && { last_key: nextKey }),
+  });
+
+  const response = await fetch(`${API_URL}/v1/posts/${postId}/forks?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load variations');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
 /**
  * Create a new post
  * Using Next.js API route as proxy to bypass CORS
@@ -4,6 +4,9 @@
  */
 
 import { apiRequest } from '@/lib/apiHelpers';
+import { NutritionalInfo, HealthGoalCheck } from '@/types/recipe';
+import { Post, RecipeAncestor } from '@/types/posts';
+import { RecipeExport, RecipeExportFormat } from '@/types/recipe';
 
 export interface RecipeIngredient {
   name: string;
@@ -24,16 +27,23 @@ export interface SavedRecipe {
   recipe_name: string;
   recipe_ingredients: RecipeIngredient[];
   recipe_instructions: RecipeInstruction[];
+  servings?: number;
+  nutritional_info?: NutritionalInfo; // Per serving, computed from the ingredients
+  health_goal_checks?: HealthGoalCheck[];
   is_modified: boolean;
   personal_notes?: string;
   is_favorite: boolean;
   
   // Source tracking
-  source_type: 'ai_suggestion' | 'post' | 'manual';
+  source_type: 'ai_suggestion' | 'post' | 'manual' | 'import';
   source_id?: string;
   original_author_id?: string;
   original_author_username?: string;
   original_post_url?: string;
+
+  // Fork lineage when saved from a post: every post the recipe came through, oldest first
+  forked_from_post_id?: string;
+  ancestry?: RecipeAncestor[];
   
   // Metadata
   saved_at: string;
@@ -42,8 +52,47 @@ export interface SavedRecipe {
   // Social
   shared_as_post_id?: string;
   shared_at?: string;
+
+  revision_count?: number;
+}
+
+export interface RecipeContent {
+  recipe_name: string;
+  recipe_ingredients: RecipeIngredient[];
+  recipe_instructions: RecipeInstruction[];
+  servings?: number;
+}
+
+export interface RecipeRevision extends RecipeContent {
+  saved_id: string;
+  revision: number;
+  reason: 'saved' | 'edit' | 'restore';
+  restored_from?: number;
+  created_at: string;
 }
 
+export interface RecipeDiff {
+  recipe_name?: { from: string; to: string };
+  servings?: { from?: number; to?: number };
+  ingredients: {
+    added: RecipeIngredient[];
+    removed: RecipeIngredient[];
+    changed: { name: string; from: RecipeIngredient; to: RecipeIngredient }[];
+  };
+  steps: {
+    added: RecipeInstruction[];
+    removed: RecipeInstruction[];
+    changed: { step_number: number; from: string; to: string }[];
+    moved: { description: string; from_step: number; to_step: number }[];
+  };
+  has_changes: boolean;
+}
+
+/**
+ * A revision number, the current recipe, or the post it was saved from
+ */
+export type RecipeVersion = number | 'current' | 'source';
+
 export interface RecipeGroup {
   group_id: string;
   user_id: string;
@@ -58,7 +107,8 @@ export interface SaveRecipeRequest {
   recipe_name: string;
   recipe_ingredients: RecipeIngredient[];
   recipe_instructions: RecipeInstruction[];
-  source_type: 'ai_suggestion' | 'post' | 'manual';
+  servings?: number;
+  source_type: 'ai_suggestion' | 'post' | 'manual' | 'import';
   source_id?: string;
   original_author_id?: string;
   original_author_username?: string;
@@ -68,6 +118,11 @@ export interface SaveRecipeRequest {
   group_ids?: string[];
 }
 
+export interface ImportedRecipe {
+  draft: SaveRecipeRequest;
+  method: 'json-ld' | 'heuristic';
+}
+
 export interface RecipesWithGroups {
   groups: (RecipeGroup & { items: SavedRecipe[] })[];
   favorites: SavedRecipe[];
@@ -94,8 +149,37 @@ export async function saveRecipe(request: SaveRecipeRequest): Promise<SavedRecip
   return response.recipe;
 }
 
-export async function getRecipe(savedId: string): Promise<{ recipe: SavedRecipe; groups: RecipeGroup[] }> {
-  return await apiRequest<{ recipe: SavedRecipe; groups: RecipeGroup[] }>(`/recipes/${savedId}`);
+// Draft only - nothing is saved until the reviewed draft goes through saveRecipe
+export async function importRecipe(source: { url?: string; text?: string }): Promise<ImportedRecipe> {
+  return await apiRequest<ImportedRecipe>('/recipes/import', {
+    method: 'POST',
+    body: JSON.stringify(source)
+  });
+}
+
+export interface RecipeScaling {
+  base_servings: number;
+  servings: number;
+  factor: number;
+  units?: 'metric' | 'imperial';
+}
+
+/**
+ * Get a saved recipe. Pass servings and/or units to get it rescaled
+ * (servings defaults to the household size when only units are given).
+ */
+export async function getRecipe(
+  savedId: string,
+  scale?: { servings?: number; units?: 'metric' | 'imperial' }
+): Promise<{ recipe: SavedRecipe; groups: RecipeGroup[]; scaling?: RecipeScaling }> {
+  const params = new URLSearchParams();
+  if (scale?.servings) params.set('servings', String(scale.servings));
+  if (scale?.units) params.set('units', scale.units);
+  const query = params.toString() ? `?${params.toString()}` : '';
+
+  return await apiRequest<{ recipe: SavedRecipe; groups: RecipeGroup[]; scaling?: RecipeScaling }>(
+    `/recipes/${savedId}${query}`
+  );
 }
 
 export async function updateRecipe(
@@ -123,16 +207,43 @@ export async function toggleFavorite(savedId: string): Promise<void> {
 export async function shareRecipe(
   savedId: string,
   data: {
-    title: string;
-    caption: string;
+    caption?: string;
     images?: string[];
-    visibility: 'public' | 'friends' | 'private';
+    visibility?: 'public' | 'friends' | 'private';
   }
-): Promise<void> {
-  await apiRequest(`/recipes/${savedId}/share`, {
+): Promise<Post> {
+  const response = await apiRequest<{ post: Post }>(`/recipes/${savedId}/share`, {
     method: 'POST',
     body: JSON.stringify(data)
   });
+  return response.post;
+}
+
+export async function exportRecipe(savedId: string, format: RecipeExportFormat): Promise<RecipeExport> {
+  return await apiRequest<RecipeExport>(`/recipes/${savedId}/export?format=${format}`);
+}
+
+// ==================== REVISIONS ====================
+
+export async function getRevisions(savedId: string): Promise<RecipeRevision[]> {
+  const response = await apiRequest<{ revisions: RecipeRevision[]; total: number }>(`/recipes/${savedId}/revisions`);
+  return response.revisions;
+}
+
+export async function restoreRevision(savedId: string, revision: number): Promise<RecipeRevision> {
+  const response = await apiRequest<{ revision: RecipeRevision }>(`/recipes/${savedId}/revisions/${revision}/restore`, {
+    method: 'POST'
+  });
+  return response.revision;
+}
+
+export async function compareRecipeVersions(
+  savedId: string,
+  from: RecipeVersion,
+  to: RecipeVersion = 'current'
+): Promise<{ from: { recipe: RecipeContent }; to: { recipe: RecipeContent }; diff: RecipeDiff }> {
+  const params = new URLSearchParams({ from: String(from), to: String(to) });
+  return await apiRequest(`/recipes/${savedId}/diff?${params.toString()}`);
 }
 
 // ==================== GROUPS ====================
@@ -162,6 +273,11 @@ export async function updateGroup(groupId: string, groupName: string): Promise<v
   });
 }
 
+// Cookbook PDF of every recipe in the group
+export async function exportGroup(groupId: string): Promise<RecipeExport> {
+  return await apiRequest<RecipeExport>(`/recipes/groups/${groupId}/export`);
+}
+
 export async function deleteGroup(groupId: string): Promise<void> {
   await apiRequest(`/recipes/groups/${groupId}`, {
     method: 'DELETE'
@@ -3,6 +3,9 @@ import { authenticatedFetch } from '@/lib/apiHelpers';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
 
+export type SearchMode = 'all' | 'ranked';
+export type SearchSortBy = 'date' | 'likes' | 'comments' | 'match';
+
 export interface CountsResponse {
   myPosts: number;
   friendsPosts: number;
@@ -34,6 +37,14 @@ export interface Post {
   updatedAt: string;
   author?: UserProfile;
   isLiked?: boolean;
+  ingredient_match?: IngredientMatch; // Ranked mode only
+}
+
+export interface IngredientMatch {
+  match_percentage: number;
+  score: number;
+  matched_ingredients: string[];
+  missing_ingredients: string[];
 }
 
 export interface RecipeData {
@@ -65,9 +76,12 @@ export interface UserProfile {
 }
 
 // Get search counts
-export async function getSearchCounts(ingredients: string[]): Promise<CountsResponse> {
+export async function getSearchCounts(
+  ingredients: string[],
+  mode: SearchMode = 'all'
+): Promise<CountsResponse> {
   const response = await authenticatedFetch(
-    `${API_BASE_URL}/v1/search/counts?ingredients=${ingredients.join(',')}`
+    `${API_BASE_URL}/v1/search/counts?ingredients=${ingredients.join(',')}&mode=${mode}`
   );
 
   if (!response.ok) {
@@ -85,14 +99,16 @@ export async function getSectionPosts(
   section: 'my' | 'friends' | 'public',
   page: number = 1,
   limit: number = 10,
-  sortBy: 'date' | 'likes' | 'comments' = 'date'
+  sortBy: SearchSortBy = 'date',
+  mode: SearchMode = 'all'
 ): Promise<SectionResponse> {
   const params = new URLSearchParams({
     ingredients: ingredients.join(','),
     section,
     page: page.toString(),
     limit: limit.toString(),
-    sortBy
+    sortBy,
+    mode
   });
 
   const response = await authenticatedFetch(
@@ -0,0 +1,100 @@
+/**
+ * Shopping Lists Service
+ * API calls for aggregated shopping lists
+ */
+
+import { authenticatedFetch, handleApiError } from '@/lib/apiHelpers';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+
+export interface ShoppingListSource {
+  source_type: 'saved_recipe' | 'post' | 'meal_plan';
+  source_id: string;
+  name: string;
+}
+
+export interface ShoppingListItem {
+  item_id: string;
+  name: string;
+  category: string;
+  quantity: number | null;
+  unit: string | null;
+  checked: boolean;
+  checked_by?: string;
+  recipes: string[];
+}
+
+export interface ShoppingList {
+  list_id: string;
+  owner_id: string;
+  name: string;
+  sources: ShoppingListSource[];
+  items: ShoppingListItem[];
+  shared_with: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateShoppingListRequest {
+  name?: string;
+  saved_ids?: string[];
+  post_ids?: string[];
+  meal_plan_week?: string;
+  already_have?: string[];
+}
+
+async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const response = await authenticatedFetch(`${API_BASE_URL}/v1/shopping-lists${path}`, options);
+
+  if (!response.ok) {
+    await handleApiError(response);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export async function getShoppingLists(): Promise<ShoppingList[]> {
+  const data = await request<{ lists: ShoppingList[]; total: number }>('');
+  return data.lists;
+}
+
+export async function getShoppingList(listId: string): Promise<ShoppingList> {
+  const data = await request<{ list: ShoppingList }>(`/${listId}`);
+  return data.list;
+}
+
+export async function createShoppingList(body: CreateShoppingListRequest): Promise<ShoppingList> {
+  const data = await request<{ list: ShoppingList }>('', {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+  return data.list;
+}
+
+export async function setItemChecked(listId: string, itemId: string, checked: boolean): Promise<ShoppingListItem> {
+  const data = await request<{ item: ShoppingListItem }>(`/${listId}/items/${itemId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ checked })
+  });
+  return data.item;
+}
+
+export async function shareShoppingList(listId: string, friendId: string): Promise<ShoppingList> {
+  const data = await request<{ list: ShoppingList }>(`/${listId}/share`, {
+    method: 'POST',
+    body: JSON.stringify({ friend_id: friendId })
+  });
+  return data.list;
+}
+
+export async function unshareShoppingList(listId: string, friendId: string): Promise<ShoppingList> {
+  const data = await request<{ list: ShoppingList }>(`/${listId}/share/${friendId}`, {
+    method: 'DELETE'
+  });
+  return data.list;
+}
+
+export async function deleteShoppingList(listId: string): Promise<void> {
+  await request(`/${listId}`, { method: 'DELETE' });
+}
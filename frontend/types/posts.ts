@@ -3,6 +3,8 @@
  * Synchronized with backend schema (lambda/posts/types.ts)
  */
 
+import { NutritionalInfo } from './recipe';
+
 // ==================== RECIPE DATA ====================
 
 export interface RecipeData {
@@ -21,10 +23,18 @@ export interface RecipeData {
   cookingTime?: number;
   difficulty?: 'easy' | 'medium' | 'hard';
   servings?: number;
+  nutritional_info?: NutritionalInfo; // Computed by the server from the ingredients
 }
 
 // ==================== POST ====================
 
+export interface RecipeAncestor {
+  post_id: string;
+  user_id: string;
+  username?: string;
+  recipe_name?: string;
+}
+
 export interface Post {
   post_id: string;
   user_id: string;
@@ -45,6 +55,14 @@ export interface Post {
   
   // User's reaction to this post
   user_reaction?: 'like' | 'love' | 'wow';
+
+  // Recipe forks: every post the recipe came through, oldest first; the last one is the parent
+  forked_from_post_id?: string;
+  ancestry?: RecipeAncestor[];
+
+  // Held or rejected by moderation; only the author receives these posts
+  moderation_status?: 'held' | 'approved' | 'rejected';
+  moderation_reasons?: string[];
 }
 
 export interface CreatePostRequest {
@@ -25,6 +25,16 @@ export interface NutritionalInfo {
   fat?: string;
   fiber?: string;
   sodium?: string;
+  source?: 'computed' | 'ai'; // computed = summed from the ingredients, ai = model estimate
+  coverage?: number; // Share of measured ingredients found in the nutrient table (0-1)
+}
+
+export interface HealthGoalCheck {
+  goal: string;
+  met: boolean;
+  value: number;
+  target: number;
+  reason: string;
 }
 
 export interface Recipe {
@@ -41,6 +51,7 @@ export interface Recipe {
   ingredients: RecipeIngredient[];
   instructions: RecipeInstruction[];
   nutritional_info?: NutritionalInfo;
+  health_goal_checks?: HealthGoalCheck[];
   image_url?: string;
   is_public: boolean;
   is_ai_generated: boolean;
@@ -79,6 +90,17 @@ export interface AISuggestionRequest {
   recipe_count: number; // 1-5
 }
 
+export type RecipeExportFormat = 'pdf' | 'markdown' | 'jsonld';
+
+export interface RecipeExport {
+  format: RecipeExportFormat;
+  filename: string;
+  content_type: string;
+  content?: string; // Markdown and JSON-LD
+  download_url?: string; // PDF, short-lived
+  expires_in?: number;
+}
+
 // UI Helper types and constants
 export const COOKING_METHOD_LABELS: Record<string, string> = {
   'stir-fry': 'Xào',
@@ -119,6 +141,12 @@ export const MEAL_TYPE_LABELS: Record<string, string> = {
   'appetizer': 'Khai vị'
 };
 
+export const HEALTH_GOAL_LABELS: Record<string, string> = {
+  'weight_loss': 'Giảm cân',
+  'muscle_gain': 'Tăng cơ',
+  'general_health': 'Ít muối'
+};
+
 export const CUISINE_TYPE_LABELS: Record<string, string> = {
   'vietnamese': 'Việt Nam',
   'northern': 'Miền Bắc',
@@ -154,6 +182,10 @@ export function getCuisineTypeLabel(cuisineType: string): string {
   return CUISINE_TYPE_LABELS[cuisineType] || cuisineType;
 }
 
+export function getHealthGoalLabel(goal: string): string {
+  return HEALTH_GOAL_LABELS[goal] || goal;
+}
+
 export function getTotalTime(recipe: Recipe): number {
   return recipe.prep_time_minutes + recipe.cook_time_minutes;
 }
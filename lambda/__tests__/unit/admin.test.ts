@@ -282,6 +282,98 @@ describe('Admin Handler - Unit Tests', () => {
       });
     });
 
+    describe('Suspension appeals', () => {
+      it('should list pending appeals with usernames', async () => {
+        // Arrange
+        dynamoMock.on(QueryCommand).resolves({
+          Items: [{
+            appeal_id: 'appeal-1',
+            user_id: mockUsers.suspendedUser.user_id,
+            suspension_id: '2026-10-19T08:00:00.000Z',
+            text: 'Please review my suspension',
+            status: 'pending',
+            created_at: '2026-10-19T09:00:00.000Z'
+          }],
+          Count: 1
+        });
+        mockDynamoDBHelpers.mockGetItem({
+          PK: `USER#${mockUsers.suspendedUser.user_id}`,
+          SK: 'PROFILE',
+          username: mockUsers.suspendedUser.username
+        });
+
+        const event = createAdminEvent('GET', '/admin/appeals');
+
+        // Act
+        const response = await handler(castEvent(event));
+
+        // Assert
+        assertSuccessResponse(response);
+        const body = parseResponseBody(response);
+        expect(body.data.appeals).toHaveLength(1);
+        expect(body.data.appeals[0].username).toBe(mockUsers.suspendedUser.username);
+      });
+
+      it('should return 400 for an unknown status filter', async () => {
+        const event = createAdminEvent('GET', '/admin/appeals');
+        event.queryStringParameters = { status: 'archived' };
+
+        const response = await handler(castEvent(event));
+
+        assertErrorResponse(response, 400);
+      });
+
+      it('should return 400 when denial reason is missing', async () => {
+        const event = createAdminEvent(
+          'PUT',
+          `/admin/appeals/user-suspended/${encodeURIComponent('2026-10-19T08:00:00.000Z')}/deny`,
+          {}
+        );
+
+        const response = await handler(castEvent(event));
+
+        assertErrorResponse(response, 400);
+      });
+    });
+
+    describe('Held content', () => {
+      it('should list content held by moderation with usernames', async () => {
+        dynamoMock.on(QueryCommand).resolves({
+          Items: [{
+            post_id: 'post-1',
+            content_type: 'comment',
+            content_id: 'comment-1',
+            user_id: mockUsers.user1.user_id,
+            excerpt: 'ngon vcl',
+            signals: [{ check: 'keywords', action: 'hold', category: 'profanity', severity: 'medium', reason: 'Possible profanity or insult' }],
+            status: 'held',
+            created_at: '2026-10-19T09:00:00.000Z'
+          }],
+          Count: 1
+        });
+        mockDynamoDBHelpers.mockGetItem({
+          PK: `USER#${mockUsers.user1.user_id}`,
+          SK: 'PROFILE',
+          username: mockUsers.user1.username
+        });
+
+        const response = await handler(castEvent(createAdminEvent('GET', '/admin/moderation')));
+
+        assertSuccessResponse(response);
+        const body = parseResponseBody(response);
+        expect(body.data.items).toHaveLength(1);
+        expect(body.data.items[0]).toMatchObject({ content_type: 'comment', username: mockUsers.user1.username });
+      });
+
+      it('should return 404 when reviewing content that is not held', async () => {
+        mockDynamoDBHelpers.mockGetItemNotFound();
+
+        const response = await handler(castEvent(createAdminEvent('PUT', '/admin/moderation/post-1/post/post-1/approve', {})));
+
+        assertErrorResponse(response, 404);
+      });
+    });
+
     describe('Non-admin access attempts', () => {
       it('should reject non-admin user attempting to ban', async () => {
         // Arrange
@@ -1065,6 +1157,134 @@ describe('Admin Handler - Unit Tests', () => {
       });
     });
   });
+
+  describe('Admin roles', () => {
+    const createRoleEvent = (groups: any, method: string, path: string, body?: any, queryParams?: any) => {
+      const event = createAuthenticatedAPIGatewayEvent(
+        method,
+        path,
+        mockUsers.adminUser.user_id,
+        mockUsers.adminUser.email,
+        body,
+        undefined,
+        queryParams
+      );
+      event.requestContext.authorizer!.claims = {
+        sub: mockUsers.adminUser.user_id,
+        email: mockUsers.adminUser.email,
+        'cognito:username': mockUsers.adminUser.username,
+        'cognito:groups': groups
+      };
+      return event;
+    };
+
+    it('should let moderators review content but not read the audit log', async () => {
+      dynamoMock.on(QueryCommand).resolves({ Items: [], Count: 0 });
+
+      const moderation = await handler(castEvent(createRoleEvent('moderators', 'GET', '/v1/admin/moderation')));
+      const auditLog = await handler(castEvent(createRoleEvent('moderators', 'GET', '/v1/admin/audit-log')));
+
+      assertSuccessResponse(moderation);
+      assertErrorResponse(auditLog, 403);
+    });
+
+    it('should let support review appeals but not moderate content', async () => {
+      dynamoMock.on(QueryCommand).resolves({ Items: [], Count: 0 });
+
+      const appeals = await handler(castEvent(createRoleEvent(['Support'], 'GET', '/admin/appeals')));
+      const reports = await handler(castEvent(createRoleEvent(['Support'], 'GET', '/admin/reports/cases')));
+
+      assertSuccessResponse(appeals);
+      assertErrorResponse(reports, 403);
+    });
+
+    it('should accept the Admins group as super admin, including several groups in one claim', async () => {
+      dynamoMock.on(QueryCommand).resolves({ Items: [], Count: 0 });
+
+      const response = await handler(castEvent(createRoleEvent('[support Admins]', 'GET', '/admin/audit-log')));
+
+      assertSuccessResponse(response);
+    });
+  });
+
+  describe('GET /admin/audit-log - Audit log', () => {
+    const createAuditEvent = (queryParams?: any) => {
+      const event = createAuthenticatedAPIGatewayEvent(
+        'GET',
+        '/v1/admin/audit-log',
+        mockUsers.adminUser.user_id,
+        mockUsers.adminUser.email,
+        undefined,
+        undefined,
+        queryParams
+      );
+      event.requestContext.authorizer!.claims = {
+        sub: mockUsers.adminUser.user_id,
+        'cognito:groups': 'admin'
+      };
+      return event;
+    };
+
+    const action = (n: number, overrides: any = {}) => ({
+      PK: 'ADMIN#admin-1',
+      SK: `ACTION#${n}`,
+      GSI1PK: 'ADMIN_ACTION_ALL',
+      GSI1SK: `2026-10-${String(n).padStart(2, '0')}T10:00:00.000Z`,
+      action_id: String(n),
+      admin_id: 'admin-1',
+      action_type: 'ban_user',
+      target_type: 'user',
+      target_id: 'user-1',
+      created_at: `2026-10-${String(n).padStart(2, '0')}T10:00:00.000Z`,
+      ...overrides
+    });
+
+    it('should filter by admin, action, target user and date range', async () => {
+      dynamoMock.on(QueryCommand).resolves({ Items: [action(18)], Count: 1 });
+      mockDynamoDBHelpers.mockGetItem({ PK: 'USER#admin-1', SK: 'PROFILE', username: 'mod_an' });
+
+      const response = await handler(castEvent(createAuditEvent({
+        admin_id: 'admin-1',
+        action_type: 'ban_user',
+        target_user_id: 'user-1',
+        from: '2026-10-01',
+        to: '2026-10-18'
+      })));
+
+      assertSuccessResponse(response);
+      const body = parseResponseBody(response);
+      expect(body.data.entries[0]).toMatchObject({ action_type: 'ban_user', admin_username: 'mod_an', target_user_id: 'user-1' });
+
+      const input = dynamoMock.commandCalls(QueryCommand)[0].args[0].input;
+      expect(input.KeyConditionExpression).toBe('GSI1PK = :pk AND GSI1SK BETWEEN :from AND :to');
+      expect(input.FilterExpression).toContain('admin_id = :adminId');
+      expect(input.FilterExpression).toContain('action_type = :actionType');
+      expect(input.ExpressionAttributeValues).toMatchObject({
+        ':from': '2026-10-01T00:00:00.000Z',
+        ':to': '2026-10-18T23:59:59.999Z',
+        ':targetUserId': 'user-1'
+      });
+    });
+
+    it('should continue after the last returned entry when a read returns more than the limit', async () => {
+      dynamoMock.on(QueryCommand).resolves({ Items: [action(3), action(2), action(1)], Count: 3 });
+      mockDynamoDBHelpers.mockGetItemNotFound();
+
+      const response = await handler(castEvent(createAuditEvent({ limit: '2' })));
+
+      const body = parseResponseBody(response);
+      expect(body.data.entries).toHaveLength(2);
+      expect(JSON.parse(Buffer.from(body.data.next_cursor, 'base64').toString())).toMatchObject({ SK: 'ACTION#2' });
+    });
+
+    it('should reject unknown action types and invalid dates', async () => {
+      const badAction = await handler(castEvent(createAuditEvent({ action_type: 'delete_everything' })));
+      const badDate = await handler(castEvent(createAuditEvent({ from: 'last tuesday' })));
+
+      assertErrorResponse(badAction, 400);
+      assertErrorResponse(badDate, 400);
+    });
+  });
 });
 
 
@@ -0,0 +1,122 @@
+/**
+ * AI Suggestion Stream Handler Unit Tests
+ * The Function URL is public, so the handler must verify tokens and rate limit itself
+ */
+
+import { TokenVerifier } from '../../shared/auth/token-verifier';
+import { RateLimiter } from '../../shared/business/abuse/rate-limiter';
+import { prepareSuggestion, streamSuggestRecipes } from '../../ai-suggestion/index';
+
+jest.mock('../../ai-suggestion/index', () => ({
+  prepareSuggestion: jest.fn(),
+  streamSuggestRecipes: jest.fn()
+}));
+jest.mock('../../shared/business/abuse/rate-limiter', () => ({
+  RateLimiter: { enforce: jest.fn() }
+}));
+
+interface CapturedStream {
+  meta?: { statusCode: number; headers?: Record<string, string> };
+  chunks: string[];
+  write(chunk: string): void;
+  end(): void;
+}
+
+function createResponseStream(): CapturedStream {
+  return {
+    chunks: [],
+    write(chunk: string) { this.chunks.push(chunk); },
+    end() {}
+  };
+}
+
+function createEvent(authorization?: string): any {
+  return {
+    rawPath: '/suggest-recipes/stream',
+    headers: authorization ? { authorization } : {},
+    body: JSON.stringify({ ingredients: ['trứng', 'cà chua'] }),
+    isBase64Encoded: false,
+    queryStringParameters: undefined,
+    requestContext: {
+      requestId: 'req-1',
+      http: { method: 'POST', sourceIp: '203.0.113.9' }
+    }
+  };
+}
+
+function forgeToken(claims: Record<string, any>): string {
+  const encode = (value: any) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256' })}.${encode(claims)}.forged`;
+}
+
+describe('AI suggestion stream handler', () => {
+  let handler: (event: any, responseStream: CapturedStream, context: any) => Promise<void>;
+
+  beforeAll(() => {
+    (global as any).awslambda = {
+      streamifyResponse: (fn: any) => fn,
+      HttpResponseStream: {
+        from: (stream: CapturedStream, meta: CapturedStream['meta']) => {
+          stream.meta = meta;
+          return stream;
+        }
+      }
+    };
+    handler = require('../../ai-suggestion/stream-handler').handler;
+  });
+
+  afterAll(() => {
+    delete (global as any).awslambda;
+  });
+
+  it('should reject requests without a token', async () => {
+    const stream = createResponseStream();
+
+    await handler(createEvent(), stream, {});
+
+    expect(stream.meta?.statusCode).toBe(401);
+    expect(prepareSuggestion).not.toHaveBeenCalled();
+  });
+
+  it('should reject a hand-made token instead of trusting its claims', async () => {
+    const stream = createResponseStream();
+
+    await handler(createEvent(`Bearer ${forgeToken({ sub: 'victim-user' })}`), stream, {});
+
+    expect(stream.meta?.statusCode).toBe(401);
+    expect(RateLimiter.enforce).not.toHaveBeenCalled();
+    expect(prepareSuggestion).not.toHaveBeenCalled();
+  });
+
+  it('should apply the ai-suggest rate limit before calling Bedrock', async () => {
+    jest.spyOn(TokenVerifier, 'verifyIdToken').mockResolvedValue({ sub: 'user-1' });
+    (RateLimiter.enforce as jest.Mock).mockResolvedValue({ allowed: false, rule: 'ai-suggest', remaining: 0, retryAfterSeconds: 90 });
+    const stream = createResponseStream();
+
+    await handler(createEvent('Bearer valid-token'), stream, {});
+
+    expect(stream.meta).toMatchObject({ statusCode: 429, headers: { 'Retry-After': '90' } });
+    expect(RateLimiter.enforce).toHaveBeenCalledWith(
+      [expect.objectContaining({ name: 'ai-suggest' })],
+      expect.objectContaining({ userId: 'user-1', path: '/suggest-recipes/stream' })
+    );
+    expect(prepareSuggestion).not.toHaveBeenCalled();
+  });
+
+  it('should stream suggestions for a verified user', async () => {
+    jest.spyOn(TokenVerifier, 'verifyIdToken').mockResolvedValue({ sub: 'user-1' });
+    (RateLimiter.enforce as jest.Mock).mockResolvedValue(null);
+    (prepareSuggestion as jest.Mock).mockResolvedValue({ userId: 'user-1' });
+    (streamSuggestRecipes as jest.Mock).mockImplementation(async (_prepared, _requestId, emit) => {
+      emit({ type: 'stats', suggestion_id: 's-1' });
+    });
+    const stream = createResponseStream();
+
+    await handler(createEvent('Bearer valid-token'), stream, {});
+
+    expect(TokenVerifier.verifyIdToken).toHaveBeenCalledWith('valid-token');
+    expect((prepareSuggestion as jest.Mock).mock.calls[0][0].requestContext.authorizer.claims.sub).toBe('user-1');
+    expect(stream.meta?.statusCode).toBe(200);
+    expect(stream.chunks).toEqual([JSON.stringify({ type: 'stats', suggestion_id: 's-1' }) + '\n']);
+  });
+});
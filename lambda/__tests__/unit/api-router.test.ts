@@ -7,6 +7,7 @@
  * - Error handling for invalid routes
  * - Request/response transformation
  * - JWT token extraction and claim injection
+ * - Per-route rate limiting
  */
 
 import { handler } from '../../api-router/index';
@@ -49,6 +50,17 @@ jest.mock('../../search/index', () => ({
 jest.mock('../../saved-recipes/index', () => ({
     handler: jest.fn()
 }));
+jest.mock('../../meal-plans/index', () => ({
+    handler: jest.fn()
+}));
+jest.mock('../../shopping-lists/index', () => ({
+    handler: jest.fn()
+}));
+jest.mock('../../pantry/index', () => ({
+    handler: jest.fn()
+}));
+jest.mock('../../shared/database/dynamodb');
+jest.mock('../../shared/business/abuse/abuse-tracking-service');
 
 // Import mocked handlers
 import { handler as authHandler } from '../../auth-handler/index';
@@ -61,6 +73,12 @@ import { handler as adminHandler } from '../../admin/index';
 import { handler as recipeSearchHandler } from '../../recipe-search/index';
 import { handler as searchHandler } from '../../search/index';
 import { handler as savedRecipesHandler } from '../../saved-recipes/index';
+import { handler as mealPlansHandler } from '../../meal-plans/index';
+import { handler as shoppingListsHandler } from '../../shopping-lists/index';
+import { handler as pantryHandler } from '../../pantry/index';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+import { AbuseTrackingService } from '../../shared/business/abuse/abuse-tracking-service';
+import { TokenVerifier } from '../../shared/auth/token-verifier';
 
 describe('API Router - Unit Tests', () => {
     const testEnv = setupTestEnvironment();
@@ -227,6 +245,63 @@ describe('API Router - Unit Tests', () => {
             expect(response.statusCode).toBe(200);
         });
 
+        it('should route /v1/meal-plans requests to meal plans handler', async () => {
+            // Arrange
+            const mockResponse = {
+                statusCode: 200,
+                body: JSON.stringify({ success: true }),
+                headers: {}
+            };
+            (mealPlansHandler as jest.Mock).mockResolvedValue(mockResponse);
+
+            const event = createMockAPIGatewayEvent('GET', '/v1/meal-plans/2025-01-13');
+
+            // Act
+            const response = await handler(event, mockContext);
+
+            // Assert
+            expect(mealPlansHandler).toHaveBeenCalledWith(event, mockContext);
+            expect(response.statusCode).toBe(200);
+        });
+
+        it('should route /v1/shopping-lists requests to shopping lists handler', async () => {
+            // Arrange
+            const mockResponse = {
+                statusCode: 200,
+                body: JSON.stringify({ success: true }),
+                headers: {}
+            };
+            (shoppingListsHandler as jest.Mock).mockResolvedValue(mockResponse);
+
+            const event = createMockAPIGatewayEvent('PUT', '/v1/shopping-lists/list-1/items/item-1');
+
+            // Act
+            const response = await handler(event, mockContext);
+
+            // Assert
+            expect(shoppingListsHandler).toHaveBeenCalledWith(event, mockContext);
+            expect(response.statusCode).toBe(200);
+        });
+
+        it('should route /v1/pantry requests to pantry handler', async () => {
+            // Arrange
+            const mockResponse = {
+                statusCode: 200,
+                body: JSON.stringify({ success: true }),
+                headers: {}
+            };
+            (pantryHandler as jest.Mock).mockResolvedValue(mockResponse);
+
+            const event = createMockAPIGatewayEvent('POST', '/v1/pantry/deduct');
+
+            // Act
+            const response = await handler(event, mockContext);
+
+            // Assert
+            expect(pantryHandler).toHaveBeenCalledWith(event, mockContext);
+            expect(response.statusCode).toBe(200);
+        });
+
         it('should route /v1/search requests to search handler', async () => {
             // Arrange
             const mockResponse = {
@@ -573,4 +648,134 @@ describe('API Router - Unit Tests', () => {
             expect(response.statusCode).toBe(200);
         });
     });
+
+    describe('Rate Limiting', () => {
+        const okResponse = { statusCode: 200, body: JSON.stringify({ success: true }), headers: {} };
+        const mockUpdate = DynamoDBHelper.update as jest.Mock;
+
+        const createUserEvent = (method: string, path: string) =>
+            createMockAPIGatewayEvent(method, path, { ingredients: ['trứng'] }, {
+                Authorization: `Bearer ${generateMockJWT('user-1', 'user1@example.com')}`
+            });
+
+        // Mock tokens aren't signed; treat them as verified unless a test says otherwise
+        beforeEach(() => {
+            jest.spyOn(TokenVerifier, 'verifyIdToken').mockImplementation(async (token: string) =>
+                JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString()));
+        });
+
+        it('should return 429 with Retry-After and skip the handler when the bucket is empty', async () => {
+            (aiSuggestionHandler as jest.Mock).mockResolvedValue(okResponse);
+            mockUpdate.mockResolvedValue({ used: 6, since: Date.now() });
+
+            const response = await handler(createUserEvent('POST', '/v1/ai/suggest-recipes'), mockContext);
+
+            expect(response.statusCode).toBe(429);
+            expect(response.headers?.['Retry-After']).toBe('120');
+            expect(parseResponseBody(response)).toMatchObject({ error: 'rate_limit_exceeded', details: { retry_after: 120 } });
+            expect(aiSuggestionHandler).not.toHaveBeenCalled();
+
+            // The rejected request gives its token back
+            expect(mockUpdate).toHaveBeenCalledWith('USER#user-1', 'RATE_LIMIT#ai-suggest', 'ADD used :refund', { ':refund': -1 });
+        });
+
+        it('should let requests through while tokens remain', async () => {
+            (aiSuggestionHandler as jest.Mock).mockResolvedValue(okResponse);
+            mockUpdate.mockResolvedValue({ used: 5, since: Date.now() });
+
+            const response = await handler(createUserEvent('POST', '/v1/ai/suggest-recipes'), mockContext);
+
+            expect(response.statusCode).toBe(200);
+            expect(aiSuggestionHandler).toHaveBeenCalled();
+        });
+
+        it('should restart the counter once the bucket has refilled', async () => {
+            (postsHandler as jest.Mock).mockResolvedValue(okResponse);
+            mockUpdate.mockResolvedValue({ used: 8, since: Date.now() - 60 * 60 * 1000 });
+
+            const response = await handler(createUserEvent('POST', '/v1/posts'), mockContext);
+
+            expect(response.statusCode).toBe(200);
+            expect(mockUpdate).toHaveBeenCalledWith(
+                'USER#user-1',
+                'RATE_LIMIT#post-create',
+                'SET used = :one, since = :now',
+                expect.objectContaining({ ':one': 1 })
+            );
+        });
+
+        it('should report repeated limit hits as bot behavior', async () => {
+            mockUpdate.mockImplementation(async (_pk: string, sk: string) =>
+                sk === 'RATE_LIMIT_HITS'
+                    ? { hits: 20, first_hit: new Date().toISOString() }
+                    : { used: 11, since: Date.now() }
+            );
+
+            const response = await handler(createUserEvent('POST', '/v1/friends/requests'), mockContext);
+
+            expect(response.statusCode).toBe(429);
+            expect(AbuseTrackingService.recordViolation).toHaveBeenCalledWith(
+                'user-1',
+                'bot_behavior',
+                'medium',
+                expect.objectContaining({ rule: 'friend-request', hits: 20 })
+            );
+        });
+
+        it('should limit anonymous requests by source IP', async () => {
+            mockUpdate.mockResolvedValue({ used: 6, since: Date.now() });
+
+            const response = await handler(createMockAPIGatewayEvent('POST', '/v1/ai/suggest-recipes'), mockContext);
+
+            expect(response.statusCode).toBe(429);
+            expect(mockUpdate.mock.calls[0][0]).toBe('IP#127.0.0.1');
+            expect(AbuseTrackingService.recordViolation).not.toHaveBeenCalled();
+        });
+
+        it('should limit by source IP and never report a user whose token does not verify', async () => {
+            (TokenVerifier.verifyIdToken as jest.Mock).mockRejectedValue(new Error('Invalid token signature'));
+            mockUpdate.mockImplementation(async (_pk: string, sk: string) =>
+                sk === 'RATE_LIMIT_HITS'
+                    ? { hits: 20, first_hit: new Date().toISOString() }
+                    : { used: 11, since: Date.now() }
+            );
+
+            const response = await handler(createUserEvent('POST', '/v1/friends/requests'), mockContext);
+
+            expect(response.statusCode).toBe(429);
+            expect(mockUpdate.mock.calls[0][0]).toBe('IP#127.0.0.1');
+            expect(AbuseTrackingService.recordViolation).not.toHaveBeenCalled();
+        });
+
+        it('should charge sharing a recipe to the post-create bucket', async () => {
+            (savedRecipesHandler as jest.Mock).mockResolvedValue(okResponse);
+            mockUpdate.mockResolvedValue({ used: 11, since: Date.now() });
+
+            const response = await handler(createUserEvent('POST', '/v1/recipes/saved-1/share'), mockContext);
+
+            expect(response.statusCode).toBe(429);
+            expect(mockUpdate).toHaveBeenCalledWith('USER#user-1', 'RATE_LIMIT#post-create', expect.any(String), expect.any(Object), { '#ttl': 'ttl' });
+            expect(savedRecipesHandler).not.toHaveBeenCalled();
+        });
+
+        it('should not touch the limiter for routes without a matching rule', async () => {
+            (postsHandler as jest.Mock).mockResolvedValue(okResponse);
+
+            await handler(createUserEvent('GET', '/v1/posts/feed'), mockContext);
+
+            expect(mockUpdate).not.toHaveBeenCalled();
+            expect(TokenVerifier.verifyIdToken).not.toHaveBeenCalled();
+            expect(postsHandler).toHaveBeenCalled();
+        });
+
+        it('should let requests through when the limiter fails', async () => {
+            (aiSuggestionHandler as jest.Mock).mockResolvedValue(okResponse);
+            mockUpdate.mockRejectedValue(new Error('DynamoDB unavailable'));
+
+            const response = await handler(createUserEvent('POST', '/v1/ai/suggest-recipes'), mockContext);
+
+            expect(response.statusCode).toBe(200);
+            expect(aiSuggestionHandler).toHaveBeenCalled();
+        });
+    });
 });
@@ -0,0 +1,156 @@
+import { BlockService } from '../../shared/auth/block-service';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+
+// Mock dependencies
+jest.mock('../../shared/database/dynamodb');
+
+describe('BlockService', () => {
+  const userId = 'user-1';
+  const targetId = 'user-2';
+  const targetProfile = { user_id: targetId, username: 'janedoe', full_name: 'Jane Doe' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('blockUser', () => {
+    it('should replace the friendship on both sides with a block', async () => {
+      (DynamoDBHelper.getUserProfile as jest.Mock).mockResolvedValue(targetProfile);
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({
+        friendship_id: 'friendship-1',
+        status: 'accepted',
+        role: 'addressee',
+        requested_at: '2026-01-01T00:00:00.000Z'
+      });
+
+      const result = await BlockService.blockUser(userId, targetId);
+
+      expect(result).toMatchObject({ user_id: targetId, username: 'janedoe' });
+      expect(DynamoDBHelper.put).toHaveBeenCalledTimes(2);
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${userId}`,
+        SK: `FRIEND#${targetId}`,
+        friendship_id: 'friendship-1',
+        status: 'blocked',
+        role: 'addressee',
+        blocked_by: [userId]
+      }));
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${targetId}`,
+        SK: `FRIEND#${userId}`,
+        status: 'blocked',
+        role: 'requester',
+        blocked_by: [userId]
+      }));
+    });
+
+    it('should keep the other user\'s block when blocking back', async () => {
+      (DynamoDBHelper.getUserProfile as jest.Mock).mockResolvedValue(targetProfile);
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [targetId] });
+
+      await BlockService.blockUser(userId, targetId);
+
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        blocked_by: [targetId, userId]
+      }));
+    });
+
+    it('should reject blocking yourself', async () => {
+      await expect(BlockService.blockUser(userId, userId))
+        .rejects
+        .toMatchObject({ statusCode: 400, errorCode: 'invalid_request' });
+    });
+
+    it('should reject blocking twice', async () => {
+      (DynamoDBHelper.getUserProfile as jest.Mock).mockResolvedValue(targetProfile);
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [userId] });
+
+      await expect(BlockService.blockUser(userId, targetId))
+        .rejects
+        .toMatchObject({ statusCode: 409, errorCode: 'already_blocked' });
+      expect(DynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unblockUser', () => {
+    it('should delete both records when no block remains', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [userId] });
+
+      await BlockService.unblockUser(userId, targetId);
+
+      expect(DynamoDBHelper.delete).toHaveBeenCalledWith(`USER#${userId}`, `FRIEND#${targetId}`);
+      expect(DynamoDBHelper.delete).toHaveBeenCalledWith(`USER#${targetId}`, `FRIEND#${userId}`);
+    });
+
+    it('should leave the block in place when the other user also blocked', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [targetId, userId] });
+
+      await BlockService.unblockUser(userId, targetId);
+
+      expect(DynamoDBHelper.delete).not.toHaveBeenCalled();
+      expect(DynamoDBHelper.update).toHaveBeenCalledTimes(2);
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        `USER#${targetId}`,
+        `FRIEND#${userId}`,
+        expect.any(String),
+        expect.objectContaining({ ':blockedBy': [targetId] })
+      );
+    });
+
+    it('should reject lifting a block made by the other user', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [targetId] });
+
+      await expect(BlockService.unblockUser(userId, targetId))
+        .rejects
+        .toMatchObject({ statusCode: 404, errorCode: 'not_blocked' });
+    });
+  });
+
+  describe('muteUser', () => {
+    it('should store a one-sided mute record', async () => {
+      (DynamoDBHelper.getUserProfile as jest.Mock).mockResolvedValue(targetProfile);
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(undefined);
+
+      await BlockService.muteUser(userId, targetId);
+
+      expect(DynamoDBHelper.put).toHaveBeenCalledTimes(1);
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${userId}`,
+        SK: `MUTE#${targetId}`,
+        muted_user_id: targetId
+      }));
+    });
+
+    it('should reject muting twice', async () => {
+      (DynamoDBHelper.getUserProfile as jest.Mock).mockResolvedValue(targetProfile);
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ muted_user_id: targetId });
+
+      await expect(BlockService.muteUser(userId, targetId))
+        .rejects
+        .toMatchObject({ statusCode: 409, errorCode: 'already_muted' });
+    });
+  });
+
+  describe('getHiddenUsers', () => {
+    it('should collect blocked and muted user ids', async () => {
+      (DynamoDBHelper.query as jest.Mock)
+        .mockResolvedValueOnce({ Items: [{ friend_id: 'user-3' }] })
+        .mockResolvedValueOnce({ Items: [{ muted_user_id: 'user-4' }] });
+
+      const hidden = await BlockService.getHiddenUsers(userId);
+
+      expect(BlockService.isHidden(hidden, 'user-3')).toBe(true);
+      expect(BlockService.isHidden(hidden, 'user-4')).toBe(true);
+      expect(BlockService.isHidden(hidden, targetId)).toBe(false);
+    });
+
+    it('should hide nobody when the lookup fails', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockRejectedValue(new Error('DynamoDB error'));
+
+      const hidden = await BlockService.getHiddenUsers(userId);
+
+      expect(hidden.blocked.size).toBe(0);
+      expect(hidden.muted.size).toBe(0);
+    });
+  });
+});
@@ -9,7 +9,7 @@
  * - Recipe deduplication
  */
 
-import { FlexibleMixAlgorithm, FlexibleMixRequest } from '../../ai-suggestion/flexible-mix-algorithm';
+import { FlexibleMixAlgorithm, FlexibleMixRequest, RecipeStreamFrame } from '../../ai-suggestion/flexible-mix-algorithm';
 import { BedrockAIClient, UserContext } from '../../ai-suggestion/bedrock-client';
 import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
 import { Recipe } from '../../shared/utils/types';
@@ -656,4 +656,129 @@ describe('FlexibleMixAlgorithm', () => {
       expect(totalRecipes).toBeGreaterThanOrEqual(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('streaming frames', () => {
+    const streamRequest: FlexibleMixRequest = {
+      ingredients: ['cà chua'],
+      recipe_count: 3,
+      user_context: {
+        dietary_restrictions: [],
+        allergies: [],
+        favorite_cuisines: [],
+        preferred_cooking_methods: ['xào']
+      }
+    };
+
+    const buildRecipe = (id: string, title: string, method: string, isAI: boolean): Recipe => ({
+      recipe_id: id,
+      title,
+      cooking_method: method,
+      cuisine_type: 'Vietnamese',
+      ingredients: [{ ingredient_name: 'cà chua', quantity: '2', unit: 'quả' }],
+      instructions: [{ step_number: 1, description: 'Nấu', duration: '10 phút' }],
+      is_approved: !isAI,
+      is_public: !isAI,
+      is_ai_generated: isAI,
+      description: title,
+      meal_type: 'main',
+      prep_time_minutes: 5,
+      cook_time_minutes: 10,
+      servings: 2,
+      created_at: '2025-01-01T00:00:00.000Z',
+      updated_at: '2025-01-01T00:00:00.000Z'
+    });
+
+    it('should emit database recipes before AI recipes and finish with stats', async () => {
+      // Arrange
+      mockDynamoClient.send
+        .mockResolvedValueOnce({ Items: [buildRecipe('db-1', 'Trứng Xào Cà Chua', 'xào', false)] })
+        .mockResolvedValue({ Items: [] });
+      mockAIClient.generateRecipes.mockImplementation(async (req: any) => ({
+        recipes: [buildRecipe(`ai-${req.cooking_method}`, `Món ${req.cooking_method} cà chua`, req.cooking_method, true)],
+        generation_time_ms: 100,
+        model_used: 'test-model'
+      }));
+      const frames: RecipeStreamFrame[] = [];
+
+      // Act
+      const result = await algorithm.generateMixedRecipes(streamRequest, frame => {
+        frames.push(frame);
+      });
+
+      // Assert
+      const recipeFrames = frames.filter(f => f.type === 'recipe');
+      expect(recipeFrames).toHaveLength(result.recipes.length);
+      expect(recipeFrames[0]).toMatchObject({ type: 'recipe', source: 'database', recipe: { recipe_id: 'db-1' } });
+      expect(recipeFrames.slice(1).every(f => f.type === 'recipe' && f.source === 'ai')).toBe(true);
+      expect(frames[frames.length - 1]).toEqual({
+        type: 'stats',
+        stats: result.stats,
+        cost_optimization: result.cost_optimization
+      });
+    });
+
+    it('should emit each AI recipe as soon as its category completes', async () => {
+      // Arrange
+      mockDynamoClient.send.mockResolvedValue({ Items: [] });
+      let releaseSlowCategory: () => void = () => undefined;
+      const slowCategory = new Promise<void>(resolve => { releaseSlowCategory = resolve; });
+
+      mockAIClient.generateRecipes.mockImplementation(async (req: any) => {
+        if (req.cooking_method === 'xào') {
+          await slowCategory;
+        }
+        return {
+          recipes: [buildRecipe(`ai-${req.cooking_method}`, `Món ${req.cooking_method}`, req.cooking_method, true)],
+          generation_time_ms: 100,
+          model_used: 'test-model'
+        };
+      });
+
+      const emitted: string[] = [];
+      const done = algorithm.generateMixedRecipes({ ...streamRequest, recipe_count: 2 }, frame => {
+        if (frame.type === 'recipe') {
+          emitted.push(frame.recipe.recipe_id);
+          // The fast category is streamed while the slow one is still pending
+          releaseSlowCategory();
+        }
+      });
+
+      // Act
+      await done;
+
+      // Assert
+      expect(emitted).toEqual(['ai-canh', 'ai-xào']);
+    });
+
+    it('should not stream more AI recipes than requested and return the ones it streamed', async () => {
+      // Arrange
+      mockDynamoClient.send.mockResolvedValue({ Items: [] });
+      mockAIClient.generateRecipes.mockImplementation(async (req: any) => {
+        // The first category finishes last, so streaming order differs from category order
+        if (req.cooking_method === 'xào') {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        return {
+          recipes: [
+            buildRecipe(`ai-${req.cooking_method}-1`, `Món ${req.cooking_method} 1`, req.cooking_method, true),
+            buildRecipe(`ai-${req.cooking_method}-2`, `Món ${req.cooking_method} 2`, req.cooking_method, true)
+          ],
+          generation_time_ms: 100,
+          model_used: 'test-model'
+        };
+      });
+      const frames: RecipeStreamFrame[] = [];
+
+      // Act
+      const result = await algorithm.generateMixedRecipes({ ...streamRequest, recipe_count: 2 }, frame => {
+        frames.push(frame);
+      });
+
+      // Assert
+      const streamedIds = frames.flatMap(f => (f.type === 'recipe' ? [f.recipe.recipe_id] : []));
+      expect(streamedIds).toEqual(['ai-canh-1', 'ai-canh-2']);
+      expect(result.recipes.map(recipe => recipe.recipe_id)).toEqual(streamedIds);
+      expect(result.stats.from_ai).toBe(2);
+    });
+  });
+});
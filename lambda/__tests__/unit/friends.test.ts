@@ -12,8 +12,9 @@ import {
   assertErrorResponse 
 } from '../test-utils/helpers/test-helpers';
 import { mockUsers } from '../test-utils/fixtures/user-fixtures';
-import { GetCommand, PutCommand, UpdateCommand, DeleteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { GetCommand, PutCommand, UpdateCommand, DeleteCommand, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
 import { APIGatewayEvent } from '../../shared/utils/types';
+import { FriendshipService } from '../../friends/friendship-service';
 
 describe('Friends Handler - Unit Tests', () => {
   beforeEach(() => {
@@ -596,4 +597,90 @@ describe('Friends Handler - Unit Tests', () => {
       expect(body.error).toContain('friendship_not_found');
     });
   });
+
+  describe('Friend Count Rebuild', () => {
+    it('should set each profile\'s friend_count from its accepted friendships', async () => {
+      dynamoMock.reset();
+      dynamoMock.on(ScanCommand).resolves({
+        Items: [
+          { PK: 'USER#user-1', SK: 'PROFILE', user_id: 'user-1' },
+          { PK: 'USER#user-2', SK: 'PROFILE', user_id: 'user-2' }
+        ]
+      });
+      dynamoMock.on(QueryCommand, { ExpressionAttributeValues: { ':pk': 'USER#user-1', ':sk': 'FRIEND#', ':accepted': 'accepted' } })
+        .resolvesOnce({ Items: [{ SK: 'FRIEND#user-2' }], LastEvaluatedKey: { PK: 'USER#user-1', SK: 'FRIEND#user-2' } })
+        .resolvesOnce({ Items: [{ SK: 'FRIEND#user-3' }] });
+      dynamoMock.on(QueryCommand, { ExpressionAttributeValues: { ':pk': 'USER#user-2', ':sk': 'FRIEND#', ':accepted': 'accepted' } })
+        .resolves({ Items: [] });
+      dynamoMock.on(UpdateCommand).resolves({ Attributes: {} });
+
+      const counted = await FriendshipService.rebuildFriendCounts();
+
+      expect(counted).toBe(2);
+      const updates = dynamoMock.commandCalls(UpdateCommand).map(call => call.args[0].input);
+      expect(updates).toEqual([
+        expect.objectContaining({
+          Key: { PK: 'USER#user-1', SK: 'PROFILE' },
+          ExpressionAttributeValues: { ':popular': 'POPULAR_USERS', ':count': 2 }
+        }),
+        expect.objectContaining({
+          Key: { PK: 'USER#user-2', SK: 'PROFILE' },
+          ExpressionAttributeValues: { ':popular': 'POPULAR_USERS', ':count': 0 }
+        })
+      ]);
+    });
+  });
+
+  describe('Friend Suggestions', () => {
+    const userId = 'user-1';
+    const userEmail = 'testuser1@example.com';
+
+    it('should return suggestions', async () => {
+      // Arrange
+      dynamoMock.reset();
+
+      // No friends, so nothing to walk
+      dynamoMock.on(QueryCommand).resolves({
+        Items: [],
+        Count: 0
+      });
+
+      const event = createAuthenticatedAPIGatewayEvent(
+        'GET',
+        '/v1/friends/suggestions',
+        userId,
+        userEmail
+      );
+
+      // Act
+      const response = await callHandler(event);
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+      const body = parseResponseBody(response);
+      expect(body.data.suggestions).toEqual([]);
+      expect(body.data.total_count).toBe(0);
+    });
+
+    it('should return 400 for invalid limit', async () => {
+      // Arrange
+      const event = createAuthenticatedAPIGatewayEvent(
+        'GET',
+        '/v1/friends/suggestions',
+        userId,
+        userEmail,
+        undefined,
+        undefined,
+        { limit: '500' }
+      );
+
+      // Act
+      const response = await callHandler(event);
+
+      // Assert
+      assertErrorResponse(response, 400);
+      const body = parseResponseBody(response);
+      expect(body.error).toContain('invalid_limit');
+    });
+  });
 });
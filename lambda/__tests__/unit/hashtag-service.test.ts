@@ -0,0 +1,35 @@
+import { HashtagService, MAX_HASHTAGS } from '../../shared/business/hashtags';
+
+describe('HashtagService', () => {
+  describe('normalize', () => {
+    it('should match accented and unaccented spellings', () => {
+      expect(HashtagService.normalize('#Ăn-Chay')).toBe('an-chay');
+      expect(HashtagService.normalize('an-chay')).toBe('an-chay');
+      expect(HashtagService.normalize('#BúnBò')).toBe('bunbo');
+      expect(HashtagService.normalize('đậu')).toBe('dau');
+    });
+
+    it('should reject empty and number-only tags', () => {
+      expect(HashtagService.normalize('#')).toBeNull();
+      expect(HashtagService.normalize('#--')).toBeNull();
+      expect(HashtagService.normalize('#2026')).toBeNull();
+    });
+  });
+
+  describe('extract', () => {
+    it('should return distinct normalized tags in order', () => {
+      expect(HashtagService.extract('Tối nay #bunbo nè! #ăn-chay #BunBo #an-chay.'))
+        .toEqual(['bunbo', 'an-chay']);
+    });
+
+    it('should ignore "#" inside words and HTML entities', () => {
+      expect(HashtagService.extract('Learning C#basics &#39; issue#12')).toEqual([]);
+    });
+
+    it('should keep at most MAX_HASHTAGS tags', () => {
+      const text = Array.from({ length: MAX_HASHTAGS + 3 }, (_, i) => `#tag${i}`).join(' ');
+
+      expect(HashtagService.extract(text)).toHaveLength(MAX_HASHTAGS);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { IngredientMatcher, MISSING_PENALTY } from '../../search/ingredient-matcher';
+import { Post } from '../../search/types';
+
+describe('IngredientMatcher', () => {
+  const makePost = (ingredients: { name: string; notes?: string }[]): Post => ({
+    postId: 'post-1',
+    userId: 'user-1',
+    type: 'recipe',
+    caption: 'Canh chua',
+    visibility: 'public',
+    recipeData: {
+      name: 'Canh chua',
+      ingredients: ingredients.map(ingredient => ({ quantity: '1', unit: '', ...ingredient })),
+      instructions: []
+    },
+    likeCount: 0,
+    commentCount: 0,
+    shareCount: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  });
+
+  describe('score', () => {
+    it('should score coverage over required ingredients and list the missing ones', () => {
+      const post = makePost([
+        { name: 'Cá lóc' },
+        { name: 'Cà chua' },
+        { name: 'Dứa' },
+        { name: 'Giá đỗ' }
+      ]);
+
+      const result = IngredientMatcher.score(['cá lóc', 'cà chua', 'dứa'], post);
+
+      expect(result.match_percentage).toBe(75);
+      expect(result.matched_ingredients).toEqual(['Cá lóc', 'Cà chua', 'Dứa']);
+      expect(result.missing_ingredients).toEqual(['Giá đỗ']);
+      expect(result.score).toBeCloseTo(0.75 - MISSING_PENALTY);
+    });
+
+    it('should ignore pantry staples on both sides', () => {
+      const post = makePost([
+        { name: 'Thịt gà' },
+        { name: 'Muối' },
+        { name: 'Nước mắm' },
+        { name: 'Đường' }
+      ]);
+
+      const result = IngredientMatcher.score(['thịt gà'], post);
+
+      expect(result.match_percentage).toBe(100);
+      expect(result.missing_ingredients).toEqual([]);
+      expect(result.score).toBe(1);
+    });
+
+    it('should not count optional ingredients as required', () => {
+      const post = makePost([
+        { name: 'Thịt bò' },
+        { name: 'Rau mùi', notes: 'tùy thích' },
+        { name: 'Ớt (optional)' }
+      ]);
+
+      const result = IngredientMatcher.score(['thịt bò'], post);
+
+      expect(result.match_percentage).toBe(100);
+      expect(result.missing_ingredients).toEqual([]);
+    });
+
+    it('should rank the recipe needing fewer extra ingredients higher at equal coverage', () => {
+      const small = makePost([{ name: 'Trứng' }, { name: 'Hành lá' }]);
+      const large = makePost([
+        { name: 'Trứng' }, { name: 'Hành lá' }, { name: 'Cà chua' }, { name: 'Nấm' }
+      ]);
+
+      const smallMatch = IngredientMatcher.score(['trứng'], small);
+      const largeMatch = IngredientMatcher.score(['trứng', 'hành lá'], large);
+
+      expect(smallMatch.match_percentage).toBe(largeMatch.match_percentage);
+      expect(smallMatch.score).toBeGreaterThan(largeMatch.score);
+    });
+
+    it('should fall back to extracted ingredients when the post has no recipe', () => {
+      const post = { ...makePost([]), recipeData: undefined, extracted_ingredients: ['thit-heo', 'trung'] };
+
+      const result = IngredientMatcher.score(['thịt heo'], post);
+
+      expect(result.match_percentage).toBe(50);
+      expect(result.missing_ingredients).toEqual(['trung']);
+    });
+
+    it('should return zero when nothing is required', () => {
+      const result = IngredientMatcher.score(['thịt gà'], makePost([{ name: 'Muối' }]));
+
+      expect(result).toEqual({ match_percentage: 0, score: 0, matched_ingredients: [], missing_ingredients: [] });
+    });
+  });
+
+  describe('matches', () => {
+    it('should match a more specific form of an ingredient', () => {
+      expect(IngredientMatcher.matches('thit-bo', 'thit-bo-xay')).toBe(true);
+      expect(IngredientMatcher.matches('thit-bo-xay', 'thit-bo')).toBe(true);
+    });
+
+    it('should not prefix-match ambiguous single words', () => {
+      expect(IngredientMatcher.matches('ca', 'ca-chua')).toBe(false);
+      expect(IngredientMatcher.matches('dau', 'dau-phu')).toBe(false);
+    });
+  });
+});
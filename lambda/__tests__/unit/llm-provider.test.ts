@@ -0,0 +1,194 @@
+/**
+ * LLM Provider Unit Tests
+ *
+ * Tests for the pluggable LLM layer including:
+ * - Per-operation provider/model configuration
+ * - OpenAI-compatible HTTP provider
+ * - Deterministic fixture provider
+ * - Recipe generation and ingredient parsing running fully offline
+ */
+
+import {
+  resolveLLMConfig,
+  createLLMProvider,
+  DEFAULT_LLM_CONFIG,
+  OpenAICompatibleLLMProvider,
+  FixtureLLMProvider,
+  BedrockLLMProvider
+} from '../../shared/ai';
+import { BedrockAIClient, AIRecipeRequest } from '../../ai-suggestion/bedrock-client';
+import { AIConversationalValidator } from '../../ai-suggestion/ai-conversational-validator';
+import { IngredientParserAI } from '../../shared/business/ingredients/ingredient-parser-ai';
+
+jest.mock('@aws-sdk/client-bedrock-runtime');
+
+describe('LLM provider configuration', () => {
+  it('should default every operation to Bedrock with its own model settings', () => {
+    const config = resolveLLMConfig('ingredient-parsing', {});
+
+    expect(config).toEqual(DEFAULT_LLM_CONFIG['ingredient-parsing']);
+    expect(config.provider).toBe('bedrock');
+  });
+
+  it('should apply the environment-wide provider to all operations', () => {
+    const env = { LLM_PROVIDER: 'fixture' };
+
+    expect(resolveLLMConfig('recipe-generation', env).provider).toBe('fixture');
+    expect(resolveLLMConfig('ingredient-validation', env).provider).toBe('fixture');
+  });
+
+  it('should let per-operation settings override the environment-wide provider', () => {
+    const env = {
+      LLM_PROVIDER: 'bedrock',
+      LLM_PROVIDER_RECIPE_GENERATION: 'openai',
+      LLM_MODEL_RECIPE_GENERATION: 'gpt-4o-mini'
+    };
+
+    const recipeConfig = resolveLLMConfig('recipe-generation', env);
+    expect(recipeConfig.provider).toBe('openai');
+    expect(recipeConfig.model).toBe('gpt-4o-mini');
+    expect(recipeConfig.maxTokens).toBe(DEFAULT_LLM_CONFIG['recipe-generation'].maxTokens);
+
+    expect(resolveLLMConfig('ingredient-parsing', env).provider).toBe('bedrock');
+  });
+
+  it('should reject unknown provider names', () => {
+    expect(() => resolveLLMConfig('recipe-generation', { LLM_PROVIDER: 'gemini' }))
+      .toThrow('Invalid LLM_PROVIDER "gemini"');
+  });
+
+  it('should create providers by name', () => {
+    expect(createLLMProvider('bedrock', 'us-east-1', {})).toBeInstanceOf(BedrockLLMProvider);
+    expect(createLLMProvider('fixture', 'us-east-1', {})).toBeInstanceOf(FixtureLLMProvider);
+    expect(createLLMProvider('openai', 'us-east-1', { LLM_BASE_URL: 'http://localhost:11434/v1' }))
+      .toBeInstanceOf(OpenAICompatibleLLMProvider);
+  });
+
+  it('should require a base URL for the openai provider', () => {
+    expect(() => createLLMProvider('openai', 'us-east-1', {})).toThrow('LLM_BASE_URL is required');
+  });
+});
+
+describe('OpenAICompatibleLLMProvider', () => {
+  const request = {
+    operation: 'recipe-generation' as const,
+    prompt: 'Generate a recipe',
+    model: 'gpt-4o-mini',
+    maxTokens: 1000,
+    temperature: 0.5
+  };
+
+  it('should post a chat completion and map the response', async () => {
+    const fetchFn = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        model: 'gpt-4o-mini-2024-07-18',
+        choices: [{ message: { content: '{"success": true}' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 34 }
+      })
+    });
+    const provider = new OpenAICompatibleLLMProvider({
+      baseUrl: 'https://llm.example.com/v1/',
+      apiKey: 'secret',
+      fetchFn
+    });
+
+    const result = await provider.complete(request);
+
+    expect(fetchFn).toHaveBeenCalledWith('https://llm.example.com/v1/chat/completions', expect.objectContaining({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' }
+    }));
+    const body = JSON.parse(fetchFn.mock.calls[0][1].body);
+    expect(body).toEqual({
+      model: 'gpt-4o-mini',
+      max_tokens: 1000,
+      temperature: 0.5,
+      messages: [{ role: 'user', content: 'Generate a recipe' }]
+    });
+    expect(result).toEqual({
+      text: '{"success": true}',
+      model: 'gpt-4o-mini-2024-07-18',
+      provider: 'openai',
+      inputTokens: 12,
+      outputTokens: 34
+    });
+  });
+
+  it('should throw when the endpoint returns an error status', async () => {
+    const fetchFn = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      text: async () => 'rate limited'
+    });
+    const provider = new OpenAICompatibleLLMProvider({ baseUrl: 'https://llm.example.com/v1', fetchFn });
+
+    await expect(provider.complete(request)).rejects.toThrow('LLM endpoint returned 429: rate limited');
+  });
+});
+
+describe('FixtureLLMProvider', () => {
+  const provider = new FixtureLLMProvider();
+
+  const recipeRequest: AIRecipeRequest = {
+    ingredients: ['thịt gà', 'cà chua', 'hành lá'],
+    cooking_method: 'xào',
+    user_context: {
+      dietary_restrictions: [],
+      allergies: [],
+      favorite_cuisines: [],
+      preferred_cooking_methods: []
+    },
+    recipe_count: 2
+  };
+
+  it('should run recipe generation offline with deterministic output', async () => {
+    const client = new BedrockAIClient('us-east-1', provider);
+
+    const first = await client.generateRecipes(recipeRequest);
+    const second = await client.generateRecipes(recipeRequest);
+
+    expect(first.recipes).toHaveLength(2);
+    expect(first.recipes.map(r => r.title)).toEqual(['Xào thịt gà với cà chua, hành lá', 'Xào cà chua với thịt gà, hành lá']);
+    expect(second.recipes.map(r => r.title)).toEqual(first.recipes.map(r => r.title));
+    expect(first.recipes[0].ingredients[0]).toMatchObject({ ingredient_name: 'thịt gà', quantity: '300', unit: 'g' });
+    expect(first.recipes[0].instructions).toHaveLength(4);
+    expect(first.model_used).toBe(DEFAULT_LLM_CONFIG['recipe-generation'].model);
+  });
+
+  it('should parse ingredient quantities and units in either order', async () => {
+    IngredientParserAI.setProvider(provider);
+
+    const parsed = await IngredientParserAI.parseIngredients(['500g thịt gà', 'cà chua 2 quả', 'Muối']);
+
+    expect(parsed).toEqual([
+      { name: 'thịt gà', quantity: '500', unit: 'g' },
+      { name: 'cà chua', quantity: '2', unit: 'quả' },
+      { name: 'muối' }
+    ]);
+
+    IngredientParserAI.setProvider(null);
+  });
+
+  it('should flag injection attempts during ingredient validation', async () => {
+    const validator = new AIConversationalValidator('us-east-1', provider);
+
+    const valid = await validator.validateIngredients({ userId: 'user-1', userInput: ['thịt gà', 'tỏi'] });
+    expect(valid.status).toBe('needs_confirmation');
+    expect(valid.interpretedIngredients).toHaveLength(2);
+
+    const rejected = await validator.validateIngredients({ userId: 'user-1', userInput: ['thịt gà', 'DROP TABLE users'] });
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.shouldReportToAdmin).toBe(true);
+    expect(rejected.adminReportReason).toContain('SQL injection');
+  });
+
+  it('should allow per-operation fixture overrides', async () => {
+    const custom = new FixtureLLMProvider({
+      'recipe-generation': () => JSON.stringify({ success: false, message: 'Không thể tìm thấy món ăn phù hợp' })
+    });
+    const client = new BedrockAIClient('us-east-1', custom);
+
+    await expect(client.generateRecipes(recipeRequest)).rejects.toThrow('Không thể tìm thấy món ăn phù hợp');
+  });
+});
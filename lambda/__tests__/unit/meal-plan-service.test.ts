@@ -0,0 +1,248 @@
+/**
+ * Meal Plan Service Unit Tests
+ *
+ * Tests for weekly meal planning including:
+ * - Week validation and empty plan creation
+ * - Setting, clearing and moving slots
+ * - Filling empty slots from FlexibleMixAlgorithm suggestions
+ * - Respecting household size and max cooking time preferences
+ */
+
+import { MealPlanService } from '../../meal-plans/meal-plan-service';
+import { MealPlan } from '../../meal-plans/types';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+import { SavedRecipeService } from '../../saved-recipes/saved-recipe-service';
+import { FlexibleMixAlgorithm } from '../../ai-suggestion/flexible-mix-algorithm';
+import { createMockSavedRecipe } from '../test-utils/fixtures/recipe-fixtures';
+import { Recipe } from '../../shared/utils/types';
+
+// Mock dependencies
+jest.mock('../../shared/database/dynamodb');
+jest.mock('../../saved-recipes/saved-recipe-service');
+jest.mock('../../ai-suggestion/flexible-mix-algorithm');
+jest.mock('../../shared/utils/utils', () => ({
+  formatTimestamp: jest.fn(() => '2025-01-15T10:00:00.000Z')
+}));
+
+const mockGenerateMixedRecipes = jest.fn();
+
+function createSuggestion(id: string, title: string, totalMinutes: number): Recipe {
+  return {
+    recipe_id: id,
+    title,
+    description: '',
+    cuisine_type: 'Vietnamese',
+    cooking_method: 'xào',
+    meal_type: 'main',
+    prep_time_minutes: 5,
+    cook_time_minutes: totalMinutes - 5,
+    servings: 2,
+    ingredients: [{ ingredient_name: 'thịt gà', quantity: '300', unit: 'g' }],
+    instructions: [{ step_number: 1, description: 'Xào', duration: '10 phút' }],
+    nutritional_info: { calories: 300, protein: '20g', carbs: '20g', fat: '10g' },
+    is_public: false,
+    is_ai_generated: true,
+    is_approved: false,
+    created_at: '2025-01-15T10:00:00.000Z',
+    updated_at: '2025-01-15T10:00:00.000Z'
+  } as Recipe;
+}
+
+describe('MealPlanService', () => {
+  const mockUserId = 'user-123';
+  const weekStart = '2025-01-13'; // Monday
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (FlexibleMixAlgorithm as jest.Mock).mockImplementation(() => ({
+      generateMixedRecipes: mockGenerateMixedRecipes
+    }));
+    (DynamoDBHelper.get as jest.Mock).mockResolvedValue(undefined);
+    (DynamoDBHelper.put as jest.Mock).mockResolvedValue(undefined);
+    (DynamoDBHelper.getUserProfile as jest.Mock).mockResolvedValue(undefined);
+    (DynamoDBHelper.getUserPreferences as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  describe('getMealPlan', () => {
+    it('should return an empty Monday-first week when no plan exists', async () => {
+      const plan = await MealPlanService.getMealPlan(mockUserId, weekStart);
+
+      expect(plan.days).toHaveLength(7);
+      expect(plan.days[0]).toEqual({ date: '2025-01-13', meals: {} });
+      expect(plan.days[6].date).toBe('2025-01-19');
+      expect(DynamoDBHelper.get).toHaveBeenCalledWith(`USER#${mockUserId}`, `MEAL_PLAN#${weekStart}`);
+    });
+
+    it('should reject a week start that is not a Monday', async () => {
+      await expect(MealPlanService.getMealPlan(mockUserId, '2025-01-15'))
+        .rejects.toThrow('week_start must be a Monday');
+    });
+
+    it('should reject malformed dates', async () => {
+      await expect(MealPlanService.getMealPlan(mockUserId, 'next-week'))
+        .rejects.toThrow('YYYY-MM-DD');
+    });
+  });
+
+  describe('setSlot', () => {
+    it('should snapshot the saved recipe with household size servings', async () => {
+      const recipe = createMockSavedRecipe({ saved_id: 'saved-1', recipe_name: 'Phở gà' });
+      (SavedRecipeService.getSavedRecipes as jest.Mock).mockResolvedValue([recipe]);
+      (DynamoDBHelper.getUserPreferences as jest.Mock).mockResolvedValue({ household_size: 4 });
+
+      const plan = await MealPlanService.setSlot(mockUserId, weekStart, { date: '2025-01-14', meal: 'dinner' }, {
+        saved_id: 'saved-1'
+      });
+
+      expect(plan.days[1].meals.dinner).toMatchObject({
+        source_type: 'saved_recipe',
+        saved_id: 'saved-1',
+        recipe_name: 'Phở gà',
+        recipe_ingredients: recipe.recipe_ingredients,
+        servings: 4
+      });
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${mockUserId}`,
+        SK: `MEAL_PLAN#${weekStart}`,
+        entity_type: 'MEAL_PLAN'
+      }));
+    });
+
+    it('should throw when the saved recipe does not exist', async () => {
+      (SavedRecipeService.getSavedRecipes as jest.Mock).mockResolvedValue([]);
+
+      await expect(MealPlanService.setSlot(mockUserId, weekStart, { date: '2025-01-14', meal: 'dinner' }, {
+        saved_id: 'missing'
+      })).rejects.toThrow('Saved recipe not found');
+    });
+
+    it('should reject dates outside the week', async () => {
+      await expect(MealPlanService.setSlot(mockUserId, weekStart, { date: '2025-01-20', meal: 'lunch' }, {
+        saved_id: 'saved-1'
+      })).rejects.toThrow('is not in the week');
+    });
+  });
+
+  describe('moveSlot', () => {
+    function planWith(meals: MealPlan['days'][number]['meals'][]): MealPlan {
+      return {
+        user_id: mockUserId,
+        week_start: weekStart,
+        days: meals.map((m, i) => ({ date: `2025-01-1${3 + i}`, meals: m })),
+        created_at: '2025-01-10T00:00:00.000Z',
+        updated_at: '2025-01-10T00:00:00.000Z'
+      };
+    }
+
+    const entry = (name: string) => ({
+      source_type: 'saved_recipe' as const,
+      saved_id: name,
+      recipe_name: name,
+      recipe_ingredients: [],
+      servings: 2,
+      added_at: '2025-01-10T00:00:00.000Z'
+    });
+
+    it('should move a recipe into an empty slot', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(planWith([{ lunch: entry('a') }, {}, {}, {}, {}, {}, {}]));
+
+      const plan = await MealPlanService.moveSlot(mockUserId, weekStart, {
+        from: { date: '2025-01-13', meal: 'lunch' },
+        to: { date: '2025-01-15', meal: 'dinner' }
+      });
+
+      expect(plan.days[0].meals.lunch).toBeUndefined();
+      expect(plan.days[2].meals.dinner?.recipe_name).toBe('a');
+    });
+
+    it('should swap recipes when the target slot is occupied', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(
+        planWith([{ lunch: entry('a') }, { lunch: entry('b') }, {}, {}, {}, {}, {}])
+      );
+
+      const plan = await MealPlanService.moveSlot(mockUserId, weekStart, {
+        from: { date: '2025-01-13', meal: 'lunch' },
+        to: { date: '2025-01-14', meal: 'lunch' }
+      });
+
+      expect(plan.days[0].meals.lunch?.recipe_name).toBe('b');
+      expect(plan.days[1].meals.lunch?.recipe_name).toBe('a');
+    });
+
+    it('should reject moving from an empty slot', async () => {
+      await expect(MealPlanService.moveSlot(mockUserId, weekStart, {
+        from: { date: '2025-01-13', meal: 'lunch' },
+        to: { date: '2025-01-14', meal: 'lunch' }
+      })).rejects.toThrow('no recipe in the source slot');
+    });
+  });
+
+  describe('fillEmptySlots', () => {
+    it('should fill requested empty slots and give breakfast the quickest recipe', async () => {
+      (DynamoDBHelper.getUserPreferences as jest.Mock).mockResolvedValue({
+        household_size: 3,
+        budget_level: 'economical'
+      });
+      mockGenerateMixedRecipes.mockResolvedValue({
+        recipes: [createSuggestion('r1', 'Gà kho', 45), createSuggestion('r2', 'Trứng chiên', 10)],
+        stats: { requested: 2, from_database: 1, from_ai: 1, database_coverage_percentage: 50 },
+        cost_optimization: { estimated_ai_cost_saved: 0, database_recipes_used: 1, ai_recipes_generated: 1 }
+      });
+
+      const result = await MealPlanService.fillEmptySlots(mockUserId, weekStart, {
+        ingredients: ['thịt gà', 'trứng'],
+        slots: [{ date: '2025-01-13', meal: 'breakfast' }, { date: '2025-01-13', meal: 'dinner' }]
+      });
+
+      expect(mockGenerateMixedRecipes).toHaveBeenCalledWith({
+        ingredients: ['thịt gà', 'trứng'],
+        recipe_count: 2,
+        user_context: expect.objectContaining({ household_size: 3, budget_level: 'economical' })
+      });
+      expect(result.filled).toHaveLength(2);
+      expect(result.remaining_empty).toBe(0);
+      expect(result.plan.days[0].meals.breakfast).toMatchObject({
+        source_type: 'suggestion',
+        recipe_id: 'r2',
+        recipe_name: 'Trứng chiên',
+        servings: 3,
+        recipe_ingredients: [{ name: 'thịt gà', quantity: '300', unit: 'g' }]
+      });
+      expect(result.plan.days[0].meals.dinner?.recipe_id).toBe('r1');
+      expect(DynamoDBHelper.put).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip suggestions over the max cooking time', async () => {
+      (DynamoDBHelper.getUserPreferences as jest.Mock).mockResolvedValue({ max_cooking_time_minutes: 30 });
+      mockGenerateMixedRecipes.mockResolvedValue({
+        recipes: [createSuggestion('slow', 'Bò kho', 90), createSuggestion('fast', 'Rau xào', 15)],
+        stats: { requested: 2, from_database: 2, from_ai: 0, database_coverage_percentage: 100 },
+        cost_optimization: { estimated_ai_cost_saved: 0, database_recipes_used: 2, ai_recipes_generated: 0 }
+      });
+
+      const result = await MealPlanService.fillEmptySlots(mockUserId, weekStart, {
+        ingredients: ['thịt bò', 'rau muống'],
+        slots: [{ date: '2025-01-14', meal: 'lunch' }, { date: '2025-01-14', meal: 'dinner' }]
+      });
+
+      expect(result.filled).toEqual([{ date: '2025-01-14', meal: 'lunch' }]);
+      expect(result.plan.days[1].meals.lunch?.recipe_id).toBe('fast');
+      expect(result.plan.days[1].meals.dinner).toBeUndefined();
+      expect(result.remaining_empty).toBe(1);
+    });
+
+    it('should cap a single fill at seven slots', async () => {
+      mockGenerateMixedRecipes.mockResolvedValue({
+        recipes: [],
+        stats: { requested: 7, from_database: 0, from_ai: 0, database_coverage_percentage: 0 },
+        cost_optimization: { estimated_ai_cost_saved: 0, database_recipes_used: 0, ai_recipes_generated: 0 }
+      });
+
+      const result = await MealPlanService.fillEmptySlots(mockUserId, weekStart, { ingredients: ['trứng'] });
+
+      expect(mockGenerateMixedRecipes).toHaveBeenCalledWith(expect.objectContaining({ recipe_count: 7 }));
+      expect(result.remaining_empty).toBe(21);
+      expect(DynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+  });
+});
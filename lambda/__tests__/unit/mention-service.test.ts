@@ -0,0 +1,61 @@
+import { MentionService, MAX_MENTIONS } from '../../shared/business/mentions';
+import { UsernameService } from '../../shared/auth/username-service';
+
+jest.mock('../../shared/auth/username-service');
+
+describe('MentionService', () => {
+  describe('parse', () => {
+    it('should find mentions with their offsets', () => {
+      expect(MentionService.parse('@Alice, try this with @bob_smith!')).toEqual([
+        { username: 'alice', start: 0, end: 6 },
+        { username: 'bob_smith', start: 22, end: 32 }
+      ]);
+    });
+
+    it('should ignore email addresses and too-short names', () => {
+      expect(MentionService.parse('mail me at chef@example.com or @ab')).toEqual([]);
+    });
+
+    it('should leave trailing punctuation out of the username', () => {
+      expect(MentionService.parse('thanks @carol-')).toEqual([{ username: 'carol', start: 7, end: 13 }]);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve each username once and drop unknown ones', async () => {
+      (UsernameService.getUserIdByUsername as jest.Mock).mockImplementation(
+        async (username: string) => (username === 'alice' ? 'user-alice' : null)
+      );
+
+      const mentions = await MentionService.resolve('@alice @ghost @alice');
+
+      expect(mentions).toEqual([
+        { user_id: 'user-alice', username: 'alice', start: 0, end: 6 },
+        { user_id: 'user-alice', username: 'alice', start: 14, end: 20 }
+      ]);
+      expect(UsernameService.getUserIdByUsername).toHaveBeenCalledTimes(2);
+    });
+
+    it('should look up at most MAX_MENTIONS usernames', async () => {
+      (UsernameService.getUserIdByUsername as jest.Mock).mockImplementation(async (username: string) => `id-${username}`);
+      const text = Array.from({ length: MAX_MENTIONS + 5 }, (_, i) => `@user${i}`).join(' ');
+
+      const mentions = await MentionService.resolve(text);
+
+      expect(mentions).toHaveLength(MAX_MENTIONS);
+    });
+  });
+
+  describe('getNewlyMentioned', () => {
+    it('should return users not mentioned before', () => {
+      const previous = [{ user_id: 'a', username: 'alice', start: 0, end: 6 }];
+      const current = [
+        ...previous,
+        { user_id: 'b', username: 'bob', start: 7, end: 11 },
+        { user_id: 'b', username: 'bob', start: 12, end: 16 }
+      ];
+
+      expect(MentionService.getNewlyMentioned(current, previous)).toEqual(['b']);
+    });
+  });
+});
@@ -0,0 +1,512 @@
+import {
+  normalizeForModeration,
+  KeywordCheck,
+  resolveTermLists,
+  SpamLinkCheck,
+  RepeatedContentCheck,
+  ImageCheck,
+  ClassifierCheck,
+  LLMContentClassifier,
+  ModerationService,
+  ModerationCheck,
+  ModerationInput,
+  ModerationReview,
+  ModerationCase,
+  ModerationCaseService
+} from '../../shared/business/moderation';
+import { FixtureLLMProvider } from '../../shared/ai';
+import { AbuseTrackingService } from '../../shared/business/abuse/abuse-tracking-service';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+import { AdminService } from '../../admin/admin-service';
+import { PostsService } from '../../posts/posts-service';
+import { NotificationService } from '../../shared/business/notifications';
+
+jest.mock('../../shared/database/dynamodb');
+jest.mock('../../shared/business/notifications');
+
+const input = (text: string, overrides: Partial<ModerationInput> = {}): ModerationInput => ({
+  user_id: 'user-1',
+  content_type: 'comment',
+  content_id: 'comment-1',
+  post_id: 'post-1',
+  text,
+  ...overrides
+});
+
+const stubCheck = (action: 'hold' | 'reject', category: 'profanity' | 'spam' = 'profanity'): ModerationCheck => ({
+  name: 'stub',
+  run: async () => [{ check: 'stub', action, category, severity: action === 'reject' ? 'high' : 'medium', reason: `Stub ${action}` }]
+});
+
+describe('Moderation', () => {
+  afterEach(() => {
+    ModerationService.setChecks(null);
+  });
+
+  describe('normalizeForModeration', () => {
+    it('should undo leetspeak, stretched and spaced-out letters and teen code', () => {
+      expect(normalizeForModeration('Đ.ị.t  mẹeee').accented).toBe('địt mẹe');
+      expect(normalizeForModeration('djt me').plain).toBe('dit me');
+      expect(normalizeForModeration('ng0n k?').accented).toBe('ngon không');
+      expect(normalizeForModeration('Ngon quá, bik làm r nè').plain).toBe('ngon qua biet lam r ne');
+    });
+
+    it('should leave quantities alone', () => {
+      expect(normalizeForModeration('500g thịt, 1kg gạo, 3 quả trứng').accented).toBe('500g thịt 1kg gạo 3 quả trứng');
+    });
+  });
+
+  describe('KeywordCheck', () => {
+    const check = new KeywordCheck();
+
+    it('should reject profanity however it is spelled', async () => {
+      for (const text of ['đ.ị.t m.ẹ', 'djt me may', 'DCM', 'vãi lồn']) {
+        const signals = await check.run(input(text));
+        expect(signals).toContainEqual(expect.objectContaining({ action: 'reject', category: 'profanity' }));
+      }
+    });
+
+    it('should hold crude slang and gambling ads', async () => {
+      expect(await check.run(input('ngon vcl'))).toEqual([expect.objectContaining({ action: 'hold', matches: ['vcl'] })]);
+      expect(await check.run(input('Nhà cái uy tín, nạp là có quà'))).toEqual([expect.objectContaining({ action: 'hold', category: 'spam' })]);
+    });
+
+    it('should allow cooking words that collide with profanity without accents', async () => {
+      const text = 'Rang hạt óc chó, cho vào lò để nướng. Mở lon bia, các bạn nấu buổi tối nhé. Cá đó rất tươi.';
+      expect(await check.run(input(text))).toEqual([]);
+    });
+
+    it('should not hold units and words that only read as slang without accents', async () => {
+      for (const text of ['Thêm 200 cc nước dùng', 'Lau sạch đít nồi', 'Cắt miếng dài 1 dm']) {
+        expect(await check.run(input(text))).toEqual([]);
+      }
+      expect(await check.run(input('đm ngon thế'))).toEqual([expect.objectContaining({ action: 'hold', matches: ['đm'] })]);
+    });
+
+    it('should take extra terms from the environment', async () => {
+      const custom = new KeywordCheck(resolveTermLists({ MODERATION_BLOCKED_TERMS: 'scam shop' }));
+
+      expect(await custom.run(input('Mua ở Scam Shop nhé'))).toEqual([expect.objectContaining({ action: 'reject', matches: ['scam shop'] })]);
+    });
+  });
+
+  describe('SpamLinkCheck', () => {
+    const check = new SpamLinkCheck();
+
+    it('should allow a recipe with a source link', async () => {
+      expect(await check.run(input('Công thức gốc mình xem ở https://example.com/pho-bo, nấu thử thấy rất ngon'))).toEqual([]);
+    });
+
+    it('should hold shortened links and link-only comments', async () => {
+      const signals = await check.run(input('bit.ly/abc123'));
+
+      expect(signals.map(signal => signal.reason)).toEqual(['Shortened links hide their destination', 'Content is mostly links']);
+      expect(signals.every(signal => signal.action === 'hold')).toBe(true);
+    });
+
+    it('should reject link dumps', async () => {
+      const links = Array.from({ length: 9 }, (_, i) => `https://shop${i}.com`).join(' ');
+      const signals = await check.run(input(`Mua ngay giá rẻ bất ngờ ${links}`));
+
+      expect(signals[0]).toMatchObject({ action: 'reject', category: 'spam' });
+    });
+  });
+
+  describe('RepeatedContentCheck', () => {
+    const check = new RepeatedContentCheck();
+    const text = 'Ghé shop mình mua nồi chiên giá rẻ nhé các bạn';
+    const seenOn = (count: number, first_seen = new Date().toISOString()) =>
+      ({ content_ids: new Set(Array.from({ length: count }, (_, i) => `comment-${i + 1}`)), first_seen });
+
+    it('should count normalized copies per user', async () => {
+      (DynamoDBHelper.update as jest.Mock).mockResolvedValue(seenOn(1));
+
+      expect(await check.run(input(text))).toEqual([]);
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'USER#user-1',
+        expect.stringMatching(/^CONTENT_FINGERPRINT#[0-9a-f]{32}$/),
+        expect.stringContaining('ADD content_ids :content'),
+        expect.objectContaining({ ':content': new Set(['comment-1']) }),
+        { '#ttl': 'ttl' }
+      );
+
+      // Accents and punctuation don't make a copy new
+      await check.run(input('GHÉ SHOP MINH mua noi chien gia re nhe cac ban!!!'));
+      const [first, second] = (DynamoDBHelper.update as jest.Mock).mock.calls;
+      expect(second[1]).toBe(first[1]);
+    });
+
+    it('should hold the third copy and reject the fifth', async () => {
+      (DynamoDBHelper.update as jest.Mock).mockResolvedValueOnce(seenOn(3));
+      expect(await check.run(input(text))).toEqual([expect.objectContaining({ action: 'hold', category: 'repeated_content' })]);
+
+      (DynamoDBHelper.update as jest.Mock).mockResolvedValueOnce(seenOn(5));
+      expect(await check.run(input(text))).toEqual([expect.objectContaining({ action: 'reject' })]);
+    });
+
+    it('should start over when the fingerprint is older than the window', async () => {
+      (DynamoDBHelper.update as jest.Mock).mockResolvedValue(seenOn(4, '2020-01-01T00:00:00.000Z'));
+
+      expect(await check.run(input(text))).toEqual([]);
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({ content_ids: new Set(['comment-1']) }));
+    });
+
+    it('should skip short texts', async () => {
+      expect(await check.run(input('Ngon quá!'))).toEqual([]);
+      expect(DynamoDBHelper.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ImageCheck', () => {
+    it('should hold images hosted outside the app', async () => {
+      const signals = await new ImageCheck().run(input('', { images: ['posts/post-1/image-1.jpg', 'https://evil.example.com/a.jpg'] }));
+
+      expect(signals).toEqual([expect.objectContaining({ action: 'hold', matches: ['https://evil.example.com/a.jpg'] })]);
+    });
+
+    it('should pass uploaded images to the image classifier', async () => {
+      const classify = jest.fn().mockResolvedValue({ decision: 'reject', labels: ['Explicit Nudity'] });
+      const signals = await new ImageCheck({ name: 'test', classify }).run(input('', { images: ['posts/post-1/image-1.jpg'] }));
+
+      expect(classify).toHaveBeenCalledWith({ bucket: expect.any(String), key: 'posts/post-1/image-1.jpg' });
+      expect(signals).toEqual([expect.objectContaining({ action: 'reject', reason: 'Image flagged: Explicit Nudity' })]);
+    });
+  });
+
+  describe('ClassifierCheck', () => {
+    it('should allow content the LLM allows', async () => {
+      const check = new ClassifierCheck(new LLMContentClassifier(new FixtureLLMProvider()));
+
+      expect(await check.run(input('Canh chua cá lóc nấu với me'))).toEqual([]);
+    });
+
+    it('should hold rejections the LLM is unsure about', async () => {
+      const provider = new FixtureLLMProvider({
+        'content-moderation': () => '{"decision": "reject", "category": "harassment", "confidence": 0.6, "reason": "Insulting another user"}'
+      });
+      const check = new ClassifierCheck(new LLMContentClassifier(provider));
+
+      expect(await check.run(input('...'))).toEqual([
+        expect.objectContaining({ action: 'hold', category: 'classifier', reason: 'Insulting another user', matches: ['harassment'] })
+      ]);
+    });
+  });
+
+  describe('ModerationService', () => {
+    beforeEach(() => {
+      jest.spyOn(AbuseTrackingService, 'recordViolation').mockResolvedValue({} as any);
+    });
+
+    it('should allow clean content without recording anything', async () => {
+      ModerationService.setChecks([new KeywordCheck()]);
+
+      await expect(ModerationService.enforce(input('Bún bò Huế chuẩn vị'))).resolves.toEqual({ decision: 'allow', signals: [] });
+      expect(AbuseTrackingService.recordViolation).not.toHaveBeenCalled();
+    });
+
+    it('should reject with a 422 and record the violation with evidence', async () => {
+      ModerationService.setChecks([stubCheck('hold', 'spam'), stubCheck('reject')]);
+
+      await expect(ModerationService.enforce(input('bad comment'))).rejects.toMatchObject({
+        statusCode: 422,
+        errorCode: 'content_rejected'
+      });
+      expect(AbuseTrackingService.recordViolation).toHaveBeenCalledWith('user-1', 'inappropriate_content', 'high', expect.objectContaining({
+        decision: 'reject',
+        content_type: 'comment',
+        post_id: 'post-1',
+        comment_id: 'comment-1',
+        excerpt: 'bad comment',
+        signals: expect.arrayContaining([expect.objectContaining({ reason: 'Stub reject' })])
+      }));
+    });
+
+    it('should hold content without recording a violation', async () => {
+      ModerationService.setChecks([stubCheck('hold')]);
+
+      const result = await ModerationService.enforce(input('borderline comment'));
+
+      expect(result.decision).toBe('hold');
+      expect(AbuseTrackingService.recordViolation).not.toHaveBeenCalled();
+    });
+
+    it('should record rejected spam as spam_input', async () => {
+      ModerationService.setChecks([stubCheck('reject', 'spam')]);
+
+      await expect(ModerationService.enforce(input('buy now'))).rejects.toMatchObject({ errorCode: 'content_rejected' });
+      expect(AbuseTrackingService.recordViolation).toHaveBeenCalledWith('user-1', 'spam_input', 'high', expect.any(Object));
+    });
+
+    it('should skip checks that fail', async () => {
+      ModerationService.setChecks([{ name: 'broken', run: async () => { throw new Error('LLM timeout'); } }]);
+
+      await expect(ModerationService.moderate(input('anything'))).resolves.toEqual({ decision: 'allow', signals: [] });
+    });
+  });
+
+  describe('held content review', () => {
+    const review: ModerationReview = {
+      post_id: 'post-1',
+      content_type: 'post',
+      content_id: 'post-1',
+      user_id: 'user-1',
+      excerpt: 'Held post',
+      images: [],
+      signals: [],
+      status: 'held',
+      created_at: '2026-10-19T08:00:00.000Z'
+    };
+
+    const heldPost = {
+      PK: 'POST#post-1',
+      SK: 'METADATA',
+      post_id: 'post-1',
+      user_id: 'user-1',
+      content: 'Held post',
+      is_public: true,
+      created_at: '2026-10-19T08:00:00.000Z',
+      moderation_status: 'held',
+      extracted_ingredients: ['thịt bò'],
+      recipeData: { title: 'Phở bò', cuisine: 'vietnamese' }
+    };
+
+    beforeEach(() => {
+      jest.spyOn(AbuseTrackingService, 'recordViolation').mockResolvedValue({} as any);
+    });
+
+    it('should move an approved post into the public feed and search indexes', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (_pk: string, sk: string) =>
+        sk === 'METADATA' ? heldPost : { ...review, PK: 'POST#post-1', SK: 'MODERATION#post#post-1' });
+
+      const result = await AdminService.approveHeldContent({ postId: 'post-1', contentType: 'post', contentId: 'post-1', adminId: 'admin-1' });
+
+      expect(result).toMatchObject({ status: 'approved', content_found: true });
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'POST#post-1',
+        'METADATA',
+        expect.stringContaining('REMOVE moderation_reasons'),
+        expect.objectContaining({
+          ':status': 'approved',
+          ':GSI3PK': 'FEED#PUBLIC',
+          ':GSI2PK': 'POSTS#INGREDIENTS',
+          ':GSI4SK': 'vietnamese#2026-10-19T08:00:00.000Z'
+        })
+      );
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'POST#post-1',
+        'MODERATION#post#post-1',
+        expect.any(String),
+        expect.objectContaining({ ':status': 'approved', ':gsi1pk': 'MODERATION#approved' }),
+        { '#status': 'status' }
+      );
+      expect(AbuseTrackingService.recordViolation).not.toHaveBeenCalled();
+    });
+
+    it('should record a violation when a moderator rejects held content', async () => {
+      const signals = [{ check: 'keywords', action: 'hold' as const, category: 'profanity' as const, severity: 'medium' as const, reason: 'Possible profanity or insult' }];
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (_pk: string, sk: string) =>
+        sk === 'METADATA' ? heldPost : { ...review, signals, PK: 'POST#post-1', SK: 'MODERATION#post#post-1' });
+
+      await AdminService.rejectHeldContent({ postId: 'post-1', contentType: 'post', contentId: 'post-1', adminId: 'admin-1' });
+
+      expect(AbuseTrackingService.recordViolation).toHaveBeenCalledWith('user-1', 'inappropriate_content', 'medium', expect.objectContaining({
+        decision: 'reject',
+        post_id: 'post-1',
+        excerpt: 'Held post',
+        reviewed_by: 'admin-1',
+        signals
+      }));
+    });
+
+    it('should keep an approved post hidden while reports still hide it', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (_pk: string, sk: string) => {
+        if (sk === 'METADATA') return heldPost;
+        if (sk === 'REPORT_CASE') return { post_id: 'post-1', author_id: 'user-1', status: 'hidden' };
+        return { ...review, PK: 'POST#post-1', SK: 'MODERATION#post#post-1' };
+      });
+
+      const result = await AdminService.approveHeldContent({ postId: 'post-1', contentType: 'post', contentId: 'post-1', adminId: 'admin-1' });
+
+      expect(result).toMatchObject({ status: 'approved', content_found: true });
+      expect(DynamoDBHelper.update).not.toHaveBeenCalledWith('POST#post-1', 'METADATA', expect.anything(), expect.anything());
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'POST#post-1',
+        'MODERATION#post#post-1',
+        expect.any(String),
+        expect.objectContaining({ ':status': 'approved' }),
+        { '#status': 'status' }
+      );
+    });
+
+    it('should close the review when the author already deleted the post', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (_pk: string, sk: string) =>
+        sk === 'METADATA' ? undefined : { ...review });
+
+      const result = await AdminService.rejectHeldContent({ postId: 'post-1', contentType: 'post', contentId: 'post-1', adminId: 'admin-1' });
+
+      expect(result).toMatchObject({ status: 'rejected', content_found: false });
+    });
+
+    it('should not review content twice', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ ...review, status: 'approved' });
+
+      await expect(AdminService.approveHeldContent({ postId: 'post-1', contentType: 'post', contentId: 'post-1', adminId: 'admin-1' }))
+        .rejects.toMatchObject({ statusCode: 409, errorCode: 'review_already_resolved' });
+    });
+  });
+
+  describe('report cases', () => {
+    const publicPost = {
+      PK: 'POST#post-1',
+      SK: 'METADATA',
+      post_id: 'post-1',
+      user_id: 'author-1',
+      content: 'Cơm tấm sườn',
+      is_public: true,
+      created_at: '2026-10-19T08:00:00.000Z'
+    };
+
+    const caseItem = (overrides: Partial<ModerationCase> & { report_reasons?: string[] } = {}) => ({
+      post_id: 'post-1',
+      author_id: 'author-1',
+      excerpt: 'Cơm tấm sườn',
+      status: 'open',
+      report_count: 1,
+      reporter_ids: ['reporter-1'],
+      report_reasons: ['spam'],
+      weighted_score: 1,
+      first_reported_at: '2026-10-19T09:00:00.000Z',
+      last_reported_at: '2026-10-19T09:00:00.000Z',
+      events: [],
+      ...overrides
+    });
+
+    const mockReport = (postItem: any, updatedCase: any) => {
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (_pk: string, sk: string) => {
+        if (sk === 'METADATA') return postItem;
+        if (sk === 'PROFILE') return { username: 'reporter', created_at: '2025-01-01T00:00:00.000Z' };
+        return undefined;
+      });
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [] });
+      (DynamoDBHelper.update as jest.Mock).mockImplementation(async (_pk: string, sk: string) =>
+        sk === 'REPORT_CASE' ? updatedCase : {});
+    };
+
+    it('should weigh reporters by their track record, account age and standing', async () => {
+      const established = { created_at: '2025-01-01T00:00:00.000Z' };
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(undefined);
+      await expect(ModerationCaseService.getReporterWeight('user-1', established)).resolves.toBe(1);
+      await expect(ModerationCaseService.getReporterWeight('user-1', { created_at: new Date().toISOString() })).resolves.toBe(0.5);
+      await expect(ModerationCaseService.getReporterWeight('user-1', { ...established, is_suspended: true })).resolves.toBe(0);
+
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ upheld_reports: 8, dismissed_reports: 0 });
+      await expect(ModerationCaseService.getReporterWeight('user-1', established)).resolves.toBe(1.8);
+
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ upheld_reports: 0, dismissed_reports: 8 });
+      await expect(ModerationCaseService.getReporterWeight('user-1', established)).resolves.toBe(0.2);
+    });
+
+    it('should need both enough reporters and enough trust to hide a post', () => {
+      const thresholds = { min_reporters: 3, min_score: 3 };
+      const toCase = (reporters: number, score: number, status = 'open') =>
+        ({ status, reporter_ids: Array.from({ length: reporters }, (_, i) => `r${i}`), weighted_score: score } as ModerationCase);
+
+      expect(ModerationCaseService.shouldHide(toCase(3, 3), thresholds)).toBe(true);
+      expect(ModerationCaseService.shouldHide(toCase(2, 4), thresholds)).toBe(false);
+      expect(ModerationCaseService.shouldHide(toCase(5, 1.5), thresholds)).toBe(false);
+      expect(ModerationCaseService.shouldHide(toCase(5, 5, 'dismissed'), thresholds)).toBe(false);
+    });
+
+    it('should hide a post and notify its author once reports cross the threshold', async () => {
+      mockReport(publicPost, caseItem({
+        report_count: 3,
+        reporter_ids: ['reporter-1', 'reporter-2', 'reporter-3'],
+        report_reasons: ['spam', 'harassment', 'spam'],
+        weighted_score: 3
+      }));
+
+      await PostsService.reportPost('reporter-3', { post_id: 'post-1', reason: 'spam' });
+
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'POST#post-1',
+        'METADATA',
+        expect.stringContaining('REMOVE GSI2PK, GSI2SK, GSI4PK, GSI4SK'),
+        expect.objectContaining({
+          ':status': 'held',
+          ':reasons': ['Reported by 3 users for spam and harassment'],
+          ':gsi3pk': 'FEED#author-1'
+        })
+      );
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'POST#post-1',
+        'REPORT_CASE',
+        expect.stringContaining('hidden_at'),
+        expect.objectContaining({ ':status': 'hidden', ':gsi1pk': 'CASE#STATUS#hidden' }),
+        { '#status': 'status' }
+      );
+      expect(NotificationService.notifyPostModerated).toHaveBeenCalledWith({
+        authorId: 'author-1',
+        postId: 'post-1',
+        action: 'hidden',
+        reason: 'Reported by 3 users for spam and harassment'
+      });
+    });
+
+    it('should leave the post up below the threshold', async () => {
+      mockReport(publicPost, caseItem({ reporter_ids: ['reporter-1', 'reporter-2'], weighted_score: 2 }));
+
+      await PostsService.reportPost('reporter-2', { post_id: 'post-1', reason: 'spam' });
+
+      expect(DynamoDBHelper.update).not.toHaveBeenCalledWith('POST#post-1', 'METADATA', expect.anything(), expect.anything());
+      expect(NotificationService.notifyPostModerated).not.toHaveBeenCalled();
+    });
+
+    it('should not allow resolved cases to be resolved again', async () => {
+      const upheld = { ...caseItem({ status: 'upheld' }), reasons: {} } as ModerationCase;
+
+      await expect(ModerationCaseService.transition(upheld, 'dismissed', 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 409, errorCode: 'invalid_case_transition' });
+    });
+
+    it('should resolve cases in bulk, restoring dismissed posts and reporting failures', async () => {
+      const hiddenPost = { ...publicPost, moderation_status: 'held', moderation_reasons: ['Reported by 3 users for spam'], GSI3PK: 'FEED#author-1' };
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (pk: string, sk: string) => {
+        if (pk === 'POST#post-1' && sk === 'REPORT_CASE') return caseItem({ status: 'hidden', reporter_ids: ['reporter-1', 'reporter-2'] });
+        if (pk === 'POST#post-2' && sk === 'REPORT_CASE') return caseItem({ post_id: 'post-2', status: 'upheld' });
+        if (pk === 'POST#post-1' && sk === 'METADATA') return hiddenPost;
+        return undefined;
+      });
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [{ PK: 'POST#post-1', SK: 'REPORT#2026-10-19T09:00:00.000Z#report-1', status: 'pending' }]
+      });
+
+      const result = await AdminService.bulkResolveReportCases({
+        postIds: ['post-1', 'post-2'],
+        adminId: 'admin-1',
+        status: 'dismissed'
+      });
+
+      expect(result).toMatchObject({ success: false, resolved: ['post-1'], failed: [{ post_id: 'post-2' }] });
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'POST#post-1',
+        'METADATA',
+        expect.stringContaining('REMOVE moderation_reasons'),
+        expect.objectContaining({ ':status': 'approved', ':GSI3PK': 'FEED#PUBLIC' })
+      );
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'POST#post-1',
+        'REPORT#2026-10-19T09:00:00.000Z#report-1',
+        expect.any(String),
+        expect.objectContaining({ ':status': 'dismissed', ':gsi1pk': 'REPORT#STATUS#dismissed' }),
+        { '#status': 'status' }
+      );
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'USER#reporter-2',
+        'REPORTER_STATS',
+        expect.stringContaining('dismissed_reports'),
+        expect.any(Object)
+      );
+      expect(NotificationService.notifyPostModerated).toHaveBeenCalledWith({ authorId: 'author-1', postId: 'post-1', action: 'restored' });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
+import { mockClient } from 'aws-sdk-client-mock';
+import { NotificationDigestService } from '../../shared/business/notifications/notification-digest-service';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+
+jest.mock('../../shared/database/dynamodb');
+
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+const sesMock = mockClient(SESClient);
+
+const digestItem = (index: number, overrides: any = {}) => ({
+  PK: 'USER#user-1',
+  SK: `NOTIFICATION_DIGEST#2024-01-01T0${index}:00:00Z#item-${index}`,
+  type: 'reaction',
+  actor_id: `actor-${index}`,
+  actor_username: `user${index}`,
+  target_type: 'post',
+  target_id: 'post-1',
+  content: `user${index} liked your post`,
+  ...overrides
+});
+
+describe('NotificationDigestService', () => {
+  beforeEach(() => {
+    sesMock.reset();
+    mockDynamoDBHelper.get.mockImplementation(async (_pk: string, sk: string) =>
+      sk === 'PROFILE' ? { email: 'an@example.com', username: 'an' } : undefined
+    );
+  });
+
+  describe('buildLines', () => {
+    it('should collapse likes on the same post and keep other notifications as they are', () => {
+      const lines = NotificationDigestService.buildLines([
+        digestItem(1),
+        digestItem(2),
+        digestItem(3, { actor_id: 'actor-1', actor_username: 'user1' }),
+        digestItem(4, { type: 'friend_request', target_type: 'friendship', content: 'user4 sent you a friend request' })
+      ] as any);
+
+      expect(lines).toEqual([
+        'user4 sent you a friend request',
+        'user1 and 1 other liked your post'
+      ]);
+    });
+  });
+
+  describe('sendDigest', () => {
+    it('should email the summary and clear the collected items', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({ Items: [digestItem(1), digestItem(2)], Count: 2 } as any);
+
+      const sent = await NotificationDigestService.sendDigest('user-1', 'daily');
+
+      expect(sent).toBe(true);
+      const email = sesMock.commandCalls(SendEmailCommand)[0].args[0].input;
+      expect(email.Destination).toEqual({ ToAddresses: ['an@example.com'] });
+      expect(email.Message?.Subject?.Data).toBe('Your Smart Cooking daily summary');
+      expect(email.Message?.Body?.Text?.Data).toContain('user2 and 1 other liked your post');
+      expect(mockDynamoDBHelper.batchWrite).toHaveBeenCalledWith([
+        { DeleteRequest: { Key: { PK: 'USER#user-1', SK: digestItem(1).SK } } },
+        { DeleteRequest: { Key: { PK: 'USER#user-1', SK: digestItem(2).SK } } }
+      ]);
+    });
+
+    it('should keep the collected items when SES rejects the email', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({ Items: [digestItem(1)], Count: 1 } as any);
+      sesMock.on(SendEmailCommand).rejects(new Error('Email address is not verified'));
+
+      await expect(NotificationDigestService.sendDigest('user-1', 'daily')).rejects.toThrow('Email address is not verified');
+      expect(mockDynamoDBHelper.batchWrite).not.toHaveBeenCalled();
+    });
+
+    it('should not email when nothing was collected', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({ Items: [], Count: 0 } as any);
+
+      expect(await NotificationDigestService.sendDigest('user-1', 'weekly')).toBe(false);
+      expect(sesMock.calls()).toHaveLength(0);
+    });
+
+    it('should drop types whose email was switched off since they were collected', async () => {
+      mockDynamoDBHelper.get.mockImplementation(async (_pk: string, sk: string) =>
+        sk === 'PROFILE'
+          ? { email: 'an@example.com', username: 'an' }
+          : { types: { reaction: { email: false } } }
+      );
+      mockDynamoDBHelper.query.mockResolvedValue({ Items: [digestItem(1)], Count: 1 } as any);
+
+      expect(await NotificationDigestService.sendDigest('user-1', 'daily')).toBe(false);
+      expect(sesMock.calls()).toHaveLength(0);
+      expect(mockDynamoDBHelper.batchWrite).toHaveBeenCalled();
+    });
+  });
+
+  describe('sendDigests', () => {
+    it('should send to every subscriber of the frequency and count failures', async () => {
+      mockDynamoDBHelper.query.mockImplementation(async (params: any) => {
+        if (params.IndexName === 'GSI1') {
+          return { Items: [{ user_id: 'user-1' }, { user_id: 'user-2' }], Count: 2 } as any;
+        }
+        if (params.ExpressionAttributeValues[':pk'] === 'USER#user-2') {
+          throw new Error('throttled');
+        }
+        return { Items: [digestItem(1)], Count: 1 } as any;
+      });
+
+      const result = await NotificationDigestService.sendDigests('weekly');
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI1',
+        ExpressionAttributeValues: { ':pk': 'NOTIFICATION_DIGEST#weekly' }
+      }));
+      expect(result).toEqual({ users: 2, sent: 1, failed: 1 });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  NotificationPreferencesService,
+  DEFAULT_NOTIFICATION_PREFERENCES
+} from '../../shared/business/notifications/notification-preferences';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+
+jest.mock('../../shared/database/dynamodb');
+
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+describe('NotificationPreferencesService', () => {
+  describe('getPreferences', () => {
+    it('should return the defaults when nothing is stored', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(undefined);
+
+      const preferences = await NotificationPreferencesService.getPreferences('user-1');
+
+      expect(preferences).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+      expect(preferences.types.reaction).toEqual({ in_app: true, email: true });
+    });
+
+    it('should merge stored settings over the defaults', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue({
+        PK: 'USER#user-1',
+        SK: 'NOTIFICATION_PREFERENCES',
+        types: { reaction: { email: false } },
+        digest: 'weekly'
+      });
+
+      const preferences = await NotificationPreferencesService.getPreferences('user-1');
+
+      expect(preferences.types.reaction).toEqual({ in_app: true, email: false });
+      expect(preferences.types.comment).toEqual({ in_app: true, email: true });
+      expect(preferences.digest).toBe('weekly');
+      expect(preferences).not.toHaveProperty('PK');
+    });
+  });
+
+  describe('updatePreferences', () => {
+    beforeEach(() => {
+      mockDynamoDBHelper.get.mockResolvedValue(undefined);
+    });
+
+    it('should store the merged preferences and index digest subscribers', async () => {
+      const preferences = await NotificationPreferencesService.updatePreferences('user-1', {
+        types: { mention: { in_app: false } },
+        digest: 'daily'
+      });
+
+      expect(preferences.types.mention).toEqual({ in_app: false, email: true });
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: 'USER#user-1',
+        SK: 'NOTIFICATION_PREFERENCES',
+        digest: 'daily',
+        GSI1PK: 'NOTIFICATION_DIGEST#daily',
+        GSI1SK: 'USER#user-1'
+      }));
+    });
+
+    it('should leave users without a digest out of the index', async () => {
+      await NotificationPreferencesService.updatePreferences('user-1', { digest: 'off' });
+
+      expect(mockDynamoDBHelper.put.mock.calls[0][0]).not.toHaveProperty('GSI1PK');
+    });
+
+    it.each([
+      [{ types: { unknown: { in_app: false } } }],
+      [{ types: { reaction: { email: 'yes' } } }],
+      [{ quiet_hours: { start: '25:00' } }],
+      [{ quiet_hours: { timezone: 'Mars/Olympus' } }],
+      [{ digest: 'hourly' }]
+    ])('should reject invalid preferences %j', async updates => {
+      await expect(NotificationPreferencesService.updatePreferences('user-1', updates))
+        .rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_preferences' });
+      expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isQuietTime', () => {
+    const withQuietHours = (start: string, end: string) => ({
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      quiet_hours: { enabled: true, start, end, timezone: 'Asia/Ho_Chi_Minh' }
+    });
+
+    it('should handle ranges that wrap past midnight in the user timezone', () => {
+      const preferences = withQuietHours('22:00', '07:00');
+
+      // 16:30 UTC is 23:30 in Vietnam
+      expect(NotificationPreferencesService.isQuietTime(preferences, new Date('2024-01-01T16:30:00Z'))).toBe(true);
+      // 23:30 UTC is 06:30 the next morning
+      expect(NotificationPreferencesService.isQuietTime(preferences, new Date('2024-01-01T23:30:00Z'))).toBe(true);
+      // 05:00 UTC is noon
+      expect(NotificationPreferencesService.isQuietTime(preferences, new Date('2024-01-01T05:00:00Z'))).toBe(false);
+    });
+
+    it('should handle same-day ranges', () => {
+      const preferences = withQuietHours('13:00', '15:00');
+
+      expect(NotificationPreferencesService.isQuietTime(preferences, new Date('2024-01-01T06:30:00Z'))).toBe(true);
+      expect(NotificationPreferencesService.isQuietTime(preferences, new Date('2024-01-01T08:00:00Z'))).toBe(false);
+    });
+
+    it('should never be quiet when disabled', () => {
+      expect(NotificationPreferencesService.isQuietTime(DEFAULT_NOTIFICATION_PREFERENCES)).toBe(false);
+    });
+  });
+});
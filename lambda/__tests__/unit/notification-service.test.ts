@@ -23,6 +23,7 @@
 
 import { NotificationService } from '../../shared/business/notifications/notification-service';
 import { DynamoDBHelper } from '../../shared/database/dynamodb';
+import { RealtimeService, LocalRealtimePublisher, RealtimeEvent } from '../../shared/realtime';
 import * as utils from '../../shared/utils/utils';
 import { 
   setupTestEnvironment, 
@@ -626,6 +627,179 @@ describe('NotificationService', () => {
     });
   });
 
+  describe('preferences and grouping', () => {
+    const likeParams = {
+      userId: 'user-123',
+      type: 'reaction' as const,
+      actorId: 'actor-2',
+      actorUsername: 'binh',
+      targetType: 'post' as const,
+      targetId: 'post-789',
+      content: 'binh liked your post'
+    };
+
+    const mockPreferences = (preferences: any) => {
+      mockDynamoDBHelper.get.mockImplementation(async (_pk: string, sk: string) =>
+        sk === 'NOTIFICATION_PREFERENCES' ? preferences : undefined
+      );
+    };
+
+    beforeEach(() => {
+      mockDynamoDBHelper.query.mockResolvedValue(buildDynamoDBResponse([]));
+    });
+
+    it('should skip the in-app notification when the type is switched off', async () => {
+      mockPreferences({ types: { reaction: { in_app: false } } });
+
+      const result = await NotificationService.createNotification(likeParams);
+
+      expect(result).toBeNull();
+      expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+
+    it('should keep a digest copy when email is on and a digest is scheduled', async () => {
+      mockPreferences({ types: { reaction: { in_app: false, email: true } }, digest: 'daily' });
+
+      await NotificationService.createNotification(likeParams);
+
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledTimes(1);
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: 'USER#user-123',
+        SK: expect.stringMatching(/^NOTIFICATION_DIGEST#/),
+        type: 'reaction',
+        content: 'binh liked your post'
+      }));
+    });
+
+    it('should collapse a like into a recent unread like on the same post', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue(buildDynamoDBResponse([{
+        PK: 'USER#user-123',
+        SK: 'NOTIFICATION#2022-12-31T23:00:00Z#notif-1',
+        notification_id: 'notif-1',
+        type: 'reaction',
+        actor_id: 'actor-1',
+        target_type: 'post',
+        target_id: 'post-789'
+      }]));
+
+      const result = await NotificationService.createNotification(likeParams);
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI1',
+        ExpressionAttributeValues: expect.objectContaining({
+          ':pk': 'USER#user-123#UNREAD',
+          ':type': 'reaction',
+          ':targetId': 'post-789'
+        })
+      }));
+      expect(mockDynamoDBHelper.delete).toHaveBeenCalledWith('USER#user-123', 'NOTIFICATION#2022-12-31T23:00:00Z#notif-1');
+      expect(result).toMatchObject({
+        notification_id: 'notif-1',
+        actor_id: 'actor-2',
+        actor_count: 2,
+        content: 'binh and 1 other liked your post'
+      });
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        SK: 'NOTIFICATION#2023-01-01T00:00:00Z#notif-1',
+        actor_ids: ['actor-2', 'actor-1']
+      }));
+    });
+
+    it('should not count the same actor twice', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue(buildDynamoDBResponse([{
+        PK: 'USER#user-123',
+        SK: 'NOTIFICATION#2022-12-31T23:00:00Z#notif-1',
+        notification_id: 'notif-1',
+        actor_id: 'actor-1',
+        actor_ids: ['actor-1', 'actor-2', 'actor-3'],
+        actor_count: 13
+      }]));
+
+      const result = await NotificationService.createNotification(likeParams);
+
+      expect(result.actor_count).toBe(13);
+      expect(result.content).toBe('binh and 12 others liked your post');
+    });
+
+    it('should not group friend requests', async () => {
+      await NotificationService.notifyFriendRequest({
+        recipientUserId: 'user-123',
+        requesterId: 'actor-2',
+        requesterUsername: 'binh'
+      });
+
+      expect(mockDynamoDBHelper.delete).not.toHaveBeenCalled();
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'friend_request',
+        content: 'binh sent you a friend request'
+      }));
+    });
+  });
+
+  describe('realtime delivery', () => {
+    let publisher: LocalRealtimePublisher;
+    let received: RealtimeEvent[];
+
+    beforeEach(() => {
+      publisher = new LocalRealtimePublisher();
+      received = [];
+      publisher.connect('conn-1', event => received.push(event));
+      RealtimeService.setPublisher(publisher);
+
+      mockDynamoDBHelper.query.mockImplementation(async (params: any) => {
+        if (params.ExpressionAttributeValues[':sk'] === 'WS_CONNECTION#') {
+          return buildDynamoDBResponse([{ connection_id: 'conn-1' }]);
+        }
+        return { Items: [], Count: 4 } as any;
+      });
+    });
+
+    afterEach(() => {
+      RealtimeService.setPublisher(null);
+    });
+
+    it('should push a new notification and the unread count to connected sessions', async () => {
+      const notification = await NotificationService.createNotification({
+        userId: 'user-123',
+        type: 'comment' as const,
+        actorId: 'actor-456',
+        targetType: 'post' as const,
+        targetId: 'post-789',
+        content: 'testuser commented on your post'
+      });
+
+      expect(received).toEqual([
+        { type: 'notification', notification },
+        { type: 'unread_count', unread_count: 4 }
+      ]);
+    });
+
+    it('should push the unread count when a notification is read', async () => {
+      mockDynamoDBHelper.query
+        .mockResolvedValueOnce(buildDynamoDBResponse([{ PK: 'USER#user-123', SK: 'NOTIFICATION#1', notification_id: 'n-1' }]));
+
+      await NotificationService.markAsRead('user-123', 'n-1');
+
+      expect(received).toEqual([{ type: 'unread_count', unread_count: 4 }]);
+    });
+
+    it('should not fail notification creation when delivery fails', async () => {
+      RealtimeService.setPublisher({
+        name: 'local',
+        send: jest.fn().mockRejectedValue(new Error('endpoint down'))
+      });
+
+      await expect(NotificationService.createNotification({
+        userId: 'user-123',
+        type: 'comment' as const,
+        actorId: 'actor-456',
+        targetType: 'post' as const,
+        targetId: 'post-789',
+        content: 'testuser commented on your post'
+      })).resolves.toMatchObject({ user_id: 'user-123' });
+    });
+  });
+
   describe('Edge Cases and Error Scenarios', () => {
     it('should handle malformed notification data', async () => {
       const malformedParams = {
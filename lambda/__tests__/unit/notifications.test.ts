@@ -1,10 +1,12 @@
 import { handler } from '../../notifications/index';
 import { NotificationService } from '../../shared/business/notifications/notification-service';
+import { NotificationPreferencesService } from '../../shared/business/notifications/notification-preferences';
 import { createAuthenticatedAPIGatewayEvent } from '../test-utils/helpers/test-helpers';
 import { APIGatewayEvent } from '../../shared/utils/types';
 
 // Mock dependencies
 jest.mock('../../shared/business/notifications/notification-service');
+jest.mock('../../shared/business/notifications/notification-preferences');
 
 describe('Notifications Handler', () => {
   const mockUserId = 'user-123';
@@ -208,6 +210,40 @@ describe('Notifications Handler', () => {
     });
   });
 
+  describe('/notifications/preferences', () => {
+    it('should get notification preferences', async () => {
+      (NotificationPreferencesService.getPreferences as jest.Mock).mockResolvedValue({ digest: 'off' });
+
+      const event = createAuthenticatedAPIGatewayEvent(
+        'GET',
+        '/v1/notifications/preferences',
+        mockUserId,
+        mockEmail
+      );
+      const response = await callHandler(event);
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data.preferences).toEqual({ digest: 'off' });
+      expect(NotificationPreferencesService.getPreferences).toHaveBeenCalledWith(mockUserId);
+    });
+
+    it('should update notification preferences', async () => {
+      (NotificationPreferencesService.updatePreferences as jest.Mock).mockResolvedValue({ digest: 'weekly' });
+
+      const event = createAuthenticatedAPIGatewayEvent(
+        'PUT',
+        '/v1/notifications/preferences',
+        mockUserId,
+        mockEmail,
+        { digest: 'weekly' }
+      );
+      const response = await callHandler(event);
+
+      expect(response.statusCode).toBe(200);
+      expect(NotificationPreferencesService.updatePreferences).toHaveBeenCalledWith(mockUserId, { digest: 'weekly' });
+    });
+  });
+
   describe('OPTIONS request', () => {
     it('should handle CORS preflight', async () => {
       const event = {
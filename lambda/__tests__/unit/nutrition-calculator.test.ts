@@ -0,0 +1,157 @@
+/**
+ * Nutrition Calculator Unit Tests
+ *
+ * Tests for computing recipe nutrition from ingredients including:
+ * - Matching ingredient names to the nutrient table
+ * - Converting weights, volumes, spoons and count units to grams
+ * - Per-serving totals, coverage and fallback to the model's values
+ * - Health goal checks
+ */
+
+import {
+  NutritionCalculator,
+  NUTRIENT_TABLE,
+  checkHealthGoals
+} from '../../shared/business/nutrition';
+import { Recipe } from '../../shared/utils/types';
+
+describe('NutritionCalculator', () => {
+  describe('findProfile', () => {
+    it('should match by MasterIngredient id, alias and prefix', () => {
+      expect(NutritionCalculator.findProfile('Thịt bò')).toBe(NUTRIENT_TABLE['thit-bo']);
+      expect(NutritionCalculator.findProfile('đậu phụ')).toBe(NUTRIENT_TABLE['dau-hu']);
+      expect(NutritionCalculator.findProfile('thịt ba chỉ heo (thái mỏng)')).toBe(NUTRIENT_TABLE['thit-ba-chi']);
+    });
+
+    it('should not treat a bare "ca" prefix as fish', () => {
+      expect(NutritionCalculator.findProfile('cá basa')).toBe(NUTRIENT_TABLE['ca']);
+      expect(NutritionCalculator.findProfile('cà tím')).toBe(NUTRIENT_TABLE['ca-tim']);
+      expect(NutritionCalculator.findProfile('cà pháo muối')).toBe(NUTRIENT_TABLE['ca-tim']);
+      expect(NutritionCalculator.findProfile('cà ri')).toBeNull();
+    });
+  });
+
+  describe('toGrams', () => {
+    it('should convert weights, volumes and spoons', () => {
+      expect(NutritionCalculator.toGrams('0,5', 'kg', NUTRIENT_TABLE['thit-bo'])).toBe(500);
+      expect(NutritionCalculator.toGrams('300g', undefined, NUTRIENT_TABLE['thit-bo'])).toBe(300);
+      expect(NutritionCalculator.toGrams('100', 'ml', NUTRIENT_TABLE['dau-an'])).toBeCloseTo(92);
+      expect(NutritionCalculator.toGrams('2', 'muỗng canh', NUTRIENT_TABLE['nuoc-mam'])).toBeCloseTo(36);
+      expect(NutritionCalculator.toGrams('1', 'muỗng cà phê', NUTRIENT_TABLE['muoi'])).toBeCloseTo(6);
+    });
+
+    it('should use per-piece weights for count units', () => {
+      expect(NutritionCalculator.toGrams('3', 'quả', NUTRIENT_TABLE['trung-ga'])).toBe(150);
+      expect(NutritionCalculator.toGrams('2', undefined, NUTRIENT_TABLE['trung-ga'])).toBe(100);
+      expect(NutritionCalculator.toGrams('4', 'tép', NUTRIENT_TABLE['toi'])).toBe(20);
+    });
+
+    it('should return null for amounts and units it cannot weigh', () => {
+      expect(NutritionCalculator.toGrams('vừa đủ', undefined, NUTRIENT_TABLE['muoi'])).toBeNull();
+      expect(NutritionCalculator.toGrams('1', 'bó', NUTRIENT_TABLE['thit-bo'])).toBeNull();
+    });
+  });
+
+  describe('calculate', () => {
+    it('should sum nutrients and divide by servings', () => {
+      const result = NutritionCalculator.calculate([
+        { name: 'thịt bò', quantity: '400', unit: 'g' },
+        { name: 'trứng gà', quantity: '2', unit: 'quả' },
+        { name: 'muối', quantity: 'vừa đủ' }
+      ], 2);
+
+      // 400 g beef = 792 kcal, 2 eggs (100 g) = 143 kcal
+      expect(result.per_serving.calories).toBeCloseTo(467.5);
+      expect(result.per_serving.protein).toBeCloseTo(58.3);
+      expect(result.coverage).toBe(1);
+      expect(result.unmatched).toEqual([]);
+    });
+
+    it('should report unmatched ingredients in the coverage', () => {
+      const result = NutritionCalculator.calculate([
+        { name: 'thịt bò', quantity: '400', unit: 'g' },
+        { name: 'lá lốt', quantity: '1', unit: 'bó' }
+      ]);
+
+      expect(result.servings).toBe(2);
+      expect(result.coverage).toBe(0.5);
+      expect(result.unmatched).toEqual(['lá lốt']);
+    });
+  });
+
+  describe('analyzeRecipe', () => {
+    function recipe(overrides: Partial<Recipe> = {}): Recipe {
+      return {
+        recipe_id: 'recipe-1',
+        title: 'Bò xào',
+        description: '',
+        cuisine_type: 'vietnamese',
+        cooking_method: 'xào',
+        meal_type: 'dinner',
+        prep_time_minutes: 10,
+        cook_time_minutes: 10,
+        servings: 2,
+        ingredients: [
+          { ingredient_name: 'thịt bò', quantity: '400', unit: 'g' },
+          { ingredient_name: 'nước mắm', quantity: '2', unit: 'muỗng canh' }
+        ],
+        instructions: [],
+        nutritional_info: { calories: 250, protein: '40g' },
+        is_public: false,
+        is_ai_generated: true,
+        is_approved: false,
+        created_at: '2026-10-19T00:00:00.000Z',
+        updated_at: '2026-10-19T00:00:00.000Z',
+        ...overrides
+      };
+    }
+
+    it('should replace the model nutrition with computed values and check goals', () => {
+      const analyzed = NutritionCalculator.analyzeRecipe(recipe(), ['weight_loss', 'muscle_gain', 'general_health']);
+
+      expect(analyzed.nutritional_info).toMatchObject({
+        calories: 402,
+        protein: '53g',
+        sodium: '1510mg',
+        source: 'computed',
+        coverage: 1
+      });
+      expect(analyzed.health_goal_checks?.map(check => [check.goal, check.met])).toEqual([
+        ['weight_loss', true],
+        ['muscle_gain', true],
+        ['general_health', false]
+      ]);
+      expect(NutritionCalculator.meetsHealthGoals(analyzed)).toBe(false);
+    });
+
+    it('should keep the model nutrition when coverage is too low', () => {
+      const analyzed = NutritionCalculator.analyzeRecipe(recipe({
+        ingredients: [
+          { ingredient_name: 'lá lốt', quantity: '1', unit: 'bó' },
+          { ingredient_name: 'thịt bò', quantity: '400', unit: 'g' }
+        ]
+      }), ['weight_loss']);
+
+      expect(analyzed.nutritional_info).toEqual({ calories: 250, protein: '40g', source: 'ai' });
+      expect(analyzed.health_goal_checks).toBeUndefined();
+      expect(NutritionCalculator.meetsHealthGoals(analyzed)).toBe(true);
+    });
+  });
+});
+
+describe('checkHealthGoals', () => {
+  it('should ignore unknown goals', () => {
+    const checks = checkHealthGoals(
+      { calories: 620, protein: 20, carbs: 50, fat: 30, fiber: 4, sodium: 500 },
+      ['weight_loss', 'bulk_up']
+    );
+
+    expect(checks).toEqual([{
+      goal: 'weight_loss',
+      met: false,
+      value: 620,
+      target: 500,
+      reason: '620 kcal calories per serving (above 500 kcal)'
+    }]);
+  });
+});
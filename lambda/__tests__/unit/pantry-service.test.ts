@@ -0,0 +1,179 @@
+/**
+ * Pantry Service Unit Tests
+ *
+ * Tests for the pantry inventory including:
+ * - Expiry status and soonest-to-expire ordering
+ * - Field validation (dates, quantity, location)
+ * - Deducting cooked ingredients with unit conversion
+ */
+
+import { PantryService } from '../../pantry/pantry-service';
+import { PantryItem } from '../../pantry/types';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+import { generateUUID, formatTimestamp } from '../../shared/utils/utils';
+
+// Mock dependencies
+jest.mock('../../shared/database/dynamodb');
+jest.mock('../../shared/utils/utils');
+
+describe('PantryService', () => {
+  const mockUserId = 'user-123';
+
+  function pantryItem(overrides: Partial<PantryItem> = {}): PantryItem & { PK: string; SK: string; entity_type: string } {
+    const itemId = overrides.item_id || 'item-1';
+    return {
+      PK: `USER#${mockUserId}`,
+      SK: `INGREDIENT#${itemId}`,
+      entity_type: 'PANTRY_ITEM',
+      item_id: itemId,
+      user_id: mockUserId,
+      name: 'thịt ba chỉ',
+      quantity: 500,
+      unit: 'g',
+      location: 'fridge',
+      created_at: '2026-10-01T00:00:00.000Z',
+      updated_at: '2026-10-01T00:00:00.000Z',
+      ...overrides
+    };
+  }
+
+  function mockPantry(items: PantryItem[]) {
+    (DynamoDBHelper.getUserIngredients as jest.Mock).mockResolvedValue({ Items: items });
+  }
+
+  beforeEach(() => {
+    (formatTimestamp as jest.Mock).mockReturnValue('2026-10-19T08:00:00.000Z');
+    (generateUUID as jest.Mock).mockReturnValue('new-item');
+  });
+
+  describe('listItems', () => {
+    it('should compute expiry status and sort soonest to expire first', async () => {
+      mockPantry([
+        pantryItem({ item_id: 'no-date', name: 'gạo' }),
+        pantryItem({ item_id: 'fresh', name: 'cà rốt', expiry_date: '2026-10-30' }),
+        pantryItem({ item_id: 'expired', name: 'sữa', expiry_date: '2026-10-17' }),
+        pantryItem({ item_id: 'expiring', name: 'đậu hũ', expiry_date: '2026-10-21' })
+      ]);
+
+      const items = await PantryService.listItems(mockUserId);
+
+      expect(items.map(item => item.item_id)).toEqual(['expired', 'expiring', 'fresh', 'no-date']);
+      expect(items.map(item => item.expiry_status)).toEqual(['expired', 'expiring', 'fresh', 'unknown']);
+      expect(items[1].days_until_expiry).toBe(2);
+      expect(items[0]).not.toHaveProperty('PK');
+    });
+
+    it('should return only unexpired items within the window', async () => {
+      mockPantry([
+        pantryItem({ item_id: 'today', expiry_date: '2026-10-19' }),
+        pantryItem({ item_id: 'later', expiry_date: '2026-10-25' }),
+        pantryItem({ item_id: 'expired', expiry_date: '2026-10-18' })
+      ]);
+
+      const items = await PantryService.getExpiringItems(mockUserId, 3);
+
+      expect(items.map(item => item.item_id)).toEqual(['today']);
+    });
+  });
+
+  describe('addItem', () => {
+    it('should store the item under the user ingredient key', async () => {
+      const item = await PantryService.addItem(mockUserId, {
+        name: '  Đậu hũ ',
+        quantity: 2,
+        unit: 'miếng',
+        expiry_date: '2026-10-20'
+      });
+
+      expect(item.location).toBe('fridge');
+      expect(item.expiry_status).toBe('expiring');
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${mockUserId}`,
+        SK: 'INGREDIENT#new-item',
+        entity_type: 'PANTRY_ITEM',
+        quantity: 2
+      }));
+    });
+
+    it('should reject an expiry date before the purchase date', async () => {
+      await expect(PantryService.addItem(mockUserId, {
+        name: 'sữa',
+        purchase_date: '2026-10-19',
+        expiry_date: '2026-10-10'
+      })).rejects.toMatchObject({ statusCode: 400, code: 'invalid_date' });
+    });
+
+    it('should reject invalid quantity and location', async () => {
+      await expect(PantryService.addItem(mockUserId, { name: 'sữa', quantity: -1 }))
+        .rejects.toMatchObject({ code: 'invalid_quantity' });
+      await expect(PantryService.addItem(mockUserId, { name: 'sữa', location: 'garage' as any }))
+        .rejects.toMatchObject({ code: 'invalid_location' });
+      expect(DynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteItem', () => {
+    it('should not delete records that are not pantry items', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ PK: `USER#${mockUserId}`, SK: 'INGREDIENT#x' });
+
+      await expect(PantryService.deleteItem(mockUserId, 'x')).rejects.toMatchObject({ statusCode: 404 });
+      expect(DynamoDBHelper.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deductIngredients', () => {
+    it('should deduct with unit conversion and keep the remainder', async () => {
+      mockPantry([pantryItem({ quantity: 1, unit: 'kg' })]);
+
+      const result = await PantryService.deductIngredients(mockUserId, {
+        ingredients: [{ name: 'Thịt ba chỉ', quantity: '300', unit: 'g' }]
+      });
+
+      expect(result.deductions).toEqual([
+        { item_id: 'item-1', name: 'thịt ba chỉ', used: 0.3, unit: 'kg', remaining: 0.7 }
+      ]);
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        SK: 'INGREDIENT#item-1',
+        quantity: 0.7
+      }));
+    });
+
+    it('should use the soonest-expiring item first and remove items that run out', async () => {
+      mockPantry([
+        pantryItem({ item_id: 'later', quantity: 400, expiry_date: '2026-10-28' }),
+        pantryItem({ item_id: 'sooner', quantity: 200, expiry_date: '2026-10-20' })
+      ]);
+
+      const result = await PantryService.deductIngredients(mockUserId, {
+        ingredients: [{ name: 'thịt ba chỉ', quantity: 300, unit: 'g' }]
+      });
+
+      expect(result.deductions.map(d => [d.item_id, d.used, d.remaining])).toEqual([
+        ['sooner', 200, 0],
+        ['later', 100, 300]
+      ]);
+      expect(DynamoDBHelper.delete).toHaveBeenCalledWith(`USER#${mockUserId}`, 'INGREDIENT#sooner');
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({ item_id: 'later', quantity: 300 }));
+    });
+
+    it('should report ingredients that are missing or cannot be deducted', async () => {
+      mockPantry([
+        pantryItem({ item_id: 'egg', name: 'trứng gà', quantity: 6, unit: 'quả' }),
+        pantryItem({ item_id: 'sauce', name: 'nước mắm', quantity: null, unit: null })
+      ]);
+
+      const result = await PantryService.deductIngredients(mockUserId, {
+        ingredients: [
+          { name: 'trứng gà', quantity: '200', unit: 'g' },
+          { name: 'nước mắm', quantity: 'vừa đủ' },
+          { name: 'hành lá', quantity: '2', unit: 'cây' }
+        ]
+      });
+
+      expect(result.deductions).toEqual([]);
+      expect(result.untracked).toEqual(['trứng gà', 'nước mắm']);
+      expect(result.not_in_pantry).toEqual(['hành lá']);
+      expect(DynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -2,11 +2,19 @@ import { PostsService } from '../../posts/posts-service';
 import { DynamoDBHelper } from '../../shared/database/dynamodb';
 import { IngredientExtractor } from '../../shared/business/ingredients/ingredient-extractor';
 import * as privacyMiddleware from '../../shared/auth/privacy-middleware';
+import { NotificationService } from '../../shared/business/notifications';
+import { UsernameService } from '../../shared/auth/username-service';
+import { RecipeExportService } from '../../shared/business/recipe-export';
+import { ModerationService, ModerationCheck } from '../../shared/business/moderation';
+import { AbuseTrackingService } from '../../shared/business/abuse/abuse-tracking-service';
 
 // Mock dependencies
 jest.mock('../../shared/database/dynamodb');
 jest.mock('../../shared/business/ingredients/ingredient-extractor');
 jest.mock('../../shared/auth/privacy-middleware');
+jest.mock('../../shared/auth/block-service');
+jest.mock('../../shared/business/notifications');
+jest.mock('../../shared/auth/username-service');
 
 describe('PostsService', () => {
   const mockUserId = 'user-123';
@@ -16,6 +24,18 @@ describe('PostsService', () => {
     jest.clearAllMocks();
   });
 
+  // Serve get() by key, with the COMMENT_REF# item findComment reads for each comment
+  function mockItems(items: any[]) {
+    const byKey = new Map<string, any>();
+    for (const item of items) {
+      byKey.set(`${item.PK}|${item.SK}`, item);
+      if (item.comment_id) {
+        byKey.set(`${item.PK}|COMMENT_REF#${item.comment_id}`, { comment_sk: item.SK });
+      }
+    }
+    (DynamoDBHelper.get as jest.Mock).mockImplementation(async (PK: string, SK: string) => byKey.get(`${PK}|${SK}`));
+  }
+
   describe('createPost', () => {
     it('should create a public post successfully', async () => {
       const request = {
@@ -281,6 +301,592 @@ describe('PostsService', () => {
     });
   });
 
+  describe('comment replies', () => {
+    const postItem = {
+      post_id: mockPostId,
+      user_id: 'post-owner',
+      content: 'Post content',
+      privacy: 'public'
+    };
+
+    function mockParent(parent: any) {
+      mockItems([{ PK: `POST#${mockPostId}`, SK: 'METADATA', ...postItem }, parent]);
+    }
+
+    it('should store a reply under its parent and notify both authors', async () => {
+      mockParent({
+        PK: `POST#${mockPostId}`,
+        SK: `COMMENT#2026-01-01T00:00:00.000Z#comment-1`,
+        comment_id: 'comment-1',
+        user_id: 'commenter',
+        depth: 0
+      });
+
+      const result = await PostsService.createComment(mockUserId, {
+        post_id: mockPostId,
+        text: 'Agreed!',
+        parent_comment_id: 'comment-1'
+      });
+
+      expect(result).toMatchObject({ parent_comment_id: 'comment-1', depth: 1 });
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        SK: expect.stringMatching(/^REPLY#comment-1#/)
+      }));
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        SK: `COMMENT_REF#${result.comment_id}`,
+        comment_sk: expect.stringMatching(/^REPLY#comment-1#/)
+      }));
+      expect(DynamoDBHelper.query).not.toHaveBeenCalled();
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        `POST#${mockPostId}`,
+        `COMMENT#2026-01-01T00:00:00.000Z#comment-1`,
+        expect.stringContaining('reply_count'),
+        expect.any(Object)
+      );
+      expect(NotificationService.notifyCommentReplied).toHaveBeenCalledWith(expect.objectContaining({
+        commentAuthorId: 'commenter',
+        commentId: 'comment-1'
+      }));
+      expect(NotificationService.notifyPostCommented).toHaveBeenCalledWith(expect.objectContaining({
+        postOwnerId: 'post-owner',
+        isReply: true
+      }));
+    });
+
+    it('should reject replies nested deeper than two levels', async () => {
+      mockParent({ PK: `POST#${mockPostId}`, SK: 'REPLY#reply-1#2026-01-01T00:00:00.000Z#reply-2', comment_id: 'reply-2', user_id: 'commenter', depth: 2 });
+
+      await expect(PostsService.createComment(mockUserId, {
+        post_id: mockPostId,
+        text: 'Too deep',
+        parent_comment_id: 'reply-2'
+      }))
+        .rejects
+        .toMatchObject({ statusCode: 400, errorCode: 'max_depth_exceeded' });
+      expect(DynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateComment', () => {
+    const commentItem = {
+      PK: `POST#${mockPostId}`,
+      SK: 'COMMENT#2026-01-01T00:00:00.000Z#comment-1',
+      comment_id: 'comment-1',
+      post_id: mockPostId,
+      user_id: mockUserId,
+      text: 'Original text',
+      created_at: '2026-01-01T00:00:00.000Z'
+    };
+
+    it('should edit the text and keep the previous version', async () => {
+      mockItems([commentItem]);
+
+      const result = await PostsService.updateComment(mockUserId, mockPostId, 'comment-1', { text: 'Edited text' });
+
+      expect(result).toMatchObject({ text: 'Edited text', is_edited: true });
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        commentItem.PK,
+        commentItem.SK,
+        expect.stringContaining('list_append'),
+        expect.objectContaining({
+          ':text': 'Edited text',
+          ':revision': [{ text: 'Original text', created_at: '2026-01-01T00:00:00.000Z' }]
+        }),
+        { '#text': 'text' }
+      );
+    });
+
+    it('should only let the author edit', async () => {
+      mockItems([{ ...commentItem, user_id: 'someone-else' }]);
+
+      await expect(PostsService.updateComment(mockUserId, mockPostId, 'comment-1', { text: 'Edited text' }))
+        .rejects
+        .toMatchObject({ statusCode: 403 });
+      expect(DynamoDBHelper.update).not.toHaveBeenCalled();
+    });
+
+    it('should page through the post for a comment without a reference and store one', async () => {
+      (DynamoDBHelper.query as jest.Mock)
+        .mockResolvedValueOnce({ Items: [], LastEvaluatedKey: { PK: commentItem.PK, SK: 'COMMENT#2025' } })
+        .mockResolvedValueOnce({ Items: [commentItem] });
+
+      await PostsService.updateComment(mockUserId, mockPostId, 'comment-1', { text: 'Edited text' });
+
+      expect(DynamoDBHelper.query).toHaveBeenLastCalledWith(expect.objectContaining({
+        ExclusiveStartKey: { PK: commentItem.PK, SK: 'COMMENT#2025' }
+      }));
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: commentItem.PK,
+        SK: 'COMMENT_REF#comment-1',
+        comment_sk: commentItem.SK
+      }));
+    });
+  });
+
+  describe('mentions', () => {
+    const usernames: Record<string, string> = { alice: 'user-alice', bob: 'user-bob' };
+
+    beforeEach(() => {
+      (UsernameService.getUserIdByUsername as jest.Mock).mockImplementation(
+        async (username: string) => usernames[username] || null
+      );
+      (DynamoDBHelper.put as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should store mention ranges on a post and notify mentioned users', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ username: 'author' });
+
+      const result = await PostsService.createPost(mockUserId, {
+        content: 'Cooked with @alice and @nobody',
+        privacy: 'public'
+      });
+
+      expect(result.mentions).toEqual([{ user_id: 'user-alice', username: 'alice', start: 12, end: 18 }]);
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        mentions: result.mentions
+      }));
+      expect(NotificationService.notifyMention).toHaveBeenCalledTimes(1);
+      expect(NotificationService.notifyMention).toHaveBeenCalledWith(expect.objectContaining({
+        mentionedUserId: 'user-alice',
+        postId: result.post_id,
+        mentionedByUsername: 'author'
+      }));
+    });
+
+    it('should only notify mentioned users who can view the post', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ username: 'author' });
+      (privacyMiddleware.checkFriendship as jest.Mock).mockImplementation(
+        async (viewerId: string) => viewerId === 'user-bob'
+      );
+
+      await PostsService.createPost(mockUserId, {
+        content: 'For friends, @alice @bob',
+        privacy: 'friends'
+      });
+
+      expect(NotificationService.notifyMention).toHaveBeenCalledTimes(1);
+      expect(NotificationService.notifyMention).toHaveBeenCalledWith(expect.objectContaining({
+        mentionedUserId: 'user-bob'
+      }));
+    });
+
+    it('should only notify users newly mentioned by a post edit', async () => {
+      const existingPost = {
+        post_id: mockPostId,
+        user_id: mockUserId,
+        content: 'Thanks @alice',
+        privacy: 'public',
+        mentions: [{ user_id: 'user-alice', username: 'alice', start: 7, end: 13 }]
+      };
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(existingPost);
+      (DynamoDBHelper.update as jest.Mock).mockImplementation(async (_pk, _sk, _expr, values) => ({
+        ...existingPost,
+        content: values[':content'],
+        mentions: values[':mentions']
+      }));
+
+      const result = await PostsService.updatePost(mockPostId, mockUserId, { content: 'Thanks @alice and @bob' });
+
+      expect(result.mentions?.map(mention => mention.username)).toEqual(['alice', 'bob']);
+      expect(NotificationService.notifyMention).toHaveBeenCalledTimes(1);
+      expect(NotificationService.notifyMention).toHaveBeenCalledWith(expect.objectContaining({
+        mentionedUserId: 'user-bob',
+        postId: mockPostId
+      }));
+    });
+
+    it('should notify users mentioned in a comment except the post owner', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (pk: string) =>
+        pk === `POST#${mockPostId}`
+          ? { post_id: mockPostId, user_id: 'user-bob', privacy: 'public' }
+          : { username: 'commenter' }
+      );
+
+      const result = await PostsService.createComment(mockUserId, {
+        post_id: mockPostId,
+        text: '@bob @alice you should try this'
+      });
+
+      expect(result.mentions?.map(mention => mention.user_id)).toEqual(['user-bob', 'user-alice']);
+      expect(NotificationService.notifyPostCommented).toHaveBeenCalledWith(expect.objectContaining({
+        postOwnerId: 'user-bob'
+      }));
+      expect(NotificationService.notifyMention).toHaveBeenCalledTimes(1);
+      expect(NotificationService.notifyMention).toHaveBeenCalledWith(expect.objectContaining({
+        mentionedUserId: 'user-alice',
+        mentionedByUsername: 'commenter',
+        inComment: true
+      }));
+    });
+
+    it('should not fail the comment when mention notifications fail', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ post_id: mockPostId, user_id: 'post-owner', privacy: 'public' });
+      (NotificationService.notifyMention as jest.Mock).mockRejectedValue(new Error('boom'));
+
+      await expect(PostsService.createComment(mockUserId, { post_id: mockPostId, text: 'Hi @alice' }))
+        .resolves.toMatchObject({ text: 'Hi @alice' });
+    });
+  });
+
+  describe('hashtags', () => {
+    it('should store tags on a new post and index them', async () => {
+      (DynamoDBHelper.put as jest.Mock).mockResolvedValue(undefined);
+
+      const result = await PostsService.createPost(mockUserId, {
+        content: 'Bún bò Huế #BúnBò #ăn-sáng',
+        privacy: 'public'
+      });
+
+      expect(result.tags).toEqual(['bunbo', 'an-sang']);
+      expect(DynamoDBHelper.batchWrite).toHaveBeenCalledWith([
+        expect.objectContaining({ PutRequest: { Item: expect.objectContaining({ PK: 'TAG#bunbo', post_id: result.post_id }) } }),
+        expect.objectContaining({ PutRequest: { Item: expect.objectContaining({ PK: 'TAG#an-sang', post_id: result.post_id }) } })
+      ]);
+    });
+
+    it('should update only the changed tags when the content is edited', async () => {
+      const existingPost = {
+        post_id: mockPostId,
+        user_id: mockUserId,
+        content: '#bunbo #ansang',
+        privacy: 'public',
+        created_at: '2026-01-01T00:00:00.000Z',
+        tags: ['bunbo', 'ansang']
+      };
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(existingPost);
+      (DynamoDBHelper.update as jest.Mock).mockResolvedValue(existingPost);
+
+      await PostsService.updatePost(mockPostId, mockUserId, { content: '#bunbo #hue' });
+
+      const sk = `POST#2026-01-01T00:00:00.000Z#${mockPostId}`;
+      expect(DynamoDBHelper.batchWrite).toHaveBeenCalledWith([
+        { DeleteRequest: { Key: { PK: 'TAG#ansang', SK: sk } } },
+        { PutRequest: { Item: expect.objectContaining({ PK: 'TAG#hue', SK: sk }) } }
+      ]);
+    });
+
+    it('should remove the tag index items when the post is deleted', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({
+        post_id: mockPostId,
+        user_id: mockUserId,
+        created_at: '2026-01-01T00:00:00.000Z',
+        tags: ['bunbo']
+      });
+
+      await PostsService.deletePost(mockPostId, mockUserId);
+
+      expect(DynamoDBHelper.batchWrite).toHaveBeenCalledWith([
+        { DeleteRequest: { Key: { PK: 'TAG#bunbo', SK: `POST#2026-01-01T00:00:00.000Z#${mockPostId}` } } }
+      ]);
+    });
+
+    describe('getPostsByTag', () => {
+      const tagItem = (postId: string, userId: string) => ({
+        PK: 'TAG#an-chay',
+        SK: `POST#2026-01-01T00:00:00.000Z#${postId}`,
+        post_id: postId,
+        user_id: userId
+      });
+      const posts: Record<string, any> = {
+        'POST#public-post': { post_id: 'public-post', user_id: 'author', privacy: 'public', content: '#ăn-chay' },
+        'POST#private-post': { post_id: 'private-post', user_id: 'author', privacy: 'private', content: '#anchay' },
+        'POST#second-post': { post_id: 'second-post', user_id: 'author', privacy: 'public', content: '#ăn-chay' }
+      };
+
+      beforeEach(() => {
+        const { BlockService } = jest.requireMock('../../shared/auth/block-service');
+        BlockService.getHiddenUsers.mockResolvedValue({ blocked: new Set(), muted: new Set() });
+        (DynamoDBHelper.get as jest.Mock).mockImplementation(async (pk: string) => posts[pk] || null);
+      });
+
+      it('should normalize the tag and skip posts the viewer cannot see', async () => {
+        (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+          Items: [tagItem('private-post', 'author'), tagItem('public-post', 'author')]
+        });
+
+        const result = await PostsService.getPostsByTag('Ăn-Chay', mockUserId);
+
+        expect(result.tag).toBe('an-chay');
+        expect(result.posts.map(p => p.post.post_id)).toEqual(['public-post']);
+        expect(result.hasMore).toBe(false);
+        expect(DynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+          ExpressionAttributeValues: { ':pk': 'TAG#an-chay', ':sk': 'POST#' },
+          ScanIndexForward: false
+        }));
+      });
+
+      it('should resume after the last post returned when the page fills up', async () => {
+        (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+          Items: [tagItem('public-post', 'author'), tagItem('second-post', 'author')]
+        });
+
+        const result = await PostsService.getPostsByTag('an-chay', mockUserId, 1);
+
+        expect(result.posts).toHaveLength(1);
+        expect(result.hasMore).toBe(true);
+        expect(result.nextKey).toEqual({ PK: 'TAG#an-chay', SK: 'POST#2026-01-01T00:00:00.000Z#public-post' });
+      });
+
+      it('should reject an empty tag', async () => {
+        await expect(PostsService.getPostsByTag('#', mockUserId))
+          .rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_tag' });
+      });
+    });
+
+    it('should rank trending tags by the engagement of their posts', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [
+          { post_id: 'p1', user_id: 'a', tags: ['bunbo', 'hue'], likes_count: 10 },
+          { post_id: 'p2', user_id: 'a', tags: ['pho'], likes_count: 2 },
+          { post_id: 'p3', user_id: 'a', tags: ['pho'], likes_count: 1 }
+        ]
+      });
+
+      const result = await PostsService.getTrendingPosts(mockUserId);
+
+      expect(result.tags).toEqual([
+        { tag: 'bunbo', post_count: 1, score: 11 },
+        { tag: 'hue', post_count: 1, score: 11 },
+        { tag: 'pho', post_count: 2, score: 5 }
+      ]);
+    });
+  });
+
+  describe('forks', () => {
+    const recipeData = {
+      title: 'Phở gà',
+      ingredients: [{ name: 'gà', amount: '500', unit: 'g' }],
+      instructions: [{ step: 1, description: 'Luộc gà' }]
+    };
+    const ancestry = [
+      { post_id: 'root-post', user_id: 'root-author', username: 'root', recipe_name: 'Phở' },
+      { post_id: 'parent-post', user_id: 'parent-author', username: 'parent', recipe_name: 'Phở gà' }
+    ];
+
+    beforeEach(() => {
+      (DynamoDBHelper.put as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should store the lineage on a fork, index it under every ancestor and notify their authors', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ username: 'forker' });
+
+      const result = await PostsService.createPost(
+        mockUserId,
+        { content: 'My take on phở', privacy: 'public', recipeData },
+        { ancestry }
+      );
+
+      expect(result.forked_from_post_id).toBe('parent-post');
+      expect(result.ancestry).toEqual(ancestry);
+
+      const sk = `FORK#${result.created_at}#${result.post_id}`;
+      expect(DynamoDBHelper.batchWrite).toHaveBeenCalledWith([
+        { PutRequest: { Item: expect.objectContaining({ PK: 'POST#root-post', SK: sk, depth: 2, parent_post_id: 'parent-post' }) } },
+        { PutRequest: { Item: expect.objectContaining({ PK: 'POST#parent-post', SK: sk, depth: 1 }) } }
+      ]);
+
+      expect(NotificationService.notifyRecipeForked).toHaveBeenCalledTimes(2);
+      expect(NotificationService.notifyRecipeForked).toHaveBeenCalledWith(expect.objectContaining({
+        originalAuthorId: 'root-author',
+        postId: result.post_id,
+        forkedByUsername: 'forker',
+        recipeName: 'Phở'
+      }));
+    });
+
+    it('should not notify the author of their own fork', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ username: 'forker' });
+
+      await PostsService.createPost(
+        mockUserId,
+        { content: 'Second try', privacy: 'public', recipeData },
+        { ancestry: [{ post_id: 'my-post', user_id: mockUserId }] }
+      );
+
+      expect(NotificationService.notifyRecipeForked).not.toHaveBeenCalled();
+    });
+
+    it('should remove the fork index items when the fork is deleted', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({
+        post_id: mockPostId,
+        user_id: mockUserId,
+        created_at: '2026-01-01T00:00:00.000Z',
+        ancestry
+      });
+
+      await PostsService.deletePost(mockPostId, mockUserId);
+
+      const sk = `FORK#2026-01-01T00:00:00.000Z#${mockPostId}`;
+      expect(DynamoDBHelper.batchWrite).toHaveBeenCalledWith([
+        { DeleteRequest: { Key: { PK: 'POST#root-post', SK: sk } } },
+        { DeleteRequest: { Key: { PK: 'POST#parent-post', SK: sk } } }
+      ]);
+    });
+
+    it('should build the lineage for a fork from the post and its ancestry', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (pk: string) =>
+        pk === 'POST#parent-post'
+          ? { post_id: 'parent-post', user_id: 'parent-author', privacy: 'public', recipeData, ancestry: [ancestry[0]] }
+          : { username: 'parent' }
+      );
+
+      const lineage = await PostsService.getForkLineage('parent-post', mockUserId);
+
+      expect(lineage).toEqual(ancestry);
+    });
+
+    it('should refuse to fork a post without a recipe', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ post_id: mockPostId, user_id: 'author', privacy: 'public' });
+
+      await expect(PostsService.getForkLineage(mockPostId, mockUserId))
+        .rejects.toMatchObject({ statusCode: 400, errorCode: 'not_a_recipe_post' });
+    });
+
+    it('should list forks with their depth, skipping ones the viewer cannot see', async () => {
+      const { BlockService } = jest.requireMock('../../shared/auth/block-service');
+      BlockService.getHiddenUsers.mockResolvedValue({ blocked: new Set(), muted: new Set() });
+      const posts: Record<string, any> = {
+        'POST#root-post': { post_id: 'root-post', user_id: 'root-author', privacy: 'public' },
+        'POST#fork-1': { post_id: 'fork-1', user_id: 'cook', privacy: 'public', recipeData, ancestry },
+        'POST#fork-2': { post_id: 'fork-2', user_id: 'cook', privacy: 'private', recipeData }
+      };
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (pk: string) => posts[pk] || null);
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [
+          { PK: 'POST#root-post', SK: 'FORK#2026-01-02#fork-2', post_id: 'fork-2', user_id: 'cook', depth: 1 },
+          { PK: 'POST#root-post', SK: 'FORK#2026-01-01#fork-1', post_id: 'fork-1', user_id: 'cook', depth: 2 }
+        ]
+      });
+
+      const result = await PostsService.getForks('root-post', mockUserId);
+
+      expect(result.forks.map(f => [f.post.post_id, f.depth])).toEqual([['fork-1', 2]]);
+      expect(result.forks[0].post.ancestry).toEqual(ancestry);
+      expect(DynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        ExpressionAttributeValues: { ':pk': 'POST#root-post', ':sk': 'FORK#' },
+        ScanIndexForward: false
+      }));
+    });
+  });
+
+  describe('exportPost', () => {
+    const recipeData = {
+      title: 'Phở gà',
+      servings: 2,
+      ingredients: [{ name: 'gà', amount: '500', unit: 'g' }],
+      instructions: [{ step: 1, description: 'Luộc gà', duration: 30 }]
+    };
+    const ancestry = [{ post_id: 'root-post', user_id: 'root-author', username: 'root', recipe_name: 'Phở' }];
+    const exportResult = { format: 'markdown' as const, filename: 'pho-ga.md', content_type: 'text/markdown', content: '# Phở gà' };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should credit the publisher and the original author of a fork', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (pk: string) =>
+        pk === `POST#${mockPostId}`
+          ? { post_id: mockPostId, user_id: 'cook', privacy: 'public', images: ['https://cdn/p.jpg'], recipeData, ancestry }
+          : { username: 'cook_name' }
+      );
+      const exportRecipe = jest.spyOn(RecipeExportService, 'exportRecipe').mockResolvedValue(exportResult);
+
+      await PostsService.exportPost(mockPostId, mockUserId, 'markdown');
+
+      expect(exportRecipe).toHaveBeenCalledWith(mockUserId, {
+        title: 'Phở gà',
+        servings: 2,
+        ingredients: [{ name: 'gà', quantity: '500', unit: 'g' }],
+        steps: [{ description: 'Luộc gà', duration_minutes: 30 }],
+        images: ['https://cdn/p.jpg'],
+        published_by: 'cook_name',
+        url: `https://awssmartcookingss.com/posts/${mockPostId}`,
+        attribution: {
+          source_type: 'post',
+          source_id: mockPostId,
+          original_author_id: 'root-author',
+          original_author_username: 'root',
+          original_post_url: 'https://awssmartcookingss.com/posts/root-post',
+          ancestry
+        }
+      }, 'markdown');
+    });
+
+    it('should refuse to export a post without a recipe', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ post_id: mockPostId, user_id: 'cook', privacy: 'public' });
+
+      await expect(PostsService.exportPost(mockPostId, mockUserId, 'pdf'))
+        .rejects.toMatchObject({ statusCode: 400, errorCode: 'not_a_recipe_post' });
+    });
+  });
+
+  describe('deleteComment', () => {
+    const commentItem = {
+      PK: `POST#${mockPostId}`,
+      SK: 'REPLY#comment-1#2026-01-01T00:00:00.000Z#reply-1',
+      comment_id: 'reply-1',
+      post_id: mockPostId,
+      user_id: 'commenter',
+      parent_comment_id: 'comment-1',
+      text: 'A reply'
+    };
+
+    it('should let the post owner delete a reply and update the counts', async () => {
+      mockItems([
+        { PK: `POST#${mockPostId}`, SK: 'METADATA', post_id: mockPostId, user_id: mockUserId },
+        commentItem,
+        { PK: `POST#${mockPostId}`, SK: 'COMMENT#parent', comment_id: 'comment-1' }
+      ]);
+
+      await PostsService.deleteComment(mockUserId, mockPostId, 'reply-1');
+
+      expect(DynamoDBHelper.delete).toHaveBeenCalledWith(commentItem.PK, commentItem.SK);
+      expect(DynamoDBHelper.delete).toHaveBeenCalledWith(commentItem.PK, 'COMMENT_REF#reply-1');
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        `POST#${mockPostId}`,
+        'COMMENT#parent',
+        expect.stringContaining('reply_count - :dec'),
+        { ':dec': 1 }
+      );
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        `POST#${mockPostId}`,
+        'METADATA',
+        expect.stringContaining('comments_count'),
+        expect.any(Object)
+      );
+    });
+
+    it('should keep a placeholder for a comment with replies', async () => {
+      mockItems([
+        { PK: `POST#${mockPostId}`, SK: 'METADATA', post_id: mockPostId, user_id: 'post-owner' },
+        { ...commentItem, user_id: mockUserId, parent_comment_id: undefined, reply_count: 2 }
+      ]);
+
+      await PostsService.deleteComment(mockUserId, mockPostId, 'reply-1');
+
+      expect(DynamoDBHelper.delete).not.toHaveBeenCalled();
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        commentItem.PK,
+        commentItem.SK,
+        expect.stringContaining('is_deleted'),
+        expect.objectContaining({ ':deleted': true }),
+        { '#text': 'text' }
+      );
+    });
+
+    it('should reject users who are neither author nor post owner', async () => {
+      mockItems([
+        { PK: `POST#${mockPostId}`, SK: 'METADATA', post_id: mockPostId, user_id: 'post-owner' },
+        commentItem
+      ]);
+
+      await expect(PostsService.deleteComment(mockUserId, mockPostId, 'reply-1'))
+        .rejects
+        .toMatchObject({ statusCode: 403 });
+      expect(DynamoDBHelper.delete).not.toHaveBeenCalled();
+    });
+  });
+
   describe('createReaction', () => {
     it('should create like reaction successfully', async () => {
       const postItem = {
@@ -448,4 +1054,151 @@ describe('PostsService', () => {
       expect(result.posts).toHaveLength(2);
     });
   });
+
+  describe('moderation', () => {
+    const flag = (action: 'hold' | 'reject'): ModerationCheck => ({
+      name: 'test',
+      run: async () => [{ check: 'test', action, category: 'profanity', severity: 'medium', reason: 'Flagged in test' }]
+    });
+
+    const postItem = {
+      post_id: mockPostId,
+      user_id: 'post-owner',
+      content: 'Post content',
+      privacy: 'public'
+    };
+
+    beforeEach(() => {
+      jest.spyOn(AbuseTrackingService, 'recordViolation').mockResolvedValue({} as any);
+    });
+
+    afterEach(() => {
+      ModerationService.setChecks(null);
+    });
+
+    it('should keep a held post out of the public feed and queue it for review', async () => {
+      ModerationService.setChecks([flag('hold')]);
+
+      const result = await PostsService.createPost(mockUserId, { content: 'Borderline post', privacy: 'public' });
+
+      expect(result).toMatchObject({ moderation_status: 'held', moderation_reasons: ['Flagged in test'] });
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        SK: 'METADATA',
+        moderation_status: 'held',
+        GSI3PK: `FEED#${mockUserId}`
+      }));
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        SK: `MODERATION#post#${result.post_id}`,
+        GSI1PK: 'MODERATION#held'
+      }));
+      expect(AbuseTrackingService.recordViolation).not.toHaveBeenCalled();
+    });
+
+    it('should not store rejected comments', async () => {
+      ModerationService.setChecks([flag('reject')]);
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(postItem);
+
+      await expect(PostsService.createComment(mockUserId, { post_id: mockPostId, text: 'Abusive comment' }))
+        .rejects.toMatchObject({ statusCode: 422, errorCode: 'content_rejected' });
+      expect(DynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+
+    it('should not count or announce held comments', async () => {
+      ModerationService.setChecks([flag('hold')]);
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(postItem);
+
+      const comment = await PostsService.createComment(mockUserId, { post_id: mockPostId, text: 'Borderline comment' });
+
+      expect(comment.moderation_status).toBe('held');
+      expect(DynamoDBHelper.update).not.toHaveBeenCalled();
+      expect(NotificationService.notifyPostCommented).not.toHaveBeenCalled();
+    });
+
+    describe('comment edits', () => {
+      const commentItem = {
+        PK: `POST#${mockPostId}`,
+        SK: 'COMMENT#2026-01-01T00:00:00.000Z#comment-1',
+        comment_id: 'comment-1',
+        post_id: mockPostId,
+        user_id: mockUserId,
+        text: 'Clean comment',
+        created_at: '2026-01-01T00:00:00.000Z'
+      };
+
+      it('should reject an edit the pipeline would reject and keep the old text', async () => {
+        ModerationService.setChecks([flag('reject')]);
+        mockItems([commentItem]);
+
+        await expect(PostsService.updateComment(mockUserId, mockPostId, 'comment-1', { text: 'Abusive comment' }))
+          .rejects.toMatchObject({ statusCode: 422, errorCode: 'content_rejected' });
+        expect(DynamoDBHelper.update).not.toHaveBeenCalled();
+        expect(AbuseTrackingService.recordViolation).toHaveBeenCalledWith(mockUserId, 'inappropriate_content', 'medium', expect.objectContaining({ comment_id: 'comment-1' }));
+      });
+
+      it('should hold a published comment edited into borderline text and stop counting it', async () => {
+        ModerationService.setChecks([flag('hold')]);
+        mockItems([{ PK: `POST#${mockPostId}`, SK: 'METADATA', ...postItem }, commentItem]);
+
+        const comment = await PostsService.updateComment(mockUserId, mockPostId, 'comment-1', { text: 'Borderline comment' });
+
+        expect(comment.moderation_status).toBe('held');
+        expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+          commentItem.PK,
+          commentItem.SK,
+          expect.stringContaining('moderation_status = :status'),
+          expect.objectContaining({ ':text': 'Borderline comment', ':status': 'held', ':reasons': ['Flagged in test'] }),
+          { '#text': 'text' }
+        );
+        expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+          SK: 'MODERATION#comment#comment-1',
+          excerpt: 'Borderline comment',
+          GSI1PK: 'MODERATION#held'
+        }));
+        expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+          `POST#${mockPostId}`,
+          'METADATA',
+          expect.stringContaining('comments_count'),
+          expect.objectContaining({ ':one': 1 })
+        );
+      });
+
+      it('should show the moderator the new text of a comment edited while held', async () => {
+        ModerationService.setChecks([]);
+        mockItems([{ ...commentItem, moderation_status: 'held' }]);
+
+        await PostsService.updateComment(mockUserId, mockPostId, 'comment-1', { text: 'Rewritten comment' });
+
+        expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+          `POST#${mockPostId}`,
+          'MODERATION#comment#comment-1',
+          'SET excerpt = :excerpt, images = :images',
+          { ':excerpt': 'Rewritten comment', ':images': [] }
+        );
+        expect(DynamoDBHelper.update).not.toHaveBeenCalledWith(`POST#${mockPostId}`, 'METADATA', expect.anything(), expect.anything());
+      });
+    });
+
+    it('should only show held comments to their author', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(postItem);
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [
+          { comment_id: 'c1', user_id: 'someone', text: 'Visible' },
+          { comment_id: 'c2', user_id: mockUserId, text: 'Held', moderation_status: 'held' }
+        ]
+      });
+
+      const own = await PostsService.getComments(mockPostId, mockUserId);
+      const others = await PostsService.getComments(mockPostId, 'viewer-2');
+
+      expect(own.comments.map(item => item.comment.comment_id)).toEqual(['c1', 'c2']);
+      expect(others.comments.map(item => item.comment.comment_id)).toEqual(['c1']);
+    });
+
+    it('should hide held posts from everyone but their author', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ ...postItem, moderation_status: 'held' });
+
+      await expect(PostsService.getPost(mockPostId, 'post-owner')).resolves.toMatchObject({ moderation_status: 'held' });
+      await expect(PostsService.getPost(mockPostId, mockUserId)).rejects.toThrow('You do not have permission to view this post');
+    });
+  });
 });
@@ -863,6 +863,67 @@ describe('Posts Handler - Unit Tests', () => {
       expect(body.data.search_term).toBe(searchTerm);
     });
 
+    it('should get posts by hashtag with the tag normalized', async () => {
+      dynamoMock.reset();
+      dynamoMock.on(QueryCommand).resolves({ Items: [], Count: 0 });
+
+      const event = createAuthenticatedAPIGatewayEvent(
+        'GET',
+        `/v1/posts/tags/${encodeURIComponent('Ăn-Chay')}`,
+        userId,
+        userEmail
+      );
+
+      const response = await callHandler(event);
+
+      expect(response.statusCode).toBe(200);
+      const body = parseResponseBody(response);
+      expect(body.data).toMatchObject({ tag: 'an-chay', posts: [], has_more: false });
+      const tagQuery = dynamoMock.commandCalls(QueryCommand)
+        .find(call => call.args[0].input.ExpressionAttributeValues?.[':pk'] === 'TAG#an-chay');
+      expect(tagQuery).toBeDefined();
+    });
+
+    it('should list forks of a recipe post', async () => {
+      dynamoMock.reset();
+      dynamoMock.on(GetCommand).resolves({
+        Item: createMockPost({ post_id: 'post-1', user_id: 'user-2', privacy: 'public', is_public: true })
+      });
+      dynamoMock.on(QueryCommand).resolves({ Items: [], Count: 0 });
+
+      const event = createAuthenticatedAPIGatewayEvent('GET', '/v1/posts/post-1/forks', userId, userEmail);
+
+      const response = await callHandler(event);
+
+      expect(response.statusCode).toBe(200);
+      const body = parseResponseBody(response);
+      expect(body.data).toMatchObject({ forks: [], has_more: false });
+      const forkQuery = dynamoMock.commandCalls(QueryCommand)
+        .find(call => call.args[0].input.ExpressionAttributeValues?.[':sk'] === 'FORK#');
+      expect(forkQuery?.args[0].input.ExpressionAttributeValues?.[':pk']).toBe('POST#post-1');
+    });
+
+    it('should reject an unknown export format', async () => {
+      dynamoMock.reset();
+
+      const event = createAuthenticatedAPIGatewayEvent('GET', '/v1/posts/post-1/export', userId, userEmail, undefined, undefined, { format: 'docx' });
+
+      const response = await callHandler(event);
+
+      expect(response.statusCode).toBe(400);
+      expect(parseResponseBody(response).error).toBe('invalid_format');
+    });
+
+    it('should return 400 for an empty hashtag', async () => {
+      dynamoMock.reset();
+
+      const event = createAuthenticatedAPIGatewayEvent('GET', '/v1/posts/tags/%23', userId, userEmail);
+
+      const response = await callHandler(event);
+
+      expect(response.statusCode).toBe(400);
+    });
+
     it('should handle feed pagination', async () => {
       // Arrange
       const posts = [
@@ -0,0 +1,96 @@
+import { RealtimeService, LocalRealtimePublisher, ConnectionRegistry, createRealtimePublisher, ApiGatewayRealtimePublisher } from '../../shared/realtime';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+
+jest.mock('../../shared/database/dynamodb');
+
+describe('RealtimeService', () => {
+  let publisher: LocalRealtimePublisher;
+
+  beforeEach(() => {
+    publisher = new LocalRealtimePublisher();
+    RealtimeService.setPublisher(publisher);
+  });
+
+  afterEach(() => {
+    RealtimeService.setPublisher(null);
+  });
+
+  function mockConnections(...connectionIds: string[]) {
+    (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+      Items: connectionIds.map(connectionId => ({ connection_id: connectionId }))
+    });
+  }
+
+  it('should send events to every connected session of the user', async () => {
+    const first: any[] = [];
+    const second: any[] = [];
+    publisher.connect('conn-1', event => first.push(event));
+    publisher.connect('conn-2', event => second.push(event));
+    mockConnections('conn-1', 'conn-2');
+
+    const delivered = await RealtimeService.sendToUser('user-1', async () => [{ type: 'unread_count', unread_count: 2 }]);
+
+    expect(delivered).toBe(2);
+    expect(first).toEqual([{ type: 'unread_count', unread_count: 2 }]);
+    expect(second).toEqual(first);
+    expect(DynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+      ExpressionAttributeValues: { ':pk': 'USER#user-1', ':sk': 'WS_CONNECTION#' }
+    }));
+  });
+
+  it('should not build events when the user has no connections', async () => {
+    mockConnections();
+    const buildEvents = jest.fn();
+
+    expect(await RealtimeService.sendToUser('user-1', buildEvents)).toBe(0);
+    expect(buildEvents).not.toHaveBeenCalled();
+  });
+
+  it('should remove connections that are gone', async () => {
+    mockConnections('stale-conn');
+
+    const delivered = await RealtimeService.sendToUser('user-1', async () => [{ type: 'unread_count', unread_count: 0 }]);
+
+    expect(delivered).toBe(0);
+    expect(DynamoDBHelper.delete).toHaveBeenCalledWith('USER#user-1', 'WS_CONNECTION#stale-conn');
+    expect(DynamoDBHelper.delete).toHaveBeenCalledWith('WS_CONNECTION#stale-conn', 'METADATA');
+  });
+
+  it('should log and swallow delivery errors', async () => {
+    (DynamoDBHelper.query as jest.Mock).mockRejectedValue(new Error('throttled'));
+
+    await expect(RealtimeService.sendToUser('user-1', async () => [])).resolves.toBe(0);
+  });
+
+  it('should use the WebSocket API only when an endpoint is configured', () => {
+    expect(createRealtimePublisher({})).toBeInstanceOf(LocalRealtimePublisher);
+    expect(createRealtimePublisher({ WEBSOCKET_ENDPOINT: 'https://abc.execute-api.us-east-1.amazonaws.com/dev' }))
+      .toBeInstanceOf(ApiGatewayRealtimePublisher);
+  });
+});
+
+describe('ConnectionRegistry', () => {
+  it('should store the connection under the user and by id', async () => {
+    await ConnectionRegistry.register('conn-1', 'user-1');
+
+    expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+      PK: 'USER#user-1',
+      SK: 'WS_CONNECTION#conn-1',
+      connection_id: 'conn-1',
+      ttl: expect.any(Number)
+    }));
+    expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+      PK: 'WS_CONNECTION#conn-1',
+      SK: 'METADATA',
+      user_id: 'user-1'
+    }));
+  });
+
+  it('should remove both records when a connection closes', async () => {
+    (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ user_id: 'user-1' });
+
+    expect(await ConnectionRegistry.unregister('conn-1')).toBe('user-1');
+    expect(DynamoDBHelper.delete).toHaveBeenCalledWith('USER#user-1', 'WS_CONNECTION#conn-1');
+    expect(DynamoDBHelper.delete).toHaveBeenCalledWith('WS_CONNECTION#conn-1', 'METADATA');
+  });
+});
@@ -0,0 +1,102 @@
+import { diffRecipes } from '../../saved-recipes/recipe-diff';
+import { RecipeContent } from '../../saved-recipes/types';
+
+const base: RecipeContent = {
+  recipe_name: 'Thịt kho trứng',
+  servings: 4,
+  recipe_ingredients: [
+    { name: 'thịt ba chỉ', quantity: '500', unit: 'g' },
+    { name: 'trứng vịt', quantity: '6', unit: 'quả' },
+    { name: 'nước dừa', quantity: '400', unit: 'ml' }
+  ],
+  recipe_instructions: [
+    { step_number: 1, description: 'Luộc trứng, bóc vỏ', duration_minutes: 10 },
+    { step_number: 2, description: 'Ướp thịt với nước mắm', duration_minutes: 30 },
+    { step_number: 3, description: 'Kho thịt với nước dừa', duration_minutes: 60 }
+  ]
+};
+
+describe('diffRecipes', () => {
+  it('should report no changes for identical recipes', () => {
+    const diff = diffRecipes(base, JSON.parse(JSON.stringify(base)));
+
+    expect(diff.has_changes).toBe(false);
+    expect(diff.recipe_name).toBeUndefined();
+    expect(diff.servings).toBeUndefined();
+  });
+
+  it('should find added, removed and changed ingredients by name', () => {
+    const diff = diffRecipes(base, {
+      ...base,
+      recipe_ingredients: [
+        { name: 'Thịt ba chỉ', quantity: '700', unit: 'g' },
+        { name: 'trứng vịt', quantity: '6', unit: 'quả' },
+        { name: 'hành tím', quantity: '3', unit: 'củ' }
+      ]
+    });
+
+    expect(diff.ingredients.added).toEqual([{ name: 'hành tím', quantity: '3', unit: 'củ' }]);
+    expect(diff.ingredients.removed).toEqual([{ name: 'nước dừa', quantity: '400', unit: 'ml' }]);
+    expect(diff.ingredients.changed).toEqual([{
+      name: 'Thịt ba chỉ',
+      from: { name: 'thịt ba chỉ', quantity: '500', unit: 'g' },
+      to: { name: 'Thịt ba chỉ', quantity: '700', unit: 'g' }
+    }]);
+    expect(diff.has_changes).toBe(true);
+  });
+
+  it('should report reordered steps as moves', () => {
+    const diff = diffRecipes(base, {
+      ...base,
+      recipe_instructions: [
+        { step_number: 1, description: 'Ướp thịt với nước mắm', duration_minutes: 30 },
+        { step_number: 2, description: 'Luộc trứng, bóc vỏ', duration_minutes: 10 },
+        { step_number: 3, description: 'Kho thịt với nước dừa', duration_minutes: 60 }
+      ]
+    });
+
+    expect(diff.steps.moved).toHaveLength(1);
+    expect(diff.steps.added).toEqual([]);
+    expect(diff.steps.removed).toEqual([]);
+    expect(diff.steps.changed).toEqual([]);
+  });
+
+  it('should not count steps shifted by an insertion as moved', () => {
+    const diff = diffRecipes(base, {
+      ...base,
+      recipe_instructions: [
+        { step_number: 1, description: 'Luộc trứng, bóc vỏ', duration_minutes: 10 },
+        { step_number: 2, description: 'Phi hành tím', duration_minutes: 2 },
+        { step_number: 3, description: 'Ướp thịt với nước mắm', duration_minutes: 30 },
+        { step_number: 4, description: 'Kho thịt với nước dừa', duration_minutes: 60 }
+      ]
+    });
+
+    expect(diff.steps.moved).toEqual([]);
+    expect(diff.steps.added).toEqual([{ step_number: 2, description: 'Phi hành tím', duration_minutes: 2 }]);
+  });
+
+  it('should report edited and removed steps', () => {
+    const diff = diffRecipes(base, {
+      ...base,
+      recipe_instructions: [
+        { step_number: 1, description: 'Luộc trứng 8 phút, bóc vỏ', duration_minutes: 8 },
+        { step_number: 2, description: 'Ướp thịt với nước mắm', duration_minutes: 30 }
+      ]
+    });
+
+    expect(diff.steps.changed).toEqual([{
+      step_number: 1,
+      from: 'Luộc trứng, bóc vỏ',
+      to: 'Luộc trứng 8 phút, bóc vỏ'
+    }]);
+    expect(diff.steps.removed).toEqual([base.recipe_instructions[2]]);
+  });
+
+  it('should report name and servings changes', () => {
+    const diff = diffRecipes(base, { ...base, recipe_name: 'Thịt kho tàu', servings: 6 });
+
+    expect(diff.recipe_name).toEqual({ from: 'Thịt kho trứng', to: 'Thịt kho tàu' });
+    expect(diff.servings).toEqual({ from: 4, to: 6 });
+  });
+});
@@ -0,0 +1,159 @@
+import { RecipeExportService, RecipePdf, ExportableRecipe } from '../../shared/business/recipe-export';
+import { getCloudFrontUrl, uploadExport } from '../../shared/storage/s3-service';
+
+jest.mock('../../shared/storage/s3-service', () => ({
+  ...jest.requireActual('../../shared/storage/s3-service'),
+  uploadExport: jest.fn()
+}));
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+const recipe: ExportableRecipe = {
+  title: 'Phở gà Hà Nội',
+  servings: 4,
+  ingredients: [
+    { name: 'gà', quantity: '1', unit: 'con' },
+    { name: 'hành lá', quantity: '', notes: 'thái nhỏ' }
+  ],
+  steps: [
+    { description: 'Luộc gà', duration_minutes: 40 },
+    { description: 'Chan nước dùng', duration_minutes: null }
+  ],
+  images: ['posts/post-1/photo.png', 'https://elsewhere.example.com/tracker.png'],
+  attribution: {
+    source_type: 'post',
+    source_id: 'post-2',
+    original_author_id: 'root-author',
+    original_author_username: 'root',
+    original_post_url: 'https://awssmartcookingss.com/posts/root-post',
+    is_modified: true,
+    ancestry: [
+      { post_id: 'root-post', user_id: 'root-author', username: 'root', recipe_name: 'Phở' },
+      { post_id: 'post-2', user_id: 'author-2', username: 'chef', recipe_name: 'Phở gà' }
+    ]
+  }
+};
+
+const pageCount = (pdf: Buffer) => (pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length;
+
+describe('RecipeExportService', () => {
+  let loader: jest.Mock;
+
+  beforeEach(() => {
+    // No embedded font in tests, so the built-in fonts are used
+    loader = jest.fn(async (url: string) => {
+      if (url.includes('/assets/fonts/')) throw new Error('HTTP 404');
+      return PNG;
+    });
+    RecipePdf.setAssetLoader(loader);
+    (uploadExport as jest.Mock).mockResolvedValue({ download_url: 'https://s3.example.com/signed', key: 'exports/x.pdf', expires_in: 900 });
+  });
+
+  afterEach(() => {
+    RecipePdf.setAssetLoader(null);
+  });
+
+  describe('parseFormat', () => {
+    it('should default to pdf and reject unknown formats', () => {
+      expect(RecipeExportService.parseFormat(undefined)).toBe('pdf');
+      expect(RecipeExportService.parseFormat('Markdown')).toBe('markdown');
+      expect(() => RecipeExportService.parseFormat('docx')).toThrow(expect.objectContaining({ errorCode: 'invalid_format' }));
+    });
+  });
+
+  describe('attribution', () => {
+    it('should list the source, original author, original url, lineage and modification', () => {
+      expect(RecipeExportService.attributionLines(recipe)).toEqual([
+        'Source: Smart Cooking community post',
+        'Original author: @root',
+        'Original: https://awssmartcookingss.com/posts/root-post',
+        'Adapted from: Phở by @root → Phở gà by @chef',
+        'Modified from the original'
+      ]);
+    });
+
+    it('should not prefix imported authors with @', () => {
+      const lines = RecipeExportService.attributionLines({
+        ...recipe,
+        attribution: { source_type: 'import', original_author_username: 'Jane Cook', original_post_url: 'https://blog.example.com/pho' }
+      });
+
+      expect(lines).toEqual(['Source: Imported from the web', 'Original author: Jane Cook', 'Original: https://blog.example.com/pho']);
+    });
+  });
+
+  describe('markdown', () => {
+    it('should render attribution, CDN images, ingredients and numbered steps', async () => {
+      const result = await RecipeExportService.exportRecipe('user-1', recipe, 'markdown');
+
+      expect(result.filename).toBe('pho-ga-ha-noi.md');
+      expect(result.content_type).toBe('text/markdown; charset=utf-8');
+      expect(result.content).toContain('# Phở gà Hà Nội');
+      expect(result.content).toContain('> Original author: @root');
+      expect(result.content).toContain(`![Phở gà Hà Nội](${getCloudFrontUrl('posts/post-1/photo.png')})`);
+      expect(result.content).not.toContain('elsewhere.example.com');
+      expect(result.content).toContain('- hành lá (thái nhỏ)');
+      expect(result.content).toContain('1. Luộc gà (40 min)\n2. Chan nước dùng');
+      expect(uploadExport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('json-ld', () => {
+    it('should produce a schema.org Recipe crediting the original', async () => {
+      const result = await RecipeExportService.exportRecipe('user-1', recipe, 'jsonld');
+      const data = JSON.parse(result.content!);
+
+      expect(data).toMatchObject({
+        '@context': 'https://schema.org',
+        '@type': 'Recipe',
+        name: 'Phở gà Hà Nội',
+        recipeYield: '4',
+        author: { '@type': 'Person', name: 'root' },
+        image: [getCloudFrontUrl('posts/post-1/photo.png')],
+        recipeIngredient: ['1 con gà', 'hành lá (thái nhỏ)'],
+        isBasedOn: [
+          'https://awssmartcookingss.com/posts/root-post',
+          'https://awssmartcookingss.com/posts/post-2'
+        ]
+      });
+      expect(data.recipeInstructions[0]).toEqual({ '@type': 'HowToStep', position: 1, text: 'Luộc gà', timeRequired: 'PT40M' });
+      expect(data.creditText).toContain('Adapted from: Phở by @root → Phở gà by @chef');
+    });
+  });
+
+  describe('pdf', () => {
+    it('should store the PDF and return a download link', async () => {
+      const result = await RecipeExportService.exportRecipe('user-1', recipe, 'pdf');
+
+      expect(result).toMatchObject({ format: 'pdf', filename: 'pho-ga-ha-noi.pdf', download_url: 'https://s3.example.com/signed' });
+      const [userId, filename, pdf, contentType] = (uploadExport as jest.Mock).mock.calls[0];
+      expect([userId, filename, contentType]).toEqual(['user-1', 'pho-ga-ha-noi.pdf', 'application/pdf']);
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(pageCount(pdf)).toBe(1);
+    });
+
+    it('should only fetch images from the CDN', async () => {
+      await RecipeExportService.exportRecipe('user-1', recipe, 'pdf');
+
+      const imageUrls = loader.mock.calls.map(([url]) => url).filter((url: string) => !url.includes('/assets/fonts/'));
+      expect(imageUrls).toEqual([getCloudFrontUrl('posts/post-1/photo.png')]);
+    });
+
+    it('should render a cookbook with a cover and table of contents', async () => {
+      const result = await RecipeExportService.exportCookbook('user-1', 'Món Tết', [
+        recipe,
+        { ...recipe, title: 'Bánh chưng', images: [] }
+      ]);
+
+      const pdf = (uploadExport as jest.Mock).mock.calls[0][2] as Buffer;
+      expect(result.filename).toBe('mon-tet.pdf');
+      // Cover, contents, one page per recipe
+      expect(pageCount(pdf)).toBe(4);
+      expect(pdf.toString('latin1')).toContain('/Dests');
+    });
+  });
+});
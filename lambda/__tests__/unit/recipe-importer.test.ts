@@ -0,0 +1,205 @@
+import { lookup } from 'dns';
+import { RecipeImporter } from '../../saved-recipes/recipe-importer';
+import { IngredientParserHybrid } from '../../shared/business/ingredients/ingredient-parser-hybrid';
+
+const jsonLdPage = (data: unknown) => `
+<html>
+  <head>
+    <title>Best Pho | Food Blog</title>
+    <script type="application/ld+json">${JSON.stringify(data)}</script>
+  </head>
+  <body><h1>Best Pho</h1><p>A long story about pho...</p></body>
+</html>`;
+
+jest.mock('dns');
+
+describe('RecipeImporter', () => {
+  let fetcher: jest.Mock;
+
+  beforeEach(() => {
+    fetcher = jest.fn();
+    RecipeImporter.setFetcher(fetcher);
+    // "2 eggs" -> { quantity: '2', name: 'eggs' }; other lines are kept whole
+    jest.spyOn(IngredientParserHybrid, 'parseIngredients').mockImplementation(async (lines: string[]) =>
+      lines.map(line => {
+        const match = line.match(/^(\d+)\s*(g|ml)?\s+(.+)$/);
+        return match ? { quantity: match[1], unit: match[2], name: match[3] } : { name: line };
+      })
+    );
+  });
+
+  afterEach(() => {
+    RecipeImporter.setFetcher(null);
+    jest.restoreAllMocks();
+  });
+
+  describe('json-ld', () => {
+    it('should map a schema.org Recipe and record the page for attribution', async () => {
+      fetcher.mockResolvedValue(jsonLdPage({
+        '@context': 'https://schema.org',
+        '@type': 'Recipe',
+        name: 'Phở b&#242;',
+        author: { '@type': 'Person', name: 'Jane Cook' },
+        recipeYield: ['4', '4 bowls'],
+        recipeIngredient: ['500 g beef bones', '2 onions', 'star anise'],
+        recipeInstructions: [
+          { '@type': 'HowToStep', text: 'Char the <b>onions</b>.' },
+          { '@type': 'HowToStep', text: 'Simmer the bones &amp; spices.' }
+        ]
+      }));
+
+      const result = await RecipeImporter.importRecipe({ url: 'https://blog.example.com/pho' });
+
+      expect(fetcher).toHaveBeenCalledWith('https://blog.example.com/pho');
+      expect(result.method).toBe('json-ld');
+      expect(result.draft).toEqual({
+        recipe_name: 'Phở bò',
+        recipe_ingredients: [
+          { name: 'beef bones', quantity: '500', unit: 'g' },
+          { name: 'onions', quantity: '2' },
+          { name: 'star anise', quantity: '' }
+        ],
+        recipe_instructions: [
+          { step_number: 1, description: 'Char the onions.', duration_minutes: null },
+          { step_number: 2, description: 'Simmer the bones & spices.', duration_minutes: null }
+        ],
+        servings: 4,
+        source_type: 'import',
+        source_id: 'https://blog.example.com/pho',
+        original_post_url: 'https://blog.example.com/pho',
+        original_author_username: 'Jane Cook'
+      });
+    });
+
+    it('should find the recipe inside @graph and flatten HowToSections', async () => {
+      fetcher.mockResolvedValue(jsonLdPage({
+        '@graph': [
+          { '@type': 'WebPage', name: 'Page' },
+          {
+            '@type': ['Recipe', 'NewsArticle'],
+            name: 'Bánh mì',
+            recipeIngredient: ['1 baguette'],
+            recipeInstructions: [
+              { '@type': 'HowToSection', name: 'Pickles', itemListElement: [{ '@type': 'HowToStep', text: 'Pickle carrots' }] },
+              { '@type': 'HowToSection', name: 'Assemble', itemListElement: [{ '@type': 'HowToStep', text: 'Fill the bread' }] }
+            ]
+          }
+        ]
+      }));
+
+      const result = await RecipeImporter.importRecipe({ url: 'https://blog.example.com/banh-mi' });
+
+      expect(result.method).toBe('json-ld');
+      expect(result.draft.recipe_name).toBe('Bánh mì');
+      expect(result.draft.recipe_instructions.map(step => step.description)).toEqual(['Pickle carrots', 'Fill the bread']);
+    });
+
+    it('should skip broken JSON-LD blocks and fall back to the page text', async () => {
+      fetcher.mockResolvedValue(`
+        <html><head><meta property="og:title" content="Gỏi cuốn">
+        <script type="application/ld+json">{ not json</script></head>
+        <body>
+          <h2>Nguyên liệu</h2><ul><li>200 g tôm</li><li>bánh tráng</li></ul>
+          <h2>Cách làm</h2><ol><li>Luộc tôm</li><li>Cuốn bánh</li></ol>
+        </body></html>`);
+
+      const result = await RecipeImporter.importRecipe({ url: 'https://example.vn/goi-cuon' });
+
+      expect(result.method).toBe('heuristic');
+      expect(result.draft.recipe_name).toBe('Gỏi cuốn');
+      expect(result.draft.recipe_ingredients).toEqual([
+        { name: 'tôm', quantity: '200', unit: 'g' },
+        { name: 'bánh tráng', quantity: '' }
+      ]);
+      expect(result.draft.recipe_instructions.map(step => step.description)).toEqual(['Luộc tôm', 'Cuốn bánh']);
+      expect(result.draft.source_type).toBe('import');
+    });
+  });
+
+  describe('pasted text', () => {
+    it('should split sections by heading and strip bullets and step numbers', async () => {
+      const result = await RecipeImporter.importRecipe({
+        text: 'Canh chua cá\nKhẩu phần: 4\n\nNguyên liệu:\n- 300 g cá lóc\n• me chua\n\nCách làm:\nBước 1: Nấu nước me\n2. Cho cá vào'
+      });
+
+      expect(fetcher).not.toHaveBeenCalled();
+      expect(result.method).toBe('heuristic');
+      expect(result.draft.recipe_name).toBe('Canh chua cá');
+      expect(result.draft.servings).toBe(4);
+      expect(result.draft.recipe_ingredients).toEqual([
+        { name: 'cá lóc', quantity: '300', unit: 'g' },
+        { name: 'me chua', quantity: '' }
+      ]);
+      expect(result.draft.recipe_instructions.map(step => step.description)).toEqual(['Nấu nước me', 'Cho cá vào']);
+      expect(result.draft.source_type).toBe('manual');
+      expect(result.draft.original_post_url).toBeUndefined();
+    });
+
+    it('should use bullets and numbering when there are no headings', async () => {
+      const result = await RecipeImporter.importRecipe({
+        text: 'Quick omelette\n- 2 eggs\n- salt\n1. Beat the eggs\n2) Fry for 1.5 minutes',
+        url: 'https://example.com/omelette'
+      });
+
+      expect(result.draft.recipe_ingredients.map(i => i.name)).toEqual(['eggs', 'salt']);
+      expect(result.draft.recipe_instructions.map(step => step.description)).toEqual(['Beat the eggs', 'Fry for 1.5 minutes']);
+      // The url is only recorded for attribution, never fetched
+      expect(fetcher).not.toHaveBeenCalled();
+      expect(result.draft.source_type).toBe('import');
+      expect(result.draft.source_id).toBe('https://example.com/omelette');
+    });
+  });
+
+  describe('errors', () => {
+    it('should require a url or text', async () => {
+      await expect(RecipeImporter.importRecipe({})).rejects.toMatchObject({ errorCode: 'missing_source' });
+      await expect(RecipeImporter.importRecipe({ text: '   ' })).rejects.toMatchObject({ errorCode: 'missing_source' });
+    });
+
+    it.each([
+      'not a url',
+      'ftp://example.com/recipe',
+      'http://localhost:3000/recipe',
+      'http://127.0.0.1/recipe',
+      'http://169.254.169.254/latest/meta-data',
+      'http://192.168.1.10/recipe',
+      'http://[::1]/recipe',
+      'http://[::ffff:127.0.0.1]/recipe',
+      'http://[::ffff:a9fe:a9fe]/latest/meta-data',
+      'http://100.64.0.1/recipe',
+      'http://[fd12::1]/recipe',
+      'http://2130706433/recipe'
+    ])('should refuse %s', async (url) => {
+      await expect(RecipeImporter.importRecipe({ url })).rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_url' });
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [['127.0.0.1']],
+      [['93.184.216.34', '10.0.0.5']]
+    ])('should refuse a host that resolves to %j', async (addresses) => {
+      RecipeImporter.setFetcher(null);
+      (lookup as unknown as jest.Mock).mockImplementation((_hostname, _options, callback) =>
+        callback(null, addresses.map(address => ({ address, family: 4 })))
+      );
+
+      await expect(RecipeImporter.importRecipe({ url: 'http://127.0.0.1.nip.io/recipe' }))
+        .rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_url' });
+      expect(lookup).toHaveBeenCalledWith('127.0.0.1.nip.io', expect.objectContaining({ all: true }), expect.any(Function));
+    });
+
+    it('should report pages that cannot be loaded', async () => {
+      fetcher.mockRejectedValue(new Error('ECONNRESET'));
+
+      await expect(RecipeImporter.importRecipe({ url: 'https://example.com/pho' }))
+        .rejects.toMatchObject({ statusCode: 422, errorCode: 'fetch_failed' });
+    });
+
+    it('should report pages without a recipe', async () => {
+      fetcher.mockResolvedValue('<html><body><h1>About us</h1><p>We love food.</p></body></html>');
+
+      await expect(RecipeImporter.importRecipe({ url: 'https://example.com/about' }))
+        .rejects.toMatchObject({ statusCode: 422, errorCode: 'recipe_not_found' });
+    });
+  });
+});
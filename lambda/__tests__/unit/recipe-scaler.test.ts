@@ -0,0 +1,98 @@
+/**
+ * Recipe Scaler Unit Tests
+ *
+ * Tests for rescaling ingredient quantities including:
+ * - Fractions, ranges and unicode fractions
+ * - Vietnamese count units and spoon measures
+ * - Metric and imperial conversion
+ */
+
+import {
+  scaleQuantity,
+  scaleIngredients,
+  getScaleFactor,
+  DEFAULT_SERVINGS
+} from '../../shared/business/ingredients/recipe-scaler';
+import { parseQuantityRange } from '../../shared/business/ingredients/unit-converter';
+
+describe('parseQuantityRange', () => {
+  it('should keep both ends of a range', () => {
+    expect(parseQuantityRange('2-3')).toEqual({ min: 2, max: 3 });
+    expect(parseQuantityRange('1/2 - 1')).toEqual({ min: 0.5, max: 1 });
+    expect(parseQuantityRange('500')).toEqual({ min: 500, max: 500 });
+  });
+
+  it('should parse unicode fractions', () => {
+    expect(parseQuantityRange('1½')).toEqual({ min: 1.5, max: 1.5 });
+    expect(parseQuantityRange('¼')).toEqual({ min: 0.25, max: 0.25 });
+  });
+
+  it('should reject non-numeric amounts and zero denominators', () => {
+    expect(parseQuantityRange('vừa đủ')).toBeNull();
+    expect(parseQuantityRange('1/0')).toBeNull();
+  });
+});
+
+describe('recipe-scaler', () => {
+  it('should default to the standard servings when a recipe has none', () => {
+    expect(getScaleFactor(undefined, 4)).toBe(4 / DEFAULT_SERVINGS);
+    expect(getScaleFactor(4, 6)).toBe(1.5);
+  });
+
+  it('should scale Vietnamese count units to the nearest half', () => {
+    expect(scaleQuantity('2', 'củ', 1.5)).toEqual({ quantity: '3', unit: 'củ' });
+    expect(scaleQuantity('3', 'quả', 0.5)).toEqual({ quantity: '1.5', unit: 'quả' });
+    expect(scaleQuantity('1', 'bó', 0.25)).toEqual({ quantity: '0.5', unit: 'bó' });
+  });
+
+  it('should scale spoon measures as fractions', () => {
+    expect(scaleQuantity('1', 'muỗng canh', 1.5)).toEqual({ quantity: '1 1/2', unit: 'muỗng canh' });
+    expect(scaleQuantity('1/2', 'muỗng cà phê', 2 / 3)).toEqual({ quantity: '1/3', unit: 'muỗng cà phê' });
+  });
+
+  it('should recognize Vietnamese and spelled-out unit names', () => {
+    expect(scaleQuantity('500', 'gam', 3)).toEqual({ quantity: '1.5', unit: 'kg' });
+    expect(scaleQuantity('1', 'teaspoon', 1.5)).toEqual({ quantity: '1 1/2', unit: 'teaspoon' });
+  });
+
+  it('should scale both ends of a range', () => {
+    expect(scaleQuantity('2-3', 'tép', 2)).toEqual({ quantity: '4-6', unit: 'tép' });
+  });
+
+  it('should switch to kg and l as metric amounts grow', () => {
+    expect(scaleQuantity('600', 'g', 2)).toEqual({ quantity: '1.2', unit: 'kg' });
+    expect(scaleQuantity('1', 'lít', 0.5)).toEqual({ quantity: '500', unit: 'ml' });
+  });
+
+  it('should split a unit written inside the quantity', () => {
+    expect(scaleQuantity('300g', undefined, 2)).toEqual({ quantity: '600', unit: 'g' });
+  });
+
+  it('should leave non-numeric amounts unchanged', () => {
+    expect(scaleQuantity('vừa đủ', undefined, 2)).toEqual({ quantity: 'vừa đủ', unit: undefined });
+  });
+
+  it('should convert to imperial units', () => {
+    expect(scaleQuantity('600', 'g', 1, 'imperial')).toEqual({ quantity: '1 1/3', unit: 'lb' });
+    expect(scaleQuantity('100', 'g', 1, 'imperial')).toEqual({ quantity: '3 1/2', unit: 'oz' });
+    expect(scaleQuantity('250', 'ml', 2, 'imperial')).toEqual({ quantity: '2', unit: 'cup' });
+    expect(scaleQuantity('2', 'củ', 1, 'imperial')).toEqual({ quantity: '2', unit: 'củ' });
+  });
+
+  it('should convert imperial amounts to metric', () => {
+    expect(scaleQuantity('2', 'cups', 1, 'metric')).toEqual({ quantity: '480', unit: 'ml' });
+    expect(scaleQuantity('1', 'lb', 1, 'metric')).toEqual({ quantity: '455', unit: 'g' });
+  });
+
+  it('should scale an ingredient list keeping other fields', () => {
+    const scaled = scaleIngredients([
+      { name: 'thịt ba chỉ', quantity: '300', unit: 'g', notes: 'thái mỏng' },
+      { name: 'muối', quantity: 'vừa đủ' }
+    ], 2);
+
+    expect(scaled).toEqual([
+      { name: 'thịt ba chỉ', quantity: '600', unit: 'g', notes: 'thái mỏng' },
+      { name: 'muối', quantity: 'vừa đủ', unit: undefined }
+    ]);
+  });
+});
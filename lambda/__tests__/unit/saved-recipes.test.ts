@@ -11,8 +11,10 @@
  */
 
 import { SavedRecipeService } from '../../saved-recipes/saved-recipe-service';
+import { PostsService } from '../../posts/posts-service';
 import { DynamoDBHelper } from '../../shared/database/dynamodb';
 import { AppError } from '../../shared/errors/responses';
+import { RecipeExportService } from '../../shared/business/recipe-export';
 import { generateUUID, formatTimestamp } from '../../shared/utils/utils';
 import { 
   mockSavedRecipe, 
@@ -190,6 +192,7 @@ describe('SavedRecipeService', () => {
         Items: [mockRecipeItem]
       });
       (DynamoDBHelper.update as jest.Mock).mockResolvedValue(undefined);
+      (DynamoDBHelper.putIfNotExists as jest.Mock).mockResolvedValue(true);
 
       const updates = {
         recipe_name: 'Updated Recipe Name',
@@ -224,6 +227,398 @@ describe('SavedRecipeService', () => {
     });
   });
 
+  describe('revisions', () => {
+    const mockRecipeItem = {
+      PK: `USER#${mockUserId}`,
+      SK: `SAVED_RECIPE#2025-01-15T10:00:00.000Z#${mockSavedId}`,
+      ...mockSavedRecipe,
+      saved_at: '2025-01-10T08:00:00.000Z',
+      revision_count: 2
+    };
+
+    const revisionItem = (revision: number, overrides: any = {}) => ({
+      PK: `USER#${mockUserId}`,
+      SK: `RECIPE_REVISION#${mockSavedId}#0000${revision}`,
+      saved_id: mockSavedId,
+      revision,
+      reason: revision === 1 ? 'saved' : 'edit',
+      created_at: '2025-01-12T08:00:00.000Z',
+      recipe_name: mockSavedRecipe.recipe_name,
+      recipe_ingredients: mockSavedRecipe.recipe_ingredients,
+      recipe_instructions: mockSavedRecipe.recipe_instructions,
+      ...overrides
+    });
+
+    beforeEach(() => {
+      (DynamoDBHelper.putIfNotExists as jest.Mock).mockResolvedValue(true);
+    });
+
+    it('should record revision 1 when a recipe is saved', async () => {
+      await SavedRecipeService.saveRecipe(mockUserId, {
+        recipe_name: 'Test Recipe',
+        recipe_ingredients: [{ name: 'ingredient1', quantity: '1', unit: 'cup' }],
+        recipe_instructions: [{ step_number: 1, description: 'Test step', duration_minutes: 5 }],
+        source_type: 'manual'
+      });
+
+      expect(DynamoDBHelper.putIfNotExists).toHaveBeenCalledWith(expect.objectContaining({
+        SK: 'RECIPE_REVISION#mock-uuid-123#00001',
+        entity_type: 'RECIPE_REVISION',
+        revision: 1,
+        reason: 'saved',
+        recipe_name: 'Test Recipe'
+      }));
+    });
+
+    it('should record a new revision when the content changes', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [mockRecipeItem] });
+
+      const ingredients = [...mockSavedRecipe.recipe_ingredients, { name: 'garlic', quantity: '2', unit: 'cloves' }];
+      await SavedRecipeService.updateRecipe(mockUserId, mockSavedId, { recipe_ingredients: ingredients });
+
+      expect(DynamoDBHelper.putIfNotExists).toHaveBeenCalledTimes(1);
+      expect(DynamoDBHelper.putIfNotExists).toHaveBeenCalledWith(expect.objectContaining({
+        SK: `RECIPE_REVISION#${mockSavedId}#00003`,
+        revision: 3,
+        reason: 'edit',
+        recipe_ingredients: ingredients,
+        recipe_name: mockSavedRecipe.recipe_name
+      }));
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        mockRecipeItem.PK,
+        mockRecipeItem.SK,
+        expect.stringContaining('revision_count = :revision'),
+        expect.objectContaining({ ':revision': 3 }),
+        undefined
+      );
+    });
+
+    it('should keep the original of a recipe saved before versioning', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [{ ...mockRecipeItem, revision_count: undefined }]
+      });
+
+      await SavedRecipeService.updateRecipe(mockUserId, mockSavedId, { recipe_name: 'Carbonara v2' });
+
+      expect(DynamoDBHelper.putIfNotExists).toHaveBeenCalledWith(expect.objectContaining({
+        revision: 1,
+        reason: 'saved',
+        created_at: '2025-01-10T08:00:00.000Z',
+        recipe_name: 'Classic Spaghetti Carbonara'
+      }));
+      expect(DynamoDBHelper.putIfNotExists).toHaveBeenCalledWith(expect.objectContaining({
+        revision: 2,
+        recipe_name: 'Carbonara v2'
+      }));
+    });
+
+    it('should not record a revision for notes-only updates', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [mockRecipeItem] });
+
+      await SavedRecipeService.updateRecipe(mockUserId, mockSavedId, { personal_notes: 'Less salt' });
+
+      expect(DynamoDBHelper.putIfNotExists).not.toHaveBeenCalled();
+      expect((DynamoDBHelper.update as jest.Mock).mock.calls[0][2]).not.toContain('revision_count');
+    });
+
+    it('should reject an edit that lost the race for its revision number', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [mockRecipeItem] });
+      (DynamoDBHelper.putIfNotExists as jest.Mock).mockResolvedValue(false);
+
+      await expect(SavedRecipeService.updateRecipe(mockUserId, mockSavedId, { recipe_name: 'Carbonara v3' }))
+        .rejects.toMatchObject({ statusCode: 409, errorCode: 'revision_conflict' });
+      expect(DynamoDBHelper.update).not.toHaveBeenCalled();
+    });
+
+    it('should restore a revision as a new revision', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockImplementation(async (params: any) =>
+        params.ExpressionAttributeValues[':sk'] === 'SAVED_RECIPE#'
+          ? { Items: [{ ...mockRecipeItem, recipe_name: 'Carbonara v2' }] }
+          : { Items: [revisionItem(2, { recipe_name: 'Carbonara v2' }), revisionItem(1)] }
+      );
+
+      await SavedRecipeService.restoreRevision(mockUserId, mockSavedId, 1);
+
+      expect(DynamoDBHelper.putIfNotExists).toHaveBeenCalledWith(expect.objectContaining({
+        revision: 3,
+        reason: 'restore',
+        restored_from: 1,
+        recipe_name: 'Classic Spaghetti Carbonara'
+      }));
+    });
+
+    it('should throw when the revision does not exist', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockImplementation(async (params: any) =>
+        params.ExpressionAttributeValues[':sk'] === 'SAVED_RECIPE#'
+          ? { Items: [mockRecipeItem] }
+          : { Items: [revisionItem(1)] }
+      );
+
+      await expect(SavedRecipeService.getRevision(mockUserId, mockSavedId, 7))
+        .rejects.toMatchObject({ statusCode: 404, errorCode: 'revision_not_found' });
+    });
+
+    it('should compare a revision with the current recipe', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockImplementation(async (params: any) =>
+        params.ExpressionAttributeValues[':sk'] === 'SAVED_RECIPE#'
+          ? { Items: [{ ...mockRecipeItem, recipe_name: 'Carbonara v2' }] }
+          : { Items: [revisionItem(1)] }
+      );
+
+      const result = await SavedRecipeService.compareVersions(mockUserId, mockSavedId, '1', 'current');
+
+      expect(result.diff.recipe_name).toEqual({ from: 'Classic Spaghetti Carbonara', to: 'Carbonara v2' });
+      expect(result.diff.has_changes).toBe(true);
+    });
+
+    it('should reject comparing with the source of a manual recipe', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [{ ...mockRecipeItem, source_type: 'manual', source_id: undefined }]
+      });
+
+      await expect(SavedRecipeService.compareVersions(mockUserId, mockSavedId, 'source', 'current'))
+        .rejects.toMatchObject({ statusCode: 400, errorCode: 'no_source_post' });
+    });
+  });
+
+  describe('scaleRecipe', () => {
+    it('should rescale ingredients from the recipe servings', () => {
+      const recipe = createMockSavedRecipe({
+        servings: 2,
+        recipe_ingredients: [
+          { name: 'thịt ba chỉ', quantity: '300', unit: 'g' },
+          { name: 'tỏi', quantity: '2-3', unit: 'tép' },
+          { name: 'muối', quantity: 'vừa đủ' }
+        ]
+      });
+
+      const result = SavedRecipeService.scaleRecipe(recipe, 4);
+
+      expect(result.recipe.servings).toBe(4);
+      expect(result.recipe.recipe_ingredients).toEqual([
+        { name: 'thịt ba chỉ', quantity: '600', unit: 'g' },
+        { name: 'tỏi', quantity: '4-6', unit: 'tép' },
+        { name: 'muối', quantity: 'vừa đủ', unit: undefined }
+      ]);
+      expect(result.scaling).toEqual({ base_servings: 2, servings: 4, factor: 2, units: undefined });
+      expect(recipe.recipe_ingredients[0].quantity).toBe('300');
+    });
+
+    it('should convert units when a unit system is given', () => {
+      const recipe = createMockSavedRecipe({
+        servings: 4,
+        recipe_ingredients: [{ name: 'sữa', quantity: '500', unit: 'ml' }]
+      });
+
+      const result = SavedRecipeService.scaleRecipe(recipe, 2, 'imperial');
+
+      expect(result.recipe.recipe_ingredients[0]).toEqual({ name: 'sữa', quantity: '1', unit: 'cup' });
+      expect(result.scaling.factor).toBe(0.5);
+    });
+  });
+
+  describe('analyzeNutrition', () => {
+    it('should attach per-serving nutrition and health goal checks', () => {
+      const recipe = createMockSavedRecipe({
+        servings: 2,
+        recipe_ingredients: [
+          { name: 'thịt ba chỉ', quantity: '300', unit: 'g' },
+          { name: 'muối', quantity: 'vừa đủ' }
+        ]
+      });
+
+      const result = SavedRecipeService.analyzeNutrition(recipe, ['weight_loss']);
+
+      expect(result.nutritional_info).toMatchObject({ calories: 777, source: 'computed', coverage: 1 });
+      expect(result.health_goal_checks).toEqual([
+        expect.objectContaining({ goal: 'weight_loss', met: false, value: 777, target: 500 })
+      ]);
+    });
+
+    it('should leave the recipe unchanged when ingredients are not in the nutrient table', () => {
+      const recipe = createMockSavedRecipe({
+        recipe_ingredients: [{ name: 'lá lốt', quantity: '1', unit: 'bó' }]
+      });
+
+      expect(SavedRecipeService.analyzeNutrition(recipe, ['weight_loss'])).toBe(recipe);
+    });
+  });
+
+  describe('forks', () => {
+    const ancestry = [
+      { post_id: 'root-post', user_id: 'root-author', username: 'root', recipe_name: 'Phở' },
+      { post_id: 'post-123', user_id: 'author-456', username: 'chef_user', recipe_name: 'Phở gà' }
+    ];
+    const postRequest = {
+      recipe_name: 'Phở gà',
+      recipe_ingredients: [{ name: 'gà', quantity: '500', unit: 'g' }],
+      recipe_instructions: [{ step_number: 1, description: 'Luộc gà', duration_minutes: 30 }],
+      source_type: 'post' as const,
+      source_id: 'post-123',
+      original_author_id: 'author-456',
+      original_author_username: 'chef_user'
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should link a recipe saved from a post to its lineage and credit the original author', async () => {
+      jest.spyOn(PostsService, 'getForkLineage').mockResolvedValue(ancestry);
+
+      const result = await SavedRecipeService.saveRecipe(mockUserId, postRequest);
+
+      expect(PostsService.getForkLineage).toHaveBeenCalledWith('post-123', mockUserId);
+      expect(result.forked_from_post_id).toBe('post-123');
+      expect(result.ancestry).toEqual(ancestry);
+      expect(result.original_author_id).toBe('root-author');
+      expect(result.original_author_username).toBe('root');
+    });
+
+    it('should save a plain copy when the source post is gone', async () => {
+      jest.spyOn(PostsService, 'getForkLineage')
+        .mockRejectedValue(new AppError(404, 'post_not_found', 'Post not found'));
+
+      const result = await SavedRecipeService.saveRecipe(mockUserId, postRequest);
+
+      expect(result.ancestry).toBeUndefined();
+      expect(result.original_author_id).toBe('author-456');
+    });
+
+    it('should refuse to save from a post the user cannot view', async () => {
+      jest.spyOn(PostsService, 'getForkLineage')
+        .mockRejectedValue(new AppError(403, 'access_denied', 'No access'));
+
+      await expect(SavedRecipeService.saveRecipe(mockUserId, postRequest))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(DynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+
+    it('should publish a saved fork as a post carrying its lineage', async () => {
+      const recipeItem = {
+        PK: `USER#${mockUserId}`,
+        SK: `SAVED_RECIPE#2025-01-15T10:00:00.000Z#${mockSavedId}`,
+        ...mockSavedRecipe,
+        ...postRequest,
+        saved_id: mockSavedId,
+        forked_from_post_id: 'post-123',
+        ancestry
+      };
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [recipeItem] });
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ username: 'me' });
+      const createPost = jest.spyOn(PostsService, 'createPost').mockResolvedValue({ post_id: 'new-post' } as any);
+
+      const post = await SavedRecipeService.shareRecipe(mockUserId, mockSavedId, {
+        caption: 'Less salt, more herbs',
+        visibility: 'friends'
+      });
+
+      expect(post.post_id).toBe('new-post');
+      expect(createPost).toHaveBeenCalledWith(
+        mockUserId,
+        expect.objectContaining({
+          content: 'Less salt, more herbs',
+          privacy: 'friends',
+          recipeData: {
+            title: 'Phở gà',
+            ingredients: [{ name: 'gà', amount: '500', unit: 'g' }],
+            instructions: [{ step: 1, description: 'Luộc gà', duration: 30 }],
+            servings: recipeItem.servings
+          }
+        }),
+        { ancestry }
+      );
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        recipeItem.PK,
+        recipeItem.SK,
+        expect.stringContaining('shared_as_post_id = :postId'),
+        expect.objectContaining({ ':postId': 'new-post' })
+      );
+    });
+
+    it('should not let a suspended user publish a recipe', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [{ ...mockSavedRecipe, PK: 'pk', SK: 'sk' }] });
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ is_suspended: true });
+      const createPost = jest.spyOn(PostsService, 'createPost');
+
+      await expect(SavedRecipeService.shareRecipe(mockUserId, mockSavedId, {}))
+        .rejects.toMatchObject({ statusCode: 403, errorCode: 'account_suspended' });
+      expect(createPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('export', () => {
+    const exportResult = { format: 'pdf' as const, filename: 'x.pdf', content_type: 'application/pdf', download_url: 'https://s3/x' };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should export a saved recipe with its attribution and the source post photos', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [{ ...mockSavedRecipe, is_modified: true }] });
+      jest.spyOn(PostsService, 'getPost').mockResolvedValue({ images: ['https://cdn/p.jpg'] } as any);
+      const exportRecipe = jest.spyOn(RecipeExportService, 'exportRecipe').mockResolvedValue(exportResult);
+
+      await SavedRecipeService.exportRecipe(mockUserId, mockSavedId, 'markdown');
+
+      expect(PostsService.getPost).toHaveBeenCalledWith('post-123', mockUserId);
+      expect(exportRecipe).toHaveBeenCalledWith(mockUserId, expect.objectContaining({
+        title: 'Classic Spaghetti Carbonara',
+        images: ['https://cdn/p.jpg'],
+        attribution: {
+          source_type: 'post',
+          source_id: 'post-123',
+          original_author_id: 'user-2',
+          original_author_username: 'testuser2',
+          original_post_url: 'https://awssmartcookingss.com/posts/post-123',
+          is_modified: true,
+          ancestry: undefined
+        }
+      }), 'markdown');
+    });
+
+    it('should still export when the source post is no longer visible', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [mockSavedRecipe] });
+      jest.spyOn(PostsService, 'getPost').mockRejectedValue(new AppError(404, 'post_not_found', 'Post not found'));
+      const exportRecipe = jest.spyOn(RecipeExportService, 'exportRecipe').mockResolvedValue(exportResult);
+
+      await SavedRecipeService.exportRecipe(mockUserId, mockSavedId, 'pdf');
+
+      expect(exportRecipe).toHaveBeenCalledWith(mockUserId, expect.objectContaining({ images: [] }), 'pdf');
+    });
+
+    it('should export a group as a cookbook in the order recipes were added', async () => {
+      const first = createMockSavedRecipe({ saved_id: 'a', recipe_name: 'Added first', source_type: 'manual', source_id: undefined });
+      const second = createMockSavedRecipe({ saved_id: 'b', recipe_name: 'Added second', source_type: 'manual', source_id: undefined });
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ group_id: mockGroupId, group_name: 'Món Tết' });
+      (DynamoDBHelper.query as jest.Mock)
+        .mockResolvedValueOnce({ Items: [
+          { saved_id: 'b', added_at: '2025-01-02T00:00:00.000Z' },
+          { saved_id: 'a', added_at: '2025-01-01T00:00:00.000Z' }
+        ] })
+        .mockResolvedValueOnce({ Items: [second, first] });
+      const exportCookbook = jest.spyOn(RecipeExportService, 'exportCookbook').mockResolvedValue(exportResult);
+
+      await SavedRecipeService.exportGroup(mockUserId, mockGroupId);
+
+      expect(exportCookbook).toHaveBeenCalledWith(mockUserId, 'Món Tết', [
+        expect.objectContaining({ title: 'Added first' }),
+        expect.objectContaining({ title: 'Added second' })
+      ]);
+    });
+
+    it('should refuse to export an empty or missing group', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValueOnce(undefined);
+      await expect(SavedRecipeService.exportGroup(mockUserId, mockGroupId))
+        .rejects.toMatchObject({ statusCode: 404, errorCode: 'group_not_found' });
+
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValueOnce({ group_id: mockGroupId, group_name: 'Empty' });
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [] });
+      await expect(SavedRecipeService.exportGroup(mockUserId, mockGroupId))
+        .rejects.toMatchObject({ statusCode: 400, errorCode: 'empty_group' });
+    });
+  });
+
   describe('toggleFavorite', () => {
     it('should toggle favorite status from false to true', async () => {
       const mockRecipeItem = {
@@ -284,7 +679,8 @@ describe('SavedRecipeService', () => {
       // Mock group items query
       (DynamoDBHelper.query as jest.Mock)
         .mockResolvedValueOnce({ Items: mockGroupItems })
-        .mockResolvedValueOnce({ Items: [mockRecipeItem] });
+        .mockResolvedValueOnce({ Items: [mockRecipeItem] })
+        .mockResolvedValueOnce({ Items: [] });
 
       (DynamoDBHelper.delete as jest.Mock).mockResolvedValue(undefined);
       (DynamoDBHelper.update as jest.Mock).mockResolvedValue(undefined);
@@ -121,6 +121,27 @@ describe('Search Handler - Unit Tests', () => {
       expect(body.message).toContain('Ingredients required');
     });
 
+    it('should return 400 for invalid mode', async () => {
+      // Arrange
+      const event = createAuthenticatedAPIGatewayEvent(
+        'GET',
+        '/v1/search/counts',
+        userId,
+        userEmail,
+        undefined,
+        undefined,
+        { ingredients: 'thit-ga', mode: 'fuzzy' }
+      );
+
+      // Act
+      const response = await callHandler(event);
+
+      // Assert
+      assertErrorResponse(response, 400);
+      const body = parseResponseBody(response);
+      expect(body.message).toContain('Invalid mode');
+    });
+
     it('should return 401 when user is not authenticated', async () => {
       // Arrange
       const event = createAuthenticatedAPIGatewayEvent(
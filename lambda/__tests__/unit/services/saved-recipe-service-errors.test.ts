@@ -298,6 +298,7 @@ describe('SavedRecipeService - Error Handling & Resilience', () => {
       mockDynamoDBHelper.query.mockResolvedValueOnce(createQueryResponse([
         { PK: 'USER#user-123', SK: 'SAVED_RECIPE#2023-01-01T00:00:00Z#recipe-1' }
       ]));
+      mockDynamoDBHelper.putIfNotExists.mockResolvedValue(true);
       mockDynamoDBHelper.update.mockRejectedValueOnce(
         new Error('Update failed')
       );
@@ -371,6 +372,7 @@ describe('SavedRecipeService - Error Handling & Resilience', () => {
       const results = await Promise.all(promises);
       expect(results).toHaveLength(5);
       expect(mockDynamoDBHelper.put).toHaveBeenCalledTimes(5);
+      expect(mockDynamoDBHelper.putIfNotExists).toHaveBeenCalledTimes(5); // Revision 1 of each
     });
 
     it('should handle partial failures in concurrent operations', async () => {
@@ -16,6 +16,7 @@
  */
 
 import { UserSearchService } from '../../../shared/auth/user-search-service';
+import { UserSearchIndex } from '../../../shared/auth/user-search-index';
 import { UsernameService } from '../../../shared/auth/username-service';
 import { DynamoDBHelper } from '../../../shared/database/dynamodb';
 import * as utils from '../../../shared/utils/utils';
@@ -35,12 +36,28 @@ const createQueryResponse = (items: any[] = []) => ({
   Count: items.length
 });
 
-const createScanResponse = (items: any[] = []) => ({
-  Items: items,
-  Count: items.length,
-  ScannedCount: items.length,
-  LastEvaluatedKey: undefined
-});
+// Search index (GSI2) items for profiles, one per token
+const createIndexResponse = (profiles: any[] = []) => createQueryResponse(
+  profiles.flatMap(profile => {
+    const tokens = UserSearchIndex.getTokens(profile);
+    return tokens.map(token => ({
+      ...profile,
+      PK: `USER#${profile.user_id}`,
+      SK: `SEARCH#${token}`,
+      GSI2PK: 'USER#SEARCH',
+      GSI2SK: `TOKEN#${token}#${profile.user_id}`,
+      token,
+      tokens
+    }));
+  })
+);
+
+// Serve index queries from the profiles and every other query empty
+const mockSearchIndex = (profiles: any[]) => {
+  mockDynamoDBHelper.query.mockImplementation(async (params: any) =>
+    (params.IndexName === 'GSI2' ? createIndexResponse(profiles) : createQueryResponse([])) as any
+  );
+};
 
 describe('User Services - Error Handling & Cognito Failures', () => {
   beforeEach(() => {
@@ -49,21 +66,21 @@ describe('User Services - Error Handling & Cognito Failures', () => {
   });
 
   describe('[Unit] UserSearchService - Search Failures', () => {
-    it('should handle DynamoDB scan failure during user search', async () => {
-      // Given: Scan fails
-      mockDynamoDBHelper.scan.mockRejectedValueOnce(
-        new Error('DynamoDB scan failed')
+    it('should handle DynamoDB query failure during user search', async () => {
+      // Given: Index query fails
+      mockDynamoDBHelper.query.mockRejectedValueOnce(
+        new Error('DynamoDB query failed')
       );
 
       // When/Then: Should throw error
       await expect(
         UserSearchService.searchUsers({ query: 'john' })
-      ).rejects.toThrow('DynamoDB scan failed');
+      ).rejects.toThrow('DynamoDB query failed');
     });
 
     it('should handle throttling during user search', async () => {
       // Given: DynamoDB throttles request
-      mockDynamoDBHelper.scan.mockRejectedValueOnce(
+      mockDynamoDBHelper.query.mockRejectedValueOnce(
         Object.assign(new Error('ProvisionedThroughputExceededException'), {
           code: 'ProvisionedThroughputExceededException'
         })
@@ -81,8 +98,8 @@ describe('User Services - Error Handling & Cognito Failures', () => {
       const results = await UserSearchService.searchUsers({ query: 'a' });
 
       // Then: Should return empty array without querying
-      expect(results).toEqual([]);
-      expect(mockDynamoDBHelper.scan).not.toHaveBeenCalled();
+      expect(results).toEqual({ users: [] });
+      expect(mockDynamoDBHelper.query).not.toHaveBeenCalled();
     });
 
     it('should return empty array for empty query', async () => {
@@ -91,64 +108,54 @@ describe('User Services - Error Handling & Cognito Failures', () => {
       const results = await UserSearchService.searchUsers({ query: '' });
 
       // Then: Should return empty array
-      expect(results).toEqual([]);
-      expect(mockDynamoDBHelper.scan).not.toHaveBeenCalled();
+      expect(results).toEqual({ users: [] });
+      expect(mockDynamoDBHelper.query).not.toHaveBeenCalled();
     });
 
-    it('should handle null response from scan', async () => {
-      // Given: Scan returns null
-      mockDynamoDBHelper.scan.mockResolvedValueOnce(null as any);
+    it('should handle null response from the index query', async () => {
+      // Given: Query returns null
+      mockDynamoDBHelper.query.mockResolvedValueOnce(null as any);
 
-      // When/Then: Should throw error
-      await expect(
-        UserSearchService.searchUsers({ query: 'john' })
-      ).rejects.toThrow();
+      // When: Searching users
+      const results = await UserSearchService.searchUsers({ query: 'john' });
+
+      // Then: Should return no users
+      expect(results.users).toEqual([]);
     });
 
-    it('should handle undefined Items in scan response', async () => {
-      // Given: Scan returns response without Items
-      mockDynamoDBHelper.scan.mockResolvedValueOnce({} as any);
+    it('should handle undefined Items in the index response', async () => {
+      // Given: Query returns response without Items
+      mockDynamoDBHelper.query.mockResolvedValueOnce({} as any);
 
       // When: Searching users
       const results = await UserSearchService.searchUsers({ query: 'john' });
 
       // Then: Should return empty array
-      expect(results).toEqual([]);
+      expect(results).toEqual({ users: [], next_cursor: undefined });
     });
 
     it('should handle malformed user data in search results', async () => {
-      // Given: Scan returns malformed data
-      const malformedData = [
-        { user_id: 'user-1', username: 'user1', SK: 'PROFILE' }, // Valid
-        { user_id: 'user-2', username: 'user2', SK: 'PROFILE' }, // Valid
-        { user_id: 'user-3', username: '', SK: 'PROFILE' } // Empty username
-      ];
-
-      mockDynamoDBHelper.scan.mockResolvedValueOnce(
-        createScanResponse(malformedData)
-      );
+      // Given: Index returns malformed data
+      mockDynamoDBHelper.query.mockResolvedValueOnce(createQueryResponse([
+        { user_id: 'user-1', username: 'user1', token: 'user1', tokens: ['user1'] }, // Valid
+        { user_id: 'user-2', username: 'user2', token: 'user2', tokens: ['user2'] }, // Valid
+        { user_id: 'user-3', username: '', token: 'user3' } // No username or tokens
+      ]) as any);
 
       // When: Searching users
       const results = await UserSearchService.searchUsers({ query: 'user' });
 
       // Then: Should filter and return valid results
-      expect(results).toBeDefined();
-      expect(Array.isArray(results)).toBe(true);
-      expect(results.length).toBeGreaterThanOrEqual(0);
+      expect(results.users.map(user => user.user_id).sort()).toEqual(['user-1', 'user-2']);
     });
   });
 
   describe('[Unit] UserSearchService - Friendship Status Enrichment Failures', () => {
     it('should handle failure when enriching with friendship status', async () => {
-      // Given: Search succeeds but friendship status fails
-      mockDynamoDBHelper.scan.mockResolvedValueOnce(createScanResponse([
-        {
-          user_id: 'user-1',
-          username: 'john_doe',
-          full_name: 'John Doe',
-          SK: 'PROFILE'
-        }
-      ]));
+      // Given: Search succeeds but the viewer has no friendship records
+      mockSearchIndex([
+        { user_id: 'user-1', username: 'john_doe', full_name: 'John Doe' }
+      ]);
       mockDynamoDBHelper.get.mockRejectedValueOnce(
         new Error('Failed to get friendship status')
       );
@@ -159,18 +166,18 @@ describe('User Services - Error Handling & Cognito Failures', () => {
         { query: 'john' }
       );
 
-      // Then: Should return users with 'none' status (graceful degradation)
-      expect(results).toHaveLength(1);
-      expect(results[0].friendship_status).toBe('none');
+      // Then: Should return users with 'none' status
+      expect(results.users).toHaveLength(1);
+      expect(results.users[0].friendship_status).toBe('none');
     });
 
     it('should handle partial failures in friendship status enrichment', async () => {
       // Given: Multiple users, some friendship checks fail
-      mockDynamoDBHelper.scan.mockResolvedValueOnce(createScanResponse([
-        { user_id: 'user-1', username: 'john_doe', full_name: 'John Doe', SK: 'PROFILE' },
-        { user_id: 'user-2', username: 'jane_smith', full_name: 'Jane Smith', SK: 'PROFILE' },
-        { user_id: 'user-3', username: 'jack_jones', full_name: 'Jack Jones', SK: 'PROFILE' }
-      ]));
+      mockSearchIndex([
+        { user_id: 'user-1', username: 'john_doe', full_name: 'John Doe' },
+        { user_id: 'user-2', username: 'jane_smith', full_name: 'Jane Smith' },
+        { user_id: 'user-3', username: 'jack_jones', full_name: 'Jack Jones' }
+      ]);
 
       let callCount = 0;
       mockDynamoDBHelper.get.mockImplementation(() => {
@@ -188,8 +195,8 @@ describe('User Services - Error Handling & Cognito Failures', () => {
       );
 
       // Then: Should handle gracefully (returns users that match query)
-      expect(results.length).toBeGreaterThanOrEqual(0);
-      results.forEach(user => {
+      expect(results.users.map(user => user.user_id).sort()).toEqual(['user-1', 'user-3']);
+      results.users.forEach(user => {
         expect(user.friendship_status).toBe('none');
       });
     });
@@ -463,9 +470,9 @@ describe('User Services - Error Handling & Cognito Failures', () => {
 
     it('should handle concurrent user searches', async () => {
       // Given: Multiple concurrent searches
-      mockDynamoDBHelper.scan.mockResolvedValue(createScanResponse([
-        { user_id: 'user-1', username: 'john', SK: 'PROFILE' }
-      ]));
+      mockSearchIndex([
+        { user_id: 'user-1', username: 'john' }
+      ]);
 
       // When: Searching concurrently
       const promises = Array(5).fill(null).map((_, i) =>
@@ -476,7 +483,7 @@ describe('User Services - Error Handling & Cognito Failures', () => {
       const results = await Promise.all(promises);
       expect(results).toHaveLength(5);
       results.forEach(result => {
-        expect(Array.isArray(result)).toBe(true);
+        expect(Array.isArray(result.users)).toBe(true);
       });
     });
 
@@ -535,7 +542,7 @@ describe('User Services - Error Handling & Cognito Failures', () => {
 
     it('should handle special characters in search query', async () => {
       // Given: Search with special characters
-      mockDynamoDBHelper.scan.mockResolvedValue(createScanResponse([]));
+      mockSearchIndex([]);
 
       // When: Searching with special characters
       const results = await UserSearchService.searchUsers({
@@ -544,13 +551,13 @@ describe('User Services - Error Handling & Cognito Failures', () => {
 
       // Then: Should handle gracefully
       expect(results).toBeDefined();
-      expect(Array.isArray(results)).toBe(true);
+      expect(Array.isArray(results.users)).toBe(true);
     });
 
     it('should handle extremely long search query', async () => {
       // Given: Very long query
       const longQuery = 'a'.repeat(10000);
-      mockDynamoDBHelper.scan.mockResolvedValue(createScanResponse([]));
+      mockSearchIndex([]);
 
       // When: Searching with long query
       const results = await UserSearchService.searchUsers({ query: longQuery });
@@ -572,9 +579,9 @@ describe('User Services - Error Handling & Cognito Failures', () => {
 
     it('should handle search with limit of 0', async () => {
       // Given: Limit of 0
-      mockDynamoDBHelper.scan.mockResolvedValue(createScanResponse([
-        { user_id: 'user-1', username: 'john', SK: 'PROFILE' }
-      ]));
+      mockSearchIndex([
+        { user_id: 'user-1', username: 'john' }
+      ]);
 
       // When: Searching with limit 0
       const results = await UserSearchService.searchUsers({
@@ -583,14 +590,14 @@ describe('User Services - Error Handling & Cognito Failures', () => {
       });
 
       // Then: Should return empty array
-      expect(results).toEqual([]);
+      expect(results).toEqual({ users: [] });
     });
 
     it('should handle negative limit in search', async () => {
       // Given: Negative limit
-      mockDynamoDBHelper.scan.mockResolvedValue(createScanResponse([
-        { user_id: 'user-1', username: 'john', SK: 'PROFILE' }
-      ]));
+      mockSearchIndex([
+        { user_id: 'user-1', username: 'john' }
+      ]);
 
       // When: Searching with negative limit
       const results = await UserSearchService.searchUsers({
@@ -598,9 +605,8 @@ describe('User Services - Error Handling & Cognito Failures', () => {
         limit: -5
       });
 
-      // Then: Should handle gracefully (slice with negative number)
-      expect(results).toBeDefined();
-      expect(Array.isArray(results)).toBe(true);
+      // Then: Should return no users
+      expect(results).toEqual({ users: [] });
     });
   });
 
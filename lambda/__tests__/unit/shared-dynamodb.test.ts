@@ -1,6 +1,7 @@
 import { DynamoDBHelper, ddb, TABLE_NAME } from '../../shared/database/dynamodb';
-import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand, DeleteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand, DeleteCommand, QueryCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
 import { mockClient } from 'aws-sdk-client-mock';
+import * as utils from '../../shared/utils/utils';
 
 const ddbMock = mockClient(DynamoDBDocumentClient);
 
@@ -53,6 +54,28 @@ describe('DynamoDB Helper', () => {
     });
   });
 
+  describe('putIfNotExists', () => {
+    it('should put the item on the condition that its key is new', async () => {
+      ddbMock.on(PutCommand).resolves({});
+
+      const written = await DynamoDBHelper.putIfNotExists({ PK: 'USER#123', SK: 'REVISION#2' });
+
+      expect(written).toBe(true);
+      expect((ddbMock.call(0).args[0] as any).input.ConditionExpression).toBe('attribute_not_exists(SK)');
+    });
+
+    it('should return false when the item exists', async () => {
+      const error = new Error('The conditional request failed');
+      error.name = 'ConditionalCheckFailedException';
+      ddbMock.on(PutCommand).rejects(error);
+
+      const written = await DynamoDBHelper.putIfNotExists({ PK: 'USER#123', SK: 'REVISION#2' });
+
+      expect(written).toBe(false);
+      expect(ddbMock.calls()).toHaveLength(1);
+    });
+  });
+
   describe('update', () => {
     it('should update item and return new attributes', async () => {
       const updatedItem = { PK: 'USER#123', SK: 'PROFILE', username: 'newname' };
@@ -142,6 +165,45 @@ describe('DynamoDB Helper', () => {
     });
   });
 
+  describe('batchWrite', () => {
+    const deletes = (count: number) => Array.from({ length: count }, (_, i) => ({
+      DeleteRequest: { Key: { PK: 'USER#123', SK: `ITEM#${i}` } }
+    }));
+
+    beforeEach(() => {
+      jest.spyOn(utils, 'delay').mockResolvedValue();
+    });
+
+    it('should split requests into batches of 25', async () => {
+      ddbMock.on(BatchWriteCommand).resolves({});
+
+      await DynamoDBHelper.batchWrite(deletes(60));
+
+      const sizes = ddbMock.calls().map(call => (call.args[0] as any).input.RequestItems[TABLE_NAME].length);
+      expect(sizes).toEqual([25, 25, 10]);
+    });
+
+    it('should resend unprocessed items', async () => {
+      const requests = deletes(3);
+      ddbMock.on(BatchWriteCommand)
+        .resolvesOnce({ UnprocessedItems: { [TABLE_NAME]: [requests[2]] } })
+        .resolves({});
+
+      await DynamoDBHelper.batchWrite(requests);
+
+      expect(ddbMock.calls()).toHaveLength(2);
+      expect((ddbMock.call(1).args[0] as any).input.RequestItems[TABLE_NAME]).toEqual([requests[2]]);
+    });
+
+    it('should fail when items stay unprocessed', async () => {
+      const requests = deletes(2);
+      ddbMock.on(BatchWriteCommand).resolves({ UnprocessedItems: { [TABLE_NAME]: requests } });
+
+      await expect(DynamoDBHelper.batchWrite(requests)).rejects.toThrow('left items unprocessed');
+      expect(ddbMock.calls()).toHaveLength(6);
+    });
+  });
+
   describe('getUserProfile', () => {
     it('should get user profile', async () => {
       const mockProfile = { PK: 'USER#123', SK: 'PROFILE', username: 'testuser' };
@@ -0,0 +1,297 @@
+/**
+ * Shopping List Service Unit Tests
+ *
+ * Tests for aggregated shopping lists including:
+ * - Quantity parsing and unit conversion (g/kg, ml/l, muỗng)
+ * - Merging duplicate ingredients across recipes
+ * - Subtracting what the user already has
+ * - Category grouping from the master ingredient table
+ * - Sharing with friends and check-off access
+ */
+
+import { ShoppingListService } from '../../shopping-lists/shopping-list-service';
+import { ShoppingList } from '../../shopping-lists/types';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+import { SavedRecipeService } from '../../saved-recipes/saved-recipe-service';
+import { PostsService } from '../../posts/posts-service';
+import { MealPlanService } from '../../meal-plans/meal-plan-service';
+import { IngredientParserHybrid } from '../../shared/business/ingredients/ingredient-parser-hybrid';
+import { checkFriendship } from '../../shared/auth/privacy-middleware';
+import { parseQuantity, toBaseUnit, toDisplayUnit } from '../../shared/business/ingredients/unit-converter';
+import { generateUUID, formatTimestamp } from '../../shared/utils/utils';
+import { createMockSavedRecipe } from '../test-utils/fixtures/recipe-fixtures';
+
+// Mock dependencies
+jest.mock('../../shared/database/dynamodb');
+jest.mock('../../saved-recipes/saved-recipe-service');
+jest.mock('../../posts/posts-service');
+jest.mock('../../meal-plans/meal-plan-service');
+jest.mock('../../shared/auth/privacy-middleware');
+jest.mock('../../shared/business/ingredients/ingredient-parser-ai');
+jest.mock('../../shared/utils/utils');
+
+describe('unit-converter', () => {
+  it('should parse fractions, decimals, ranges and "nửa"', () => {
+    expect(parseQuantity('500')).toBe(500);
+    expect(parseQuantity('0,5')).toBe(0.5);
+    expect(parseQuantity('1/2')).toBe(0.5);
+    expect(parseQuantity('1 1/2')).toBe(1.5);
+    expect(parseQuantity('2-3')).toBe(3);
+    expect(parseQuantity('nửa')).toBe(0.5);
+    expect(parseQuantity('vừa đủ')).toBeNull();
+  });
+
+  it('should convert to base units and back to readable units', () => {
+    expect(toBaseUnit(1.5, 'kg')).toEqual({ quantity: 1500, unit: 'g' });
+    expect(toBaseUnit(1, 'lít')).toEqual({ quantity: 1000, unit: 'ml' });
+    expect(toBaseUnit(2, 'thìa')).toEqual({ quantity: 2, unit: 'muỗng' });
+    expect(toBaseUnit(3, 'muỗng cà phê')).toEqual({ quantity: 1, unit: 'muỗng' });
+    expect(toBaseUnit(2, 'củ')).toEqual({ quantity: 2, unit: 'củ' });
+    expect(toDisplayUnit(1500, 'g')).toEqual({ quantity: 1.5, unit: 'kg' });
+    expect(toDisplayUnit(300, 'ml')).toEqual({ quantity: 300, unit: 'ml' });
+  });
+});
+
+describe('ShoppingListService', () => {
+  const mockUserId = 'user-123';
+  const friendId = 'friend-456';
+
+  function savedList(overrides: Partial<ShoppingList> = {}): ShoppingList {
+    return {
+      list_id: 'list-1',
+      owner_id: mockUserId,
+      name: 'Đi chợ',
+      sources: [],
+      items: [
+        { item_id: 'i1', name: 'thịt gà', category: 'protein', quantity: 500, unit: 'g', checked: false, recipes: ['Gà xào'] },
+        { item_id: 'i2', name: 'hành lá', category: 'herb', quantity: null, unit: null, checked: false, recipes: ['Gà xào'] }
+      ],
+      shared_with: [],
+      created_at: '2025-01-15T10:00:00.000Z',
+      updated_at: '2025-01-15T10:00:00.000Z',
+      ...overrides
+    };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (generateUUID as jest.Mock).mockReturnValue('uuid');
+    (formatTimestamp as jest.Mock).mockReturnValue('2025-01-15T10:00:00.000Z');
+    (DynamoDBHelper.get as jest.Mock).mockResolvedValue(undefined);
+    (DynamoDBHelper.put as jest.Mock).mockResolvedValue(undefined);
+    (DynamoDBHelper.update as jest.Mock).mockResolvedValue(undefined);
+    (DynamoDBHelper.delete as jest.Mock).mockResolvedValue(undefined);
+    (DynamoDBHelper.batchGet as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('mergeIngredients', () => {
+    it('should merge names across diacritics and sum quantities in a shared unit', () => {
+      const lines = ShoppingListService.mergeIngredients([
+        { name: 'Thịt gà', quantity: '500', unit: 'g', recipe_name: 'Gà xào' },
+        { name: 'thit ga', quantity: '1', unit: 'kg', recipe_name: 'Gà luộc' },
+        { name: 'nước mắm', quantity: '2', unit: 'muỗng canh', recipe_name: 'Gà xào' },
+        { name: 'nước mắm', quantity: '3', unit: 'thìa cà phê', recipe_name: 'Gà luộc' }
+      ]);
+
+      expect(lines).toEqual([
+        expect.objectContaining({ name: 'thịt gà', quantity: 1500, unit: 'g', recipes: ['Gà xào', 'Gà luộc'] }),
+        expect.objectContaining({ name: 'nước mắm', quantity: 3, unit: 'muỗng' })
+      ]);
+    });
+
+    it('should keep incompatible units on separate lines', () => {
+      const lines = ShoppingListService.mergeIngredients([
+        { name: 'hành tây', quantity: '2', unit: 'củ', recipe_name: 'A' },
+        { name: 'hành tây', quantity: '200', unit: 'g', recipe_name: 'B' }
+      ]);
+
+      expect(lines).toHaveLength(2);
+    });
+
+    it('should fold unmeasured amounts into an existing line', () => {
+      const lines = ShoppingListService.mergeIngredients([
+        { name: 'muối', quantity: 'vừa đủ', recipe_name: 'A' },
+        { name: 'muối', quantity: '1', unit: 'muỗng', recipe_name: 'B' },
+        { name: 'tiêu', quantity: 'ít', recipe_name: 'A' }
+      ]);
+
+      expect(lines).toEqual([
+        expect.objectContaining({ name: 'muối', quantity: 1, unit: 'muỗng', recipes: ['B', 'A'] }),
+        expect.objectContaining({ name: 'tiêu', quantity: null, unit: null })
+      ]);
+    });
+  });
+
+  describe('subtractOwned', () => {
+    const lines = ShoppingListService.mergeIngredients([
+      { name: 'thịt gà', quantity: '1', unit: 'kg', recipe_name: 'A' },
+      { name: 'nước mắm', quantity: '2', unit: 'muỗng', recipe_name: 'A' },
+      { name: 'trứng', quantity: '3', unit: 'quả', recipe_name: 'A' }
+    ]);
+
+    it('should subtract converted quantities and drop lines the user fully has', () => {
+      const remaining = ShoppingListService.subtractOwned(lines, [
+        { name: 'thịt gà', quantity: '300', unit: 'g' },
+        { name: 'nước mắm' },
+        { name: 'trứng', quantity: '5', unit: 'quả' }
+      ]);
+
+      expect(remaining).toEqual([expect.objectContaining({ name: 'thịt gà', quantity: 700, unit: 'g' })]);
+    });
+
+    it('should leave lines alone when the owned unit does not convert', () => {
+      const remaining = ShoppingListService.subtractOwned(lines, [{ name: 'trứng', quantity: '100', unit: 'g' }]);
+
+      expect(remaining.find(l => l.name === 'trứng')?.quantity).toBe(3);
+    });
+  });
+
+  describe('createShoppingList', () => {
+    it('should combine saved recipes, posts and the meal plan into a grouped list', async () => {
+      (SavedRecipeService.getSavedRecipes as jest.Mock).mockResolvedValue([
+        createMockSavedRecipe({
+          saved_id: 'saved-1',
+          recipe_name: 'Gà xào',
+          recipe_ingredients: [
+            { name: 'thịt gà', quantity: '600', unit: 'g' },
+            { name: 'hành lá', quantity: '2', unit: 'cây' }
+          ]
+        })
+      ]);
+      (PostsService.getPost as jest.Mock).mockResolvedValue({
+        postId: 'post-1',
+        recipeData: {
+          title: 'Gà nướng',
+          ingredients: [{ name: 'Thịt gà', amount: '0,5', unit: 'kg' }],
+          instructions: []
+        }
+      });
+      (MealPlanService.getMealPlan as jest.Mock).mockResolvedValue({
+        week_start: '2025-01-13',
+        days: [{ date: '2025-01-13', meals: { dinner: { recipe_name: 'Canh chua', recipe_ingredients: [{ name: 'cà chua', quantity: '2', unit: 'quả' }] } } }]
+      });
+      (DynamoDBHelper.batchGet as jest.Mock).mockResolvedValue([
+        { ingredient_id: 'hanh-la', category: 'herb' }
+      ]);
+
+      const list = await ShoppingListService.createShoppingList(mockUserId, {
+        saved_ids: ['saved-1'],
+        post_ids: ['post-1'],
+        meal_plan_week: '2025-01-13'
+      });
+
+      expect(PostsService.getPost).toHaveBeenCalledWith('post-1', mockUserId);
+      expect(list.sources).toEqual([
+        { source_type: 'saved_recipe', source_id: 'saved-1', name: 'Gà xào' },
+        { source_type: 'post', source_id: 'post-1', name: 'Gà nướng' },
+        { source_type: 'meal_plan', source_id: '2025-01-13', name: '2025-01-13' }
+      ]);
+      expect(list.items.map(i => [i.name, i.category, i.quantity, i.unit])).toEqual([
+        ['cà chua', 'vegetable', 2, 'quả'],
+        ['hành lá', 'herb', 2, 'cây'],
+        ['thịt gà', 'protein', 1.1, 'kg']
+      ]);
+      expect(list.name).toBe('Đi chợ tuần 2025-01-13');
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: 'SHOPPING_LIST#uuid',
+        SK: 'METADATA',
+        entity_type: 'SHOPPING_LIST'
+      }));
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${mockUserId}`,
+        SK: 'SHOPPING_LIST#uuid',
+        role: 'owner'
+      }));
+    });
+
+    it('should only send entries with amounts to the ingredient parser', async () => {
+      (SavedRecipeService.getSavedRecipes as jest.Mock).mockResolvedValue([
+        createMockSavedRecipe({
+          saved_id: 'saved-1',
+          recipe_ingredients: [
+            { name: 'thịt gà', quantity: '500', unit: 'g' },
+            { name: 'nước mắm', quantity: '2', unit: 'muỗng' }
+          ]
+        })
+      ]);
+      const parseSpy = jest.spyOn(IngredientParserHybrid, 'parseIngredients');
+
+      const list = await ShoppingListService.createShoppingList(mockUserId, {
+        saved_ids: ['saved-1'],
+        already_have: ['Nước mắm', '200g thịt gà']
+      });
+
+      expect(parseSpy).toHaveBeenCalledWith(['200g thịt gà']);
+      expect(list.items).toEqual([expect.objectContaining({ name: 'thịt gà', quantity: 300, unit: 'g' })]);
+    });
+
+    it('should reject an unknown saved recipe', async () => {
+      (SavedRecipeService.getSavedRecipes as jest.Mock).mockResolvedValue([]);
+
+      await expect(ShoppingListService.createShoppingList(mockUserId, { saved_ids: ['missing'] }))
+        .rejects.toThrow('Saved recipe missing not found');
+    });
+
+    it('should require at least one source', async () => {
+      await expect(ShoppingListService.createShoppingList(mockUserId, {}))
+        .rejects.toThrow('At least one saved recipe');
+    });
+  });
+
+  describe('access and sharing', () => {
+    it('should let a shared friend check off items in place', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(savedList({ shared_with: [friendId] }));
+
+      const item = await ShoppingListService.setItemChecked('list-1', 'i2', friendId, true);
+
+      expect(item).toMatchObject({ item_id: 'i2', checked: true, checked_by: friendId });
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'SHOPPING_LIST#list-1',
+        'METADATA',
+        expect.stringContaining('#items[1].#checked = :checked'),
+        expect.objectContaining({ ':checked': true, ':checked_by': friendId }),
+        expect.any(Object)
+      );
+    });
+
+    it('should hide lists from users they are not shared with', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(savedList());
+
+      await expect(ShoppingListService.getShoppingList('list-1', 'stranger'))
+        .rejects.toThrow('You do not have access to this shopping list');
+    });
+
+    it('should share with a friend and add the list to their lists', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(savedList());
+      (checkFriendship as jest.Mock).mockResolvedValue(true);
+
+      const list = await ShoppingListService.shareShoppingList('list-1', mockUserId, friendId);
+
+      expect(list.shared_with).toEqual([friendId]);
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${friendId}`,
+        SK: 'SHOPPING_LIST#list-1',
+        role: 'shared'
+      }));
+    });
+
+    it('should refuse to share with non-friends', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(savedList());
+      (checkFriendship as jest.Mock).mockResolvedValue(false);
+
+      await expect(ShoppingListService.shareShoppingList('list-1', mockUserId, 'stranger'))
+        .rejects.toThrow('Shopping lists can only be shared with friends');
+    });
+
+    it('should only let the owner delete', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(savedList({ shared_with: [friendId] }));
+
+      await expect(ShoppingListService.deleteShoppingList('list-1', friendId))
+        .rejects.toThrow('Only the owner can do this');
+
+      await ShoppingListService.deleteShoppingList('list-1', mockUserId);
+      expect(DynamoDBHelper.delete).toHaveBeenCalledWith(`USER#${friendId}`, 'SHOPPING_LIST#list-1');
+      expect(DynamoDBHelper.delete).toHaveBeenCalledWith('SHOPPING_LIST#list-1', 'METADATA');
+    });
+  });
+});
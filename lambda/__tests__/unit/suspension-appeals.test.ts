@@ -0,0 +1,168 @@
+import { SuspensionAppealService } from '../../shared/business/abuse/suspension-appeal-service';
+import { AbuseEmailService } from '../../shared/business/abuse/abuse-email-service';
+import { AdminService } from '../../admin/admin-service';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+
+jest.mock('../../shared/database/dynamodb');
+jest.mock('../../shared/business/abuse/abuse-email-service');
+
+const SUSPENSION_ID = '2026-10-19T08:00:00.000Z';
+const APPEAL_TEXT = 'My posts were flagged by mistake, they are all my own recipes.';
+
+const suspension = (overrides: Record<string, any> = {}) => ({
+  PK: 'USER#user-1',
+  SK: `SUSPENSION#${SUSPENSION_ID}`,
+  suspended_at: SUSPENSION_ID,
+  suspended_until: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+  suspension_reason: 'Tier 2: 15 violations',
+  suspended_by: 'system',
+  can_appeal: true,
+  ...overrides
+});
+
+const pendingAppeal = {
+  PK: 'USER#user-1',
+  SK: `APPEAL#${SUSPENSION_ID}`,
+  appeal_id: 'appeal-1',
+  user_id: 'user-1',
+  suspension_id: SUSPENSION_ID,
+  text: APPEAL_TEXT,
+  evidence_urls: [],
+  status: 'pending',
+  created_at: SUSPENSION_ID
+};
+
+// Serves get() from a map of SK -> item for user-1
+const mockItems = (items: Record<string, any>) => {
+  (DynamoDBHelper.get as jest.Mock).mockImplementation(async (_pk: string, sk: string) => items[sk]);
+};
+
+describe('Suspension appeals', () => {
+  describe('submitAppeal', () => {
+    it('should queue an appeal against an active suspension', async () => {
+      mockItems({ [`SUSPENSION#${SUSPENSION_ID}`]: suspension() });
+
+      const appeal = await SuspensionAppealService.submitAppeal('user-1', SUSPENSION_ID, {
+        text: APPEAL_TEXT,
+        evidence_urls: ['https://example.com/screenshot.png']
+      });
+
+      expect(appeal).toMatchObject({ status: 'pending', suspension_id: SUSPENSION_ID, evidence_urls: ['https://example.com/screenshot.png'] });
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: 'USER#user-1',
+        SK: `APPEAL#${SUSPENSION_ID}`,
+        GSI1PK: 'APPEALS#pending'
+      }));
+    });
+
+    it('should reject suspensions that cannot be appealed or have ended', async () => {
+      mockItems({ [`SUSPENSION#${SUSPENSION_ID}`]: suspension({ can_appeal: false }) });
+      await expect(SuspensionAppealService.submitAppeal('user-1', SUSPENSION_ID, { text: APPEAL_TEXT }))
+        .rejects.toMatchObject({ statusCode: 403, errorCode: 'appeal_not_allowed' });
+
+      mockItems({ [`SUSPENSION#${SUSPENSION_ID}`]: suspension({ suspended_until: '2026-01-01T00:00:00.000Z' }) });
+      await expect(SuspensionAppealService.submitAppeal('user-1', SUSPENSION_ID, { text: APPEAL_TEXT }))
+        .rejects.toMatchObject({ statusCode: 409, errorCode: 'suspension_ended' });
+
+      mockItems({});
+      await expect(SuspensionAppealService.submitAppeal('user-1', SUSPENSION_ID, { text: APPEAL_TEXT }))
+        .rejects.toMatchObject({ statusCode: 404, errorCode: 'suspension_not_found' });
+    });
+
+    it('should allow only one appeal per suspension', async () => {
+      mockItems({ [`SUSPENSION#${SUSPENSION_ID}`]: suspension(), [`APPEAL#${SUSPENSION_ID}`]: pendingAppeal });
+
+      await expect(SuspensionAppealService.submitAppeal('user-1', SUSPENSION_ID, { text: APPEAL_TEXT }))
+        .rejects.toMatchObject({ statusCode: 409, errorCode: 'appeal_exists' });
+      expect(DynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+
+    it('should validate the text and evidence links', async () => {
+      await expect(SuspensionAppealService.submitAppeal('user-1', SUSPENSION_ID, { text: 'too short' }))
+        .rejects.toMatchObject({ errorCode: 'invalid_text' });
+      await expect(SuspensionAppealService.submitAppeal('user-1', SUSPENSION_ID, { text: APPEAL_TEXT, evidence_urls: ['javascript:alert(1)'] }))
+        .rejects.toMatchObject({ errorCode: 'invalid_evidence' });
+    });
+  });
+
+  describe('getSuspensions', () => {
+    it('should attach each appeal to its suspension', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockImplementation(async (params: any) => ({
+        Items: params.ExpressionAttributeValues[':sk'] === 'SUSPENSION#'
+          ? [suspension(), suspension({ SK: 'SUSPENSION#2026-01-01T00:00:00.000Z', suspended_until: '2026-01-02T00:00:00.000Z' })]
+          : [pendingAppeal]
+      }));
+
+      const suspensions = await SuspensionAppealService.getSuspensions('user-1');
+
+      expect(suspensions).toHaveLength(2);
+      expect(suspensions[0]).toMatchObject({ suspension_id: SUSPENSION_ID, is_active: true, appeal: { status: 'pending' } });
+      expect(suspensions[1]).toMatchObject({ is_active: false });
+      expect(suspensions[1].appeal).toBeUndefined();
+    });
+  });
+
+  describe('AdminService', () => {
+    it('should approve an appeal, lift the suspension and email the user', async () => {
+      mockItems({
+        [`APPEAL#${SUSPENSION_ID}`]: pendingAppeal,
+        PROFILE: { PK: 'USER#user-1', is_suspended: true, suspended_at: SUSPENSION_ID },
+        ACTIVE_SUSPENSION: { suspended_at: SUSPENSION_ID }
+      });
+
+      const result = await AdminService.approveAppeal({ userId: 'user-1', suspensionId: SUSPENSION_ID, adminId: 'admin-1', notes: 'Verified' });
+
+      expect(result).toMatchObject({ status: 'approved', suspension_lifted: true });
+      expect(DynamoDBHelper.delete).toHaveBeenCalledWith('USER#user-1', 'ACTIVE_SUSPENSION');
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'USER#user-1',
+        'PROFILE',
+        expect.stringContaining('is_suspended = :false'),
+        expect.objectContaining({ ':active': 'active' })
+      );
+      expect(AbuseEmailService.sendReactivationEmail).toHaveBeenCalledWith('user-1', SUSPENSION_ID, 'Verified');
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        GSI1PK: 'ADMIN_ACTION_ALL',
+        action_type: 'approve_appeal',
+        target_id: 'user-1'
+      }));
+    });
+
+    it('should not lift a newer suspension when approving an old appeal', async () => {
+      mockItems({
+        [`APPEAL#${SUSPENSION_ID}`]: pendingAppeal,
+        PROFILE: { PK: 'USER#user-1', is_suspended: true, suspended_at: '2026-10-20T00:00:00.000Z' },
+        ACTIVE_SUSPENSION: { suspended_at: '2026-10-20T00:00:00.000Z' }
+      });
+
+      const result = await AdminService.approveAppeal({ userId: 'user-1', suspensionId: SUSPENSION_ID, adminId: 'admin-1' });
+
+      expect(result.suspension_lifted).toBe(false);
+      expect(DynamoDBHelper.delete).not.toHaveBeenCalled();
+      expect(AbuseEmailService.sendReactivationEmail).not.toHaveBeenCalled();
+    });
+
+    it('should deny an appeal and log the decision', async () => {
+      mockItems({ [`APPEAL#${SUSPENSION_ID}`]: pendingAppeal });
+
+      const result = await AdminService.denyAppeal({ userId: 'user-1', suspensionId: SUSPENSION_ID, adminId: 'admin-1', reason: 'Spam confirmed' });
+
+      expect(result).toMatchObject({ status: 'denied', suspension_lifted: false });
+      expect(DynamoDBHelper.update).toHaveBeenCalledWith(
+        'USER#user-1',
+        `APPEAL#${SUSPENSION_ID}`,
+        expect.any(String),
+        expect.objectContaining({ ':status': 'denied', ':pk': 'APPEALS#denied', ':note': 'Spam confirmed' }),
+        { '#status': 'status' }
+      );
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({ action_type: 'deny_appeal', reason: 'Spam confirmed' }));
+    });
+
+    it('should not review an appeal twice', async () => {
+      mockItems({ [`APPEAL#${SUSPENSION_ID}`]: { ...pendingAppeal, status: 'denied' } });
+
+      await expect(AdminService.approveAppeal({ userId: 'user-1', suspensionId: SUSPENSION_ID, adminId: 'admin-1' }))
+        .rejects.toMatchObject({ statusCode: 409, errorCode: 'appeal_already_reviewed' });
+    });
+  });
+});
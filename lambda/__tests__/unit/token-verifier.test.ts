@@ -0,0 +1,61 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { TokenVerifier } from '../../shared/auth/token-verifier';
+
+const options = { userPoolId: 'us-east-1_pool', clientId: 'client-1', region: 'us-east-1' };
+const issuer = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_pool';
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'RS256', use: 'sig' };
+
+function createToken(claims: Record<string, any>, key = privateKey): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid: 'key-1' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify({
+    sub: 'user-1',
+    iss: issuer,
+    aud: 'client-1',
+    token_use: 'id',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...claims
+  })).toString('base64url');
+  const signature = sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), key).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+describe('TokenVerifier', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ keys: [jwk] }) }) as any;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should return the claims of a valid ID token', async () => {
+    const claims = await TokenVerifier.verifyIdToken(createToken({}), options);
+
+    expect(claims.sub).toBe('user-1');
+    expect(global.fetch).toHaveBeenCalledWith(`${issuer}/.well-known/jwks.json`);
+  });
+
+  it('should reject tokens signed with another key', async () => {
+    const { privateKey: otherKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    await expect(TokenVerifier.verifyIdToken(createToken({}, otherKey), options))
+      .rejects.toMatchObject({ statusCode: 401, errorCode: 'invalid_token' });
+  });
+
+  it('should reject expired tokens and tokens for another client', async () => {
+    await expect(TokenVerifier.verifyIdToken(createToken({ exp: Math.floor(Date.now() / 1000) - 10 }), options))
+      .rejects.toMatchObject({ errorCode: 'token_expired' });
+    await expect(TokenVerifier.verifyIdToken(createToken({ aud: 'other-client' }), options))
+      .rejects.toMatchObject({ errorCode: 'invalid_token' });
+    await expect(TokenVerifier.verifyIdToken(createToken({ token_use: 'access' }), options))
+      .rejects.toMatchObject({ errorCode: 'invalid_token' });
+  });
+
+  it('should reject malformed tokens', async () => {
+    await expect(TokenVerifier.verifyIdToken('not-a-token', options))
+      .rejects.toMatchObject({ statusCode: 401 });
+  });
+});
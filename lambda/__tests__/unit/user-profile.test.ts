@@ -179,7 +179,7 @@ describe('User Profile Handler', () => {
         { user_id: 'user-1', username: 'user1', full_name: 'User One' }
       ];
 
-      (UserSearchService.searchUsersWithFriendshipStatus as jest.Mock).mockResolvedValue(mockResults);
+      (UserSearchService.searchUsersWithFriendshipStatus as jest.Mock).mockResolvedValue({ users: mockResults });
 
       const event = createAuthenticatedAPIGatewayEvent(
         'GET',
@@ -569,6 +569,39 @@ describe('User Profile Handler', () => {
     });
   });
 
+  describe('Suspension Appeals', () => {
+    it('should list own suspensions', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [] });
+
+      const event = createAuthenticatedAPIGatewayEvent('GET', '/v1/users/me/suspensions', mockUserId, mockEmail);
+      const response = await callHandler(event);
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data).toEqual({ suspensions: [], count: 0 });
+    });
+
+    it('should submit an appeal against a suspension', async () => {
+      const suspensionId = '2026-10-19T08:00:00.000Z';
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (_pk: string, sk: string) =>
+        sk === `SUSPENSION#${suspensionId}`
+          ? { suspended_until: new Date(Date.now() + 60 * 60 * 1000).toISOString(), can_appeal: true }
+          : undefined
+      );
+
+      const event = createAuthenticatedAPIGatewayEvent(
+        'POST',
+        `/v1/users/me/suspensions/${encodeURIComponent(suspensionId)}/appeal`,
+        mockUserId,
+        mockEmail,
+        { text: 'I was suspended for recipes I wrote myself.' }
+      );
+      const response = await callHandler(event);
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body).data.appeal).toMatchObject({ suspension_id: suspensionId, status: 'pending' });
+    });
+  });
+
   describe('Error Handling', () => {
     it('should return 405 for unsupported method', async () => {
       const event = createAuthenticatedAPIGatewayEvent(
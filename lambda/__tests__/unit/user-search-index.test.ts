@@ -0,0 +1,97 @@
+import { UserSearchIndex } from '../../shared/auth/user-search-index';
+import { DynamoDBHelper } from '../../shared/database/dynamodb';
+
+// Mock dependencies
+jest.mock('../../shared/database/dynamodb');
+
+describe('UserSearchIndex', () => {
+  const profile = { user_id: 'user-1', username: 'an_nguyen', full_name: 'Nguyễn Văn Đức', avatar_url: 'avatar.jpg' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getTokens', () => {
+    it('should index the username, its parts and diacritic-free name words', () => {
+      expect(UserSearchIndex.getTokens(profile).sort()).toEqual(
+        ['an', 'an_nguyen', 'duc', 'nguyen', 'van'].sort()
+      );
+    });
+  });
+
+  describe('indexUser', () => {
+    it('should write a token item per token and delete stale tokens', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [
+          { PK: 'USER#user-1', SK: 'SEARCH#van', token: 'van' },
+          { PK: 'USER#user-1', SK: 'SEARCH#old', token: 'old' }
+        ]
+      });
+
+      await UserSearchIndex.indexUser(profile);
+
+      const requests = (DynamoDBHelper.batchWrite as jest.Mock).mock.calls.flatMap(call => call[0]);
+      expect(requests).toContainEqual({ DeleteRequest: { Key: { PK: 'USER#user-1', SK: 'SEARCH#old' } } });
+      expect(requests.filter((request: any) => request.DeleteRequest)).toHaveLength(1);
+      expect(requests).toContainEqual({
+        PutRequest: {
+          Item: expect.objectContaining({
+            PK: 'USER#user-1',
+            SK: 'SEARCH#nguyen',
+            username: 'an_nguyen',
+            avatar_url: 'avatar.jpg',
+            GSI2PK: 'USER#SEARCH',
+            GSI2SK: 'TOKEN#nguyen#user-1'
+          })
+        }
+      });
+      expect(requests.filter((request: any) => request.PutRequest)).toHaveLength(5);
+    });
+
+    it('should not throw when indexing fails', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockRejectedValue(new Error('Query failed'));
+
+      await expect(UserSearchIndex.indexUser(profile)).resolves.toBeUndefined();
+      expect(DynamoDBHelper.batchWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findByPrefix', () => {
+    it('should query the index by token prefix', async () => {
+      const key = { PK: 'USER#user-1', SK: 'SEARCH#nguyen', GSI2PK: 'USER#SEARCH', GSI2SK: 'TOKEN#nguyen#user-1' };
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [{ ...profile, ...key, token: 'nguyen', tokens: ['nguyen', 'van'] }],
+        LastEvaluatedKey: key
+      });
+
+      const startKey = { PK: 'USER#user-0', SK: 'SEARCH#ngoc', GSI2PK: 'USER#SEARCH', GSI2SK: 'TOKEN#ngoc#user-0' };
+      const page = await UserSearchIndex.findByPrefix('ngu', 50, startKey);
+
+      expect(DynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI2',
+        ExpressionAttributeValues: { ':pk': 'USER#SEARCH', ':sk': 'TOKEN#ngu' },
+        Limit: 50,
+        ExclusiveStartKey: startKey
+      }));
+      expect(page.users[0]).toMatchObject({ user_id: 'user-1', token: 'nguyen', tokens: ['nguyen', 'van'], key });
+      expect(page.lastKey).toEqual(key);
+    });
+  });
+
+  describe('rebuild', () => {
+    it('should index every profile page by page', async () => {
+      (DynamoDBHelper.scan as jest.Mock)
+        .mockResolvedValueOnce({ Items: [profile], LastEvaluatedKey: { PK: 'USER#user-1', SK: 'PROFILE' } })
+        .mockResolvedValueOnce({ Items: [{ user_id: 'user-2', username: 'binh' }] });
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({ Items: [] });
+
+      const indexed = await UserSearchIndex.rebuild();
+
+      expect(indexed).toBe(2);
+      expect(DynamoDBHelper.scan).toHaveBeenCalledTimes(2);
+      expect(DynamoDBHelper.scan).toHaveBeenLastCalledWith(expect.objectContaining({
+        ExclusiveStartKey: { PK: 'USER#user-1', SK: 'PROFILE' }
+      }));
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { UserSearchService } from '../../shared/auth/user-search-service';
+import { UserSearchIndex } from '../../shared/auth/user-search-index';
 import { DynamoDBHelper } from '../../shared/database/dynamodb';
 
 // Mock dependencies
@@ -9,320 +10,398 @@ describe('UserSearchService', () => {
     jest.clearAllMocks();
   });
 
+  // Token index over a fixed set of profiles
+  const profiles = [
+    { user_id: 'user-1', username: 'johndoe', full_name: 'John Doe' },
+    { user_id: 'user-2', username: 'janedoe', full_name: 'Jane Doe' },
+    { user_id: 'user-3', username: 'an_nguyen', full_name: 'Nguyễn Văn An' },
+    { user_id: 'user-4', username: 'binhtran', full_name: 'Trần Văn Bình' },
+    { user_id: 'user-5', username: 'nguyenthi', full_name: 'Nguyễn Thị Hoa' }
+  ];
+
+  const indexItems = profiles
+    .flatMap(profile => {
+      const tokens = UserSearchIndex.getTokens(profile);
+      return tokens.map(token => {
+        const key = { PK: `USER#${profile.user_id}`, SK: `SEARCH#${token}`, GSI2PK: 'USER#SEARCH', GSI2SK: `TOKEN#${token}#${profile.user_id}` };
+        return { ...profile, token, tokens, key };
+      });
+    })
+    .sort((a, b) => (a.key.GSI2SK < b.key.GSI2SK ? -1 : 1));
+
+  // Pages through the index items like the GSI2 query does
+  const mockIndex = () => jest.spyOn(UserSearchIndex, 'findByPrefix').mockImplementation(async (prefix, limit, startKey) => {
+    const matching = indexItems.filter(item => item.key.GSI2SK.startsWith(`TOKEN#${prefix}`));
+    const start = startKey ? matching.findIndex(item => item.key.GSI2SK === startKey.GSI2SK) + 1 : 0;
+    const users = matching.slice(start, start + limit);
+    return { users, lastKey: start + limit < matching.length ? users[users.length - 1].key : undefined };
+  });
+
+  // FRIEND# records of the current user and of everyone else
+  const mockFriendships = (friendships: Record<string, { friend_id: string; status: string }[]>) => {
+    (DynamoDBHelper.query as jest.Mock).mockImplementation(async (params: any) => {
+      const id = params.ExpressionAttributeValues[':pk'].replace('USER#', '');
+      if (params.ExpressionAttributeValues[':sk'] !== 'FRIEND#') return { Items: [] };
+      const items = friendships[id] || [];
+      const status = params.ExpressionAttributeValues[':status'];
+      return { Items: status ? items.filter(item => item.status === status) : items };
+    });
+  };
+
   describe('searchUsers', () => {
-    it('should search users by username', async () => {
-      const mockUsers = [
-        {
-          user_id: 'user-1',
-          username: 'johndoe',
-          full_name: 'John Doe',
-          avatar_url: 'avatar1.jpg'
-        },
-        {
-          user_id: 'user-2',
-          username: 'janedoe',
-          full_name: 'Jane Doe',
-          avatar_url: 'avatar2.jpg'
-        }
-      ];
-
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: mockUsers,
-        Count: 2
+    beforeEach(() => {
+      mockIndex();
+    });
+
+    it('should search users by username prefix', async () => {
+      const results = await UserSearchService.searchUsers({
+        query: 'john',
+        limit: 20
       });
 
+      expect(results.users).toHaveLength(1);
+      expect(results.users[0].username).toBe('johndoe');
+      expect(results.users[0].friendship_status).toBe('none');
+    });
+
+    it('should search full names without diacritics', async () => {
       const results = await UserSearchService.searchUsers({
-        query: 'doe',
+        query: 'nguyen',
         limit: 20
       });
 
-      expect(results).toHaveLength(2);
-      expect(results[0].username).toBe('johndoe');
-      expect(results[0].friendship_status).toBe('none');
+      expect(results.users.map(user => user.user_id).sort()).toEqual(['user-3', 'user-5']);
     });
 
-    it('should search users by full name', async () => {
-      const mockUsers = [
-        {
-          user_id: 'user-1',
-          username: 'jsmith',
-          full_name: 'John Smith',
-          avatar_url: 'avatar1.jpg'
-        }
-      ];
-
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: mockUsers,
-        Count: 1
+    it('should require every query word to match', async () => {
+      const results = await UserSearchService.searchUsers({
+        query: 'Văn Bình',
+        limit: 20
       });
 
+      expect(results.users.map(user => user.user_id)).toEqual(['user-4']);
+    });
+
+    it('should tolerate typos', async () => {
       const results = await UserSearchService.searchUsers({
-        query: 'smith',
+        query: 'nguyne',
         limit: 20
       });
 
-      expect(results).toHaveLength(1);
-      expect(results[0].full_name).toBe('John Smith');
+      expect(UserSearchIndex.findByPrefix).toHaveBeenCalledWith('ng', expect.any(Number), undefined);
+      expect(results.users.map(user => user.user_id).sort()).toEqual(['user-3', 'user-5']);
     });
 
-    it('should return empty array for short query', async () => {
+    it('should rank exact matches above prefix matches', async () => {
       const results = await UserSearchService.searchUsers({
-        query: 'a',
+        query: 'an',
         limit: 20
       });
 
-      expect(results).toEqual([]);
-      expect(DynamoDBHelper.scan).not.toHaveBeenCalled();
+      expect(results.users[0].user_id).toBe('user-3');
     });
 
-    it('should exclude specified user', async () => {
-      const mockUsers = [
-        {
-          user_id: 'user-1',
-          username: 'johndoe',
-          full_name: 'John Doe'
-        },
-        {
-          user_id: 'user-2',
-          username: 'janedoe',
-          full_name: 'Jane Doe'
-        }
-      ];
-
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: mockUsers,
-        Count: 2
+    it('should return empty results for short query', async () => {
+      const results = await UserSearchService.searchUsers({
+        query: 'a',
+        limit: 20
       });
 
-      await UserSearchService.searchUsers({
+      expect(results.users).toEqual([]);
+      expect(UserSearchIndex.findByPrefix).not.toHaveBeenCalled();
+    });
+
+    it('should exclude specified user', async () => {
+      const results = await UserSearchService.searchUsers({
         query: 'doe',
         limit: 20,
         excludeUserId: 'user-1'
       });
 
-      expect(DynamoDBHelper.scan).toHaveBeenCalledWith(
-        expect.objectContaining({
-          FilterExpression: expect.stringContaining('user_id <> :excludeUserId'),
-          ExpressionAttributeValues: expect.objectContaining({
-            ':excludeUserId': 'user-1'
-          })
-        })
-      );
+      expect(results.users.map(user => user.user_id)).toEqual(['user-2']);
     });
 
-    it('should limit results', async () => {
-      const mockUsers = Array(50).fill(null).map((_, i) => ({
-        user_id: `user-${i}`,
-        username: `user${i}`,
-        full_name: `User ${i}`
-      }));
+    it('should paginate with a cursor', async () => {
+      const first = await UserSearchService.searchUsers({ query: 'van', limit: 1 });
 
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: mockUsers,
-        Count: 50
-      });
+      expect(first.users).toHaveLength(1);
+      expect(first.next_cursor).toBeDefined();
 
-      const results = await UserSearchService.searchUsers({
-        query: 'user',
-        limit: 10
-      });
+      const second = await UserSearchService.searchUsers({ query: 'van', limit: 1, cursor: first.next_cursor });
 
-      expect(results.length).toBeLessThanOrEqual(10);
+      expect(second.users).toHaveLength(1);
+      expect(second.users[0].user_id).not.toBe(first.users[0].user_id);
+      expect(second.next_cursor).toBeUndefined();
     });
 
-    it('should perform case-insensitive search', async () => {
-      const mockUsers = [
-        {
-          user_id: 'user-1',
-          username: 'JohnDoe',
-          full_name: 'John Doe'
-        }
-      ];
-
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: mockUsers,
-        Count: 1
-      });
+    it('should resume from the index key in the cursor', async () => {
+      const first = await UserSearchService.searchUsers({ query: 'nguyen', limit: 1 });
+      const second = await UserSearchService.searchUsers({ query: 'nguyen', limit: 1, cursor: first.next_cursor });
 
-      const results = await UserSearchService.searchUsers({
-        query: 'JOHN',
-        limit: 20
+      const cursor = JSON.parse(Buffer.from(first.next_cursor!, 'base64').toString());
+      expect(cursor).toEqual({ pass: 'prefix', key: expect.objectContaining({ GSI2PK: 'USER#SEARCH' }) });
+      expect(UserSearchIndex.findByPrefix).toHaveBeenLastCalledWith('nguyen', expect.any(Number), cursor.key);
+      expect([...first.users, ...second.users].map(user => user.user_id).sort()).toEqual(['user-3', 'user-5']);
+    });
+
+    it('should list a user with several matching tokens once', async () => {
+      // user-5 has both "nguyenthi" and "nguyen"
+      const results = await UserSearchService.searchUsers({ query: 'nguy', limit: 20 });
+
+      expect(results.users.map(user => user.user_id).sort()).toEqual(['user-3', 'user-5']);
+    });
+
+    it('should read past the first page of a broad prefix', async () => {
+      const many = Array.from({ length: 150 }, (_, i) => {
+        const id = `bulk-${String(i).padStart(3, '0')}`;
+        return {
+          user_id: id,
+          username: `an${id}`,
+          token: `an${id}`,
+          tokens: [`an${id}`, 'an', 'bulk'],
+          key: { PK: `USER#${id}`, SK: 'SEARCH#x', GSI2PK: 'USER#SEARCH', GSI2SK: `TOKEN#an${id}#${id}` }
+        };
+      });
+      (UserSearchIndex.findByPrefix as jest.Mock).mockImplementation(async (_prefix: string, limit: number, startKey?: any) => {
+        const start = startKey ? many.findIndex(item => item.key.GSI2SK === startKey.GSI2SK) + 1 : 0;
+        const users = many.slice(start, start + limit);
+        return { users, lastKey: start + limit < many.length ? users[users.length - 1].key : undefined };
       });
 
-      expect(results).toHaveLength(1);
+      let cursor: string | undefined;
+      const found: string[] = [];
+      do {
+        const page = await UserSearchService.searchUsers({ query: 'anbulk', limit: 40, cursor });
+        found.push(...page.users.map(user => user.user_id));
+        cursor = page.next_cursor;
+      } while (cursor);
+
+      expect(found).toHaveLength(150);
+      expect(new Set(found).size).toBe(150);
+    });
+
+    it('should reject an invalid cursor', async () => {
+      await expect(UserSearchService.searchUsers({
+        query: 'doe',
+        cursor: 'not-a-cursor'
+      })).rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_cursor' });
+
+      const foreignKey = Buffer.from(JSON.stringify({ pass: 'prefix', key: { PK: 'USER#x', SK: 'PROFILE' } })).toString('base64');
+      await expect(UserSearchService.searchUsers({
+        query: 'doe',
+        cursor: foreignKey
+      })).rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_cursor' });
     });
 
-    it('should handle scan errors', async () => {
-      (DynamoDBHelper.scan as jest.Mock).mockRejectedValue(new Error('Scan failed'));
+    it('should handle index errors', async () => {
+      (UserSearchIndex.findByPrefix as jest.Mock).mockRejectedValue(new Error('Query failed'));
 
       await expect(UserSearchService.searchUsers({
         query: 'test',
         limit: 20
-      })).rejects.toThrow('Scan failed');
+      })).rejects.toThrow('Query failed');
     });
 
     it('should handle empty results', async () => {
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: [],
-        Count: 0
-      });
-
       const results = await UserSearchService.searchUsers({
         query: 'nonexistent',
         limit: 20
       });
 
-      expect(results).toEqual([]);
+      expect(results.users).toEqual([]);
+      expect(results.next_cursor).toBeUndefined();
     });
   });
 
   describe('searchUsersWithFriendshipStatus', () => {
-    it('should enrich results with friendship status', async () => {
-      const mockUsers = [
-        {
-          user_id: 'user-1',
-          username: 'johndoe',
-          full_name: 'John Doe'
-        },
-        {
-          user_id: 'user-2',
-          username: 'janedoe',
-          full_name: 'Jane Doe'
-        }
-      ];
-
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: mockUsers,
-        Count: 2
-      });
+    beforeEach(() => {
+      mockIndex();
+    });
 
-      (DynamoDBHelper.get as jest.Mock)
-        .mockResolvedValueOnce({ status: 'accepted' }) // user-1 is friend
-        .mockResolvedValueOnce(null); // user-2 is not friend
+    it('should fill in friendship status and exclude the current user', async () => {
+      mockFriendships({
+        'user-2': [{ friend_id: 'user-1', status: 'pending' }]
+      });
 
       const results = await UserSearchService.searchUsersWithFriendshipStatus(
-        'current-user',
+        'user-2',
         { query: 'doe', limit: 20 }
       );
 
-      expect(results).toHaveLength(2);
-      expect(results[0].friendship_status).toBe('accepted');
-      expect(results[1].friendship_status).toBe('none');
+      expect(results.users).toHaveLength(1);
+      expect(results.users[0]).toMatchObject({ user_id: 'user-1', friendship_status: 'pending' });
     });
 
-    it('should exclude current user from results', async () => {
-      const mockUsers = [
-        {
-          user_id: 'user-1',
-          username: 'johndoe',
-          full_name: 'John Doe'
-        }
-      ];
-
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: mockUsers,
-        Count: 1
+    it('should rank friends first', async () => {
+      mockFriendships({
+        'user-4': [{ friend_id: 'user-5', status: 'accepted' }]
       });
 
-      (DynamoDBHelper.get as jest.Mock).mockResolvedValue(null);
-
-      await UserSearchService.searchUsersWithFriendshipStatus(
-        'current-user',
-        { query: 'doe', limit: 20 }
+      const results = await UserSearchService.searchUsersWithFriendshipStatus(
+        'user-4',
+        { query: 'nguyen', limit: 20 }
       );
 
-      expect(DynamoDBHelper.scan).toHaveBeenCalledWith(
-        expect.objectContaining({
-          ExpressionAttributeValues: expect.objectContaining({
-            ':excludeUserId': 'current-user'
-          })
-        })
-      );
+      expect(results.users[0]).toMatchObject({ user_id: 'user-5', friendship_status: 'accepted' });
     });
 
-    it('should handle pending friendship status', async () => {
-      const mockUsers = [
-        {
-          user_id: 'user-1',
-          username: 'johndoe',
-          full_name: 'John Doe'
-        }
-      ];
-
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: mockUsers,
-        Count: 1
+    it('should boost users with mutual friends', async () => {
+      mockFriendships({
+        'user-1': [{ friend_id: 'user-2', status: 'accepted' }],
+        'user-2': [{ friend_id: 'user-1', status: 'accepted' }, { friend_id: 'user-5', status: 'accepted' }],
+        'user-5': [{ friend_id: 'user-2', status: 'accepted' }]
       });
 
-      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'pending' });
-
       const results = await UserSearchService.searchUsersWithFriendshipStatus(
-        'current-user',
-        { query: 'doe', limit: 20 }
+        'user-1',
+        { query: 'nguyen', limit: 20 }
       );
 
-      expect(results[0].friendship_status).toBe('pending');
+      expect(results.users[0]).toMatchObject({ user_id: 'user-5', mutual_friends_count: 1 });
     });
 
-    it('should handle blocked friendship status', async () => {
-      const mockUsers = [
-        {
-          user_id: 'user-1',
-          username: 'johndoe',
-          full_name: 'John Doe'
-        }
-      ];
-
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: mockUsers,
-        Count: 1
+    it('should hide blocked users', async () => {
+      mockFriendships({
+        'user-2': [{ friend_id: 'user-1', status: 'blocked' }]
       });
 
-      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked' });
-
       const results = await UserSearchService.searchUsersWithFriendshipStatus(
-        'current-user',
+        'user-2',
         { query: 'doe', limit: 20 }
       );
 
-      expect(results[0].friendship_status).toBe('blocked');
+      expect(results.users).toEqual([]);
     });
+  });
 
-    it('should handle friendship status check errors', async () => {
-      const mockUsers = [
-        {
-          user_id: 'user-1',
-          username: 'johndoe',
-          full_name: 'John Doe'
-        }
-      ];
-
-      (DynamoDBHelper.scan as jest.Mock).mockResolvedValue({
-        Items: mockUsers,
-        Count: 1
+  describe('getSuggestedFriends', () => {
+    const friend = (friendId: string, status = 'accepted') => ({ friend_id: friendId, status });
+
+    // USER#<id> partition -> FRIEND# records
+    const friendships: Record<string, any[]> = {
+      me: [friend('alice'), friend('bob'), friend('pending-user', 'pending'), friend('blocked-user', 'blocked')],
+      alice: [friend('me'), friend('carol'), friend('dave'), friend('pending-user'), friend('blocked-user')],
+      bob: [friend('me'), friend('carol'), friend('erin')],
+      carol: [],
+      dave: [],
+      erin: []
+    };
+    const preferences: Record<string, string[]> = {
+      me: ['Vietnamese', 'Thai'],
+      erin: ['vietnamese'],
+      dave: ['Italian']
+    };
+
+    const mockTables = (privacy: Record<string, string> = {}, popular: any[] = []) => {
+      (DynamoDBHelper.query as jest.Mock).mockImplementation(async (params: any) => {
+        if (params.IndexName === 'GSI5') return { Items: popular };
+        const id = params.ExpressionAttributeValues[':pk'].replace('USER#', '');
+        if (params.ExpressionAttributeValues[':sk'] !== 'FRIEND#') return { Items: [] };
+        const items = friendships[id] || [];
+        const status = params.ExpressionAttributeValues[':status'];
+        return { Items: status ? items.filter(item => item.status === status) : items };
+      });
+      (DynamoDBHelper.get as jest.Mock).mockImplementation(async (pk: string) => {
+        const id = pk.replace('USER#', '');
+        return privacy[id] ? { friends_list_visibility: privacy[id] } : undefined;
       });
+      (DynamoDBHelper.getUserProfile as jest.Mock).mockImplementation(async (id: string) => ({
+        user_id: id,
+        username: id
+      }));
+      (DynamoDBHelper.getUserPreferences as jest.Mock).mockImplementation(async (id: string) =>
+        preferences[id] ? { favorite_cuisines: preferences[id] } : undefined
+      );
+      (DynamoDBHelper.getCookingHistory as jest.Mock).mockResolvedValue({ Items: [] });
+    };
 
-      (DynamoDBHelper.get as jest.Mock).mockRejectedValue(new Error('Get failed'));
+    it('should rank friends-of-friends by mutual friends', async () => {
+      mockTables();
 
-      const results = await UserSearchService.searchUsersWithFriendshipStatus(
-        'current-user',
-        { query: 'doe', limit: 20 }
-      );
+      const results = await UserSearchService.getSuggestedFriends('me', 10);
 
-      // Should default to 'none' on error
-      expect(results[0].friendship_status).toBe('none');
+      expect(results[0]).toMatchObject({ user_id: 'carol', mutual_friends_count: 2 });
+      expect(results.map(user => user.user_id)).toEqual(expect.arrayContaining(['carol', 'dave', 'erin']));
+      expect(results).toHaveLength(3);
     });
-  });
 
-  describe('getSuggestedFriends', () => {
-    it('should return empty array (not implemented)', async () => {
-      const results = await UserSearchService.getSuggestedFriends('user-123', 10);
-      expect(results).toEqual([]);
+    it('should exclude self, friends, pending and blocked users', async () => {
+      mockTables();
+
+      const results = await UserSearchService.getSuggestedFriends('me', 10);
+      const ids = results.map(user => user.user_id);
+
+      expect(ids).not.toContain('me');
+      expect(ids).not.toContain('alice');
+      expect(ids).not.toContain('pending-user');
+      expect(ids).not.toContain('blocked-user');
+    });
+
+    it('should boost users with overlapping favorite cuisines', async () => {
+      mockTables();
+
+      const results = await UserSearchService.getSuggestedFriends('me', 10);
+
+      // erin and dave share one friend each, erin also shares a cuisine
+      expect(results.map(user => user.user_id)).toEqual(['carol', 'erin', 'dave']);
+    });
+
+    it('should boost users who cooked the same recipes', async () => {
+      mockTables();
+      (DynamoDBHelper.getCookingHistory as jest.Mock).mockImplementation(async (id: string) => ({
+        Items: id === 'me' || id === 'dave' ? [{ recipe_id: 'r1' }, { recipe_id: 'r2' }, { recipe_id: 'r3' }] : []
+      }));
+
+      const results = await UserSearchService.getSuggestedFriends('me', 10);
+
+      expect(results[0].user_id).toBe('dave');
+    });
+
+    it('should not walk the friends list of a friend who keeps it private', async () => {
+      mockTables({ alice: 'private' });
+
+      const results = await UserSearchService.getSuggestedFriends('me', 10);
+
+      expect(results.map(user => user.user_id).sort()).toEqual(['carol', 'erin']);
+      expect(results.find(user => user.user_id === 'carol')?.mutual_friends_count).toBe(1);
+    });
+
+    it('should fill with popular users when there are few friends-of-friends', async () => {
+      mockTables({}, [
+        { user_id: 'star', username: 'star', friend_count: 99 },
+        { user_id: 'alice', username: 'alice', friend_count: 40 }
+      ]);
+
+      const results = await UserSearchService.getSuggestedFriends('me', 4);
+
+      expect(results).toHaveLength(4);
+      expect(results[3]).toMatchObject({ user_id: 'star', mutual_friends_count: 0 });
     });
   });
 
   describe('getPopularUsers', () => {
-    it('should return empty array (not implemented)', async () => {
+    it('should read the top of the friend count index', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [
+          { user_id: 'user-2', username: 'many', friend_count: 30 },
+          { user_id: 'user-3', username: 'some', friend_count: 10 }
+        ]
+      });
+
+      const results = await UserSearchService.getPopularUsers(2);
+
+      expect(results.map(user => user.username)).toEqual(['many', 'some']);
+      expect(DynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI5',
+        ExpressionAttributeValues: { ':pk': 'POPULAR_USERS', ':zero': 0 },
+        ScanIndexForward: false,
+        Limit: 2
+      }));
+    });
+
+    it('should return empty array when the query fails', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockRejectedValue(new Error('Query failed'));
+
       const results = await UserSearchService.getPopularUsers(10);
       expect(results).toEqual([]);
     });
@@ -0,0 +1,64 @@
+import { handler, WebSocketEvent } from '../../websocket/index';
+import { TokenVerifier } from '../../shared/auth/token-verifier';
+import { ConnectionRegistry, RealtimeService, LocalRealtimePublisher, RealtimeEvent } from '../../shared/realtime';
+import { NotificationService } from '../../shared/business/notifications/notification-service';
+import { AppError } from '../../shared/errors/responses';
+
+jest.mock('../../shared/auth/token-verifier');
+jest.mock('../../shared/realtime/connection-registry');
+jest.mock('../../shared/business/notifications/notification-service');
+
+function wsEvent(routeKey: string, overrides: Partial<WebSocketEvent> = {}): WebSocketEvent {
+  return {
+    requestContext: { routeKey, connectionId: 'conn-1', requestId: 'req-1' },
+    ...overrides
+  };
+}
+
+describe('WebSocket Handler', () => {
+  it('should register the connection for a valid token', async () => {
+    (TokenVerifier.verifyIdToken as jest.Mock).mockResolvedValue({ sub: 'user-1' });
+
+    const response = await handler(wsEvent('$connect', { queryStringParameters: { token: 'id-token' } }));
+
+    expect(response.statusCode).toBe(200);
+    expect(TokenVerifier.verifyIdToken).toHaveBeenCalledWith('id-token');
+    expect(ConnectionRegistry.register).toHaveBeenCalledWith('conn-1', 'user-1');
+  });
+
+  it('should reject connections without a valid token', async () => {
+    expect((await handler(wsEvent('$connect'))).statusCode).toBe(401);
+
+    (TokenVerifier.verifyIdToken as jest.Mock).mockRejectedValue(new AppError(401, 'token_expired', 'Token has expired'));
+    const response = await handler(wsEvent('$connect', { queryStringParameters: { token: 'expired' } }));
+
+    expect(response.statusCode).toBe(401);
+    expect(ConnectionRegistry.register).not.toHaveBeenCalled();
+  });
+
+  it('should unregister the connection on disconnect', async () => {
+    const response = await handler(wsEvent('$disconnect'));
+
+    expect(response.statusCode).toBe(200);
+    expect(ConnectionRegistry.unregister).toHaveBeenCalledWith('conn-1');
+  });
+
+  it('should reply to sync with the unread count', async () => {
+    const publisher = new LocalRealtimePublisher();
+    const received: RealtimeEvent[] = [];
+    publisher.connect('conn-1', event => received.push(event));
+    RealtimeService.setPublisher(publisher);
+    (ConnectionRegistry.getUserId as jest.Mock).mockResolvedValue('user-1');
+    (NotificationService.getUnreadCount as jest.Mock).mockResolvedValue(3);
+
+    const response = await handler(wsEvent('$default', { body: JSON.stringify({ action: 'sync' }) }));
+
+    expect(response.statusCode).toBe(200);
+    expect(received).toEqual([{ type: 'unread_count', unread_count: 3 }]);
+    RealtimeService.setPublisher(null);
+  });
+
+  it('should reject malformed messages', async () => {
+    expect((await handler(wsEvent('$default', { body: 'not json' }))).statusCode).toBe(400);
+  });
+});
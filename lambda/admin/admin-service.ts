@@ -4,7 +4,14 @@
  */
 
 import { DynamoDBHelper } from '../shared/database/dynamodb';
+import { UserSearchIndex } from '../shared/auth/user-search-index';
+import { FriendshipService } from '../friends/friendship-service';
 import { logger } from '../shared/monitoring/logger';
+import { AppError } from '../shared/errors/responses';
+import { SuspensionAppealService, SuspensionAppeal, AppealStatus } from '../shared/business/abuse/suspension-appeal-service';
+import { AbuseEmailService } from '../shared/business/abuse/abuse-email-service';
+import { ModerationService, ModerationReview, ReviewStatus, ModerationCaseService, ModerationCase, CaseStatus } from '../shared/business/moderation';
+import { PostsService } from '../posts/posts-service';
 import {
   DatabaseStats,
   IngredientStatsOptions,
@@ -23,14 +30,34 @@ import {
   ApproveBanResponse,
   RejectBanRequest,
   RejectBanResponse,
+  AppealQueueItem,
+  ApproveAppealRequest,
+  DenyAppealRequest,
+  ReviewAppealResponse,
+  HeldContentItem,
+  ReviewHeldContentRequest,
+  ReviewHeldContentResponse,
+  ReportCaseItem,
+  ReportCaseDetail,
+  UpdateReportCaseRequest,
+  UpdateReportCaseResponse,
+  BulkResolveReportCasesRequest,
+  BulkResolveReportCasesResponse,
   PendingRecipe,
   ApproveRecipeRequest,
   ApproveRecipeResponse,
   RejectRecipeRequest,
   RejectRecipeResponse,
-  AdminAction
+  AdminAction,
+  AuditLogFilters,
+  AuditLogPage
 } from './types';
 
+// Index pages read per audit log request when filters leave a page short
+const MAX_AUDIT_PAGES = 5;
+
+const MAX_AUDIT_LIMIT = 500;
+
 export class AdminService {
   private static tableName = process.env.TABLE_NAME || 'smart-cooking-data-dev';
 
@@ -373,6 +400,20 @@ export class AdminService {
 
   // ==================== USER MANAGEMENT ====================
 
+  /**
+   * Reindex every profile for user search. Returns the number of users indexed.
+   */
+  static async rebuildUserSearchIndex(): Promise<number> {
+    return UserSearchIndex.rebuild();
+  }
+
+  /**
+   * Recount every user's friends for popular-user ranking. Returns the number of users counted.
+   */
+  static async rebuildFriendCounts(): Promise<number> {
+    return FriendshipService.rebuildFriendCounts();
+  }
+
   static async getSuspendedUsers(limit: number = 50): Promise<SuspendedUser[]> {
     try {
       logger.info('Getting suspended users', { limit });
@@ -616,6 +657,316 @@ export class AdminService {
     }
   }
 
+  // ==================== SUSPENSION APPEALS ====================
+
+  static async getAppeals(status: AppealStatus = 'pending', limit: number = 50): Promise<AppealQueueItem[]> {
+    try {
+      logger.info('Getting suspension appeals', { status, limit });
+
+      const appeals = await SuspensionAppealService.listAppeals(status, limit);
+
+      // Attach usernames for the review queue
+      const profiles = await Promise.all(
+        Array.from(new Set(appeals.map(appeal => appeal.user_id)))
+          .map(userId => DynamoDBHelper.get(`USER#${userId}`, 'PROFILE'))
+      );
+      const usernames = new Map(
+        profiles.filter(Boolean).map((profile: any) => [profile.user_id || profile.PK.replace('USER#', ''), profile.username])
+      );
+
+      return appeals.map(appeal => ({ ...appeal, username: usernames.get(appeal.user_id) }));
+    } catch (error) {
+      logger.error('Error getting suspension appeals', { error, status });
+      throw error;
+    }
+  }
+
+  static async approveAppeal(request: ApproveAppealRequest): Promise<ReviewAppealResponse> {
+    try {
+      const { userId, suspensionId, adminId, notes } = request;
+
+      logger.info('Approving suspension appeal', { userId, suspensionId, adminId });
+
+      const appeal = await this.getPendingAppeal(userId, suspensionId);
+      await SuspensionAppealService.recordDecision(appeal, 'approved', adminId, notes);
+
+      const lifted = await SuspensionAppealService.liftSuspension(userId, suspensionId, adminId);
+      if (lifted) {
+        await AbuseEmailService.sendReactivationEmail(userId, suspensionId, notes);
+      }
+
+      // Log admin action
+      await this.logAdminAction({
+        admin_id: adminId,
+        action_type: 'approve_appeal',
+        target_type: 'user',
+        target_id: userId,
+        notes: `Appeal against suspension ${suspensionId} approved${notes ? `: ${notes}` : ''}`
+      });
+
+      logger.info('Suspension appeal approved', { userId, suspensionId, lifted });
+
+      return {
+        success: true,
+        user_id: userId,
+        suspension_id: suspensionId,
+        status: 'approved',
+        suspension_lifted: lifted,
+        message: lifted ? 'Appeal approved and suspension lifted' : 'Appeal approved; suspension had already ended'
+      };
+    } catch (error) {
+      logger.error('Error approving appeal', { error, request });
+      throw error;
+    }
+  }
+
+  static async denyAppeal(request: DenyAppealRequest): Promise<ReviewAppealResponse> {
+    try {
+      const { userId, suspensionId, adminId, reason } = request;
+
+      logger.info('Denying suspension appeal', { userId, suspensionId, adminId });
+
+      const appeal = await this.getPendingAppeal(userId, suspensionId);
+      await SuspensionAppealService.recordDecision(appeal, 'denied', adminId, reason);
+
+      // Log admin action
+      await this.logAdminAction({
+        admin_id: adminId,
+        action_type: 'deny_appeal',
+        target_type: 'user',
+        target_id: userId,
+        reason,
+        notes: `Appeal against suspension ${suspensionId} denied`
+      });
+
+      logger.info('Suspension appeal denied', { userId, suspensionId });
+
+      return {
+        success: true,
+        user_id: userId,
+        suspension_id: suspensionId,
+        status: 'denied',
+        suspension_lifted: false,
+        message: 'Appeal denied'
+      };
+    } catch (error) {
+      logger.error('Error denying appeal', { error, request });
+      throw error;
+    }
+  }
+
+  private static async getPendingAppeal(userId: string, suspensionId: string): Promise<SuspensionAppeal> {
+    const appeal = await SuspensionAppealService.getAppeal(userId, suspensionId);
+    if (!appeal) {
+      throw new AppError(404, 'appeal_not_found', 'Appeal not found');
+    }
+    if (appeal.status !== 'pending') {
+      throw new AppError(409, 'appeal_already_reviewed', `Appeal has already been ${appeal.status}`);
+    }
+    return appeal;
+  }
+
+  // ==================== HELD CONTENT ====================
+
+  static async getHeldContent(status: ReviewStatus = 'held', limit: number = 50): Promise<HeldContentItem[]> {
+    try {
+      logger.info('Getting held content', { status, limit });
+
+      const reviews = await ModerationService.listReviews(status, limit);
+      const usernames = await this.getUsernames(reviews.map(review => review.user_id));
+
+      return reviews.map(review => ({ ...review, username: usernames.get(review.user_id) }));
+    } catch (error) {
+      logger.error('Error getting held content', { error, status });
+      throw error;
+    }
+  }
+
+  /**
+   * Publish held content
+   */
+  static async approveHeldContent(request: ReviewHeldContentRequest): Promise<ReviewHeldContentResponse> {
+    return this.reviewHeldContent(request, 'approved');
+  }
+
+  /**
+   * Keep held content hidden for good; its author still sees it, marked as removed
+   */
+  static async rejectHeldContent(request: ReviewHeldContentRequest): Promise<ReviewHeldContentResponse> {
+    return this.reviewHeldContent(request, 'rejected');
+  }
+
+  private static async reviewHeldContent(
+    request: ReviewHeldContentRequest,
+    status: 'approved' | 'rejected'
+  ): Promise<ReviewHeldContentResponse> {
+    const { postId, contentType, contentId, adminId, notes } = request;
+
+    try {
+      logger.info('Reviewing held content', { postId, contentType, contentId, adminId, status });
+
+      const review = await this.getHeldReview(postId, contentType, contentId);
+      const found = await PostsService.applyModerationReview(review, status);
+      await ModerationService.resolveReview(review, status, adminId, notes);
+
+      await this.logAdminAction({
+        admin_id: adminId,
+        action_type: status === 'approved' ? 'approve_content' : 'reject_content',
+        target_type: contentType,
+        target_id: contentId,
+        target_user_id: review.user_id,
+        notes: `Held ${contentType} by ${review.user_id} ${status}${notes ? `: ${notes}` : ''}`
+      });
+
+      return {
+        success: true,
+        post_id: postId,
+        content_type: contentType,
+        content_id: contentId,
+        status,
+        content_found: found,
+        message: found
+          ? `${contentType === 'post' ? 'Post' : 'Comment'} ${status}`
+          : `${contentType === 'post' ? 'Post' : 'Comment'} was deleted by its author; review closed`
+      };
+    } catch (error) {
+      logger.error('Error reviewing held content', { error, request, status });
+      throw error;
+    }
+  }
+
+  private static async getHeldReview(postId: string, contentType: ModerationReview['content_type'], contentId: string): Promise<ModerationReview> {
+    const review = await ModerationService.getReview(postId, contentType, contentId);
+    if (!review) {
+      throw new AppError(404, 'review_not_found', 'Held content not found');
+    }
+    if (review.status !== 'held') {
+      throw new AppError(409, 'review_already_resolved', `Content has already been ${review.status}`);
+    }
+    return review;
+  }
+
+  // ==================== REPORT CASES ====================
+
+  static async getReportCases(status: CaseStatus = 'open', limit: number = 50): Promise<ReportCaseItem[]> {
+    try {
+      logger.info('Getting report cases', { status, limit });
+
+      const cases = await ModerationCaseService.listCases(status, limit);
+      const usernames = await this.getUsernames(cases.map(moderationCase => moderationCase.author_id));
+
+      return cases.map(moderationCase => ({ ...moderationCase, author_username: usernames.get(moderationCase.author_id) }));
+    } catch (error) {
+      logger.error('Error getting report cases', { error, status });
+      throw error;
+    }
+  }
+
+  /**
+   * A case with every report on its post
+   */
+  static async getReportCase(postId: string): Promise<ReportCaseDetail> {
+    const moderationCase = await this.getExistingCase(postId);
+    const [reports, usernames] = await Promise.all([
+      PostsService.getPostReports(postId),
+      this.getUsernames([moderationCase.author_id])
+    ]);
+
+    return { ...moderationCase, author_username: usernames.get(moderationCase.author_id), reports };
+  }
+
+  /**
+   * Move a case to another status and/or add a note to it
+   */
+  static async updateReportCase(request: UpdateReportCaseRequest): Promise<UpdateReportCaseResponse> {
+    const { postId, adminId, status, note } = request;
+
+    try {
+      logger.info('Updating report case', { postId, adminId, status });
+
+      const moderationCase = await this.getExistingCase(postId);
+
+      if (!status) {
+        if (!note) {
+          throw new AppError(400, 'bad_request', 'A status or a note is required');
+        }
+        return {
+          success: true,
+          case: await ModerationCaseService.addNote(moderationCase, adminId, note),
+          post_found: true,
+          message: 'Note added'
+        };
+      }
+
+      const updated = await ModerationCaseService.transition(moderationCase, status, adminId, note);
+      const found = await PostsService.applyReportCaseDecision(moderationCase, status, adminId, note);
+
+      await this.logAdminAction({
+        admin_id: adminId,
+        action_type: status === 'hidden' ? 'hide_post' : status === 'upheld' ? 'remove_post' : 'dismiss_report',
+        target_type: 'post',
+        target_id: postId,
+        target_user_id: moderationCase.author_id,
+        notes: `Report case (${moderationCase.report_count} reports) ${status}${note ? `: ${note}` : ''}`
+      });
+
+      return {
+        success: true,
+        case: updated,
+        post_found: found,
+        message: found ? `Case ${status}` : `Case ${status}; the post was already deleted`
+      };
+    } catch (error) {
+      logger.error('Error updating report case', { error, postId, status });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve many cases with the same decision. Each case is resolved on its own;
+   * ones that fail (e.g. already resolved) are listed instead of failing the batch.
+   */
+  static async bulkResolveReportCases(request: BulkResolveReportCasesRequest): Promise<BulkResolveReportCasesResponse> {
+    const { postIds, adminId, status, note } = request;
+    const resolved: string[] = [];
+    const failed: BulkResolveReportCasesResponse['failed'] = [];
+
+    for (const postId of Array.from(new Set(postIds))) {
+      try {
+        await this.updateReportCase({ postId, adminId, status, note });
+        resolved.push(postId);
+      } catch (error) {
+        failed.push({ post_id: postId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    logger.info('Report cases resolved in bulk', { adminId, status, resolved: resolved.length, failed: failed.length });
+
+    return {
+      success: failed.length === 0,
+      resolved,
+      failed,
+      message: `${resolved.length} case(s) ${status}${failed.length > 0 ? `, ${failed.length} failed` : ''}`
+    };
+  }
+
+  private static async getExistingCase(postId: string): Promise<ModerationCase> {
+    const moderationCase = await ModerationCaseService.getCase(postId);
+    if (!moderationCase) {
+      throw new AppError(404, 'case_not_found', 'Report case not found');
+    }
+    return moderationCase;
+  }
+
+  private static async getUsernames(userIds: string[]): Promise<Map<string, string>> {
+    const profiles = await Promise.all(
+      Array.from(new Set(userIds)).map(userId => DynamoDBHelper.get(`USER#${userId}`, 'PROFILE'))
+    );
+    return new Map(
+      profiles.filter(Boolean).map((profile: any) => [profile.user_id || profile.PK.replace('USER#', ''), profile.username])
+    );
+  }
+
   // ==================== RECIPE MANAGEMENT ====================
 
   static async getPendingRecipes(limit: number = 50): Promise<PendingRecipe[]> {
@@ -666,7 +1017,7 @@ export class AdminService {
       logger.info('Approving recipe', { recipeId, adminId });
 
       // Update recipe status
-      await DynamoDBHelper.update(
+      const recipe = await DynamoDBHelper.update(
         `RECIPE#${recipeId}`,
         'METADATA',
         `SET #status = :approved,
@@ -687,7 +1038,8 @@ export class AdminService {
         admin_id: adminId,
         action_type: 'approve_recipe',
         target_type: 'recipe',
-        target_id: recipeId
+        target_id: recipeId,
+        target_user_id: recipe?.user_id
       });
 
       logger.info('Recipe approved', { recipeId });
@@ -710,7 +1062,7 @@ export class AdminService {
       logger.info('Rejecting recipe', { recipeId, adminId, reason });
 
       // Update recipe status
-      await DynamoDBHelper.update(
+      const recipe = await DynamoDBHelper.update(
         `RECIPE#${recipeId}`,
         'METADATA',
         `SET #status = :rejected,
@@ -734,6 +1086,7 @@ export class AdminService {
         action_type: 'reject_recipe',
         target_type: 'recipe',
         target_id: recipeId,
+        target_user_id: recipe?.user_id,
         reason
       });
 
@@ -840,6 +1193,114 @@ export class AdminService {
     }
   }
 
+  // ==================== AUDIT LOG ====================
+
+  /**
+   * Logged admin actions, newest first, filtered by admin, action type, affected user and date range
+   */
+  static async getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogPage> {
+    const limit = Math.min(Math.max(filters.limit || 50, 1), MAX_AUDIT_LIMIT);
+    const from = filters.from ? this.parseAuditDate(filters.from, 'from') : undefined;
+    const to = filters.to ? this.parseAuditDate(filters.to, 'to') : undefined;
+
+    const keyConditions = ['GSI1PK = :pk'];
+    const values: Record<string, any> = { ':pk': 'ADMIN_ACTION_ALL' };
+    if (from && to) {
+      keyConditions.push('GSI1SK BETWEEN :from AND :to');
+      Object.assign(values, { ':from': from, ':to': to });
+    } else if (from) {
+      keyConditions.push('GSI1SK >= :from');
+      values[':from'] = from;
+    } else if (to) {
+      keyConditions.push('GSI1SK <= :to');
+      values[':to'] = to;
+    }
+
+    const filterConditions: string[] = [];
+    if (filters.adminId) {
+      filterConditions.push('admin_id = :adminId');
+      values[':adminId'] = filters.adminId;
+    }
+    if (filters.actionType) {
+      filterConditions.push('action_type = :actionType');
+      values[':actionType'] = filters.actionType;
+    }
+    if (filters.targetUserId) {
+      // Older entries only record the user as the target of user actions
+      filterConditions.push('(target_user_id = :targetUserId OR (target_type = :user AND target_id = :targetUserId))');
+      Object.assign(values, { ':targetUserId': filters.targetUserId, ':user': 'user' });
+    }
+
+    const items: any[] = [];
+    let startKey = this.decodeAuditCursor(filters.cursor);
+    let pages = 0;
+
+    do {
+      const result = await DynamoDBHelper.query({
+        IndexName: 'GSI1',
+        KeyConditionExpression: keyConditions.join(' AND '),
+        ...(filterConditions.length > 0 && { FilterExpression: filterConditions.join(' AND ') }),
+        ExpressionAttributeValues: values,
+        ScanIndexForward: false,
+        Limit: limit,
+        ExclusiveStartKey: startKey
+      });
+
+      items.push(...(result.Items || []));
+      startKey = result.LastEvaluatedKey;
+      pages++;
+    } while (items.length < limit && startKey && pages < MAX_AUDIT_PAGES);
+
+    // A full page continues after its last entry rather than where the last read stopped
+    const entries = items.slice(0, limit);
+    const last = entries[entries.length - 1];
+    const nextKey = items.length > limit
+      ? { PK: last.PK, SK: last.SK, GSI1PK: last.GSI1PK, GSI1SK: last.GSI1SK }
+      : startKey;
+
+    const usernames = await this.getUsernames(entries.map(item => item.admin_id));
+
+    return {
+      entries: entries.map(item => ({
+        action_id: item.action_id,
+        admin_id: item.admin_id,
+        admin_username: item.admin_username || usernames.get(item.admin_id),
+        action_type: item.action_type,
+        target_type: item.target_type,
+        target_id: item.target_id,
+        target_user_id: item.target_user_id || (item.target_type === 'user' ? item.target_id : undefined),
+        reason: item.reason,
+        notes: item.notes,
+        created_at: item.created_at
+      })),
+      next_cursor: nextKey ? Buffer.from(JSON.stringify(nextKey)).toString('base64') : undefined
+    };
+  }
+
+  /**
+   * Dates become index sort keys; a bare date as the upper bound covers that whole day
+   */
+  private static parseAuditDate(value: string, bound: 'from' | 'to'): string {
+    if (isNaN(Date.parse(value))) {
+      throw new AppError(400, 'invalid_date', `${bound} must be an ISO date or timestamp`);
+    }
+    const date = new Date(value);
+    if (bound === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    return date.toISOString();
+  }
+
+  private static decodeAuditCursor(cursor?: string): any {
+    if (!cursor) return undefined;
+
+    try {
+      return JSON.parse(Buffer.from(cursor, 'base64').toString('utf-8'));
+    } catch (error) {
+      throw new AppError(400, 'invalid_pagination_token', 'Invalid pagination token');
+    }
+  }
+
   private static async logAdminAction(action: Partial<AdminAction>): Promise<void> {
     try {
       const actionId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
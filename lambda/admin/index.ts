@@ -2,17 +2,45 @@
  * Admin Lambda Function
  * Handles admin dashboard operations, user management, and violation reports
  * 
- * Security: Requires admin role in Cognito token
+ * Security: Requires an admin role from Cognito groups (see shared/auth/admin-roles);
+ * each endpoint also checks the permission it needs
  */
 
 import { APIGatewayEvent, APIResponse } from '../shared/utils/types';
 import { successResponse, errorResponse, handleError } from '../shared/errors/responses';
 import { getUserIdFromEvent } from '../shared/utils/utils';
 import { AdminService } from './admin-service';
+import { APPEAL_STATUSES } from '../shared/business/abuse/suspension-appeal-service';
+import { REVIEW_STATUSES, ModerationContentType, CASE_STATUSES } from '../shared/business/moderation';
+import { ReportCaseDecision, ADMIN_ACTION_TYPES } from './types';
+import { resolveAdminRoles, hasAdminPermission, AdminPermission } from '../shared/auth/admin-roles';
 import { logger } from '../shared/monitoring/logger';
 import { metrics } from '../shared/monitoring/metrics';
 import { tracer } from '../shared/monitoring/tracer';
 
+/**
+ * Permission each endpoint requires, matched on the path without its /v1 prefix
+ */
+const ENDPOINT_PERMISSIONS: Array<{ methods: string[]; path: RegExp; permission: AdminPermission }> = [
+  { methods: ['GET'], path: /^\/admin\/stats(\/.*)?$/, permission: 'stats:read' },
+  { methods: ['GET'], path: /^\/admin\/violations(\/.*)?$/, permission: 'users:read' },
+  { methods: ['GET'], path: /^\/admin\/users\/suspended$/, permission: 'users:read' },
+  { methods: ['POST'], path: /^\/admin\/users\/(search-index|friend-counts)$/, permission: 'users:reindex' },
+  { methods: ['POST'], path: /^\/admin\/users\/[^/]+\/(ban|unban)$/, permission: 'users:suspend' },
+  { methods: ['PUT'], path: /^\/admin\/users\/[^/]+\/(approve-ban|reject-ban)$/, permission: 'users:suspend' },
+  { methods: ['GET', 'PUT'], path: /^\/admin\/appeals(\/.*)?$/, permission: 'appeals:review' },
+  { methods: ['GET', 'PUT'], path: /^\/admin\/moderation(\/.*)?$/, permission: 'content:moderate' },
+  { methods: ['GET', 'PUT'], path: /^\/admin\/reports(\/.*)?$/, permission: 'content:moderate' },
+  { methods: ['GET', 'PUT'], path: /^\/admin\/recipes(\/.*)?$/, permission: 'recipes:review' },
+  { methods: ['GET'], path: /^\/admin\/audit-log$/, permission: 'audit:read' }
+];
+
+function getRequiredPermission(method: string, path: string): AdminPermission | null {
+  const normalizedPath = path.replace(/^\/v1/, '').replace(/\/$/, '');
+  const endpoint = ENDPOINT_PERMISSIONS.find(entry => entry.methods.includes(method) && entry.path.test(normalizedPath));
+  return endpoint ? endpoint.permission : null;
+}
+
 export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
   const startTime = Date.now();
   
@@ -44,14 +72,20 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       allClaims: claims ? Object.keys(claims) : []
     });
     
-    // groups can be either an array or a string depending on how it's passed
-    const groupArray = Array.isArray(groups) ? groups : (groups ? [groups] : []);
+    const roles = resolveAdminRoles(groups);
     
-    if (!groupArray.includes('admin')) {
-      logger.warn('Unauthorized admin access attempt', { userId, path, groups, groupArray });
+    if (roles.length === 0) {
+      logger.warn('Unauthorized admin access attempt', { userId, path, groups });
       return errorResponse(403, 'forbidden', 'Admin access required');
     }
 
+    // Endpoints missing from the permission table are for super admins only
+    const permission = getRequiredPermission(method, path);
+    if (permission ? !hasAdminPermission(roles, permission) : !roles.includes('super_admin')) {
+      logger.warn('Admin role lacks permission', { userId, path, roles, permission });
+      return errorResponse(403, 'forbidden', `Your admin role does not allow this action${permission ? ` (${permission})` : ''}`);
+    }
+
     logger.info('Admin request received', {
       method,
       path,
@@ -102,6 +136,16 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await getSuspendedUsers(userId, event.queryStringParameters);
     }
 
+    // POST /admin/users/search-index - Rebuild the user search index
+    if (method === 'POST' && (path === '/admin/users/search-index' || path === '/v1/admin/users/search-index')) {
+      return await rebuildUserSearchIndex(userId);
+    }
+
+    // POST /admin/users/friend-counts - Recount friends for popular users
+    if (method === 'POST' && (path === '/admin/users/friend-counts' || path === '/v1/admin/users/friend-counts')) {
+      return await rebuildFriendCounts(userId);
+    }
+
     // POST /admin/users/{userId}/ban - Manual ban user
     if (method === 'POST' && (path.match(/\/admin\/users\/.+\/ban$/) || path.match(/\/v1\/admin\/users\/.+\/ban$/))) {
       const match = path.match(/\/(?:v1\/)?admin\/users\/([^/]+)\/ban$/);
@@ -130,6 +174,67 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await rejectBan(userId, targetUserId, event.body);
     }
 
+    // ==================== SUSPENSION APPEALS ====================
+
+    // GET /admin/appeals - Get appeal review queue
+    if (method === 'GET' && (path === '/admin/appeals' || path === '/v1/admin/appeals')) {
+      return await getAppeals(userId, event.queryStringParameters);
+    }
+
+    // PUT /admin/appeals/{userId}/{suspensionId}/approve - Approve appeal and lift suspension
+    // PUT /admin/appeals/{userId}/{suspensionId}/deny - Deny appeal
+    const appealMatch = path.match(/\/(?:v1\/)?admin\/appeals\/([^/]+)\/([^/]+)\/(approve|deny)$/);
+    if (method === 'PUT' && appealMatch) {
+      const [, targetUserId, suspensionId, decision] = appealMatch;
+      return decision === 'approve'
+        ? await approveAppeal(userId, targetUserId, decodeURIComponent(suspensionId), event.body)
+        : await denyAppeal(userId, targetUserId, decodeURIComponent(suspensionId), event.body);
+    }
+
+    // ==================== HELD CONTENT ====================
+
+    // GET /admin/moderation - Get posts and comments held by automated moderation
+    if (method === 'GET' && (path === '/admin/moderation' || path === '/v1/admin/moderation')) {
+      return await getHeldContent(userId, event.queryStringParameters);
+    }
+
+    // PUT /admin/moderation/{postId}/{post|comment}/{contentId}/approve - Publish held content
+    // PUT /admin/moderation/{postId}/{post|comment}/{contentId}/reject - Keep it hidden
+    const moderationMatch = path.match(/\/(?:v1\/)?admin\/moderation\/([^/]+)\/(post|comment)\/([^/]+)\/(approve|reject)$/);
+    if (method === 'PUT' && moderationMatch) {
+      const [, postId, contentType, contentId, decision] = moderationMatch;
+      return await reviewHeldContent(userId, postId, contentType as ModerationContentType, contentId, decision as 'approve' | 'reject', event.body);
+    }
+
+    // ==================== REPORT CASES ====================
+
+    // GET /admin/reports/cases - Get report cases by status
+    if (method === 'GET' && (path === '/admin/reports/cases' || path === '/v1/admin/reports/cases')) {
+      return await getReportCases(userId, event.queryStringParameters);
+    }
+
+    // PUT /admin/reports/cases - Resolve several cases at once
+    if (method === 'PUT' && (path === '/admin/reports/cases' || path === '/v1/admin/reports/cases')) {
+      return await bulkResolveReportCases(userId, event.body);
+    }
+
+    // GET /admin/reports/cases/{postId} - Get a case with its reports
+    // PUT /admin/reports/cases/{postId} - Change a case's status and/or add a note
+    const caseMatch = path.match(/\/(?:v1\/)?admin\/reports\/cases\/([^/]+)$/);
+    if (caseMatch && method === 'GET') {
+      return await getReportCase(userId, caseMatch[1]);
+    }
+    if (caseMatch && method === 'PUT') {
+      return await updateReportCase(userId, caseMatch[1], event.body);
+    }
+
+    // ==================== AUDIT LOG ====================
+
+    // GET /admin/audit-log - Browse logged admin actions
+    if (method === 'GET' && (path === '/admin/audit-log' || path === '/v1/admin/audit-log')) {
+      return await getAuditLog(userId, event.queryStringParameters);
+    }
+
     // ==================== RECIPES MANAGEMENT ====================
     
     // GET /admin/recipes/pending - Get pending recipes
@@ -311,6 +416,32 @@ async function getSuspendedUsers(
   }
 }
 
+async function rebuildUserSearchIndex(adminId: string): Promise<APIResponse> {
+  try {
+    const indexed = await AdminService.rebuildUserSearchIndex();
+
+    logger.info('User search index rebuilt by admin', { adminId, indexed });
+
+    return successResponse({ indexed });
+  } catch (error) {
+    logger.error('Error rebuilding user search index', { error, adminId });
+    return handleError(error);
+  }
+}
+
+async function rebuildFriendCounts(adminId: string): Promise<APIResponse> {
+  try {
+    const counted = await AdminService.rebuildFriendCounts();
+
+    logger.info('Friend counts rebuilt by admin', { adminId, counted });
+
+    return successResponse({ counted });
+  } catch (error) {
+    logger.error('Error rebuilding friend counts', { error, adminId });
+    return handleError(error);
+  }
+}
+
 async function banUser(
   adminId: string,
   targetUserId: string,
@@ -438,6 +569,281 @@ async function rejectBan(
   }
 }
 
+// ==================== SUSPENSION APPEAL HANDLERS ====================
+
+async function getAppeals(
+  adminId: string,
+  params: any
+): Promise<APIResponse> {
+  try {
+    const status = params?.status || 'pending';
+    const limit = parseInt(params?.limit || '50');
+
+    if (!APPEAL_STATUSES.includes(status)) {
+      return errorResponse(400, 'bad_request', `status must be one of: ${APPEAL_STATUSES.join(', ')}`);
+    }
+
+    const appeals = await AdminService.getAppeals(status, limit);
+
+    logger.info('Suspension appeals retrieved', {
+      adminId,
+      status,
+      count: appeals.length
+    });
+
+    return successResponse({ appeals });
+  } catch (error) {
+    logger.error('Error getting appeals', { error, adminId });
+    return handleError(error);
+  }
+}
+
+async function approveAppeal(
+  adminId: string,
+  targetUserId: string,
+  suspensionId: string,
+  body: string | null
+): Promise<APIResponse> {
+  try {
+    const notes = body ? JSON.parse(body).notes : '';
+
+    const result = await AdminService.approveAppeal({
+      userId: targetUserId,
+      suspensionId,
+      adminId,
+      notes
+    });
+
+    logger.info('Appeal approved by admin', {
+      adminId,
+      targetUserId,
+      suspensionId
+    });
+
+    return successResponse(result);
+  } catch (error) {
+    logger.error('Error approving appeal', { error, adminId, targetUserId, suspensionId });
+    return handleError(error);
+  }
+}
+
+async function denyAppeal(
+  adminId: string,
+  targetUserId: string,
+  suspensionId: string,
+  body: string | null
+): Promise<APIResponse> {
+  try {
+    if (!body) {
+      return errorResponse(400, 'bad_request', 'Request body required');
+    }
+
+    const { reason } = JSON.parse(body);
+
+    if (!reason) {
+      return errorResponse(400, 'bad_request', 'Denial reason is required');
+    }
+
+    const result = await AdminService.denyAppeal({
+      userId: targetUserId,
+      suspensionId,
+      adminId,
+      reason
+    });
+
+    logger.info('Appeal denied by admin', {
+      adminId,
+      targetUserId,
+      suspensionId,
+      reason
+    });
+
+    return successResponse(result);
+  } catch (error) {
+    logger.error('Error denying appeal', { error, adminId, targetUserId, suspensionId });
+    return handleError(error);
+  }
+}
+
+// ==================== HELD CONTENT HANDLERS ====================
+
+async function getHeldContent(
+  adminId: string,
+  params: any
+): Promise<APIResponse> {
+  try {
+    const status = params?.status || 'held';
+    const limit = parseInt(params?.limit || '50');
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return errorResponse(400, 'bad_request', `status must be one of: ${REVIEW_STATUSES.join(', ')}`);
+    }
+
+    const items = await AdminService.getHeldContent(status, limit);
+
+    logger.info('Held content retrieved', {
+      adminId,
+      status,
+      count: items.length
+    });
+
+    return successResponse({ items });
+  } catch (error) {
+    logger.error('Error getting held content', { error, adminId });
+    return handleError(error);
+  }
+}
+
+async function reviewHeldContent(
+  adminId: string,
+  postId: string,
+  contentType: ModerationContentType,
+  contentId: string,
+  decision: 'approve' | 'reject',
+  body: string | null
+): Promise<APIResponse> {
+  try {
+    const notes = body ? JSON.parse(body).notes : undefined;
+    const request = { postId, contentType, contentId, adminId, notes };
+
+    const result = decision === 'approve'
+      ? await AdminService.approveHeldContent(request)
+      : await AdminService.rejectHeldContent(request);
+
+    logger.info('Held content reviewed by admin', {
+      adminId,
+      postId,
+      contentType,
+      contentId,
+      decision
+    });
+
+    return successResponse(result);
+  } catch (error) {
+    logger.error('Error reviewing held content', { error, adminId, postId, contentType, contentId });
+    return handleError(error);
+  }
+}
+
+// ==================== REPORT CASE HANDLERS ====================
+
+const CASE_DECISIONS: ReportCaseDecision[] = ['hidden', 'upheld', 'dismissed'];
+
+const MAX_BULK_CASES = 50;
+
+async function getReportCases(
+  adminId: string,
+  params: any
+): Promise<APIResponse> {
+  try {
+    const status = params?.status || 'open';
+    const limit = parseInt(params?.limit || '50');
+
+    if (!CASE_STATUSES.includes(status)) {
+      return errorResponse(400, 'bad_request', `status must be one of: ${CASE_STATUSES.join(', ')}`);
+    }
+
+    const cases = await AdminService.getReportCases(status, limit);
+
+    logger.info('Report cases retrieved', {
+      adminId,
+      status,
+      count: cases.length
+    });
+
+    return successResponse({ cases });
+  } catch (error) {
+    logger.error('Error getting report cases', { error, adminId });
+    return handleError(error);
+  }
+}
+
+async function getReportCase(adminId: string, postId: string): Promise<APIResponse> {
+  try {
+    const reportCase = await AdminService.getReportCase(postId);
+
+    return successResponse({ case: reportCase });
+  } catch (error) {
+    logger.error('Error getting report case', { error, adminId, postId });
+    return handleError(error);
+  }
+}
+
+async function updateReportCase(
+  adminId: string,
+  postId: string,
+  body: string | null
+): Promise<APIResponse> {
+  try {
+    const { status, note } = body ? JSON.parse(body) : {} as any;
+
+    if (status !== undefined && !CASE_DECISIONS.includes(status)) {
+      return errorResponse(400, 'bad_request', `status must be one of: ${CASE_DECISIONS.join(', ')}`);
+    }
+
+    const result = await AdminService.updateReportCase({ postId, adminId, status, note });
+
+    logger.info('Report case updated by admin', { adminId, postId, status });
+
+    return successResponse(result);
+  } catch (error) {
+    logger.error('Error updating report case', { error, adminId, postId });
+    return handleError(error);
+  }
+}
+
+async function bulkResolveReportCases(adminId: string, body: string | null): Promise<APIResponse> {
+  try {
+    if (!body) {
+      return errorResponse(400, 'bad_request', 'Request body is required');
+    }
+
+    const { post_ids, status, note } = JSON.parse(body);
+
+    if (!Array.isArray(post_ids) || post_ids.length === 0 || post_ids.length > MAX_BULK_CASES) {
+      return errorResponse(400, 'bad_request', `post_ids must list 1 to ${MAX_BULK_CASES} posts`);
+    }
+    if (status !== 'upheld' && status !== 'dismissed') {
+      return errorResponse(400, 'bad_request', 'status must be upheld or dismissed');
+    }
+
+    const result = await AdminService.bulkResolveReportCases({ postIds: post_ids, adminId, status, note });
+
+    return successResponse(result);
+  } catch (error) {
+    logger.error('Error resolving report cases', { error, adminId });
+    return handleError(error);
+  }
+}
+
+// ==================== AUDIT LOG HANDLERS ====================
+
+async function getAuditLog(adminId: string, params: any): Promise<APIResponse> {
+  try {
+    const actionType = params?.action_type;
+    if (actionType && !ADMIN_ACTION_TYPES.includes(actionType)) {
+      return errorResponse(400, 'bad_request', `action_type must be one of: ${ADMIN_ACTION_TYPES.join(', ')}`);
+    }
+
+    const page = await AdminService.getAuditLog({
+      adminId: params?.admin_id,
+      actionType,
+      targetUserId: params?.target_user_id,
+      from: params?.from,
+      to: params?.to,
+      limit: parseInt(params?.limit || '50'),
+      cursor: params?.cursor
+    });
+
+    logger.info('Audit log retrieved', { adminId, count: page.entries.length });
+
+    return successResponse(page);
+  } catch (error) {
+    logger.error('Error getting audit log', { error, adminId });
+    return handleError(error);
+  }
+}
+
 // ==================== RECIPE MANAGEMENT HANDLERS ====================
 
 async function getPendingRecipes(
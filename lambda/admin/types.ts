@@ -2,6 +2,10 @@
  * Admin Lambda Types
  */
 
+import { SuspensionAppeal } from '../shared/business/abuse/suspension-appeal-service';
+import { ModerationReview, ModerationContentType, ModerationCase } from '../shared/business/moderation';
+import { Report } from '../posts/types';
+
 // ==================== DATABASE STATS ====================
 
 export interface DatabaseStats {
@@ -182,6 +186,99 @@ export interface RejectBanResponse {
   message: string;
 }
 
+// ==================== SUSPENSION APPEALS ====================
+
+export interface AppealQueueItem extends SuspensionAppeal {
+  username?: string;
+}
+
+export interface ApproveAppealRequest {
+  userId: string;
+  suspensionId: string;
+  adminId: string;
+  notes?: string;
+}
+
+export interface DenyAppealRequest {
+  userId: string;
+  suspensionId: string;
+  adminId: string;
+  reason: string;
+}
+
+export interface ReviewAppealResponse {
+  success: boolean;
+  user_id: string;
+  suspension_id: string;
+  status: 'approved' | 'denied';
+  suspension_lifted: boolean;
+  message: string;
+}
+
+// ==================== HELD CONTENT ====================
+
+export interface HeldContentItem extends ModerationReview {
+  username?: string;
+}
+
+export interface ReviewHeldContentRequest {
+  postId: string;
+  contentType: ModerationContentType;
+  contentId: string;
+  adminId: string;
+  notes?: string;
+}
+
+export interface ReviewHeldContentResponse {
+  success: boolean;
+  post_id: string;
+  content_type: ModerationContentType;
+  content_id: string;
+  status: 'approved' | 'rejected';
+  content_found: boolean; // False when the author deleted it while it was held
+  message: string;
+}
+
+// ==================== REPORT CASES ====================
+
+export interface ReportCaseItem extends ModerationCase {
+  author_username?: string;
+}
+
+export interface ReportCaseDetail extends ReportCaseItem {
+  reports: Report[];
+}
+
+export type ReportCaseDecision = 'hidden' | 'upheld' | 'dismissed';
+
+export interface UpdateReportCaseRequest {
+  postId: string;
+  adminId: string;
+  status?: ReportCaseDecision;
+  note?: string;
+}
+
+export interface UpdateReportCaseResponse {
+  success: boolean;
+  case: ModerationCase;
+  post_found: boolean; // False when the author deleted the post
+  message: string;
+}
+
+export interface BulkResolveReportCasesRequest {
+  postIds: string[];
+  adminId: string;
+  status: Exclude<ReportCaseDecision, 'hidden'>;
+  note?: string;
+}
+
+export interface BulkResolveReportCasesResponse {
+  success: boolean;
+  resolved: string[];
+  failed: Array<{ post_id: string; error: string }>;
+  message: string;
+}
+
 // ==================== RECIPE MANAGEMENT ====================
 
 export interface PendingRecipe {
@@ -221,18 +318,67 @@ export interface RejectRecipeResponse {
 
 // ==================== ADMIN ACTIONS ====================
 
+export type AdminActionType =
+  | 'ban_user'
+  | 'unban_user'
+  | 'approve_recipe'
+  | 'reject_recipe'
+  | 'remove_post'
+  | 'dismiss_report'
+  | 'approve_ban'
+  | 'reject_ban'
+  | 'approve_appeal'
+  | 'deny_appeal'
+  | 'approve_content'
+  | 'reject_content'
+  | 'hide_post';
+
+export const ADMIN_ACTION_TYPES: AdminActionType[] = [
+  'ban_user',
+  'unban_user',
+  'approve_recipe',
+  'reject_recipe',
+  'remove_post',
+  'dismiss_report',
+  'approve_ban',
+  'reject_ban',
+  'approve_appeal',
+  'deny_appeal',
+  'approve_content',
+  'reject_content',
+  'hide_post'
+];
+
 export interface AdminAction {
   action_id: string;
   admin_id: string;
   admin_username?: string;
-  action_type: 'ban_user' | 'unban_user' | 'approve_recipe' | 'reject_recipe' | 'remove_post' | 'dismiss_report' | 'approve_ban' | 'reject_ban';
-  target_type: 'user' | 'recipe' | 'post' | 'report';
+  action_type: AdminActionType;
+  target_type: 'user' | 'recipe' | 'post' | 'comment' | 'report';
   target_id: string;
+  target_user_id?: string; // Whose account or content the action affected
   reason?: string;
   notes?: string;
   created_at: string;
 }
 
+// ==================== AUDIT LOG ====================
+
+export interface AuditLogFilters {
+  adminId?: string;
+  actionType?: AdminActionType;
+  targetUserId?: string;
+  from?: string; // ISO date or timestamp, inclusive
+  to?: string; // ISO date (whole day) or timestamp, inclusive
+  limit?: number;
+  cursor?: string; // next_cursor from the previous page
+}
+
+export interface AuditLogPage {
+  entries: AdminAction[];
+  next_cursor?: string;
+}
+
 // ==================== ACCOUNT SUSPENSION ====================
 
 export interface AccountSuspension {
@@ -14,7 +14,7 @@
  * - Flexible (AI adapts to context)
  */
 
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { LLMProvider, LLMOperationConfig, resolveLLMConfig, createLLMProvider } from '../shared/ai';
 import { logger } from '../shared/monitoring/logger';
 import { AbuseTrackingService } from '../shared/business/abuse/abuse-tracking-service';
 
@@ -50,12 +50,15 @@ export interface InterpretedIngredient {
 }
 
 export class AIConversationalValidator {
-  private client: BedrockRuntimeClient;
-  // Use cross-region inference profile for better availability
-  private modelId: string = 'us.anthropic.claude-3-5-haiku-20241022-v1:0';
+  private provider: LLMProvider;
+  private config: LLMOperationConfig;
 
-  constructor(region: string = 'us-east-1') {
-    this.client = new BedrockRuntimeClient({ region });
+  /**
+   * @param provider Overrides the provider configured for ingredient validation
+   */
+  constructor(region: string = 'us-east-1', provider?: LLMProvider) {
+    this.config = resolveLLMConfig('ingredient-validation');
+    this.provider = provider || createLLMProvider(this.config.provider, region);
   }
 
   /**
@@ -64,28 +67,17 @@ export class AIConversationalValidator {
   async validateIngredients(request: IngredientValidationRequest): Promise<ValidationResponse> {
     try {
       const prompt = this.buildValidationPrompt(request);
-      
-      const command = new InvokeModelCommand({
-        modelId: this.modelId,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 1500,
-          temperature: 0.3, // Lower temperature for consistent validation
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ]
-        })
+
+      const completion = await this.provider.complete({
+        operation: 'ingredient-validation',
+        prompt,
+        model: this.config.model,
+        maxTokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        input: { userInput: request.userInput }
       });
 
-      const response = await this.client.send(command);
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-      
-      return this.parseValidationResponse(responseBody.content[0].text);
+      return this.parseValidationResponse(completion.text);
 
     } catch (error) {
       logger.error('AI validation failed', { error });
@@ -1,4 +1,4 @@
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { LLMProvider, LLMOperationConfig, resolveLLMConfig, createLLMProvider } from '../shared/ai';
 import { UserProfile, UserPreferences, Recipe, RecipeIngredient, RecipeInstruction } from '../shared/utils/types';
 
 export interface UserContext {
@@ -18,6 +18,9 @@ export interface UserContext {
   health_goals?: string[];
   preferred_recipe_count?: number;
   spice_level?: 'mild' | 'medium' | 'hot';
+
+  // Pantry items close to their expiry date, soonest first ("use up what's expiring")
+  priority_ingredients?: string[];
 }
 
 export interface AIRecipeRequest {
@@ -36,18 +39,19 @@ export interface AIRecipeResponse {
 }
 
 export class BedrockAIClient {
-  private client: BedrockRuntimeClient;
-  // Use cross-region inference profile for better availability
-  private modelId: string = 'us.anthropic.claude-3-5-haiku-20241022-v1:0';
-  private maxTokens: number = 4000;
-  private temperature: number = 0.7;
-
-  constructor(region: string = 'us-east-1') {
-    this.client = new BedrockRuntimeClient({ region });
+  private provider: LLMProvider;
+  private config: LLMOperationConfig;
+
+  /**
+   * @param provider Overrides the provider configured for recipe generation
+   */
+  constructor(region: string = 'us-east-1', provider?: LLMProvider) {
+    this.config = resolveLLMConfig('recipe-generation');
+    this.provider = provider || createLLMProvider(this.config.provider, region);
   }
 
   /**
-   * Generate recipes using Claude 3 Haiku with privacy-aware prompting
+   * Generate recipes with the configured LLM using privacy-aware prompting
    */
   async generateRecipes(request: AIRecipeRequest): Promise<AIRecipeResponse> {
     const startTime = Date.now();
@@ -55,39 +59,32 @@ export class BedrockAIClient {
     try {
       const prompt = this.buildPrompt(request);
 
-      const command = new InvokeModelCommand({
-        modelId: this.modelId,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: this.maxTokens,
-          temperature: this.temperature,
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ]
-        })
+      const completion = await this.provider.complete({
+        operation: 'recipe-generation',
+        prompt,
+        model: this.config.model,
+        maxTokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        input: {
+          ingredients: request.ingredients,
+          cooking_method: request.cooking_method,
+          recipe_count: request.recipe_count || 1
+        }
       });
 
-      const response = await this.client.send(command);
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-
-      const recipes = this.parseAIResponse(responseBody.content[0].text, request);
+      const recipes = this.parseAIResponse(completion.text, request);
       const generationTime = Date.now() - startTime;
 
       return {
         recipes,
         generation_time_ms: generationTime,
-        model_used: this.modelId,
-        prompt_tokens: responseBody.usage?.input_tokens,
-        completion_tokens: responseBody.usage?.output_tokens
+        model_used: completion.model,
+        prompt_tokens: completion.inputTokens,
+        completion_tokens: completion.outputTokens
       };
 
     } catch (error) {
-      console.error('Bedrock AI generation failed:', error);
+      console.error('AI recipe generation failed:', error);
       throw new Error(`AI generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -254,6 +251,12 @@ REMEMBER:
       contextParts.push(`NEVER include these allergens in ANY recipe. Double-check all ingredients including sauces and condiments.`);
     }
 
+    // Pantry items that should be used before they spoil
+    if (userContext.priority_ingredients && userContext.priority_ingredients.length > 0) {
+      contextParts.push(`⏰ USE FIRST - EXPIRING SOON: ${userContext.priority_ingredients.join(', ')}`);
+      contextParts.push(`  → Every recipe MUST use at least one of these, ideally several. They are listed soonest-to-expire first.`);
+    }
+
     // Dietary preferences
     if (userContext.dietary_restrictions.length > 0) {
       contextParts.push(`DIETARY RESTRICTIONS: ${userContext.dietary_restrictions.join(', ')}`);
@@ -2,6 +2,7 @@ import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { Recipe, DynamoDBItem } from '../shared/utils/types';
 import { BedrockAIClient, UserContext, AIRecipeRequest } from './bedrock-client';
+import { NutritionCalculator } from '../shared/business/nutrition';
 
 export interface FlexibleMixRequest {
   ingredients: string[];
@@ -24,6 +25,24 @@ export interface FlexibleMixResponse {
   };
 }
 
+/**
+ * Incremental frames emitted while the mix is being built, so callers can
+ * stream recipes to the client instead of waiting for the whole batch
+ */
+export type RecipeStreamFrame =
+  | {
+      type: 'recipe';
+      source: 'database' | 'ai';
+      recipe: Recipe;
+    }
+  | {
+      type: 'stats';
+      stats: FlexibleMixResponse['stats'];
+      cost_optimization: FlexibleMixResponse['cost_optimization'];
+    };
+
+export type RecipeFrameListener = (frame: RecipeStreamFrame) => void | Promise<void>;
+
 export interface DatabaseRecipeQuery {
   cooking_method: string;
   ingredients: string[];
@@ -49,8 +68,15 @@ export class FlexibleMixAlgorithm {
 
   /**
    * Main flexible mix algorithm - combines database and AI recipes
+   *
+   * When onFrame is provided, each database recipe is emitted as soon as it
+   * passes filtering, each AI recipe as soon as its cooking-method category
+   * completes, and a final stats frame once the mix is done.
    */
-  async generateMixedRecipes(request: FlexibleMixRequest): Promise<FlexibleMixResponse> {
+  async generateMixedRecipes(
+    request: FlexibleMixRequest,
+    onFrame?: RecipeFrameListener
+  ): Promise<FlexibleMixResponse> {
     const { ingredients, recipe_count, user_context } = request;
     
     console.log(`Starting flexible mix for ${recipe_count} recipes with ingredients: ${ingredients.join(', ')}`);
@@ -60,7 +86,7 @@ export class FlexibleMixAlgorithm {
       ingredients,
       recipe_count,
       user_context
-    });
+    }, onFrame && (recipe => onFrame({ type: 'recipe', source: 'database', recipe })));
     
     console.log(`Found ${dbRecipes.length} database recipes`);
     
@@ -71,20 +97,34 @@ export class FlexibleMixAlgorithm {
     console.log(`Need ${aiRecipesNeeded} AI recipes for missing categories: ${missingCategories.join(', ')}`);
     
     // Step 3: Generate AI recipes for missing categories
+    // The first aiRecipesNeeded recipes to arrive make up the mix, in the order they were streamed
+    const selectedAIRecipes: Recipe[] = [];
     const aiRecipes = await this.generateAIRecipesForCategories({
       ingredients,
       categories: missingCategories,
       user_context
+    }, async (categoryRecipes) => {
+      for (const recipe of categoryRecipes) {
+        if (selectedAIRecipes.length >= aiRecipesNeeded) return;
+        selectedAIRecipes.push(recipe);
+        if (onFrame) {
+          await onFrame({ type: 'recipe', source: 'ai', recipe });
+        }
+      }
     });
     
     // Step 4: Combine and format results
-    const allRecipes = [...dbRecipes, ...aiRecipes].slice(0, recipe_count);
+    const allRecipes = [...dbRecipes, ...selectedAIRecipes];
     
     // Step 5: Calculate statistics and cost optimization metrics
-    const stats = this.calculateStatistics(recipe_count, dbRecipes.length, aiRecipes.length);
+    const stats = this.calculateStatistics(recipe_count, dbRecipes.length, selectedAIRecipes.length);
     const costOptimization = this.calculateCostOptimization(dbRecipes.length, aiRecipes.length);
     
-    console.log(`Flexible mix complete: ${dbRecipes.length} DB + ${aiRecipes.length} AI = ${allRecipes.length} total`);
+    console.log(`Flexible mix complete: ${dbRecipes.length} DB + ${selectedAIRecipes.length} AI = ${allRecipes.length} total`);
+    
+    if (onFrame) {
+      await onFrame({ type: 'stats', stats, cost_optimization: costOptimization });
+    }
     
     return {
       recipes: allRecipes,
@@ -95,14 +135,40 @@ export class FlexibleMixAlgorithm {
 
   /**
    * Query database for approved recipes by cooking methods with ingredient matching
+   * 
+   * Recipes are deduplicated and filtered as each cooking method returns, so
+   * onRecipe fires for every accepted recipe without waiting for the other methods.
    */
   private async queryDatabaseRecipes(params: {
     ingredients: string[];
     recipe_count: number;
     user_context: UserContext;
-  }): Promise<Recipe[]> {
+  }, onRecipe?: (recipe: Recipe) => void | Promise<void>): Promise<Recipe[]> {
     const { ingredients, recipe_count, user_context } = params;
-    const recipes: Recipe[] = [];
+    const accepted: Recipe[] = [];
+    const seenTitles: string[] = [];
+    let queriedCount = 0;
+    
+    const acceptRecipes = async (methodRecipes: Recipe[]) => {
+      queriedCount += methodRecipes.length;
+      
+      for (const methodRecipe of methodRecipes) {
+        // Remove duplicates and apply user dietary restrictions
+        if (!this.markTitleSeen(methodRecipe, seenTitles)) continue;
+        if (this.applyDietaryFilters([methodRecipe], user_context).length === 0) continue;
+        if (!this.usesPriorityIngredient(methodRecipe, user_context.priority_ingredients)) continue;
+        
+        // Skip recipes whose computed nutrition misses the user's health goals
+        const recipe = NutritionCalculator.analyzeRecipe(methodRecipe, user_context.health_goals);
+        if (!NutritionCalculator.meetsHealthGoals(recipe)) continue;
+        if (accepted.length >= recipe_count) continue;
+        
+        accepted.push(recipe);
+        if (onRecipe) {
+          await onRecipe(recipe);
+        }
+      }
+    };
     
     // Prioritize user's preferred cooking methods
     const preferredMethods = user_context.preferred_cooking_methods.length > 0 
@@ -111,11 +177,11 @@ export class FlexibleMixAlgorithm {
     
     // Query each cooking method for diversity
     for (const method of preferredMethods) {
-      if (recipes.length >= recipe_count) break;
+      if (queriedCount >= recipe_count) break;
       
       try {
         const methodRecipes = await this.queryRecipesByMethod(method, ingredients, 2);
-        recipes.push(...methodRecipes);
+        await acceptRecipes(methodRecipes);
         
         console.log(`Found ${methodRecipes.length} recipes for cooking method: ${method}`);
       } catch (error) {
@@ -130,22 +196,18 @@ export class FlexibleMixAlgorithm {
     );
     
     for (const method of remainingMethods) {
-      if (recipes.length >= recipe_count) break;
+      if (queriedCount >= recipe_count) break;
       
       try {
         const methodRecipes = await this.queryRecipesByMethod(method, ingredients, 1);
-        recipes.push(...methodRecipes);
+        await acceptRecipes(methodRecipes);
       } catch (error) {
         console.error(`Error querying recipes for method ${method}:`, error);
         // Continue with other methods even if one fails
       }
     }
     
-    // Remove duplicates and apply user dietary restrictions
-    const uniqueRecipes = this.deduplicateRecipes(recipes);
-    const filteredRecipes = this.applyDietaryFilters(uniqueRecipes, user_context);
-    
-    return filteredRecipes.slice(0, recipe_count);
+    return accepted;
   }
 
   /**
@@ -194,7 +256,7 @@ export class FlexibleMixAlgorithm {
     ingredients: string[];
     categories: string[];
     user_context: UserContext;
-  }): Promise<Recipe[]> {
+  }, onCategoryComplete?: (recipes: Recipe[]) => void | Promise<void>): Promise<Recipe[]> {
     const { ingredients, categories, user_context } = params;
     
     // ✅ OPTIMIZATION: Generate all AI recipes in parallel instead of sequential
@@ -211,14 +273,21 @@ export class FlexibleMixAlgorithm {
         const aiResponse = await this.aiClient.generateRecipes(aiRequest);
         
         // ✅ Mark AI recipes for database storage (Task 5.2 - Auto-approval workflow)
-        aiResponse.recipes.forEach(recipe => {
+        // Nutrition is recomputed from the ingredients rather than taken from the model
+        const recipes = aiResponse.recipes.map(aiRecipe => {
+          const recipe = NutritionCalculator.analyzeRecipe(aiRecipe, user_context.health_goals);
           recipe.is_ai_generated = true;
           recipe.is_approved = false;  // Pending until user rates >= 4.0
           recipe.is_public = false;    // Not public until approved
+          return recipe;
         });
         
-        console.log(`Generated ${aiResponse.recipes.length} AI recipe(s) for category: ${category}`);
-        return aiResponse.recipes;
+        console.log(`Generated ${recipes.length} AI recipe(s) for category: ${category}`);
+        
+        if (onCategoryComplete) {
+          await onCategoryComplete(recipes);
+        }
+        return recipes;
       } catch (error) {
         console.error(`Error generating AI recipe for category ${category}:`, error);
         // Return empty array on error to continue with other categories
@@ -280,6 +349,24 @@ export class FlexibleMixAlgorithm {
     return matchPercentage >= 0.5; // At least 50% match (more lenient)
   }
 
+  /**
+   * In "use up what's expiring" mode, database recipes must use at least one expiring item
+   */
+  private usesPriorityIngredient(recipe: Recipe, priorityIngredients?: string[]): boolean {
+    if (!priorityIngredients || priorityIngredients.length === 0) return true;
+    if (!recipe.ingredients || recipe.ingredients.length === 0) return false;
+
+    return recipe.ingredients.some(recipeIng => {
+      const normalizedRecipeIng = recipeIng.ingredient_name.toLowerCase().trim();
+      return priorityIngredients.some(priority => {
+        const normalizedPriority = priority.toLowerCase().trim();
+        return normalizedRecipeIng.includes(normalizedPriority) ||
+          normalizedPriority.includes(normalizedRecipeIng) ||
+          this.ingredientsAreSimilar(normalizedRecipeIng, normalizedPriority);
+      });
+    });
+  }
+
   /**
    * Check if two ingredients are similar (basic similarity check)
    */
@@ -302,26 +389,20 @@ export class FlexibleMixAlgorithm {
 
   /**
    * Remove duplicate recipes based on title similarity
+   * Records the title and returns false if a similar title was already seen
    */
-  private deduplicateRecipes(recipes: Recipe[]): Recipe[] {
-    const uniqueRecipes: Recipe[] = [];
-    const seenTitles = new Set<string>();
+  private markTitleSeen(recipe: Recipe, seenTitles: string[]): boolean {
+    const normalizedTitle = recipe.title.toLowerCase().trim();
     
-    for (const recipe of recipes) {
-      const normalizedTitle = recipe.title.toLowerCase().trim();
-      
-      // Check for similar titles (simple approach)
-      const isDuplicate = Array.from(seenTitles).some(existingTitle => 
-        this.calculateStringSimilarity(normalizedTitle, existingTitle) > 0.8
-      );
-      
-      if (!isDuplicate) {
-        uniqueRecipes.push(recipe);
-        seenTitles.add(normalizedTitle);
-      }
-    }
+    // Check for similar titles (simple approach)
+    const isDuplicate = seenTitles.some(existingTitle => 
+      this.calculateStringSimilarity(normalizedTitle, existingTitle) > 0.8
+    );
+    
+    if (isDuplicate) return false;
     
-    return uniqueRecipes;
+    seenTitles.push(normalizedTitle);
+    return true;
   }
 
   /**
@@ -1,6 +1,7 @@
 import { APIGatewayEvent, APIResponse, AISuggestionRequest, AISuggestionResponse, UserProfile, UserPreferences, Recipe } from '../shared/utils/types';
-import { FlexibleMixAlgorithm } from './flexible-mix-algorithm';
+import { FlexibleMixAlgorithm, FlexibleMixResponse, RecipeStreamFrame } from './flexible-mix-algorithm';
 import { BedrockAIClient } from './bedrock-client';
+import { FixtureLLMProvider } from '../shared/ai';
 import { DynamoDBDocumentClient, GetCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
@@ -10,6 +11,7 @@ import { tracer, captureAWS } from '../shared/monitoring/tracer';
 import { ErrorHandler, withErrorHandling } from '../shared/errors/error-handler';
 import { executeWithRecovery } from '../shared/errors/error-recovery';
 import { IngredientExtractor } from '../shared/business/ingredients/ingredient-extractor';
+import { PantryService, DEFAULT_EXPIRING_WITHIN_DAYS } from '../pantry/pantry-service';
 import { 
   BadRequestError, 
   UnauthorizedError, 
@@ -46,6 +48,14 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
 
       logger.debug('AI suggestion routing', { path, method });
 
+      // Handle /suggest-recipes/stream endpoint (NDJSON frames)
+      if (path.includes('/suggest-recipes/stream')) {
+        if (method !== 'POST') {
+          throw new BadRequestError('Method not allowed. Use POST for /suggest-recipes/stream.');
+        }
+        return await handleSuggestRecipesStream(event, startTime);
+      }
+
       // Handle /suggest-recipes endpoint
       if (path.endsWith('/suggest-recipes') || path.includes('/suggest-recipes')) {
         if (method !== 'POST') {
@@ -75,18 +85,164 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
   });
 };
 
+/**
+ * Validated suggestion request with resolved user context
+ */
+export interface PreparedSuggestion {
+  request: AISuggestionRequest;
+  userId: string;
+  userContext: import('./bedrock-client').UserContext;
+  parsedIngredients: string[];
+}
+
+/**
+ * Frames written by the streaming endpoint, one JSON object per line
+ * - recipe: a database or AI recipe, emitted as soon as it is available
+ * - stats: final frame, emitted after results are persisted
+ * - error: the stream failed after it started
+ */
+export type SuggestionStreamFrame =
+  | Extract<RecipeStreamFrame, { type: 'recipe' }>
+  | (Extract<RecipeStreamFrame, { type: 'stats' }> & { suggestion_id: string })
+  | { type: 'error'; error: string; message: string };
+
 /**
  * Handle /suggest-recipes endpoint
  */
 async function handleSuggestRecipes(event: APIGatewayEvent, startTime: number): Promise<APIResponse> {
+  const prepared = await prepareSuggestion(event);
+  const { request, userId } = prepared;
+
+  const mixedRecipes = await generateRecipesWithFallback(prepared, event.requestContext.requestId);
+  const suggestionId = await persistSuggestionResults(prepared, mixedRecipes);
+
+  // Format response
+  const response: AISuggestionResponse = {
+    suggestions: mixedRecipes.recipes as any,
+    stats: {
+      requested: request.recipe_count || 3,
+      from_database: mixedRecipes.stats.from_database || 0,
+      from_ai: mixedRecipes.stats.from_ai || 0
+    },
+    warnings: [] // No warnings since we skip validation
+  };
+
+  // Track API request metrics
+  const duration = Date.now() - startTime;
+  metrics.trackApiRequest(200, duration, 'ai-suggestion');
+  
+  logger.logFunctionEnd('ai-suggestion', 200, duration);
+
+  return createSuccessResponse(response, {
+    'X-Suggestion-Id': suggestionId,
+    'X-Cost-Saved': ((mixedRecipes as any).cost_optimization?.estimated_ai_cost_saved || 0).toString(),
+    'X-DB-Coverage': ((mixedRecipes.stats as any).database_coverage_percentage || 0).toString()
+  });
+}
+
+/**
+ * Handle /suggest-recipes/stream endpoint through API Gateway
+ * 
+ * REST API integrations cannot stream, so frames are buffered into one NDJSON body.
+ * The Function URL in stream-handler.ts serves the same frames incrementally.
+ */
+async function handleSuggestRecipesStream(event: APIGatewayEvent, startTime: number): Promise<APIResponse> {
+  const prepared = await prepareSuggestion(event);
+
+  const lines: string[] = [];
+  await streamSuggestRecipes(prepared, event.requestContext.requestId, frame => {
+    lines.push(JSON.stringify(frame));
+  });
+
+  const duration = Date.now() - startTime;
+  metrics.trackApiRequest(200, duration, 'ai-suggestion');
+  logger.logFunctionEnd('ai-suggestion', 200, duration);
+
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+      'Access-Control-Allow-Methods': 'POST,OPTIONS'
+    },
+    body: lines.join('\n') + '\n'
+  };
+}
+
+/**
+ * Generate suggestions and write each frame as soon as it is ready
+ * 
+ * Validation happens in prepareSuggestion() before the stream starts, so
+ * callers can still answer with a proper HTTP error status. Failures after
+ * that point are reported as an error frame.
+ */
+export async function streamSuggestRecipes(
+  prepared: PreparedSuggestion,
+  requestId: string,
+  writeFrame: (frame: SuggestionStreamFrame) => void | Promise<void>
+): Promise<void> {
+  const emittedIds = new Set<string>();
+
+  try {
+    const mixedRecipes = await generateRecipesWithFallback(prepared, requestId, async frame => {
+      // The final stats frame is written after persistence so it can carry the suggestion id
+      if (frame.type !== 'recipe') return;
+      emittedIds.add(frame.recipe.recipe_id);
+      await writeFrame(frame);
+    });
+
+    // Recipes that came from the fixture fallback were never streamed
+    for (const recipe of mixedRecipes.recipes) {
+      if (!emittedIds.has(recipe.recipe_id)) {
+        await writeFrame({
+          type: 'recipe',
+          source: recipe.is_ai_generated ? 'ai' : 'database',
+          recipe
+        });
+      }
+    }
+
+    const suggestionId = await persistSuggestionResults(prepared, mixedRecipes);
+
+    await writeFrame({
+      type: 'stats',
+      suggestion_id: suggestionId,
+      stats: mixedRecipes.stats,
+      cost_optimization: mixedRecipes.cost_optimization
+    });
+  } catch (error) {
+    logger.error('Recipe suggestion stream failed', error, { userId: prepared.userId });
+    await writeFrame({
+      type: 'error',
+      error: 'stream_failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Validate the request body and resolve user context and normalized ingredients
+ */
+export async function prepareSuggestion(event: APIGatewayEvent): Promise<PreparedSuggestion> {
   // Parse and validate request body
-  const request = ErrorHandler.validateRequest(event.body, ['ingredients', 'recipe_count']);
+  const request = ErrorHandler.validateRequest(event.body, ['recipe_count']);
+
+  // ingredients may be omitted in "use up what's expiring" mode, the pantry supplies them
+  if (request.use_expiring && request.ingredients === undefined) {
+    request.ingredients = [];
+  }
       
       // Additional validation for AI suggestion specific fields
-      if (!Array.isArray(request.ingredients) || request.ingredients.length === 0) {
+      if (!Array.isArray(request.ingredients) || (request.ingredients.length === 0 && !request.use_expiring)) {
         throw new ValidationError('ingredients must be a non-empty array');
       }
 
+      if (request.expiring_within_days !== undefined &&
+          (typeof request.expiring_within_days !== 'number' || request.expiring_within_days < 0 || request.expiring_within_days > 14)) {
+        throw new ValidationError('expiring_within_days must be a number between 0 and 14');
+      }
+
       if (typeof request.recipe_count !== 'number' || request.recipe_count < 1 || request.recipe_count > 5) {
         throw new ValidationError('recipe_count must be a number between 1 and 5');
       }
@@ -119,10 +275,57 @@ async function handleSuggestRecipes(event: APIGatewayEvent, startTime: number):
     parsedIngredients = request.ingredients;
   }
 
-  // Execute AI suggestion with error recovery and mock fallback
-  let mixedRecipes;
+  if (request.use_expiring) {
+    parsedIngredients = await addExpiringPantryItems(userId, request, userContext, parsedIngredients);
+  }
+
+  return { request, userId, userContext, parsedIngredients };
+}
+
+/**
+ * "Use up what's expiring": put soon-to-expire pantry items first and mark them
+ * as priority ingredients so both database matching and the AI prompt favor them
+ */
+async function addExpiringPantryItems(
+  userId: string,
+  request: AISuggestionRequest,
+  userContext: import('./bedrock-client').UserContext,
+  parsedIngredients: string[]
+): Promise<string[]> {
+  const expiring = await PantryService.getExpiringItems(
+    userId,
+    request.expiring_within_days ?? DEFAULT_EXPIRING_WITHIN_DAYS
+  );
+
+  if (expiring.length === 0 && parsedIngredients.length === 0) {
+    throw new ValidationError('No pantry items are expiring soon. Add ingredients or extend expiring_within_days.');
+  }
+
+  const expiringNames = expiring.map(item => item.name);
+  userContext.priority_ingredients = expiringNames;
+
+  logger.info('Prioritizing expiring pantry items', {
+    userId,
+    expiring: expiringNames,
+    withinDays: request.expiring_within_days ?? DEFAULT_EXPIRING_WITHIN_DAYS
+  });
+
+  return Array.from(new Set([...expiringNames, ...parsedIngredients]));
+}
+
+/**
+ * Run the flexible mix algorithm, falling back to fixture suggestions if the LLM fails
+ */
+async function generateRecipesWithFallback(
+  prepared: PreparedSuggestion,
+  requestId: string,
+  onFrame?: (frame: RecipeStreamFrame) => void | Promise<void>
+): Promise<FlexibleMixResponse> {
+  const { request, userId, userContext, parsedIngredients } = prepared;
+
+  // Execute AI suggestion with error recovery and fixture fallback
   try {
-    mixedRecipes = await executeWithRecovery(
+    return await executeWithRecovery(
       async () => {
         return await tracer.captureBusinessOperation(
           'generate-mixed-recipes',
@@ -130,7 +333,7 @@ async function handleSuggestRecipes(event: APIGatewayEvent, startTime: number):
             ingredients: parsedIngredients, // Use parsed ingredients
             recipe_count: request.recipe_count,
             user_context: userContext
-          }),
+          }, onFrame),
           {
             ingredientCount: parsedIngredients.length,
             requestedRecipes: request.recipe_count
@@ -140,20 +343,47 @@ async function handleSuggestRecipes(event: APIGatewayEvent, startTime: number):
       {
         operation: 'ai-suggestion',
         userId,
-        requestId: event.requestContext.requestId,
+        requestId,
         originalRequest: request
       }
     );
   } catch (bedrockError: any) {
-    // Fallback to mock if Bedrock fails
-    logger.warn('Bedrock unavailable, using mock suggestions', { error: bedrockError.message });
-    const { generateMockSuggestions } = await import('./simple-mock');
-    const mockResponse = generateMockSuggestions(request.ingredients, request.recipe_count);
-    mixedRecipes = {
-      recipes: mockResponse.data.suggestions,
-      stats: mockResponse.data.stats
+    // Fallback to deterministic fixture recipes if the configured LLM fails
+    logger.warn('LLM unavailable, using fixture suggestions', { error: bedrockError.message });
+    const fixtureClient = new BedrockAIClient(AWS_REGION, new FixtureLLMProvider());
+    const fixtureResponse = await fixtureClient.generateRecipes({
+      ingredients: parsedIngredients,
+      cooking_method: 'xào',
+      user_context: userContext,
+      recipe_count: request.recipe_count || 3
+    });
+    const recipeCount = fixtureResponse.recipes.length;
+    return {
+      recipes: fixtureResponse.recipes,
+      stats: {
+        requested: request.recipe_count || 3,
+        from_database: 0,
+        from_ai: recipeCount,
+        database_coverage_percentage: 0
+      },
+      cost_optimization: {
+        estimated_ai_cost_saved: 0,
+        database_recipes_used: 0,
+        ai_recipes_generated: recipeCount
+      }
     };
   }
+}
+
+/**
+ * Save AI recipes, extract their ingredients and record suggestion history
+ * Returns the suggestion id
+ */
+async function persistSuggestionResults(
+  prepared: PreparedSuggestion,
+  mixedRecipes: FlexibleMixResponse
+): Promise<string> {
+  const { request, userId } = prepared;
 
   // ✅ NEW: Save AI-generated recipes to database for future reuse
   // This enables cost optimization and database coverage growth (Task 11.2)
@@ -183,17 +413,6 @@ async function handleSuggestRecipes(event: APIGatewayEvent, startTime: number):
     mixedRecipes: mixedRecipes as any
   });
 
-  // Format response
-  const response: AISuggestionResponse = {
-    suggestions: mixedRecipes.recipes as any,
-    stats: {
-      requested: request.recipe_count || 3,
-      from_database: mixedRecipes.stats.from_database || 0,
-      from_ai: mixedRecipes.stats.from_ai || 0
-    },
-    warnings: [] // No warnings since we skip validation
-  };
-
   // Log business metrics
   logger.logBusinessMetric('ai-suggestion-completed', mixedRecipes.recipes.length, 'count', {
     userId,
@@ -209,17 +428,7 @@ async function handleSuggestRecipes(event: APIGatewayEvent, startTime: number):
     request.ingredients.length
   );
 
-  // Track API request metrics
-  const duration = Date.now() - startTime;
-  metrics.trackApiRequest(200, duration, 'ai-suggestion');
-  
-  logger.logFunctionEnd('ai-suggestion', 200, duration);
-
-  return createSuccessResponse(response, {
-    'X-Suggestion-Id': suggestionId,
-    'X-Cost-Saved': ((mixedRecipes as any).cost_optimization?.estimated_ai_cost_saved || 0).toString(),
-    'X-DB-Coverage': ((mixedRecipes.stats as any).database_coverage_percentage || 0).toString()
-  });
+  return suggestionId;
 }
 
 /**
@@ -0,0 +1,14 @@
+/**
+ * Rate limit for recipe suggestions, shared by the API router and the streaming Function URL
+ */
+
+import { RateLimitRule } from '../shared/business/abuse/rate-limiter';
+
+// Every suggestion calls Bedrock
+export const SUGGEST_RATE_LIMIT: RateLimitRule = {
+  name: 'ai-suggest',
+  methods: ['POST'],
+  pattern: /\/suggest-recipes/,
+  capacity: 5,
+  refillPerMinute: 0.5
+};
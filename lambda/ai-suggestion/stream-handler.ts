@@ -0,0 +1,143 @@
+/**
+ * AI Suggestion Stream Lambda - Lambda Function URL with response streaming
+ *
+ * API Gateway REST integrations buffer the whole response, so the streaming
+ * variant of /v1/ai/suggest-recipes is served from a Function URL configured
+ * with InvokeMode.RESPONSE_STREAM. Each recipe is written as one NDJSON line
+ * the moment it is available, followed by a final stats frame.
+ *
+ * AUTHENTICATION:
+ * - The URL is public (no API Gateway authorizer in front of it), so the Cognito
+ *   ID token from the Authorization header is verified here before its claims
+ *   are injected into requestContext
+ * - Requests share the router's ai-suggest rate limit
+ */
+
+import { Context, LambdaFunctionURLEvent } from 'aws-lambda';
+import { APIGatewayEvent } from '../shared/utils/types';
+import { logger } from '../shared/monitoring/logger';
+import { AppError, UnauthorizedError } from '../shared/errors/errors';
+import { TokenVerifier } from '../shared/auth/token-verifier';
+import { RateLimiter } from '../shared/business/abuse/rate-limiter';
+import { prepareSuggestion, streamSuggestRecipes } from './index';
+import { SUGGEST_RATE_LIMIT } from './rate-limit';
+
+type ResponseStream = NodeJS.WritableStream;
+
+// Globals provided by the Lambda Node.js runtime for streaming handlers
+declare const awslambda: {
+  streamifyResponse(
+    handler: (event: LambdaFunctionURLEvent, responseStream: ResponseStream, context: Context) => Promise<void>
+  ): any;
+  HttpResponseStream: {
+    from(
+      responseStream: ResponseStream,
+      metadata: { statusCode: number; headers?: Record<string, string> }
+    ): ResponseStream;
+  };
+};
+
+const STREAM_HEADERS = {
+  'Content-Type': 'application/x-ndjson',
+  'Cache-Control': 'no-cache',
+  'X-Content-Type-Options': 'nosniff'
+};
+
+export const handler = awslambda.streamifyResponse(async (event, responseStream) => {
+  if (event.requestContext.http.method !== 'POST') {
+    return writeError(responseStream, 405, 'method_not_allowed', 'Use POST for /suggest-recipes/stream.');
+  }
+
+  // Auth, rate limit and validation errors are reported with a real status code before any frame is written
+  let apiEvent: APIGatewayEvent;
+  let prepared;
+  try {
+    apiEvent = toAPIGatewayEvent(event, await verifyClaims(event));
+    logger.initFromEvent(apiEvent);
+    logger.logFunctionStart('ai-suggestion-stream', apiEvent);
+
+    const limited = await RateLimiter.enforce([SUGGEST_RATE_LIMIT], {
+      method: apiEvent.httpMethod,
+      path: apiEvent.path,
+      userId: apiEvent.requestContext.authorizer?.claims?.sub,
+      sourceIp: event.requestContext.http.sourceIp
+    });
+    if (limited) {
+      return writeError(responseStream, 429, 'rate_limit_exceeded', 'Too many requests, please slow down', {
+        'Retry-After': String(limited.retryAfterSeconds)
+      });
+    }
+
+    prepared = await prepareSuggestion(apiEvent);
+  } catch (error) {
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+    const code = error instanceof AppError ? error.code : 'internal_error';
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return writeError(responseStream, statusCode, code, message);
+  }
+
+  const stream = awslambda.HttpResponseStream.from(responseStream, {
+    statusCode: 200,
+    headers: STREAM_HEADERS
+  });
+
+  await streamSuggestRecipes(prepared, apiEvent.requestContext.requestId, frame => {
+    stream.write(JSON.stringify(frame) + '\n');
+  });
+
+  stream.end();
+  logger.info('Recipe suggestion stream completed', { userId: prepared.userId });
+});
+
+/**
+ * Convert a Function URL event into the API Gateway shape the suggestion code expects
+ */
+function toAPIGatewayEvent(event: LambdaFunctionURLEvent, claims: Record<string, any>): APIGatewayEvent {
+  const headers = (event.headers || {}) as { [key: string]: string };
+  const body = event.body && event.isBase64Encoded
+    ? Buffer.from(event.body, 'base64').toString('utf-8')
+    : event.body || null;
+
+  return {
+    httpMethod: event.requestContext.http.method,
+    path: event.rawPath,
+    pathParameters: null,
+    queryStringParameters: (event.queryStringParameters || null) as { [key: string]: string } | null,
+    headers,
+    body,
+    requestContext: {
+      requestId: event.requestContext.requestId,
+      authorizer: { claims: claims as any }
+    },
+    isBase64Encoded: false,
+    resource: event.rawPath
+  };
+}
+
+/**
+ * Verify the Cognito ID token from the Authorization header and return its claims.
+ * Nothing sits in front of the Function URL, so an unverified token can't be trusted.
+ */
+async function verifyClaims(event: LambdaFunctionURLEvent): Promise<Record<string, any>> {
+  const authHeader = event.headers?.authorization || event.headers?.Authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    throw new UnauthorizedError();
+  }
+
+  return TokenVerifier.verifyIdToken(authHeader.substring(7));
+}
+
+function writeError(
+  responseStream: ResponseStream,
+  statusCode: number,
+  error: string,
+  message: string,
+  headers: Record<string, string> = {}
+): void {
+  const stream = awslambda.HttpResponseStream.from(responseStream, {
+    statusCode,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+  stream.write(JSON.stringify({ success: false, error, message }));
+  stream.end();
+}
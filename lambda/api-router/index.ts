@@ -8,6 +8,11 @@
  * - Validates JWT tokens from Authorization header
  * - Extracts user ID and injects into requestContext
  * - Handlers can access user ID via getUserIdFromEvent()
+ *
+ * RATE LIMITING:
+ * - Routes declare token buckets in `rateLimits` (see RateLimiter)
+ * - Buckets are per user only when the token verifies, otherwise per source IP
+ * - Exceeded limits return 429 with Retry-After before the handler runs
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
@@ -23,6 +28,13 @@ import { handler as adminHandler } from '../admin/index';
 import { handler as recipeSearchHandler } from '../recipe-search/index';
 import { handler as searchHandler } from '../search/index';
 import { handler as savedRecipesHandler } from '../saved-recipes/index';
+import { handler as mealPlansHandler } from '../meal-plans/index';
+import { handler as shoppingListsHandler } from '../shopping-lists/index';
+import { handler as pantryHandler } from '../pantry/index';
+import { SUGGEST_RATE_LIMIT } from '../ai-suggestion/rate-limit';
+import { RateLimiter, RateLimitRule } from '../shared/business/abuse/rate-limiter';
+import { TokenVerifier } from '../shared/auth/token-verifier';
+import { tooManyRequestsResponse } from '../shared/errors/responses';
 
 /**
  * Extract and decode JWT token from Authorization header
@@ -54,6 +66,24 @@ function extractTokenClaims(authHeader: string | undefined): Record<string, any>
   }
 }
 
+/**
+ * User ID from a verified token, or undefined. The decoded claims above can be forged, so a
+ * rate limit keyed on them could be dodged with fresh IDs or pinned on someone else.
+ */
+async function verifiedUserId(authHeader: string | undefined): Promise<string | undefined> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return undefined;
+  }
+
+  try {
+    const claims = await TokenVerifier.verifyIdToken(authHeader.substring(7));
+    return claims.sub;
+  } catch (error) {
+    console.warn('Token did not verify, rate limiting by source IP');
+    return undefined;
+  }
+}
+
 /**
  * Route Configuration
  * 
@@ -68,6 +98,7 @@ function extractTokenClaims(authHeader: string | undefined): Record<string, any>
  * 2. Put more specific routes before general ones
  * 3. Document the purpose of each route
  * 4. Use exact matching when possible to avoid conflicts
+ * 5. Rate limit endpoints that are expensive (AI) or easy to spam (content, requests)
  */
 
 interface RouteConfig {
@@ -75,8 +106,12 @@ interface RouteConfig {
   handler: any;
   exact?: boolean; // If true, path must match exactly (no prefix matching)
   description?: string; // Documentation for developers
+  rateLimits?: RateLimitRule[]; // Buckets per user (per IP when anonymous), each matched by method and path
 }
 
+// Every path that creates a post shares this bucket
+const POST_CREATE_LIMIT: RateLimitRule = { name: 'post-create', methods: ['POST'], capacity: 10, refillPerMinute: 0.5 };
+
 const routes: RouteConfig[] = [
   // ==================== AUTHENTICATION ====================
   {
@@ -97,6 +132,7 @@ const routes: RouteConfig[] = [
     path: '/v1/ai',
     handler: aiSuggestionHandler,
     description: 'AI-powered recipe suggestions',
+    rateLimits: [SUGGEST_RATE_LIMIT],
   },
 
   // ==================== POSTS & SOCIAL ====================
@@ -104,6 +140,10 @@ const routes: RouteConfig[] = [
     path: '/v1/posts',
     handler: postsHandler,
     description: 'Social posts, comments, reactions',
+    rateLimits: [
+      { ...POST_CREATE_LIMIT, pattern: /^\/v1\/posts\/?$/ },
+      { name: 'comment-create', methods: ['POST'], pattern: /^\/v1\/posts\/[^/]+\/comments\/?$/, capacity: 20, refillPerMinute: 4 },
+    ],
   },
 
   // ==================== FRIENDS ====================
@@ -111,6 +151,9 @@ const routes: RouteConfig[] = [
     path: '/v1/friends',
     handler: friendsHandler,
     description: 'Friend requests and friendships',
+    rateLimits: [
+      { name: 'friend-request', methods: ['POST'], pattern: /^\/v1\/friends\/requests?\/?$/, capacity: 10, refillPerMinute: 1 },
+    ],
   },
 
   // ==================== NOTIFICATIONS ====================
@@ -158,6 +201,36 @@ const routes: RouteConfig[] = [
     path: '/v1/recipes',
     handler: savedRecipesHandler,
     description: 'Personal saved recipes (CRUD, groups, favorites)',
+    rateLimits: [
+      // Each import fetches a third-party page
+      { name: 'recipe-import', methods: ['POST'], pattern: /^\/v1\/recipes\/import\/?$/, capacity: 5, refillPerMinute: 0.5 },
+      // Sharing creates a post, so it spends the same budget as POST /v1/posts
+      { ...POST_CREATE_LIMIT, pattern: /^\/v1\/recipes\/[^/]+\/share\/?$/ },
+    ],
+  },
+
+  // ==================== MEAL PLANS ====================
+  {
+    path: '/v1/meal-plans',
+    handler: mealPlansHandler,
+    description: 'Weekly meal plans (slots, drag & drop, AI fill)',
+    rateLimits: [
+      { name: 'meal-plan-fill', methods: ['POST'], pattern: /\/fill\/?$/, capacity: 3, refillPerMinute: 0.2 },
+    ],
+  },
+
+  // ==================== SHOPPING LISTS ====================
+  {
+    path: '/v1/shopping-lists',
+    handler: shoppingListsHandler,
+    description: 'Aggregated shopping lists (check-off, share with friends)',
+  },
+
+  // ==================== PANTRY ====================
+  {
+    path: '/v1/pantry',
+    handler: pantryHandler,
+    description: 'Pantry inventory (expiry tracking, deduction after cooking)',
   },
 
   // ==================== LEGACY ROUTES ====================
@@ -255,6 +328,20 @@ export const handler = async (
       console.log(`User authenticated: ${userId}`, { groups });
     }
 
+    // Only requests that hit a bucket pay for verifying the token
+    const rateLimits = RateLimiter.matchRules(matchedRoute?.rateLimits || [], event.httpMethod, path);
+    const limited = rateLimits.length > 0 && await RateLimiter.enforce(rateLimits, {
+      method: event.httpMethod,
+      path,
+      userId: await verifiedUserId(authHeader),
+      sourceIp: event.requestContext?.identity?.sourceIp,
+    });
+
+    if (limited) {
+      console.warn(`Rate limited: ${limited.rule}`, { path, retryAfter: limited.retryAfterSeconds });
+      return tooManyRequestsResponse(limited.retryAfterSeconds);
+    }
+
     // Route to appropriate handler
     const result = await targetHandler(event, context);
 
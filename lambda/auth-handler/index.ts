@@ -13,6 +13,7 @@ import {
 import { APIGatewayEvent, APIResponse, UserProfile } from '../shared/utils/types';
 import { successResponse, errorResponse, handleError, AppError } from '../shared/errors/responses';
 import { DynamoDBHelper } from '../shared/database/dynamodb';
+import { UserSearchIndex } from '../shared/auth/user-search-index';
 import { 
   generateUUID, 
   validateEmail, 
@@ -546,6 +547,8 @@ async function createOrUpdateUserProfile(idToken: string): Promise<void> {
       updated_at: now,
     });
 
+    await UserSearchIndex.indexUser(profileData);
+
     logStructured('INFO', 'User profile created successfully (lazy creation)', { 
       userId, 
       email,
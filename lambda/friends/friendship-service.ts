@@ -161,6 +161,8 @@ export class FriendshipService {
       { '#status': 'status' }
     );
 
+    await this.adjustFriendCount([userId, friendId], 1);
+
     logStructured('INFO', 'Friend request accepted', {
       friendshipId,
       userId,
@@ -244,12 +246,21 @@ export class FriendshipService {
       throw new AppError(404, 'friendship_not_found', 'Friendship not found');
     }
 
+    // Deleting a blocked record would silently lift the block
+    if (friendship.status === 'blocked') {
+      throw new AppError(409, 'blocked', 'Use unblock to remove a blocked user');
+    }
+
     const friendId = friendship.friend_id;
 
     // Delete both records
     await DynamoDBHelper.delete(`USER#${userId}`, `FRIEND#${friendId}`);
     await DynamoDBHelper.delete(`USER#${friendId}`, `FRIEND#${userId}`);
 
+    if (friendship.status === 'accepted') {
+      await this.adjustFriendCount([userId, friendId], -1);
+    }
+
     logStructured('INFO', 'Friendship removed', {
       friendshipId,
       userId,
@@ -331,6 +342,82 @@ export class FriendshipService {
     return result.Items[0] || null;
   }
 
+  /**
+   * Helper: Keep friend_count on the users' profiles in step (used to rank popular users).
+   * A stale count only affects suggestions, so failures are logged and ignored.
+   */
+  private static async adjustFriendCount(userIds: string[], delta: number): Promise<void> {
+    try {
+      await Promise.all(userIds.map(id =>
+        DynamoDBHelper.update(`USER#${id}`, 'PROFILE', 'SET GSI5PK = :popular ADD friend_count :delta', {
+          ':popular': 'POPULAR_USERS',
+          ':delta': delta
+        })
+      ));
+    } catch (error) {
+      logStructured('WARN', 'Failed to update friend count', { userIds, delta, error: String(error) });
+    }
+  }
+
+  /**
+   * Recount every profile's accepted friendships and put it in GSI5 (backfill for friendships
+   * made before friend_count was kept). Returns the number of profiles counted.
+   */
+  static async rebuildFriendCounts(): Promise<number> {
+    let counted = 0;
+    let startKey: any;
+
+    do {
+      const result = await DynamoDBHelper.scan({
+        FilterExpression: 'SK = :sk',
+        ExpressionAttributeValues: { ':sk': 'PROFILE' },
+        ExclusiveStartKey: startKey
+      });
+
+      for (const profile of result.Items || []) {
+        if (!profile.user_id) continue;
+        const friendCount = await this.countAcceptedFriends(profile.user_id);
+        await DynamoDBHelper.update(`USER#${profile.user_id}`, 'PROFILE', 'SET GSI5PK = :popular, friend_count = :count', {
+          ':popular': 'POPULAR_USERS',
+          ':count': friendCount
+        });
+        counted++;
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    logStructured('INFO', 'Friend counts rebuilt', { counted });
+    return counted;
+  }
+
+  /**
+   * Helper: Count a user's accepted FRIEND# rows
+   */
+  private static async countAcceptedFriends(userId: string): Promise<number> {
+    let count = 0;
+    let startKey: any;
+
+    do {
+      const result = await DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: '#status = :accepted',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': 'FRIEND#',
+          ':accepted': 'accepted'
+        },
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExclusiveStartKey: startKey
+      });
+
+      count += (result.Items || []).length;
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return count;
+  }
+
   /**
    * Helper: Check if friendship exists between two users (either direction)
    */
@@ -7,6 +7,7 @@ import { APIGatewayEvent, APIResponse } from '../shared/utils/types';
 import { successResponse, errorResponse, handleError, AppError } from '../shared/errors/responses';
 import { getUserIdFromEvent } from '../shared/utils/utils';
 import { FriendshipService } from './friendship-service';
+import { UserSearchService } from '../shared/auth/user-search-service';
 import { logger } from '../shared/monitoring/logger';
 import { metrics } from '../shared/monitoring/metrics';
 import { tracer } from '../shared/monitoring/tracer';
@@ -49,6 +50,11 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await sendFriendRequest(userId, event.body);
     }
 
+    // GET /friends/suggestions - People you may know
+    if (method === 'GET' && normalizedPath.endsWith('/friends/suggestions')) {
+      return await getFriendSuggestions(userId, event.queryStringParameters);
+    }
+
     // GET /friends/requests - Get pending friend requests
     if (method === 'GET' && (normalizedPath.includes('/friends/request') || normalizedPath.includes('/friends/requests'))) {
       return await getPendingRequests(userId, event.queryStringParameters);
@@ -188,6 +194,23 @@ async function getFriends(userId: string, queryParams: any): Promise<APIResponse
   });
 }
 
+/**
+ * Get friend suggestions ranked by mutual friends
+ */
+async function getFriendSuggestions(userId: string, queryParams: any): Promise<APIResponse> {
+  const limit = queryParams?.limit ? parseInt(queryParams.limit) : 10;
+
+  if (isNaN(limit) || limit < 1 || limit > 50) {
+    throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 50');
+  }
+
+  const suggestions = await UserSearchService.getSuggestedFriends(userId, limit);
+  return successResponse({
+    suggestions,
+    total_count: suggestions.length
+  });
+}
+
 /**
  * Get reverse friendships (who friended me)
  * Uses GSI4 for efficient reverse lookup
@@ -0,0 +1,224 @@
+/**
+ * Meal Plans Lambda Handler
+ * Weekly meal planning with saved recipes and AI-filled slots
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { MealPlanService } from './meal-plan-service';
+import { successResponse, errorResponse, handleError, AppError } from '../shared/errors/responses';
+import { getUserIdFromEvent } from '../shared/utils/utils';
+import { logger } from '../shared/monitoring/logger';
+import { metrics } from '../shared/monitoring/metrics';
+import { SetSlotRequest, MoveSlotRequest, FillMealPlanRequest, MealType } from './types';
+
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const startTime = Date.now();
+
+  // Initialize logger
+  logger.initFromEvent(event);
+  logger.logFunctionStart('meal-plans', event);
+
+  try {
+    const method = event.httpMethod;
+    const path = event.path;
+
+    // Handle OPTIONS for CORS
+    if (method === 'OPTIONS') {
+      return {
+        statusCode: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+          'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        },
+        body: '',
+      };
+    }
+
+    const userId = getUserIdFromEvent(event);
+
+    // Normalize path
+    const normalizedPath = path.endsWith('/') && path.length > 1 ? path.slice(0, -1) : path;
+
+    logger.info('Meal plans request received', {
+      method,
+      path: normalizedPath,
+      userId
+    });
+
+    // GET /v1/meal-plans - List saved weekly plans
+    if (method === 'GET' && normalizedPath.match(/\/meal-plans$/)) {
+      return await listMealPlans(userId);
+    }
+
+    // PUT|DELETE /v1/meal-plans/{weekStart}/slots/{date}/{meal} - Set or clear a slot
+    const slotMatch = normalizedPath.match(/\/meal-plans\/([^/]+)\/slots\/([^/]+)\/([^/]+)$/);
+    if (slotMatch) {
+      const [, weekStart, date, meal] = slotMatch;
+      const slot = { date, meal: meal as MealType };
+
+      if (method === 'PUT') {
+        return await setSlot(userId, weekStart, slot, event.body);
+      }
+      if (method === 'DELETE') {
+        return await clearSlot(userId, weekStart, slot);
+      }
+    }
+
+    // POST /v1/meal-plans/{weekStart}/move - Move a recipe between slots (drag & drop)
+    if (method === 'POST' && normalizedPath.match(/\/meal-plans\/[^/]+\/move$/)) {
+      const weekStart = normalizedPath.split('/')[normalizedPath.split('/').length - 2];
+      return await moveSlot(userId, weekStart, event.body);
+    }
+
+    // POST /v1/meal-plans/{weekStart}/fill - Fill empty slots with suggestions
+    if (method === 'POST' && normalizedPath.match(/\/meal-plans\/[^/]+\/fill$/)) {
+      const weekStart = normalizedPath.split('/')[normalizedPath.split('/').length - 2];
+      return await fillEmptySlots(userId, weekStart, event.body);
+    }
+
+    // GET /v1/meal-plans/{weekStart} - Get a week's plan
+    if (method === 'GET' && normalizedPath.match(/\/meal-plans\/[^/]+$/)) {
+      const weekStart = normalizedPath.split('/').pop()!;
+      return await getMealPlan(userId, weekStart);
+    }
+
+    // DELETE /v1/meal-plans/{weekStart} - Delete a week's plan
+    if (method === 'DELETE' && normalizedPath.match(/\/meal-plans\/[^/]+$/)) {
+      const weekStart = normalizedPath.split('/').pop()!;
+      return await deleteMealPlan(userId, weekStart);
+    }
+
+    return errorResponse(404, 'not_found', 'Endpoint not found');
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    logger.error('Meal plans handler error', error, { duration });
+    metrics.trackApiRequest(500, duration, 'meal-plans');
+    logger.logFunctionEnd('meal-plans', 500, duration);
+    return handleError(error);
+  } finally {
+    const duration = Date.now() - startTime;
+    logger.logFunctionEnd('meal-plans', 200, duration);
+    await metrics.flush();
+  }
+}
+
+// ==================== HANDLERS ====================
+
+async function listMealPlans(userId: string): Promise<APIGatewayProxyResult> {
+  const plans = await MealPlanService.listMealPlans(userId);
+
+  metrics.trackApiRequest(200, Date.now(), 'meal-plans');
+
+  return successResponse({
+    plans,
+    total: plans.length
+  });
+}
+
+async function getMealPlan(userId: string, weekStart: string): Promise<APIGatewayProxyResult> {
+  const plan = await MealPlanService.getMealPlan(userId, weekStart);
+
+  metrics.trackApiRequest(200, Date.now(), 'meal-plans');
+
+  return successResponse({ plan });
+}
+
+async function setSlot(
+  userId: string,
+  weekStart: string,
+  slot: { date: string; meal: MealType },
+  body: string | null
+): Promise<APIGatewayProxyResult> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: SetSlotRequest = JSON.parse(body);
+
+  if (!request.saved_id) {
+    throw new AppError(400, 'missing_saved_id', 'saved_id is required');
+  }
+
+  if (request.servings !== undefined && (!Number.isInteger(request.servings) || request.servings < 1)) {
+    throw new AppError(400, 'invalid_servings', 'servings must be a positive integer');
+  }
+
+  const plan = await MealPlanService.setSlot(userId, weekStart, slot, request);
+
+  metrics.trackApiRequest(200, Date.now(), 'meal-plans');
+
+  return successResponse({
+    message: 'Meal slot updated successfully',
+    plan
+  });
+}
+
+async function clearSlot(
+  userId: string,
+  weekStart: string,
+  slot: { date: string; meal: MealType }
+): Promise<APIGatewayProxyResult> {
+  const plan = await MealPlanService.clearSlot(userId, weekStart, slot);
+
+  metrics.trackApiRequest(200, Date.now(), 'meal-plans');
+
+  return successResponse({
+    message: 'Meal slot cleared successfully',
+    plan
+  });
+}
+
+async function moveSlot(userId: string, weekStart: string, body: string | null): Promise<APIGatewayProxyResult> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: MoveSlotRequest = JSON.parse(body);
+
+  if (!request.from?.date || !request.from?.meal || !request.to?.date || !request.to?.meal) {
+    throw new AppError(400, 'missing_fields', 'from and to slots ({ date, meal }) are required');
+  }
+
+  const plan = await MealPlanService.moveSlot(userId, weekStart, request);
+
+  metrics.trackApiRequest(200, Date.now(), 'meal-plans');
+
+  return successResponse({
+    message: 'Meal moved successfully',
+    plan
+  });
+}
+
+async function fillEmptySlots(userId: string, weekStart: string, body: string | null): Promise<APIGatewayProxyResult> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: FillMealPlanRequest = JSON.parse(body);
+
+  if (!Array.isArray(request.ingredients) || request.ingredients.length === 0) {
+    throw new AppError(400, 'missing_ingredients', 'ingredients array is required');
+  }
+
+  const result = await MealPlanService.fillEmptySlots(userId, weekStart, request);
+
+  metrics.trackApiRequest(200, Date.now(), 'meal-plans');
+
+  return successResponse({
+    message: `Filled ${result.filled.length} meal slot(s)`,
+    ...result
+  });
+}
+
+async function deleteMealPlan(userId: string, weekStart: string): Promise<APIGatewayProxyResult> {
+  await MealPlanService.deleteMealPlan(userId, weekStart);
+
+  metrics.trackApiRequest(200, Date.now(), 'meal-plans');
+
+  return successResponse({
+    message: 'Meal plan deleted successfully',
+    week_start: weekStart
+  });
+}
@@ -0,0 +1,321 @@
+/**
+ * Meal Plan Service
+ * Weekly breakfast/lunch/dinner plans built from saved recipes and AI suggestions
+ */
+
+import { DynamoDBHelper } from '../shared/database/dynamodb';
+import { formatTimestamp } from '../shared/utils/utils';
+import { logger } from '../shared/monitoring/logger';
+import { AppError } from '../shared/errors/responses';
+import { Recipe, UserProfile, UserPreferences } from '../shared/utils/types';
+import { SavedRecipeService } from '../saved-recipes/saved-recipe-service';
+import { SavedRecipe } from '../saved-recipes/types';
+import { FlexibleMixAlgorithm } from '../ai-suggestion/flexible-mix-algorithm';
+import { BedrockAIClient } from '../ai-suggestion/bedrock-client';
+import { DEFAULT_SERVINGS } from '../shared/business/ingredients/recipe-scaler';
+import {
+  MealPlan,
+  MealPlanDay,
+  MealPlanEntry,
+  MealType,
+  MEAL_TYPES,
+  SlotRef,
+  SetSlotRequest,
+  MoveSlotRequest,
+  FillMealPlanRequest,
+  FillMealPlanResult
+} from './types';
+
+// FlexibleMixAlgorithm generates at most one AI recipe per cooking method
+const MAX_FILL_SLOTS = 7;
+
+let mixAlgorithm: FlexibleMixAlgorithm | null = null;
+
+function getMixAlgorithm(): FlexibleMixAlgorithm {
+  if (!mixAlgorithm) {
+    mixAlgorithm = new FlexibleMixAlgorithm(
+      process.env.DYNAMODB_TABLE || 'smart-cooking-data',
+      process.env.AWS_REGION || 'us-east-1'
+    );
+  }
+  return mixAlgorithm;
+}
+
+export class MealPlanService {
+  /**
+   * Validate that weekStart is a Monday in YYYY-MM-DD format
+   */
+  static validateWeekStart(weekStart: string): void {
+    const date = new Date(`${weekStart}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(weekStart) || isNaN(date.getTime())) {
+      throw new AppError(400, 'invalid_week_start', 'week_start must be a date in YYYY-MM-DD format');
+    }
+    if (date.getUTCDay() !== 1) {
+      throw new AppError(400, 'invalid_week_start', 'week_start must be a Monday');
+    }
+  }
+
+  /**
+   * Get the plan for a week (an empty plan if none has been saved yet)
+   */
+  static async getMealPlan(userId: string, weekStart: string): Promise<MealPlan> {
+    this.validateWeekStart(weekStart);
+
+    const item = await DynamoDBHelper.get(`USER#${userId}`, `MEAL_PLAN#${weekStart}`);
+    if (item) {
+      return item as MealPlan;
+    }
+
+    const now = formatTimestamp();
+    return {
+      user_id: userId,
+      week_start: weekStart,
+      days: this.buildEmptyDays(weekStart),
+      created_at: now,
+      updated_at: now
+    };
+  }
+
+  /**
+   * List the user's saved plans, most recent week first
+   */
+  static async listMealPlans(userId: string, limit: number = 10): Promise<MealPlan[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'MEAL_PLAN#'
+      },
+      ScanIndexForward: false,
+      Limit: limit
+    });
+
+    return result.Items as MealPlan[];
+  }
+
+  /**
+   * Put a saved recipe into a slot (replaces whatever was there)
+   */
+  static async setSlot(
+    userId: string,
+    weekStart: string,
+    slot: SlotRef,
+    request: SetSlotRequest
+  ): Promise<MealPlan> {
+    const plan = await this.getMealPlan(userId, weekStart);
+    const day = this.findDay(plan, slot);
+
+    const recipes = await SavedRecipeService.getSavedRecipes(userId);
+    const recipe = recipes.find(r => r.saved_id === request.saved_id);
+    if (!recipe) {
+      throw new AppError(404, 'recipe_not_found', 'Saved recipe not found');
+    }
+
+    const servings = request.servings || await this.getHouseholdSize(userId);
+    day.meals[slot.meal] = this.entryFromSavedRecipe(recipe, servings);
+
+    await this.saveMealPlan(plan);
+    logger.info('Meal plan slot set', { userId, weekStart, slot, savedId: request.saved_id });
+
+    return plan;
+  }
+
+  /**
+   * Empty a slot
+   */
+  static async clearSlot(userId: string, weekStart: string, slot: SlotRef): Promise<MealPlan> {
+    const plan = await this.getMealPlan(userId, weekStart);
+    const day = this.findDay(plan, slot);
+
+    delete day.meals[slot.meal];
+
+    await this.saveMealPlan(plan);
+    logger.info('Meal plan slot cleared', { userId, weekStart, slot });
+
+    return plan;
+  }
+
+  /**
+   * Move a recipe to another slot (drag & drop). If the target is occupied the two swap.
+   */
+  static async moveSlot(userId: string, weekStart: string, request: MoveSlotRequest): Promise<MealPlan> {
+    const plan = await this.getMealPlan(userId, weekStart);
+    const fromDay = this.findDay(plan, request.from);
+    const toDay = this.findDay(plan, request.to);
+
+    const moving = fromDay.meals[request.from.meal];
+    if (!moving) {
+      throw new AppError(400, 'empty_slot', 'There is no recipe in the source slot');
+    }
+
+    const displaced = toDay.meals[request.to.meal];
+    toDay.meals[request.to.meal] = moving;
+    if (displaced) {
+      fromDay.meals[request.from.meal] = displaced;
+    } else {
+      delete fromDay.meals[request.from.meal];
+    }
+
+    await this.saveMealPlan(plan);
+    logger.info('Meal plan slot moved', { userId, weekStart, from: request.from, to: request.to });
+
+    return plan;
+  }
+
+  /**
+   * Fill empty slots with FlexibleMixAlgorithm suggestions.
+   * The user's preferences flow into the suggestion context (household_size,
+   * max_cooking_time_minutes, budget_level); recipes over the time limit are skipped.
+   */
+  static async fillEmptySlots(
+    userId: string,
+    weekStart: string,
+    request: FillMealPlanRequest
+  ): Promise<FillMealPlanResult> {
+    const plan = await this.getMealPlan(userId, weekStart);
+
+    const requested = request.slots || plan.days.flatMap(day =>
+      MEAL_TYPES.map(meal => ({ date: day.date, meal }))
+    );
+    const emptySlots = requested.filter(slot => !this.findDay(plan, slot).meals[slot.meal]);
+    const targets = emptySlots.slice(0, MAX_FILL_SLOTS);
+
+    if (targets.length === 0) {
+      return { plan, filled: [], remaining_empty: 0 };
+    }
+
+    const [profile, preferences] = await Promise.all([
+      DynamoDBHelper.getUserProfile(userId) as Promise<UserProfile | undefined>,
+      DynamoDBHelper.getUserPreferences(userId) as Promise<UserPreferences | undefined>
+    ]);
+    const userContext = BedrockAIClient.createUserContext(profile, preferences);
+    const servings = preferences?.household_size || DEFAULT_SERVINGS;
+
+    const mix = await getMixAlgorithm().generateMixedRecipes({
+      ingredients: request.ingredients,
+      recipe_count: targets.length,
+      user_context: userContext
+    });
+
+    const candidates = mix.recipes.filter(recipe =>
+      !userContext.max_cooking_time_minutes || this.totalTime(recipe) <= userContext.max_cooking_time_minutes
+    );
+
+    const filled: SlotRef[] = [];
+    for (const slot of targets) {
+      if (candidates.length === 0) break;
+
+      // Breakfast takes the quickest remaining recipe, other meals take them in suggestion order
+      let index = 0;
+      if (slot.meal === 'breakfast') {
+        candidates.forEach((recipe, i) => {
+          if (this.totalTime(recipe) < this.totalTime(candidates[index])) index = i;
+        });
+      }
+      const [recipe] = candidates.splice(index, 1);
+
+      this.findDay(plan, slot).meals[slot.meal] = this.entryFromSuggestion(recipe, servings);
+      filled.push(slot);
+    }
+
+    if (filled.length > 0) {
+      await this.saveMealPlan(plan);
+    }
+
+    logger.info('Meal plan filled from suggestions', {
+      userId,
+      weekStart,
+      requested: targets.length,
+      filled: filled.length,
+      fromDatabase: mix.stats.from_database,
+      fromAi: mix.stats.from_ai
+    });
+
+    return {
+      plan,
+      filled,
+      remaining_empty: emptySlots.length - filled.length
+    };
+  }
+
+  /**
+   * Delete a week's plan
+   */
+  static async deleteMealPlan(userId: string, weekStart: string): Promise<void> {
+    this.validateWeekStart(weekStart);
+    await DynamoDBHelper.delete(`USER#${userId}`, `MEAL_PLAN#${weekStart}`);
+    logger.info('Meal plan deleted', { userId, weekStart });
+  }
+
+  private static async saveMealPlan(plan: MealPlan): Promise<void> {
+    plan.updated_at = formatTimestamp();
+
+    await DynamoDBHelper.put({
+      PK: `USER#${plan.user_id}`,
+      SK: `MEAL_PLAN#${plan.week_start}`,
+      entity_type: 'MEAL_PLAN',
+      ...plan
+    });
+  }
+
+  private static buildEmptyDays(weekStart: string): MealPlanDay[] {
+    const start = new Date(`${weekStart}T00:00:00Z`);
+
+    return Array.from({ length: 7 }, (_, offset) => {
+      const date = new Date(start);
+      date.setUTCDate(start.getUTCDate() + offset);
+      return { date: date.toISOString().slice(0, 10), meals: {} };
+    });
+  }
+
+  private static findDay(plan: MealPlan, slot: SlotRef): MealPlanDay {
+    if (!MEAL_TYPES.includes(slot.meal as MealType)) {
+      throw new AppError(400, 'invalid_meal', `meal must be one of: ${MEAL_TYPES.join(', ')}`);
+    }
+
+    const day = plan.days.find(d => d.date === slot.date);
+    if (!day) {
+      throw new AppError(400, 'invalid_date', `${slot.date} is not in the week starting ${plan.week_start}`);
+    }
+    return day;
+  }
+
+  private static async getHouseholdSize(userId: string): Promise<number> {
+    const preferences = await DynamoDBHelper.getUserPreferences(userId) as UserPreferences | undefined;
+    return preferences?.household_size || DEFAULT_SERVINGS;
+  }
+
+  private static totalTime(recipe: Recipe): number {
+    return (recipe.prep_time_minutes || 0) + (recipe.cook_time_minutes || 0);
+  }
+
+  private static entryFromSavedRecipe(recipe: SavedRecipe, servings: number): MealPlanEntry {
+    const totalTime = recipe.recipe_instructions.reduce((sum, step) => sum + (step.duration_minutes || 0), 0);
+
+    return {
+      source_type: 'saved_recipe',
+      saved_id: recipe.saved_id,
+      recipe_name: recipe.recipe_name,
+      recipe_ingredients: recipe.recipe_ingredients,
+      total_time_minutes: totalTime || undefined,
+      servings,
+      added_at: formatTimestamp()
+    };
+  }
+
+  private static entryFromSuggestion(recipe: Recipe, servings: number): MealPlanEntry {
+    return {
+      source_type: 'suggestion',
+      recipe_id: recipe.recipe_id,
+      recipe_name: recipe.title,
+      recipe_ingredients: recipe.ingredients.map(ingredient => ({
+        name: ingredient.ingredient_name,
+        quantity: String(ingredient.quantity),
+        unit: ingredient.unit
+      })),
+      total_time_minutes: this.totalTime(recipe) || undefined,
+      servings,
+      added_at: formatTimestamp()
+    };
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Meal Plan Types
+ */
+
+import { RecipeIngredient } from '../saved-recipes/types';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner'];
+
+/**
+ * Snapshot of the recipe placed in a slot.
+ * Ingredients are copied so the plan stays intact if the source recipe changes.
+ */
+export interface MealPlanEntry {
+  source_type: 'saved_recipe' | 'suggestion';
+  saved_id?: string; // When source_type = saved_recipe
+  recipe_id?: string; // When source_type = suggestion
+  recipe_name: string;
+  recipe_ingredients: RecipeIngredient[];
+  total_time_minutes?: number;
+  servings: number;
+  added_at: string;
+}
+
+export interface MealPlanDay {
+  date: string; // YYYY-MM-DD
+  meals: Partial<Record<MealType, MealPlanEntry>>;
+}
+
+export interface MealPlan {
+  user_id: string;
+  week_start: string; // Monday, YYYY-MM-DD
+  days: MealPlanDay[]; // Always 7 days, Monday first
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SlotRef {
+  date: string;
+  meal: MealType;
+}
+
+export interface SetSlotRequest {
+  saved_id: string;
+  servings?: number;
+}
+
+export interface MoveSlotRequest {
+  from: SlotRef;
+  to: SlotRef;
+}
+
+export interface FillMealPlanRequest {
+  ingredients: string[];
+  slots?: SlotRef[]; // Defaults to every empty slot in the week
+}
+
+export interface FillMealPlanResult {
+  plan: MealPlan;
+  filled: SlotRef[];
+  remaining_empty: number;
+}
@@ -76,6 +76,13 @@ async function processRecord(
     return;
   }
 
+  // Only TTL expiry counts; suspensions lifted on appeal delete the record themselves
+  if (record.userIdentity?.principalId !== 'dynamodb.amazonaws.com') {
+    console.log('Skipping manual deletion');
+    results.skipped++;
+    return;
+  }
+
   // Get the deleted item
   const oldImage = record.dynamodb?.OldImage;
   if (!oldImage) {
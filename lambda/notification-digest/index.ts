@@ -0,0 +1,22 @@
+/**
+ * Notification Digest Lambda Function
+ * Runs daily from EventBridge; sends daily digests every run and weekly digests on Mondays
+ */
+
+import { ScheduledEvent } from 'aws-lambda';
+import { NotificationDigestService, DigestRunResult } from '../shared/business/notifications/notification-digest-service';
+import { logger } from '../shared/monitoring/logger';
+
+export async function handler(event: ScheduledEvent): Promise<Record<string, DigestRunResult>> {
+  const runAt = event.time ? new Date(event.time) : new Date();
+  const frequencies: Array<'daily' | 'weekly'> = runAt.getUTCDay() === 1 ? ['daily', 'weekly'] : ['daily'];
+
+  logger.info('Notification digest run started', { runAt: runAt.toISOString(), frequencies });
+
+  const results: Record<string, DigestRunResult> = {};
+  for (const frequency of frequencies) {
+    results[frequency] = await NotificationDigestService.sendDigests(frequency);
+  }
+
+  return results;
+}
@@ -7,6 +7,7 @@ import { APIGatewayEvent, APIResponse } from '../shared/utils/types';
 import { successResponse, errorResponse, handleError, AppError } from '../shared/errors/responses';
 import { getUserIdFromEvent } from '../shared/utils/utils';
 import { NotificationService } from '../shared/business/notifications/notification-service';
+import { NotificationPreferencesService } from '../shared/business/notifications/notification-preferences';
 import { logger } from '../shared/monitoring/logger';
 import { metrics } from '../shared/monitoring/metrics';
 
@@ -54,6 +55,14 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await getUnreadCount(userId);
     }
 
+    if (method === 'GET' && (normalizedPath === '/notifications/preferences' || normalizedPath === '/v1/notifications/preferences')) {
+      return await getPreferences(userId);
+    }
+
+    if (method === 'PUT' && (normalizedPath === '/notifications/preferences' || normalizedPath === '/v1/notifications/preferences')) {
+      return await updatePreferences(userId, event.body);
+    }
+
     if (method === 'PUT' && normalizedPath.match(/\/notifications\/.+\/read$/)) {
       const parts = normalizedPath.split('/');
       const notificationId = parts[parts.length - 2] || '';
@@ -181,3 +190,35 @@ async function deleteNotification(userId: string, notificationId: string): Promi
     notification_id: notificationId
   });
 }
+
+/**
+ * Get notification preferences
+ */
+async function getPreferences(userId: string): Promise<APIResponse> {
+  const preferences = await NotificationPreferencesService.getPreferences(userId);
+
+  metrics.trackApiRequest(200, Date.now(), 'notifications');
+
+  return successResponse({ preferences });
+}
+
+/**
+ * Update notification preferences (partial)
+ */
+async function updatePreferences(userId: string, body: string | null): Promise<APIResponse> {
+  let updates: any;
+  try {
+    updates = JSON.parse(body || '{}');
+  } catch {
+    throw new AppError(400, 'invalid_request', 'Request body must be valid JSON');
+  }
+
+  const preferences = await NotificationPreferencesService.updatePreferences(userId, updates);
+
+  metrics.trackApiRequest(200, Date.now(), 'notifications');
+
+  return successResponse({
+    message: 'Notification preferences updated',
+    preferences
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * Pantry Lambda Handler
+ * Ingredient inventory with expiry dates, deducted automatically after cooking
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { PantryService } from './pantry-service';
+import { successResponse, errorResponse, handleError, AppError } from '../shared/errors/responses';
+import { getUserIdFromEvent } from '../shared/utils/utils';
+import { logger } from '../shared/monitoring/logger';
+import { metrics } from '../shared/monitoring/metrics';
+import { CreatePantryItemRequest, UpdatePantryItemRequest, DeductPantryRequest } from './types';
+
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const startTime = Date.now();
+
+  // Initialize logger
+  logger.initFromEvent(event);
+  logger.logFunctionStart('pantry', event);
+
+  try {
+    const method = event.httpMethod;
+    const path = event.path;
+
+    // Handle OPTIONS for CORS
+    if (method === 'OPTIONS') {
+      return {
+        statusCode: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+          'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        },
+        body: '',
+      };
+    }
+
+    const userId = getUserIdFromEvent(event);
+
+    // Normalize path
+    const normalizedPath = path.endsWith('/') && path.length > 1 ? path.slice(0, -1) : path;
+
+    logger.info('Pantry request received', {
+      method,
+      path: normalizedPath,
+      userId
+    });
+
+    // GET /v1/pantry - List items (?expiring_within=N for items expiring soon)
+    if (method === 'GET' && normalizedPath.match(/\/pantry$/)) {
+      return await listItems(userId, event.queryStringParameters?.expiring_within);
+    }
+
+    // POST /v1/pantry - Add an item
+    if (method === 'POST' && normalizedPath.match(/\/pantry$/)) {
+      return await addItem(userId, event.body);
+    }
+
+    // POST /v1/pantry/deduct - Deduct a cooked recipe's ingredients
+    if (method === 'POST' && normalizedPath.match(/\/pantry\/deduct$/)) {
+      return await deductIngredients(userId, event.body);
+    }
+
+    // PUT|DELETE /v1/pantry/{itemId}
+    const itemMatch = normalizedPath.match(/\/pantry\/([^/]+)$/);
+    if (itemMatch) {
+      if (method === 'PUT') {
+        return await updateItem(userId, itemMatch[1], event.body);
+      }
+      if (method === 'DELETE') {
+        return await deleteItem(userId, itemMatch[1]);
+      }
+    }
+
+    return errorResponse(404, 'not_found', 'Endpoint not found');
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    logger.error('Pantry handler error', error, { duration });
+    metrics.trackApiRequest(500, duration, 'pantry');
+    logger.logFunctionEnd('pantry', 500, duration);
+    return handleError(error);
+  } finally {
+    const duration = Date.now() - startTime;
+    logger.logFunctionEnd('pantry', 200, duration);
+    await metrics.flush();
+  }
+}
+
+// ==================== HANDLERS ====================
+
+async function listItems(userId: string, expiringWithin?: string): Promise<APIGatewayProxyResult> {
+  let items;
+
+  if (expiringWithin !== undefined) {
+    const days = parseInt(expiringWithin, 10);
+    if (isNaN(days) || days < 0) {
+      throw new AppError(400, 'invalid_expiring_within', 'expiring_within must be a non-negative number of days');
+    }
+    items = await PantryService.getExpiringItems(userId, days);
+  } else {
+    items = await PantryService.listItems(userId);
+  }
+
+  metrics.trackApiRequest(200, Date.now(), 'pantry');
+
+  return successResponse({
+    items,
+    total: items.length
+  });
+}
+
+async function addItem(userId: string, body: string | null): Promise<APIGatewayProxyResult> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: CreatePantryItemRequest = JSON.parse(body);
+  const item = await PantryService.addItem(userId, request);
+
+  metrics.trackApiRequest(201, Date.now(), 'pantry');
+
+  return successResponse({
+    message: 'Pantry item added successfully',
+    item
+  }, 201);
+}
+
+async function updateItem(userId: string, itemId: string, body: string | null): Promise<APIGatewayProxyResult> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: UpdatePantryItemRequest = JSON.parse(body);
+  const item = await PantryService.updateItem(userId, itemId, request);
+
+  metrics.trackApiRequest(200, Date.now(), 'pantry');
+
+  return successResponse({
+    message: 'Pantry item updated successfully',
+    item
+  });
+}
+
+async function deleteItem(userId: string, itemId: string): Promise<APIGatewayProxyResult> {
+  await PantryService.deleteItem(userId, itemId);
+
+  metrics.trackApiRequest(200, Date.now(), 'pantry');
+
+  return successResponse({
+    message: 'Pantry item deleted successfully',
+    item_id: itemId
+  });
+}
+
+async function deductIngredients(userId: string, body: string | null): Promise<APIGatewayProxyResult> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: DeductPantryRequest = JSON.parse(body);
+
+  if (!Array.isArray(request.ingredients) || request.ingredients.some(i => !i?.name)) {
+    throw new AppError(400, 'invalid_ingredients', 'ingredients must be an array of { name, quantity, unit }');
+  }
+
+  const result = await PantryService.deductIngredients(userId, request);
+
+  metrics.trackApiRequest(200, Date.now(), 'pantry');
+
+  return successResponse(result);
+}
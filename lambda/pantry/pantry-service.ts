@@ -0,0 +1,278 @@
+/**
+ * Pantry Service
+ * Persistent ingredient inventory with expiry tracking and deduction after cooking
+ */
+
+import { DynamoDBHelper } from '../shared/database/dynamodb';
+import { generateUUID, formatTimestamp } from '../shared/utils/utils';
+import { logger } from '../shared/monitoring/logger';
+import { AppError } from '../shared/errors/responses';
+import { normalizeVietnamese } from '../shared/utils/vietnamese-normalizer';
+import {
+  IngredientNormalizer,
+  normalizeUnit,
+  parseQuantity,
+  convertQuantity,
+  roundQuantity
+} from '../shared/business/ingredients';
+import {
+  PantryItem,
+  PantryItemResponse,
+  PantryLocation,
+  PANTRY_LOCATIONS,
+  ExpiryStatus,
+  CreatePantryItemRequest,
+  UpdatePantryItemRequest,
+  DeductPantryRequest,
+  DeductPantryResult
+} from './types';
+
+export const DEFAULT_EXPIRING_WITHIN_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PantryService {
+  /**
+   * List pantry items, soonest to expire first (items without an expiry date last)
+   */
+  static async listItems(userId: string): Promise<PantryItemResponse[]> {
+    // Pantry items live under USER#id / INGREDIENT#itemId
+    const result = await DynamoDBHelper.getUserIngredients(userId);
+    const today = this.today();
+
+    return ((result.Items || []) as PantryItem[])
+      .map(item => this.toResponse(item, today))
+      .sort((a, b) => {
+        if (a.days_until_expiry === null) return b.days_until_expiry === null ? a.name.localeCompare(b.name, 'vi') : 1;
+        if (b.days_until_expiry === null) return -1;
+        return a.days_until_expiry - b.days_until_expiry || a.name.localeCompare(b.name, 'vi');
+      });
+  }
+
+  /**
+   * Items that have not expired yet but will within the given number of days
+   */
+  static async getExpiringItems(
+    userId: string,
+    withinDays: number = DEFAULT_EXPIRING_WITHIN_DAYS
+  ): Promise<PantryItemResponse[]> {
+    const items = await this.listItems(userId);
+    return items.filter(item =>
+      item.days_until_expiry !== null && item.days_until_expiry >= 0 && item.days_until_expiry <= withinDays
+    );
+  }
+
+  static async addItem(userId: string, request: CreatePantryItemRequest): Promise<PantryItemResponse> {
+    if (!request.name || !request.name.trim()) {
+      throw new AppError(400, 'missing_name', 'name is required');
+    }
+    this.validateFields(request);
+
+    const now = formatTimestamp();
+    const item: PantryItem = {
+      item_id: generateUUID(),
+      user_id: userId,
+      name: IngredientNormalizer.normalize(request.name),
+      quantity: request.quantity ?? null,
+      unit: request.unit ? normalizeUnit(request.unit) : null,
+      purchase_date: request.purchase_date,
+      expiry_date: request.expiry_date,
+      location: request.location || 'fridge',
+      notes: request.notes,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.saveItem(item);
+    logger.info('Pantry item added', { userId, itemId: item.item_id, name: item.name });
+
+    return this.toResponse(item, this.today());
+  }
+
+  static async updateItem(
+    userId: string,
+    itemId: string,
+    request: UpdatePantryItemRequest
+  ): Promise<PantryItemResponse> {
+    const item = await this.getItem(userId, itemId);
+    this.validateFields({ ...item, ...request });
+
+    if (request.name !== undefined) {
+      if (!request.name.trim()) {
+        throw new AppError(400, 'missing_name', 'name cannot be empty');
+      }
+      item.name = IngredientNormalizer.normalize(request.name);
+    }
+    if (request.quantity !== undefined) item.quantity = request.quantity;
+    if (request.unit !== undefined) item.unit = request.unit ? normalizeUnit(request.unit) : null;
+    if (request.purchase_date !== undefined) item.purchase_date = request.purchase_date || undefined;
+    if (request.expiry_date !== undefined) item.expiry_date = request.expiry_date || undefined;
+    if (request.location !== undefined) item.location = request.location;
+    if (request.notes !== undefined) item.notes = request.notes;
+
+    await this.saveItem(item);
+    logger.info('Pantry item updated', { userId, itemId });
+
+    return this.toResponse(item, this.today());
+  }
+
+  static async deleteItem(userId: string, itemId: string): Promise<void> {
+    await this.getItem(userId, itemId);
+    await DynamoDBHelper.delete(`USER#${userId}`, `INGREDIENT#${itemId}`);
+    logger.info('Pantry item deleted', { userId, itemId });
+  }
+
+  /**
+   * Deduct a cooked recipe's ingredients from the pantry.
+   * Matching items are used soonest-to-expire first; items that reach zero are removed.
+   */
+  static async deductIngredients(userId: string, request: DeductPantryRequest): Promise<DeductPantryResult> {
+    const items = await this.listItems(userId);
+    const result: DeductPantryResult = { deductions: [], not_in_pantry: [], untracked: [] };
+    const changed = new Map<string, PantryItem>();
+
+    for (const ingredient of request.ingredients) {
+      const key = this.nameKey(ingredient.name);
+      const matches = items.filter(item => this.nameKey(item.name) === key);
+
+      if (matches.length === 0) {
+        result.not_in_pantry.push(ingredient.name);
+        continue;
+      }
+
+      let needed = parseQuantity(ingredient.quantity ?? null);
+      if (needed === null) {
+        // "Vừa đủ" amounts can't be deducted
+        result.untracked.push(ingredient.name);
+        continue;
+      }
+
+      const recipeUnit = ingredient.unit || '';
+      let deductedAny = false;
+
+      for (const match of matches) {
+        if (needed <= 0) break;
+
+        const item = changed.get(match.item_id) || match;
+        if (item.quantity === null || item.quantity <= 0) continue;
+
+        // Amount still needed, expressed in the pantry item's unit
+        const neededInItemUnit = convertQuantity(needed, recipeUnit, item.unit || '');
+        if (neededInItemUnit === null) continue;
+
+        const used = Math.min(item.quantity, neededInItemUnit);
+        const remaining = roundQuantity(item.quantity - used);
+
+        changed.set(item.item_id, { ...item, quantity: remaining });
+        result.deductions.push({
+          item_id: item.item_id,
+          name: item.name,
+          used: roundQuantity(used),
+          unit: item.unit,
+          remaining
+        });
+        deductedAny = true;
+
+        needed -= needed * (used / neededInItemUnit);
+      }
+
+      if (!deductedAny) {
+        result.untracked.push(ingredient.name);
+      }
+    }
+
+    for (const item of changed.values()) {
+      if (item.quantity !== null && item.quantity <= 0) {
+        await DynamoDBHelper.delete(`USER#${userId}`, `INGREDIENT#${item.item_id}`);
+      } else {
+        await this.saveItem(this.stripComputed(item));
+      }
+    }
+
+    logger.info('Pantry deducted after cooking', {
+      userId,
+      recipeTitle: request.recipe_title,
+      deducted: result.deductions.length,
+      notInPantry: result.not_in_pantry.length,
+      untracked: result.untracked.length
+    });
+
+    return result;
+  }
+
+  // ==================== PRIVATE ====================
+
+  private static async getItem(userId: string, itemId: string): Promise<PantryItem> {
+    const item = await DynamoDBHelper.get(`USER#${userId}`, `INGREDIENT#${itemId}`);
+    if (!item || item.entity_type !== 'PANTRY_ITEM') {
+      throw new AppError(404, 'pantry_item_not_found', 'Pantry item not found');
+    }
+    return item as PantryItem;
+  }
+
+  private static async saveItem(item: PantryItem): Promise<void> {
+    item.updated_at = formatTimestamp();
+
+    await DynamoDBHelper.put({
+      PK: `USER#${item.user_id}`,
+      SK: `INGREDIENT#${item.item_id}`,
+      entity_type: 'PANTRY_ITEM',
+      ...item
+    });
+  }
+
+  private static validateFields(request: UpdatePantryItemRequest): void {
+    if (request.quantity !== undefined && request.quantity !== null) {
+      if (typeof request.quantity !== 'number' || !isFinite(request.quantity) || request.quantity < 0) {
+        throw new AppError(400, 'invalid_quantity', 'quantity must be a non-negative number');
+      }
+    }
+
+    for (const field of ['purchase_date', 'expiry_date'] as const) {
+      const value = request[field];
+      if (value && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(`${value}T00:00:00Z`).getTime()))) {
+        throw new AppError(400, 'invalid_date', `${field} must be a date in YYYY-MM-DD format`);
+      }
+    }
+
+    if (request.purchase_date && request.expiry_date && request.expiry_date < request.purchase_date) {
+      throw new AppError(400, 'invalid_date', 'expiry_date cannot be before purchase_date');
+    }
+
+    if (request.location !== undefined && !PANTRY_LOCATIONS.includes(request.location as PantryLocation)) {
+      throw new AppError(400, 'invalid_location', `location must be one of: ${PANTRY_LOCATIONS.join(', ')}`);
+    }
+  }
+
+  private static toResponse(item: PantryItem, today: string): PantryItemResponse {
+    const days = item.expiry_date
+      ? Math.round((Date.parse(`${item.expiry_date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS)
+      : null;
+
+    let status: ExpiryStatus = 'unknown';
+    if (days !== null) {
+      status = days < 0 ? 'expired' : days <= DEFAULT_EXPIRING_WITHIN_DAYS ? 'expiring' : 'fresh';
+    }
+
+    return { ...this.stripComputed(item), days_until_expiry: days, expiry_status: status };
+  }
+
+  /**
+   * Drop table keys and computed fields so only PantryItem fields are stored or returned
+   */
+  private static stripComputed(item: PantryItem): PantryItem {
+    const stored = { ...item } as PantryItem & Record<string, unknown>;
+    for (const field of ['PK', 'SK', 'entity_type', 'days_until_expiry', 'expiry_status']) {
+      delete stored[field];
+    }
+    return stored;
+  }
+
+  private static nameKey(name: string): string {
+    return normalizeVietnamese(IngredientNormalizer.normalize(name));
+  }
+
+  private static today(): string {
+    return formatTimestamp().slice(0, 10);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Pantry Types
+ */
+
+export type PantryLocation = 'fridge' | 'freezer' | 'pantry';
+
+export const PANTRY_LOCATIONS: PantryLocation[] = ['fridge', 'freezer', 'pantry'];
+
+export type ExpiryStatus = 'expired' | 'expiring' | 'fresh' | 'unknown';
+
+export interface PantryItem {
+  item_id: string;
+  user_id: string;
+  name: string;
+  quantity: number | null; // null = not tracked ("một ít nước mắm")
+  unit: string | null;
+  purchase_date?: string; // YYYY-MM-DD
+  expiry_date?: string; // YYYY-MM-DD
+  location: PantryLocation;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Pantry item as returned by the API, with expiry computed for today
+ */
+export interface PantryItemResponse extends PantryItem {
+  days_until_expiry: number | null;
+  expiry_status: ExpiryStatus;
+}
+
+export interface CreatePantryItemRequest {
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+  purchase_date?: string;
+  expiry_date?: string;
+  location?: PantryLocation;
+  notes?: string;
+}
+
+export type UpdatePantryItemRequest = Partial<CreatePantryItemRequest>;
+
+export interface DeductIngredient {
+  name: string;
+  quantity?: string | number;
+  unit?: string;
+}
+
+export interface DeductPantryRequest {
+  ingredients: DeductIngredient[];
+  recipe_title?: string;
+}
+
+export interface PantryDeduction {
+  item_id: string;
+  name: string;
+  used: number;
+  unit: string | null;
+  remaining: number; // 0 means the item was removed
+}
+
+export interface DeductPantryResult {
+  deductions: PantryDeduction[];
+  not_in_pantry: string[]; // Recipe ingredients with no matching pantry item
+  untracked: string[]; // Matched, but the amount could not be deducted (no quantity or unit mismatch)
+}
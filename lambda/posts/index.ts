@@ -7,10 +7,11 @@ import { APIGatewayEvent, APIResponse } from '../shared/utils/types';
 import { successResponse, errorResponse, handleError, AppError } from '../shared/errors/responses';
 import { getUserIdFromEvent } from '../shared/utils/utils';
 import { PostsService } from './posts-service';
+import { RecipeExportService } from '../shared/business/recipe-export';
 import { logger } from '../shared/monitoring/logger';
 import { metrics } from '../shared/monitoring/metrics';
 import { tracer } from '../shared/monitoring/tracer';
-import { CreatePostRequest, UpdatePostRequest, CreateCommentRequest, CreateReactionRequest } from './types';
+import { CreatePostRequest, UpdatePostRequest, CreateCommentRequest, UpdateCommentRequest, CreateReactionRequest, CreateReportRequest, REPORT_REASON_LABELS } from './types';
 import { DynamoDBHelper } from '../shared/database/dynamodb';
 
 export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
@@ -64,6 +65,10 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await generateUploadUrls(userId, event.body);
     }
 
+    if (method === 'POST' && (normalizedPath === '/posts/report' || normalizedPath === '/v1/posts/report')) {
+      return await reportPost(userId, event.body);
+    }
+
     if (method === 'GET' && (normalizedPath === '/posts/feed' || normalizedPath === '/v1/posts/feed')) {
       return await getFeed(userId, event.queryStringParameters);
     }
@@ -73,6 +78,12 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await searchPostsByIngredients(userId, event.queryStringParameters);
     }
 
+    // Get posts by hashtag - must come before getPost
+    const tagMatch = normalizedPath.match(/^(?:\/v1)?\/posts\/tags\/([^/]+)$/);
+    if (method === 'GET' && tagMatch) {
+      return await getPostsByTag(userId, decodeURIComponent(tagMatch[1]), event.queryStringParameters);
+    }
+
     // Get trending posts - must come before getPost
     if (method === 'GET' && (normalizedPath === '/posts/trending' || normalizedPath === '/v1/posts/trending')) {
       return await getTrendingPosts(userId, event.queryStringParameters);
@@ -102,6 +113,40 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await getComments(postId, userId, event.queryStringParameters);
     }
 
+    // Replies, revisions, edit and delete of a single comment - must come before the post routes
+    const commentMatch = normalizedPath.match(/\/posts\/([^/]+)\/comments\/([^/]+)(?:\/(replies|revisions))?$/);
+    if (commentMatch) {
+      const [, postId, commentId, subResource] = commentMatch;
+
+      if (method === 'GET' && subResource === 'replies') {
+        return await getReplies(postId, commentId, userId, event.queryStringParameters);
+      }
+
+      if (method === 'GET' && subResource === 'revisions') {
+        return await getCommentRevisions(postId, commentId, userId);
+      }
+
+      if (method === 'PUT' && !subResource) {
+        return await updateComment(userId, postId, commentId, event.body);
+      }
+
+      if (method === 'DELETE' && !subResource) {
+        return await deleteComment(userId, postId, commentId);
+      }
+    }
+
+    // Published variations of a recipe post - must come before getPost
+    const forksMatch = normalizedPath.match(/^(?:\/v1)?\/posts\/([^/]+)\/forks$/);
+    if (method === 'GET' && forksMatch) {
+      return await getForks(userId, forksMatch[1], event.queryStringParameters);
+    }
+
+    // Recipe export (PDF, Markdown, JSON-LD) - must come before getPost
+    const exportMatch = normalizedPath.match(/^(?:\/v1)?\/posts\/([^/]+)\/export$/);
+    if (method === 'GET' && exportMatch) {
+      return await exportPost(userId, exportMatch[1], event.queryStringParameters);
+    }
+
     if (method === 'GET' && normalizedPath.match(/\/posts\/.+/) && !normalizedPath.includes('/comments') && !normalizedPath.includes('/share')) {
       const postId = normalizedPath.split('/').filter(p => p && p !== 'v1' && p !== 'posts')[0] || '';
       return await getPost(postId, userId);
@@ -200,7 +245,7 @@ async function createPost(userId: string, body: string | null): Promise<APIRespo
   metrics.trackApiRequest(201, Date.now(), 'posts');
 
   return successResponse({
-    message: 'Post created successfully',
+    message: post.moderation_status === 'held' ? 'Post submitted for review' : 'Post created successfully',
     post,
     user: userInfo,
     recipe: recipeInfo
@@ -317,6 +362,83 @@ async function getFeed(
   });
 }
 
+/**
+ * Get posts tagged with a hashtag (with privacy filtering)
+ */
+async function getPostsByTag(
+  userId: string,
+  tag: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const limit = queryParams?.limit ? parseInt(queryParams.limit) : 20;
+  const lastKey = queryParams?.last_key
+    ? JSON.parse(Buffer.from(queryParams.last_key, 'base64').toString())
+    : undefined;
+
+  const result = await PostsService.getPostsByTag(tag, userId, limit, lastKey);
+
+  // Encode next key for pagination
+  const nextKey = result.nextKey
+    ? Buffer.from(JSON.stringify(result.nextKey)).toString('base64')
+    : undefined;
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({
+    tag: result.tag,
+    posts: result.posts,
+    next_key: nextKey,
+    has_more: result.hasMore,
+    count: result.posts.length,
+  });
+}
+
+/**
+ * Export a recipe post; PDFs come back as a download link, Markdown and JSON-LD inline
+ */
+async function exportPost(
+  userId: string,
+  postId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const format = RecipeExportService.parseFormat(queryParams?.format);
+  const result = await PostsService.exportPost(postId, userId, format);
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse(result);
+}
+
+/**
+ * Get published forks of a recipe post, including forks of forks
+ */
+async function getForks(
+  userId: string,
+  postId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const limit = queryParams?.limit ? parseInt(queryParams.limit) : 20;
+  const lastKey = queryParams?.last_key
+    ? JSON.parse(Buffer.from(queryParams.last_key, 'base64').toString())
+    : undefined;
+
+  const result = await PostsService.getForks(postId, userId, limit, lastKey);
+
+  // Encode next key for pagination
+  const nextKey = result.nextKey
+    ? Buffer.from(JSON.stringify(result.nextKey)).toString('base64')
+    : undefined;
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({
+    forks: result.forks,
+    next_key: nextKey,
+    has_more: result.hasMore,
+    count: result.forks.length,
+  });
+}
+
 /**
  * Get posts by a specific user (with privacy filtering)
  */
@@ -394,6 +516,80 @@ async function getComments(
   });
 }
 
+/**
+ * Get replies to a comment
+ */
+async function getReplies(
+  postId: string,
+  commentId: string,
+  userId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const limit = queryParams?.limit ? parseInt(queryParams.limit) : 20;
+  const lastKey = queryParams?.last_key;
+
+  const result = await PostsService.getReplies(postId, commentId, userId, limit, lastKey);
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({
+    comments: result.comments,
+    next_key: result.next_key,
+    has_more: result.has_more,
+    count: result.comments.length,
+  });
+}
+
+/**
+ * Edit a comment
+ */
+async function updateComment(
+  userId: string,
+  postId: string,
+  commentId: string,
+  body: string | null
+): Promise<APIResponse> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: UpdateCommentRequest = JSON.parse(body);
+
+  const comment = await PostsService.updateComment(userId, postId, commentId, request);
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({ comment });
+}
+
+/**
+ * Get the earlier versions of an edited comment
+ */
+async function getCommentRevisions(postId: string, commentId: string, userId: string): Promise<APIResponse> {
+  const revisions = await PostsService.getCommentRevisions(postId, commentId, userId);
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({
+    revisions,
+    count: revisions.length,
+  });
+}
+
+/**
+ * Delete a comment (by its author or the post owner)
+ */
+async function deleteComment(userId: string, postId: string, commentId: string): Promise<APIResponse> {
+  await PostsService.deleteComment(userId, postId, commentId);
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({
+    message: 'Comment deleted successfully',
+    comment_id: commentId
+  });
+}
+
 /**
  * Create a reaction on a post or comment
  */
@@ -558,6 +754,36 @@ async function sharePost(
   }
 }
 
+/**
+ * Report a post to the moderators
+ */
+async function reportPost(userId: string, body: string | null): Promise<APIResponse> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: CreateReportRequest = JSON.parse(body);
+
+  if (!request.post_id) {
+    throw new AppError(400, 'missing_post_id', 'Post ID is required');
+  }
+  if (!Object.keys(REPORT_REASON_LABELS).includes(request.reason)) {
+    throw new AppError(400, 'invalid_reason', `Reason must be one of: ${Object.keys(REPORT_REASON_LABELS).join(', ')}`);
+  }
+  if (request.details && request.details.length > 1000) {
+    throw new AppError(400, 'details_too_long', 'Details must be less than 1000 characters');
+  }
+
+  const report = await PostsService.reportPost(userId, request);
+
+  metrics.trackApiRequest(201, Date.now(), 'posts');
+
+  return successResponse({
+    message: 'Thanks, our moderators will review this post',
+    report
+  }, 201);
+}
+
 /**
  * Get trending posts
  */
@@ -576,6 +802,7 @@ async function getTrendingPosts(
 
     return successResponse({
       posts: result.posts,
+      trending_tags: result.tags,
       count: result.posts.length,
       timeframe,
       type
@@ -7,16 +7,36 @@ import { DynamoDBHelper } from '../shared/database/dynamodb';
 import { generateUUID, formatTimestamp } from '../shared/utils/utils';
 import { logger } from '../shared/monitoring/logger';
 import { AppError } from '../shared/errors/responses';
-import { Post, CreatePostRequest, UpdatePostRequest, PostResponse, Comment, CreateCommentRequest, CommentResponse, Reaction, CreateReactionRequest, ReactionType, Share, CreateShareRequest, Report, CreateReportRequest, UpdateReportRequest } from './types';
+import { Post, CreatePostRequest, UpdatePostRequest, PostResponse, ForkResponse, RecipeAncestor, TrendingTag, Comment, CreateCommentRequest, UpdateCommentRequest, CommentResponse, CommentRevision, MAX_COMMENT_DEPTH, Reaction, CreateReactionRequest, ReactionType, Share, CreateShareRequest, Report, CreateReportRequest, UpdateReportRequest, REPORT_REASON_LABELS } from './types';
 import { PrivacySettings } from '../shared/utils/types';
 import { getUserPrivacySettings, createPrivacyContext, checkFriendship } from '../shared/auth/privacy-middleware';
+import { BlockService, HiddenUsers } from '../shared/auth/block-service';
 import { IngredientExtractor } from '../shared/business/ingredients/ingredient-extractor';
+import { NutritionCalculator, MIN_COVERAGE } from '../shared/business/nutrition';
+import { NotificationService } from '../shared/business/notifications';
+import { MentionService, Mention } from '../shared/business/mentions';
+import { HashtagService } from '../shared/business/hashtags';
+import { RecipeExportService, ExportFormat, ExportResult } from '../shared/business/recipe-export';
+import { ModerationService, ModerationInput, ModerationReview, ModerationCaseService, ModerationCase } from '../shared/business/moderation';
+
+// Tag and fork index pages read per request when filtering leaves a page short
+const MAX_INDEX_PAGES = 3;
+
+const TRENDING_TAGS_LIMIT = 10;
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://awssmartcookingss.com';
 
 export class PostsService {
   /**
-   * Create a new post
+   * Create a new post.
+   * `fork` carries the lineage of a recipe saved from other posts; it is built server-side
+   * (see getForkLineage) and never taken from the request body.
    */
-  static async createPost(userId: string, request: CreatePostRequest): Promise<Post> {
+  static async createPost(
+    userId: string,
+    request: CreatePostRequest,
+    fork?: { ancestry: RecipeAncestor[] }
+  ): Promise<Post> {
     // Validate request
     if (!request.content || request.content.trim().length === 0) {
       throw new AppError(400, 'missing_content', 'Post content is required');
@@ -47,8 +67,17 @@ export class PostsService {
     const privacy = request.privacy || (request as any).visibility || (request.is_public !== false ? 'public' : 'private');
     const isPublic = privacy === 'public';
 
-    // Determine GSI3PK based on post visibility
-    const gsi3pk = isPublic ? 'FEED#PUBLIC' : `FEED#${userId}`;
+    // Rejected posts throw here, before ingredients reach the master list
+    const moderationInput: ModerationInput = {
+      user_id: userId,
+      content_type: 'post',
+      content_id: postId,
+      post_id: postId,
+      text: this.moderationText(request.content, request.recipeData),
+      images: request.images,
+    };
+    const moderation = await ModerationService.enforce(moderationInput);
+    const held = moderation.decision === 'hold';
 
     // Extract and normalize ingredients if recipeData exists
     let extractedIngredients: string[] = [];
@@ -87,11 +116,17 @@ export class PostsService {
       }
     }
 
+    const content = request.content.trim();
+    const mentions = await MentionService.resolve(content);
+    const tags = HashtagService.extract(content);
+
     const post: Post = {
       post_id: postId,
       user_id: userId,
       recipe_id: request.recipe_id,
-      content: request.content.trim(),
+      content,
+      mentions,
+      tags,
       images: request.images || [],
       is_public: isPublic,
       privacy,
@@ -99,15 +134,18 @@ export class PostsService {
       comments_count: 0,
       created_at: now,
       updated_at: now,
-      recipeData: request.recipeData, // Store recipe data for search
+      recipeData: this.withComputedNutrition(request.recipeData), // Store recipe data for search
       cooked_count: 0,
+      ...(fork && fork.ancestry.length > 0 && {
+        forked_from_post_id: fork.ancestry[fork.ancestry.length - 1].post_id,
+        ancestry: fork.ancestry,
+      }),
+      ...(held && {
+        moderation_status: 'held' as const,
+        moderation_reasons: ModerationService.describe(moderation),
+      }),
     };
 
-    // Create searchable ingredient string for GSI2
-    const ingredientSearchString = extractedIngredients.length > 0
-      ? extractedIngredients.join('|').toLowerCase()
-      : '';
-
     // Save to DynamoDB
     await DynamoDBHelper.put({
       PK: `POST#${postId}`,
@@ -117,21 +155,29 @@ export class PostsService {
       extracted_ingredients: extractedIngredients, // Store normalized ingredient names
       GSI1PK: `USER#${userId}`, // For querying user's posts
       GSI1SK: `POST#${now}`,
-      GSI2PK: ingredientSearchString ? 'POSTS#INGREDIENTS' : undefined, // For ingredient search
-      GSI2SK: ingredientSearchString ? `${ingredientSearchString}#${now}` : undefined,
-      GSI3PK: gsi3pk, // For feed queries
-      GSI3SK: `POST#${now}`,
-      // Add GSI4 for recipe search if recipeData exists
-      ...(request.recipeData && {
-        GSI4PK: 'RECIPES',
-        GSI4SK: `${request.recipeData.cuisine || 'all'}#${now}`
-      })
+      ...this.discoveryIndexes(post, extractedIngredients),
     });
 
+    await this.syncTagIndex(post, [], tags);
+    if (post.ancestry) {
+      await this.syncForkIndex(post, 'add');
+    }
+
+    // Mentions and forks are announced once a moderator approves a held post
+    if (held) {
+      await ModerationService.queueForReview(moderationInput, moderation);
+    } else {
+      await this.notifyMentions({ authorId: userId, postItem: post, text: content, mentions });
+      if (post.ancestry) {
+        await this.notifyForked(post);
+      }
+    }
+
     logger.info('Post created successfully', {
       postId,
       userId,
       isPublic,
+      held,
       ingredientsExtracted: extractedIngredients.length
     });
 
@@ -192,9 +238,33 @@ export class PostsService {
       throw new AppError(400, 'too_many_images', 'Maximum 10 images per post');
     }
 
+    // Edits are moderated like new posts when the text or images change
+    const contentChanged = request.content !== undefined && request.content.trim() !== postItem.content;
+    const imagesChanged = request.images !== undefined
+      && JSON.stringify(request.images) !== JSON.stringify(postItem.images || []);
+    let moderationInput: ModerationInput | undefined;
+    let holdReasons: string[] | undefined;
+    if (contentChanged || imagesChanged) {
+      moderationInput = {
+        user_id: userId,
+        content_type: 'post',
+        content_id: postId,
+        post_id: postId,
+        text: this.moderationText(request.content ?? postItem.content, postItem.recipeData),
+        images: request.images ?? postItem.images,
+      };
+      const moderation = await ModerationService.enforce(moderationInput);
+      if (moderation.decision === 'hold' && postItem.moderation_status !== 'rejected') {
+        await ModerationService.queueForReview(moderationInput, moderation);
+        holdReasons = ModerationService.describe(moderation);
+      }
+    }
+    const hidden = this.isHiddenByModeration(postItem) || !!holdReasons;
+
     const now = formatTimestamp();
     const updates: any = {};
     const updateExpressions: string[] = [];
+    const removeExpressions: string[] = [];
     const expressionAttributeValues: any = {};
     const expressionAttributeNames: any = {};
 
@@ -203,10 +273,24 @@ export class PostsService {
     expressionAttributeNames['#updated_at'] = 'updated_at';
     expressionAttributeValues[':updated_at'] = now;
 
+    let mentions: Mention[] | undefined;
+    let tags: string[] | undefined;
     if (request.content !== undefined) {
+      const content = request.content.trim();
+      mentions = await MentionService.resolve(content);
+      tags = HashtagService.extract(content);
+
       updateExpressions.push('#content = :content');
       expressionAttributeNames['#content'] = 'content';
-      expressionAttributeValues[':content'] = request.content.trim();
+      expressionAttributeValues[':content'] = content;
+
+      updateExpressions.push('#mentions = :mentions');
+      expressionAttributeNames['#mentions'] = 'mentions';
+      expressionAttributeValues[':mentions'] = mentions;
+
+      updateExpressions.push('#tags = :tags');
+      expressionAttributeNames['#tags'] = 'tags';
+      expressionAttributeValues[':tags'] = tags;
     }
 
     if (request.images !== undefined) {
@@ -228,14 +312,30 @@ export class PostsService {
       expressionAttributeValues[':recipe_id'] = request.recipe_id;
     }
 
+    if (holdReasons) {
+      updateExpressions.push('#moderation_status = :moderation_status, #moderation_reasons = :moderation_reasons');
+      expressionAttributeNames['#moderation_status'] = 'moderation_status';
+      expressionAttributeNames['#moderation_reasons'] = 'moderation_reasons';
+      expressionAttributeValues[':moderation_status'] = 'held';
+      expressionAttributeValues[':moderation_reasons'] = holdReasons;
+
+      // Leave the public feed and search until a moderator approves the edit
+      if (!this.isHiddenByModeration(postItem)) {
+        updateExpressions.push('#GSI3PK = :GSI3PK');
+        expressionAttributeNames['#GSI3PK'] = 'GSI3PK';
+        expressionAttributeValues[':GSI3PK'] = `FEED#${userId}`;
+        removeExpressions.push('GSI2PK', 'GSI2SK', 'GSI4PK', 'GSI4SK');
+      }
+    }
+
     if (request.is_public !== undefined) {
       updateExpressions.push('#is_public = :is_public');
       expressionAttributeNames['#is_public'] = 'is_public';
       expressionAttributeValues[':is_public'] = request.is_public;
 
-      // Update GSI3PK if visibility changed
+      // Update GSI3PK if visibility changed; hidden posts move when they are approved
       const newGsi3pk = request.is_public ? 'FEED#PUBLIC' : `FEED#${userId}`;
-      if (newGsi3pk !== postItem.GSI3PK) {
+      if (!hidden && newGsi3pk !== postItem.GSI3PK) {
         updateExpressions.push('#GSI3PK = :GSI3PK');
         expressionAttributeNames['#GSI3PK'] = 'GSI3PK';
         expressionAttributeValues[':GSI3PK'] = newGsi3pk;
@@ -243,7 +343,8 @@ export class PostsService {
     }
 
     // Build update expression
-    const updateExpression = `SET ${updateExpressions.join(', ')}`;
+    const updateExpression = `SET ${updateExpressions.join(', ')}`
+      + (removeExpressions.length > 0 ? ` REMOVE ${removeExpressions.join(', ')}` : '');
 
     // Update in DynamoDB
     const updatedItem = await DynamoDBHelper.update(
@@ -254,6 +355,21 @@ export class PostsService {
       expressionAttributeNames
     );
 
+    if (tags) {
+      await this.syncTagIndex(postItem, postItem.tags || [], tags);
+    }
+
+    // Only users mentioned by this edit hear about it
+    if (mentions && !hidden) {
+      await this.notifyMentions({
+        authorId: userId,
+        postItem: { ...postItem, ...updatedItem },
+        text: expressionAttributeValues[':content'],
+        mentions,
+        previousMentions: postItem.mentions,
+      });
+    }
+
     logger.info('Post updated successfully', { postId, userId, updates: Object.keys(updates) });
 
     return this.convertDynamoItemToPost(updatedItem);
@@ -277,6 +393,14 @@ export class PostsService {
 
     // Delete the post
     await DynamoDBHelper.delete(`POST#${postId}`, 'METADATA');
+    if (postItem.moderation_status === 'held') {
+      await ModerationService.deleteReview(postId, 'post', postId);
+    }
+    await ModerationCaseService.deleteCase(postId);
+    await this.syncTagIndex(postItem, postItem.tags || [], []);
+    if (postItem.ancestry) {
+      await this.syncForkIndex(postItem, 'remove');
+    }
 
     // TODO: In future, also delete associated comments and reactions
     // This would be done in a separate cleanup process or using DynamoDB Streams
@@ -353,6 +477,27 @@ export class PostsService {
     }
   }
 
+  /**
+   * Recipe data with nutrition computed from its ingredients; nutrition sent by the client is never stored
+   */
+  private static withComputedNutrition(recipeData: CreatePostRequest['recipeData']): Post['recipeData'] {
+    if (!recipeData) {
+      return undefined;
+    }
+
+    const result = NutritionCalculator.calculate(
+      (recipeData.ingredients || []).map(ing => ({ name: ing.name, quantity: ing.amount, unit: ing.unit })),
+      recipeData.servings
+    );
+
+    return {
+      ...recipeData,
+      nutritional_info: result.coverage >= MIN_COVERAGE
+        ? NutritionCalculator.toNutritionalInfo(result)
+        : undefined
+    };
+  }
+
   /**
    * Convert DynamoDB item to Post object
    */
@@ -362,12 +507,19 @@ export class PostsService {
       user_id: item.user_id,
       recipe_id: item.recipe_id,
       content: item.content,
+      mentions: item.mentions || [],
+      tags: item.tags || [],
       images: item.images || [],
       is_public: item.is_public,
       likes_count: item.likes_count || 0,
       comments_count: item.comments_count || 0,
       created_at: item.created_at,
       updated_at: item.updated_at,
+      recipeData: item.recipeData,
+      forked_from_post_id: item.forked_from_post_id,
+      ancestry: item.ancestry,
+      moderation_status: item.moderation_status,
+      moderation_reasons: item.moderation_reasons,
     };
   }
 
@@ -386,9 +538,10 @@ export class PostsService {
     }
 
     try {
-      // Get user's friends list
+      // Get user's friends list and the users whose posts are hidden (blocked or muted)
       const friendships = await this.getUserFriends(userId);
       const friendIds = friendships.map(f => f.user_id);
+      const hiddenUsers = await BlockService.getHiddenUsers(userId);
 
       // Query public posts using GSI3
       const publicPostsResult = await DynamoDBHelper.query({
@@ -438,10 +591,10 @@ export class PostsService {
         allPosts = [...allPosts, ...friendPosts];
       }
 
-      // Remove duplicates based on post_id
+      // Remove duplicates based on post_id and posts from hidden users
       const uniquePosts = Array.from(
         new Map(allPosts.map(post => [post.post_id, post])).values()
-      );
+      ).filter(post => !BlockService.isHidden(hiddenUsers, post.user_id));
 
       // Sort by created_at descending (newest first)
       uniquePosts.sort((a, b) => {
@@ -458,7 +611,7 @@ export class PostsService {
 
         try {
           // Check if user can view this post
-          const canView = await this.canViewPost(userId, postItem);
+          const canView = await this.canViewPost(userId, postItem, hiddenUsers);
 
           if (canView) {
             const post = this.convertDynamoItemToPost(postItem);
@@ -522,6 +675,9 @@ export class PostsService {
     try {
       // Check if viewer can see target user's posts
       const isSelf = viewerId === targetUserId;
+      if (!isSelf && await BlockService.isBlocked(viewerId, targetUserId)) {
+        return { posts: [], hasMore: false };
+      }
       const isFriend = !isSelf && await checkFriendship(viewerId, targetUserId);
 
       // Query user's posts using GSI1
@@ -563,6 +719,11 @@ export class PostsService {
             continue;
           }
 
+          // Held and rejected posts are only listed for their author
+          if (this.isHiddenByModeration(postItem)) {
+            continue;
+          }
+
           // If public post, anyone can view
           if (isPublic) {
             const post = this.convertDynamoItemToPost(postItem);
@@ -661,7 +822,8 @@ export class PostsService {
         ExclusiveStartKey: lastKey,
       });
 
-      const posts = result.Items || [];
+      const hiddenUsers = await BlockService.getHiddenUsers(viewerId);
+      const posts = (result.Items || []).filter(post => !BlockService.isHidden(hiddenUsers, post.user_id));
       const matchedPosts: PostResponse[] = [];
 
       for (const postItem of posts) {
@@ -680,7 +842,7 @@ export class PostsService {
           if (!hasMatch) continue;
 
           // Check privacy
-          const canView = await this.canViewPost(viewerId, postItem);
+          const canView = await this.canViewPost(viewerId, postItem, hiddenUsers);
           if (!canView) continue;
 
           // Convert to post
@@ -726,6 +888,324 @@ export class PostsService {
     }
   }
 
+  /**
+   * Get posts tagged with a hashtag, newest first, with privacy filtering.
+   * Accented and unaccented spellings of the tag find the same posts.
+   */
+  static async getPostsByTag(
+    tag: string,
+    viewerId: string,
+    limit: number = 20,
+    lastKey?: any
+  ): Promise<{ tag: string; posts: PostResponse[]; nextKey?: any; hasMore: boolean }> {
+    const normalizedTag = HashtagService.normalize(tag);
+    if (!normalizedTag) {
+      throw new AppError(400, 'invalid_tag', 'Invalid hashtag');
+    }
+
+    if (limit < 1 || limit > 100) {
+      throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 100');
+    }
+
+    try {
+      const { results: posts, nextKey } = await this.pageVisiblePosts(
+        `TAG#${normalizedTag}`,
+        'POST#',
+        viewerId,
+        limit,
+        lastKey,
+        async (postItem): Promise<PostResponse> => {
+          const post = this.convertDynamoItemToPost(postItem);
+          const recipeInfo = post.recipe_id ? await this.getRecipeInfo(post.recipe_id) : null;
+          return {
+            post,
+            user: await this.getUserInfo(post.user_id, viewerId),
+            recipe: recipeInfo || undefined,
+          };
+        }
+      );
+
+      logger.info('Tag posts retrieved successfully', {
+        tag: normalizedTag,
+        viewerId,
+        postsReturned: posts.length,
+        hasMore: !!nextKey,
+      });
+
+      return {
+        tag: normalizedTag,
+        posts,
+        nextKey,
+        hasMore: !!nextKey,
+      };
+    } catch (error) {
+      logger.error('Failed to get posts by tag', error, { tag: normalizedTag, viewerId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lineage for a recipe forked from this post: the post's own ancestry followed by the post itself.
+   * The viewer must be able to see the post.
+   */
+  static async getForkLineage(postId: string, viewerId: string): Promise<RecipeAncestor[]> {
+    const post = await this.getPost(postId, viewerId);
+    if (!post.recipeData) {
+      throw new AppError(400, 'not_a_recipe_post', 'Post does not contain a recipe');
+    }
+
+    const author = await DynamoDBHelper.get(`USER#${post.user_id}`, 'PROFILE');
+
+    return [
+      ...(post.ancestry || []),
+      {
+        post_id: post.post_id,
+        user_id: post.user_id,
+        username: author?.username,
+        recipe_name: post.recipeData.title,
+      },
+    ];
+  }
+
+  /**
+   * Export a recipe post as PDF, Markdown or schema.org JSON-LD. Forks credit the original
+   * author and every post in between.
+   */
+  static async exportPost(postId: string, viewerId: string, format: ExportFormat): Promise<ExportResult> {
+    const post = await this.getPost(postId, viewerId);
+    if (!post.recipeData) {
+      throw new AppError(400, 'not_a_recipe_post', 'Post does not contain a recipe');
+    }
+
+    const author = await DynamoDBHelper.get(`USER#${post.user_id}`, 'PROFILE');
+    const root = post.ancestry?.[0];
+
+    return RecipeExportService.exportRecipe(viewerId, {
+      title: post.recipeData.title,
+      servings: post.recipeData.servings,
+      ingredients: post.recipeData.ingredients.map(ingredient => ({
+        name: ingredient.name,
+        quantity: ingredient.amount,
+        unit: ingredient.unit,
+      })),
+      steps: post.recipeData.instructions.map(step => ({
+        description: step.description,
+        duration_minutes: step.duration,
+      })),
+      images: post.images,
+      published_by: author?.username,
+      url: `${FRONTEND_URL}/posts/${post.post_id}`,
+      attribution: {
+        source_type: 'post',
+        source_id: post.post_id,
+        ...(root && {
+          original_author_id: root.user_id,
+          original_author_username: root.username,
+          original_post_url: `${FRONTEND_URL}/posts/${root.post_id}`,
+        }),
+        ancestry: post.ancestry,
+      },
+    }, format);
+  }
+
+  /**
+   * Get published forks of a post and of its forks, newest first, with privacy filtering
+   */
+  static async getForks(
+    postId: string,
+    viewerId: string,
+    limit: number = 20,
+    lastKey?: any
+  ): Promise<{ forks: ForkResponse[]; nextKey?: any; hasMore: boolean }> {
+    if (limit < 1 || limit > 100) {
+      throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 100');
+    }
+
+    // getPost enforces the original post's privacy settings for this viewer
+    await this.getPost(postId, viewerId);
+
+    const { results: forks, nextKey } = await this.pageVisiblePosts(
+      `POST#${postId}`,
+      'FORK#',
+      viewerId,
+      limit,
+      lastKey,
+      async (postItem, forkItem): Promise<ForkResponse> => ({
+        post: this.convertDynamoItemToPost(postItem),
+        user: await this.getUserInfo(postItem.user_id, viewerId),
+        depth: forkItem.depth,
+      })
+    );
+
+    return {
+      forks,
+      nextKey,
+      hasMore: !!nextKey,
+    };
+  }
+
+  /**
+   * Read index items pointing at posts (under TAG#<tag>, or a post's FORK# items) newest first
+   * and build a result for each post the viewer may see. Keeps reading while filtering leaves
+   * the page short; nextKey resumes after the last item looked at.
+   */
+  private static async pageVisiblePosts<T>(
+    pk: string,
+    skPrefix: string,
+    viewerId: string,
+    limit: number,
+    lastKey: any,
+    toResult: (postItem: any, indexItem: any) => Promise<T>
+  ): Promise<{ results: T[]; nextKey?: any }> {
+    const hiddenUsers = await BlockService.getHiddenUsers(viewerId);
+    const results: T[] = [];
+    let startKey = lastKey;
+    let nextKey: any;
+
+    for (let page = 0; page < MAX_INDEX_PAGES && results.length < limit; page++) {
+      const result = await DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': pk,
+          ':sk': skPrefix,
+        },
+        ScanIndexForward: false, // Newest first
+        Limit: limit * 2, // Get more to account for filtering
+        ExclusiveStartKey: startKey,
+      });
+
+      const indexItems = result.Items || [];
+      nextKey = result.LastEvaluatedKey;
+
+      for (let i = 0; i < indexItems.length; i++) {
+        const indexItem = indexItems[i];
+        if (results.length >= limit) {
+          // Resume after the last item looked at
+          nextKey = { PK: indexItems[i - 1].PK, SK: indexItems[i - 1].SK };
+          break;
+        }
+
+        if (BlockService.isHidden(hiddenUsers, indexItem.user_id)) continue;
+
+        try {
+          const postItem = await DynamoDBHelper.get(`POST#${indexItem.post_id}`, 'METADATA');
+          if (!postItem) continue;
+
+          if (!(await this.canViewPost(viewerId, postItem, hiddenUsers))) continue;
+
+          results.push(await toResult(postItem, indexItem));
+        } catch (error) {
+          logger.error('Error processing indexed post', error, { pk, postId: indexItem.post_id });
+        }
+      }
+
+      if (!nextKey) break;
+      startKey = nextKey;
+    }
+
+    return { results, nextKey };
+  }
+
+  /**
+   * Keep the post's TAG#<tag> index items in step with its tags. A stale tag index only
+   * affects tag pages, so write failures are logged rather than failing the post.
+   */
+  private static async syncTagIndex(postItem: any, previousTags: string[], tags: string[]): Promise<void> {
+    const sk = `POST#${postItem.created_at}#${postItem.post_id}`;
+    const requests = [
+      ...previousTags
+        .filter(tag => !tags.includes(tag))
+        .map(tag => ({ DeleteRequest: { Key: { PK: `TAG#${tag}`, SK: sk } } })),
+      ...tags
+        .filter(tag => !previousTags.includes(tag))
+        .map(tag => ({
+          PutRequest: {
+            Item: {
+              PK: `TAG#${tag}`,
+              SK: sk,
+              entity_type: 'POST_TAG',
+              tag,
+              post_id: postItem.post_id,
+              user_id: postItem.user_id,
+              created_at: postItem.created_at,
+            },
+          },
+        })),
+    ];
+
+    if (requests.length === 0) return;
+
+    try {
+      await DynamoDBHelper.batchWrite(requests);
+    } catch (error) {
+      logger.warn('Failed to update tag index for post', { error, postId: postItem.post_id });
+    }
+  }
+
+  /**
+   * Add or remove the FORK#<created_at>#<post_id> index items a fork keeps under each of its ancestors.
+   * Only the forks lists read these, so a failed write is logged and the fork itself still saves.
+   */
+  private static async syncForkIndex(postItem: any, action: 'add' | 'remove'): Promise<void> {
+    const ancestry: RecipeAncestor[] = postItem.ancestry || [];
+    const sk = `FORK#${postItem.created_at}#${postItem.post_id}`;
+    const requests = ancestry.map((ancestor, index) => {
+      const key = { PK: `POST#${ancestor.post_id}`, SK: sk };
+      return action === 'remove'
+        ? { DeleteRequest: { Key: key } }
+        : {
+            PutRequest: {
+              Item: {
+                ...key,
+                entity_type: 'POST_FORK',
+                post_id: postItem.post_id,
+                user_id: postItem.user_id,
+                parent_post_id: postItem.forked_from_post_id,
+                depth: ancestry.length - index,
+                created_at: postItem.created_at,
+              },
+            },
+          };
+    });
+
+    try {
+      await DynamoDBHelper.batchWrite(requests);
+    } catch (error) {
+      logger.warn('Failed to update fork index for post', { error, postId: postItem.post_id });
+    }
+  }
+
+  /**
+   * Tell every author up the lineage that a variation of their recipe was published,
+   * if they can view it. Notifications are best effort: an error stops the rest and is logged.
+   */
+  private static async notifyForked(postItem: any): Promise<void> {
+    const ancestry: RecipeAncestor[] = postItem.ancestry || [];
+    const notified = new Set<string>([postItem.user_id]);
+
+    try {
+      const author = await DynamoDBHelper.get(`USER#${postItem.user_id}`, 'PROFILE');
+
+      for (const ancestor of ancestry) {
+        if (notified.has(ancestor.user_id)) continue;
+        notified.add(ancestor.user_id);
+
+        if (!(await this.canViewPost(ancestor.user_id, postItem))) continue;
+
+        await NotificationService.notifyRecipeForked({
+          originalAuthorId: ancestor.user_id,
+          postId: postItem.post_id,
+          forkedByUserId: postItem.user_id,
+          forkedByUsername: author?.username || 'Unknown User',
+          forkedByAvatar: author?.avatar_url,
+          recipeName: ancestor.recipe_name || postItem.recipeData?.title || 'your recipe',
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to send fork notifications', error, { postId: postItem.post_id });
+    }
+  }
+
   /**
    * Get user's friends list
    */
@@ -755,8 +1235,9 @@ export class PostsService {
 
   /**
    * Check if user can view a post based on privacy settings
+   * Blocked pairs never see each other's posts; pass hiddenUsers when already loaded to skip the lookup.
    */
-  private static async canViewPost(viewerId: string, postItem: any): Promise<boolean> {
+  private static async canViewPost(viewerId: string, postItem: any, hiddenUsers?: HiddenUsers): Promise<boolean> {
     const postOwnerId = postItem.user_id;
 
     // Owner can always view their own posts
@@ -764,6 +1245,18 @@ export class PostsService {
       return true;
     }
 
+    // Held and rejected posts are only visible to their author
+    if (this.isHiddenByModeration(postItem)) {
+      return false;
+    }
+
+    const isBlocked = hiddenUsers
+      ? hiddenUsers.blocked.has(postOwnerId)
+      : await BlockService.isBlocked(viewerId, postOwnerId);
+    if (isBlocked) {
+      return false;
+    }
+
     // Get privacy setting (support both old is_public and new privacy field)
     const privacy = postItem.privacy || (postItem.is_public !== false ? 'public' : 'private');
 
@@ -785,17 +1278,10 @@ export class PostsService {
   }
 
   /**
-   * Create a comment on a post
+   * Create a comment on a post, or a reply when parent_comment_id is set
    */
   static async createComment(userId: string, request: CreateCommentRequest): Promise<Comment> {
-    // Validate request - use 'text' field per schema
-    if (!request.text || request.text.trim().length === 0) {
-      throw new AppError(400, 'missing_text', 'Comment text is required');
-    }
-
-    if (request.text.length > 2000) {
-      throw new AppError(400, 'text_too_long', 'Comment must be less than 2000 characters');
-    }
+    this.validateCommentText(request.text);
 
     // Verify post exists and user can view it
     const postItem = await DynamoDBHelper.get(`POST#${request.post_id}`, 'METADATA');
@@ -809,6 +1295,20 @@ export class PostsService {
       throw new AppError(403, 'forbidden', 'You do not have permission to comment on this post');
     }
 
+    let parentItem: any;
+    if (request.parent_comment_id) {
+      parentItem = await this.findComment(request.post_id, request.parent_comment_id);
+      if (!parentItem || parentItem.is_deleted) {
+        throw new AppError(404, 'comment_not_found', 'Comment not found');
+      }
+      if ((parentItem.depth || 0) >= MAX_COMMENT_DEPTH) {
+        throw new AppError(400, 'max_depth_exceeded', `Replies can only be nested ${MAX_COMMENT_DEPTH} levels deep`);
+      }
+      if (await BlockService.isBlocked(userId, parentItem.user_id)) {
+        throw new AppError(403, 'forbidden', 'You do not have permission to reply to this comment');
+      }
+    }
+
     // Get user profile for username and avatar
     const userProfile = await DynamoDBHelper.get(`USER#${userId}`, 'PROFILE');
     const username = userProfile?.username || 'Unknown User';
@@ -816,6 +1316,17 @@ export class PostsService {
 
     const commentId = generateUUID();
     const now = formatTimestamp();
+    const text = request.text.trim();
+
+    const moderationInput: ModerationInput = {
+      user_id: userId,
+      content_type: 'comment',
+      content_id: commentId,
+      post_id: request.post_id,
+      text,
+    };
+    const moderation = await ModerationService.enforce(moderationInput);
+    const held = moderation.decision === 'hold';
 
     const comment: Comment = {
       comment_id: commentId,
@@ -823,24 +1334,65 @@ export class PostsService {
       user_id: userId,
       username,
       avatar_url,
-      text: request.text.trim(),
+      text,
+      mentions: await MentionService.resolve(text),
       created_at: now,
       updated_at: now,
+      parent_comment_id: parentItem?.comment_id,
+      depth: parentItem ? (parentItem.depth || 0) + 1 : 0,
+      reply_count: 0,
+      ...(held && {
+        moderation_status: 'held' as const,
+        moderation_reasons: ModerationService.describe(moderation),
+      }),
     };
 
-    // Store comment with SK pattern: COMMENT#<timestamp>#<commentId> per schema
+    // Top-level comments use SK COMMENT#<timestamp>#<commentId> per schema;
+    // replies use REPLY#<parentId>#<timestamp>#<commentId> so they page per parent
+    const commentSK = parentItem ? `REPLY#${parentItem.comment_id}#${now}#${commentId}` : `COMMENT#${now}#${commentId}`;
     await DynamoDBHelper.put({
       PK: `POST#${request.post_id}`,
-      SK: `COMMENT#${now}#${commentId}`,
+      SK: commentSK,
       entity_type: 'COMMENT',
       ...comment,
       GSI1PK: `USER#${userId}`, // For querying user's comments
       GSI1SK: `COMMENT#${now}`,
     });
+    await this.putCommentRef(request.post_id, commentId, commentSK);
+
+    // Held comments are counted and announced once a moderator approves them
+    if (held) {
+      await ModerationService.queueForReview(moderationInput, moderation);
+      logger.info('Comment held for review', { commentId, postId: request.post_id, userId });
+      return comment;
+    }
+
+    await this.publishComment(comment, postItem, parentItem, now);
+
+    logger.info('Comment created successfully', { commentId, postId: request.post_id, userId, parentCommentId: comment.parent_comment_id });
+
+    return comment;
+  }
+
+  /**
+   * Count a new comment on its post (and parent) and notify the people it concerns
+   */
+  private static async publishComment(comment: Comment, postItem: any, parentItem: any, now: string): Promise<void> {
+    if (parentItem) {
+      await DynamoDBHelper.update(
+        parentItem.PK,
+        parentItem.SK,
+        'SET reply_count = if_not_exists(reply_count, :zero) + :inc',
+        {
+          ':inc': 1,
+          ':zero': 0,
+        }
+      );
+    }
 
-    // Increment post comments_count
+    // Increment post comments_count (replies included)
     await DynamoDBHelper.update(
-      `POST#${request.post_id}`,
+      `POST#${comment.post_id}`,
       'METADATA',
       'SET comments_count = if_not_exists(comments_count, :zero) + :inc, updated_at = :now',
       {
@@ -850,95 +1402,688 @@ export class PostsService {
       }
     );
 
-    logger.info('Comment created successfully', { commentId, postId: request.post_id, userId });
-
-    return comment;
+    await this.notifyCommentCreated(comment, postItem, parentItem);
+    await this.notifyMentions({
+      authorId: comment.user_id,
+      author: { username: comment.username, avatar_url: comment.avatar_url },
+      postItem,
+      text: comment.text,
+      mentions: comment.mentions || [],
+      inComment: true,
+      // Already notified about this comment
+      excludeUserIds: [postItem.user_id, parentItem?.user_id],
+    });
   }
 
   /**
-   * Get all comments for a post
+   * Apply a moderator's decision on held content. Approved posts join the feeds unless reports
+   * still hide them, and approved comments are counted, with the notifications they skipped.
+   * Rejected content stays visible only to its author. Returns false when the content was deleted in the meantime.
    */
-  static async getComments(
-    postId: string,
-    viewerId: string,
-    limit: number = 50,
-    lastKey?: string
-  ): Promise<{ comments: CommentResponse[]; next_key?: string; has_more: boolean }> {
-    // Verify post exists and user can view it
-    const postItem = await DynamoDBHelper.get(`POST#${postId}`, 'METADATA');
+  static async applyModerationReview(review: ModerationReview, status: 'approved' | 'rejected'): Promise<boolean> {
+    const now = formatTimestamp();
+    const postItem = await DynamoDBHelper.get(`POST#${review.post_id}`, 'METADATA');
     if (!postItem) {
-      throw new AppError(404, 'post_not_found', 'Post not found');
+      return false;
     }
 
-    const canView = await this.canViewPost(viewerId, postItem);
-    if (!canView) {
-      throw new AppError(403, 'forbidden', 'You do not have permission to view this post');
-    }
+    if (review.content_type === 'post') {
+      if (status === 'rejected') {
+        await DynamoDBHelper.update(postItem.PK, postItem.SK, 'SET moderation_status = :status, updated_at = :now', {
+          ':status': status,
+          ':now': now,
+        });
+        return true;
+      }
 
-    // Validate limit
-    if (limit < 1 || limit > 100) {
-      throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 100');
-    }
+      // Posts also hidden by reports wait for that case; dismissing it restores them
+      const moderationCase = await ModerationCaseService.getCase(review.post_id);
+      if (moderationCase?.status === 'hidden') {
+        return true;
+      }
 
-    // Decode lastKey if provided
-    let exclusiveStartKey: any = undefined;
-    if (lastKey) {
-      try {
-        exclusiveStartKey = JSON.parse(Buffer.from(lastKey, 'base64').toString('utf-8'));
-      } catch (error) {
-        throw new AppError(400, 'invalid_pagination_token', 'Invalid pagination token');
+      const approved = await this.restorePost(postItem);
+
+      await this.notifyMentions({ authorId: postItem.user_id, postItem: approved, text: postItem.content, mentions: postItem.mentions || [] });
+      if (postItem.ancestry) {
+        await this.notifyForked(approved);
       }
+      return true;
     }
 
-    // Query comments for the post
-    const result = await DynamoDBHelper.query({
-      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-      ExpressionAttributeValues: {
-        ':pk': `POST#${postId}`,
-        ':sk': 'COMMENT#',
-      },
-      ScanIndexForward: true, // Oldest comments first
-      Limit: limit,
-      ExclusiveStartKey: exclusiveStartKey,
-    });
+    const item = await this.findComment(review.post_id, review.content_id);
+    if (!item) {
+      return false;
+    }
 
-    const commentItems = result.Items || [];
-
-    // Build comment tree (top-level comments with nested replies)
-    const commentsMap = new Map<string, CommentResponse>();
-    const topLevelComments: CommentResponse[] = [];
-
-    // Create comment responses (flat list, no nested replies per schema)
-    for (const item of commentItems) {
-      const commentResponse: CommentResponse = {
-        comment: {
-          comment_id: item.comment_id,
-          post_id: item.post_id,
-          user_id: item.user_id,
-          username: item.username,
-          avatar_url: item.avatar_url,
-          text: item.text,
-          created_at: item.created_at,
-          updated_at: item.updated_at,
-        },
-      };
+    if (status === 'rejected') {
+      await DynamoDBHelper.update(item.PK, item.SK, 'SET moderation_status = :status', { ':status': status });
+      return true;
+    }
+
+    await DynamoDBHelper.update(item.PK, item.SK, 'SET moderation_status = :status REMOVE moderation_reasons', { ':status': status });
+
+    const parentItem = item.parent_comment_id ? await this.findComment(review.post_id, item.parent_comment_id) : undefined;
+    await this.publishComment(this.toCommentResponse(item).comment, postItem, parentItem, now);
+    return true;
+  }
+
+  /**
+   * Apply an admin's decision on a report case to the post and its reports. Hidden and upheld
+   * posts leave the feeds, upheld ones for good; dismissing a case that hid a post restores it.
+   * The author is told why. Returns false when the post was deleted in the meantime.
+   */
+  static async applyReportCaseDecision(
+    moderationCase: ModerationCase,
+    status: 'hidden' | 'upheld' | 'dismissed',
+    adminId: string,
+    note?: string
+  ): Promise<boolean> {
+    const postId = moderationCase.post_id;
+    const postItem = await DynamoDBHelper.get(`POST#${postId}`, 'METADATA');
+    const reason = note || this.describeReportReasons(moderationCase);
+
+    if (postItem && status === 'hidden' && !this.isHiddenByModeration(postItem)) {
+      await this.hidePost(postItem, 'held', [reason]);
+      await NotificationService.notifyPostModerated({ authorId: postItem.user_id, postId, action: 'hidden', reason });
+    }
+
+    if (postItem && status === 'upheld' && postItem.moderation_status !== 'rejected') {
+      await this.hidePost(postItem, 'rejected', [reason]);
+      await NotificationService.notifyPostModerated({ authorId: postItem.user_id, postId, action: 'removed', reason });
+    }
+
+    if (postItem && status === 'dismissed' && moderationCase.status === 'hidden' && postItem.moderation_status === 'held') {
+      // Posts also held by automated moderation wait for that review
+      const review = await ModerationService.getReview(postId, 'post', postId);
+      if (review?.status !== 'held') {
+        await this.restorePost(postItem);
+        await NotificationService.notifyPostModerated({ authorId: postItem.user_id, postId, action: 'restored' });
+      }
+    }
+
+    if (status === 'upheld' || status === 'dismissed') {
+      await this.resolvePendingReports(postId, adminId, status, note);
+      await ModerationCaseService.recordReporterOutcome(moderationCase.reporter_ids, status);
+    }
+
+    return !!postItem;
+  }
+
+  /**
+   * Get top-level comments for a post. Replies are loaded per comment with getReplies.
+   */
+  static async getComments(
+    postId: string,
+    viewerId: string,
+    limit: number = 50,
+    lastKey?: string
+  ): Promise<{ comments: CommentResponse[]; next_key?: string; has_more: boolean }> {
+    // Verify post exists and user can view it
+    const postItem = await DynamoDBHelper.get(`POST#${postId}`, 'METADATA');
+    if (!postItem) {
+      throw new AppError(404, 'post_not_found', 'Post not found');
+    }
 
-      topLevelComments.push(commentResponse);
+    const hiddenUsers = await BlockService.getHiddenUsers(viewerId);
+    const canView = await this.canViewPost(viewerId, postItem, hiddenUsers);
+    if (!canView) {
+      throw new AppError(403, 'forbidden', 'You do not have permission to view this post');
     }
 
-    // Encode next pagination key
-    let nextKey: string | undefined;
-    if (result.LastEvaluatedKey) {
-      nextKey = Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64');
+    // Validate limit
+    if (limit < 1 || limit > 100) {
+      throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 100');
     }
 
+    // Query comments for the post
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `POST#${postId}`,
+        ':sk': 'COMMENT#',
+      },
+      ScanIndexForward: true, // Oldest comments first
+      Limit: limit,
+      ExclusiveStartKey: this.decodePageKey(lastKey),
+    });
+
+    // Comments from blocked and muted users are left out, held ones for everyone but their author
+    const comments = (result.Items || [])
+      .filter(item => !BlockService.isHidden(hiddenUsers, item.user_id))
+      .filter(item => !this.isHiddenByModeration(item) || item.user_id === viewerId)
+      .map(item => this.toCommentResponse(item));
+
     return {
-      comments: topLevelComments,
-      next_key: nextKey,
+      comments,
+      next_key: this.encodePageKey(result.LastEvaluatedKey),
       has_more: !!result.LastEvaluatedKey,
     };
   }
 
+  /**
+   * Get replies to a comment, oldest first
+   */
+  static async getReplies(
+    postId: string,
+    commentId: string,
+    viewerId: string,
+    limit: number = 20,
+    lastKey?: string
+  ): Promise<{ comments: CommentResponse[]; next_key?: string; has_more: boolean }> {
+    const postItem = await DynamoDBHelper.get(`POST#${postId}`, 'METADATA');
+    if (!postItem) {
+      throw new AppError(404, 'post_not_found', 'Post not found');
+    }
+
+    const hiddenUsers = await BlockService.getHiddenUsers(viewerId);
+    const canView = await this.canViewPost(viewerId, postItem, hiddenUsers);
+    if (!canView) {
+      throw new AppError(403, 'forbidden', 'You do not have permission to view this post');
+    }
+
+    if (limit < 1 || limit > 100) {
+      throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 100');
+    }
+
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `POST#${postId}`,
+        ':sk': `REPLY#${commentId}#`,
+      },
+      ScanIndexForward: true,
+      Limit: limit,
+      ExclusiveStartKey: this.decodePageKey(lastKey),
+    });
+
+    const comments = (result.Items || [])
+      .filter(item => !BlockService.isHidden(hiddenUsers, item.user_id))
+      .filter(item => !this.isHiddenByModeration(item) || item.user_id === viewerId)
+      .map(item => this.toCommentResponse(item));
+
+    return {
+      comments,
+      next_key: this.encodePageKey(result.LastEvaluatedKey),
+      has_more: !!result.LastEvaluatedKey,
+    };
+  }
+
+  /**
+   * Edit a comment. The previous text is kept in the comment's revisions. Edits are moderated
+   * like new comments: a held edit hides the comment again until a moderator approves it.
+   */
+  static async updateComment(
+    userId: string,
+    postId: string,
+    commentId: string,
+    request: UpdateCommentRequest
+  ): Promise<Comment> {
+    this.validateCommentText(request.text);
+
+    const item = await this.findComment(postId, commentId);
+    if (!item || item.is_deleted) {
+      throw new AppError(404, 'comment_not_found', 'Comment not found');
+    }
+
+    if (item.user_id !== userId) {
+      throw new AppError(403, 'forbidden', 'You can only edit your own comments');
+    }
+
+    const text = request.text.trim();
+    if (text === item.text) {
+      return this.toCommentResponse(item).comment;
+    }
+
+    const moderationInput: ModerationInput = {
+      user_id: userId,
+      content_type: 'comment',
+      content_id: commentId,
+      post_id: postId,
+      text,
+    };
+    const moderation = await ModerationService.enforce(moderationInput);
+    const held = moderation.decision === 'hold' && item.moderation_status !== 'rejected';
+    const moderationFields = held
+      ? { moderation_status: 'held', moderation_reasons: ModerationService.describe(moderation) }
+      : {};
+
+    const now = formatTimestamp();
+    const mentions = await MentionService.resolve(text);
+    const revision: CommentRevision = {
+      text: item.text,
+      created_at: item.edited_at || item.created_at,
+    };
+
+    await DynamoDBHelper.update(
+      item.PK,
+      item.SK,
+      'SET #text = :text, mentions = :mentions, is_edited = :edited, edited_at = :now, updated_at = :now, revisions = list_append(if_not_exists(revisions, :empty), :revision)'
+        + (held ? ', moderation_status = :status, moderation_reasons = :reasons' : ''),
+      {
+        ':text': text,
+        ':mentions': mentions,
+        ':edited': true,
+        ':now': now,
+        ':empty': [],
+        ':revision': [revision],
+        ...(held && { ':status': 'held', ':reasons': moderationFields.moderation_reasons }),
+      },
+      { '#text': 'text' }
+    );
+
+    // The moderator reviews the text that will be published
+    if (held) {
+      await ModerationService.queueForReview(moderationInput, moderation);
+    } else if (item.moderation_status === 'held') {
+      await ModerationService.refreshReview(moderationInput);
+    }
+
+    // A published comment that is held again stops being counted until it is approved
+    if (held && !this.isHiddenByModeration(item)) {
+      await this.uncountComment(item, now);
+      logger.info('Edited comment held for review', { commentId, postId, userId });
+    }
+
+    const newMentions = MentionService.getNewlyMentioned(mentions, item.mentions);
+    if (newMentions.length > 0 && !held && !this.isHiddenByModeration(item)) {
+      const postItem = await DynamoDBHelper.get(`POST#${postId}`, 'METADATA');
+      if (postItem) {
+        await this.notifyMentions({
+          authorId: userId,
+          author: { username: item.username, avatar_url: item.avatar_url },
+          postItem,
+          text,
+          mentions,
+          previousMentions: item.mentions,
+          inComment: true,
+        });
+      }
+    }
+
+    logger.info('Comment updated successfully', { commentId, postId, userId });
+
+    return this.toCommentResponse({ ...item, ...moderationFields, text, mentions, is_edited: true, edited_at: now, updated_at: now }).comment;
+  }
+
+  /**
+   * Take a comment out of its post's and parent's counts
+   */
+  private static async uncountComment(item: any, now: string): Promise<void> {
+    if (item.parent_comment_id) {
+      const parentItem = await this.findComment(item.post_id, item.parent_comment_id);
+      if (parentItem) {
+        await DynamoDBHelper.update(parentItem.PK, parentItem.SK, 'SET reply_count = reply_count - :dec', { ':dec': 1 });
+      }
+    }
+
+    await DynamoDBHelper.update(
+      `POST#${item.post_id}`,
+      'METADATA',
+      'SET comments_count = if_not_exists(comments_count, :one) - :one, updated_at = :now',
+      { ':one': 1, ':now': now }
+    );
+  }
+
+  /**
+   * Get the earlier versions of an edited comment, oldest first
+   */
+  static async getCommentRevisions(postId: string, commentId: string, viewerId: string): Promise<CommentRevision[]> {
+    const postItem = await DynamoDBHelper.get(`POST#${postId}`, 'METADATA');
+    if (!postItem) {
+      throw new AppError(404, 'post_not_found', 'Post not found');
+    }
+
+    const canView = await this.canViewPost(viewerId, postItem);
+    if (!canView) {
+      throw new AppError(403, 'forbidden', 'You do not have permission to view this post');
+    }
+
+    const item = await this.findComment(postId, commentId);
+    if (!item || item.is_deleted) {
+      throw new AppError(404, 'comment_not_found', 'Comment not found');
+    }
+
+    return item.revisions || [];
+  }
+
+  /**
+   * Delete a comment. Allowed for the comment author and the post owner.
+   * A comment with replies is blanked and kept so the thread stays intact.
+   */
+  static async deleteComment(userId: string, postId: string, commentId: string): Promise<void> {
+    const postItem = await DynamoDBHelper.get(`POST#${postId}`, 'METADATA');
+    if (!postItem) {
+      throw new AppError(404, 'post_not_found', 'Post not found');
+    }
+
+    const item = await this.findComment(postId, commentId);
+    if (!item || item.is_deleted) {
+      throw new AppError(404, 'comment_not_found', 'Comment not found');
+    }
+
+    if (item.user_id !== userId && postItem.user_id !== userId) {
+      throw new AppError(403, 'forbidden', 'You do not have permission to delete this comment');
+    }
+
+    const now = formatTimestamp();
+    // Held and rejected comments were never counted
+    const counted = !this.isHiddenByModeration(item);
+    if (item.moderation_status === 'held') {
+      await ModerationService.deleteReview(postId, 'comment', commentId);
+    }
+
+    if ((item.reply_count || 0) > 0) {
+      await DynamoDBHelper.update(
+        item.PK,
+        item.SK,
+        'SET is_deleted = :deleted, #text = :empty, updated_at = :now REMOVE revisions, mentions',
+        {
+          ':deleted': true,
+          ':empty': '',
+          ':now': now,
+        },
+        { '#text': 'text' }
+      );
+    } else {
+      await DynamoDBHelper.delete(item.PK, item.SK);
+      await DynamoDBHelper.delete(item.PK, `COMMENT_REF#${commentId}`);
+
+      if (item.parent_comment_id && counted) {
+        const parentItem = await this.findComment(postId, item.parent_comment_id);
+        if (parentItem) {
+          await DynamoDBHelper.update(
+            parentItem.PK,
+            parentItem.SK,
+            'SET reply_count = reply_count - :dec',
+            { ':dec': 1 }
+          );
+        }
+      }
+    }
+
+    if (counted) {
+      await DynamoDBHelper.update(
+        `POST#${postId}`,
+        'METADATA',
+        'SET comments_count = if_not_exists(comments_count, :one) - :one, updated_at = :now',
+        {
+          ':one': 1,
+          ':now': now,
+        }
+      );
+    }
+
+    logger.info('Comment deleted successfully', { commentId, postId, userId, deletedBy: item.user_id === userId ? 'author' : 'post_owner' });
+  }
+
+  /**
+   * Find a comment or reply on a post by id. Comment SKs start with their timestamp,
+   * so the COMMENT_REF#<commentId> item beside each one records where it lives.
+   */
+  private static async findComment(postId: string, commentId: string): Promise<any> {
+    const ref = await DynamoDBHelper.get(`POST#${postId}`, `COMMENT_REF#${commentId}`);
+    if (ref) {
+      return DynamoDBHelper.get(`POST#${postId}`, ref.comment_sk);
+    }
+
+    return this.findUnreferencedComment(postId, commentId);
+  }
+
+  /**
+   * Comments written before COMMENT_REF# items existed: page through the post's
+   * comments and replies once, then store the reference for next time
+   */
+  private static async findUnreferencedComment(postId: string, commentId: string): Promise<any> {
+    for (const prefix of ['COMMENT#', 'REPLY#']) {
+      let lastKey: any;
+      do {
+        const result = await DynamoDBHelper.query({
+          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+          FilterExpression: 'comment_id = :commentId',
+          ExpressionAttributeValues: {
+            ':pk': `POST#${postId}`,
+            ':sk': prefix,
+            ':commentId': commentId,
+          },
+          ExclusiveStartKey: lastKey,
+        });
+
+        const item = result.Items[0];
+        if (item) {
+          await this.putCommentRef(postId, commentId, item.SK);
+          return item;
+        }
+        lastKey = result.LastEvaluatedKey;
+      } while (lastKey);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Store the SK of a comment under its id so findComment can get it directly
+   */
+  private static async putCommentRef(postId: string, commentId: string, commentSK: string): Promise<void> {
+    await DynamoDBHelper.put({
+      PK: `POST#${postId}`,
+      SK: `COMMENT_REF#${commentId}`,
+      entity_type: 'COMMENT_REF',
+      comment_sk: commentSK,
+    });
+  }
+
+  private static validateCommentText(text: string | undefined): void {
+    // Validate request - use 'text' field per schema
+    if (!text || text.trim().length === 0) {
+      throw new AppError(400, 'missing_text', 'Comment text is required');
+    }
+
+    if (text.length > 2000) {
+      throw new AppError(400, 'text_too_long', 'Comment must be less than 2000 characters');
+    }
+  }
+
+  /**
+   * Notify the post owner, and the parent comment's author for replies.
+   * Failures are logged so they never fail the comment itself.
+   */
+  private static async notifyCommentCreated(comment: Comment, postItem: any, parentItem?: any): Promise<void> {
+    try {
+      if (parentItem) {
+        await NotificationService.notifyCommentReplied({
+          commentAuthorId: parentItem.user_id,
+          commentId: parentItem.comment_id,
+          repliedByUserId: comment.user_id,
+          repliedByUsername: comment.username,
+          repliedByAvatar: comment.avatar_url,
+          replyPreview: comment.text,
+        });
+      }
+
+      // The post owner already heard about replies to their own comment
+      if (postItem.user_id !== parentItem?.user_id) {
+        await NotificationService.notifyPostCommented({
+          postOwnerId: postItem.user_id,
+          postId: comment.post_id,
+          commentedByUserId: comment.user_id,
+          commentedByUsername: comment.username,
+          commentedByAvatar: comment.avatar_url,
+          commentPreview: comment.text,
+          isReply: !!parentItem,
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to send comment notifications', error, { commentId: comment.comment_id });
+    }
+  }
+
+  /**
+   * Notify users newly mentioned in a post or comment, if they can view the post.
+   * Failures are logged so they never fail the post or comment itself.
+   */
+  private static async notifyMentions(params: {
+    authorId: string;
+    author?: { username: string; avatar_url?: string };
+    postItem: any;
+    text: string;
+    mentions: Mention[];
+    previousMentions?: Mention[];
+    inComment?: boolean;
+    excludeUserIds?: Array<string | undefined>;
+  }): Promise<void> {
+    const recipients = MentionService.getNewlyMentioned(params.mentions, params.previousMentions)
+      .filter(userId => userId !== params.authorId && !params.excludeUserIds?.includes(userId));
+    if (recipients.length === 0) return;
+
+    try {
+      const author = params.author || await DynamoDBHelper.get(`USER#${params.authorId}`, 'PROFILE');
+
+      for (const userId of recipients) {
+        // Mentioning someone doesn't share the post with them
+        if (!(await this.canViewPost(userId, params.postItem))) continue;
+
+        await NotificationService.notifyMention({
+          mentionedUserId: userId,
+          postId: params.postItem.post_id,
+          mentionedByUserId: params.authorId,
+          mentionedByUsername: author?.username || 'Unknown User',
+          mentionedByAvatar: author?.avatar_url,
+          postPreview: params.text,
+          inComment: params.inComment,
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to send mention notifications', error, {
+        postId: params.postItem.post_id,
+        authorId: params.authorId,
+      });
+    }
+  }
+
+  private static toCommentResponse(item: any): CommentResponse {
+    return {
+      comment: {
+        comment_id: item.comment_id,
+        post_id: item.post_id,
+        user_id: item.user_id,
+        username: item.username,
+        avatar_url: item.avatar_url,
+        text: item.text,
+        mentions: item.mentions || [],
+        created_at: item.created_at,
+        updated_at: item.updated_at,
+        parent_comment_id: item.parent_comment_id,
+        depth: item.depth || 0,
+        reply_count: item.reply_count || 0,
+        is_edited: item.is_edited || false,
+        edited_at: item.edited_at,
+        is_deleted: item.is_deleted || false,
+        moderation_status: item.moderation_status,
+        moderation_reasons: item.moderation_reasons,
+      },
+    };
+  }
+
+  /**
+   * Whether moderation keeps a post or comment from everyone but its author
+   */
+  private static isHiddenByModeration(item: any): boolean {
+    return item.moderation_status === 'held' || item.moderation_status === 'rejected';
+  }
+
+  /**
+   * Take a post out of the feeds and search, leaving it visible to its author with the reasons
+   */
+  private static async hidePost(postItem: any, status: 'held' | 'rejected', reasons: string[]): Promise<void> {
+    const alreadyHidden = this.isHiddenByModeration(postItem);
+
+    await DynamoDBHelper.update(
+      postItem.PK,
+      postItem.SK,
+      `SET moderation_status = :status, moderation_reasons = :reasons, updated_at = :now${
+        alreadyHidden ? '' : ', GSI3PK = :gsi3pk REMOVE GSI2PK, GSI2SK, GSI4PK, GSI4SK'}`,
+      {
+        ':status': status,
+        ':reasons': reasons,
+        ':now': formatTimestamp(),
+        ...(!alreadyHidden && { ':gsi3pk': `FEED#${postItem.user_id}` }),
+      }
+    );
+  }
+
+  /**
+   * Mark a hidden post approved and put it back in the feeds and search
+   */
+  private static async restorePost(postItem: any): Promise<any> {
+    const approved = { ...postItem, moderation_status: 'approved' };
+    const indexes = Object.entries(this.discoveryIndexes(approved, postItem.extracted_ingredients || []))
+      .filter(([, value]) => value !== undefined);
+
+    await DynamoDBHelper.update(
+      postItem.PK,
+      postItem.SK,
+      `SET moderation_status = :status, ${indexes.map(([name]) => `${name} = :${name}`).join(', ')} REMOVE moderation_reasons`,
+      {
+        ':status': 'approved',
+        ...Object.fromEntries(indexes.map(([name, value]) => [`:${name}`, value])),
+      }
+    );
+
+    return approved;
+  }
+
+  /**
+   * Text a post is moderated on
+   */
+  private static moderationText(content: string, recipeData?: { title?: string }): string {
+    return [content, recipeData?.title].filter(Boolean).join('\n');
+  }
+
+  /**
+   * Index attributes that surface a post in the feeds, ingredient search and recipe search.
+   * Held and rejected posts are indexed like private posts so no listing shows them.
+   */
+  private static discoveryIndexes(post: any, extractedIngredients: string[]): Record<string, string | undefined> {
+    const createdAt = post.created_at;
+
+    if (this.isHiddenByModeration(post)) {
+      return {
+        GSI3PK: `FEED#${post.user_id}`,
+        GSI3SK: `POST#${createdAt}`,
+      };
+    }
+
+    // Create searchable ingredient string for GSI2
+    const ingredientSearchString = extractedIngredients.join('|').toLowerCase();
+
+    return {
+      GSI2PK: ingredientSearchString ? 'POSTS#INGREDIENTS' : undefined, // For ingredient search
+      GSI2SK: ingredientSearchString ? `${ingredientSearchString}#${createdAt}` : undefined,
+      GSI3PK: post.is_public ? 'FEED#PUBLIC' : `FEED#${post.user_id}`, // For feed queries
+      GSI3SK: `POST#${createdAt}`,
+      // Add GSI4 for recipe search if recipeData exists
+      ...(post.recipeData && {
+        GSI4PK: 'RECIPES',
+        GSI4SK: `${post.recipeData.cuisine || 'all'}#${createdAt}`,
+      }),
+    };
+  }
+
+  private static decodePageKey(lastKey?: string): any {
+    if (!lastKey) return undefined;
+
+    try {
+      return JSON.parse(Buffer.from(lastKey, 'base64').toString('utf-8'));
+    } catch (error) {
+      throw new AppError(400, 'invalid_pagination_token', 'Invalid pagination token');
+    }
+  }
+
+  private static encodePageKey(key?: any): string | undefined {
+    return key ? Buffer.from(JSON.stringify(key)).toString('base64') : undefined;
+  }
+
   /**
    * Create a reaction on a post or comment
    */
@@ -974,31 +2119,23 @@ export class PostsService {
         throw new AppError(403, 'forbidden', 'You do not have permission to react to this post');
       }
     } else {
-      // For comments, we need to find the comment in the post
-      // Comments are stored with SK: COMMENT#<timestamp>#<comment_id>
+      // For comments, we need to find the comment (or reply) in the post
       const parts = request.target_id.split('#');
       const postId = parts[0]; // Assuming target_id format: postId#commentId
       const commentId = parts[1] || request.target_id;
 
-      // Query comments to find the specific one
-      const commentsResult = await DynamoDBHelper.query({
-        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-        FilterExpression: 'comment_id = :commentId',
-        ExpressionAttributeValues: {
-          ':pk': `POST#${postId}`,
-          ':sk': 'COMMENT#',
-          ':commentId': commentId,
-        },
-      });
-
-      if (!commentsResult.Items || commentsResult.Items.length === 0) {
+      targetItem = await this.findComment(postId, commentId);
+      if (!targetItem) {
         throw new AppError(404, 'comment_not_found', 'Comment not found');
       }
 
-      targetItem = commentsResult.Items[0];
       targetPK = `POST#${targetItem.post_id}`;
       targetSK = targetItem.SK;
 
+      if (await BlockService.isBlocked(userId, targetItem.user_id)) {
+        throw new AppError(403, 'forbidden', 'You do not have permission to react to this comment');
+      }
+
       // Check if user can view the post (comments inherit post's privacy)
       const postItem = await DynamoDBHelper.get(`POST#${targetItem.post_id}`, 'METADATA');
       if (postItem) {
@@ -1124,21 +2261,12 @@ export class PostsService {
       targetSK = 'METADATA';
     } else {
       // For comments, find the comment's SK
-      const commentsResult = await DynamoDBHelper.query({
-        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-        FilterExpression: 'comment_id = :commentId',
-        ExpressionAttributeValues: {
-          ':pk': targetPK,
-          ':sk': 'COMMENT#',
-          ':commentId': reaction.target_id,
-        },
-      });
-
-      if (!commentsResult.Items || commentsResult.Items.length === 0) {
+      const commentItem = await this.findComment(targetPK.replace('POST#', ''), reaction.target_id);
+      if (!commentItem) {
         throw new AppError(404, 'comment_not_found', 'Comment not found');
       }
 
-      targetSK = commentsResult.Items[0].SK;
+      targetSK = commentItem.SK;
     }
 
     await this.deleteReactionInternal(userId, targetPK, targetSK, reaction.target_type);
@@ -1243,7 +2371,7 @@ export class PostsService {
     type: string = 'all',
     timeframe: string = 'week',
     limit: number = 20
-  ): Promise<{ posts: PostResponse[] }> {
+  ): Promise<{ posts: PostResponse[]; tags: TrendingTag[] }> {
     try {
       logger.info('Get trending posts called', { viewerId, type, timeframe });
 
@@ -1295,6 +2423,8 @@ export class PostsService {
 
       postsWithScore.sort((a: any, b: any) => b.engagement_score - a.engagement_score);
 
+      const tags = this.getTrendingTags(postsWithScore);
+
       // Format and return top posts
       const formattedPosts = await Promise.all(
         postsWithScore.slice(0, limit).map(async (post: any) => {
@@ -1307,13 +2437,33 @@ export class PostsService {
         })
       );
 
-      return { posts: formattedPosts };
+      return { posts: formattedPosts, tags };
     } catch (error) {
       logger.error('Error getting trending posts', error);
       throw new AppError(500, 'trending_failed', 'Failed to get trending posts');
     }
   }
 
+  /**
+   * Tags of the trending posts, each scored by its posts' engagement (plus one per post)
+   */
+  private static getTrendingTags(posts: any[]): TrendingTag[] {
+    const tags = new Map<string, TrendingTag>();
+
+    for (const post of posts) {
+      for (const tag of post.tags || []) {
+        const entry = tags.get(tag) || { tag, post_count: 0, score: 0 };
+        entry.post_count++;
+        entry.score += 1 + (post.engagement_score || 0);
+        tags.set(tag, entry);
+      }
+    }
+
+    return [...tags.values()]
+      .sort((a, b) => b.score - a.score || b.post_count - a.post_count)
+      .slice(0, TRENDING_TAGS_LIMIT);
+  }
+
   /**
    * Format post response helper
    */
@@ -1480,9 +2630,105 @@ export class PostsService {
 
     logger.info('Post reported successfully', { reportId, postId: request.post_id, userId, reason: request.reason });
 
+    try {
+      await this.trackReportCase(postItem, report, userProfile);
+    } catch (error) {
+      // The report itself is stored and still listed with the post's reports
+      logger.error('Failed to update report case', error, { reportId, postId: request.post_id });
+    }
+
     return report;
   }
 
+  /**
+   * Add a report to its post's case and hide the post once the case crosses the report thresholds
+   */
+  private static async trackReportCase(postItem: any, report: Report, reporterProfile: any): Promise<void> {
+    const weight = await ModerationCaseService.getReporterWeight(report.reported_by_user_id, reporterProfile);
+    const moderationCase = await ModerationCaseService.addReport({
+      post_id: report.post_id,
+      author_id: postItem.user_id,
+      excerpt: this.moderationText(postItem.content, postItem.recipeData),
+      reporter_id: report.reported_by_user_id,
+      reason: report.reason,
+      weight,
+    });
+
+    if (!ModerationCaseService.shouldHide(moderationCase)) {
+      return;
+    }
+
+    const reason = this.describeReportReasons(moderationCase);
+    await ModerationCaseService.transition(moderationCase, 'hidden', 'system', reason);
+
+    // Posts already hidden by automated moderation keep their status
+    if (!this.isHiddenByModeration(postItem)) {
+      await this.hidePost(postItem, 'held', [reason]);
+      await NotificationService.notifyPostModerated({ authorId: postItem.user_id, postId: report.post_id, action: 'hidden', reason });
+    }
+
+    logger.info('Post hidden after reports', {
+      postId: report.post_id,
+      reporters: moderationCase.reporter_ids.length,
+      score: moderationCase.weighted_score,
+    });
+  }
+
+  /**
+   * "Reported by 4 users for spam and harassment", most common reason first
+   */
+  private static describeReportReasons(moderationCase: ModerationCase): string {
+    const reasons = Object.entries(moderationCase.reasons)
+      .sort(([, a], [, b]) => b - a)
+      .map(([reason]) => (REPORT_REASON_LABELS[reason as keyof typeof REPORT_REASON_LABELS] || reason).toLowerCase());
+    const reporters = moderationCase.reporter_ids.length;
+    const listed = reasons.length > 1 ? `${reasons.slice(0, -1).join(', ')} and ${reasons[reasons.length - 1]}` : reasons[0];
+
+    return `Reported by ${reporters} ${reporters === 1 ? 'user' : 'users'}${listed ? ` for ${listed}` : ''}`;
+  }
+
+  /**
+   * Close a post's pending reports along with its case
+   */
+  private static async resolvePendingReports(
+    postId: string,
+    adminId: string,
+    outcome: 'upheld' | 'dismissed',
+    note?: string
+  ): Promise<void> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      FilterExpression: '#status = :pending',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':pk': `POST#${postId}`,
+        ':sk': 'REPORT#',
+        ':pending': 'pending',
+      },
+    });
+
+    const status = outcome === 'upheld' ? 'action_taken' : 'dismissed';
+    const now = formatTimestamp();
+
+    await Promise.all((result.Items || []).map(item =>
+      DynamoDBHelper.update(
+        item.PK,
+        item.SK,
+        `SET #status = :status, GSI1PK = :gsi1pk, action_taken = :action, reviewed_by_admin_id = :adminId, reviewed_at = :now${
+          note ? ', admin_notes = :notes' : ''}`,
+        {
+          ':status': status,
+          ':gsi1pk': `REPORT#STATUS#${status}`,
+          ':action': outcome === 'upheld' ? 'post_removed' : 'none',
+          ':adminId': adminId,
+          ':now': now,
+          ...(note && { ':notes': note }),
+        },
+        { '#status': 'status' }
+      )
+    ));
+  }
+
   /**
    * Get reports for a post (admin only)
    */
@@ -2,11 +2,25 @@
  * Posts Management Types
  */
 
+import { NutritionalInfo } from '../shared/utils/types';
+import { Mention } from '../shared/business/mentions';
+import { ReviewStatus } from '../shared/business/moderation';
+
+// One post in a recipe's lineage
+export interface RecipeAncestor {
+  post_id: string;
+  user_id: string;
+  username?: string;
+  recipe_name?: string;
+}
+
 export interface Post {
   post_id: string;
   user_id: string;
   recipe_id?: string;
   content: string;
+  mentions?: Mention[]; // @username ranges in content
+  tags?: string[]; // Normalized #hashtags in content
   images?: string[];
   is_public: boolean; // Legacy field
   privacy?: 'public' | 'friends' | 'private'; // New field
@@ -31,8 +45,15 @@ export interface Post {
     cookingTime?: number;     // Tổng thời gian nấu (phút)
     difficulty?: 'easy' | 'medium' | 'hard';
     servings?: number;        // Số người ăn
+    nutritional_info?: NutritionalInfo; // Computed from the ingredients when the post is created
   };
   cooked_count?: number; // Track how many times this recipe was cooked
+  // Recipe forks: every post the recipe came through, oldest first; the last one is the parent
+  forked_from_post_id?: string;
+  ancestry?: RecipeAncestor[];
+  // Set when moderation held the post; only the author sees it until a moderator approves it
+  moderation_status?: ReviewStatus;
+  moderation_reasons?: string[];
 }
 
 export interface CreatePostRequest {
@@ -68,6 +89,13 @@ export interface UpdatePostRequest {
   is_public?: boolean;
 }
 
+// Tag used by recent public posts, weighted by their engagement
+export interface TrendingTag {
+  tag: string;
+  post_count: number;
+  score: number;
+}
+
 export interface PostResponse {
   post: Post;
   user?: {
@@ -82,6 +110,10 @@ export interface PostResponse {
   };
 }
 
+export interface ForkResponse extends PostResponse {
+  depth: number; // 1 for a direct fork, 2 for a fork of a fork, ...
+}
+
 export interface GetPostRequest {
   post_id: string;
 }
@@ -102,6 +134,9 @@ export interface FeedResponse {
 }
 
 // Comment types
+// Replies nest under a parent comment, at most MAX_COMMENT_DEPTH levels below the post
+export const MAX_COMMENT_DEPTH = 2;
+
 export interface Comment {
   comment_id: string;
   post_id: string;
@@ -109,13 +144,33 @@ export interface Comment {
   username: string;
   avatar_url?: string;
   text: string; // Changed from 'content' to match schema
+  mentions?: Mention[]; // @username ranges in text
   created_at: string;
   updated_at?: string;
+  parent_comment_id?: string; // Set on replies
+  depth?: number; // 0 for top-level comments, 1-2 for replies
+  reply_count?: number;
+  is_edited?: boolean;
+  edited_at?: string;
+  is_deleted?: boolean; // Deleted comment kept as a placeholder for its replies
+  moderation_status?: ReviewStatus; // Held comments are only shown to their author
+  moderation_reasons?: string[];
 }
 
 export interface CreateCommentRequest {
   post_id: string;
   text: string; // Changed from 'content' to match schema
+  parent_comment_id?: string;
+}
+
+export interface UpdateCommentRequest {
+  text: string;
+}
+
+// Earlier text of an edited comment
+export interface CommentRevision {
+  text: string;
+  created_at: string; // When this version was written
 }
 
 export interface CommentResponse {
@@ -189,6 +244,14 @@ export interface ShareResponse {
 // Report types
 export type ReportReason = 'spam' | 'inappropriate_content' | 'harassment' | 'misinformation' | 'other';
 export type ReportStatus = 'pending' | 'reviewed' | 'dismissed' | 'action_taken';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam',
+  inappropriate_content: 'Inappropriate content',
+  harassment: 'Harassment',
+  misinformation: 'Misinformation',
+  other: 'Other',
+};
 export type AdminAction = 'none' | 'warning' | 'post_removed' | 'user_suspended';
 
 export interface Report {
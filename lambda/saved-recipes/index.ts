@@ -5,11 +5,18 @@
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { SavedRecipeService } from './saved-recipe-service';
+import { RecipeImporter } from './recipe-importer';
+import { RecipeExportService } from '../shared/business/recipe-export';
 import { successResponse, errorResponse, handleError, AppError } from '../shared/errors/responses';
 import { getUserIdFromEvent } from '../shared/utils/utils';
 import { logger } from '../shared/monitoring/logger';
 import { metrics } from '../shared/monitoring/metrics';
-import { SaveRecipeRequest, CreateGroupRequest, AddToGroupRequest } from './types';
+import { DynamoDBHelper } from '../shared/database/dynamodb';
+import { DEFAULT_SERVINGS, UNIT_SYSTEMS, UnitSystem } from '../shared/business/ingredients/recipe-scaler';
+import { UserPreferences } from '../shared/utils/types';
+import { SaveRecipeRequest, ImportRecipeRequest, ShareRecipeRequest, CreateGroupRequest, AddToGroupRequest } from './types';
+
+const MAX_SERVINGS = 50;
 
 export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
   const startTime = Date.now();
@@ -63,10 +70,27 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return await saveRecipe(userId, event.body);
     }
 
-    // GET /v1/recipes/{savedId} - Get specific recipe
+    // POST /v1/recipes/import - Draft a recipe from a web page or pasted text (not saved)
+    if (method === 'POST' && normalizedPath.match(/^(?:\/v1)?\/recipes\/import$/)) {
+      return await importRecipe(event.body);
+    }
+
+    // GET /v1/recipes/groups/{groupId}/export - Cookbook PDF of the group
+    if (method === 'GET' && normalizedPath.match(/\/groups\/[^/]+\/export$/)) {
+      const parts = normalizedPath.split('/');
+      return await exportGroup(userId, parts[parts.length - 2]);
+    }
+
+    // GET /v1/recipes/{savedId}/export?format=pdf|markdown|jsonld - Export a recipe
+    if (method === 'GET' && normalizedPath.match(/\/recipes\/[^/]+\/export$/)) {
+      const parts = normalizedPath.split('/');
+      return await exportRecipe(userId, parts[parts.length - 2], event.queryStringParameters?.format);
+    }
+
+    // GET /v1/recipes/{savedId}?servings=N&units=metric|imperial - Get specific recipe, optionally rescaled
     if (method === 'GET' && normalizedPath.match(/\/recipes\/[^/]+$/)) {
       const savedId = normalizedPath.split('/').pop()!;
-      return await getRecipe(userId, savedId);
+      return await getRecipe(userId, savedId, event.queryStringParameters);
     }
 
     // PUT /v1/recipes/{savedId} - Update recipe
@@ -93,6 +117,30 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return await shareRecipe(userId, savedId, event.body);
     }
 
+    // GET /v1/recipes/{savedId}/revisions - Revision history, newest first
+    if (method === 'GET' && normalizedPath.match(/\/recipes\/[^/]+\/revisions$/)) {
+      const savedId = normalizedPath.split('/')[normalizedPath.split('/').length - 2];
+      return await getRevisions(userId, savedId);
+    }
+
+    // GET /v1/recipes/{savedId}/revisions/{revision} - One revision
+    if (method === 'GET' && normalizedPath.match(/\/recipes\/[^/]+\/revisions\/\d+$/)) {
+      const parts = normalizedPath.split('/');
+      return await getRevision(userId, parts[parts.length - 3], Number(parts[parts.length - 1]));
+    }
+
+    // POST /v1/recipes/{savedId}/revisions/{revision}/restore - Restore a revision
+    if (method === 'POST' && normalizedPath.match(/\/recipes\/[^/]+\/revisions\/\d+\/restore$/)) {
+      const parts = normalizedPath.split('/');
+      return await restoreRevision(userId, parts[parts.length - 4], Number(parts[parts.length - 2]));
+    }
+
+    // GET /v1/recipes/{savedId}/diff?from=1&to=current - Compare revisions, "current" or "source"
+    if (method === 'GET' && normalizedPath.match(/\/recipes\/[^/]+\/diff$/)) {
+      const savedId = normalizedPath.split('/')[normalizedPath.split('/').length - 2];
+      return await compareVersions(userId, savedId, event.queryStringParameters);
+    }
+
     // ==================== GROUPS ====================
 
     // GET /v1/recipes/groups - Get all groups
@@ -187,7 +235,11 @@ async function saveRecipe(userId: string, body: string | null): Promise<APIGatew
   }
 
   if (!request.source_type) {
-    throw new AppError(400, 'missing_source_type', 'source_type is required (ai_suggestion, post, or manual)');
+    throw new AppError(400, 'missing_source_type', 'source_type is required (ai_suggestion, post, manual, or import)');
+  }
+
+  if (request.servings !== undefined) {
+    validateServings(request.servings);
   }
 
   const recipe = await SavedRecipeService.saveRecipe(userId, request);
@@ -200,7 +252,49 @@ async function saveRecipe(userId: string, body: string | null): Promise<APIGatew
   }, 201);
 }
 
-async function getRecipe(userId: string, savedId: string): Promise<APIGatewayProxyResult> {
+async function importRecipe(body: string | null): Promise<APIGatewayProxyResult> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: ImportRecipeRequest = JSON.parse(body);
+
+  if (request.url !== undefined && typeof request.url !== 'string') {
+    throw new AppError(400, 'invalid_url', 'url must be a string');
+  }
+
+  if (request.text !== undefined && typeof request.text !== 'string') {
+    throw new AppError(400, 'invalid_text', 'text must be a string');
+  }
+
+  const result = await RecipeImporter.importRecipe(request);
+
+  metrics.trackApiRequest(200, Date.now(), 'saved-recipes');
+
+  return successResponse(result);
+}
+
+async function exportRecipe(userId: string, savedId: string, format?: string): Promise<APIGatewayProxyResult> {
+  const result = await SavedRecipeService.exportRecipe(userId, savedId, RecipeExportService.parseFormat(format));
+
+  metrics.trackApiRequest(200, Date.now(), 'saved-recipes');
+
+  return successResponse(result);
+}
+
+async function exportGroup(userId: string, groupId: string): Promise<APIGatewayProxyResult> {
+  const result = await SavedRecipeService.exportGroup(userId, groupId);
+
+  metrics.trackApiRequest(200, Date.now(), 'saved-recipes');
+
+  return successResponse(result);
+}
+
+async function getRecipe(
+  userId: string,
+  savedId: string,
+  query: { [key: string]: string | undefined } | null
+): Promise<APIGatewayProxyResult> {
   const recipes = await SavedRecipeService.getSavedRecipes(userId);
   const recipe = recipes.find(r => r.saved_id === savedId);
 
@@ -210,15 +304,50 @@ async function getRecipe(userId: string, savedId: string): Promise<APIGatewayPro
 
   // Get groups this recipe belongs to
   const groups = await SavedRecipeService.getGroupsForRecipe(userId, savedId);
+  const preferences = await DynamoDBHelper.getUserPreferences(userId) as UserPreferences | undefined;
+
+  // Nutrition is per serving, so it's computed from the stored quantities before any scaling
+  const analyzed = SavedRecipeService.analyzeNutrition(recipe, preferences?.health_goals);
 
   metrics.trackApiRequest(200, Date.now(), 'saved-recipes');
 
+  // Stored quantities are returned as-is unless scaling is asked for (the edit form relies on this)
+  if (!query?.servings && !query?.units) {
+    return successResponse({
+      recipe: analyzed,
+      groups
+    });
+  }
+
+  const units = query.units as UnitSystem | undefined;
+  if (units !== undefined && !UNIT_SYSTEMS.includes(units)) {
+    throw new AppError(400, 'invalid_units', `units must be one of: ${UNIT_SYSTEMS.join(', ')}`);
+  }
+
+  let servings: number;
+  if (query.servings) {
+    servings = Number(query.servings);
+    validateServings(servings);
+  } else {
+    // Default to the household size from the user's preferences
+    servings = preferences?.household_size || recipe.servings || DEFAULT_SERVINGS;
+  }
+
+  const scaled = SavedRecipeService.scaleRecipe(analyzed, servings, units);
+
   return successResponse({
-    recipe,
-    groups
+    recipe: scaled.recipe,
+    groups,
+    scaling: scaled.scaling
   });
 }
 
+function validateServings(servings: unknown): void {
+  if (typeof servings !== 'number' || !Number.isInteger(servings) || servings < 1 || servings > MAX_SERVINGS) {
+    throw new AppError(400, 'invalid_servings', `servings must be an integer between 1 and ${MAX_SERVINGS}`);
+  }
+}
+
 async function updateRecipe(
   userId: string,
   savedId: string,
@@ -240,6 +369,55 @@ async function updateRecipe(
   });
 }
 
+async function getRevisions(userId: string, savedId: string): Promise<APIGatewayProxyResult> {
+  const revisions = await SavedRecipeService.getRevisions(userId, savedId);
+
+  metrics.trackApiRequest(200, Date.now(), 'saved-recipes');
+
+  return successResponse({
+    revisions,
+    total: revisions.length
+  });
+}
+
+async function getRevision(userId: string, savedId: string, revision: number): Promise<APIGatewayProxyResult> {
+  const result = await SavedRecipeService.getRevision(userId, savedId, revision);
+
+  metrics.trackApiRequest(200, Date.now(), 'saved-recipes');
+
+  return successResponse({ revision: result });
+}
+
+async function restoreRevision(userId: string, savedId: string, revision: number): Promise<APIGatewayProxyResult> {
+  const result = await SavedRecipeService.restoreRevision(userId, savedId, revision);
+
+  metrics.trackApiRequest(200, Date.now(), 'saved-recipes');
+
+  return successResponse({
+    message: `Revision ${revision} restored`,
+    revision: result
+  });
+}
+
+async function compareVersions(
+  userId: string,
+  savedId: string,
+  query: { [key: string]: string | undefined } | null
+): Promise<APIGatewayProxyResult> {
+  const from = query?.from || '1';
+  const to = query?.to || 'current';
+
+  const result = await SavedRecipeService.compareVersions(userId, savedId, from, to);
+
+  metrics.trackApiRequest(200, Date.now(), 'saved-recipes');
+
+  return successResponse({
+    from: { version: from, recipe: result.from },
+    to: { version: to, recipe: result.to },
+    diff: result.diff
+  });
+}
+
 async function deleteRecipe(userId: string, savedId: string): Promise<APIGatewayProxyResult> {
   await SavedRecipeService.deleteRecipe(userId, savedId);
 
@@ -271,18 +449,16 @@ async function shareRecipe(
     throw new AppError(400, 'missing_body', 'Request body is required');
   }
 
-  const { title, caption, images, visibility } = JSON.parse(body);
-
-  // TODO: Implement share to posts
-  // This will create a POST entity with the recipe data
-  // For now, just return success
+  const request: ShareRecipeRequest = JSON.parse(body);
+  const post = await SavedRecipeService.shareRecipe(userId, savedId, request);
 
-  metrics.trackApiRequest(200, Date.now(), 'saved-recipes');
+  metrics.trackApiRequest(201, Date.now(), 'saved-recipes');
 
   return successResponse({
-    message: 'Recipe shared successfully (TODO: implement)',
-    saved_id: savedId
-  });
+    message: 'Recipe shared successfully',
+    saved_id: savedId,
+    post
+  }, 201);
 }
 
 // ==================== GROUP HANDLERS ====================
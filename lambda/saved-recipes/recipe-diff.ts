@@ -0,0 +1,136 @@
+/**
+ * Recipe Diff
+ * Structured comparison of two versions of a recipe
+ */
+
+import { RecipeContent, RecipeDiff, RecipeIngredient, RecipeInstruction, StepMove } from './types';
+
+const normalize = (text: string | undefined) => (text || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Compare two versions of a recipe.
+ * Ingredients are matched by name; steps by their text, so a step that only moved
+ * shows up in `moved` rather than as a removal plus an addition.
+ */
+export function diffRecipes(from: RecipeContent, to: RecipeContent): RecipeDiff {
+  const diff: RecipeDiff = {
+    ingredients: diffIngredients(from.recipe_ingredients || [], to.recipe_ingredients || []),
+    steps: diffSteps(from.recipe_instructions || [], to.recipe_instructions || []),
+    has_changes: false
+  };
+
+  if (from.recipe_name !== to.recipe_name) {
+    diff.recipe_name = { from: from.recipe_name, to: to.recipe_name };
+  }
+
+  if ((from.servings ?? null) !== (to.servings ?? null)) {
+    diff.servings = { from: from.servings, to: to.servings };
+  }
+
+  diff.has_changes = !!diff.recipe_name || !!diff.servings ||
+    Object.values(diff.ingredients).some(list => list.length > 0) ||
+    Object.values(diff.steps).some(list => list.length > 0);
+
+  return diff;
+}
+
+function diffIngredients(from: RecipeIngredient[], to: RecipeIngredient[]): RecipeDiff['ingredients'] {
+  const before = new Map(from.map(ingredient => [normalize(ingredient.name), ingredient]));
+  const after = new Map(to.map(ingredient => [normalize(ingredient.name), ingredient]));
+
+  const result: RecipeDiff['ingredients'] = { added: [], removed: [], changed: [] };
+
+  for (const [key, ingredient] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      result.added.push(ingredient);
+    } else if (
+      normalize(previous.quantity) !== normalize(ingredient.quantity) ||
+      normalize(previous.unit) !== normalize(ingredient.unit) ||
+      normalize(previous.notes) !== normalize(ingredient.notes)
+    ) {
+      result.changed.push({ name: ingredient.name, from: previous, to: ingredient });
+    }
+  }
+
+  for (const [key, ingredient] of before) {
+    if (!after.has(key)) {
+      result.removed.push(ingredient);
+    }
+  }
+
+  return result;
+}
+
+function diffSteps(from: RecipeInstruction[], to: RecipeInstruction[]): RecipeDiff['steps'] {
+  const before = [...from].sort((a, b) => a.step_number - b.step_number);
+  const after = [...to].sort((a, b) => a.step_number - b.step_number);
+
+  // Pair steps with identical text, each step used at most once
+  const matchedFrom = new Map<number, number>(); // index in after -> index in before
+  const usedBefore = new Set<number>();
+  after.forEach((step, afterIndex) => {
+    const beforeIndex = before.findIndex((candidate, i) =>
+      !usedBefore.has(i) && normalize(candidate.description) === normalize(step.description)
+    );
+    if (beforeIndex >= 0) {
+      usedBefore.add(beforeIndex);
+      matchedFrom.set(afterIndex, beforeIndex);
+    }
+  });
+
+  // Matched steps that keep their relative order stayed put; the rest moved
+  const pairs = [...matchedFrom.entries()]; // in "after" order
+  const inOrder = longestIncreasingRun(pairs.map(([, beforeIndex]) => beforeIndex));
+  const moved: StepMove[] = pairs
+    .filter((_, i) => !inOrder.has(i))
+    .map(([afterIndex, beforeIndex]) => ({
+      description: after[afterIndex].description,
+      from_step: before[beforeIndex].step_number,
+      to_step: after[afterIndex].step_number
+    }));
+
+  // Unmatched steps at the same position were edited; anything else was added or removed
+  const unmatchedBefore = before.filter((_, i) => !usedBefore.has(i));
+  const unmatchedAfter = after.filter((_, i) => !matchedFrom.has(i));
+  const result: RecipeDiff['steps'] = { added: [], removed: [], changed: [], moved };
+
+  for (const step of unmatchedAfter) {
+    const previous = unmatchedBefore.find(candidate => candidate.step_number === step.step_number);
+    if (previous) {
+      result.changed.push({ step_number: step.step_number, from: previous.description, to: step.description });
+    } else {
+      result.added.push(step);
+    }
+  }
+
+  const changedSteps = new Set(result.changed.map(change => change.step_number));
+  result.removed = unmatchedBefore.filter(step => !changedSteps.has(step.step_number));
+
+  return result;
+}
+
+/**
+ * Positions of one longest strictly increasing subsequence of values
+ */
+function longestIncreasingRun(values: number[]): Set<number> {
+  const length = values.map(() => 1);
+  const previous = values.map(() => -1);
+
+  for (let i = 0; i < values.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < values[i] && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+
+  const positions = new Set<number>();
+  let index = length.indexOf(Math.max(0, ...length));
+  while (index >= 0) {
+    positions.add(index);
+    index = previous[index];
+  }
+  return positions;
+}
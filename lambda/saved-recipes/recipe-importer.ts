@@ -0,0 +1,488 @@
+/**
+ * Recipe Importer
+ * Turns a recipe web page or pasted text into a draft saved recipe
+ */
+
+import { lookup as dnsLookup } from 'dns';
+import { request as httpRequest, IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { AppError } from '../shared/errors/responses';
+import { logger } from '../shared/monitoring/logger';
+import { IngredientParserHybrid } from '../shared/business/ingredients/ingredient-parser-hybrid';
+import { ImportRecipeRequest, ImportedRecipe, RecipeIngredient } from './types';
+
+/**
+ * Loads the HTML of a page that has already passed URL validation
+ */
+export type HtmlFetcher = (url: string) => Promise<string>;
+
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_REDIRECTS = 3;
+const MAX_HTML_LENGTH = 2 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 20000;
+const MAX_INGREDIENTS = 100;
+const MAX_STEPS = 100;
+
+const INGREDIENT_HEADINGS = ['ingredient', 'nguyên liệu', 'thành phần'];
+const STEP_HEADINGS = [
+  'instruction', 'direction', 'method', 'step', 'preparation',
+  'cách làm', 'cách nấu', 'các bước', 'hướng dẫn', 'thực hiện'
+];
+
+/**
+ * Where a fetched page may not live: private, loopback, link-local, shared (CGNAT), multicast,
+ * documentation and reserved ranges, plus the IPv6 forms that can carry an IPv4 address
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 23],
+  ['2001:db8::', 32], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const BULLET_PATTERN = /^[-*•▪◦+–]\s*/;
+// "1." or "2)" but not "1.5 kg"; "Bước 1:" and "Step 1:"
+const STEP_NUMBER_PATTERN = /^(?:\d+[.)](?!\d)|(?:bước|step)\s*\d+\s*[:.)-]?)\s*/i;
+const SERVINGS_PATTERN = /(?:serves|servings?|yield|makes|khẩu phần)\s*:?\s*(\d+)|(\d+)\s*(?:servings|people|người|phần)/i;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export class RecipeImporter {
+  private static fetcher: HtmlFetcher | null = null;
+
+  /**
+   * Replace the page fetcher (e.g. with fixtures in tests)
+   */
+  static setFetcher(fetcher: HtmlFetcher | null): void {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Build a draft recipe from a URL or pasted text. schema.org Recipe JSON-LD is used when
+   * the page has it; otherwise the text is split into ingredients and steps by its headings.
+   * Nothing is saved - the user reviews the draft first.
+   */
+  static async importRecipe(request: ImportRecipeRequest): Promise<ImportedRecipe> {
+    const text = request.text?.trim();
+    if (!request.url && !text) {
+      throw new AppError(400, 'missing_source', 'A url or recipe text is required');
+    }
+
+    if (text && text.length > MAX_TEXT_LENGTH) {
+      throw new AppError(400, 'text_too_long', `Recipe text must be less than ${MAX_TEXT_LENGTH} characters`);
+    }
+
+    const url = request.url ? assertPublicUrl(request.url) : undefined;
+
+    let parsed: ParsedRecipe | null;
+    let method: ImportedRecipe['method'];
+
+    if (text) {
+      parsed = parseRecipeText(text);
+      method = 'heuristic';
+    } else {
+      const html = await this.loadPage(url!);
+      const jsonLd = extractJsonLdRecipe(html);
+      parsed = jsonLd ? fromJsonLd(jsonLd) : parseRecipeText(htmlToText(html), pageTitle(html));
+      method = jsonLd ? 'json-ld' : 'heuristic';
+    }
+
+    if (!parsed || (parsed.ingredients.length === 0 && parsed.steps.length === 0)) {
+      throw new AppError(422, 'recipe_not_found', 'No recipe was found in the page or text');
+    }
+
+    const ingredients = parsed.ingredients.slice(0, MAX_INGREDIENTS);
+    const steps = parsed.steps.slice(0, MAX_STEPS);
+
+    logger.info('Recipe imported', { url, method, ingredients: ingredients.length, steps: steps.length });
+
+    return {
+      method,
+      draft: {
+        recipe_name: parsed.name || '',
+        recipe_ingredients: await parseIngredientLines(ingredients),
+        recipe_instructions: steps.map((description, i) => ({
+          step_number: i + 1,
+          description,
+          duration_minutes: null
+        })),
+        servings: parsed.servings,
+        // Imports keep the page they came from for attribution; pasted text without a url is the user's own
+        source_type: url ? 'import' : 'manual',
+        ...(url && { source_id: url, original_post_url: url }),
+        ...(parsed.author && { original_author_username: parsed.author })
+      }
+    };
+  }
+
+  private static async loadPage(url: string): Promise<string> {
+    try {
+      return await (this.fetcher || fetchHtml)(url);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.warn('Failed to fetch recipe page', { url, error });
+      throw new AppError(422, 'fetch_failed', 'The page could not be loaded');
+    }
+  }
+}
+
+interface ParsedRecipe {
+  name?: string;
+  author?: string;
+  servings?: number;
+  ingredients: string[];
+  steps: string[];
+}
+
+/**
+ * Only http(s) URLs to public hosts. IP literals are checked here; host names are checked
+ * when the fetcher resolves them (publicLookup), again on every redirect.
+ */
+function assertPublicUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new AppError(400, 'invalid_url', 'The url is not valid');
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const isPrivate = host === 'localhost' || host.endsWith('.localhost') ||
+    (isIP(host) !== 0 && !isPublicAddress(host));
+
+  if (!['http:', 'https:'].includes(url.protocol) || isPrivate) {
+    throw notPublicError();
+  }
+
+  return url.toString();
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function notPublicError(): AppError {
+  return new AppError(400, 'invalid_url', 'Only public http and https pages can be imported');
+}
+
+/**
+ * DNS lookup for page requests: fails unless every address of the host is public, and hands
+ * those same addresses to the connection, so a second resolution can't swap in another one
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(entry => !isPublicAddress(entry.address))) {
+      logger.warn('Refused to fetch a recipe page on a non-public address', { hostname, addresses });
+      callback(notPublicError(), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const fetchHtml: HtmlFetcher = async (url) => {
+  let current = url;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const response = await requestPage(current);
+    const status = response.statusCode || 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      current = assertPublicUrl(new URL(location, current).toString());
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new AppError(422, 'fetch_failed', `The page could not be loaded (HTTP ${status})`);
+    }
+
+    const contentType = response.headers['content-type'] || '';
+    if (contentType && !/html|xml|text\/plain/i.test(contentType)) {
+      response.destroy();
+      throw new AppError(422, 'unsupported_content', 'The url does not point to a web page');
+    }
+
+    if (Number(response.headers['content-length']) > MAX_HTML_LENGTH) {
+      response.destroy();
+      throw new AppError(422, 'page_too_large', 'The page is too large to import');
+    }
+
+    return readText(response, MAX_HTML_LENGTH);
+  }
+
+  throw new AppError(422, 'fetch_failed', 'The page redirected too many times');
+};
+
+/**
+ * GET a page without following redirects, connecting through publicLookup
+ */
+function requestPage(url: string): Promise<IncomingMessage> {
+  const request = url.startsWith('https:') ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    request(url, {
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: {
+        Accept: 'text/html,application/xhtml+xml',
+        'Accept-Encoding': 'identity',
+        'User-Agent': 'SmartCookingRecipeImporter/1.0'
+      }
+    }, resolve)
+      .on('error', reject)
+      .end();
+  });
+}
+
+/**
+ * The response body as UTF-8 text, cut off after `limit` bytes
+ */
+function readText(response: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    response.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= limit) {
+        response.destroy();
+        resolve(Buffer.concat(chunks).subarray(0, limit).toString('utf8'));
+      }
+    });
+    response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    response.on('error', reject);
+  });
+}
+
+/**
+ * The first schema.org Recipe in the page's JSON-LD blocks, looking inside arrays, @graph and mainEntity
+ */
+function extractJsonLdRecipe(html: string): any | null {
+  const blocks = html.matchAll(/<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi);
+
+  for (const [, json] of Array.from(blocks)) {
+    try {
+      const recipe = findRecipe(JSON.parse(json.trim()), 0);
+      if (recipe) return recipe;
+    } catch {
+      // Sites ship broken JSON-LD; try the next block
+    }
+  }
+
+  return null;
+}
+
+function findRecipe(node: any, depth: number): any | null {
+  if (!node || typeof node !== 'object' || depth > 5) return null;
+
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const recipe = findRecipe(item, depth + 1);
+      if (recipe) return recipe;
+    }
+    return null;
+  }
+
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  if (types.includes('Recipe')) return node;
+
+  return findRecipe(node['@graph'], depth + 1) || findRecipe(node.mainEntity, depth + 1);
+}
+
+function fromJsonLd(recipe: any): ParsedRecipe {
+  const ingredients = asArray(recipe.recipeIngredient || recipe.ingredients)
+    .filter((line): line is string => typeof line === 'string')
+    .map(line => cleanLine(htmlToText(line)))
+    .filter(Boolean);
+
+  return {
+    name: typeof recipe.name === 'string' ? cleanLine(htmlToText(recipe.name)) : undefined,
+    author: authorName(recipe.author),
+    servings: parseServings(recipe.recipeYield),
+    ingredients,
+    steps: instructionTexts(recipe.recipeInstructions)
+  };
+}
+
+/**
+ * Steps from a string, HowToStep, HowToSection or any list of them
+ */
+function instructionTexts(value: any): string[] {
+  if (!value) return [];
+
+  if (typeof value === 'string') {
+    return htmlToText(value)
+      .split('\n')
+      .map(line => cleanLine(line).replace(STEP_NUMBER_PATTERN, ''))
+      .filter(Boolean);
+  }
+
+  if (Array.isArray(value)) return value.flatMap(instructionTexts);
+
+  if (typeof value === 'object') {
+    return value.itemListElement
+      ? instructionTexts(value.itemListElement)
+      : instructionTexts(value.text || value.name);
+  }
+
+  return [];
+}
+
+function authorName(author: any): string | undefined {
+  const first = asArray(author)[0];
+  if (typeof first === 'string') return first.trim() || undefined;
+  if (first && typeof first.name === 'string') return first.name.trim() || undefined;
+  return undefined;
+}
+
+function parseServings(value: any): number | undefined {
+  for (const item of asArray(value)) {
+    const servings = typeof item === 'number' ? item : parseInt(String(item).match(/\d+/)?.[0] || '', 10);
+    if (Number.isFinite(servings) && servings > 0) return Math.round(servings);
+  }
+  return undefined;
+}
+
+/**
+ * Split text into ingredients and steps by section headings ("Ingredients", "Nguyên liệu",
+ * "Cách làm", ...). Without headings, bulleted lines are ingredients and numbered lines are steps.
+ */
+function parseRecipeText(text: string, fallbackName?: string): ParsedRecipe {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const result: ParsedRecipe = { ingredients: [], steps: [] };
+  let section: 'ingredients' | 'steps' | null = null;
+  let sawHeading = false;
+
+  for (const line of lines) {
+    const heading = sectionHeading(line);
+    if (heading) {
+      section = heading;
+      sawHeading = true;
+      continue;
+    }
+
+    if (!result.servings) {
+      const match = line.match(SERVINGS_PATTERN);
+      if (match) {
+        result.servings = parseInt(match[1] || match[2], 10);
+        if (/^(serves|servings?|yield|makes|khẩu phần)/i.test(line)) continue;
+      }
+    }
+
+    if (section === 'ingredients') {
+      const ingredient = cleanLine(line.replace(BULLET_PATTERN, ''));
+      if (ingredient) result.ingredients.push(ingredient);
+    } else if (section === 'steps') {
+      const step = cleanLine(line.replace(BULLET_PATTERN, '').replace(STEP_NUMBER_PATTERN, ''));
+      if (step) result.steps.push(step);
+    } else if (!sawHeading && !result.name && line.length <= 120 && !BULLET_PATTERN.test(line) && !STEP_NUMBER_PATTERN.test(line)) {
+      result.name = cleanLine(line);
+    } else if (!sawHeading && BULLET_PATTERN.test(line)) {
+      result.ingredients.push(cleanLine(line.replace(BULLET_PATTERN, '')));
+    } else if (!sawHeading && STEP_NUMBER_PATTERN.test(line)) {
+      result.steps.push(cleanLine(line.replace(STEP_NUMBER_PATTERN, '')));
+    }
+  }
+
+  if (fallbackName) result.name = fallbackName;
+
+  return result;
+}
+
+function sectionHeading(line: string): 'ingredients' | 'steps' | null {
+  const heading = line.replace(/^#+\s*/, '').replace(/[:：]\s*$/, '').trim().toLowerCase();
+  if (heading.length > 40) return null;
+  if (INGREDIENT_HEADINGS.some(h => heading.startsWith(h))) return 'ingredients';
+  if (STEP_HEADINGS.some(h => heading.startsWith(h))) return 'steps';
+  return null;
+}
+
+/**
+ * Page title from og:title, the first <h1> or <title>
+ */
+function pageTitle(html: string): string | undefined {
+  const candidates = [
+    html.match(/<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']+)["']/i)?.[1],
+    html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1],
+    html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+  ];
+
+  for (const candidate of candidates) {
+    const title = candidate && cleanLine(htmlToText(candidate));
+    if (title) return title;
+  }
+  return undefined;
+}
+
+/**
+ * Visible text with one line per block element; list items become "- " bullets
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|tr|section|article|header|ul|ol)>/gi, '\n')
+      .replace(/<h[1-6][^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function cleanLine(line: string): string {
+  return line.replace(/\s+/g, ' ').trim();
+}
+
+function asArray(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Quantities and units via the hybrid parser; a line it can't parse is kept whole as the name
+ */
+async function parseIngredientLines(lines: string[]): Promise<RecipeIngredient[]> {
+  const parsed = await IngredientParserHybrid.parseIngredients(lines);
+
+  return lines.map((line, i) => {
+    const ingredient = parsed[i];
+    return ingredient?.name
+      ? { name: ingredient.name, quantity: ingredient.quantity || '', ...(ingredient.unit && { unit: ingredient.unit }) }
+      : { name: line, quantity: '' };
+  });
+}
@@ -7,14 +7,45 @@ import { DynamoDBHelper } from '../shared/database/dynamodb';
 import { generateUUID, formatTimestamp } from '../shared/utils/utils';
 import { logger } from '../shared/monitoring/logger';
 import { AppError } from '../shared/errors/responses';
+import {
+  DEFAULT_SERVINGS,
+  UnitSystem,
+  getScaleFactor,
+  scaleIngredients
+} from '../shared/business/ingredients/recipe-scaler';
+import { NutritionCalculator, MIN_COVERAGE, checkHealthGoals } from '../shared/business/nutrition';
+import { PostsService } from '../posts/posts-service';
+import { Post, RecipeAncestor } from '../posts/types';
+import { diffRecipes } from './recipe-diff';
+import { RecipeExportService, ExportableRecipe, ExportFormat, ExportResult } from '../shared/business/recipe-export';
 import {
   SavedRecipe,
+  RecipeScaling,
   RecipeGroup,
+  RecipeContent,
+  RecipeRevision,
+  RecipeDiff,
   SaveRecipeRequest,
+  ShareRecipeRequest,
   CreateGroupRequest,
   AddToGroupRequest
 } from './types';
 
+// Recipes rendered into one cookbook PDF
+const MAX_COOKBOOK_RECIPES = 100;
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://awssmartcookingss.com';
+
+const revisionSK = (savedId: string, revision: number) =>
+  `RECIPE_REVISION#${savedId}#${String(revision).padStart(5, '0')}`;
+
+const toContent = (recipe: RecipeContent): RecipeContent => ({
+  recipe_name: recipe.recipe_name,
+  recipe_ingredients: recipe.recipe_ingredients || [],
+  recipe_instructions: recipe.recipe_instructions || [],
+  servings: recipe.servings
+});
+
 export class SavedRecipeService {
   /**
    * Save a recipe (from AI suggestion, post, or manual)
@@ -23,12 +54,18 @@ export class SavedRecipeService {
     const savedId = generateUUID();
     const now = formatTimestamp();
 
+    // Saving a recipe post forks it; the lineage credits everyone up the chain when it's re-shared
+    const ancestry = request.source_type === 'post' && request.source_id
+      ? await this.getSourceLineage(userId, request.source_id)
+      : undefined;
+
     const recipe: SavedRecipe = {
       saved_id: savedId,
       user_id: userId,
       recipe_name: request.recipe_name,
       recipe_ingredients: request.recipe_ingredients,
       recipe_instructions: request.recipe_instructions,
+      servings: request.servings,
       is_modified: request.is_modified || false,
       personal_notes: request.personal_notes,
       is_favorite: false,
@@ -36,12 +73,15 @@ export class SavedRecipeService {
       // Source tracking
       source_type: request.source_type,
       source_id: request.source_id,
-      original_author_id: request.original_author_id,
-      original_author_username: request.original_author_username,
+      original_author_id: ancestry ? ancestry[0].user_id : request.original_author_id,
+      original_author_username: ancestry ? ancestry[0].username : request.original_author_username,
       original_post_url: request.original_post_url,
+      forked_from_post_id: ancestry ? request.source_id : undefined,
+      ancestry,
       
       saved_at: now,
-      updated_at: now
+      updated_at: now,
+      revision_count: 1
     };
 
     await DynamoDBHelper.put({
@@ -51,6 +91,8 @@ export class SavedRecipeService {
       ...recipe
     });
 
+    await this.putRevision(userId, savedId, 1, toContent(recipe), 'saved', now);
+
     // Add to groups if specified
     if (request.group_ids && request.group_ids.length > 0) {
       for (const groupId of request.group_ids) {
@@ -142,29 +184,16 @@ export class SavedRecipeService {
   }
 
   /**
-   * Update a saved recipe
+   * Update a saved recipe. Changes to the name, ingredients, instructions or servings
+   * are recorded as a new revision so earlier versions can be compared and restored.
    */
   static async updateRecipe(
     userId: string,
     savedId: string,
-    updates: Partial<SavedRecipe>
+    updates: Partial<SavedRecipe>,
+    restoredFrom?: number
   ): Promise<void> {
-    // Find the recipe
-    const result = await DynamoDBHelper.query({
-      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-      FilterExpression: 'saved_id = :sid',
-      ExpressionAttributeValues: {
-        ':pk': `USER#${userId}`,
-        ':sk': 'SAVED_RECIPE#',
-        ':sid': savedId
-      }
-    });
-
-    if (!result.Items || result.Items.length === 0) {
-      throw new AppError(404, 'recipe_not_found', 'Saved recipe not found');
-    }
-
-    const item = result.Items[0];
+    const item = await this.findRecipeItem(userId, savedId);
 
     // Build update expression
     const updateExpressions: string[] = [];
@@ -187,6 +216,11 @@ export class SavedRecipeService {
       expressionAttributeValues[':instructions'] = updates.recipe_instructions;
     }
 
+    if (updates.servings !== undefined) {
+      updateExpressions.push('servings = :servings');
+      expressionAttributeValues[':servings'] = updates.servings;
+    }
+
     if (updates.personal_notes !== undefined) {
       updateExpressions.push('personal_notes = :notes');
       expressionAttributeValues[':notes'] = updates.personal_notes;
@@ -197,8 +231,49 @@ export class SavedRecipeService {
       expressionAttributeValues[':modified'] = updates.is_modified;
     }
 
+    const now = formatTimestamp();
     updateExpressions.push('updated_at = :now');
-    expressionAttributeValues[':now'] = formatTimestamp();
+    expressionAttributeValues[':now'] = now;
+
+    const previous = toContent(item as SavedRecipe);
+    const next = toContent({
+      recipe_name: updates.recipe_name || previous.recipe_name,
+      recipe_ingredients: updates.recipe_ingredients || previous.recipe_ingredients,
+      recipe_instructions: updates.recipe_instructions || previous.recipe_instructions,
+      servings: updates.servings !== undefined ? updates.servings : previous.servings
+    });
+
+    let revision: number | undefined;
+    if (diffRecipes(previous, next).has_changes) {
+      let latest = item.revision_count || 0;
+
+      // Recipes saved before versioning get their current state as revision 1
+      // (an edit racing this one may have written it already)
+      if (latest === 0) {
+        latest = 1;
+        await this.putRevision(userId, savedId, latest, previous, 'saved', item.saved_at);
+      }
+
+      const nextRevision = latest + 1;
+      const written = await this.putRevision(
+        userId,
+        savedId,
+        nextRevision,
+        next,
+        restoredFrom !== undefined ? 'restore' : 'edit',
+        now,
+        restoredFrom
+      );
+
+      // Another edit took this revision number since the recipe was read
+      if (!written) {
+        throw new AppError(409, 'revision_conflict', 'The recipe was changed at the same time, reload it and try again');
+      }
+
+      updateExpressions.push('revision_count = :revision');
+      expressionAttributeValues[':revision'] = nextRevision;
+      revision = nextRevision;
+    }
 
     await DynamoDBHelper.update(
       item.PK,
@@ -208,7 +283,215 @@ export class SavedRecipeService {
       Object.keys(expressionAttributeNames).length > 0 ? expressionAttributeNames : undefined
     );
 
-    logger.info('Recipe updated', { userId, savedId });
+    logger.info('Recipe updated', { userId, savedId, revision });
+  }
+
+  /**
+   * All revisions of a recipe, newest first
+   */
+  static async getRevisions(userId: string, savedId: string): Promise<RecipeRevision[]> {
+    const item = await this.findRecipeItem(userId, savedId);
+
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': `RECIPE_REVISION#${savedId}#`
+      },
+      ScanIndexForward: false
+    });
+
+    const revisions = (result.Items || []).map(revision => this.toRevision(revision));
+
+    // Recipes saved before versioning have no history yet; their current state is the only version
+    if (revisions.length === 0) {
+      return [{
+        saved_id: savedId,
+        revision: 1,
+        reason: 'saved',
+        created_at: item.saved_at,
+        ...toContent(item as SavedRecipe)
+      }];
+    }
+
+    return revisions;
+  }
+
+  static async getRevision(userId: string, savedId: string, revision: number): Promise<RecipeRevision> {
+    const revisions = await this.getRevisions(userId, savedId);
+    const found = revisions.find(r => r.revision === revision);
+
+    if (!found) {
+      throw new AppError(404, 'revision_not_found', `Revision ${revision} not found`);
+    }
+
+    return found;
+  }
+
+  /**
+   * Make a past revision current again. History is kept: the restore becomes a new revision.
+   */
+  static async restoreRevision(userId: string, savedId: string, revision: number): Promise<RecipeRevision> {
+    const target = await this.getRevision(userId, savedId, revision);
+
+    await this.updateRecipe(userId, savedId, { ...toContent(target), is_modified: true }, revision);
+
+    const [latest] = await this.getRevisions(userId, savedId);
+    return latest;
+  }
+
+  /**
+   * Compare two versions. Each side is a revision number, "current", or "source" for the
+   * post the recipe was saved from.
+   */
+  static async compareVersions(
+    userId: string,
+    savedId: string,
+    from: string,
+    to: string
+  ): Promise<{ from: RecipeContent; to: RecipeContent; diff: RecipeDiff }> {
+    const [fromContent, toContent] = await Promise.all([
+      this.resolveVersion(userId, savedId, from),
+      this.resolveVersion(userId, savedId, to)
+    ]);
+
+    return { from: fromContent, to: toContent, diff: diffRecipes(fromContent, toContent) };
+  }
+
+  private static async resolveVersion(userId: string, savedId: string, version: string): Promise<RecipeContent> {
+    if (version === 'current') {
+      return toContent(await this.findRecipeItem(userId, savedId) as SavedRecipe);
+    }
+
+    if (version === 'source') {
+      const item = await this.findRecipeItem(userId, savedId);
+      if (item.source_type !== 'post' || !item.source_id) {
+        throw new AppError(400, 'no_source_post', 'This recipe was not saved from a post');
+      }
+
+      // getPost enforces the post's privacy settings for this viewer
+      const post = await PostsService.getPost(item.source_id, userId);
+      if (!post.recipeData) {
+        throw new AppError(404, 'source_recipe_not_found', 'The source post no longer contains a recipe');
+      }
+
+      return {
+        recipe_name: post.recipeData.title,
+        recipe_ingredients: post.recipeData.ingredients.map(i => ({ name: i.name, quantity: i.amount, unit: i.unit })),
+        recipe_instructions: post.recipeData.instructions.map(i => ({
+          step_number: i.step,
+          description: i.description,
+          duration_minutes: i.duration ?? null
+        })),
+        servings: post.recipeData.servings
+      };
+    }
+
+    const revision = Number(version);
+    if (!Number.isInteger(revision) || revision < 1) {
+      throw new AppError(400, 'invalid_version', 'Version must be a revision number, "current" or "source"');
+    }
+
+    return toContent(await this.getRevision(userId, savedId, revision));
+  }
+
+  /**
+   * Write a revision unless that revision number is taken. Returns false when it is.
+   */
+  private static async putRevision(
+    userId: string,
+    savedId: string,
+    revision: number,
+    content: RecipeContent,
+    reason: RecipeRevision['reason'],
+    createdAt: string,
+    restoredFrom?: number
+  ): Promise<boolean> {
+    return DynamoDBHelper.putIfNotExists({
+      PK: `USER#${userId}`,
+      SK: revisionSK(savedId, revision),
+      entity_type: 'RECIPE_REVISION',
+      saved_id: savedId,
+      revision,
+      reason,
+      ...(restoredFrom !== undefined && { restored_from: restoredFrom }),
+      created_at: createdAt,
+      ...content
+    });
+  }
+
+  private static toRevision(item: any): RecipeRevision {
+    return {
+      saved_id: item.saved_id,
+      revision: item.revision,
+      reason: item.reason,
+      restored_from: item.restored_from,
+      created_at: item.created_at,
+      ...toContent(item)
+    };
+  }
+
+  private static async findRecipeItem(userId: string, savedId: string): Promise<any> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      FilterExpression: 'saved_id = :sid',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'SAVED_RECIPE#',
+        ':sid': savedId
+      }
+    });
+
+    if (!result.Items || result.Items.length === 0) {
+      throw new AppError(404, 'recipe_not_found', 'Saved recipe not found');
+    }
+
+    return result.Items[0];
+  }
+
+  /**
+   * Rescale a recipe's ingredients to a number of servings, optionally converting units
+   */
+  static scaleRecipe(
+    recipe: SavedRecipe,
+    servings: number,
+    units?: UnitSystem
+  ): { recipe: SavedRecipe; scaling: RecipeScaling } {
+    const baseServings = recipe.servings || DEFAULT_SERVINGS;
+    const factor = getScaleFactor(baseServings, servings);
+
+    return {
+      recipe: {
+        ...recipe,
+        servings,
+        recipe_ingredients: scaleIngredients(recipe.recipe_ingredients || [], factor, units)
+      },
+      scaling: {
+        base_servings: baseServings,
+        servings,
+        factor: Math.round(factor * 1000) / 1000,
+        units
+      }
+    };
+  }
+
+  /**
+   * Attach per-serving nutrition computed from the ingredients, checked against the user's health goals.
+   * Nothing is attached when too few ingredients are in the nutrient table.
+   */
+  static analyzeNutrition(recipe: SavedRecipe, healthGoals?: string[]): SavedRecipe {
+    const result = NutritionCalculator.calculate(recipe.recipe_ingredients || [], recipe.servings);
+    if (result.coverage < MIN_COVERAGE) {
+      return recipe;
+    }
+
+    return {
+      ...recipe,
+      nutritional_info: NutritionCalculator.toNutritionalInfo(result),
+      health_goal_checks: healthGoals && healthGoals.length > 0
+        ? checkHealthGoals(result.per_serving, healthGoals)
+        : undefined
+    };
   }
 
   /**
@@ -242,6 +525,149 @@ export class SavedRecipeService {
     logger.info('Toggled favorite', { userId, savedId, isFavorite: newFavoriteStatus });
   }
 
+  /**
+   * Publish a saved recipe as a post. A recipe saved from a post is published as a fork
+   * carrying its full lineage, and the authors up the chain are notified.
+   */
+  static async shareRecipe(userId: string, savedId: string, request: ShareRecipeRequest): Promise<Post> {
+    const item = await this.findRecipeItem(userId, savedId);
+    const recipe = item as SavedRecipe;
+
+    // Sharing publishes a post, so it is refused for suspended accounts like the posts API does
+    const profile = await DynamoDBHelper.get(`USER#${userId}`, 'PROFILE');
+    if (profile?.is_suspended) {
+      throw new AppError(403, 'account_suspended', 'Your account is suspended');
+    }
+
+    const post = await PostsService.createPost(
+      userId,
+      {
+        content: request.caption?.trim() || `Check out my recipe: ${recipe.recipe_name}`,
+        images: request.images,
+        privacy: request.visibility,
+        recipeData: {
+          title: recipe.recipe_name,
+          ingredients: (recipe.recipe_ingredients || []).map(i => ({ name: i.name, amount: i.quantity, unit: i.unit })),
+          instructions: (recipe.recipe_instructions || []).map(i => ({
+            step: i.step_number,
+            description: i.description,
+            ...(i.duration_minutes != null && { duration: i.duration_minutes })
+          })),
+          servings: recipe.servings
+        }
+      },
+      recipe.ancestry?.length ? { ancestry: recipe.ancestry } : undefined
+    );
+
+    const now = formatTimestamp();
+    await DynamoDBHelper.update(
+      item.PK,
+      item.SK,
+      'SET shared_as_post_id = :postId, shared_at = :now, updated_at = :now',
+      { ':postId': post.post_id, ':now': now }
+    );
+
+    logger.info('Recipe shared as post', { userId, savedId, postId: post.post_id, forkDepth: recipe.ancestry?.length || 0 });
+
+    return post;
+  }
+
+  /**
+   * Lineage of the post a recipe is being saved from. A post that is gone or has no recipe
+   * is saved as a plain copy; a post the user can't view is refused.
+   */
+  private static async getSourceLineage(userId: string, postId: string): Promise<RecipeAncestor[] | undefined> {
+    try {
+      return await PostsService.getForkLineage(postId, userId);
+    } catch (error) {
+      if (error instanceof AppError && (error.errorCode === 'post_not_found' || error.errorCode === 'not_a_recipe_post')) {
+        logger.warn('Saving recipe without fork lineage', { userId, postId, reason: error.errorCode });
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Export a saved recipe as PDF, Markdown or schema.org JSON-LD, with its attribution
+   */
+  static async exportRecipe(userId: string, savedId: string, format: ExportFormat): Promise<ExportResult> {
+    const recipe = await this.findRecipeItem(userId, savedId) as SavedRecipe;
+    return RecipeExportService.exportRecipe(userId, await this.toExportable(userId, recipe), format);
+  }
+
+  /**
+   * Export the recipes in a group as a cookbook PDF, in the order they were added
+   */
+  static async exportGroup(userId: string, groupId: string): Promise<ExportResult> {
+    const group = await DynamoDBHelper.get(`USER#${userId}`, `RECIPE_GROUP#${groupId}`) as RecipeGroup | undefined;
+    if (!group) {
+      throw new AppError(404, 'group_not_found', 'Group not found');
+    }
+
+    const itemsResult = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}#GROUP#${groupId}`
+      }
+    });
+
+    const savedIds = (itemsResult.Items || [])
+      .sort((a: any, b: any) => a.added_at.localeCompare(b.added_at))
+      .map((item: any) => item.saved_id as string);
+
+    const recipesById = new Map((await this.getSavedRecipes(userId)).map(recipe => [recipe.saved_id, recipe]));
+    const recipes = savedIds
+      .map(id => recipesById.get(id))
+      .filter((recipe): recipe is SavedRecipe => !!recipe);
+
+    if (recipes.length === 0) {
+      throw new AppError(400, 'empty_group', 'The group has no recipes to export');
+    }
+    if (recipes.length > MAX_COOKBOOK_RECIPES) {
+      throw new AppError(400, 'group_too_large', `A cookbook can hold at most ${MAX_COOKBOOK_RECIPES} recipes`);
+    }
+
+    const exportable = await Promise.all(recipes.map(recipe => this.toExportable(userId, recipe)));
+    return RecipeExportService.exportCookbook(userId, group.group_name, exportable);
+  }
+
+  /**
+   * A saved recipe in export form. Photos come from the post it was saved from or shared as,
+   * when the user can still see that post.
+   */
+  private static async toExportable(userId: string, recipe: SavedRecipe): Promise<ExportableRecipe> {
+    const photoPostId = recipe.shared_as_post_id || (recipe.source_type === 'post' ? recipe.source_id : undefined);
+    let images: string[] = [];
+
+    if (photoPostId) {
+      try {
+        images = (await PostsService.getPost(photoPostId, userId)).images || [];
+      } catch (error) {
+        logger.warn('Exporting recipe without photos', { userId, savedId: recipe.saved_id, postId: photoPostId, error });
+      }
+    }
+
+    return {
+      title: recipe.recipe_name,
+      servings: recipe.servings,
+      ingredients: recipe.recipe_ingredients || [],
+      steps: recipe.recipe_instructions || [],
+      images,
+      notes: recipe.personal_notes,
+      attribution: {
+        source_type: recipe.source_type,
+        source_id: recipe.source_id,
+        original_author_id: recipe.original_author_id,
+        original_author_username: recipe.original_author_username,
+        original_post_url: recipe.original_post_url ||
+          (recipe.source_type === 'post' && recipe.source_id ? `${FRONTEND_URL}/posts/${recipe.source_id}` : undefined),
+        is_modified: recipe.is_modified,
+        ancestry: recipe.ancestry
+      }
+    };
+  }
+
   /**
    * Delete recipe completely (from all groups and saved recipes)
    */
@@ -287,6 +713,22 @@ export class SavedRecipeService {
       await DynamoDBHelper.delete(item.PK, item.SK);
     }
 
+    // Step 4: Delete its revision history
+    const revisionsResult = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': `RECIPE_REVISION#${savedId}#`
+      }
+    });
+
+    const revisions = revisionsResult.Items || [];
+    await DynamoDBHelper.batchWrite(
+      revisions.map(revision => ({
+        DeleteRequest: { Key: { PK: revision.PK, SK: revision.SK } }
+      }))
+    );
+
     logger.info('Recipe deleted completely', { userId, savedId });
   }
 
@@ -2,6 +2,9 @@
  * Saved Recipes Types
  */
 
+import { NutritionalInfo, HealthGoalCheck } from '../shared/utils/types';
+import { RecipeAncestor } from '../posts/types';
+
 export interface RecipeIngredient {
   name: string;
   quantity: string;
@@ -21,16 +24,23 @@ export interface SavedRecipe {
   recipe_name: string;
   recipe_ingredients: RecipeIngredient[];
   recipe_instructions: RecipeInstruction[];
+  servings?: number; // Servings the quantities are written for (2 when missing)
+  nutritional_info?: NutritionalInfo; // Computed from the ingredients when the recipe is read
+  health_goal_checks?: HealthGoalCheck[];
   is_modified: boolean;
   personal_notes?: string;
   is_favorite: boolean;
   
-  // Source tracking (copyright)
-  source_type: 'ai_suggestion' | 'post' | 'manual';
+  // Source tracking (copyright); for imports source_id and original_post_url hold the page URL
+  source_type: 'ai_suggestion' | 'post' | 'manual' | 'import';
   source_id?: string;
   original_author_id?: string;
   original_author_username?: string;
   original_post_url?: string;
+
+  // Fork lineage when saved from a post: every post the recipe came through, oldest first
+  forked_from_post_id?: string;
+  ancestry?: RecipeAncestor[];
   
   // Metadata
   saved_at: string;
@@ -39,6 +49,80 @@ export interface SavedRecipe {
   // Social
   shared_as_post_id?: string;
   shared_at?: string;
+
+  revision_count?: number; // Latest revision number; missing on recipes saved before versioning
+}
+
+/**
+ * The parts of a recipe that are versioned
+ */
+export interface RecipeContent {
+  recipe_name: string;
+  recipe_ingredients: RecipeIngredient[];
+  recipe_instructions: RecipeInstruction[];
+  servings?: number;
+}
+
+/**
+ * Immutable snapshot written on save and after every content change
+ */
+export interface RecipeRevision extends RecipeContent {
+  saved_id: string;
+  revision: number;
+  reason: 'saved' | 'edit' | 'restore';
+  restored_from?: number;
+  created_at: string;
+}
+
+export interface IngredientChange {
+  name: string;
+  from: RecipeIngredient;
+  to: RecipeIngredient;
+}
+
+export interface StepChange {
+  step_number: number;
+  from: string;
+  to: string;
+}
+
+export interface StepMove {
+  description: string;
+  from_step: number;
+  to_step: number;
+}
+
+export interface RecipeDiff {
+  recipe_name?: { from: string; to: string };
+  servings?: { from?: number; to?: number };
+  ingredients: {
+    added: RecipeIngredient[];
+    removed: RecipeIngredient[];
+    changed: IngredientChange[];
+  };
+  steps: {
+    added: RecipeInstruction[];
+    removed: RecipeInstruction[];
+    changed: StepChange[];
+    moved: StepMove[];
+  };
+  has_changes: boolean;
+}
+
+export interface ImportRecipeRequest {
+  url?: string;  // Page to fetch and parse
+  text?: string; // Pasted recipe; url may be given as well to record where it came from
+}
+
+export interface ImportedRecipe {
+  draft: SaveRecipeRequest;
+  method: 'json-ld' | 'heuristic'; // schema.org Recipe data, or parsed from the page text
+}
+
+export interface ShareRecipeRequest {
+  caption?: string;
+  images?: string[];
+  visibility?: 'public' | 'friends' | 'private';
 }
 
 export interface RecipeGroup {
@@ -61,9 +145,10 @@ export interface SaveRecipeRequest {
   recipe_name: string;
   recipe_ingredients: RecipeIngredient[];
   recipe_instructions: RecipeInstruction[];
+  servings?: number;
   
   // Source tracking
-  source_type: 'ai_suggestion' | 'post' | 'manual';
+  source_type: 'ai_suggestion' | 'post' | 'manual' | 'import';
   source_id?: string;
   original_author_id?: string;
   original_author_username?: string;
@@ -84,3 +169,13 @@ export interface CreateGroupRequest {
 export interface AddToGroupRequest {
   saved_ids: string[];
 }
+
+/**
+ * How a recipe returned by GET /v1/recipes/{id}?servings=N&units=... was rescaled
+ */
+export interface RecipeScaling {
+  base_servings: number;
+  servings: number;
+  factor: number;
+  units?: 'metric' | 'imperial';
+}
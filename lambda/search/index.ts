@@ -1,6 +1,7 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { SearchService } from './search-service';
 import { UnifiedSearchService } from './unified-search-service';
+import { SearchMode, SearchSortBy } from './types';
 import {
     successResponse,
     badRequestResponse,
@@ -12,6 +13,8 @@ import {
 const searchService = new SearchService();
 const unifiedSearchService = new UnifiedSearchService();
 
+const SEARCH_MODES: SearchMode[] = ['all', 'ranked'];
+
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
     try {
         // Get userId from Cognito authorizer
@@ -27,7 +30,8 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
         if (path.endsWith('/unified') && method === 'GET') {
             const params = event.queryStringParameters || {};
             const ingredients = params.ingredients?.split(',') || [];
-            const sortBy = (params.sortBy as 'date' | 'likes' | 'comments') || 'date';
+            const mode = (params.mode as SearchMode) || 'all';
+            const sortBy = params.sortBy as SearchSortBy | undefined;
             const privacy = (params.privacy as 'all' | 'friends' | 'public') || 'all';
             const page = parseInt(params.page || '1');
             const limit = parseInt(params.limit || '20');
@@ -36,8 +40,13 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
                 return badRequestResponse('Ingredients required');
             }
 
+            if (!SEARCH_MODES.includes(mode)) {
+                return badRequestResponse('Invalid mode. Must be: all or ranked');
+            }
+
             const result = await unifiedSearchService.search(ingredients, userId, {
                 sortBy,
+                mode,
                 privacy,
                 page,
                 limit
@@ -49,12 +58,17 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
         // GET /search/counts
         if (path.endsWith('/counts') && method === 'GET') {
             const ingredients = event.queryStringParameters?.ingredients?.split(',') || [];
+            const mode = (event.queryStringParameters?.mode as SearchMode) || 'all';
 
             if (ingredients.length === 0) {
                 return badRequestResponse('Ingredients required');
             }
 
-            const counts = await searchService.getSearchCounts(ingredients, userId);
+            if (!SEARCH_MODES.includes(mode)) {
+                return badRequestResponse('Invalid mode. Must be: all or ranked');
+            }
+
+            const counts = await searchService.getSearchCounts(ingredients, userId, mode);
             return successResponse(counts);
         }
 
@@ -65,12 +79,17 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
             const section = params.section as 'my' | 'friends' | 'public';
             const page = parseInt(params.page || '1');
             const limit = parseInt(params.limit || '10');
-            const sortBy = (params.sortBy as 'date' | 'likes' | 'comments') || 'date';
+            const mode = (params.mode as SearchMode) || 'all';
+            const sortBy = (params.sortBy as SearchSortBy) || (mode === 'ranked' ? 'match' : 'date');
 
             if (ingredients.length === 0) {
                 return badRequestResponse('Ingredients required');
             }
 
+            if (!SEARCH_MODES.includes(mode)) {
+                return badRequestResponse('Invalid mode. Must be: all or ranked');
+            }
+
             if (!['my', 'friends', 'public'].includes(section)) {
                 return badRequestResponse('Invalid section. Must be: my, friends, or public');
             }
@@ -81,7 +100,8 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
                 section,
                 page,
                 limit,
-                sortBy
+                sortBy,
+                mode
             );
 
             return successResponse(result);
@@ -0,0 +1,104 @@
+/**
+ * Ingredient Matcher
+ * Scores how much of a post's recipe the user can cook with the ingredients they have
+ */
+
+import { IngredientNormalizer } from '../shared/business/ingredients/ingredient-normalizer';
+import { Post, IngredientMatch } from './types';
+
+/**
+ * Staples almost every kitchen has. They are never searched for, matched or reported missing.
+ */
+export const PANTRY_STAPLES = new Set([
+  'muoi', 'nuoc-mam', 'dau-an', 'duong', 'tieu', 'hat-tieu', 'tieu-xay', 'bot-ngot', 'hat-nem', 'nuoc', 'nuoc-loc',
+  'salt', 'fish-sauce', 'oil', 'cooking-oil', 'vegetable-oil', 'sugar', 'pepper', 'black-pepper', 'msg', 'water'
+]);
+
+/**
+ * Score lost for each required ingredient the user is missing, so that among recipes
+ * with the same coverage the one needing fewer extra purchases ranks first
+ */
+export const MISSING_PENALTY = 0.05;
+
+/**
+ * Single-word ids that never prefix-match: "ca" is cá (fish) and cà (eggplant, tomato),
+ * "dau" is đậu (beans) and dầu (oil)
+ */
+const AMBIGUOUS_PREFIXES = new Set(['ca', 'dau']);
+
+const OPTIONAL_PATTERN = /optional|t[uù]y ch[oọ]n|tu[ỳy] ch[oọ]n|t[uù]y th[ií]ch|tu[ỳy] th[ií]ch|kh[oô]ng b[aắ]t bu[oộ]c/i;
+
+interface RecipeIngredient {
+  id: string;
+  name: string;
+  optional: boolean;
+}
+
+export class IngredientMatcher {
+  static isStaple(name: string): boolean {
+    return PANTRY_STAPLES.has(IngredientNormalizer.generateId(name));
+  }
+
+  /**
+   * Score a post against the user's ingredients. Coverage is matched / required, where
+   * required leaves out staples and optional ingredients.
+   */
+  static score(available: string[], post: Post): IngredientMatch {
+    const have = available
+      .map(name => IngredientNormalizer.generateId(name))
+      .filter(id => id && !PANTRY_STAPLES.has(id));
+    const required = this.getRecipeIngredients(post).filter(ingredient => !ingredient.optional);
+
+    if (required.length === 0) {
+      return { match_percentage: 0, score: 0, matched_ingredients: [], missing_ingredients: [] };
+    }
+
+    const matched: string[] = [];
+    const missing: string[] = [];
+    for (const ingredient of required) {
+      if (have.some(id => this.matches(id, ingredient.id))) {
+        matched.push(ingredient.name);
+      } else {
+        missing.push(ingredient.name);
+      }
+    }
+
+    const coverage = matched.length / required.length;
+
+    return {
+      match_percentage: Math.round(coverage * 100),
+      score: Math.max(0, coverage - MISSING_PENALTY * missing.length),
+      matched_ingredients: matched,
+      missing_ingredients: missing
+    };
+  }
+
+  /**
+   * Same ingredient, or one is a more specific form of the other ("thit-bo" and "thit-bo-xay")
+   */
+  static matches(a: string, b: string): boolean {
+    if (a === b) return true;
+
+    const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+    return !AMBIGUOUS_PREFIXES.has(shorter) && longer.startsWith(`${shorter}-`);
+  }
+
+  /**
+   * Non-staple ingredients from the post's recipe, falling back to the extracted ingredient list
+   */
+  private static getRecipeIngredients(post: Post): RecipeIngredient[] {
+    const ingredients: RecipeIngredient[] = post.recipeData?.ingredients?.length
+      ? post.recipeData.ingredients.map(ingredient => ({
+          id: IngredientNormalizer.generateId(ingredient.name.replace(/\(.*?\)/g, '')),
+          name: ingredient.name,
+          optional: OPTIONAL_PATTERN.test(`${ingredient.name} ${ingredient.notes || ''}`)
+        }))
+      : (post.extracted_ingredients || []).map(name => ({
+          id: IngredientNormalizer.generateId(name),
+          name,
+          optional: false
+        }));
+
+    return ingredients.filter(ingredient => ingredient.id && !PANTRY_STAPLES.has(ingredient.id));
+  }
+}
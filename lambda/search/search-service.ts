@@ -1,6 +1,8 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
-import { Post, CountsResponse, SectionResponse } from './types';
+import { Post, CountsResponse, SectionResponse, SearchMode, SearchSortBy } from './types';
+import { BlockService } from '../shared/auth/block-service';
+import { IngredientMatcher } from './ingredient-matcher';
 
 const baseClient = new DynamoDBClient({});
 const dynamodb = DynamoDBDocumentClient.from(baseClient, {
@@ -31,7 +33,12 @@ export class SearchService {
   }
   
   // Query posts by ingredients
-  async queryByIngredients(ingredients: string[]): Promise<Post[]> {
+  // 'all' keeps posts with every ingredient; 'ranked' keeps posts with any of them, best match first
+  async queryByIngredients(ingredients: string[], mode: SearchMode = 'all'): Promise<Post[]> {
+    if (mode === 'ranked') {
+      return this.queryRankedByIngredients(ingredients);
+    }
+
     const normalized = await this.normalizeIngredients(ingredients);
     
     // Query GSI2 for each ingredient
@@ -45,6 +52,21 @@ export class SearchService {
     
     return this.intersectPosts(results);
   }
+
+  // Posts containing any of the ingredients, scored by recipe coverage
+  // Staples (salt, fish sauce, oil...) are skipped: nearly every post has them
+  private async queryRankedByIngredients(ingredients: string[]): Promise<Post[]> {
+    const searchable = ingredients.filter(ingredient => !IngredientMatcher.isStaple(ingredient));
+    const normalized = await this.normalizeIngredients(searchable);
+
+    const results = await Promise.all(
+      normalized.map(ingredient => this.queryByIngredient(ingredient))
+    );
+
+    return this.unionPosts(results)
+      .map(post => ({ ...post, ingredient_match: IngredientMatcher.score(ingredients, post) }))
+      .sort((a, b) => b.ingredient_match.score - a.ingredient_match.score);
+  }
   
   // Query single ingredient
   private async queryByIngredient(ingredient: string): Promise<Post[]> {
@@ -83,6 +105,21 @@ export class SearchService {
     return results[0].filter(post => commonPostIds.includes(post.postId));
   }
 
+  // Union posts (each post once, in first-seen order)
+  private unionPosts(results: Post[][]): Post[] {
+    const postMap = new Map<string, Post>();
+
+    results.forEach(posts => {
+      posts.forEach(post => {
+        if (!postMap.has(post.postId)) {
+          postMap.set(post.postId, post);
+        }
+      });
+    });
+
+    return Array.from(postMap.values());
+  }
+
   
   // Get user's friends
   async getUserFriends(userId: string): Promise<string[]> {
@@ -104,9 +141,15 @@ export class SearchService {
     return (response.Items || []).map(item => item.friend_id);
   }
   
+  // Leave out posts by users who are blocked (either way) or muted by the viewer
+  private async withoutHiddenAuthors(posts: Post[], userId: string): Promise<Post[]> {
+    const hiddenUsers = await BlockService.getHiddenUsers(userId);
+    return posts.filter(p => !BlockService.isHidden(hiddenUsers, p.userId));
+  }
+  
   // Get search counts
-  async getSearchCounts(ingredients: string[], userId: string): Promise<CountsResponse> {
-    const allPosts = await this.queryByIngredients(ingredients);
+  async getSearchCounts(ingredients: string[], userId: string, mode: SearchMode = 'all'): Promise<CountsResponse> {
+    const allPosts = await this.withoutHiddenAuthors(await this.queryByIngredients(ingredients, mode), userId);
     const friendIds = await this.getUserFriends(userId);
     
     const counts = {
@@ -140,9 +183,10 @@ export class SearchService {
     section: 'my' | 'friends' | 'public',
     page: number = 1,
     limit: number = 10,
-    sortBy: 'date' | 'likes' | 'comments' = 'date'
+    sortBy: SearchSortBy = 'date',
+    mode: SearchMode = 'all'
   ): Promise<SectionResponse> {
-    const allPosts = await this.queryByIngredients(ingredients);
+    const allPosts = await this.withoutHiddenAuthors(await this.queryByIngredients(ingredients, mode), userId);
     const friendIds = await this.getUserFriends(userId);
     
     // Filter by section
@@ -184,10 +228,12 @@ export class SearchService {
   }
   
   // Sort posts
-  private sortPosts(posts: Post[], sortBy: 'date' | 'likes' | 'comments'): Post[] {
+  private sortPosts(posts: Post[], sortBy: SearchSortBy): Post[] {
     const sorted = [...posts];
     
-    if (sortBy === 'likes') {
+    if (sortBy === 'match') {
+      sorted.sort((a, b) => (b.ingredient_match?.score || 0) - (a.ingredient_match?.score || 0));
+    } else if (sortBy === 'likes') {
       sorted.sort((a, b) => b.likeCount - a.likeCount);
     } else if (sortBy === 'comments') {
       sorted.sort((a, b) => b.commentCount - a.commentCount);
@@ -1,12 +1,20 @@
 // Search Types
 
+// 'all' returns only posts containing every ingredient; 'ranked' returns posts
+// containing any of them, ordered by how much of the recipe the user can cover
+export type SearchMode = 'all' | 'ranked';
+
+export type SearchSortBy = 'date' | 'likes' | 'comments' | 'match';
+
 export interface SearchRequest {
   ingredients: string[];
-  sortBy?: 'date' | 'likes' | 'comments';
+  sortBy?: SearchSortBy;
+  mode?: SearchMode;
 }
 
 export interface CountsRequest {
   ingredients: string[];
+  mode?: SearchMode;
 }
 
 export interface CountsResponse {
@@ -21,7 +29,8 @@ export interface SectionRequest {
   section: 'my' | 'friends' | 'public';
   page?: number;
   limit?: number;
-  sortBy?: 'date' | 'likes' | 'comments';
+  sortBy?: SearchSortBy;
+  mode?: SearchMode;
 }
 
 export interface SectionResponse {
@@ -51,6 +60,14 @@ export interface Post {
   // Populated
   author?: UserProfile;
   isLiked?: boolean;
+  ingredient_match?: IngredientMatch; // Ranked mode only
+}
+
+export interface IngredientMatch {
+  match_percentage: number; // Required ingredients the user has, 0-100
+  score: number; // Coverage minus a penalty per missing ingredient, used for ranking
+  matched_ingredients: string[];
+  missing_ingredients: string[]; // Required ingredients the user doesn't have
 }
 
 export interface RecipeData {
@@ -4,7 +4,7 @@
  */
 
 import { SearchService } from './search-service';
-import { Post, UserProfile } from './types';
+import { Post, UserProfile, SearchMode, SearchSortBy } from './types';
 import { logger } from '../shared/monitoring/logger';
 
 export interface AIRecipeSuggestion {
@@ -49,7 +49,8 @@ export interface UnifiedSearchResponse {
 }
 
 export interface UnifiedSearchFilters {
-    sortBy?: 'date' | 'likes' | 'comments';
+    sortBy?: SearchSortBy;
+    mode?: SearchMode; // 'ranked' attaches ingredient_match (percentage and missing list) to each post
     privacy?: 'all' | 'friends' | 'public';
     page?: number;
     limit?: number;
@@ -72,7 +73,8 @@ export class UnifiedSearchService {
     ): Promise<UnifiedSearchResponse> {
         try {
             const {
-                sortBy = 'date',
+                mode = 'all',
+                sortBy = mode === 'ranked' ? 'match' : 'date',
                 privacy = 'all',
                 page = 1,
                 limit = 20
@@ -94,7 +96,8 @@ export class UnifiedSearchService {
                 privacy,
                 page,
                 limit,
-                sortBy
+                sortBy,
+                mode
             );
 
             // Execute in parallel
@@ -156,7 +159,8 @@ export class UnifiedSearchService {
         privacy: 'all' | 'friends' | 'public',
         page: number,
         limit: number,
-        sortBy: 'date' | 'likes' | 'comments'
+        sortBy: SearchSortBy,
+        mode: SearchMode
     ): Promise<{
         posts: Post[];
         total: number;
@@ -164,7 +168,7 @@ export class UnifiedSearchService {
     }> {
         try {
             // Get all matching posts
-            const allPosts = await this.searchService.queryByIngredients(ingredients);
+            const allPosts = await this.searchService.queryByIngredients(ingredients, mode);
             const friendIds = await this.searchService.getUserFriends(userId);
 
             // Separate by privacy
@@ -225,10 +229,12 @@ export class UnifiedSearchService {
     /**
      * Sort posts by criteria
      */
-    private sortPosts(posts: Post[], sortBy: 'date' | 'likes' | 'comments'): Post[] {
+    private sortPosts(posts: Post[], sortBy: SearchSortBy): Post[] {
         const sorted = [...posts];
 
-        if (sortBy === 'likes') {
+        if (sortBy === 'match') {
+            sorted.sort((a, b) => (b.ingredient_match?.score || 0) - (a.ingredient_match?.score || 0));
+        } else if (sortBy === 'likes') {
             sorted.sort((a, b) => b.likeCount - a.likeCount);
         } else if (sortBy === 'comments') {
             sorted.sort((a, b) => b.commentCount - a.commentCount);
@@ -0,0 +1,46 @@
+/**
+ * Bedrock LLM Provider
+ * Invokes Anthropic models on Amazon Bedrock through the messages API
+ */
+
+import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { LLMProvider, LLMCompletionRequest, LLMCompletionResponse } from './llm-provider';
+
+export class BedrockLLMProvider implements LLMProvider {
+  readonly name = 'bedrock' as const;
+  private client: BedrockRuntimeClient;
+
+  constructor(region: string = process.env.AWS_REGION || 'us-east-1') {
+    this.client = new BedrockRuntimeClient({ region });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const command = new InvokeModelCommand({
+      modelId: request.model,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify({
+        anthropic_version: 'bedrock-2023-05-31',
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt
+          }
+        ]
+      })
+    });
+
+    const response = await this.client.send(command);
+    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+
+    return {
+      text: responseBody.content[0].text,
+      model: request.model,
+      provider: this.name,
+      inputTokens: responseBody.usage?.input_tokens,
+      outputTokens: responseBody.usage?.output_tokens
+    };
+  }
+}
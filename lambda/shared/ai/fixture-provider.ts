@@ -0,0 +1,181 @@
+/**
+ * Fixture LLM Provider
+ * Deterministic, offline responses for tests and local development.
+ * The same input always produces the same text, in the exact JSON shape
+ * each operation's parser expects from a real model.
+ */
+
+import { LLMProvider, LLMOperation, LLMCompletionRequest, LLMCompletionResponse } from './llm-provider';
+
+export type FixtureRenderer = (request: LLMCompletionRequest) => string;
+
+const METHOD_TEMPLATES: Record<string, { title: string; steps: string[] }> = {
+  'xào': { title: 'Xào', steps: ['Sơ chế nguyên liệu', 'Phi thơm tỏi', 'Xào chín nguyên liệu chính', 'Nêm nếm và hoàn thành'] },
+  'canh': { title: 'Canh', steps: ['Sơ chế nguyên liệu', 'Đun sôi nước dùng', 'Cho nguyên liệu vào nấu chín', 'Nêm nếm vừa ăn'] },
+  'hấp': { title: 'Hấp', steps: ['Sơ chế và ướp nguyên liệu', 'Xếp vào xửng', 'Hấp chín', 'Bày ra đĩa'] },
+  'chiên': { title: 'Chiên', steps: ['Sơ chế và ướp nguyên liệu', 'Đun nóng dầu', 'Chiên vàng đều hai mặt', 'Để ráo dầu'] },
+  'nướng': { title: 'Nướng', steps: ['Ướp gia vị', 'Làm nóng lò hoặc than', 'Nướng chín đều', 'Bày ra đĩa'] },
+  'luộc': { title: 'Luộc', steps: ['Sơ chế nguyên liệu', 'Đun sôi nước', 'Luộc chín', 'Pha nước chấm'] },
+  'kho': { title: 'Kho', steps: ['Ướp gia vị', 'Thắng nước màu', 'Kho với lửa nhỏ', 'Nêm nếm lại'] }
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  g: 'g', gr: 'g', gam: 'g', gram: 'g',
+  kg: 'kg', 'kí': 'kg', 'ký': 'kg', ki: 'kg',
+  ml: 'ml', l: 'l', 'lít': 'l',
+  'củ': 'củ', 'quả': 'quả', 'trái': 'quả', con: 'con', 'muỗng': 'muỗng', 'thìa': 'muỗng', 'cây': 'cây', 'bó': 'bó'
+};
+
+const ABUSE_PATTERN = /(drop\s+table|select\s+.+\s+from|<script|javascript:|;\s*--)/i;
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(item => String(item)) : [];
+}
+
+function renderRecipeGeneration(request: LLMCompletionRequest): string {
+  const ingredients = stringList(request.input?.ingredients);
+  const cookingMethod = String(request.input?.cooking_method || 'xào');
+  const recipeCount = Number(request.input?.recipe_count) || 1;
+  const template = METHOD_TEMPLATES[cookingMethod] || METHOD_TEMPLATES['xào'];
+
+  if (ingredients.length === 0) {
+    return JSON.stringify({
+      success: false,
+      error: 'INVALID_INGREDIENTS',
+      message: 'Không thể tìm thấy món ăn phù hợp với các nguyên liệu này'
+    });
+  }
+
+  const recipes = Array.from({ length: recipeCount }, (_, index) => {
+    // Rotate the main ingredient so multiple recipes differ
+    const main = ingredients[index % ingredients.length];
+    const sides = ingredients.filter(name => name !== main).slice(0, 2);
+
+    return {
+      title: `${template.title} ${main}${sides.length > 0 ? ` với ${sides.join(', ')}` : ''}`,
+      description: `Món ${cookingMethod} đơn giản từ ${[main, ...sides].join(', ')}`,
+      cuisine_type: 'Vietnamese',
+      cooking_method: cookingMethod,
+      meal_type: 'main',
+      prep_time_minutes: 10,
+      cook_time_minutes: 15 + index * 5,
+      servings: 2,
+      ingredients: [main, ...sides].map((name, idx) => ({
+        ingredient_name: name,
+        quantity: idx === 0 ? '300' : '100',
+        unit: 'g'
+      })),
+      instructions: template.steps.map((description, idx) => ({
+        step_number: idx + 1,
+        description,
+        duration_minutes: 5
+      })),
+      nutritional_info: {
+        calories: 300,
+        protein: '20g',
+        carbs: '25g',
+        fat: '12g'
+      }
+    };
+  });
+
+  return JSON.stringify({ success: true, recipes });
+}
+
+function renderIngredientParsing(request: LLMCompletionRequest): string {
+  const parsed = stringList(request.input?.ingredients).map(raw => {
+    const text = raw.trim().toLowerCase();
+    // "500g thịt gà" or "thịt gà 500g"
+    const match = text.match(/^(\d+(?:[.,]\d+)?)\s*([^\s\d]+)\s+(.+)$/) || text.match(/^(.+?)\s+(\d+(?:[.,]\d+)?)\s*([^\s\d]+)$/);
+    if (!match) {
+      return { name: text };
+    }
+
+    const [quantity, unit, name] = /^\d/.test(match[1])
+      ? [match[1], match[2], match[3]]
+      : [match[2], match[3], match[1]];
+    const normalizedUnit = UNIT_ALIASES[unit];
+    if (!normalizedUnit) {
+      return { name: text };
+    }
+
+    return { name: name.trim(), quantity: quantity.replace(',', '.'), unit: normalizedUnit };
+  });
+
+  return JSON.stringify(parsed);
+}
+
+function renderIngredientValidation(request: LLMCompletionRequest): string {
+  const userInput = stringList(request.input?.userInput);
+  const abusive = userInput.filter(item => ABUSE_PATTERN.test(item));
+
+  if (abusive.length > 0) {
+    return JSON.stringify({
+      status: 'rejected',
+      message: '⚠️ Phát hiện nội dung không hợp lệ. Vui lòng nhập lại các nguyên liệu thực sự bạn có nhé! 🙏',
+      interpretedIngredients: [],
+      warnings: ['Potential SQL injection or XSS'],
+      shouldReportToAdmin: true,
+      adminReportReason: `User attempted SQL injection or XSS: ${abusive.join(', ')}`,
+      nextAction: 'blocked'
+    });
+  }
+
+  const interpretedIngredients = userInput.map(original => ({
+    original,
+    normalized: original.trim(),
+    category: 'unknown',
+    confidence: 'medium',
+    isValid: original.trim().length > 0 && original.length <= 50
+  }));
+
+  return JSON.stringify({
+    status: 'needs_confirmation',
+    message: `Mình hiểu bạn muốn dùng những nguyên liệu này:\n${userInput.map((item, i) => `${i + 1}. ${item.trim()}`).join('\n')}\n\nĐúng không ạ?`,
+    interpretedIngredients,
+    warnings: [],
+    shouldReportToAdmin: false,
+    nextAction: 'wait_for_user'
+  });
+}
+
+function renderContentModeration(request: LLMCompletionRequest): string {
+  const text = String(request.input?.text || '');
+
+  if (ABUSE_PATTERN.test(text)) {
+    return JSON.stringify({ decision: 'reject', category: 'spam', confidence: 0.95, reason: 'Injection attempt' });
+  }
+
+  return JSON.stringify({ decision: 'allow', category: 'none', confidence: 0.9, reason: 'Cooking content' });
+}
+
+const DEFAULT_FIXTURES: Record<LLMOperation, FixtureRenderer> = {
+  'recipe-generation': renderRecipeGeneration,
+  'ingredient-parsing': renderIngredientParsing,
+  'ingredient-validation': renderIngredientValidation,
+  'content-moderation': renderContentModeration
+};
+
+export class FixtureLLMProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+  private fixtures: Record<LLMOperation, FixtureRenderer>;
+
+  /**
+   * @param overrides Replace the built-in renderer for specific operations
+   */
+  constructor(overrides: Partial<Record<LLMOperation, FixtureRenderer>> = {}) {
+    this.fixtures = { ...DEFAULT_FIXTURES, ...overrides };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const text = this.fixtures[request.operation](request);
+
+    return {
+      text,
+      model: request.model,
+      provider: this.name,
+      inputTokens: Math.ceil(request.prompt.length / 4),
+      outputTokens: Math.ceil(text.length / 4)
+    };
+  }
+}
@@ -0,0 +1,5 @@
+export * from './llm-provider';
+export * from './llm-config';
+export * from './bedrock-provider';
+export * from './openai-compatible-provider';
+export * from './fixture-provider';
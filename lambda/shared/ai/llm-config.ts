@@ -0,0 +1,122 @@
+/**
+ * LLM Configuration
+ * Resolves which provider and model serve each operation.
+ *
+ * Environment variables (later entries win):
+ * - LLM_PROVIDER                    bedrock | openai | fixture, for every operation
+ * - LLM_PROVIDER_<OPERATION>        provider for one operation, e.g. LLM_PROVIDER_RECIPE_GENERATION
+ * - LLM_MODEL_<OPERATION>           model id for one operation, e.g. LLM_MODEL_INGREDIENT_PARSING
+ * - LLM_BASE_URL / LLM_API_KEY      endpoint and key for the openai provider
+ *
+ * Deployed environments set these per stack (see cdk `llm` context), so models
+ * can be A/B tested or pointed at another vendor without code changes.
+ */
+
+import { LLMOperation, LLMProvider, LLMProviderName } from './llm-provider';
+import { BedrockLLMProvider } from './bedrock-provider';
+import { OpenAICompatibleLLMProvider } from './openai-compatible-provider';
+import { FixtureLLMProvider } from './fixture-provider';
+
+export interface LLMOperationConfig {
+  provider: LLMProviderName;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+type Env = Record<string, string | undefined>;
+
+const PROVIDER_NAMES: LLMProviderName[] = ['bedrock', 'openai', 'fixture'];
+
+export const DEFAULT_LLM_CONFIG: Record<LLMOperation, LLMOperationConfig> = {
+  'recipe-generation': {
+    provider: 'bedrock',
+    // Cross-region inference profile for better availability
+    model: 'us.anthropic.claude-3-5-haiku-20241022-v1:0',
+    maxTokens: 4000,
+    temperature: 0.7
+  },
+  'ingredient-parsing': {
+    provider: 'bedrock',
+    model: 'anthropic.claude-3-haiku-20240307-v1:0',
+    maxTokens: 2000,
+    temperature: 0.1
+  },
+  'ingredient-validation': {
+    provider: 'bedrock',
+    model: 'us.anthropic.claude-3-5-haiku-20241022-v1:0',
+    maxTokens: 1500,
+    temperature: 0.3 // Lower temperature for consistent validation
+  },
+  'content-moderation': {
+    provider: 'bedrock',
+    model: 'anthropic.claude-3-haiku-20240307-v1:0',
+    maxTokens: 300,
+    temperature: 0
+  }
+};
+
+function envSuffix(operation: LLMOperation): string {
+  return operation.toUpperCase().replace(/-/g, '_');
+}
+
+function parseProviderName(value: string | undefined, variable: string): LLMProviderName | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const name = value.trim().toLowerCase() as LLMProviderName;
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(`Invalid ${variable} "${value}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  return name;
+}
+
+/**
+ * Resolve provider, model and sampling settings for an operation
+ */
+export function resolveLLMConfig(operation: LLMOperation, env: Env = process.env): LLMOperationConfig {
+  const defaults = DEFAULT_LLM_CONFIG[operation];
+  const suffix = envSuffix(operation);
+
+  const provider = parseProviderName(env[`LLM_PROVIDER_${suffix}`], `LLM_PROVIDER_${suffix}`)
+    || parseProviderName(env.LLM_PROVIDER, 'LLM_PROVIDER')
+    || defaults.provider;
+
+  return {
+    ...defaults,
+    provider,
+    model: env[`LLM_MODEL_${suffix}`] || defaults.model
+  };
+}
+
+/**
+ * Instantiate a provider by name
+ */
+export function createLLMProvider(
+  name: LLMProviderName,
+  region: string = process.env.AWS_REGION || 'us-east-1',
+  env: Env = process.env
+): LLMProvider {
+  switch (name) {
+    case 'bedrock':
+      return new BedrockLLMProvider(region);
+    case 'openai':
+      if (!env.LLM_BASE_URL) {
+        throw new Error('LLM_BASE_URL is required for the openai provider');
+      }
+      return new OpenAICompatibleLLMProvider({ baseUrl: env.LLM_BASE_URL, apiKey: env.LLM_API_KEY });
+    case 'fixture':
+      return new FixtureLLMProvider();
+  }
+}
+
+/**
+ * Provider configured for an operation
+ */
+export function getLLMProvider(
+  operation: LLMOperation,
+  region: string = process.env.AWS_REGION || 'us-east-1',
+  env: Env = process.env
+): LLMProvider {
+  return createLLMProvider(resolveLLMConfig(operation, env).provider, region, env);
+}
@@ -0,0 +1,39 @@
+/**
+ * LLM Provider abstraction
+ * Every AI call site builds a prompt and hands it to an LLMProvider, so the
+ * backing model (Bedrock, an OpenAI-compatible endpoint or local fixtures)
+ * can be swapped per environment and per operation through configuration.
+ */
+
+/**
+ * Operations that call an LLM. Each one is configured independently.
+ */
+export type LLMOperation = 'recipe-generation' | 'ingredient-parsing' | 'ingredient-validation' | 'content-moderation';
+
+export type LLMProviderName = 'bedrock' | 'openai' | 'fixture';
+
+export interface LLMCompletionRequest {
+  operation: LLMOperation;
+  prompt: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  /**
+   * Structured input the prompt was built from.
+   * Remote providers ignore it; the fixture provider renders its response from it.
+   */
+  input?: Record<string, unknown>;
+}
+
+export interface LLMCompletionResponse {
+  text: string;
+  model: string;
+  provider: LLMProviderName;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+}
@@ -0,0 +1,70 @@
+/**
+ * OpenAI-compatible LLM Provider
+ * Talks to any endpoint implementing POST /chat/completions
+ * (OpenAI, Azure OpenAI, vLLM, Ollama, LiteLLM, ...)
+ */
+
+import { LLMProvider, LLMCompletionRequest, LLMCompletionResponse } from './llm-provider';
+
+export type FetchFunction = typeof fetch;
+
+export interface OpenAICompatibleProviderOptions {
+  baseUrl: string; // e.g. https://api.openai.com/v1
+  apiKey?: string;
+  fetchFn?: FetchFunction;
+}
+
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private baseUrl: string;
+  private apiKey?: string;
+  private fetchFn: FetchFunction;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.fetchFn = options.fetchFn || fetch;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await this.fetchFn(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`LLM endpoint returned ${response.status}: ${errorText.slice(0, 200)}`);
+    }
+
+    const body: any = await response.json();
+    const text = body.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('LLM endpoint returned no completion text');
+    }
+
+    return {
+      text,
+      model: body.model || request.model,
+      provider: this.name,
+      inputTokens: body.usage?.prompt_tokens,
+      outputTokens: body.usage?.completion_tokens
+    };
+  }
+}
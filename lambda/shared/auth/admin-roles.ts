@@ -0,0 +1,80 @@
+/**
+ * Admin Roles
+ * Maps Cognito groups to admin roles and roles to permissions.
+ *
+ * - super_admin: everything, including the audit log and maintenance jobs
+ * - moderator:   content (held posts, report cases, recipes) and suspending users
+ * - support:     account issues - suspensions and appeals
+ *
+ * The original "admin" / "Admins" groups map to super_admin.
+ */
+
+export type AdminRole = 'super_admin' | 'moderator' | 'support';
+
+export type AdminPermission =
+  | 'stats:read'
+  | 'users:read'
+  | 'users:suspend'
+  | 'users:reindex'
+  | 'appeals:review'
+  | 'content:moderate'
+  | 'recipes:review'
+  | 'audit:read';
+
+export const ADMIN_ROLES: AdminRole[] = ['super_admin', 'moderator', 'support'];
+
+// Group names are matched case-insensitively
+const GROUP_ROLES: Record<string, AdminRole> = {
+  admin: 'super_admin',
+  admins: 'super_admin',
+  'super-admin': 'super_admin',
+  superadmins: 'super_admin',
+  moderator: 'moderator',
+  moderators: 'moderator',
+  support: 'support'
+};
+
+export const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  super_admin: [
+    'stats:read',
+    'users:read',
+    'users:suspend',
+    'users:reindex',
+    'appeals:review',
+    'content:moderate',
+    'recipes:review',
+    'audit:read'
+  ],
+  moderator: ['stats:read', 'users:read', 'users:suspend', 'content:moderate', 'recipes:review'],
+  support: ['stats:read', 'users:read', 'users:suspend', 'appeals:review']
+};
+
+/**
+ * The cognito:groups claim is an array when the router decodes the token itself, and a
+ * string ("admin", "admin,support" or "[admin support]") when API Gateway passes it on
+ */
+export function parseCognitoGroups(claim: unknown): string[] {
+  if (Array.isArray(claim)) {
+    return claim.map(String);
+  }
+  if (typeof claim === 'string') {
+    return claim.replace(/^\[|\]$/g, '').split(/[,\s]+/).filter(Boolean);
+  }
+  return [];
+}
+
+export function resolveAdminRoles(groupsClaim: unknown): AdminRole[] {
+  const roles = parseCognitoGroups(groupsClaim)
+    .map(group => GROUP_ROLES[group.toLowerCase()])
+    .filter((role): role is AdminRole => !!role);
+
+  return Array.from(new Set(roles));
+}
+
+export function getAdminPermissions(roles: AdminRole[]): AdminPermission[] {
+  return Array.from(new Set(roles.flatMap(role => ROLE_PERMISSIONS[role])));
+}
+
+export function hasAdminPermission(roles: AdminRole[], permission: AdminPermission): boolean {
+  return roles.some(role => ROLE_PERMISSIONS[role].includes(permission));
+}
@@ -0,0 +1,280 @@
+/**
+ * Block Service
+ * Blocking and muting between users
+ *
+ * A block is stored on both friendship records (USER#a/FRIEND#b and USER#b/FRIEND#a)
+ * with status 'blocked', replacing any friendship. blocked_by lists who blocked whom,
+ * so both users can block each other and each unblock only lifts their own block.
+ * A mute is a one-sided USER#muter/MUTE#target record and leaves the friendship alone.
+ */
+
+import { DynamoDBHelper } from '../database/dynamodb';
+import { generateUUID, formatTimestamp } from '../utils/utils';
+import { AppError } from '../errors/responses';
+import { logger } from '../monitoring/logger';
+
+export interface RestrictedUser {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+  since: string; // When the block or mute was added
+}
+
+/**
+ * Users whose content is hidden from a viewer
+ */
+export interface HiddenUsers {
+  blocked: Set<string>; // Blocked by the viewer or blocking the viewer
+  muted: Set<string>; // Muted by the viewer
+}
+
+export class BlockService {
+  /**
+   * Block a user. Any friendship or pending request between the two is replaced.
+   */
+  static async blockUser(userId: string, targetUserId: string): Promise<RestrictedUser> {
+    const target = await this.getTargetProfile(userId, targetUserId, 'block');
+
+    const existing = await DynamoDBHelper.get(`USER#${userId}`, `FRIEND#${targetUserId}`);
+    const blockedBy: string[] = existing?.status === 'blocked' ? existing.blocked_by || [] : [];
+    if (blockedBy.includes(userId)) {
+      throw new AppError(409, 'already_blocked', 'You have already blocked this user');
+    }
+
+    const now = formatTimestamp();
+    const friendshipId = existing?.friendship_id || generateUUID();
+    const role = existing?.role || 'requester';
+    const record = (ownerId: string, otherId: string, ownerRole: string) => ({
+      PK: `USER#${ownerId}`,
+      SK: `FRIEND#${otherId}`,
+      EntityType: 'Friendship',
+      friendship_id: friendshipId,
+      user_id: ownerId,
+      friend_id: otherId,
+      status: 'blocked',
+      role: ownerRole,
+      blocked_by: [...blockedBy, userId],
+      requested_at: existing?.requested_at || now,
+      created_at: existing?.created_at || now,
+      updated_at: now,
+      GSI4PK: `FRIEND#${otherId}`,
+      GSI4SK: `USER#${ownerId}#${now}`
+    });
+
+    await DynamoDBHelper.put(record(userId, targetUserId, role));
+    await DynamoDBHelper.put(record(targetUserId, userId, role === 'requester' ? 'addressee' : 'requester'));
+
+    if (existing?.status === 'accepted') {
+      // Keep friend_count in step with the friendship the block replaced
+      try {
+        await Promise.all([userId, targetUserId].map(id =>
+          DynamoDBHelper.update(`USER#${id}`, 'PROFILE', 'SET GSI5PK = :popular ADD friend_count :delta', {
+            ':popular': 'POPULAR_USERS',
+            ':delta': -1
+          })
+        ));
+      } catch (error) {
+        logger.warn('Failed to update friend count', { userId, targetUserId, error: String(error) });
+      }
+    }
+
+    logger.info('User blocked', { userId, targetUserId });
+
+    return this.toRestrictedUser(target, now);
+  }
+
+  /**
+   * Lift the caller's block. The friendship is not restored.
+   */
+  static async unblockUser(userId: string, targetUserId: string): Promise<void> {
+    const existing = await DynamoDBHelper.get(`USER#${userId}`, `FRIEND#${targetUserId}`);
+    const blockedBy: string[] = existing?.status === 'blocked' ? existing.blocked_by || [] : [];
+    if (!blockedBy.includes(userId)) {
+      throw new AppError(404, 'not_blocked', 'You have not blocked this user');
+    }
+
+    const remaining = blockedBy.filter(id => id !== userId);
+    if (remaining.length === 0) {
+      await DynamoDBHelper.delete(`USER#${userId}`, `FRIEND#${targetUserId}`);
+      await DynamoDBHelper.delete(`USER#${targetUserId}`, `FRIEND#${userId}`);
+    } else {
+      // The other user still blocks the caller
+      const now = formatTimestamp();
+      for (const [ownerId, otherId] of [[userId, targetUserId], [targetUserId, userId]]) {
+        await DynamoDBHelper.update(
+          `USER#${ownerId}`,
+          `FRIEND#${otherId}`,
+          'SET blocked_by = :blockedBy, updated_at = :now',
+          { ':blockedBy': remaining, ':now': now }
+        );
+      }
+    }
+
+    logger.info('User unblocked', { userId, targetUserId });
+  }
+
+  /**
+   * Mute a user: hide their posts, comments and notifications without unfriending
+   */
+  static async muteUser(userId: string, targetUserId: string): Promise<RestrictedUser> {
+    const target = await this.getTargetProfile(userId, targetUserId, 'mute');
+
+    if (await this.isMuted(userId, targetUserId)) {
+      throw new AppError(409, 'already_muted', 'You have already muted this user');
+    }
+
+    const now = formatTimestamp();
+    await DynamoDBHelper.put({
+      PK: `USER#${userId}`,
+      SK: `MUTE#${targetUserId}`,
+      entity_type: 'MUTE',
+      user_id: userId,
+      muted_user_id: targetUserId,
+      created_at: now
+    });
+
+    logger.info('User muted', { userId, targetUserId });
+
+    return this.toRestrictedUser(target, now);
+  }
+
+  static async unmuteUser(userId: string, targetUserId: string): Promise<void> {
+    if (!(await this.isMuted(userId, targetUserId))) {
+      throw new AppError(404, 'not_muted', 'You have not muted this user');
+    }
+
+    await DynamoDBHelper.delete(`USER#${userId}`, `MUTE#${targetUserId}`);
+
+    logger.info('User unmuted', { userId, targetUserId });
+  }
+
+  /**
+   * Users the caller has blocked (not users who blocked the caller)
+   */
+  static async getBlockedUsers(userId: string): Promise<RestrictedUser[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      FilterExpression: '#status = :status AND contains(blocked_by, :userId)',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'FRIEND#',
+        ':status': 'blocked',
+        ':userId': userId
+      }
+    });
+
+    return this.withProfiles((result.Items || []).map(item => ({ userId: item.friend_id, since: item.updated_at })));
+  }
+
+  static async getMutedUsers(userId: string): Promise<RestrictedUser[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'MUTE#'
+      }
+    });
+
+    return this.withProfiles((result.Items || []).map(item => ({ userId: item.muted_user_id, since: item.created_at })));
+  }
+
+  /**
+   * Whether either user has blocked the other
+   * Lookup errors count as not blocked, like checkFriendship.
+   */
+  static async isBlocked(userId: string, otherUserId: string): Promise<boolean> {
+    if (userId === otherUserId) return false;
+
+    try {
+      const record = await DynamoDBHelper.get(`USER#${userId}`, `FRIEND#${otherUserId}`);
+      return record?.status === 'blocked';
+    } catch (error) {
+      logger.error('Failed to check block', error, { userId, otherUserId });
+      return false;
+    }
+  }
+
+  static async isMuted(userId: string, targetUserId: string): Promise<boolean> {
+    try {
+      const record = await DynamoDBHelper.get(`USER#${userId}`, `MUTE#${targetUserId}`);
+      return !!record;
+    } catch (error) {
+      logger.error('Failed to check mute', error, { userId, targetUserId });
+      return false;
+    }
+  }
+
+  /**
+   * Everyone whose content should be left out of the viewer's feed, search and comments.
+   * Errors fall back to hiding nobody rather than failing the listing.
+   */
+  static async getHiddenUsers(userId: string): Promise<HiddenUsers> {
+    try {
+      const [blocked, muted] = await Promise.all([
+        DynamoDBHelper.query({
+          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+          FilterExpression: '#status = :status',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':pk': `USER#${userId}`,
+            ':sk': 'FRIEND#',
+            ':status': 'blocked'
+          }
+        }),
+        DynamoDBHelper.query({
+          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+          ExpressionAttributeValues: {
+            ':pk': `USER#${userId}`,
+            ':sk': 'MUTE#'
+          }
+        })
+      ]);
+
+      return {
+        blocked: new Set((blocked?.Items || []).map(item => item.friend_id)),
+        muted: new Set((muted?.Items || []).map(item => item.muted_user_id))
+      };
+    } catch (error) {
+      logger.error('Failed to load blocked and muted users', error, { userId });
+      return { blocked: new Set(), muted: new Set() };
+    }
+  }
+
+  /**
+   * Whether a user's content is hidden from the viewer (blocked either way, or muted)
+   */
+  static isHidden(hidden: HiddenUsers, authorId: string): boolean {
+    return hidden.blocked.has(authorId) || hidden.muted.has(authorId);
+  }
+
+  private static async getTargetProfile(userId: string, targetUserId: string, action: string): Promise<any> {
+    if (userId === targetUserId) {
+      throw new AppError(400, 'invalid_request', `You cannot ${action} yourself`);
+    }
+
+    const profile = await DynamoDBHelper.getUserProfile(targetUserId);
+    if (!profile) {
+      throw new AppError(404, 'user_not_found', 'User not found');
+    }
+    return profile;
+  }
+
+  private static async withProfiles(entries: Array<{ userId: string; since: string }>): Promise<RestrictedUser[]> {
+    return Promise.all(entries.map(async ({ userId, since }) => {
+      const profile = await DynamoDBHelper.getUserProfile(userId);
+      return this.toRestrictedUser(profile || { user_id: userId }, since);
+    }));
+  }
+
+  private static toRestrictedUser(profile: any, since: string): RestrictedUser {
+    return {
+      user_id: profile.user_id,
+      username: profile.username || 'Unknown',
+      full_name: profile.full_name,
+      avatar_url: profile.avatar_url,
+      since
+    };
+  }
+}
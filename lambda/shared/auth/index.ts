@@ -1,3 +1,6 @@
 export * from './privacy-middleware';
 export * from './username-service';
 export * from './user-search-service';
+export * from './block-service';
+export * from './token-verifier';
+export * from './admin-roles';
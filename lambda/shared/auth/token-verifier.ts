@@ -0,0 +1,105 @@
+/**
+ * Token Verifier
+ * Verifies Cognito ID tokens for entry points that API Gateway's Cognito authorizer
+ * doesn't cover, such as the WebSocket $connect route
+ */
+
+import { createPublicKey, verify } from 'crypto';
+import { AppError } from '../errors/responses';
+import { logger } from '../monitoring/logger';
+
+interface Jwk {
+  kid: string;
+  kty: string;
+  n: string;
+  e: string;
+}
+
+export interface TokenVerifierOptions {
+  userPoolId: string;
+  clientId: string;
+  region: string;
+}
+
+// Cognito rotates keys rarely, so each pool's key set is fetched once per container
+const jwksCache = new Map<string, Promise<Jwk[]>>();
+
+export class TokenVerifier {
+  /**
+   * Verify an ID token's signature, issuer, audience and expiry and return its claims
+   */
+  static async verifyIdToken(
+    token: string,
+    options: TokenVerifierOptions = {
+      userPoolId: process.env.USER_POOL_ID || '',
+      clientId: process.env.USER_POOL_CLIENT_ID || '',
+      region: process.env.AWS_REGION || 'us-east-1'
+    }
+  ): Promise<Record<string, any>> {
+    const parts = (token || '').split('.');
+    if (parts.length !== 3) {
+      throw new AppError(401, 'invalid_token', 'Malformed token');
+    }
+
+    let header: any;
+    let claims: any;
+    try {
+      header = JSON.parse(Buffer.from(parts[0], 'base64url').toString());
+      claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString());
+    } catch {
+      throw new AppError(401, 'invalid_token', 'Malformed token');
+    }
+
+    if (header.alg !== 'RS256') {
+      throw new AppError(401, 'invalid_token', 'Unsupported token algorithm');
+    }
+
+    const issuer = `https://cognito-idp.${options.region}.amazonaws.com/${options.userPoolId}`;
+    const keys = await this.getKeys(issuer);
+    const jwk = keys.find(key => key.kid === header.kid);
+    if (!jwk) {
+      throw new AppError(401, 'invalid_token', 'Unknown signing key');
+    }
+
+    const publicKey = createPublicKey({ key: { kty: jwk.kty, n: jwk.n, e: jwk.e }, format: 'jwk' });
+    const signatureValid = verify(
+      'RSA-SHA256',
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      publicKey,
+      Buffer.from(parts[2], 'base64url')
+    );
+    if (!signatureValid) {
+      throw new AppError(401, 'invalid_token', 'Invalid token signature');
+    }
+
+    if (claims.iss !== issuer || claims.token_use !== 'id' || claims.aud !== options.clientId) {
+      throw new AppError(401, 'invalid_token', 'Token was not issued for this application');
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+      throw new AppError(401, 'token_expired', 'Token has expired');
+    }
+
+    return claims;
+  }
+
+  private static getKeys(issuer: string): Promise<Jwk[]> {
+    let keys = jwksCache.get(issuer);
+    if (!keys) {
+      keys = fetch(`${issuer}/.well-known/jwks.json`)
+        .then(async response => {
+          if (!response.ok) {
+            throw new Error(`JWKS request failed with ${response.status}`);
+          }
+          return ((await response.json()) as { keys: Jwk[] }).keys;
+        })
+        .catch(error => {
+          jwksCache.delete(issuer); // Retry on the next connection
+          logger.error('Failed to fetch Cognito signing keys', error, { issuer });
+          throw new AppError(503, 'auth_unavailable', 'Could not verify token');
+        });
+      jwksCache.set(issuer, keys);
+    }
+    return keys;
+  }
+}
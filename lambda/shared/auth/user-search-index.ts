@@ -0,0 +1,200 @@
+/**
+ * User Search Index
+ * Token index over usernames and full names for prefix search
+ *
+ * Each token is a USER#<id>/SEARCH#<token> item, listed on GSI2 under USER#SEARCH and
+ * sorted by TOKEN#<token>#<userId>, so a begins_with query finds users by any name
+ * prefix. Full names are diacritic-stripped ("Nguyễn" is found by "nguyen"). Token items
+ * carry the display fields and all of the user's tokens, so a search needs no profile reads.
+ */
+
+import { DynamoDBHelper } from '../database/dynamodb';
+import { logger } from '../monitoring/logger';
+import { normalizeVietnamese } from '../utils/vietnamese-normalizer';
+
+const INDEX_PK = 'USER#SEARCH';
+
+export interface IndexKey {
+  PK: string;
+  SK: string;
+  GSI2PK: string;
+  GSI2SK: string;
+}
+
+export interface IndexedUser {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+  token: string;    // Token the item is indexed under
+  tokens: string[]; // All of the user's tokens
+  key: IndexKey;    // Key of the index item, to resume a search after it
+}
+
+export interface IndexPage {
+  users: IndexedUser[];
+  lastKey?: IndexKey; // Absent on the last page
+}
+
+export interface IndexableProfile {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+}
+
+export class UserSearchIndex {
+  /**
+   * Split text into lowercase, diacritic-free search tokens
+   */
+  static tokenize(text: string): string[] {
+    return normalizeVietnamese(text || '')
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 0);
+  }
+
+  /**
+   * Tokens for a profile: the whole username, its parts ("john_doe" -> "doe") and each
+   * word of the full name
+   */
+  static getTokens(profile: IndexableProfile): string[] {
+    const username = (profile.username || '').toLowerCase();
+    return [...new Set([
+      ...(username ? [username] : []),
+      ...this.tokenize(username),
+      ...this.tokenize(profile.full_name || '')
+    ])];
+  }
+
+  /**
+   * (Re)index a profile. The index can be rebuilt, so failures are logged and ignored
+   * rather than failing the profile write.
+   */
+  static async indexUser(profile: IndexableProfile): Promise<void> {
+    try {
+      await this.writeTokens(profile);
+    } catch (error) {
+      logger.error('Failed to index user for search', error, { userId: profile.user_id });
+    }
+  }
+
+  /**
+   * One page of the users with a token starting with the prefix, in token order.
+   * A user appears once for each of their tokens that matches.
+   */
+  static async findByPrefix(prefix: string, limit: number, startKey?: IndexKey): Promise<IndexPage> {
+    const result = await DynamoDBHelper.query({
+      IndexName: 'GSI2',
+      KeyConditionExpression: 'GSI2PK = :pk AND begins_with(GSI2SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': INDEX_PK,
+        ':sk': `TOKEN#${prefix}`
+      },
+      Limit: limit,
+      ExclusiveStartKey: startKey
+    });
+
+    return {
+      users: (result?.Items || []).map((item: any) => ({
+        user_id: item.user_id,
+        username: item.username,
+        full_name: item.full_name,
+        avatar_url: item.avatar_url,
+        token: item.token,
+        tokens: item.tokens || [],
+        key: { PK: item.PK, SK: item.SK, GSI2PK: item.GSI2PK, GSI2SK: item.GSI2SK }
+      })),
+      lastKey: result?.LastEvaluatedKey as IndexKey | undefined
+    };
+  }
+
+  /**
+   * Whether this is the first of the user's items under the prefix, so a search
+   * paging through the prefix counts each user once
+   */
+  static isFirstMatch(user: IndexedUser, prefix: string): boolean {
+    const first = user.tokens
+      .filter(token => token.startsWith(prefix))
+      .map(token => this.sortKey(token, user.user_id))
+      .sort()[0];
+    return first === undefined || first === this.sortKey(user.token, user.user_id);
+  }
+
+  /**
+   * Whether a value (from a client cursor) is the key of an index item
+   */
+  static isIndexKey(value: any): value is IndexKey {
+    return !!value
+      && value.GSI2PK === INDEX_PK
+      && ['PK', 'SK', 'GSI2SK'].every(name => typeof value[name] === 'string')
+      && Object.keys(value).length === 4;
+  }
+
+  private static sortKey(token: string, userId: string): string {
+    return `TOKEN#${token}#${userId}`;
+  }
+
+  /**
+   * Reindex every profile (backfill for users created before the index existed)
+   */
+  static async rebuild(): Promise<number> {
+    let indexed = 0;
+    let startKey: any;
+
+    do {
+      const result = await DynamoDBHelper.scan({
+        FilterExpression: 'SK = :sk',
+        ExpressionAttributeValues: { ':sk': 'PROFILE' },
+        ExclusiveStartKey: startKey
+      });
+
+      for (const profile of result.Items || []) {
+        if (!profile.user_id || !profile.username) continue;
+        await this.writeTokens(profile as IndexableProfile);
+        indexed++;
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    logger.info('User search index rebuilt', { indexed });
+    return indexed;
+  }
+
+  private static async writeTokens(profile: IndexableProfile): Promise<void> {
+    const tokens = this.getTokens(profile);
+
+    const existing = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${profile.user_id}`,
+        ':sk': 'SEARCH#'
+      }
+    });
+
+    const stale = (existing?.Items || []).filter((item: any) => !tokens.includes(item.token));
+    const requests = [
+      ...stale.map((item: any) => ({ DeleteRequest: { Key: { PK: item.PK, SK: item.SK } } })),
+      // Rewrite every token so the display fields stay current
+      ...tokens.map(token => ({
+        PutRequest: {
+          Item: {
+            PK: `USER#${profile.user_id}`,
+            SK: `SEARCH#${token}`,
+            entity_type: 'USER_SEARCH_TOKEN',
+            user_id: profile.user_id,
+            username: profile.username,
+            full_name: profile.full_name,
+            avatar_url: profile.avatar_url,
+            token,
+            tokens,
+            GSI2PK: INDEX_PK,
+            GSI2SK: this.sortKey(token, profile.user_id)
+          }
+        }
+      }))
+    ];
+
+    await DynamoDBHelper.batchWrite(requests);
+  }
+}
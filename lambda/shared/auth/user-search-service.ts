@@ -1,10 +1,13 @@
 /**
  * User Search Service
- * Handles searching for users by username, email, or full name
+ * Handles searching for users by username or full name, and friend suggestions
  */
 
 import { DynamoDBHelper } from '../database/dynamodb';
+import { AppError } from '../errors/responses';
 import { logger } from '../monitoring/logger';
+import { BlockService } from './block-service';
+import { UserSearchIndex, IndexedUser, IndexKey } from './user-search-index';
 
 export interface UserSearchResult {
   user_id: string;
@@ -13,152 +16,445 @@ export interface UserSearchResult {
   avatar_url?: string;
   bio?: string;
   friendship_status?: 'none' | 'pending' | 'accepted' | 'blocked';
+  mutual_friends_count?: number;
+}
+
+export interface UserSearchPage {
+  users: UserSearchResult[];
+  next_cursor?: string;
+}
+
+export interface SuggestedFriend extends UserSearchResult {
+  mutual_friends_count: number;
 }
 
 export interface SearchUsersOptions {
   query: string;
   limit?: number;
+  cursor?: string; // next_cursor from the previous page
   excludeUserId?: string; // Exclude current user from results
+  viewerId?: string; // Leave out users blocked by or blocking the viewer
+}
+
+// Where the next page of a search resumes: the pass over the index and the last item read
+interface SearchCursor {
+  pass: 'prefix' | 'typo';
+  key?: IndexKey;
+}
+
+interface SocialContext {
+  relationships: Map<string, string>; // friend_id -> friendship status
+  friendIds: Set<string>; // Accepted friends
+  blocked: Set<string>;
+  listVisibility: Map<string, Promise<boolean>>; // Cached canSeeFriendsList lookups
 }
 
+// Index items per query, and queries per search page when few items match
+const INDEX_PAGE_SIZE = 100;
+const MAX_INDEX_PAGES = 5;
+const MIN_FUZZY_LENGTH = 4;
+
+/**
+ * Search ranking: each query word scores its match level (exact 3, prefix 2, typo 1)
+ * times MATCH_WEIGHT; friends and mutual friends are boosted on top
+ */
+const MATCH_WEIGHT = 10;
+const EXACT_USERNAME_BOOST = 20;
+const FRIEND_BOOST = 25;
+const MUTUAL_BOOST = 5;
+const MAX_MUTUAL_BOOSTED = 5;
+const MUTUAL_WINDOW = 20;
+
+/**
+ * Suggestion ranking: each mutual friend counts 1, each shared favorite cuisine and
+ * each recipe both users have cooked adds a smaller boost
+ */
+const CUISINE_BOOST = 0.5;
+const SHARED_RECIPE_BOOST = 0.5;
+
+// Friends-of-friends scored in full, picked by mutual count
+const MAX_SUGGESTION_CANDIDATES = 50;
+
 export class UserSearchService {
   /**
-   * Search users by username or full name
-   * Uses scan with filter (not optimal for large datasets, but works for MVP)
+   * Search users by username or full name through the token index
+   * Every query word must match one of the user's tokens: exactly, as a prefix, or
+   * within a typo or two. The index is paged under the longest word; each item carries
+   * all of the user's tokens, so the other words are checked without further reads.
+   * Users matching the longest word as a prefix come first, then (for words long enough)
+   * users who only match it with a typo, found under its first two letters. Each page is
+   * ranked by match quality and boosted for friends and mutual friends of the viewer;
+   * the cursor holds the index key to resume from.
    */
-  static async searchUsers(options: SearchUsersOptions): Promise<UserSearchResult[]> {
-    const { query, limit = 20, excludeUserId } = options;
+  static async searchUsers(options: SearchUsersOptions): Promise<UserSearchPage> {
+    const { query, limit = 20, cursor, excludeUserId, viewerId } = options;
 
-    if (!query || query.trim().length < 2) {
+    const terms = UserSearchIndex.tokenize(query || '');
+    if (terms.join('').length < 2) {
       logger.warn('Search query too short', { query });
-      return [];
+      return { users: [] };
+    }
+    if (limit < 1) {
+      return { users: [] };
     }
 
-    const searchTerm = query.toLowerCase().trim();
+    let position: SearchCursor | undefined = this.decodeCursor(cursor);
+    const normalizedQuery = query.toLowerCase().trim();
+    const primary = terms.reduce((longest, term) => (term.length > longest.length ? term : longest));
 
     try {
-      // Scan users table with filter
-      // Note: In production, consider using ElasticSearch or DynamoDB GSI with normalized search fields
-      // DynamoDB doesn't support LOWER() function, so we'll filter in memory
-      const result = await DynamoDBHelper.scan({
-        FilterExpression: `SK = :sk ${excludeUserId ? 'AND user_id <> :excludeUserId' : ''}`,
-        ExpressionAttributeValues: {
-          ':sk': 'PROFILE',
-          ...(excludeUserId && { ':excludeUserId': excludeUserId })
-        },
-        Limit: 100 // Get more items to filter in memory
-      });
+      const social = viewerId ? await this.getSocialContext(viewerId) : undefined;
+      const ranked: Array<{ user: IndexedUser; score: number; mutualCount: number }> = [];
+      let itemsRead = 0;
 
-      // Filter results in memory (case-insensitive search)
-      const filteredItems = (result.Items || []).filter((item: any) => {
-        const username = (item.username || '').toLowerCase();
-        const fullName = (item.full_name || '').toLowerCase();
-        return username.includes(searchTerm) || fullName.includes(searchTerm);
-      });
+      for (let page = 0; position && ranked.length < limit && page < MAX_INDEX_PAGES; page++) {
+        const { pass, key }: SearchCursor = position;
+        const prefix = pass === 'prefix' ? primary : primary.slice(0, 2);
+        const result = await UserSearchIndex.findByPrefix(prefix, INDEX_PAGE_SIZE, key);
+        itemsRead += result.users.length;
 
-      // Limit results
-      const limitedItems = filteredItems.slice(0, limit);
+        let resumeKey = result.lastKey;
+        for (let i = 0; i < result.users.length; i++) {
+          if (ranked.length >= limit) {
+            // Resume after the last item looked at
+            resumeKey = result.users[i - 1].key;
+            break;
+          }
 
-      const users: UserSearchResult[] = limitedItems.map((item: any) => ({
-        user_id: item.user_id,
-        username: item.username,
-        full_name: item.full_name,
-        avatar_url: item.avatar_url,
-        bio: item.bio,
-        friendship_status: 'none' // Will be enriched later
-      }));
+          const user = result.users[i];
+          if (!UserSearchIndex.isFirstMatch(user, prefix)) continue;
+          // Prefix matches were listed by the first pass
+          if (pass === 'typo' && user.tokens.some(token => token.startsWith(primary))) continue;
+          if (user.user_id === excludeUserId || social?.blocked.has(user.user_id)) continue;
+
+          const matchLevels = terms.map(term => this.matchLevel(term, user.tokens));
+          if (matchLevels.some(level => level === 0)) continue;
+
+          let score = matchLevels.reduce((sum, level) => sum + level * MATCH_WEIGHT, 0);
+          if (user.username === normalizedQuery) score += EXACT_USERNAME_BOOST;
+          if (social?.relationships.get(user.user_id) === 'accepted') score += FRIEND_BOOST;
+
+          ranked.push({ user, score, mutualCount: 0 });
+        }
+
+        if (resumeKey) {
+          position = { pass, key: resumeKey };
+        } else if (pass === 'prefix' && primary.length >= MIN_FUZZY_LENGTH) {
+          position = { pass: 'typo' };
+        } else {
+          position = undefined;
+        }
+      }
+
+      ranked.sort((a, b) => b.score - a.score);
+
+      // Mutual friends are looked up for the leading non-friends only
+      if (social && social.friendIds.size > 0) {
+        const window = ranked
+          .filter(entry => !social.relationships.has(entry.user.user_id))
+          .slice(0, MUTUAL_WINDOW);
+        await Promise.all(window.map(async (entry) => {
+          entry.mutualCount = await this.countMutualFriends(entry.user.user_id, social);
+          entry.score += Math.min(entry.mutualCount, MAX_MUTUAL_BOOSTED) * MUTUAL_BOOST;
+        }));
+        ranked.sort((a, b) => b.score - a.score);
+      }
+
+      const users: UserSearchResult[] = ranked.map(({ user, mutualCount }) => {
+        const status = social?.relationships.get(user.user_id);
+        return {
+          user_id: user.user_id,
+          username: user.username,
+          full_name: user.full_name,
+          avatar_url: user.avatar_url,
+          friendship_status: status === 'accepted' || status === 'pending' || status === 'blocked' ? status : 'none',
+          ...(mutualCount > 0 && { mutual_friends_count: mutualCount })
+        };
+      });
 
       logger.info('User search completed', {
-        query: searchTerm,
+        query: normalizedQuery,
+        itemsRead,
         resultCount: users.length
       });
 
-      return users;
+      return {
+        users,
+        next_cursor: position ? this.encodeCursor(position) : undefined
+      };
     } catch (error) {
-      logger.error('User search failed', error, { query: searchTerm });
+      logger.error('User search failed', error, { query: normalizedQuery });
       throw error;
     }
   }
 
   /**
-   * Search users with friendship status enrichment
+   * Search users as the current user: excludes them, hides blocked users and fills in
+   * friendship status
    */
   static async searchUsersWithFriendshipStatus(
     currentUserId: string,
     options: SearchUsersOptions
-  ): Promise<UserSearchResult[]> {
-    // Get base search results
-    const users = await this.searchUsers({
+  ): Promise<UserSearchPage> {
+    return this.searchUsers({
       ...options,
-      excludeUserId: currentUserId
+      excludeUserId: currentUserId,
+      viewerId: currentUserId
     });
+  }
 
-    // Enrich with friendship status
-    const enrichedUsers = await Promise.all(
-      users.map(async (user) => {
-        const friendshipStatus = await this.getFriendshipStatus(currentUserId, user.user_id);
-        return {
-          ...user,
-          friendship_status: friendshipStatus
-        };
-      })
+  /**
+   * How well a query word matches a user's tokens: 3 exact, 2 prefix, 1 typo, 0 none
+   */
+  private static matchLevel(term: string, tokens: string[]): number {
+    if (tokens.includes(term)) return 3;
+    if (tokens.some(token => token.startsWith(term))) return 2;
+    if (term.length < MIN_FUZZY_LENGTH) return 0;
+
+    const maxEdits = term.length >= 8 ? 2 : 1;
+    return tokens.some(token =>
+      this.editDistance(token.slice(0, term.length), term) <= maxEdits ||
+      this.editDistance(token, term) <= maxEdits
+    ) ? 1 : 0;
+  }
+
+  /**
+   * Edit distance counting insertions, deletions, substitutions and swapped neighbours
+   * (optimal string alignment)
+   */
+  private static editDistance(a: string, b: string): number {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+      Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
     );
 
-    return enrichedUsers;
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+        }
+      }
+    }
+    return d[a.length][b.length];
+  }
+
+  /**
+   * The viewer's relationships (friend_id -> status), accepted friends and hidden users
+   */
+  private static async getSocialContext(viewerId: string): Promise<SocialContext> {
+    const [relationships, hidden] = await Promise.all([
+      this.getRelationships(viewerId),
+      BlockService.getHiddenUsers(viewerId)
+    ]);
+
+    return {
+      relationships: new Map(relationships.map(item => [item.friend_id, item.status])),
+      friendIds: new Set(relationships.filter(item => item.status === 'accepted').map(item => item.friend_id)),
+      blocked: hidden.blocked,
+      listVisibility: new Map()
+    };
+  }
+
+  /**
+   * Viewer's friends who are also friends with the user, counting only friends whose
+   * friends list the viewer may see
+   */
+  private static async countMutualFriends(userId: string, social: SocialContext): Promise<number> {
+    const theirFriends = await this.getRelationships(userId);
+    const mutualIds = theirFriends
+      .filter(item => item.status === 'accepted' && social.friendIds.has(item.friend_id))
+      .map(item => item.friend_id);
+
+    let count = 0;
+    for (const mutualId of mutualIds) {
+      if (!social.listVisibility.has(mutualId)) {
+        social.listVisibility.set(mutualId, this.canSeeFriendsList(mutualId));
+      }
+      if (await social.listVisibility.get(mutualId)) count++;
+    }
+    return count;
+  }
+
+  private static encodeCursor(position: SearchCursor): string {
+    return Buffer.from(JSON.stringify(position)).toString('base64');
+  }
+
+  private static decodeCursor(cursor?: string): SearchCursor {
+    if (!cursor) return { pass: 'prefix' };
+
+    try {
+      const { pass, key } = JSON.parse(Buffer.from(cursor, 'base64').toString());
+      if ((pass === 'prefix' || pass === 'typo') && (key === undefined || UserSearchIndex.isIndexKey(key))) {
+        return { pass, key };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new AppError(400, 'invalid_cursor', 'Invalid search cursor');
   }
 
   /**
-   * Get friendship status between two users
+   * Get suggested friends ("People you may know")
+   * Friends-of-friends ranked by mutual friends, boosted by shared favorite cuisines and
+   * cooked recipes. Friends who keep their friends list private are not walked. Anyone
+   * the user already has a relationship with (friend, pending, blocked) or has muted is
+   * left out. Popular users fill the list when there are not enough friends-of-friends.
    */
-  private static async getFriendshipStatus(
-    userId: string,
-    targetUserId: string
-  ): Promise<'none' | 'pending' | 'accepted' | 'blocked'> {
+  static async getSuggestedFriends(userId: string, limit: number = 10): Promise<SuggestedFriend[]> {
     try {
-      const friendship = await DynamoDBHelper.get(
-        `USER#${userId}`,
-        `FRIEND#${targetUserId}`
-      );
+      const [relationships, hidden] = await Promise.all([
+        this.getRelationships(userId),
+        BlockService.getHiddenUsers(userId)
+      ]);
+
+      const excluded = new Set<string>([
+        userId,
+        ...relationships.map(item => item.friend_id),
+        ...hidden.blocked,
+        ...hidden.muted
+      ]);
+      const friendIds = relationships
+        .filter(item => item.status === 'accepted')
+        .map(item => item.friend_id);
 
-      if (!friendship) {
-        return 'none';
+      // Candidate -> mutual friends through whom they were found
+      const mutuals = new Map<string, Set<string>>();
+      await Promise.all(friendIds.map(async (friendId) => {
+        if (!(await this.canSeeFriendsList(friendId))) return;
+
+        const theirFriends = await this.getRelationships(friendId);
+        for (const item of theirFriends) {
+          if (item.status !== 'accepted' || excluded.has(item.friend_id)) continue;
+          if (!mutuals.has(item.friend_id)) mutuals.set(item.friend_id, new Set());
+          mutuals.get(item.friend_id)!.add(friendId);
+        }
+      }));
+
+      const candidates = [...mutuals.entries()]
+        .sort((a, b) => b[1].size - a[1].size)
+        .slice(0, MAX_SUGGESTION_CANDIDATES);
+
+      const [myCuisines, myRecipes] = candidates.length > 0
+        ? await Promise.all([this.getFavoriteCuisines(userId), this.getCookedRecipeIds(userId)])
+        : [new Set<string>(), new Set<string>()];
+
+      const scored = await Promise.all(candidates.map(async ([candidateId, mutualIds]) => {
+        const [profile, cuisines, recipes] = await Promise.all([
+          DynamoDBHelper.getUserProfile(candidateId),
+          this.getFavoriteCuisines(candidateId),
+          this.getCookedRecipeIds(candidateId)
+        ]);
+        if (!profile) return null;
+
+        const sharedCuisines = [...cuisines].filter(cuisine => myCuisines.has(cuisine)).length;
+        const sharedRecipes = [...recipes].filter(recipeId => myRecipes.has(recipeId)).length;
+
+        return {
+          user: {
+            ...this.toSearchResult(profile),
+            mutual_friends_count: mutualIds.size
+          },
+          score: mutualIds.size + CUISINE_BOOST * sharedCuisines + SHARED_RECIPE_BOOST * sharedRecipes
+        };
+      }));
+
+      const suggestions: SuggestedFriend[] = scored
+        .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(entry => entry.user);
+
+      if (suggestions.length < limit) {
+        const suggestedIds = new Set(suggestions.map(user => user.user_id));
+        const popular = await this.getPopularUsers(limit * 2);
+        for (const user of popular) {
+          if (suggestions.length >= limit) break;
+          if (excluded.has(user.user_id) || suggestedIds.has(user.user_id)) continue;
+          suggestions.push({ ...user, mutual_friends_count: 0 });
+        }
       }
 
-      return friendship.status as any;
-    } catch (error) {
-      logger.error('Failed to get friendship status', error, {
+      logger.info('Friend suggestions computed', {
         userId,
-        targetUserId
+        candidateCount: mutuals.size,
+        resultCount: suggestions.length
       });
-      return 'none';
+
+      return suggestions;
+    } catch (error) {
+      logger.error('Failed to get friend suggestions', error, { userId });
+      throw error;
     }
   }
 
   /**
-   * Get suggested friends (users with mutual friends)
-   * This is a more advanced feature for future implementation
+   * Get popular users (most friends)
+   * Profiles join GSI5 under POPULAR_USERS the first time their friend_count changes (or when
+   * FriendshipService.rebuildFriendCounts backfills it), and the index keeps them sorted by that count
    */
-  static async getSuggestedFriends(userId: string, limit: number = 10): Promise<UserSearchResult[]> {
-    // TODO: Implement mutual friends algorithm
-    // 1. Get user's friends
-    // 2. Get friends of friends
-    // 3. Exclude already friends
-    // 4. Rank by number of mutual friends
-    
-    logger.info('Suggested friends feature not yet implemented', { userId });
-    return [];
+  static async getPopularUsers(limit: number = 10): Promise<UserSearchResult[]> {
+    try {
+      const result = await DynamoDBHelper.query({
+        IndexName: 'GSI5',
+        KeyConditionExpression: 'GSI5PK = :pk AND friend_count > :zero',
+        ExpressionAttributeValues: {
+          ':pk': 'POPULAR_USERS',
+          ':zero': 0
+        },
+        ScanIndexForward: false, // Most friends first
+        Limit: limit
+      });
+
+      return (result.Items || []).map((item: any) => this.toSearchResult(item));
+    } catch (error) {
+      logger.error('Failed to get popular users', error);
+      return [];
+    }
   }
 
   /**
-   * Get popular users (most friends)
-   * Useful for "People you may know" feature
+   * All friendship records of a user (accepted, pending, rejected and blocked)
    */
-  static async getPopularUsers(limit: number = 10): Promise<UserSearchResult[]> {
-    // TODO: Implement popular users query
-    // This would require maintaining a friend_count attribute on user profiles
-    // Or using a separate GSI to query by friend count
-    
-    logger.info('Popular users feature not yet implemented');
-    return [];
+  private static async getRelationships(userId: string): Promise<any[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'FRIEND#'
+      }
+    });
+
+    return result?.Items || [];
+  }
+
+  /**
+   * Whether a friend's friends list may be walked. The viewer is their friend, so only
+   * 'private' hides it.
+   */
+  private static async canSeeFriendsList(friendId: string): Promise<boolean> {
+    const privacy = await DynamoDBHelper.get(`USER#${friendId}`, 'PRIVACY');
+    return (privacy?.friends_list_visibility || 'friends') !== 'private';
+  }
+
+  private static async getFavoriteCuisines(userId: string): Promise<Set<string>> {
+    const preferences = await DynamoDBHelper.getUserPreferences(userId);
+    return new Set((preferences?.favorite_cuisines || []).map((cuisine: string) => cuisine.toLowerCase()));
+  }
+
+  private static async getCookedRecipeIds(userId: string): Promise<Set<string>> {
+    const history = await DynamoDBHelper.getCookingHistory(userId);
+    return new Set((history?.Items || []).map((item: any) => item.recipe_id).filter(Boolean));
+  }
+
+  private static toSearchResult(item: any): UserSearchResult {
+    return {
+      user_id: item.user_id,
+      username: item.username,
+      full_name: item.full_name,
+      avatar_url: item.avatar_url,
+      bio: item.bio,
+      friendship_status: 'none'
+    };
   }
 }
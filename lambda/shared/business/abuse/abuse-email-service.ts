@@ -208,4 +208,62 @@ Smart Cooking Team
       // Don't throw - warning should still be recorded even if email fails
     }
   }
+
+  /**
+   * Send reactivation email after a suspension is lifted on appeal
+   */
+  static async sendReactivationEmail(
+    userId: string,
+    suspendedAt: string,
+    note?: string
+  ): Promise<void> {
+    try {
+      const user = await DynamoDBHelper.get(`USER#${userId}`, 'PROFILE');
+      if (!user?.email) {
+        logger.warn('Cannot send reactivation email - no email found', { userId });
+        return;
+      }
+
+      const emailSubject = `✅ Your Smart Cooking Account Has Been Reactivated`;
+
+      const emailBody = `
+Dear ${user.display_name || user.username},
+
+Good news! Your appeal has been reviewed and approved. Your Smart Cooking account has been reactivated.
+
+SUSPENSION DETAILS:
+- Suspended On: ${new Date(suspendedAt).toLocaleString('vi-VN')}
+- Reactivated On: ${new Date().toLocaleString('vi-VN')}
+${note ? `- Reviewer Note: ${note}\n` : ''}
+You can now access all Smart Cooking features again.
+
+COMMUNITY GUIDELINES:
+${FRONTEND_URL}/guidelines
+
+Welcome back!
+
+Best regards,
+Smart Cooking Team
+      `.trim();
+
+      // Send via SNS
+      await sns.send(new PublishCommand({
+        TopicArn: SNS_TOPIC_ARN,
+        Subject: emailSubject,
+        Message: JSON.stringify({
+          type: 'account_reactivated',
+          to: user.email,
+          subject: emailSubject,
+          body: emailBody,
+          userId,
+          suspendedAt
+        })
+      }));
+
+      logger.info('Reactivation email sent', { userId, email: user.email });
+    } catch (error) {
+      logger.error('Failed to send reactivation email', { error, userId });
+      // Don't throw - the account is already reactivated
+    }
+  }
 }
@@ -1 +1,3 @@
 export * from './abuse-tracking-service';
+export * from './suspension-appeal-service';
+export * from './rate-limiter';
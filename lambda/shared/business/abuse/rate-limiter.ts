@@ -0,0 +1,193 @@
+/**
+ * Rate Limiter
+ *
+ * Token buckets per user (or per IP for anonymous requests) and per rule.
+ * A bucket holds `capacity` tokens, refills at `refillPerMinute` and each request takes one.
+ *
+ * Buckets are atomic counters rather than read-modify-write: `used` counts the tokens
+ * taken since `since`, when the bucket was last full, so at any moment
+ *
+ *   deficit = used - refill rate × (now - since)
+ *
+ * and a request is allowed while the deficit stays within capacity. Once the deficit
+ * is back to zero the bucket is full and the counter restarts. Rejected requests give
+ * their token back, so hammering a limit doesn't push the retry time further out.
+ *
+ * Clients that keep hitting limits are reported to AbuseTrackingService as bot_behavior.
+ *
+ * Storage (expires via TTL):
+ * - PK USER#{userId} or IP#{ip}, SK RATE_LIMIT#{rule}  bucket
+ * - PK USER#{userId}, SK RATE_LIMIT_HITS               rejected requests in the current window
+ */
+
+import { DynamoDBHelper } from '../../database/dynamodb';
+import { logger } from '../../monitoring/logger';
+import { AbuseTrackingService } from './abuse-tracking-service';
+
+export interface RateLimitRule {
+  name: string; // Bucket name, unique across routes
+  capacity: number; // Requests allowed in a burst
+  refillPerMinute: number;
+  methods?: string[]; // Defaults to every method
+  pattern?: RegExp; // Matched against the request path; defaults to the whole route
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  rule: string;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export interface RateLimitRequest {
+  method: string;
+  path: string;
+  userId?: string;
+  sourceIp?: string;
+}
+
+// Rejected requests within this window, per user, that count as bot behaviour
+const HIT_WINDOW_MINUTES = 15;
+const BOT_REPORT_HITS = 20;
+
+export class RateLimiter {
+  /**
+   * Rules that apply to a request
+   */
+  static matchRules(rules: RateLimitRule[], method: string, path: string): RateLimitRule[] {
+    return rules.filter(rule =>
+      (!rule.methods || rule.methods.includes(method))
+      && (!rule.pattern || rule.pattern.test(path))
+    );
+  }
+
+  /**
+   * Take a token from every matching bucket. Returns the first rejection, or null when
+   * the request may go ahead. Fails open: a limiter error never blocks a request.
+   */
+  static async enforce(rules: RateLimitRule[], request: RateLimitRequest): Promise<RateLimitResult | null> {
+    const matched = this.matchRules(rules, request.method, request.path);
+    if (matched.length === 0) {
+      return null;
+    }
+
+    const subject = request.userId ? `USER#${request.userId}` : `IP#${request.sourceIp || 'unknown'}`;
+
+    try {
+      for (const rule of matched) {
+        const result = await this.consume(subject, rule);
+        if (result.allowed) continue;
+
+        logger.warn('Rate limit exceeded', { subject, rule: rule.name, path: request.path, retryAfter: result.retryAfterSeconds });
+
+        if (request.userId) {
+          await this.recordLimitHit(request.userId, rule.name, request.path).catch(error =>
+            logger.error('Failed to record rate limit hit', error, { userId: request.userId })
+          );
+        }
+        return result;
+      }
+    } catch (error) {
+      logger.error('Rate limiter failed, allowing request', error, { subject, path: request.path });
+    }
+
+    return null;
+  }
+
+  /**
+   * Take one token from a bucket
+   */
+  static async consume(subject: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    const refillPerMs = rule.refillPerMinute / 60000;
+
+    // An untouched bucket refills completely within this time, so it can expire
+    const ttl = Math.floor(now / 1000) + Math.ceil(rule.capacity / refillPerMs / 1000) + 60;
+
+    const item = await DynamoDBHelper.update(
+      subject,
+      `RATE_LIMIT#${rule.name}`,
+      'SET entity_type = :type, since = if_not_exists(since, :now), #ttl = :ttl ADD used :one',
+      { ':type': 'rate_limit_bucket', ':now': now, ':ttl': ttl, ':one': 1 },
+      { '#ttl': 'ttl' }
+    );
+
+    const used: number = item?.used ?? 1;
+    const since: number = item?.since ?? now;
+    const deficit = used - (now - since) * refillPerMs;
+
+    // The bucket was full before this request: restart counting from here.
+    // A request landing between the two writes may go uncounted, which errs on the lenient side.
+    if (used > 1 && deficit - 1 <= 0) {
+      await DynamoDBHelper.update(
+        subject,
+        `RATE_LIMIT#${rule.name}`,
+        'SET used = :one, since = :now',
+        { ':one': 1, ':now': now }
+      );
+      return { allowed: true, rule: rule.name, remaining: rule.capacity - 1, retryAfterSeconds: 0 };
+    }
+
+    if (deficit <= rule.capacity) {
+      return { allowed: true, rule: rule.name, remaining: Math.floor(rule.capacity - deficit), retryAfterSeconds: 0 };
+    }
+
+    await DynamoDBHelper.update(
+      subject,
+      `RATE_LIMIT#${rule.name}`,
+      'ADD used :refund',
+      { ':refund': -1 }
+    );
+
+    return {
+      allowed: false,
+      rule: rule.name,
+      remaining: 0,
+      retryAfterSeconds: Math.max(1, Math.ceil((deficit - rule.capacity) / refillPerMs / 1000))
+    };
+  }
+
+  /**
+   * Count a rejected request; the BOT_REPORT_HITS-th in a window is reported as bot behaviour
+   */
+  static async recordLimitHit(userId: string, rule: string, path: string): Promise<void> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - HIT_WINDOW_MINUTES * 60 * 1000).toISOString();
+    const ttl = Math.floor(now.getTime() / 1000) + HIT_WINDOW_MINUTES * 60;
+
+    const item = await DynamoDBHelper.update(
+      `USER#${userId}`,
+      'RATE_LIMIT_HITS',
+      'SET entity_type = :type, first_hit = if_not_exists(first_hit, :now), #ttl = if_not_exists(#ttl, :ttl) ADD hits :one',
+      { ':type': 'rate_limit_hits', ':now': now.toISOString(), ':ttl': ttl, ':one': 1 },
+      { '#ttl': 'ttl' }
+    );
+
+    let hits = item?.hits || 1;
+
+    // TTL deletion can lag; hits from an earlier window start over
+    if (item?.first_hit && item.first_hit < windowStart) {
+      await DynamoDBHelper.put({
+        PK: `USER#${userId}`,
+        SK: 'RATE_LIMIT_HITS',
+        entity_type: 'rate_limit_hits',
+        first_hit: now.toISOString(),
+        hits: 1,
+        ttl
+      });
+      hits = 1;
+    }
+
+    if (hits !== BOT_REPORT_HITS) {
+      return;
+    }
+
+    await AbuseTrackingService.recordViolation(userId, 'bot_behavior', 'medium', {
+      reason: 'Repeatedly exceeded rate limits',
+      rule,
+      path,
+      hits,
+      window_minutes: HIT_WINDOW_MINUTES
+    });
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Suspension Appeal Service
+ *
+ * Users appeal a specific SUSPENSION# record (only while it is in effect and
+ * when the suspension allows it). Appeals sit in an admin queue keyed by status
+ * on GSI1; admins approve (lift the suspension) or deny them.
+ *
+ * Storage: PK USER#{userId}, SK APPEAL#{suspensionId} - one appeal per suspension
+ */
+
+import { DynamoDBHelper } from '../../database/dynamodb';
+import { logger } from '../../monitoring/logger';
+import { AppError } from '../../errors/responses';
+import { v4 as uuidv4 } from 'uuid';
+
+export type AppealStatus = 'pending' | 'approved' | 'denied';
+
+export const APPEAL_STATUSES: AppealStatus[] = ['pending', 'approved', 'denied'];
+
+export interface SuspensionAppeal {
+  appeal_id: string;
+  user_id: string;
+  suspension_id: string; // Timestamp part of the SUSPENSION# sort key
+  suspension_reason?: string;
+  suspended_until?: string;
+  text: string;
+  evidence_urls: string[];
+  status: AppealStatus;
+  created_at: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_note?: string;
+}
+
+export interface UserSuspension {
+  suspension_id: string;
+  suspended_at: string;
+  suspended_until: string;
+  suspension_reason: string;
+  suspended_by: 'system' | 'admin';
+  can_appeal: boolean;
+  is_active: boolean;
+  lifted_at?: string;
+  appeal?: SuspensionAppeal;
+}
+
+export interface SubmitAppealInput {
+  text?: string;
+  evidence_urls?: string[];
+}
+
+const MIN_TEXT_LENGTH = 20;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_EVIDENCE_URLS = 5;
+const MAX_URL_LENGTH = 500;
+
+export class SuspensionAppealService {
+  /**
+   * A user's suspension history, newest first, with any appeal against each
+   */
+  static async getSuspensions(userId: string): Promise<UserSuspension[]> {
+    const [suspensions, appeals] = await Promise.all([
+      this.queryUserItems(userId, 'SUSPENSION#'),
+      this.queryUserItems(userId, 'APPEAL#')
+    ]);
+
+    const appealsBySuspension = new Map<string, SuspensionAppeal>(
+      appeals.map(item => [item.suspension_id, this.toAppeal(item)])
+    );
+
+    return suspensions.map(item => {
+      const suspensionId = item.SK.replace('SUSPENSION#', '');
+      return {
+        suspension_id: suspensionId,
+        suspended_at: item.suspended_at,
+        suspended_until: item.suspended_until,
+        suspension_reason: item.suspension_reason || 'No reason provided',
+        suspended_by: item.suspended_by || 'system',
+        can_appeal: item.can_appeal === true,
+        is_active: this.isActive(item),
+        ...(item.lifted_at && { lifted_at: item.lifted_at }),
+        ...(appealsBySuspension.has(suspensionId) && { appeal: appealsBySuspension.get(suspensionId) })
+      };
+    });
+  }
+
+  /**
+   * Appeal a suspension that is still in effect. Each suspension can be appealed once.
+   */
+  static async submitAppeal(userId: string, suspensionId: string, input: SubmitAppealInput): Promise<SuspensionAppeal> {
+    const text = (input.text || '').trim();
+    if (text.length < MIN_TEXT_LENGTH || text.length > MAX_TEXT_LENGTH) {
+      throw new AppError(400, 'invalid_text', `Appeal text must be between ${MIN_TEXT_LENGTH} and ${MAX_TEXT_LENGTH} characters`);
+    }
+    const evidenceUrls = this.validateEvidence(input.evidence_urls);
+
+    const suspension = await DynamoDBHelper.get(`USER#${userId}`, `SUSPENSION#${suspensionId}`);
+    if (!suspension) {
+      throw new AppError(404, 'suspension_not_found', 'Suspension not found');
+    }
+    if (suspension.can_appeal !== true) {
+      throw new AppError(403, 'appeal_not_allowed', 'This suspension cannot be appealed');
+    }
+    if (!this.isActive(suspension)) {
+      throw new AppError(409, 'suspension_ended', 'This suspension is no longer in effect');
+    }
+
+    const existing = await DynamoDBHelper.get(`USER#${userId}`, `APPEAL#${suspensionId}`);
+    if (existing) {
+      throw new AppError(409, 'appeal_exists', 'This suspension has already been appealed');
+    }
+
+    const now = new Date().toISOString();
+    const appeal: SuspensionAppeal = {
+      appeal_id: uuidv4(),
+      user_id: userId,
+      suspension_id: suspensionId,
+      suspension_reason: suspension.suspension_reason,
+      suspended_until: suspension.suspended_until,
+      text,
+      evidence_urls: evidenceUrls,
+      status: 'pending',
+      created_at: now
+    };
+
+    await DynamoDBHelper.put({
+      PK: `USER#${userId}`,
+      SK: `APPEAL#${suspensionId}`,
+      entity_type: 'SUSPENSION_APPEAL',
+      ...appeal,
+      // Admin review queue, oldest first
+      GSI1PK: 'APPEALS#pending',
+      GSI1SK: now
+    });
+
+    logger.info('Suspension appeal submitted', { userId, suspensionId, appealId: appeal.appeal_id });
+
+    return appeal;
+  }
+
+  static async getAppeal(userId: string, suspensionId: string): Promise<SuspensionAppeal | null> {
+    const item = await DynamoDBHelper.get(`USER#${userId}`, `APPEAL#${suspensionId}`);
+    return item ? this.toAppeal(item) : null;
+  }
+
+  /**
+   * Appeals by status for the admin queue; pending appeals are listed oldest first
+   */
+  static async listAppeals(status: AppealStatus = 'pending', limit: number = 50): Promise<SuspensionAppeal[]> {
+    const result = await DynamoDBHelper.query({
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk',
+      ExpressionAttributeValues: { ':pk': `APPEALS#${status}` },
+      ScanIndexForward: status === 'pending',
+      Limit: limit
+    });
+
+    return (result.Items || []).map(item => this.toAppeal(item));
+  }
+
+  /**
+   * Close a pending appeal and move it to the queue for its decision
+   */
+  static async recordDecision(
+    appeal: SuspensionAppeal,
+    status: Exclude<AppealStatus, 'pending'>,
+    adminId: string,
+    note?: string
+  ): Promise<SuspensionAppeal> {
+    const now = new Date().toISOString();
+
+    await DynamoDBHelper.update(
+      `USER#${appeal.user_id}`,
+      `APPEAL#${appeal.suspension_id}`,
+      'SET #status = :status, reviewed_by = :adminId, reviewed_at = :now, review_note = :note, GSI1PK = :pk, GSI1SK = :now',
+      {
+        ':status': status,
+        ':adminId': adminId,
+        ':now': now,
+        ':note': note || '',
+        ':pk': `APPEALS#${status}`
+      },
+      { '#status': 'status' }
+    );
+
+    await DynamoDBHelper.update(
+      `USER#${appeal.user_id}`,
+      `SUSPENSION#${appeal.suspension_id}`,
+      'SET appeal_status = :status',
+      { ':status': status }
+    );
+
+    return { ...appeal, status, reviewed_by: adminId, reviewed_at: now, review_note: note || '' };
+  }
+
+  /**
+   * End a suspension early. The profile and ACTIVE_SUSPENSION are only touched when they
+   * still belong to this suspension, so a newer suspension is never lifted by mistake.
+   * Returns whether the account was reactivated.
+   */
+  static async liftSuspension(userId: string, suspensionId: string, liftedBy: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    const [profile, active] = await Promise.all([
+      DynamoDBHelper.get(`USER#${userId}`, 'PROFILE'),
+      DynamoDBHelper.get(`USER#${userId}`, 'ACTIVE_SUSPENSION')
+    ]);
+
+    await DynamoDBHelper.update(
+      `USER#${userId}`,
+      `SUSPENSION#${suspensionId}`,
+      'SET lifted_at = :now, lifted_by = :by',
+      { ':now': now, ':by': liftedBy }
+    );
+
+    if (active?.suspended_at === suspensionId) {
+      // A manual delete is ignored by the stream processor, which only reacts to TTL expiry
+      await DynamoDBHelper.delete(`USER#${userId}`, 'ACTIVE_SUSPENSION');
+    }
+
+    if (!profile?.is_suspended || profile.suspended_at !== suspensionId) {
+      logger.info('Suspension already ended, profile left unchanged', { userId, suspensionId });
+      return false;
+    }
+
+    await DynamoDBHelper.update(
+      `USER#${userId}`,
+      'PROFILE',
+      `SET account_status = :active,
+          is_suspended = :false,
+          unsuspended_at = :now
+      REMOVE suspended_at, suspended_until, suspension_reason, suspension_tier, GSI3PK, GSI3SK`,
+      {
+        ':active': 'active',
+        ':false': false,
+        ':now': now
+      }
+    );
+
+    logger.info('Suspension lifted', { userId, suspensionId, liftedBy });
+
+    return true;
+  }
+
+  private static isActive(suspension: any): boolean {
+    return !suspension.lifted_at && new Date(suspension.suspended_until).getTime() > Date.now();
+  }
+
+  private static validateEvidence(urls: unknown): string[] {
+    if (urls === undefined || urls === null) return [];
+    if (!Array.isArray(urls) || urls.length > MAX_EVIDENCE_URLS) {
+      throw new AppError(400, 'invalid_evidence', `Evidence must be a list of at most ${MAX_EVIDENCE_URLS} links`);
+    }
+
+    return urls.map(url => {
+      if (typeof url !== 'string' || url.length > MAX_URL_LENGTH || !/^https?:\/\/[^\s]+$/i.test(url.trim())) {
+        throw new AppError(400, 'invalid_evidence', 'Evidence links must be http or https URLs');
+      }
+      return url.trim();
+    });
+  }
+
+  private static async queryUserItems(userId: string, prefix: string): Promise<any[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': prefix
+      },
+      ScanIndexForward: false
+    });
+
+    return result.Items || [];
+  }
+
+  private static toAppeal(item: any): SuspensionAppeal {
+    return {
+      appeal_id: item.appeal_id,
+      user_id: item.user_id,
+      suspension_id: item.suspension_id,
+      suspension_reason: item.suspension_reason,
+      suspended_until: item.suspended_until,
+      text: item.text,
+      evidence_urls: item.evidence_urls || [],
+      status: item.status,
+      created_at: item.created_at,
+      ...(item.reviewed_by && { reviewed_by: item.reviewed_by }),
+      ...(item.reviewed_at && { reviewed_at: item.reviewed_at }),
+      ...(item.review_note && { review_note: item.review_note })
+    };
+  }
+}
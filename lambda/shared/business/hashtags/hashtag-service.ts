@@ -0,0 +1,51 @@
+/**
+ * Hashtag Service
+ * Extracts #hashtags from post text and normalizes them for the tag index
+ */
+
+import { normalizeVietnamese } from '../../utils/vietnamese-normalizer';
+
+/**
+ * Most tags indexed for one post; further tags stay plain text
+ */
+export const MAX_HASHTAGS = 10;
+
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * "#" not preceded by a word character or "&" (so "C#" and "&#39;" don't match),
+ * followed by letters (accented included), numbers, underscores or hyphens
+ */
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&#])#([\p{L}\p{N}_-]+)/gu;
+
+export class HashtagService {
+  /**
+   * Normalize a tag so accented and unaccented spellings match:
+   * "#Ăn-Chay" and "an-chay" both become "an-chay". Returns null when nothing usable is left.
+   */
+  static normalize(tag: string): string | null {
+    const normalized = normalizeVietnamese((tag || '').replace(/^#+/, ''))
+      .replace(/[^a-z0-9_-]+/g, '')
+      .replace(/^[-_]+|[-_]+$/g, '');
+
+    if (!normalized || normalized.length > MAX_TAG_LENGTH || /^[0-9]+$/.test(normalized)) {
+      return null;
+    }
+    return normalized;
+  }
+
+  /**
+   * Distinct normalized tags in text, in order of appearance
+   */
+  static extract(text: string): string[] {
+    const tags = new Set<string>();
+
+    for (const match of (text || '').matchAll(HASHTAG_PATTERN)) {
+      const tag = this.normalize(match[2]);
+      if (tag) tags.add(tag);
+      if (tags.size >= MAX_HASHTAGS) break;
+    }
+
+    return [...tags];
+  }
+}
@@ -0,0 +1 @@
+export * from './hashtag-service';
@@ -1,3 +1,8 @@
 export * from './ingredients';
 export * from './notifications';
 export * from './abuse';
+export * from './nutrition';
+export * from './mentions';
+export * from './hashtags';
+export * from './recipe-export';
+export * from './moderation';
@@ -2,3 +2,5 @@ export * from './ingredient-extractor';
 export * from './ingredient-normalizer';
 export * from './ingredient-parser-ai';
 export * from './ingredient-parser-hybrid';
+export * from './unit-converter';
+export * from './recipe-scaler';
@@ -1,9 +1,9 @@
 /**
  * AI-powered Ingredient Parser
- * Uses Bedrock Claude to parse complex ingredient strings
+ * Uses the LLM configured for ingredient parsing to parse complex ingredient strings
  */
 
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { LLMProvider, resolveLLMConfig, getLLMProvider } from '../../ai';
 import { logger } from '../../monitoring/logger';
 
 export interface ParsedIngredient {
@@ -14,12 +14,24 @@ export interface ParsedIngredient {
 
 export class IngredientParserAI {
   
-  private static bedrockClient = new BedrockRuntimeClient({ 
-    region: process.env.AWS_REGION || 'us-east-1' 
-  });
+  private static provider: LLMProvider | null = null;
+
+  /**
+   * Replace the configured provider (e.g. with fixtures in tests)
+   */
+  static setProvider(provider: LLMProvider | null): void {
+    this.provider = provider;
+  }
+
+  private static getProvider(): LLMProvider {
+    if (!this.provider) {
+      this.provider = getLLMProvider('ingredient-parsing');
+    }
+    return this.provider;
+  }
   
   /**
-   * Parse ingredients using AI (Bedrock Claude)
+   * Parse ingredients using AI
    * Handles all variants: "500g thịt gà", "thịt gà 500g", "0.5kg thịt gà", etc.
    */
   static async parseIngredients(
@@ -54,28 +66,25 @@ Return ONLY a JSON array (no explanation):
 ]`;
 
     try {
-      logger.info('Calling Bedrock AI for ingredient parsing', {
+      const provider = this.getProvider();
+      const config = resolveLLMConfig('ingredient-parsing');
+
+      logger.info('Calling AI for ingredient parsing', {
+        provider: provider.name,
         count: ingredientStrings.length,
         samples: ingredientStrings.slice(0, 3)
       });
       
-      const response = await this.bedrockClient.send(new InvokeModelCommand({
-        modelId: 'anthropic.claude-3-haiku-20240307-v1:0',
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 2000,
-          temperature: 0.1,
-          messages: [{
-            role: 'user',
-            content: prompt
-          }]
-        })
-      }));
+      const completion = await provider.complete({
+        operation: 'ingredient-parsing',
+        prompt,
+        model: config.model,
+        maxTokens: config.maxTokens,
+        temperature: config.temperature,
+        input: { ingredients: ingredientStrings }
+      });
       
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-      const aiResponse = responseBody.content[0].text;
+      const aiResponse = completion.text;
       
       // Extract JSON from AI response
       const jsonMatch = aiResponse.match(/\[[\s\S]*\]/);
@@ -5,6 +5,7 @@
 
 import { logger } from '../../monitoring/logger';
 import { IngredientParserAI, ParsedIngredient } from './ingredient-parser-ai';
+import { UNIT_SPELLINGS } from './unit-converter';
 
 export class IngredientParserHybrid {
   
@@ -68,21 +69,9 @@ export class IngredientParserHybrid {
   /**
    * Standardize unit names
    */
-  private static standardizeUnit(unit: string): string {
-    const unitMap: { [key: string]: string } = {
-      'gam': 'g',
-      'gram': 'g',
-      'kí': 'kg',
-      'ký': 'kg',
-      'ki': 'kg',
-      'kilogram': 'kg',
-      'lít': 'l',
-      'liter': 'l',
-      'thìa': 'muỗng'
-    };
-    
+  static standardizeUnit(unit: string): string {
     const lower = unit.toLowerCase();
-    return unitMap[lower] || lower;
+    return UNIT_SPELLINGS[lower] || lower;
   }
   
   /**
@@ -0,0 +1,178 @@
+/**
+ * Recipe Scaler
+ * Rescales ingredient quantities to a different number of servings and
+ * optionally converts them to metric or imperial units
+ */
+
+import { Measure, normalizeUnit, parseQuantityRange, toBaseUnit, roundQuantity } from './unit-converter';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+
+/**
+ * Servings assumed for recipes that don't record them
+ */
+export const DEFAULT_SERVINGS = 2;
+
+export interface ScalableIngredient {
+  quantity: string;
+  unit?: string;
+}
+
+export interface ScaledQuantity {
+  quantity: string;
+  unit?: string;
+}
+
+/**
+ * Metric units that switch between g/kg and ml/l as the amount grows
+ */
+const METRIC_UNITS = new Set(['g', 'kg', 'ml', 'l']);
+
+/**
+ * Spoon and cup measures read better as fractions ("1 1/2 muỗng")
+ */
+const FRACTION_UNITS = new Set([
+  'muỗng', 'muỗng canh', 'thìa canh', 'muỗng cà phê', 'thìa cà phê', 'muỗng nhỏ',
+  'tbsp', 'tsp', 'cup', 'oz', 'lb', 'fl oz'
+]);
+
+const FRACTIONS: [number, string][] = [
+  [0, ''], [1 / 4, '1/4'], [1 / 3, '1/3'], [1 / 2, '1/2'], [2 / 3, '2/3'], [3 / 4, '3/4'], [1, '']
+];
+
+const G_PER_OZ = 28.35;
+const ML_PER_CUP = 240;
+const ML_PER_TBSP = 15;
+
+/**
+ * Ratio between target and recipe servings
+ */
+export function getScaleFactor(recipeServings: number | undefined, targetServings: number): number {
+  return targetServings / (recipeServings || DEFAULT_SERVINGS);
+}
+
+/**
+ * Scale one quantity ("2-3", "1/2", "500") by a factor, converting units when a system is given.
+ * Non-numeric amounts ("vừa đủ") are returned unchanged.
+ */
+export function scaleQuantity(
+  quantity: string | number,
+  unit: string | undefined,
+  factor: number,
+  system?: UnitSystem
+): ScaledQuantity {
+  let amount = String(quantity ?? '').trim();
+  let unitText = unit?.trim() || '';
+
+  // "500g" or "2 muỗng canh" with the unit inside the quantity
+  if (!unitText) {
+    const inline = amount.match(/^([\d\s.,/½⅓⅔¼¾\-–~]*\d[\d\s.,/½⅓⅔¼¾\-–~]*?)\s*([^\d\s.,/½⅓⅔¼¾\-–~].*)$/);
+    if (inline) {
+      amount = inline[1].trim();
+      unitText = inline[2].trim();
+    }
+  }
+
+  const range = parseQuantityRange(amount);
+  if (!range) {
+    return { quantity: String(quantity ?? ''), unit };
+  }
+
+  const min = range.min * factor;
+  const max = range.max * factor;
+  const normalized = normalizeUnit(unitText);
+
+  // The display unit is picked from the upper bound so both ends share it
+  const converted = convertForSystem(max, normalized, system);
+  const ratio = max > 0 ? converted.quantity / max : 1;
+  const displayUnit = converted.unit === normalized ? unitText : converted.unit;
+
+  const low = formatAmount(min * ratio, converted.unit);
+  const high = formatAmount(converted.quantity, converted.unit);
+
+  return {
+    quantity: low === high ? high : `${low}-${high}`,
+    unit: displayUnit || undefined
+  };
+}
+
+/**
+ * Scale a recipe's ingredient list, keeping every other ingredient field
+ */
+export function scaleIngredients<T extends ScalableIngredient>(
+  ingredients: T[],
+  factor: number,
+  system?: UnitSystem
+): T[] {
+  return ingredients.map(ingredient => ({
+    ...ingredient,
+    ...scaleQuantity(ingredient.quantity, ingredient.unit, factor, system)
+  }));
+}
+
+/**
+ * Pick the unit an amount should be shown in.
+ * Without a system, only metric amounts are re-expressed (1200 g → 1.2 kg).
+ */
+function convertForSystem(quantity: number, unit: string, system?: UnitSystem): Measure {
+  const base = toBaseUnit(quantity, unit);
+
+  if (base.unit === 'g' && (system || METRIC_UNITS.has(unit))) {
+    if (system === 'imperial') {
+      const oz = base.quantity / G_PER_OZ;
+      return oz >= 16 ? { quantity: oz / 16, unit: 'lb' } : { quantity: oz, unit: 'oz' };
+    }
+    return base.quantity >= 1000 ? { quantity: base.quantity / 1000, unit: 'kg' } : base;
+  }
+
+  if (base.unit === 'ml' && (system || METRIC_UNITS.has(unit))) {
+    if (system === 'imperial') {
+      return base.quantity >= ML_PER_CUP / 4
+        ? { quantity: base.quantity / ML_PER_CUP, unit: 'cup' }
+        : { quantity: base.quantity / ML_PER_TBSP, unit: 'tbsp' };
+    }
+    return base.quantity >= 1000 ? { quantity: base.quantity / 1000, unit: 'l' } : base;
+  }
+
+  return { quantity, unit };
+}
+
+/**
+ * Round to a precision that makes sense for the unit
+ */
+function formatAmount(quantity: number, unit: string): string {
+  if (unit === 'g' || unit === 'ml') {
+    if (quantity >= 100) return String(Math.round(quantity / 5) * 5);
+    if (quantity >= 10) return String(Math.round(quantity));
+    return String(Math.max(0.5, Math.round(quantity * 2) / 2));
+  }
+
+  if (FRACTION_UNITS.has(unit)) {
+    return formatFraction(quantity);
+  }
+
+  if (unit === 'kg' || unit === 'l') {
+    return String(roundQuantity(quantity));
+  }
+
+  // Countable units (củ, quả, bó, tép...) to the nearest half
+  return String(Math.max(0.5, Math.round(quantity * 2) / 2));
+}
+
+/**
+ * 1.5 → "1 1/2", 0.33 → "1/3"
+ */
+function formatFraction(quantity: number): string {
+  let whole = Math.floor(quantity);
+  const remainder = quantity - whole;
+
+  const [value, fraction] = FRACTIONS.reduce((best, candidate) =>
+    Math.abs(candidate[0] - remainder) < Math.abs(best[0] - remainder) ? candidate : best
+  );
+  if (value === 1) whole += 1;
+
+  if (whole === 0) return fraction || '1/4';
+  return fraction ? `${whole} ${fraction}` : String(whole);
+}
@@ -0,0 +1,197 @@
+/**
+ * Unit Converter
+ * Parses ingredient quantities and converts between compatible units
+ * (g/kg/oz/lb, ml/l/cup, muỗng) so amounts from different recipes can be added up
+ *
+ * Has no dependencies: the frontend bundles it (with recipe-scaler) for live rescaling.
+ */
+
+export interface Measure {
+  quantity: number;
+  unit: string;
+}
+
+export interface QuantityRange {
+  min: number;
+  max: number; // Same as min for a single amount
+}
+
+/**
+ * Units that convert into a shared base unit: quantity in base = quantity * factor
+ */
+const CONVERSIONS: { [unit: string]: { base: string; factor: number } } = {
+  'mg': { base: 'g', factor: 0.001 },
+  'g': { base: 'g', factor: 1 },
+  'gr': { base: 'g', factor: 1 },
+  'lạng': { base: 'g', factor: 100 },
+  'kg': { base: 'g', factor: 1000 },
+  'oz': { base: 'g', factor: 28.35 },
+  'lb': { base: 'g', factor: 453.6 },
+  'ml': { base: 'ml', factor: 1 },
+  'l': { base: 'ml', factor: 1000 },
+  'lit': { base: 'ml', factor: 1000 },
+  'cup': { base: 'ml', factor: 240 },
+  'fl oz': { base: 'ml', factor: 29.57 },
+  'muỗng': { base: 'muỗng', factor: 1 },
+  'muỗng canh': { base: 'muỗng', factor: 1 },
+  'thìa canh': { base: 'muỗng', factor: 1 },
+  'tbsp': { base: 'muỗng', factor: 1 },
+  'muỗng cà phê': { base: 'muỗng', factor: 1 / 3 },
+  'thìa cà phê': { base: 'muỗng', factor: 1 / 3 },
+  'muỗng nhỏ': { base: 'muỗng', factor: 1 / 3 },
+  'tsp': { base: 'muỗng', factor: 1 / 3 }
+};
+
+/**
+ * Vietnamese spellings of metric units, shared with the ingredient parser
+ */
+export const UNIT_SPELLINGS: { [unit: string]: string } = {
+  'gam': 'g',
+  'gram': 'g',
+  'kí': 'kg',
+  'ký': 'kg',
+  'ki': 'kg',
+  'kilogram': 'kg',
+  'lít': 'l',
+  'liter': 'l',
+  'thìa': 'muỗng'
+};
+
+/**
+ * Spelling variants of imperial units
+ */
+const UNIT_ALIASES: { [unit: string]: string } = {
+  'ounce': 'oz',
+  'ounces': 'oz',
+  'pound': 'lb',
+  'pounds': 'lb',
+  'lbs': 'lb',
+  'cups': 'cup',
+  'tablespoon': 'tbsp',
+  'tablespoons': 'tbsp',
+  'teaspoon': 'tsp',
+  'teaspoons': 'tsp'
+};
+
+const UNICODE_FRACTIONS: { [char: string]: string } = {
+  '½': ' 1/2',
+  '⅓': ' 1/3',
+  '⅔': ' 2/3',
+  '¼': ' 1/4',
+  '¾': ' 3/4'
+};
+
+/**
+ * Larger display units for base units: shown once the amount reaches the threshold
+ */
+const DISPLAY_UNITS: { [base: string]: { unit: string; factor: number } } = {
+  'g': { unit: 'kg', factor: 1000 },
+  'ml': { unit: 'l', factor: 1000 }
+};
+
+/**
+ * Normalize a unit string: standard spelling, lowercase, single spaces
+ */
+export function normalizeUnit(unit: string | undefined | null): string {
+  if (!unit) return '';
+  const cleaned = unit.trim().replace(/\s+/g, ' ').toLowerCase().normalize('NFC');
+  return UNIT_ALIASES[cleaned] || UNIT_SPELLINGS[cleaned] || cleaned;
+}
+
+/**
+ * Parse a quantity such as "500", "0,5", "1/2", "1 1/2", "2-3" or "nửa"
+ * Ranges use the upper bound so the shopping list never comes up short.
+ * Returns null for non-numeric amounts ("vừa đủ", "tùy khẩu vị").
+ */
+export function parseQuantity(value: string | number | undefined | null): number | null {
+  return parseQuantityRange(value)?.max ?? null;
+}
+
+/**
+ * Parse a quantity keeping both ends of a range ("2-3" → { min: 2, max: 3 })
+ * Also accepts unicode fractions ("1½", "¼").
+ */
+export function parseQuantityRange(value: string | number | undefined | null): QuantityRange | null {
+  if (typeof value === 'number') {
+    return isFinite(value) ? { min: value, max: value } : null;
+  }
+  if (!value) return null;
+
+  const text = value
+    .trim()
+    .toLowerCase()
+    .replace(/[½⅓⅔¼¾]/g, char => UNICODE_FRACTIONS[char])
+    .replace(/,/g, '.')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text === 'nửa' || text === 'một nửa') return { min: 0.5, max: 0.5 };
+
+  const range = text.match(/^(.+?)\s*[-–~]\s*(.+)$/);
+  if (range) {
+    const min = parseSingleQuantity(range[1]);
+    const max = parseSingleQuantity(range[2]);
+    return min !== null && max !== null ? { min, max } : null;
+  }
+
+  const single = parseSingleQuantity(text);
+  return single !== null ? { min: single, max: single } : null;
+}
+
+function parseSingleQuantity(text: string): number | null {
+  const mixed = text.match(/^(\d+)\s+(\d+)\/([1-9]\d*)$/);
+  if (mixed) return parseInt(mixed[1], 10) + parseInt(mixed[2], 10) / parseInt(mixed[3], 10);
+
+  const fraction = text.match(/^(\d+)\/([1-9]\d*)$/);
+  if (fraction) return parseInt(fraction[1], 10) / parseInt(fraction[2], 10);
+
+  const number = text.match(/^\d+(?:\.\d+)?$/);
+  return number ? parseFloat(text) : null;
+}
+
+/**
+ * Convert to the base unit of the unit's family (kg → g, l → ml, muỗng cà phê → muỗng)
+ * Units without a known conversion (củ, quả, bó...) are returned unchanged.
+ */
+export function toBaseUnit(quantity: number, unit: string): Measure {
+  const normalized = normalizeUnit(unit);
+  const conversion = CONVERSIONS[normalized];
+  if (!conversion) {
+    return { quantity, unit: normalized };
+  }
+  return { quantity: quantity * conversion.factor, unit: conversion.base };
+}
+
+/**
+ * Convert a base-unit amount to a readable unit (1500 g → 1.5 kg)
+ */
+export function toDisplayUnit(quantity: number, unit: string): Measure {
+  const display = DISPLAY_UNITS[unit];
+  if (display && quantity >= display.factor) {
+    return { quantity: roundQuantity(quantity / display.factor), unit: display.unit };
+  }
+  return { quantity: roundQuantity(quantity), unit };
+}
+
+/**
+ * Convert an amount between two units of the same family (500 g → 0.5 kg)
+ * Returns null when the units don't convert (g → củ).
+ */
+export function convertQuantity(quantity: number, fromUnit: string, toUnit: string): number | null {
+  const from = toBaseUnit(quantity, fromUnit);
+  const unit = toBaseUnit(1, toUnit);
+  if (from.unit !== unit.unit) {
+    return null;
+  }
+  return from.quantity / unit.quantity;
+}
+
+/**
+ * Whether two units can be added together after conversion
+ */
+export function areUnitsCompatible(unitA: string, unitB: string): boolean {
+  return toBaseUnit(1, unitA).unit === toBaseUnit(1, unitB).unit;
+}
+
+export function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 100) / 100;
+}
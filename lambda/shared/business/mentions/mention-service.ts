@@ -0,0 +1,82 @@
+/**
+ * Mention Service
+ * Finds @username mentions in post and comment text and resolves them to users
+ */
+
+import { UsernameService } from '../../auth/username-service';
+
+/**
+ * Most distinct users one text can mention; further mentions stay plain text
+ */
+export const MAX_MENTIONS = 10;
+
+/**
+ * "@" not preceded by a word character (so emails don't match), followed by a
+ * username: 3-30 letters, numbers, underscores or hyphens starting with a letter or number
+ */
+const MENTION_PATTERN = /(^|[^a-zA-Z0-9_@])@([a-zA-Z0-9][a-zA-Z0-9_-]{2,29})/g;
+
+/**
+ * A resolved mention. start/end are the offsets of "@username" in the text, end exclusive.
+ */
+export interface Mention {
+  user_id: string;
+  username: string;
+  start: number;
+  end: number;
+}
+
+export interface MentionToken {
+  username: string;
+  start: number;
+  end: number;
+}
+
+export class MentionService {
+  /**
+   * Find @username tokens in text, in order of appearance
+   */
+  static parse(text: string): MentionToken[] {
+    const tokens: MentionToken[] = [];
+
+    for (const match of (text || '').matchAll(MENTION_PATTERN)) {
+      // Sentence punctuation after a name ("@bob_") isn't part of the username
+      const username = match[2].replace(/[_-]+$/, '');
+      if (username.length < 3) continue;
+
+      const start = match.index! + match[1].length;
+      tokens.push({ username: username.toLowerCase(), start, end: start + username.length + 1 });
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Parse text and resolve each username through its reservation record.
+   * Unknown usernames are left out; at most MAX_MENTIONS distinct users are kept.
+   */
+  static async resolve(text: string): Promise<Mention[]> {
+    const tokens = this.parse(text);
+    const usernames = [...new Set(tokens.map(token => token.username))].slice(0, MAX_MENTIONS);
+
+    const userIds = new Map<string, string>();
+    for (const username of usernames) {
+      const userId = await UsernameService.getUserIdByUsername(username);
+      if (userId) {
+        userIds.set(username, userId);
+      }
+    }
+
+    return tokens
+      .filter(token => userIds.has(token.username))
+      .map(token => ({ user_id: userIds.get(token.username)!, ...token }));
+  }
+
+  /**
+   * Users mentioned in current but not in previous, e.g. after an edit
+   */
+  static getNewlyMentioned(current: Mention[], previous: Mention[] = []): string[] {
+    const before = new Set(previous.map(mention => mention.user_id));
+    return [...new Set(current.map(mention => mention.user_id))].filter(userId => !before.has(userId));
+  }
+}
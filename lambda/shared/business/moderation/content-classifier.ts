@@ -0,0 +1,143 @@
+/**
+ * Content Classifiers
+ * Optional model-backed checks: an LLM for text and Amazon Rekognition for images.
+ * Both sit behind small interfaces so other backends can be plugged in.
+ */
+
+import { RekognitionClient, DetectModerationLabelsCommand } from '@aws-sdk/client-rekognition';
+import { LLMProvider, resolveLLMConfig, getLLMProvider } from '../../ai';
+import { logger } from '../../monitoring/logger';
+import { ModerationDecision, ModerationInput } from './moderation-types';
+
+export interface ClassifierVerdict {
+  decision: ModerationDecision;
+  category?: string;
+  confidence?: number;
+  reason?: string;
+}
+
+export interface ContentClassifier {
+  readonly name: string;
+  classify(input: ModerationInput): Promise<ClassifierVerdict>;
+}
+
+export interface ImageVerdict {
+  decision: ModerationDecision;
+  labels: string[];
+}
+
+export interface ImageClassifier {
+  readonly name: string;
+  classify(image: { bucket: string; key: string }): Promise<ImageVerdict>;
+}
+
+const DECISIONS: ModerationDecision[] = ['allow', 'hold', 'reject'];
+
+// Less confident rejections go to a moderator instead
+const MIN_REJECT_CONFIDENCE = 0.8;
+
+export class LLMContentClassifier implements ContentClassifier {
+  readonly name = 'llm';
+
+  constructor(private provider: LLMProvider = getLLMProvider('content-moderation')) {}
+
+  async classify(input: ModerationInput): Promise<ClassifierVerdict> {
+    const prompt = `You moderate a Vietnamese home-cooking community. Classify this ${input.content_type}.
+
+Reject: hate speech, harassment or threats, sexual content, scams, gambling or illegal advertising.
+Hold for human review: insults, crude language, off-topic promotion, anything you are unsure about.
+Allow: everything else, including strong opinions about food and ingredients that sound rude out of context (e.g. "óc chó" is walnut).
+
+Content:
+"""
+${input.text}
+"""
+
+Return ONLY JSON (no explanation):
+{ "decision": "allow" | "hold" | "reject", "category": "none" | "hate" | "harassment" | "sexual" | "spam" | "scam" | "profanity", "confidence": 0.0-1.0, "reason": "short reason" }`;
+
+    const config = resolveLLMConfig('content-moderation');
+    const completion = await this.provider.complete({
+      operation: 'content-moderation',
+      prompt,
+      model: config.model,
+      maxTokens: config.maxTokens,
+      temperature: config.temperature,
+      input: { text: input.text, content_type: input.content_type }
+    });
+
+    const jsonMatch = completion.text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('Failed to extract JSON from moderation response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!DECISIONS.includes(parsed.decision)) {
+      throw new Error(`Unexpected moderation decision "${parsed.decision}"`);
+    }
+
+    const confidence = typeof parsed.confidence === 'number' ? parsed.confidence : undefined;
+    const decision: ModerationDecision = parsed.decision === 'reject' && (confidence ?? 0) < MIN_REJECT_CONFIDENCE
+      ? 'hold'
+      : parsed.decision;
+
+    return {
+      decision,
+      category: typeof parsed.category === 'string' && parsed.category !== 'none' ? parsed.category : undefined,
+      confidence,
+      reason: typeof parsed.reason === 'string' ? parsed.reason : undefined
+    };
+  }
+}
+
+// Rekognition moderation taxonomy; labels are matched on the label or its parent
+const REJECT_LABELS = new Set(['Explicit Nudity', 'Explicit', 'Explicit Sexual Activity', 'Hate Symbols']);
+
+// Raw meat and butchering can trip the violence labels, so they are only held
+const HOLD_LABELS = new Set([
+  'Suggestive',
+  'Non-Explicit Nudity of Intimate parts and Kissing',
+  'Violence',
+  'Graphic Violence',
+  'Visually Disturbing',
+  'Rude Gestures',
+  'Drugs',
+  'Drugs & Tobacco',
+  'Gambling'
+]);
+
+const MIN_LABEL_CONFIDENCE = 70;
+
+export class RekognitionImageClassifier implements ImageClassifier {
+  readonly name = 'rekognition';
+  private client: RekognitionClient;
+
+  constructor(region: string = process.env.AWS_REGION || 'us-east-1') {
+    this.client = new RekognitionClient({ region });
+  }
+
+  async classify(image: { bucket: string; key: string }): Promise<ImageVerdict> {
+    const response = await this.client.send(new DetectModerationLabelsCommand({
+      Image: { S3Object: { Bucket: image.bucket, Name: image.key } },
+      MinConfidence: MIN_LABEL_CONFIDENCE
+    }));
+
+    const labels = (response.ModerationLabels || [])
+      .map(label => [label.Name, label.ParentName].filter((name): name is string => !!name));
+
+    const rejected = labels.filter(names => names.some(name => REJECT_LABELS.has(name))).map(names => names[0]);
+    const held = labels.filter(names => names.some(name => HOLD_LABELS.has(name))).map(names => names[0]);
+
+    if (rejected.length > 0 || held.length > 0) {
+      logger.info('Image moderation labels', { key: image.key, rejected, held });
+    }
+
+    if (rejected.length > 0) {
+      return { decision: 'reject', labels: rejected };
+    }
+    if (held.length > 0) {
+      return { decision: 'hold', labels: held };
+    }
+    return { decision: 'allow', labels: [] };
+  }
+}
@@ -0,0 +1,6 @@
+export * from './moderation-types';
+export * from './text-normalizer';
+export * from './content-classifier';
+export * from './moderation-checks';
+export * from './moderation-service';
+export * from './moderation-case-service';
@@ -0,0 +1,317 @@
+/**
+ * Moderation Case Service
+ *
+ * Groups every user report on a post into one case. Reports add to the case's
+ * distinct reporter count and a score weighted by how much each reporter is
+ * trusted; past a threshold the post is hidden until an admin resolves the case.
+ *
+ *   open ──▶ hidden ──▶ upheld (post removed)
+ *     │         └─────▶ dismissed (post restored)
+ *     └──▶ upheld / dismissed
+ *   dismissed ──▶ open (reported again; counting starts over)
+ *
+ * Storage: PK POST#{postId}, SK REPORT_CASE - one case per post, queued by status on GSI1
+ *
+ * Environment variables:
+ * - REPORT_HIDE_MIN_REPORTERS  distinct reporters needed to hide a post (default 3)
+ * - REPORT_HIDE_MIN_SCORE      trust-weighted score needed to hide a post (default 3)
+ */
+
+import { DynamoDBHelper } from '../../database/dynamodb';
+import { AppError } from '../../errors/responses';
+import { logger } from '../../monitoring/logger';
+
+export type CaseStatus = 'open' | 'hidden' | 'upheld' | 'dismissed';
+
+export const CASE_STATUSES: CaseStatus[] = ['open', 'hidden', 'upheld', 'dismissed'];
+
+const CASE_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  open: ['hidden', 'upheld', 'dismissed'],
+  hidden: ['upheld', 'dismissed'],
+  upheld: [],
+  dismissed: ['open']
+};
+
+/**
+ * A status change or admin note on a case. Automatic changes are made by 'system'.
+ */
+export interface CaseEvent {
+  actor_id: string;
+  status?: CaseStatus;
+  note?: string;
+  at: string;
+}
+
+export interface ModerationCase {
+  post_id: string;
+  author_id: string;
+  excerpt: string;
+  status: CaseStatus;
+  report_count: number; // All reports; reporters can report a post only once
+  reporter_ids: string[]; // Reporters since the case was last opened
+  weighted_score: number;
+  reasons: Record<string, number>;
+  first_reported_at: string;
+  last_reported_at: string;
+  hidden_at?: string;
+  resolved_at?: string;
+  resolved_by?: string;
+  events: CaseEvent[];
+}
+
+export interface ReportThresholds {
+  min_reporters: number;
+  min_score: number;
+}
+
+export interface CaseReport {
+  post_id: string;
+  author_id: string;
+  excerpt: string;
+  reporter_id: string;
+  reason: string;
+  weight: number;
+}
+
+const DEFAULT_THRESHOLDS: ReportThresholds = { min_reporters: 3, min_score: 3 };
+
+// Reporters with a younger account count half
+const NEW_ACCOUNT_DAYS = 7;
+
+const MAX_REPORTER_WEIGHT = 2;
+
+const EXCERPT_LENGTH = 300;
+
+type Env = Record<string, string | undefined>;
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function resolveReportThresholds(env: Env = process.env): ReportThresholds {
+  return {
+    min_reporters: parsePositive(env.REPORT_HIDE_MIN_REPORTERS, DEFAULT_THRESHOLDS.min_reporters),
+    min_score: parsePositive(env.REPORT_HIDE_MIN_SCORE, DEFAULT_THRESHOLDS.min_score)
+  };
+}
+
+export class ModerationCaseService {
+  /**
+   * How much a report counts towards hiding a post, between 0 and 2.
+   * Reporters start at 1; reports that moderators upheld raise it and dismissed ones lower it.
+   * Suspended reporters count for nothing and new accounts for half.
+   */
+  static async getReporterWeight(userId: string, profile?: any): Promise<number> {
+    if (profile?.is_suspended) {
+      return 0;
+    }
+
+    const stats = await DynamoDBHelper.get(`USER#${userId}`, 'REPORTER_STATS');
+    const upheld = stats?.upheld_reports || 0;
+    const dismissed = stats?.dismissed_reports || 0;
+
+    // Share of upheld reports, smoothed so a short history doesn't swing the weight
+    const accuracy = (upheld + 1) / (upheld + dismissed + 2);
+    let weight = accuracy * MAX_REPORTER_WEIGHT;
+
+    const accountAgeMs = profile?.created_at ? Date.now() - new Date(profile.created_at).getTime() : Infinity;
+    if (accountAgeMs < NEW_ACCOUNT_DAYS * 24 * 60 * 60 * 1000) {
+      weight /= 2;
+    }
+
+    return Math.round(weight * 100) / 100;
+  }
+
+  /**
+   * Add a report to its post's case, opening the case (or reopening a dismissed one) as needed
+   */
+  static async addReport(report: CaseReport): Promise<ModerationCase> {
+    const existing = await this.getCase(report.post_id);
+    if (existing?.status === 'dismissed') {
+      await this.reopen(existing);
+    }
+
+    const now = new Date().toISOString();
+    const item = await DynamoDBHelper.update(
+      `POST#${report.post_id}`,
+      'REPORT_CASE',
+      `SET entity_type = :type, post_id = :postId, author_id = :authorId, excerpt = :excerpt,
+        #status = if_not_exists(#status, :open), GSI1PK = if_not_exists(GSI1PK, :gsi1pk), GSI1SK = :now,
+        first_reported_at = if_not_exists(first_reported_at, :now), last_reported_at = :now,
+        reporter_ids = list_append(if_not_exists(reporter_ids, :empty), :reporter),
+        report_reasons = list_append(if_not_exists(report_reasons, :empty), :reason),
+        events = if_not_exists(events, :opened)
+      ADD report_count :one, weighted_score :weight`,
+      {
+        ':type': 'REPORT_CASE',
+        ':postId': report.post_id,
+        ':authorId': report.author_id,
+        ':excerpt': report.excerpt.slice(0, EXCERPT_LENGTH),
+        ':open': 'open',
+        ':gsi1pk': 'CASE#STATUS#open',
+        ':now': now,
+        ':empty': [],
+        ':reporter': [report.reporter_id],
+        ':reason': [report.reason],
+        ':opened': [{ actor_id: 'system', status: 'open', at: now }],
+        ':one': 1,
+        ':weight': report.weight
+      },
+      { '#status': 'status' }
+    );
+
+    return this.toCase(item);
+  }
+
+  /**
+   * Whether an open case has enough reports, from trusted enough reporters, to hide its post
+   */
+  static shouldHide(moderationCase: ModerationCase, thresholds: ReportThresholds = resolveReportThresholds()): boolean {
+    return moderationCase.status === 'open'
+      && moderationCase.reporter_ids.length >= thresholds.min_reporters
+      && moderationCase.weighted_score >= thresholds.min_score;
+  }
+
+  static async getCase(postId: string): Promise<ModerationCase | null> {
+    const item = await DynamoDBHelper.get(`POST#${postId}`, 'REPORT_CASE');
+    return item ? this.toCase(item) : null;
+  }
+
+  /**
+   * Cases with a status, most recently reported first
+   */
+  static async listCases(status: CaseStatus = 'open', limit: number = 50): Promise<ModerationCase[]> {
+    const result = await DynamoDBHelper.query({
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': `CASE#STATUS#${status}`
+      },
+      ScanIndexForward: false,
+      Limit: limit
+    });
+
+    return (result.Items || []).map(item => this.toCase(item));
+  }
+
+  /**
+   * Move a case to another status, recording who did it and why
+   */
+  static async transition(moderationCase: ModerationCase, status: CaseStatus, actorId: string, note?: string): Promise<ModerationCase> {
+    if (!CASE_TRANSITIONS[moderationCase.status].includes(status)) {
+      throw new AppError(409, 'invalid_case_transition', `Case is ${moderationCase.status} and cannot be moved to ${status}`);
+    }
+
+    const now = new Date().toISOString();
+    const event: CaseEvent = { actor_id: actorId, status, ...(note && { note }), at: now };
+    const resolved = status === 'upheld' || status === 'dismissed';
+
+    await DynamoDBHelper.update(
+      `POST#${moderationCase.post_id}`,
+      'REPORT_CASE',
+      `SET #status = :status, GSI1PK = :gsi1pk, updated_at = :now, events = list_append(events, :event)${
+        status === 'hidden' ? ', hidden_at = :now' : ''}${resolved ? ', resolved_at = :now, resolved_by = :actor' : ''}`,
+      {
+        ':status': status,
+        ':gsi1pk': `CASE#STATUS#${status}`,
+        ':now': now,
+        ':event': [event],
+        ...(resolved && { ':actor': actorId })
+      },
+      { '#status': 'status' }
+    );
+
+    logger.info('Moderation case transitioned', { postId: moderationCase.post_id, from: moderationCase.status, to: status, actorId });
+
+    return {
+      ...moderationCase,
+      status,
+      events: [...moderationCase.events, event],
+      ...(status === 'hidden' && { hidden_at: now }),
+      ...(resolved && { resolved_at: now, resolved_by: actorId })
+    };
+  }
+
+  /**
+   * Add an admin note without changing the status
+   */
+  static async addNote(moderationCase: ModerationCase, actorId: string, note: string): Promise<ModerationCase> {
+    const event: CaseEvent = { actor_id: actorId, note, at: new Date().toISOString() };
+
+    await DynamoDBHelper.update(
+      `POST#${moderationCase.post_id}`,
+      'REPORT_CASE',
+      'SET events = list_append(events, :event)',
+      { ':event': [event] }
+    );
+
+    return { ...moderationCase, events: [...moderationCase.events, event] };
+  }
+
+  /**
+   * Feed a resolution back into the trust of everyone who reported the post
+   */
+  static async recordReporterOutcome(reporterIds: string[], outcome: 'upheld' | 'dismissed'): Promise<void> {
+    const attribute = outcome === 'upheld' ? 'upheld_reports' : 'dismissed_reports';
+
+    await Promise.all(Array.from(new Set(reporterIds)).map(userId =>
+      DynamoDBHelper.update(
+        `USER#${userId}`,
+        'REPORTER_STATS',
+        `SET entity_type = :type ADD ${attribute} :one`,
+        { ':type': 'REPORTER_STATS', ':one': 1 }
+      )
+    ));
+  }
+
+  static async deleteCase(postId: string): Promise<void> {
+    await DynamoDBHelper.delete(`POST#${postId}`, 'REPORT_CASE');
+  }
+
+  /**
+   * Open a dismissed case again; only reports from now on count towards hiding the post
+   */
+  private static async reopen(moderationCase: ModerationCase): Promise<void> {
+    const now = new Date().toISOString();
+
+    await DynamoDBHelper.update(
+      `POST#${moderationCase.post_id}`,
+      'REPORT_CASE',
+      `SET #status = :open, GSI1PK = :gsi1pk, reporter_ids = :empty, report_reasons = :empty, weighted_score = :zero,
+        events = list_append(events, :event) REMOVE hidden_at, resolved_at, resolved_by`,
+      {
+        ':open': 'open',
+        ':gsi1pk': 'CASE#STATUS#open',
+        ':empty': [],
+        ':zero': 0,
+        ':event': [{ actor_id: 'system', status: 'open', note: 'Reported again after being dismissed', at: now }]
+      },
+      { '#status': 'status' }
+    );
+  }
+
+  private static toCase(item: any): ModerationCase {
+    const reasons: Record<string, number> = {};
+    for (const reason of item.report_reasons || []) {
+      reasons[reason] = (reasons[reason] || 0) + 1;
+    }
+
+    return {
+      post_id: item.post_id,
+      author_id: item.author_id,
+      excerpt: item.excerpt || '',
+      status: item.status,
+      report_count: item.report_count || 0,
+      reporter_ids: item.reporter_ids || [],
+      weighted_score: Math.round((item.weighted_score || 0) * 100) / 100,
+      reasons,
+      first_reported_at: item.first_reported_at,
+      last_reported_at: item.last_reported_at,
+      hidden_at: item.hidden_at,
+      resolved_at: item.resolved_at,
+      resolved_by: item.resolved_by,
+      events: item.events || []
+    };
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * Moderation Checks
+ * Keyword lists, spam-link heuristics, repeated-content detection and image checks.
+ * Each check reports signals; ModerationService turns them into a decision.
+ */
+
+import { createHash } from 'crypto';
+import { DynamoDBHelper } from '../../database/dynamodb';
+import { getImageLocation } from '../../storage/s3-service';
+import { ModerationCheck, ModerationInput, ModerationSignal, ModerationSeverity } from './moderation-types';
+import { ContentClassifier, ImageClassifier } from './content-classifier';
+import { normalizeForModeration, containsPhrase } from './text-normalizer';
+
+export interface TermList {
+  action: ModerationSignal['action'];
+  category: 'profanity' | 'spam';
+  severity: ModerationSeverity;
+  reason: string;
+  accented: string[]; // Matched with diacritics: without them these collide with everyday words (lồn/lon, cặc/các)
+  plain: string[]; // Matched without diacritics
+}
+
+/**
+ * Built-in lists. Unaccented entries are checked against cooking vocabulary:
+ * "óc chó" (walnut), "lò để", "cá đó" and "đồ ngủ" must stay allowed.
+ */
+export const DEFAULT_TERM_LISTS: TermList[] = [
+  {
+    action: 'reject',
+    category: 'profanity',
+    severity: 'high',
+    reason: 'Profanity',
+    accented: ['địt', 'lồn', 'cặc', 'buồi', 'đụ'],
+    plain: ['dit me', 'ditme', 'dit con me', 'dit cu', 'du ma', 'dmm', 'dcm', 'dkm', 'cmm', 'clm', 'fuck you', 'motherfucker', 'cunt']
+  },
+  {
+    action: 'hold',
+    category: 'profanity',
+    severity: 'medium',
+    reason: 'Possible profanity or insult',
+    accented: ['đéo', 'đm', 'đồ ngu', 'thằng ngu', 'ngu như chó', 'ngu như bò'],
+    plain: ['vcl', 'vkl', 'vl', 'clgt', 'fuck', 'fucking', 'shit', 'bitch']
+  },
+  {
+    action: 'hold',
+    category: 'spam',
+    severity: 'medium',
+    reason: 'Gambling or scam advertising',
+    accented: ['cá độ', 'lô đề', 'số đề'],
+    plain: ['nha cai', 'ca cuoc', 'tai xiu', 'keo bong da', 'casino', 'viagra', 'vay tien nhanh', 'kiem tien online']
+  }
+];
+
+type Env = Record<string, string | undefined>;
+
+function parseTerms(value: string | undefined): string[] {
+  return (value || '').split(',').map(term => term.trim()).filter(Boolean);
+}
+
+/**
+ * Built-in lists plus extra terms from MODERATION_BLOCKED_TERMS and MODERATION_HELD_TERMS (comma-separated)
+ */
+export function resolveTermLists(env: Env = process.env): TermList[] {
+  const blocked = parseTerms(env.MODERATION_BLOCKED_TERMS);
+  const held = parseTerms(env.MODERATION_HELD_TERMS);
+
+  return [
+    ...DEFAULT_TERM_LISTS,
+    ...(blocked.length > 0 ? [{ action: 'reject', category: 'profanity', severity: 'high', reason: 'Blocked term', accented: [], plain: blocked } as TermList] : []),
+    ...(held.length > 0 ? [{ action: 'hold', category: 'profanity', severity: 'medium', reason: 'Held term', accented: [], plain: held } as TermList] : [])
+  ];
+}
+
+export class KeywordCheck implements ModerationCheck {
+  readonly name = 'keywords';
+  private lists: Array<TermList & { normalizedAccented: string[]; normalizedPlain: string[] }>;
+
+  constructor(lists: TermList[] = resolveTermLists()) {
+    // Terms go through the same normalization as the text they are matched against
+    this.lists = lists.map(list => ({
+      ...list,
+      normalizedAccented: list.accented.map(term => normalizeForModeration(term).accented),
+      normalizedPlain: list.plain.map(term => normalizeForModeration(term).plain)
+    }));
+  }
+
+  async run(input: ModerationInput): Promise<ModerationSignal[]> {
+    const text = normalizeForModeration(input.text);
+    const signals: ModerationSignal[] = [];
+
+    for (const list of this.lists) {
+      const matches = [
+        ...list.normalizedAccented.filter(term => containsPhrase(text.accented, term)),
+        ...list.normalizedPlain.filter(term => containsPhrase(text.plain, term))
+      ];
+
+      if (matches.length > 0) {
+        signals.push({
+          check: this.name,
+          action: list.action,
+          category: list.category,
+          severity: list.severity,
+          reason: list.reason,
+          matches: Array.from(new Set(matches))
+        });
+      }
+    }
+
+    return signals;
+  }
+}
+
+// Links beyond these counts look like link dropping
+const MAX_LINKS_HOLD = 3;
+const MAX_LINKS_REJECT = 8;
+
+// Text left once links are removed, below which content is "just links"
+const MIN_TEXT_AROUND_LINKS = 15;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"')]+|\b(?:[a-z0-9-]+\.)+(?:com|net|org|vn|xyz|top|info|club|io|me|ly|link|site|online|shop|bet|cc|tk)\b(?:\/[^\s<>"')]*)?/gi;
+
+const SHORTENER_HOSTS = new Set([
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'cutt.ly', 'shorturl.at', 'rebrand.ly', 's.id', 'tiny.cc', 'rb.gy'
+]);
+
+const SUSPICIOUS_TLDS = new Set(['xyz', 'top', 'bet', 'tk', 'click', 'loan', 'casino']);
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://awssmartcookingss.com';
+
+function hostOf(link: string): string {
+  return link
+    .replace(/^https?:\/\//i, '')
+    .split(/[/?#:]/)[0]
+    .toLowerCase()
+    .replace(/^www\./, '');
+}
+
+export class SpamLinkCheck implements ModerationCheck {
+  readonly name = 'links';
+  private ownHost = hostOf(FRONTEND_URL);
+
+  async run(input: ModerationInput): Promise<ModerationSignal[]> {
+    const links = (input.text.match(URL_PATTERN) || []).filter(link => hostOf(link) !== this.ownHost);
+    if (links.length === 0) {
+      return [];
+    }
+
+    const signals: ModerationSignal[] = [];
+    const hosts = Array.from(new Set(links.map(hostOf)));
+    const signal = (action: ModerationSignal['action'], reason: string, matches: string[]): ModerationSignal => ({
+      check: this.name,
+      action,
+      category: 'spam',
+      severity: action === 'reject' ? 'high' : 'medium',
+      reason,
+      matches
+    });
+
+    if (links.length > MAX_LINKS_REJECT) {
+      signals.push(signal('reject', `Too many links (${links.length})`, hosts));
+    } else if (links.length > MAX_LINKS_HOLD) {
+      signals.push(signal('hold', `Many links (${links.length})`, hosts));
+    }
+
+    const shortened = hosts.filter(host => SHORTENER_HOSTS.has(host));
+    if (shortened.length > 0) {
+      signals.push(signal('hold', 'Shortened links hide their destination', shortened));
+    }
+
+    const suspicious = hosts.filter(host => SUSPICIOUS_TLDS.has(host.split('.').pop() || ''));
+    if (suspicious.length > 0) {
+      signals.push(signal('hold', 'Links to domains commonly used for spam', suspicious));
+    }
+
+    const textAroundLinks = input.text.replace(URL_PATTERN, '').replace(/[^\p{L}]/gu, '');
+    if (textAroundLinks.length < MIN_TEXT_AROUND_LINKS) {
+      signals.push({ ...signal('hold', 'Content is mostly links', hosts), severity: 'low' });
+    }
+
+    return signals;
+  }
+}
+
+// Shorter texts ("ngon quá!") are expected to repeat
+const MIN_REPEAT_LENGTH = 20;
+const REPEAT_WINDOW_HOURS = 24;
+const REPEAT_HOLD_COUNT = 3;
+const REPEAT_REJECT_COUNT = 5;
+
+/**
+ * Counts how many posts or comments of a user carry the same text within a day.
+ * Texts are compared after normalization, so changed punctuation or accents don't make a copy new.
+ * The fingerprint keeps the ids it was seen on, so editing a post without changing its text isn't a copy.
+ */
+export class RepeatedContentCheck implements ModerationCheck {
+  readonly name = 'repeated_content';
+
+  async run(input: ModerationInput): Promise<ModerationSignal[]> {
+    const { plain } = normalizeForModeration(input.text);
+    if (plain.length < MIN_REPEAT_LENGTH) {
+      return [];
+    }
+
+    const fingerprint = createHash('sha256').update(plain).digest('hex').slice(0, 32);
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - REPEAT_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+    const ttl = Math.floor(now.getTime() / 1000) + REPEAT_WINDOW_HOURS * 60 * 60;
+
+    const item = await DynamoDBHelper.update(
+      `USER#${input.user_id}`,
+      `CONTENT_FINGERPRINT#${fingerprint}`,
+      'SET entity_type = :type, first_seen = if_not_exists(first_seen, :now), #ttl = :ttl ADD content_ids :content',
+      {
+        ':type': 'content_fingerprint',
+        ':now': now.toISOString(),
+        ':ttl': ttl,
+        ':content': new Set([input.content_id])
+      },
+      { '#ttl': 'ttl' }
+    );
+
+    let count: number = item?.content_ids?.size || 1;
+
+    // TTL deletion can lag; a fingerprint from an earlier window starts over
+    if (item?.first_seen && item.first_seen < windowStart) {
+      await DynamoDBHelper.put({
+        PK: `USER#${input.user_id}`,
+        SK: `CONTENT_FINGERPRINT#${fingerprint}`,
+        entity_type: 'content_fingerprint',
+        first_seen: now.toISOString(),
+        content_ids: new Set([input.content_id]),
+        ttl
+      });
+      count = 1;
+    }
+
+    if (count < REPEAT_HOLD_COUNT) {
+      return [];
+    }
+
+    const reject = count >= REPEAT_REJECT_COUNT;
+    return [{
+      check: this.name,
+      action: reject ? 'reject' : 'hold',
+      category: 'repeated_content',
+      severity: reject ? 'high' : 'medium',
+      reason: `Same text published ${count} times in ${REPEAT_WINDOW_HOURS} hours`
+    }];
+  }
+}
+
+/**
+ * Holds images hosted outside our bucket, and classifies our own when an image classifier is configured
+ */
+export class ImageCheck implements ModerationCheck {
+  readonly name = 'images';
+
+  constructor(private classifier?: ImageClassifier) {}
+
+  async run(input: ModerationInput): Promise<ModerationSignal[]> {
+    const images = input.images || [];
+    if (images.length === 0) {
+      return [];
+    }
+
+    const signals: ModerationSignal[] = [];
+    const external = images.filter(image => !getImageLocation(image));
+    if (external.length > 0) {
+      signals.push({
+        check: this.name,
+        action: 'hold',
+        category: 'image',
+        severity: 'medium',
+        reason: 'Images hosted outside the app',
+        matches: external
+      });
+    }
+
+    if (!this.classifier) {
+      return signals;
+    }
+
+    for (const image of images) {
+      const location = getImageLocation(image);
+      if (!location) continue;
+
+      const verdict = await this.classifier.classify(location);
+      if (verdict.decision === 'allow') continue;
+
+      signals.push({
+        check: this.name,
+        action: verdict.decision,
+        category: 'image',
+        severity: verdict.decision === 'reject' ? 'high' : 'medium',
+        reason: `Image flagged: ${verdict.labels.join(', ')}`,
+        matches: [image]
+      });
+    }
+
+    return signals;
+  }
+}
+
+/**
+ * Asks a ContentClassifier (e.g. an LLM) about the text
+ */
+export class ClassifierCheck implements ModerationCheck {
+  readonly name = 'classifier';
+
+  constructor(private classifier: ContentClassifier) {}
+
+  async run(input: ModerationInput): Promise<ModerationSignal[]> {
+    const verdict = await this.classifier.classify(input);
+    if (verdict.decision === 'allow') {
+      return [];
+    }
+
+    return [{
+      check: this.name,
+      action: verdict.decision,
+      category: 'classifier',
+      severity: verdict.decision === 'reject' ? 'high' : 'medium',
+      reason: verdict.reason || `Classified as ${verdict.category || 'inappropriate'}`,
+      ...(verdict.category && { matches: [verdict.category] })
+    }];
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Moderation Service
+ * Runs new and edited posts and comments through the moderation checks, decides whether they
+ * are published, held for review or rejected, and records violations with their evidence once
+ * content is rejected, automatically or by a moderator.
+ *
+ * Environment variables:
+ * - MODERATION_LLM_CLASSIFIER=true          also ask the LLM configured for 'content-moderation'
+ * - MODERATION_IMAGE_CLASSIFIER=rekognition  classify uploaded images with Amazon Rekognition
+ * - MODERATION_BLOCKED_TERMS / MODERATION_HELD_TERMS  extra comma-separated terms
+ */
+
+import { DynamoDBHelper } from '../../database/dynamodb';
+import { AppError } from '../../errors/responses';
+import { logger } from '../../monitoring/logger';
+import { AbuseTrackingService, AbuseRecord } from '../abuse/abuse-tracking-service';
+import {
+  ModerationCheck,
+  ModerationContentType,
+  ModerationInput,
+  ModerationResult,
+  ModerationSeverity,
+  ModerationSignal
+} from './moderation-types';
+import { KeywordCheck, SpamLinkCheck, RepeatedContentCheck, ImageCheck, ClassifierCheck } from './moderation-checks';
+import { LLMContentClassifier, RekognitionImageClassifier } from './content-classifier';
+
+export type ReviewStatus = 'held' | 'approved' | 'rejected';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['held', 'approved', 'rejected'];
+
+/**
+ * Held content waiting for (or resolved by) a moderator
+ */
+export interface ModerationReview {
+  post_id: string;
+  content_type: ModerationContentType;
+  content_id: string;
+  user_id: string;
+  excerpt: string;
+  images: string[];
+  signals: ModerationSignal[];
+  status: ReviewStatus;
+  created_at: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_note?: string;
+}
+
+/**
+ * What a violation is recorded from: the content being rejected and the signals it raised
+ */
+type ViolationEvidence = Pick<ModerationReview, 'post_id' | 'content_type' | 'content_id' | 'user_id' | 'excerpt' | 'images' | 'signals'>;
+
+const SEVERITY_ORDER: ModerationSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+const EXCERPT_LENGTH = 300;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Checks enabled for this environment
+ */
+export function createModerationChecks(env: Env = process.env): ModerationCheck[] {
+  const imageClassifier = env.MODERATION_IMAGE_CLASSIFIER === 'rekognition' ? new RekognitionImageClassifier() : undefined;
+
+  return [
+    new KeywordCheck(),
+    new SpamLinkCheck(),
+    new RepeatedContentCheck(),
+    new ImageCheck(imageClassifier),
+    ...(env.MODERATION_LLM_CLASSIFIER === 'true' ? [new ClassifierCheck(new LLMContentClassifier())] : [])
+  ];
+}
+
+export class ModerationService {
+  private static checks: ModerationCheck[] | null = null;
+
+  /**
+   * Replace the configured checks (e.g. in tests)
+   */
+  static setChecks(checks: ModerationCheck[] | null): void {
+    this.checks = checks;
+  }
+
+  private static getChecks(): ModerationCheck[] {
+    if (!this.checks) {
+      this.checks = createModerationChecks();
+    }
+    return this.checks;
+  }
+
+  /**
+   * Run every check. A check that fails is logged and skipped so an outage never blocks posting.
+   */
+  static async moderate(input: ModerationInput): Promise<ModerationResult> {
+    const results = await Promise.all(this.getChecks().map(async check => {
+      try {
+        return await check.run(input);
+      } catch (error) {
+        logger.warn('Moderation check failed', {
+          check: check.name,
+          contentType: input.content_type,
+          contentId: input.content_id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        return [];
+      }
+    }));
+
+    const signals = results.flat();
+    const decision = signals.some(signal => signal.action === 'reject')
+      ? 'reject'
+      : signals.some(signal => signal.action === 'hold') ? 'hold' : 'allow';
+
+    return { decision, signals };
+  }
+
+  /**
+   * Moderate content before it is stored. Rejected content is recorded as a violation and throws;
+   * held content is returned for the caller to store hidden and queue, and only counts against
+   * its author if a moderator rejects it.
+   */
+  static async enforce(input: ModerationInput): Promise<ModerationResult> {
+    const result = await this.moderate(input);
+    if (result.decision === 'allow') {
+      return result;
+    }
+
+    logger.info('Content flagged by moderation', {
+      userId: input.user_id,
+      contentType: input.content_type,
+      contentId: input.content_id,
+      decision: result.decision,
+      checks: result.signals.map(signal => signal.check)
+    });
+
+    if (result.decision === 'reject') {
+      await this.recordViolation({
+        post_id: input.post_id,
+        content_type: input.content_type,
+        content_id: input.content_id,
+        user_id: input.user_id,
+        excerpt: input.text.slice(0, EXCERPT_LENGTH),
+        images: input.images || [],
+        signals: result.signals
+      });
+      throw new AppError(422, 'content_rejected', `Your ${input.content_type} was not published: ${this.describe(result).join('; ')}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Short reasons for a result, one per signal
+   */
+  static describe(result: ModerationResult): string[] {
+    return Array.from(new Set(result.signals.map(signal => signal.reason)));
+  }
+
+  /**
+   * Put held content in the review queue
+   */
+  static async queueForReview(input: ModerationInput, result: ModerationResult): Promise<ModerationReview> {
+    const review: ModerationReview = {
+      post_id: input.post_id,
+      content_type: input.content_type,
+      content_id: input.content_id,
+      user_id: input.user_id,
+      excerpt: input.text.slice(0, EXCERPT_LENGTH),
+      images: input.images || [],
+      signals: result.signals,
+      status: 'held',
+      created_at: new Date().toISOString()
+    };
+
+    await DynamoDBHelper.put({
+      PK: `POST#${input.post_id}`,
+      SK: this.reviewSortKey(input.content_type, input.content_id),
+      entity_type: 'MODERATION_REVIEW',
+      ...review,
+      GSI1PK: 'MODERATION#held',
+      GSI1SK: review.created_at
+    });
+
+    return review;
+  }
+
+  /**
+   * Show the moderator the current text of content that was edited while held
+   */
+  static async refreshReview(input: ModerationInput): Promise<void> {
+    await DynamoDBHelper.update(
+      `POST#${input.post_id}`,
+      this.reviewSortKey(input.content_type, input.content_id),
+      'SET excerpt = :excerpt, images = :images',
+      { ':excerpt': input.text.slice(0, EXCERPT_LENGTH), ':images': input.images || [] }
+    );
+  }
+
+  static async getReview(postId: string, contentType: ModerationContentType, contentId: string): Promise<ModerationReview | null> {
+    const item = await DynamoDBHelper.get(`POST#${postId}`, this.reviewSortKey(contentType, contentId));
+    return item ? this.toReview(item) : null;
+  }
+
+  /**
+   * Reviews with a status, oldest first so the queue is worked in order
+   */
+  static async listReviews(status: ReviewStatus = 'held', limit: number = 50): Promise<ModerationReview[]> {
+    const result = await DynamoDBHelper.query({
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': `MODERATION#${status}`
+      },
+      ScanIndexForward: status === 'held',
+      Limit: limit
+    });
+
+    return (result.Items || []).map(item => this.toReview(item));
+  }
+
+  /**
+   * Close a review; rejecting it records the violation against the author
+   */
+  static async resolveReview(
+    review: ModerationReview,
+    status: Exclude<ReviewStatus, 'held'>,
+    adminId: string,
+    note?: string
+  ): Promise<ModerationReview> {
+    const now = new Date().toISOString();
+
+    await DynamoDBHelper.update(
+      `POST#${review.post_id}`,
+      this.reviewSortKey(review.content_type, review.content_id),
+      'SET #status = :status, reviewed_by = :admin, reviewed_at = :now, review_note = :note, GSI1PK = :gsi1pk',
+      {
+        ':status': status,
+        ':admin': adminId,
+        ':now': now,
+        ':note': note || null,
+        ':gsi1pk': `MODERATION#${status}`
+      },
+      { '#status': 'status' }
+    );
+
+    if (status === 'rejected') {
+      await this.recordViolation(review, { reviewed_by: adminId });
+    }
+
+    return { ...review, status, reviewed_by: adminId, reviewed_at: now, review_note: note };
+  }
+
+  static async deleteReview(postId: string, contentType: ModerationContentType, contentId: string): Promise<void> {
+    await DynamoDBHelper.delete(`POST#${postId}`, this.reviewSortKey(contentType, contentId));
+  }
+
+  private static async recordViolation(evidence: ViolationEvidence, details: Record<string, any> = {}): Promise<void> {
+    const spamOnly = evidence.signals.every(signal => signal.category === 'spam' || signal.category === 'repeated_content');
+    const violationType: AbuseRecord['violation_type'] = spamOnly ? 'spam_input' : 'inappropriate_content';
+    const severity = evidence.signals
+      .map(signal => signal.severity)
+      .reduce((highest, severity) => SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(highest) ? severity : highest, 'low');
+
+    try {
+      await AbuseTrackingService.recordViolation(evidence.user_id, violationType, severity, {
+        source: 'moderation',
+        decision: 'reject',
+        content_type: evidence.content_type,
+        post_id: evidence.post_id,
+        ...(evidence.content_type === 'comment' && { comment_id: evidence.content_id }),
+        excerpt: evidence.excerpt,
+        images: evidence.images,
+        signals: evidence.signals,
+        ...details
+      });
+    } catch (error) {
+      // Abuse tracking failing must not let rejected content through, nor undo a moderator's decision
+      logger.error('Failed to record moderation violation', error, { userId: evidence.user_id, contentId: evidence.content_id });
+    }
+  }
+
+  private static reviewSortKey(contentType: ModerationContentType, contentId: string): string {
+    return `MODERATION#${contentType}#${contentId}`;
+  }
+
+  private static toReview(item: any): ModerationReview {
+    return {
+      post_id: item.post_id,
+      content_type: item.content_type,
+      content_id: item.content_id,
+      user_id: item.user_id,
+      excerpt: item.excerpt,
+      images: item.images || [],
+      signals: item.signals || [],
+      status: item.status,
+      created_at: item.created_at,
+      reviewed_by: item.reviewed_by,
+      reviewed_at: item.reviewed_at,
+      review_note: item.review_note || undefined
+    };
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Moderation Types
+ * Shared by the moderation pipeline, its checks and classifiers
+ */
+
+import { AbuseRecord } from '../abuse/abuse-tracking-service';
+
+export type ModerationDecision = 'allow' | 'hold' | 'reject';
+
+export type ModerationContentType = 'post' | 'comment';
+
+export type ModerationSeverity = AbuseRecord['severity'];
+
+/**
+ * Content about to be published
+ */
+export interface ModerationInput {
+  user_id: string;
+  content_type: ModerationContentType;
+  content_id: string; // Generated before the content is stored so evidence can point at it
+  post_id: string; // The post itself, or the post a comment belongs to
+  text: string;
+  images?: string[]; // CDN URLs or S3 keys
+}
+
+/**
+ * Why a check wants content held or rejected
+ */
+export interface ModerationSignal {
+  check: string;
+  action: Exclude<ModerationDecision, 'allow'>;
+  category: 'profanity' | 'spam' | 'repeated_content' | 'image' | 'classifier';
+  severity: ModerationSeverity;
+  reason: string;
+  matches?: string[];
+}
+
+export interface ModerationResult {
+  decision: ModerationDecision;
+  signals: ModerationSignal[];
+}
+
+/**
+ * One step of the pipeline. Checks only report signals; the service decides.
+ */
+export interface ModerationCheck {
+  readonly name: string;
+  run(input: ModerationInput): Promise<ModerationSignal[]>;
+}
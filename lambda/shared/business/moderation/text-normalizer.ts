@@ -0,0 +1,85 @@
+/**
+ * Moderation Text Normalizer
+ * Undoes the usual ways Vietnamese "teen code" and obfuscation hide words from a
+ * keyword list: leetspeak digits, stretched letters, spaced-out letters and
+ * teen-code spellings (j for i, "k"/"ko" for "không", "dc" for "được"...).
+ */
+
+import { normalizeVietnamese } from '../../utils/vietnamese-normalizer';
+
+export interface NormalizedText {
+  accented: string; // Lowercase with diacritics kept, for terms that only differ by tone marks
+  plain: string; // Without diacritics, for everything else
+}
+
+const LEET: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  '$': 's',
+  '!': 'i'
+};
+
+// Whole-token teen-code spellings
+const TEEN_CODE_WORDS: Record<string, string> = {
+  k: 'không',
+  ko: 'không',
+  kh: 'không',
+  hok: 'không',
+  hem: 'không',
+  dc: 'được',
+  đc: 'được',
+  j: 'gì',
+  z: 'vậy',
+  v: 'vậy',
+  vs: 'với',
+  ns: 'nói',
+  bik: 'biết',
+  bit: 'biết',
+  mik: 'mình',
+  mn: 'mọi người',
+  ng: 'người',
+  ck: 'chồng',
+  vk: 'vợ'
+};
+
+// "j" for "i" after a consonant: "djt" -> "dit", "bjk" -> "bik"
+const TEEN_CODE_I = /(?<=[bcdđghklmnpqrstvx])j/g;
+
+// Quantities are left alone so "500g" is not read as leetspeak
+const QUANTITY = /^\d+(?:[.,]\d+)?\p{L}{0,3}$/u;
+
+const SEPARATOR = '[\\s.\\-_*+,/\\\\|~]';
+// Three or more single letters split by separators: "d.i.t", "đ ị t"
+const SPACED_LETTERS = new RegExp(`(?:^|(?<=\\s))(?:[\\p{L}\\p{N}]${SEPARATOR}+){2,}[\\p{L}\\p{N}](?=\\s|$)`, 'gu');
+
+export function normalizeForModeration(text: string): NormalizedText {
+  const lowered = text.normalize('NFC').toLowerCase();
+
+  // Join spaced-out letters before the separators are stripped
+  const joined = lowered.replace(SPACED_LETTERS, (run) => run.replace(new RegExp(SEPARATOR, 'g'), ''));
+
+  const tokens = joined
+    .split(/\s+/)
+    .map(token => token.replace(/[^\p{L}\p{N}]+$/u, '')) // Trailing "!" ends a sentence, it isn't an "i"
+    .map(token => (/\p{L}/u.test(token) && !QUANTITY.test(token) ? token.replace(/[0-9@$!]/g, char => LEET[char]) : token))
+    .map(token => token.replace(/[^\p{L}\p{N}]+/gu, ''))
+    .filter(Boolean)
+    .map(token => token.replace(/(\p{L})\1{2,}/gu, '$1')) // "nguuuu" -> "ngu"
+    .map(token => TEEN_CODE_WORDS[token] || token.replace(TEEN_CODE_I, 'i'));
+
+  const accented = tokens.join(' ');
+
+  return { accented, plain: normalizeVietnamese(accented) };
+}
+
+/**
+ * Whether a normalized text contains a phrase as whole words
+ */
+export function containsPhrase(normalized: string, phrase: string): boolean {
+  return ` ${normalized} `.includes(` ${phrase} `);
+}
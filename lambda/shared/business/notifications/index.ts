@@ -1 +1,3 @@
 export * from './notification-service';
+export * from './notification-preferences';
+export * from './notification-digest-service';
@@ -0,0 +1,185 @@
+/**
+ * Notification Digest Service
+ * Builds and sends the daily/weekly email summary of notifications
+ */
+
+import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
+import { DynamoDBHelper } from '../../database/dynamodb';
+import { logger } from '../../monitoring/logger';
+import { NotificationDigestFrequency, NotificationType, NotificationTargetType } from '../../utils/types';
+import { NotificationPreferencesService } from './notification-preferences';
+import { getGroupedAction, describeGroup } from './notification-service';
+
+const ses = new SESClient({});
+const SES_FROM_EMAIL = process.env.SES_FROM_EMAIL || '';
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://awssmartcookingss.com';
+
+// Lines listed in one email; the rest are summarized as a count
+const MAX_DIGEST_LINES = 20;
+
+interface DigestItem {
+  PK: string;
+  SK: string;
+  type: NotificationType;
+  actor_id: string;
+  actor_username?: string;
+  target_type: NotificationTargetType;
+  target_id: string;
+  content: string;
+  created_at: string;
+}
+
+export interface DigestRunResult {
+  users: number;
+  sent: number;
+  failed: number;
+}
+
+export class NotificationDigestService {
+  /**
+   * Send the digest to every user subscribed at this frequency
+   */
+  static async sendDigests(frequency: Exclude<NotificationDigestFrequency, 'off'>): Promise<DigestRunResult> {
+    const result: DigestRunResult = { users: 0, sent: 0, failed: 0 };
+    let lastKey: any;
+
+    do {
+      const page = await DynamoDBHelper.query({
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk',
+        ExpressionAttributeValues: {
+          ':pk': `NOTIFICATION_DIGEST#${frequency}`
+        },
+        ExclusiveStartKey: lastKey
+      });
+
+      for (const subscriber of page.Items) {
+        result.users++;
+        try {
+          if (await this.sendDigest(subscriber.user_id, frequency)) {
+            result.sent++;
+          }
+        } catch (error) {
+          result.failed++;
+          logger.error('Failed to send notification digest', error, { userId: subscriber.user_id, frequency });
+        }
+      }
+
+      lastKey = page.LastEvaluatedKey;
+    } while (lastKey);
+
+    logger.info('Notification digests sent', { frequency, ...result });
+
+    return result;
+  }
+
+  /**
+   * Email one user what they've collected since their last digest, then clear it.
+   * Items are only cleared once SES accepted the email, so a failed send is retried next run.
+   * Returns false when there was nothing to send.
+   */
+  static async sendDigest(userId: string, frequency: Exclude<NotificationDigestFrequency, 'off'>): Promise<boolean> {
+    const items = await this.getDigestItems(userId);
+    if (items.length === 0) return false;
+
+    // Types switched off for email after they were collected are dropped
+    const preferences = await NotificationPreferencesService.getPreferences(userId);
+    const included = items.filter(item => preferences.types[item.type]?.email);
+
+    const user = await DynamoDBHelper.get(`USER#${userId}`, 'PROFILE');
+    if (included.length > 0 && user?.email) {
+      const lines = this.buildLines(included);
+      const subject = frequency === 'daily'
+        ? 'Your Smart Cooking daily summary'
+        : 'Your Smart Cooking weekly summary';
+
+      const body = `
+Hi ${user.display_name || user.username},
+
+Here's what happened on Smart Cooking ${frequency === 'daily' ? 'today' : 'this week'}:
+
+${lines.slice(0, MAX_DIGEST_LINES).map(line => `- ${line}`).join('\n')}
+${lines.length > MAX_DIGEST_LINES ? `\n... and ${lines.length - MAX_DIGEST_LINES} more` : ''}
+
+See all notifications: ${FRONTEND_URL}/notifications
+
+You can change which notifications are emailed, or turn off this summary, at:
+${FRONTEND_URL}/profile/notifications
+
+Smart Cooking Team
+      `.trim();
+
+      await ses.send(new SendEmailCommand({
+        Source: SES_FROM_EMAIL,
+        Destination: { ToAddresses: [user.email] },
+        Message: {
+          Subject: { Data: subject, Charset: 'UTF-8' },
+          Body: { Text: { Data: body, Charset: 'UTF-8' } }
+        }
+      }));
+
+      logger.info('Notification digest sent', { userId, frequency, count: included.length });
+    } else if (!user?.email) {
+      logger.warn('Cannot send notification digest - no email found', { userId });
+    }
+
+    await this.clearDigestItems(items);
+
+    return included.length > 0 && !!user?.email;
+  }
+
+  /**
+   * One line per group: likes and comments on the same target collapse like they do in-app
+   */
+  static buildLines(items: Array<Pick<DigestItem, 'type' | 'actor_id' | 'actor_username' | 'target_type' | 'target_id' | 'content'>>): string[] {
+    const groups = new Map<string, { action?: string; actors: string[]; actorIds: Set<string>; content: string }>();
+
+    // Newest first so each group is named after its latest actor
+    for (const item of [...items].reverse()) {
+      const action = getGroupedAction(item.type, item.target_type);
+      const key = action ? `${item.type}:${item.target_type}:${item.target_id}` : `${groups.size}`;
+      const group = groups.get(key) || { action, actors: [], actorIds: new Set<string>(), content: item.content };
+
+      if (!group.actorIds.has(item.actor_id)) {
+        group.actorIds.add(item.actor_id);
+        group.actors.push(item.actor_username || 'Someone');
+      }
+      groups.set(key, group);
+    }
+
+    return [...groups.values()].map(group =>
+      group.action && group.actors.length > 1
+        ? describeGroup(group.actors[0], group.actors.length, group.action)
+        : group.content
+    );
+  }
+
+  private static async getDigestItems(userId: string): Promise<DigestItem[]> {
+    const items: DigestItem[] = [];
+    let lastKey: any;
+
+    do {
+      const page = await DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': 'NOTIFICATION_DIGEST#'
+        },
+        ExclusiveStartKey: lastKey
+      });
+
+      items.push(...(page.Items as DigestItem[]));
+      lastKey = page.LastEvaluatedKey;
+    } while (lastKey);
+
+    return items;
+  }
+
+  private static async clearDigestItems(items: DigestItem[]): Promise<void> {
+    await DynamoDBHelper.batchWrite(
+      items.map(item => ({
+        DeleteRequest: { Key: { PK: item.PK, SK: item.SK } }
+      }))
+    );
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Notification Preferences
+ * Per-type in-app and email switches, quiet hours and digest frequency
+ */
+
+import { DynamoDBHelper } from '../../database/dynamodb';
+import { AppError } from '../../errors/responses';
+import { logger } from '../../monitoring/logger';
+import {
+  NotificationType,
+  NotificationPreferences,
+  NotificationDigestFrequency
+} from '../../utils/types';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'friend_request',
+  'friend_accept',
+  'comment',
+  'reaction',
+  'mention',
+  'recipe_approved',
+  'recipe_forked'
+];
+
+const DIGEST_FREQUENCIES: NotificationDigestFrequency[] = ['off', 'daily', 'weekly'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  types: Object.fromEntries(
+    NOTIFICATION_TYPES.map(type => [type, { in_app: true, email: true }])
+  ) as NotificationPreferences['types'],
+  quiet_hours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    timezone: 'Asia/Ho_Chi_Minh'
+  },
+  digest: 'off'
+};
+
+export class NotificationPreferencesService {
+  /**
+   * Stored preferences merged over the defaults, so types added later start enabled
+   */
+  static async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const item = await DynamoDBHelper.get(`USER#${userId}`, 'NOTIFICATION_PREFERENCES');
+    return this.merge(DEFAULT_NOTIFICATION_PREFERENCES, item || {});
+  }
+
+  /**
+   * Preferences for delivery decisions; falls back to the defaults if they can't be read
+   */
+  static async getPreferencesSafe(userId: string): Promise<NotificationPreferences> {
+    try {
+      return await this.getPreferences(userId);
+    } catch (error) {
+      logger.warn('Failed to load notification preferences, using defaults', { error, userId });
+      return DEFAULT_NOTIFICATION_PREFERENCES;
+    }
+  }
+
+  /**
+   * Apply a partial update, e.g. { types: { reaction: { email: false } } }
+   */
+  static async updatePreferences(userId: string, updates: any): Promise<NotificationPreferences> {
+    this.validate(updates);
+
+    const current = await this.getPreferences(userId);
+    const preferences: NotificationPreferences = {
+      ...this.merge(current, updates),
+      updated_at: new Date().toISOString()
+    };
+
+    await DynamoDBHelper.put({
+      PK: `USER#${userId}`,
+      SK: 'NOTIFICATION_PREFERENCES',
+      entity_type: 'NOTIFICATION_PREFERENCES',
+      user_id: userId,
+      ...preferences,
+
+      // Sparse index the digest job reads to find its recipients
+      ...(preferences.digest !== 'off' && {
+        GSI1PK: `NOTIFICATION_DIGEST#${preferences.digest}`,
+        GSI1SK: `USER#${userId}`
+      })
+    });
+
+    logger.info('Notification preferences updated', { userId, digest: preferences.digest });
+
+    return preferences;
+  }
+
+  /**
+   * Whether `now` falls inside the user's quiet hours, in their timezone
+   */
+  static isQuietTime(preferences: NotificationPreferences, now: Date = new Date()): boolean {
+    const { enabled, start, end, timezone } = preferences.quiet_hours;
+    if (!enabled || start === end) return false;
+
+    let localTime: string;
+    try {
+      localTime = new Intl.DateTimeFormat('en-GB', {
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+        timeZone: timezone
+      }).format(now);
+    } catch {
+      return false;
+    }
+
+    // Overnight ranges such as 22:00-07:00 wrap past midnight
+    return start < end
+      ? localTime >= start && localTime < end
+      : localTime >= start || localTime < end;
+  }
+
+  private static merge(base: NotificationPreferences, updates: any): NotificationPreferences {
+    const types = { ...base.types };
+    for (const type of NOTIFICATION_TYPES) {
+      types[type] = { ...base.types[type], ...updates.types?.[type] };
+    }
+
+    return {
+      types,
+      quiet_hours: { ...base.quiet_hours, ...updates.quiet_hours },
+      digest: updates.digest ?? base.digest,
+      ...(updates.updated_at && { updated_at: updates.updated_at })
+    };
+  }
+
+  private static validate(updates: any): void {
+    if (!updates || typeof updates !== 'object') {
+      throw new AppError(400, 'invalid_preferences', 'Preferences must be an object');
+    }
+
+    for (const [type, channels] of Object.entries<any>(updates.types || {})) {
+      if (!NOTIFICATION_TYPES.includes(type as NotificationType)) {
+        throw new AppError(400, 'invalid_preferences', `Unknown notification type: ${type}`);
+      }
+      for (const channel of ['in_app', 'email']) {
+        if (channels?.[channel] !== undefined && typeof channels[channel] !== 'boolean') {
+          throw new AppError(400, 'invalid_preferences', `${type}.${channel} must be true or false`);
+        }
+      }
+    }
+
+    const quietHours = updates.quiet_hours;
+    if (quietHours) {
+      if (quietHours.enabled !== undefined && typeof quietHours.enabled !== 'boolean') {
+        throw new AppError(400, 'invalid_preferences', 'quiet_hours.enabled must be true or false');
+      }
+      for (const field of ['start', 'end']) {
+        if (quietHours[field] !== undefined && !TIME_PATTERN.test(quietHours[field])) {
+          throw new AppError(400, 'invalid_preferences', `quiet_hours.${field} must be HH:mm`);
+        }
+      }
+      if (quietHours.timezone !== undefined) {
+        try {
+          new Intl.DateTimeFormat('en-GB', { timeZone: quietHours.timezone });
+        } catch {
+          throw new AppError(400, 'invalid_preferences', `Unknown timezone: ${quietHours.timezone}`);
+        }
+      }
+    }
+
+    if (updates.digest !== undefined && !DIGEST_FREQUENCIES.includes(updates.digest)) {
+      throw new AppError(400, 'invalid_preferences', 'digest must be off, daily or weekly');
+    }
+  }
+}
@@ -6,7 +6,10 @@
 import { DynamoDBHelper } from '../../database/dynamodb';
 import { generateUUID, formatTimestamp } from '../../utils/utils';
 import { logger } from '../../monitoring/logger';
+import { BlockService } from '../../auth/block-service';
 import { Notification, NotificationType, NotificationTargetType } from '../../utils/types';
+import { RealtimeService } from '../../realtime';
+import { NotificationPreferencesService } from './notification-preferences';
 
 export interface CreateNotificationParams {
   userId: string;           // Who receives the notification
@@ -19,11 +22,86 @@ export interface CreateNotificationParams {
   content: string;          // Notification message
 }
 
+/**
+ * Notifications that collapse into one while unread ("An and 12 others liked your post"),
+ * keyed by type and target type, with the phrase used after the actors' names
+ */
+const GROUPED_ACTIONS: Partial<Record<string, string>> = {
+  'reaction:post': 'liked your post',
+  'comment:post': 'commented on your post',
+  'comment:comment': 'replied to your comment'
+};
+
+// Unread notifications older than this start a new group
+const GROUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Actor IDs kept on a group to avoid counting the same person twice
+const MAX_GROUP_ACTOR_IDS = 100;
+
+const DIGEST_ITEM_TTL_SECONDS = 8 * 24 * 60 * 60; // Outlives the weekly digest
+
+export function getGroupedAction(type: NotificationType, targetType: NotificationTargetType): string | undefined {
+  return GROUPED_ACTIONS[`${type}:${targetType}`];
+}
+
+/**
+ * "An liked your post", "An and 1 other liked your post", "An and 12 others liked your post"
+ */
+export function describeGroup(latestActor: string, actorCount: number, action: string): string {
+  const others = actorCount - 1;
+  if (others <= 0) return `${latestActor} ${action}`;
+  return `${latestActor} and ${others} ${others === 1 ? 'other' : 'others'} ${action}`;
+}
+
 export class NotificationService {
   /**
-   * Create a notification for a user
+   * Create a notification for a user, honoring their notification preferences
    */
   static async createNotification(params: CreateNotificationParams): Promise<Notification> {
+    const { userId, type, actorId } = params;
+
+    // Don't create notification if actor is the same as recipient
+    if (actorId === userId) {
+      logger.info('Skipping self-notification', { userId, actorId, type });
+      return null as any;
+    }
+
+    // Blocked users never notify each other; muted users don't notify the muter
+    if (await BlockService.isBlocked(userId, actorId) || await BlockService.isMuted(userId, actorId)) {
+      logger.info('Skipping notification from blocked or muted user', { userId, actorId, type });
+      return null as any;
+    }
+
+    const preferences = await NotificationPreferencesService.getPreferencesSafe(userId);
+    // Types without a preference entry are shown in-app only
+    const channels = preferences.types[type] || { in_app: true, email: false };
+
+    if (channels.email && preferences.digest !== 'off') {
+      await this.addToDigest(params);
+    }
+
+    if (!channels.in_app) {
+      logger.info('Skipping in-app notification disabled by preferences', { userId, type });
+      return null as any;
+    }
+
+    const notification = await this.collapseIntoGroup(params) || await this.putNotification(params);
+
+    // Quiet hours hold back the live push; the notification still shows on next load
+    if (!NotificationPreferencesService.isQuietTime(preferences)) {
+      await this.pushToUser(userId, notification);
+    }
+
+    return notification;
+  }
+
+  /**
+   * Write a new notification
+   */
+  private static async putNotification(
+    params: CreateNotificationParams,
+    group?: { notificationId: string; actorCount: number; actorIds: string[] }
+  ): Promise<Notification> {
     const {
       userId,
       type,
@@ -35,13 +113,7 @@ export class NotificationService {
       content
     } = params;
 
-    // Don't create notification if actor is the same as recipient
-    if (actorId === userId) {
-      logger.info('Skipping self-notification', { userId, actorId, type });
-      return null as any;
-    }
-
-    const notificationId = generateUUID();
+    const notificationId = group?.notificationId || generateUUID();
     const now = formatTimestamp();
     const ttl = Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60); // 30 days
 
@@ -57,6 +129,7 @@ export class NotificationService {
       content,
       is_read: false,
       created_at: now,
+      ...(group && { actor_count: group.actorCount }),
       ttl
     };
 
@@ -66,6 +139,7 @@ export class NotificationService {
       SK: `NOTIFICATION#${now}#${notificationId}`,
       entity_type: 'NOTIFICATION',
       ...notification,
+      ...(group && { actor_ids: group.actorIds }),
       
       // GSI3: For querying notifications by user
       GSI3PK: `USER#${userId}`,
@@ -84,12 +158,84 @@ export class NotificationService {
       type,
       actorId,
       targetType,
-      targetId
+      targetId,
+      actorCount: notification.actor_count
     });
 
     return notification;
   }
 
+  /**
+   * Fold a like or comment into a recent unread notification for the same target.
+   * The group is rewritten under the same ID with a new timestamp so it moves to the top of the list.
+   * Returns null when there's nothing to join.
+   */
+  private static async collapseIntoGroup(params: CreateNotificationParams): Promise<Notification | null> {
+    const action = getGroupedAction(params.type, params.targetType);
+    if (!action) return null;
+
+    const since = new Date(Date.now() - GROUP_WINDOW_MS).toISOString();
+    const result = await DynamoDBHelper.query({
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK >= :since',
+      FilterExpression: '#type = :type AND target_type = :targetType AND target_id = :targetId',
+      ExpressionAttributeNames: { '#type': 'type' },
+      ExpressionAttributeValues: {
+        ':pk': `USER#${params.userId}#UNREAD`,
+        ':since': `NOTIFICATION#${since}`,
+        ':type': params.type,
+        ':targetType': params.targetType,
+        ':targetId': params.targetId
+      },
+      ScanIndexForward: false
+    });
+
+    const existing = result?.Items?.[0];
+    if (!existing) return null;
+
+    const previousActorIds: string[] = existing.actor_ids || [existing.actor_id];
+    const isNewActor = !previousActorIds.includes(params.actorId);
+    const actorCount = (existing.actor_count || 1) + (isNewActor ? 1 : 0);
+    const actorIds = [params.actorId, ...previousActorIds.filter(id => id !== params.actorId)]
+      .slice(0, MAX_GROUP_ACTOR_IDS);
+
+    await DynamoDBHelper.delete(existing.PK, existing.SK);
+
+    return this.putNotification(
+      {
+        ...params,
+        content: describeGroup(params.actorUsername || 'Someone', actorCount, action)
+      },
+      { notificationId: existing.notification_id, actorCount, actorIds }
+    );
+  }
+
+  /**
+   * Keep a copy for the user's next email digest.
+   * Failures are logged so they never block the in-app notification.
+   */
+  private static async addToDigest(params: CreateNotificationParams): Promise<void> {
+    const now = formatTimestamp();
+
+    try {
+      await DynamoDBHelper.put({
+        PK: `USER#${params.userId}`,
+        SK: `NOTIFICATION_DIGEST#${now}#${generateUUID()}`,
+        entity_type: 'NOTIFICATION_DIGEST_ITEM',
+        type: params.type,
+        actor_id: params.actorId,
+        actor_username: params.actorUsername,
+        target_type: params.targetType,
+        target_id: params.targetId,
+        content: params.content,
+        created_at: now,
+        ttl: Math.floor(Date.now() / 1000) + DIGEST_ITEM_TTL_SECONDS
+      });
+    } catch (error) {
+      logger.warn('Failed to add notification to digest', { error, userId: params.userId, type: params.type });
+    }
+  }
+
   /**
    * Create notification when someone likes a post
    */
@@ -122,10 +268,12 @@ export class NotificationService {
     commentedByUsername: string;
     commentedByAvatar?: string;
     commentPreview: string;
+    isReply?: boolean; // Reply to another comment on the post
   }): Promise<void> {
     const preview = params.commentPreview.length > 50 
       ? params.commentPreview.substring(0, 50) + '...'
       : params.commentPreview;
+    const action = params.isReply ? 'replied to a comment on your post' : 'commented';
 
     await this.createNotification({
       userId: params.postOwnerId,
@@ -135,7 +283,34 @@ export class NotificationService {
       actorAvatarUrl: params.commentedByAvatar,
       targetType: 'post',
       targetId: params.postId,
-      content: `${params.commentedByUsername} commented: "${preview}"`
+      content: `${params.commentedByUsername} ${action}: "${preview}"`
+    });
+  }
+
+  /**
+   * Create notification when someone replies to a comment
+   */
+  static async notifyCommentReplied(params: {
+    commentAuthorId: string;
+    commentId: string;
+    repliedByUserId: string;
+    repliedByUsername: string;
+    repliedByAvatar?: string;
+    replyPreview: string;
+  }): Promise<void> {
+    const preview = params.replyPreview.length > 50
+      ? params.replyPreview.substring(0, 50) + '...'
+      : params.replyPreview;
+
+    await this.createNotification({
+      userId: params.commentAuthorId,
+      type: 'comment',
+      actorId: params.repliedByUserId,
+      actorUsername: params.repliedByUsername,
+      actorAvatarUrl: params.repliedByAvatar,
+      targetType: 'comment',
+      targetId: params.commentId,
+      content: `${params.repliedByUsername} replied to your comment: "${preview}"`
     });
   }
 
@@ -182,7 +357,7 @@ export class NotificationService {
   }
 
   /**
-   * Create notification when someone mentions you in a post
+   * Create notification when someone mentions you in a post or comment
    */
   static async notifyMention(params: {
     mentionedUserId: string;
@@ -191,6 +366,7 @@ export class NotificationService {
     mentionedByUsername: string;
     mentionedByAvatar?: string;
     postPreview: string;
+    inComment?: boolean; // Mentioned in a comment on the post
   }): Promise<void> {
     const preview = params.postPreview.length > 50 
       ? params.postPreview.substring(0, 50) + '...'
@@ -204,7 +380,57 @@ export class NotificationService {
       actorAvatarUrl: params.mentionedByAvatar,
       targetType: 'post',
       targetId: params.postId,
-      content: `${params.mentionedByUsername} mentioned you: "${preview}"`
+      content: `${params.mentionedByUsername} mentioned you${params.inComment ? ' in a comment' : ''}: "${preview}"`
+    });
+  }
+
+  /**
+   * Create notification when someone publishes a variation of your recipe
+   */
+  static async notifyRecipeForked(params: {
+    originalAuthorId: string;
+    postId: string;
+    forkedByUserId: string;
+    forkedByUsername: string;
+    forkedByAvatar?: string;
+    recipeName: string;
+  }): Promise<void> {
+    await this.createNotification({
+      userId: params.originalAuthorId,
+      type: 'recipe_forked',
+      actorId: params.forkedByUserId,
+      actorUsername: params.forkedByUsername,
+      actorAvatarUrl: params.forkedByAvatar,
+      targetType: 'post',
+      targetId: params.postId,
+      content: `${params.forkedByUsername} published a variation of your recipe "${params.recipeName}"`
+    });
+  }
+
+  /**
+   * Tell an author that moderators hid, removed or restored their post.
+   * Not covered by notification preferences, so it is always shown in-app.
+   */
+  static async notifyPostModerated(params: {
+    authorId: string;
+    postId: string;
+    action: 'hidden' | 'removed' | 'restored';
+    reason?: string;
+  }): Promise<void> {
+    const messages = {
+      hidden: 'Your post was hidden while moderators review reports about it',
+      removed: 'Your post was removed by moderators',
+      restored: 'Your post was reviewed and is visible again'
+    };
+
+    await this.createNotification({
+      userId: params.authorId,
+      type: 'moderation',
+      actorId: 'system',
+      actorUsername: 'Moderators',
+      targetType: 'post',
+      targetId: params.postId,
+      content: params.reason ? `${messages[params.action]}: ${params.reason}` : messages[params.action]
     });
   }
 
@@ -275,6 +501,7 @@ export class NotificationService {
       content: item.content,
       is_read: item.is_read,
       created_at: item.created_at,
+      actor_count: item.actor_count,
       ttl: item.ttl
     }));
 
@@ -334,6 +561,8 @@ export class NotificationService {
     );
 
     logger.info('Notification marked as read', { userId, notificationId });
+
+    await this.pushToUser(userId);
   }
 
   /**
@@ -367,6 +596,10 @@ export class NotificationService {
 
     logger.info('All notifications marked as read', { userId, count: markedCount });
 
+    if (markedCount > 0) {
+      await this.pushToUser(userId);
+    }
+
     return markedCount;
   }
 
@@ -395,5 +628,19 @@ export class NotificationService {
     await DynamoDBHelper.delete(notification.PK, notification.SK);
 
     logger.info('Notification deleted', { userId, notificationId });
+
+    if (!notification.is_read) {
+      await this.pushToUser(userId);
+    }
+  }
+
+  /**
+   * Push a new notification and the unread count to the user's connected sessions
+   */
+  private static async pushToUser(userId: string, notification?: Notification): Promise<void> {
+    await RealtimeService.sendToUser(userId, async () => [
+      ...(notification ? [{ type: 'notification' as const, notification }] : []),
+      { type: 'unread_count' as const, unread_count: await this.getUnreadCount(userId) }
+    ]);
   }
 }
@@ -0,0 +1,66 @@
+/**
+ * Health Goals
+ * Checks per-serving nutrition against the user's health goals
+ */
+
+import { HealthGoal, HealthGoalCheck } from '../../utils/types';
+
+export interface NutrientTotals {
+  calories: number;
+  protein: number; // g
+  carbs: number; // g
+  fat: number; // g
+  fiber: number; // g
+  sodium: number; // mg
+}
+
+interface GoalTarget {
+  nutrient: keyof NutrientTotals;
+  max?: number;
+  min?: number;
+  unit: string;
+}
+
+/**
+ * Per-serving targets, matching the guidance given to the model in the recipe prompt
+ */
+export const HEALTH_GOAL_TARGETS: { [goal in HealthGoal]: GoalTarget } = {
+  weight_loss: { nutrient: 'calories', max: 500, unit: 'kcal' },
+  muscle_gain: { nutrient: 'protein', min: 30, unit: 'g' },
+  general_health: { nutrient: 'sodium', max: 800, unit: 'mg' }
+};
+
+export const HEALTH_GOALS = Object.keys(HEALTH_GOAL_TARGETS) as HealthGoal[];
+
+/**
+ * Check one serving against each goal; unknown goals are ignored
+ */
+export function checkHealthGoals(perServing: NutrientTotals, goals: string[] | undefined): HealthGoalCheck[] {
+  return (goals || [])
+    .filter((goal): goal is HealthGoal => goal in HEALTH_GOAL_TARGETS)
+    .map(goal => {
+      const { nutrient, max, min, unit } = HEALTH_GOAL_TARGETS[goal];
+      const value = Math.round(perServing[nutrient]);
+
+      if (max !== undefined) {
+        const met = value <= max;
+        return {
+          goal,
+          met,
+          value,
+          target: max,
+          reason: `${value} ${unit} ${nutrient} per serving (${met ? 'within' : 'above'} ${max} ${unit})`
+        };
+      }
+
+      const target = min as number;
+      const met = value >= target;
+      return {
+        goal,
+        met,
+        value,
+        target,
+        reason: `${value} ${unit} ${nutrient} per serving (${met ? 'at least' : 'below'} ${target} ${unit})`
+      };
+    });
+}
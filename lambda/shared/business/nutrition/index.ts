@@ -0,0 +1,3 @@
+export * from './nutrient-table';
+export * from './health-goals';
+export * from './nutrition-calculator';
@@ -0,0 +1,173 @@
+/**
+ * Nutrient Table
+ * Nutrients per 100 g for common ingredients, keyed by MasterIngredient id
+ * (IngredientNormalizer.generateId, so accents are stripped: "thịt bò" → "thit-bo")
+ */
+
+export interface NutrientProfile {
+  calories: number; // kcal
+  protein: number; // g
+  carbs: number; // g
+  fat: number; // g
+  fiber: number; // g
+  sodium: number; // mg
+  density?: number; // g per ml for liquids and powders (defaults to 1)
+  unit_grams?: { [unit: string]: number }; // Weight of one củ/quả/tép...; '' is a bare count ("2 trứng")
+}
+
+type Row = [number, number, number, number, number, number];
+
+function profile(
+  [calories, protein, carbs, fat, fiber, sodium]: Row,
+  extra: Pick<NutrientProfile, 'density' | 'unit_grams'> = {}
+): NutrientProfile {
+  return { calories, protein, carbs, fat, fiber, sodium, ...extra };
+}
+
+export const NUTRIENT_TABLE: { [ingredientId: string]: NutrientProfile } = {
+  // Meat, fish, eggs                  kcal  prot  carb  fat   fiber sodium
+  'thit-heo': profile([197, 19, 0, 13, 0, 55]),
+  'thit-nac': profile([139, 21, 0, 5.5, 0, 60]),
+  'thit-ba-chi': profile([518, 9.3, 0, 53, 0, 32]),
+  'thit-bam': profile([263, 17, 0, 21, 0, 73]),
+  'suon-heo': profile([277, 16, 0, 23, 0, 80]),
+  'thit-bo': profile([198, 26, 0, 10, 0, 60]),
+  'thit-ga': profile([172, 20, 0, 10, 0, 70]),
+  'uc-ga': profile([120, 23, 0, 2.6, 0, 45]),
+  'dui-ga': profile([177, 18, 0, 11, 0, 85], { unit_grams: { 'cái': 150, '': 150 } }),
+  'canh-ga': profile([203, 18, 0, 14, 0, 82], { unit_grams: { 'cái': 90, '': 90 } }),
+  'thit-vit': profile([337, 12, 0, 28, 0, 63]),
+  'xuc-xich': profile([301, 12, 2, 27, 0, 827], { unit_grams: { 'cây': 50, 'cái': 50, '': 50 } }),
+  'cha-lua': profile([200, 14, 5, 14, 0, 800]),
+  'ca': profile([120, 20, 0, 4, 0, 60]),
+  'ca-hoi': profile([208, 20, 0, 13, 0, 59]),
+  'ca-thu': profile([205, 19, 0, 14, 0, 90]),
+  'ca-loc': profile([97, 18, 0, 2.7, 0, 60]),
+  'tom': profile([85, 20, 0, 0.5, 0, 119], { unit_grams: { 'con': 15, '': 15 } }),
+  'muc': profile([92, 16, 3.1, 1.4, 0, 44], { unit_grams: { 'con': 150, '': 150 } }),
+  'cua': profile([87, 18, 0, 1.1, 0, 293], { unit_grams: { 'con': 200, '': 200 } }),
+  'trung-ga': profile([143, 12.6, 0.7, 9.5, 0, 142], { unit_grams: { 'quả': 50, 'trái': 50, 'cái': 50, '': 50 } }),
+  'trung-vit': profile([185, 13, 1.5, 14, 0, 146], { unit_grams: { 'quả': 65, 'trái': 65, 'cái': 65, '': 65 } }),
+  'dau-hu': profile([76, 8.1, 1.9, 4.8, 0.3, 7], { unit_grams: { 'miếng': 100, 'bìa': 150, '': 100 } }),
+
+  // Rice, noodles, bread
+  'gao': profile([360, 6.6, 79, 0.6, 1.3, 1]),
+  'com': profile([130, 2.7, 28, 0.3, 0.4, 1], { unit_grams: { 'chén': 150, 'bát': 150 } }),
+  'bun': profile([110, 1.7, 25, 0.2, 0.5, 10]),
+  'banh-pho': profile([141, 3, 32, 0.3, 0.6, 10]),
+  'mien': profile([351, 0.2, 86, 0.1, 0.5, 10]),
+  'mi': profile([371, 13, 75, 1.5, 3.2, 6], { unit_grams: { 'gói': 75, 'vắt': 75 } }),
+  'banh-mi': profile([265, 9, 49, 3.2, 2.7, 491], { unit_grams: { 'ổ': 80, 'cái': 80, '': 80 } }),
+  'khoai-tay': profile([77, 2, 17, 0.1, 2.2, 6], { unit_grams: { 'củ': 150, '': 150 } }),
+  'khoai-lang': profile([86, 1.6, 20, 0.1, 3, 55], { unit_grams: { 'củ': 200, '': 200 } }),
+  'bap': profile([86, 3.3, 19, 1.4, 2, 15], { unit_grams: { 'trái': 150, 'bắp': 150, '': 150 } }),
+
+  // Vegetables and herbs
+  'ca-tim': profile([25, 1, 5.9, 0.2, 3, 2], { unit_grams: { 'quả': 250, 'trái': 250, '': 250 } }),
+  'ca-rot': profile([41, 0.9, 10, 0.2, 2.8, 69], { unit_grams: { 'củ': 70, '': 70 } }),
+  'ca-chua': profile([18, 0.9, 3.9, 0.2, 1.2, 5], { unit_grams: { 'quả': 120, 'trái': 120, '': 120 } }),
+  'dua-leo': profile([15, 0.7, 3.6, 0.1, 0.5, 2], { unit_grams: { 'quả': 200, 'trái': 200, '': 200 } }),
+  'hanh-tay': profile([40, 1.1, 9.3, 0.1, 1.7, 4], { unit_grams: { 'củ': 150, '': 150 } }),
+  'hanh-la': profile([32, 1.8, 7.3, 0.2, 2.6, 16], { unit_grams: { 'cây': 15, 'nhánh': 15, 'bó': 100, '': 15 } }),
+  'hanh-tim': profile([72, 2.5, 17, 0.1, 3.2, 12], { unit_grams: { 'củ': 10, 'tép': 10, '': 10 } }),
+  'toi': profile([149, 6.4, 33, 0.5, 2.1, 17], { unit_grams: { 'tép': 5, 'củ': 40, '': 5 } }),
+  'gung': profile([80, 1.8, 18, 0.8, 2, 13], { unit_grams: { 'củ': 30, 'lát': 3, '': 30 } }),
+  'sa': profile([99, 1.8, 25, 0.5, 0, 6], { unit_grams: { 'cây': 20, 'nhánh': 20, '': 20 } }),
+  'ot': profile([40, 1.9, 8.8, 0.4, 1.5, 9], { unit_grams: { 'quả': 5, 'trái': 5, '': 5 } }),
+  'rau-muong': profile([19, 2.6, 3.1, 0.2, 2.1, 113], { unit_grams: { 'bó': 300, 'mớ': 300 } }),
+  'cai-ngot': profile([16, 1.2, 3.2, 0.2, 1.2, 9], { unit_grams: { 'bó': 300, 'mớ': 300 } }),
+  'cai-xanh': profile([27, 2.9, 4.7, 0.4, 3.2, 20], { unit_grams: { 'bó': 300, 'mớ': 300 } }),
+  'cai-thao': profile([16, 1.2, 3.2, 0.2, 1.2, 9]),
+  'bap-cai': profile([25, 1.3, 5.8, 0.1, 2.5, 18]),
+  'bi-do': profile([26, 1, 6.5, 0.1, 0.5, 1]),
+  'bi-xanh': profile([13, 0.4, 3, 0.2, 2.9, 111]),
+  'nam': profile([22, 3.1, 3.3, 0.3, 1, 5]),
+  'gia': profile([30, 3, 5.9, 0.2, 1.8, 6]),
+  'dau-que': profile([31, 1.8, 7, 0.2, 2.7, 6]),
+  'dau-phong': profile([567, 26, 16, 49, 8.5, 18]),
+  'dau-xanh': profile([347, 24, 63, 1.2, 16, 15]),
+  'ngo': profile([23, 2.1, 3.7, 0.5, 2.8, 46], { unit_grams: { 'bó': 50, 'nhánh': 5 } }),
+  'rau-thom': profile([30, 2.5, 5, 0.5, 3, 10], { unit_grams: { 'bó': 50, 'nắm': 20 } }),
+  'chanh': profile([30, 0.7, 11, 0.2, 2.8, 2], { unit_grams: { 'quả': 50, 'trái': 50, '': 50 } }),
+
+  // Seasonings, sauces, fats
+  'duong': profile([387, 0, 100, 0, 0, 1], { density: 0.85 }),
+  'muoi': profile([0, 0, 0, 0, 0, 38758], { density: 1.2 }),
+  'tieu': profile([251, 10, 64, 3.3, 25, 20], { density: 0.45 }),
+  'bot-ngot': profile([0, 0, 0, 0, 0, 12300], { density: 0.6 }),
+  'hat-nem': profile([180, 10, 25, 3, 0, 17000], { density: 0.6 }),
+  'nuoc-mam': profile([35, 5, 3.6, 0, 0, 7720], { density: 1.2 }),
+  'nuoc-tuong': profile([53, 8.1, 4.9, 0.6, 0.8, 5493], { density: 1.15 }),
+  'dau-hao': profile([51, 1.4, 11, 0.3, 0.3, 2733], { density: 1.2 }),
+  'giam': profile([18, 0, 0, 0, 0, 2]),
+  'dau-an': profile([884, 0, 0, 100, 0, 0], { density: 0.92 }),
+  'mo-heo': profile([898, 0, 0, 100, 0, 0], { density: 0.92 }),
+  'sua': profile([61, 3.2, 4.8, 3.3, 0, 43], { density: 1.03 }),
+  'nuoc-cot-dua': profile([230, 2.3, 6, 24, 2.2, 15], { density: 1 }),
+  'nuoc-dua': profile([19, 0.7, 3.7, 0.2, 1.1, 105]),
+  'nuoc': profile([0, 0, 0, 0, 0, 0])
+};
+
+/**
+ * Other names for the same ingredient, by MasterIngredient id
+ * Bare ids that collide once accents are stripped ("bò"/"bơ" → "bo", "đậu"/"dầu" → "dau") are left out.
+ */
+export const NUTRIENT_ALIASES: { [ingredientId: string]: string } = {
+  'heo': 'thit-heo',
+  'thit-lon': 'thit-heo',
+  'thit-heo-nac': 'thit-nac',
+  'thit-than': 'thit-nac',
+  'ba-chi': 'thit-ba-chi',
+  'ba-roi': 'thit-ba-chi',
+  'thit-ba-roi': 'thit-ba-chi',
+  'thit-xay': 'thit-bam',
+  'thit-heo-xay': 'thit-bam',
+  'thit-heo-bam': 'thit-bam',
+  'suon': 'suon-heo',
+  'suon-non': 'suon-heo',
+  'ga': 'thit-ga',
+  'vit': 'thit-vit',
+  'ca-basa': 'ca',
+  'ca-ro': 'ca',
+  'ca-ro-phi': 'ca',
+  'ca-dieu-hong': 'ca',
+  'ca-chep': 'ca',
+  'ca-tre': 'ca',
+  'ca-kho': 'ca',
+  'ca-ngu': 'ca',
+  'ca-nuc': 'ca',
+  'trung': 'trung-ga',
+  'dau-phu': 'dau-hu',
+  'tau-hu': 'dau-hu',
+  'pho': 'banh-pho',
+  'mi-goi': 'mi',
+  'khoai-mi': 'khoai-lang',
+  'ngo-ngot': 'bap',
+  'hanh': 'hanh-la',
+  'hanh-phi': 'hanh-tim',
+  'hanh-kho': 'hanh-tim',
+  'ot-hiem': 'ot',
+  'cai-be-xanh': 'cai-xanh',
+  'bi-dao': 'bi-xanh',
+  'ca-phao': 'ca-tim',
+  'nam-rom': 'nam',
+  'nam-huong': 'nam',
+  'gia-do': 'gia',
+  'dau-dua': 'dau-que',
+  'lac': 'dau-phong',
+  'ngo-ri': 'ngo',
+  'rau-mui': 'ngo',
+  'hung-que': 'rau-thom',
+  'tia-to': 'rau-thom',
+  'kinh-gioi': 'rau-thom',
+  'xi-dau': 'nuoc-tuong',
+  'tuong': 'nuoc-tuong',
+  'dau-oliu': 'dau-an',
+  'dau-me': 'dau-an',
+  'dau-dieu': 'dau-an',
+  'tieu-xay': 'tieu',
+  'hat-tieu': 'tieu',
+  'sua-tuoi': 'sua',
+  'nuoc-dung': 'nuoc',
+  'nuoc-loc': 'nuoc'
+};
@@ -0,0 +1,211 @@
+/**
+ * Nutrition Calculator
+ * Computes nutrition from a recipe's ingredients using the local nutrient table
+ * instead of trusting the values written by the model
+ */
+
+import { Recipe, NutritionalInfo } from '../../utils/types';
+import { IngredientNormalizer } from '../ingredients/ingredient-normalizer';
+import { normalizeUnit, parseQuantity, toBaseUnit } from '../ingredients/unit-converter';
+import { DEFAULT_SERVINGS } from '../ingredients/recipe-scaler';
+import { NUTRIENT_TABLE, NUTRIENT_ALIASES, NutrientProfile } from './nutrient-table';
+import { NutrientTotals, checkHealthGoals } from './health-goals';
+
+export interface NutritionIngredient {
+  name: string;
+  quantity?: string | number | null;
+  unit?: string | null;
+}
+
+export interface NutritionResult {
+  total: NutrientTotals;
+  per_serving: NutrientTotals;
+  servings: number;
+  coverage: number; // Share of measured ingredients converted to grams (0-1)
+  unmatched: string[]; // Measured ingredients missing from the table or with an unknown unit
+}
+
+/**
+ * Below this coverage the computed numbers undercount too much to replace the model's
+ */
+export const MIN_COVERAGE = 0.6;
+
+const ML_PER_MUONG = 15;
+
+/**
+ * Single-word ids that are never used as a prefix match: "ca" is both cá (fish) and cà (eggplant, tomato)
+ */
+const AMBIGUOUS_PREFIXES = new Set(['ca']);
+
+const NUTRIENTS: (keyof NutrientTotals)[] = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sodium'];
+
+export class NutritionCalculator {
+
+  /**
+   * Find the nutrient profile for an ingredient name.
+   * Tries the MasterIngredient id, then aliases, then shorter prefixes ("thit-ba-chi-heo" → "thit-ba-chi").
+   */
+  static findProfile(name: string): NutrientProfile | null {
+    const id = IngredientNormalizer.generateId(name.replace(/\(.*?\)/g, ' '));
+    const parts = id.split('-').filter(Boolean);
+
+    for (let length = parts.length; length > 0; length--) {
+      const candidate = parts.slice(0, length).join('-');
+      if (length < parts.length && AMBIGUOUS_PREFIXES.has(candidate)) {
+        continue;
+      }
+      const profile = NUTRIENT_TABLE[candidate] || NUTRIENT_TABLE[NUTRIENT_ALIASES[candidate]];
+      if (profile) {
+        return profile;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Convert an amount to grams. Returns null for non-numeric amounts and units without a known weight.
+   */
+  static toGrams(
+    quantity: string | number | null | undefined,
+    unit: string | null | undefined,
+    profile: NutrientProfile
+  ): number | null {
+    let amount = quantity;
+    let unitText = unit?.trim() || '';
+
+    // "500g" with the unit inside the quantity
+    if (!unitText && typeof amount === 'string') {
+      const inline = amount.trim().match(/^([\d.,/\s]*\d)\s*([^\d\s.,/].*)$/);
+      if (inline) {
+        amount = inline[1];
+        unitText = inline[2];
+      }
+    }
+
+    const value = parseQuantity(amount);
+    if (value === null) {
+      return null;
+    }
+
+    const base = toBaseUnit(value, unitText);
+    const density = profile.density ?? 1;
+
+    if (base.unit === 'g') return base.quantity;
+    if (base.unit === 'ml') return base.quantity * density;
+    if (base.unit === 'muỗng') return base.quantity * ML_PER_MUONG * density;
+
+    const unitGrams = profile.unit_grams?.[normalizeUnit(unitText)];
+    return unitGrams !== undefined ? value * unitGrams : null;
+  }
+
+  /**
+   * Sum nutrients over the ingredients and divide by servings.
+   * Amounts like "vừa đủ" are skipped and don't count against coverage.
+   */
+  static calculate(ingredients: NutritionIngredient[], servings?: number): NutritionResult {
+    const total = this.emptyTotals();
+    const unmatched: string[] = [];
+    let measured = 0;
+
+    for (const ingredient of ingredients) {
+      if (parseQuantity(this.leadingAmount(ingredient.quantity)) === null) {
+        continue;
+      }
+      measured++;
+
+      const profile = this.findProfile(ingredient.name);
+      const grams = profile ? this.toGrams(ingredient.quantity, ingredient.unit, profile) : null;
+      if (!profile || grams === null) {
+        unmatched.push(ingredient.name);
+        continue;
+      }
+
+      for (const nutrient of NUTRIENTS) {
+        total[nutrient] += profile[nutrient] * grams / 100;
+      }
+    }
+
+    const count = servings && servings > 0 ? servings : DEFAULT_SERVINGS;
+    const perServing = this.emptyTotals();
+    for (const nutrient of NUTRIENTS) {
+      perServing[nutrient] = total[nutrient] / count;
+    }
+
+    return {
+      total,
+      per_serving: perServing,
+      servings: count,
+      coverage: measured > 0 ? (measured - unmatched.length) / measured : 0,
+      unmatched
+    };
+  }
+
+  /**
+   * Per-serving result in the NutritionalInfo shape stored on recipes
+   */
+  static toNutritionalInfo(result: NutritionResult): NutritionalInfo {
+    const perServing = result.per_serving;
+    return {
+      calories: Math.round(perServing.calories),
+      protein: `${Math.round(perServing.protein)}g`,
+      carbs: `${Math.round(perServing.carbs)}g`,
+      fat: `${Math.round(perServing.fat)}g`,
+      fiber: `${Math.round(perServing.fiber)}g`,
+      sodium: `${Math.round(perServing.sodium)}mg`,
+      source: 'computed',
+      coverage: Math.round(result.coverage * 100) / 100
+    };
+  }
+
+  /**
+   * Replace a recipe's nutrition with computed values and check them against health goals.
+   * When too few ingredients can be measured, the model's values are kept (marked as 'ai') and goals aren't checked.
+   */
+  static analyzeRecipe<T extends Pick<Recipe, 'ingredients' | 'servings' | 'nutritional_info'>>(
+    recipe: T,
+    healthGoals?: string[]
+  ): T & Pick<Recipe, 'health_goal_checks'> {
+    const result = this.calculate(
+      (recipe.ingredients || []).map(ingredient => ({
+        name: ingredient.ingredient_name,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit
+      })),
+      recipe.servings
+    );
+
+    if (result.coverage < MIN_COVERAGE) {
+      return {
+        ...recipe,
+        nutritional_info: recipe.nutritional_info
+          ? { ...recipe.nutritional_info, source: 'ai' }
+          : undefined
+      };
+    }
+
+    const analyzed: T & Pick<Recipe, 'health_goal_checks'> = {
+      ...recipe,
+      nutritional_info: this.toNutritionalInfo(result)
+    };
+    if (healthGoals && healthGoals.length > 0) {
+      analyzed.health_goal_checks = checkHealthGoals(result.per_serving, healthGoals);
+    }
+    return analyzed;
+  }
+
+  /**
+   * Whether every checked goal is met (recipes without checks pass)
+   */
+  static meetsHealthGoals(recipe: Pick<Recipe, 'health_goal_checks'>): boolean {
+    return (recipe.health_goal_checks || []).every(check => check.met);
+  }
+
+  private static leadingAmount(quantity: string | number | null | undefined): string | number | null | undefined {
+    if (typeof quantity !== 'string') return quantity;
+    return quantity.trim().match(/^[\d.,/\s]*\d/)?.[0] ?? quantity;
+  }
+
+  private static emptyTotals(): NutrientTotals {
+    return { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sodium: 0 };
+  }
+}
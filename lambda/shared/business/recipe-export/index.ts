@@ -0,0 +1,2 @@
+export * from './recipe-export-service';
+export * from './recipe-pdf';
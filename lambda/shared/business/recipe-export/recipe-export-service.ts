@@ -0,0 +1,253 @@
+/**
+ * Recipe Export Service
+ * Renders saved recipes and recipe posts as Markdown, schema.org JSON-LD or printable PDF
+ */
+
+import { getCloudFrontUrl, uploadExport } from '../../storage/s3-service';
+import { logger } from '../../monitoring/logger';
+import { AppError } from '../../errors/responses';
+import { normalizeVietnamese } from '../../utils/vietnamese-normalizer';
+import { RecipePdf, PdfRecipe } from './recipe-pdf';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://awssmartcookingss.com';
+
+export type ExportFormat = 'pdf' | 'markdown' | 'jsonld';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'markdown', 'jsonld'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  markdown: 'text/markdown; charset=utf-8',
+  jsonld: 'application/ld+json'
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  pdf: 'pdf',
+  markdown: 'md',
+  jsonld: 'jsonld'
+};
+
+const SOURCE_LABELS: Record<RecipeAttribution['source_type'], string> = {
+  ai_suggestion: 'Smart Cooking AI suggestion',
+  post: 'Smart Cooking community post',
+  manual: 'Own recipe',
+  import: 'Imported from the web'
+};
+
+/**
+ * Where a recipe came from; mirrors the source tracking fields of SavedRecipe
+ */
+export interface RecipeAttribution {
+  source_type: 'ai_suggestion' | 'post' | 'manual' | 'import';
+  source_id?: string;
+  original_author_id?: string;
+  original_author_username?: string;
+  original_post_url?: string;
+  is_modified?: boolean;
+  // Fork lineage, oldest first
+  ancestry?: Array<{ post_id: string; user_id: string; username?: string; recipe_name?: string }>;
+}
+
+/**
+ * A recipe in the shape every export format is rendered from
+ */
+export interface ExportableRecipe {
+  title: string;
+  servings?: number;
+  ingredients: Array<{ name: string; quantity?: string; unit?: string; notes?: string }>;
+  steps: Array<{ description: string; duration_minutes?: number | null }>;
+  images?: string[]; // CDN URLs or S3 keys
+  notes?: string;
+  published_by?: string; // Username of the post author when exporting a post
+  url?: string; // Where the recipe lives in the app
+  attribution: RecipeAttribution;
+}
+
+export interface ExportResult {
+  format: ExportFormat;
+  filename: string;
+  content_type: string;
+  content?: string; // Markdown and JSON-LD are returned inline
+  download_url?: string; // PDFs are stored and linked; with images they can outgrow a Lambda response
+  expires_in?: number;
+}
+
+export class RecipeExportService {
+  /**
+   * Validate the ?format= query parameter; PDF when it is missing
+   */
+  static parseFormat(value?: string | null): ExportFormat {
+    const format = (value || 'pdf').toLowerCase();
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new AppError(400, 'invalid_format', `format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+    return format as ExportFormat;
+  }
+
+  /**
+   * Export one recipe in the requested format
+   */
+  static async exportRecipe(userId: string, recipe: ExportableRecipe, format: ExportFormat): Promise<ExportResult> {
+    const filename = `${this.slug(recipe.title)}.${EXTENSIONS[format]}`;
+
+    if (format === 'pdf') {
+      return this.storePdf(userId, filename, await RecipePdf.render([this.toPdfRecipe(recipe)]));
+    }
+
+    const content = format === 'markdown'
+      ? this.toMarkdown(recipe)
+      : JSON.stringify(this.toJsonLd(recipe), null, 2);
+
+    return { format, filename, content_type: CONTENT_TYPES[format], content };
+  }
+
+  /**
+   * Export several recipes as one PDF with a cover and table of contents
+   */
+  static async exportCookbook(userId: string, title: string, recipes: ExportableRecipe[]): Promise<ExportResult> {
+    const pdf = await RecipePdf.render(recipes.map(recipe => this.toPdfRecipe(recipe)), { title });
+    return this.storePdf(userId, `${this.slug(title)}.pdf`, pdf);
+  }
+
+  static toMarkdown(recipe: ExportableRecipe): string {
+    const lines: string[] = [`# ${recipe.title}`, ''];
+
+    for (const line of this.attributionLines(recipe)) {
+      lines.push(`> ${line}  `);
+    }
+    lines.push('');
+
+    if (recipe.servings) {
+      lines.push(`**Servings:** ${recipe.servings}`, '');
+    }
+
+    const images = this.imageUrls(recipe);
+    for (const image of images) {
+      lines.push(`![${recipe.title}](${image})`);
+    }
+    if (images.length > 0) lines.push('');
+
+    lines.push('## Ingredients', '');
+    for (const ingredient of recipe.ingredients) {
+      lines.push(`- ${this.formatIngredient(ingredient)}`);
+    }
+
+    lines.push('', '## Instructions', '');
+    recipe.steps.forEach((step, i) => {
+      lines.push(`${i + 1}. ${step.description}${step.duration_minutes ? ` (${step.duration_minutes} min)` : ''}`);
+    });
+
+    if (recipe.notes) {
+      lines.push('', '## Notes', '', recipe.notes);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  static toJsonLd(recipe: ExportableRecipe): Record<string, unknown> {
+    const { attribution } = recipe;
+    const images = this.imageUrls(recipe);
+    const basedOn = [
+      attribution.original_post_url,
+      ...(attribution.ancestry || []).map(ancestor => `${FRONTEND_URL}/posts/${ancestor.post_id}`)
+    ].filter((url): url is string => !!url);
+    const author = attribution.original_author_username || recipe.published_by;
+
+    return {
+      '@context': 'https://schema.org',
+      '@type': 'Recipe',
+      name: recipe.title,
+      ...(recipe.url && { url: recipe.url }),
+      ...(images.length > 0 && { image: images }),
+      ...(author && { author: { '@type': 'Person', name: author } }),
+      ...(recipe.servings && { recipeYield: String(recipe.servings) }),
+      recipeIngredient: recipe.ingredients.map(ingredient => this.formatIngredient(ingredient)),
+      recipeInstructions: recipe.steps.map((step, i) => ({
+        '@type': 'HowToStep',
+        position: i + 1,
+        text: step.description,
+        ...(step.duration_minutes && { timeRequired: `PT${step.duration_minutes}M` })
+      })),
+      ...(basedOn.length > 0 && { isBasedOn: Array.from(new Set(basedOn)) }),
+      creditText: this.attributionLines(recipe).join('. ')
+    };
+  }
+
+  /**
+   * Human-readable attribution shown on every exported recipe
+   */
+  static attributionLines(recipe: ExportableRecipe): string[] {
+    const { attribution } = recipe;
+    const lines = [`Source: ${SOURCE_LABELS[attribution.source_type]}`];
+
+    if (recipe.published_by) {
+      lines.push(`Published by @${recipe.published_by}`);
+    }
+    if (attribution.original_author_username) {
+      const prefix = attribution.source_type === 'import' ? '' : '@';
+      lines.push(`Original author: ${prefix}${attribution.original_author_username}`);
+    }
+    if (attribution.original_post_url) {
+      lines.push(`Original: ${attribution.original_post_url}`);
+    }
+    if (attribution.ancestry && attribution.ancestry.length > 0) {
+      const chain = attribution.ancestry
+        .map(ancestor => `${ancestor.recipe_name || 'recipe'} by @${ancestor.username || 'unknown'}`)
+        .join(' → ');
+      lines.push(`Adapted from: ${chain}`);
+    }
+    if (attribution.is_modified) {
+      lines.push('Modified from the original');
+    }
+
+    return lines;
+  }
+
+  /**
+   * Image URLs on the CDN. Keys are turned into CDN URLs; anything hosted elsewhere is left out.
+   */
+  static imageUrls(recipe: ExportableRecipe): string[] {
+    const cdnPrefix = getCloudFrontUrl('');
+
+    return (recipe.images || [])
+      .map(image => (/^https?:\/\//i.test(image) ? image : getCloudFrontUrl(image.replace(/^\/+/, ''))))
+      .filter(url => url.startsWith(cdnPrefix));
+  }
+
+  static formatIngredient(ingredient: ExportableRecipe['ingredients'][number]): string {
+    const text = [ingredient.quantity, ingredient.unit, ingredient.name].filter(Boolean).join(' ');
+    return ingredient.notes ? `${text} (${ingredient.notes})` : text;
+  }
+
+  private static toPdfRecipe(recipe: ExportableRecipe): PdfRecipe {
+    return {
+      title: recipe.title,
+      servings: recipe.servings,
+      ingredients: recipe.ingredients.map(ingredient => this.formatIngredient(ingredient)),
+      steps: recipe.steps.map(step =>
+        step.duration_minutes ? `${step.description} (${step.duration_minutes} min)` : step.description
+      ),
+      notes: recipe.notes,
+      attribution: this.attributionLines(recipe),
+      images: this.imageUrls(recipe)
+    };
+  }
+
+  private static async storePdf(userId: string, filename: string, pdf: Buffer): Promise<ExportResult> {
+    const stored = await uploadExport(userId, filename, pdf, CONTENT_TYPES.pdf);
+
+    logger.info('Recipe PDF exported', { userId, filename, size: pdf.length });
+
+    return {
+      format: 'pdf',
+      filename,
+      content_type: CONTENT_TYPES.pdf,
+      download_url: stored.download_url,
+      expires_in: stored.expires_in
+    };
+  }
+
+  private static slug(title: string): string {
+    return normalizeVietnamese(title).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'recipe';
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Recipe PDF
+ * Printable A4 layout for a single recipe, or a cookbook with a cover and table of contents
+ */
+
+import PDFDocument from 'pdfkit';
+import { getCloudFrontUrl } from '../../storage/s3-service';
+import { logger } from '../../monitoring/logger';
+
+/**
+ * Loads fonts and images from the CDN; replaced with fixtures in tests
+ */
+export type AssetLoader = (url: string) => Promise<Buffer>;
+
+/**
+ * A recipe with its text already formatted for print
+ */
+export interface PdfRecipe {
+  title: string;
+  servings?: number;
+  ingredients: string[];
+  steps: string[];
+  notes?: string;
+  attribution: string[];
+  images: string[]; // CDN URLs
+}
+
+// The built-in PDF fonts have no Vietnamese glyphs, so a Unicode font is embedded from the CDN
+const FONT_KEYS = {
+  regular: process.env.EXPORT_FONT_KEY || 'assets/fonts/NotoSans-Regular.ttf',
+  bold: process.env.EXPORT_FONT_BOLD_KEY || 'assets/fonts/NotoSans-Bold.ttf'
+};
+
+const ASSET_TIMEOUT_MS = 5000;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGES_PER_RECIPE = 3;
+const TOC_ENTRIES_PER_PAGE = 30;
+const MARGIN = 50;
+
+interface Fonts {
+  regular: string;
+  bold: string;
+  unicode: boolean;
+}
+
+const fetchAsset: AssetLoader = async (url) => {
+  const response = await fetch(url, { signal: AbortSignal.timeout(ASSET_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+};
+
+export class RecipePdf {
+  private static loader: AssetLoader | null = null;
+  // Kept for the life of the container once loaded
+  private static fontData: { regular: Buffer; bold: Buffer } | null = null;
+
+  static setAssetLoader(loader: AssetLoader | null): void {
+    this.loader = loader;
+    this.fontData = null;
+  }
+
+  /**
+   * Render recipes to a PDF. With a title the document is a cookbook: cover, table of
+   * contents with page numbers and links, then one recipe per page.
+   */
+  static async render(recipes: PdfRecipe[], options: { title?: string } = {}): Promise<Buffer> {
+    const [fontData, images] = await Promise.all([this.loadFonts(), this.loadImages(recipes)]);
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: MARGIN,
+      bufferPages: true,
+      info: { Title: options.title || recipes[0]?.title || 'Recipe' }
+    });
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    let fonts: Fonts = { regular: 'Helvetica', bold: 'Helvetica-Bold', unicode: false };
+    if (fontData) {
+      doc.registerFont('Body', fontData.regular);
+      doc.registerFont('Body-Bold', fontData.bold);
+      fonts = { regular: 'Body', bold: 'Body-Bold', unicode: true };
+    }
+
+    const cookbook = !!options.title;
+    const tocPages = cookbook ? Math.max(1, Math.ceil(recipes.length / TOC_ENTRIES_PER_PAGE)) : 0;
+
+    if (cookbook) {
+      this.drawCover(doc, fonts, options.title!, recipes.length);
+      for (let i = 0; i < tocPages; i++) doc.addPage();
+    }
+
+    const startPages: number[] = [];
+    recipes.forEach((recipe, i) => {
+      if (cookbook || i > 0) doc.addPage();
+      startPages.push(doc.bufferedPageRange().count - 1);
+      doc.addNamedDestination(`recipe-${i}`);
+      this.drawRecipe(doc, fonts, recipe, images);
+    });
+
+    if (cookbook) {
+      this.drawContents(doc, fonts, recipes, startPages, tocPages);
+      this.drawPageNumbers(doc, fonts);
+    }
+
+    doc.end();
+    return finished;
+  }
+
+  private static drawCover(doc: PDFKit.PDFDocument, fonts: Fonts, title: string, count: number): void {
+    doc.font(fonts.bold).fontSize(30).text(printable(title, fonts), MARGIN, 260, { align: 'center' });
+    doc.moveDown(0.5);
+    doc.font(fonts.regular).fontSize(13).fillColor('#555555')
+      .text(`${count} ${count === 1 ? 'recipe' : 'recipes'}`, { align: 'center' });
+    doc.fillColor('black');
+  }
+
+  private static drawContents(
+    doc: PDFKit.PDFDocument,
+    fonts: Fonts,
+    recipes: PdfRecipe[],
+    startPages: number[],
+    tocPages: number
+  ): void {
+    const width = doc.page.width - MARGIN * 2;
+
+    for (let page = 0; page < tocPages; page++) {
+      doc.switchToPage(1 + page);
+      let y = MARGIN;
+
+      if (page === 0) {
+        doc.font(fonts.bold).fontSize(20).text('Contents', MARGIN, y);
+        y += 40;
+      }
+
+      const entries = recipes.slice(page * TOC_ENTRIES_PER_PAGE, (page + 1) * TOC_ENTRIES_PER_PAGE);
+      entries.forEach((recipe, offset) => {
+        const index = page * TOC_ENTRIES_PER_PAGE + offset;
+        const title = recipe.title.length > 70 ? `${recipe.title.slice(0, 69)}…` : recipe.title;
+
+        doc.font(fonts.regular).fontSize(12).fillColor('#1d4ed8')
+          .text(printable(title, fonts), MARGIN, y, { width: width - 40, lineBreak: false, goTo: `recipe-${index}` });
+        doc.fillColor('black').text(String(startPages[index] + 1), MARGIN, y, { width, align: 'right', lineBreak: false });
+        y += 22;
+      });
+    }
+  }
+
+  private static drawPageNumbers(doc: PDFKit.PDFDocument, fonts: Fonts): void {
+    const range = doc.bufferedPageRange();
+
+    // The cover is left unnumbered
+    for (let i = range.start + 1; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // Writing inside the bottom margin would otherwise start a new page
+      const bottom = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc.font(fonts.regular).fontSize(9).fillColor('#888888')
+        .text(String(i + 1), MARGIN, doc.page.height - 35, { width: doc.page.width - MARGIN * 2, align: 'center', lineBreak: false });
+      doc.page.margins.bottom = bottom;
+    }
+    doc.fillColor('black');
+  }
+
+  private static drawRecipe(doc: PDFKit.PDFDocument, fonts: Fonts, recipe: PdfRecipe, images: Map<string, Buffer>): void {
+    const width = doc.page.width - MARGIN * 2;
+    const text = (value: string) => printable(value, fonts);
+
+    doc.font(fonts.bold).fontSize(22).fillColor('black').text(text(recipe.title), MARGIN, MARGIN, { width });
+    doc.moveDown(0.3);
+
+    doc.font(fonts.regular).fontSize(9).fillColor('#555555');
+    for (const line of recipe.attribution) {
+      doc.text(text(line), { width });
+    }
+    doc.fillColor('black');
+
+    const pictures = recipe.images
+      .map(url => images.get(url))
+      .filter((image): image is Buffer => !!image)
+      .slice(0, MAX_IMAGES_PER_RECIPE);
+
+    if (pictures.length > 0) {
+      const gap = 10;
+      const imageWidth = (width - gap * (pictures.length - 1)) / pictures.length;
+      const imageHeight = pictures.length === 1 ? 240 : 150;
+      const top = doc.y + 10;
+
+      pictures.forEach((picture, i) => {
+        try {
+          doc.image(picture, MARGIN + i * (imageWidth + gap), top, {
+            fit: [imageWidth, imageHeight],
+            align: 'center',
+            valign: 'center'
+          });
+        } catch (error) {
+          logger.warn('Skipping unreadable image in recipe PDF', { title: recipe.title, error });
+        }
+      });
+      doc.x = MARGIN;
+      doc.y = top + imageHeight + 10;
+    }
+
+    if (recipe.servings) {
+      doc.moveDown(0.5).font(fonts.regular).fontSize(11).text(`Servings: ${recipe.servings}`, MARGIN, doc.y, { width });
+    }
+
+    doc.moveDown().font(fonts.bold).fontSize(14).text('Ingredients', MARGIN, doc.y, { width });
+    doc.moveDown(0.3).font(fonts.regular).fontSize(11);
+    for (const ingredient of recipe.ingredients) {
+      doc.text(`•  ${text(ingredient)}`, { width, indent: 10, paragraphGap: 2 });
+    }
+
+    doc.moveDown().font(fonts.bold).fontSize(14).text('Instructions', MARGIN, doc.y, { width });
+    doc.moveDown(0.3).font(fonts.regular).fontSize(11);
+    recipe.steps.forEach((step, i) => {
+      doc.text(`${i + 1}.  ${text(step)}`, { width, paragraphGap: 6 });
+    });
+
+    if (recipe.notes) {
+      doc.moveDown().font(fonts.bold).fontSize(14).text('Notes', MARGIN, doc.y, { width });
+      doc.moveDown(0.3).font(fonts.regular).fontSize(11).text(text(recipe.notes), { width });
+    }
+  }
+
+  /**
+   * The embedded Unicode font, or null to fall back to the built-in fonts
+   */
+  private static async loadFonts(): Promise<{ regular: Buffer; bold: Buffer } | null> {
+    if (this.fontData) return this.fontData;
+
+    try {
+      const load = this.loader || fetchAsset;
+      const [regular, bold] = await Promise.all([
+        load(getCloudFrontUrl(FONT_KEYS.regular)),
+        load(getCloudFrontUrl(FONT_KEYS.bold))
+      ]);
+      this.fontData = { regular, bold };
+      return this.fontData;
+    } catch (error) {
+      logger.warn('Export font unavailable, using built-in PDF fonts', { error });
+      return null;
+    }
+  }
+
+  /**
+   * JPEG and PNG images by URL; anything else or anything that fails to load is skipped
+   */
+  private static async loadImages(recipes: PdfRecipe[]): Promise<Map<string, Buffer>> {
+    const urls = Array.from(new Set(recipes.flatMap(recipe => recipe.images.slice(0, MAX_IMAGES_PER_RECIPE))));
+    const load = this.loader || fetchAsset;
+    const images = new Map<string, Buffer>();
+
+    await Promise.all(urls.map(async (url) => {
+      try {
+        const data = await load(url);
+        if (data.length <= MAX_IMAGE_BYTES && isJpegOrPng(data)) {
+          images.set(url, data);
+        }
+      } catch (error) {
+        logger.warn('Failed to load image for recipe PDF', { url, error });
+      }
+    }));
+
+    return images;
+  }
+}
+
+function isJpegOrPng(data: Buffer): boolean {
+  const jpeg = data[0] === 0xff && data[1] === 0xd8;
+  const png = data.subarray(0, 4).toString('hex') === '89504e47';
+  return jpeg || png;
+}
+
+/**
+ * Text as the current font can draw it. The built-in fonts only cover Latin-1,
+ * so Vietnamese falls back to unaccented letters.
+ */
+function printable(value: string, fonts: Fonts): string {
+  if (fonts.unicode) return value;
+
+  return value
+    .replace(/→/g, '->')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e\u00a0-\u00ff\u2022\u2026]/g, '');
+}
@@ -12,7 +12,7 @@ import {
 } from '@aws-sdk/lib-dynamodb';
 import { logger } from '../monitoring/logger';
 import { metrics } from '../monitoring/metrics';
-import { retryWithExponentialBackoff } from '../utils/utils';
+import { delay, retryWithExponentialBackoff } from '../utils/utils';
 import { DatabaseError, isTransientError } from '../errors/errors';
 
 // Initialize DynamoDB client
@@ -33,6 +33,14 @@ const ddb = DynamoDBDocumentClient.from(client, {
 
 const TABLE_NAME = process.env.DYNAMODB_TABLE || 'smart-cooking-data';
 
+// BatchWriteItem takes at most this many requests
+const BATCH_WRITE_LIMIT = 25;
+
+// Rounds of resending UnprocessedItems before a batch write gives up
+const MAX_UNPROCESSED_RETRIES = 5;
+
+type WriteRequest = { PutRequest?: { Item: any }; DeleteRequest?: { Key: any } };
+
 export class DynamoDBHelper {
   static async get(PK: string, SK: string) {
     return await this.executeWithRetry(
@@ -65,6 +73,33 @@ export class DynamoDBHelper {
     );
   }
 
+  /**
+   * Put an item unless one with the same key exists. Returns false when it does.
+   */
+  static async putIfNotExists(item: any): Promise<boolean> {
+    return await this.executeWithRetry(
+      async () => {
+        const command = new PutCommand({
+          TableName: TABLE_NAME,
+          Item: item,
+          ConditionExpression: 'attribute_not_exists(SK)',
+        });
+
+        try {
+          await ddb.send(command);
+          return true;
+        } catch (error) {
+          if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+            return false;
+          }
+          throw error;
+        }
+      },
+      'putIfNotExists',
+      { itemKeys: { PK: item.PK, SK: item.SK } }
+    );
+  }
+
   static async update(PK: string, SK: string, updateExpression: string, expressionAttributeValues: any, expressionAttributeNames?: any) {
     return await this.executeWithRetry(
       async () => {
@@ -157,14 +192,36 @@ export class DynamoDBHelper {
     return result.Responses?.[TABLE_NAME] || [];
   }
 
-  static async batchWrite(items: Array<{ PutRequest?: { Item: any }; DeleteRequest?: { Key: any } }>) {
-    const command = new BatchWriteCommand({
-      RequestItems: {
-        [TABLE_NAME]: items,
-      },
-    });
-    
-    return await ddb.send(command);
+  /**
+   * Write any number of put/delete requests, BATCH_WRITE_LIMIT per call. Requests DynamoDB
+   * returns as UnprocessedItems are resent with backoff; if some are still left after
+   * MAX_UNPROCESSED_RETRIES rounds the write fails.
+   */
+  static async batchWrite(items: WriteRequest[]): Promise<void> {
+    for (let i = 0; i < items.length; i += BATCH_WRITE_LIMIT) {
+      let pending = items.slice(i, i + BATCH_WRITE_LIMIT);
+
+      for (let attempt = 0; pending.length > 0; attempt++) {
+        if (attempt > MAX_UNPROCESSED_RETRIES) {
+          throw new DatabaseError('Database operation batchWrite left items unprocessed', {
+            operation: 'batchWrite',
+            unprocessed: pending.length
+          });
+        }
+        if (attempt > 0) {
+          await delay(Math.min(50 * Math.pow(2, attempt), 2000));
+        }
+
+        const command = new BatchWriteCommand({
+          RequestItems: {
+            [TABLE_NAME]: pending,
+          },
+        });
+
+        const result = await ddb.send(command);
+        pending = (result.UnprocessedItems?.[TABLE_NAME] || []) as WriteRequest[];
+      }
+    }
   }
 
   // Helper methods for common patterns
@@ -218,3 +218,14 @@ export function forbiddenResponse(message: string = 'Access denied'): APIRespons
 export function notFoundResponse(message: string = 'Resource not found'): APIResponse {
   return errorResponse(404, 'not_found', message);
 }
+
+export function tooManyRequestsResponse(retryAfterSeconds: number, message: string = 'Too many requests, please slow down'): APIResponse {
+  const response = errorResponse(429, 'rate_limit_exceeded', message, { retry_after: retryAfterSeconds });
+  return {
+    ...response,
+    headers: {
+      ...response.headers,
+      'Retry-After': String(retryAfterSeconds),
+    },
+  };
+}
@@ -15,6 +15,12 @@ export * from './auth';
 // Business
 export * from './business';
 
+// Realtime
+export * from './realtime';
+
+// AI
+export * from './ai';
+
 // Monitoring
 export * from './monitoring';
 
@@ -0,0 +1,38 @@
+/**
+ * API Gateway Realtime Publisher
+ * Posts events to WebSocket connections through the API Gateway management API
+ */
+
+import {
+  ApiGatewayManagementApiClient,
+  PostToConnectionCommand,
+  GoneException
+} from '@aws-sdk/client-apigatewaymanagementapi';
+import { RealtimePublisher, RealtimeEvent } from './realtime-publisher';
+
+export class ApiGatewayRealtimePublisher implements RealtimePublisher {
+  readonly name = 'api-gateway' as const;
+  private client: ApiGatewayManagementApiClient;
+
+  /**
+   * @param endpoint Callback URL of the WebSocket stage, https://<api-id>.execute-api.<region>.amazonaws.com/<stage>
+   */
+  constructor(endpoint: string, client?: ApiGatewayManagementApiClient) {
+    this.client = client || new ApiGatewayManagementApiClient({ endpoint });
+  }
+
+  async send(connectionId: string, event: RealtimeEvent): Promise<boolean> {
+    try {
+      await this.client.send(new PostToConnectionCommand({
+        ConnectionId: connectionId,
+        Data: Buffer.from(JSON.stringify(event))
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof GoneException || (error as any)?.$metadata?.httpStatusCode === 410) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
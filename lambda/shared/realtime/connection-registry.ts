@@ -0,0 +1,79 @@
+/**
+ * Connection Registry
+ * Tracks which WebSocket connections belong to which user
+ *
+ * Each connection is stored twice: USER#<id>/WS_CONNECTION#<connectionId> to list a
+ * user's sessions, and WS_CONNECTION#<connectionId>/METADATA to find the user when the
+ * connection closes (the $disconnect event only carries the connection id). Items expire
+ * with the connection's two-hour API Gateway limit in case $disconnect never arrives.
+ */
+
+import { DynamoDBHelper } from '../database/dynamodb';
+import { formatTimestamp } from '../utils/utils';
+import { logger } from '../monitoring/logger';
+
+const CONNECTION_TTL_SECONDS = 2 * 60 * 60 + 5 * 60; // API Gateway limit plus a margin
+
+export class ConnectionRegistry {
+  static async register(connectionId: string, userId: string): Promise<void> {
+    const ttl = Math.floor(Date.now() / 1000) + CONNECTION_TTL_SECONDS;
+    const connectedAt = formatTimestamp();
+
+    await DynamoDBHelper.put({
+      PK: `USER#${userId}`,
+      SK: `WS_CONNECTION#${connectionId}`,
+      entity_type: 'WS_CONNECTION',
+      connection_id: connectionId,
+      user_id: userId,
+      connected_at: connectedAt,
+      ttl
+    });
+
+    await DynamoDBHelper.put({
+      PK: `WS_CONNECTION#${connectionId}`,
+      SK: 'METADATA',
+      entity_type: 'WS_CONNECTION',
+      connection_id: connectionId,
+      user_id: userId,
+      connected_at: connectedAt,
+      ttl
+    });
+
+    logger.info('WebSocket connection registered', { connectionId, userId });
+  }
+
+  /**
+   * Remove a closed connection. Returns the user it belonged to, if known.
+   */
+  static async unregister(connectionId: string): Promise<string | null> {
+    const item = await DynamoDBHelper.get(`WS_CONNECTION#${connectionId}`, 'METADATA');
+    if (!item) return null;
+
+    await this.remove(item.user_id, connectionId);
+    return item.user_id;
+  }
+
+  static async remove(userId: string, connectionId: string): Promise<void> {
+    await DynamoDBHelper.delete(`USER#${userId}`, `WS_CONNECTION#${connectionId}`);
+    await DynamoDBHelper.delete(`WS_CONNECTION#${connectionId}`, 'METADATA');
+  }
+
+  static async getUserId(connectionId: string): Promise<string | null> {
+    const item = await DynamoDBHelper.get(`WS_CONNECTION#${connectionId}`, 'METADATA');
+    return item?.user_id || null;
+  }
+
+  static async getConnectionIds(userId: string): Promise<string[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'WS_CONNECTION#'
+      }
+    });
+
+    return (result?.Items || [])
+      .map((item: any) => item.connection_id)
+      .filter((connectionId: string | undefined): connectionId is string => !!connectionId);
+  }
+}
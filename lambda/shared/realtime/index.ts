@@ -0,0 +1,5 @@
+export * from './realtime-publisher';
+export * from './api-gateway-publisher';
+export * from './local-publisher';
+export * from './connection-registry';
+export * from './realtime-service';
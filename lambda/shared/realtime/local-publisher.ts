@@ -0,0 +1,32 @@
+/**
+ * Local Realtime Publisher
+ * In-process stand-in for the WebSocket API, for tests and local development.
+ * Listeners play the part of connected clients; every send is also recorded.
+ */
+
+import { RealtimePublisher, RealtimeEvent } from './realtime-publisher';
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+export class LocalRealtimePublisher implements RealtimePublisher {
+  readonly name = 'local' as const;
+  readonly sent: Array<{ connectionId: string; event: RealtimeEvent }> = [];
+  private listeners = new Map<string, RealtimeListener>();
+
+  connect(connectionId: string, listener: RealtimeListener): void {
+    this.listeners.set(connectionId, listener);
+  }
+
+  disconnect(connectionId: string): void {
+    this.listeners.delete(connectionId);
+  }
+
+  async send(connectionId: string, event: RealtimeEvent): Promise<boolean> {
+    const listener = this.listeners.get(connectionId);
+    if (!listener) return false;
+
+    this.sent.push({ connectionId, event });
+    listener(event);
+    return true;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Realtime Publisher abstraction
+ * Server-to-client messages go through a RealtimePublisher, so delivery can use
+ * the API Gateway WebSocket API when deployed and an in-process stand-in in
+ * tests and local development.
+ */
+
+import { Notification } from '../utils/types';
+
+export type RealtimePublisherName = 'api-gateway' | 'local';
+
+/**
+ * Messages pushed to a user's connected sessions
+ */
+export type RealtimeEvent =
+  | { type: 'notification'; notification: Notification }
+  | { type: 'unread_count'; unread_count: number };
+
+export interface RealtimePublisher {
+  readonly name: RealtimePublisherName;
+  /**
+   * Send an event to one connection. Resolves false when the connection no longer exists.
+   */
+  send(connectionId: string, event: RealtimeEvent): Promise<boolean>;
+}
@@ -0,0 +1,99 @@
+/**
+ * Realtime Service
+ * Pushes events to every connected session of a user
+ */
+
+import { logger } from '../monitoring/logger';
+import { RealtimePublisher, RealtimeEvent } from './realtime-publisher';
+import { ApiGatewayRealtimePublisher } from './api-gateway-publisher';
+import { LocalRealtimePublisher } from './local-publisher';
+import { ConnectionRegistry } from './connection-registry';
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Publisher for the environment: the WebSocket API when WEBSOCKET_ENDPOINT is set,
+ * otherwise the in-process stand-in
+ */
+export function createRealtimePublisher(env: Env = process.env): RealtimePublisher {
+  return env.WEBSOCKET_ENDPOINT
+    ? new ApiGatewayRealtimePublisher(env.WEBSOCKET_ENDPOINT)
+    : new LocalRealtimePublisher();
+}
+
+export class RealtimeService {
+  private static publisher: RealtimePublisher | null = null;
+
+  /**
+   * Replace the configured publisher (e.g. with a LocalRealtimePublisher in tests)
+   */
+  static setPublisher(publisher: RealtimePublisher | null): void {
+    this.publisher = publisher;
+  }
+
+  static getPublisher(): RealtimePublisher {
+    if (!this.publisher) {
+      this.publisher = createRealtimePublisher();
+    }
+    return this.publisher;
+  }
+
+  /**
+   * Send events to all of a user's connections and drop the ones that are gone.
+   * Events are built only when the user is connected. Delivery is best effort:
+   * failures are logged and never thrown. Returns the number of connections reached.
+   */
+  static async sendToUser(
+    userId: string,
+    buildEvents: () => Promise<RealtimeEvent[]>
+  ): Promise<number> {
+    try {
+      const connectionIds = await ConnectionRegistry.getConnectionIds(userId);
+      if (connectionIds.length === 0) return 0;
+
+      const events = await buildEvents();
+      return await this.sendToConnections(userId, connectionIds, events);
+    } catch (error) {
+      logger.warn('Failed to push realtime events', { error, userId });
+      return 0;
+    }
+  }
+
+  /**
+   * Send events to one connection, e.g. in reply to a client message
+   */
+  static async sendToConnection(userId: string, connectionId: string, events: RealtimeEvent[]): Promise<boolean> {
+    return (await this.sendToConnections(userId, [connectionId], events)) > 0;
+  }
+
+  private static async sendToConnections(
+    userId: string,
+    connectionIds: string[],
+    events: RealtimeEvent[]
+  ): Promise<number> {
+    const publisher = this.getPublisher();
+    let delivered = 0;
+
+    for (const connectionId of connectionIds) {
+      try {
+        let connected = true;
+        for (const event of events) {
+          if (!(await publisher.send(connectionId, event))) {
+            connected = false;
+            break;
+          }
+        }
+
+        if (connected) {
+          delivered++;
+        } else {
+          await ConnectionRegistry.remove(userId, connectionId);
+        }
+      } catch (error) {
+        logger.warn('Failed to push realtime event to connection', { error, userId, connectionId });
+      }
+    }
+
+    return delivered;
+  }
+}
@@ -1,4 +1,4 @@
-import { S3Client, PutObjectCommand, ListObjectsV2Command, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, GetObjectCommand, ListObjectsV2Command, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { logger } from '../monitoring/logger';
 
@@ -14,6 +14,9 @@ export const MAX_AVATAR_SIZE = 5 * 1024 * 1024;  // 5MB
 export const MAX_POST_SIZE = 10 * 1024 * 1024;   // 10MB
 export const MAX_COOKING_SIZE = 5 * 1024 * 1024; // 5MB
 
+// Download links for generated exports
+const EXPORT_URL_EXPIRY = 900; // 15 minutes
+
 export interface PresignedUrlRequest {
   file_type: string;
   file_size: number;
@@ -246,3 +249,64 @@ export async function generateCookingPhotoPresignedUrl(
 export function getCloudFrontUrl(key: string): string {
   return `https://${CLOUDFRONT_DOMAIN}/${key}`;
 }
+
+/**
+ * Resolve a stored image (S3 key, CloudFront URL or S3 URL of our bucket) to its bucket and key.
+ * Returns null for images hosted anywhere else.
+ */
+export function getImageLocation(image: string): { bucket: string; key: string } | null {
+  if (!/^https?:\/\//i.test(image)) {
+    const key = image.replace(/^\/+/, '');
+    return key ? { bucket: BUCKET_NAME, key } : null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(image);
+  } catch {
+    return null;
+  }
+
+  const ownHosts = [CLOUDFRONT_DOMAIN, `${BUCKET_NAME}.s3.amazonaws.com`];
+  const isOwnHost = ownHosts.includes(url.hostname)
+    || (url.hostname.startsWith(`${BUCKET_NAME}.s3.`) && url.hostname.endsWith('.amazonaws.com'));
+  if (!isOwnHost) {
+    return null;
+  }
+
+  const key = decodeURIComponent(url.pathname.replace(/^\/+/, ''));
+  return key ? { bucket: BUCKET_NAME, key } : null;
+}
+
+/**
+ * Store a generated export (e.g. a recipe PDF) and return a short-lived download link.
+ * Exports live under exports/, which the bucket's lifecycle rule clears after a day.
+ */
+export async function uploadExport(
+  userId: string,
+  filename: string,
+  body: Buffer,
+  contentType: string
+): Promise<{ download_url: string; key: string; expires_in: number }> {
+  const key = `exports/${userId}/${Date.now()}-${filename}`;
+
+  await s3Client.send(new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+    Body: body,
+    ContentType: contentType,
+    ContentDisposition: `attachment; filename="${filename}"`
+  }));
+
+  const downloadUrl = await getSignedUrl(s3Client, new GetObjectCommand({ Bucket: BUCKET_NAME, Key: key }), {
+    expiresIn: EXPORT_URL_EXPIRY
+  });
+
+  logger.info('Export stored', { userId, key, size: body.length });
+
+  return {
+    download_url: downloadUrl,
+    key,
+    expires_in: EXPORT_URL_EXPIRY
+  };
+}
@@ -57,9 +57,11 @@ export interface UserPreferences {
   max_cooking_time_minutes?: number; // 15, 30, 60, 120
   household_size?: number; // 1-6 people
   budget_level?: 'economical' | 'moderate' | 'premium';
-  health_goals?: ('weight_loss' | 'muscle_gain' | 'general_health')[];
+  health_goals?: HealthGoal[];
 }
 
+export type HealthGoal = 'weight_loss' | 'muscle_gain' | 'general_health';
+
 export type PrivacyLevel = 'public' | 'friends' | 'private';
 
 export interface PrivacySettings {
@@ -116,6 +118,7 @@ export interface Recipe {
   ingredients: RecipeIngredient[];
   instructions: RecipeInstruction[];
   nutritional_info?: NutritionalInfo;
+  health_goal_checks?: HealthGoalCheck[]; // Computed nutrition checked against the user's health goals
   is_public: boolean;
   is_ai_generated: boolean;
   is_approved: boolean;
@@ -146,6 +149,16 @@ export interface NutritionalInfo {
   fat?: string;
   fiber?: string;
   sodium?: string;
+  source?: 'computed' | 'ai'; // computed = summed from the nutrient table, ai = model output
+  coverage?: number; // Share of measured ingredients found in the nutrient table (0-1)
+}
+
+export interface HealthGoalCheck {
+  goal: HealthGoal;
+  met: boolean;
+  value: number;
+  target: number;
+  reason: string;
 }
 
 export interface CookingHistory {
@@ -191,6 +204,8 @@ export interface ValidationWarning {
 export interface AISuggestionRequest {
   ingredients: string[];
   recipe_count: number; // 1-5
+  use_expiring?: boolean; // Prioritize pantry items close to expiry (ingredients may then be empty)
+  expiring_within_days?: number; // Default 3
 }
 
 export interface AISuggestionResponse {
@@ -286,7 +301,9 @@ export type NotificationType =
   | 'comment'
   | 'reaction'
   | 'mention'
-  | 'recipe_approved';
+  | 'recipe_approved'
+  | 'recipe_forked'
+  | 'moderation';
 
 export type NotificationTargetType = 'post' | 'comment' | 'recipe' | 'friendship';
 
@@ -302,9 +319,29 @@ export interface Notification {
   content: string;
   is_read: boolean;
   created_at: string;
+  actor_count?: number; // Distinct actors collapsed into this notification
   ttl?: number; // Unix timestamp for auto-deletion (30 days)
 }
 
+export interface NotificationChannels {
+  in_app: boolean;
+  email: boolean; // Included in the email digest
+}
+
+export type NotificationDigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationPreferences {
+  types: Record<NotificationType, NotificationChannels>;
+  quiet_hours: {
+    enabled: boolean;
+    start: string; // HH:mm, local time
+    end: string;   // HH:mm, local time; before start means overnight
+    timezone: string;
+  };
+  digest: NotificationDigestFrequency;
+  updated_at?: string;
+}
+
 export interface NotificationResponse {
   notifications: Notification[];
   unread_count: number;
@@ -0,0 +1,211 @@
+/**
+ * Shopping Lists Lambda Handler
+ * Aggregated shopping lists from recipes and meal plans, shareable with friends
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { ShoppingListService } from './shopping-list-service';
+import { successResponse, errorResponse, handleError, AppError } from '../shared/errors/responses';
+import { getUserIdFromEvent } from '../shared/utils/utils';
+import { logger } from '../shared/monitoring/logger';
+import { metrics } from '../shared/monitoring/metrics';
+import { CreateShoppingListRequest, UpdateShoppingListItemRequest, ShareShoppingListRequest } from './types';
+
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const startTime = Date.now();
+
+  // Initialize logger
+  logger.initFromEvent(event);
+  logger.logFunctionStart('shopping-lists', event);
+
+  try {
+    const method = event.httpMethod;
+    const path = event.path;
+
+    // Handle OPTIONS for CORS
+    if (method === 'OPTIONS') {
+      return {
+        statusCode: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+          'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        },
+        body: '',
+      };
+    }
+
+    const userId = getUserIdFromEvent(event);
+
+    // Normalize path
+    const normalizedPath = path.endsWith('/') && path.length > 1 ? path.slice(0, -1) : path;
+
+    logger.info('Shopping lists request received', {
+      method,
+      path: normalizedPath,
+      userId
+    });
+
+    // GET /v1/shopping-lists - Own and shared lists
+    if (method === 'GET' && normalizedPath.match(/\/shopping-lists$/)) {
+      return await listShoppingLists(userId);
+    }
+
+    // POST /v1/shopping-lists - Generate a list from recipes / a meal plan
+    if (method === 'POST' && normalizedPath.match(/\/shopping-lists$/)) {
+      return await createShoppingList(userId, event.body);
+    }
+
+    // PUT /v1/shopping-lists/{listId}/items/{itemId} - Check off an item
+    const itemMatch = normalizedPath.match(/\/shopping-lists\/([^/]+)\/items\/([^/]+)$/);
+    if (method === 'PUT' && itemMatch) {
+      return await updateItem(userId, itemMatch[1], itemMatch[2], event.body);
+    }
+
+    // POST /v1/shopping-lists/{listId}/share - Share with a friend
+    const shareMatch = normalizedPath.match(/\/shopping-lists\/([^/]+)\/share$/);
+    if (method === 'POST' && shareMatch) {
+      return await shareShoppingList(userId, shareMatch[1], event.body);
+    }
+
+    // DELETE /v1/shopping-lists/{listId}/share/{friendId} - Stop sharing
+    const unshareMatch = normalizedPath.match(/\/shopping-lists\/([^/]+)\/share\/([^/]+)$/);
+    if (method === 'DELETE' && unshareMatch) {
+      return await unshareShoppingList(userId, unshareMatch[1], unshareMatch[2]);
+    }
+
+    // GET /v1/shopping-lists/{listId} - Get a list
+    const listMatch = normalizedPath.match(/\/shopping-lists\/([^/]+)$/);
+    if (method === 'GET' && listMatch) {
+      return await getShoppingList(userId, listMatch[1]);
+    }
+
+    // DELETE /v1/shopping-lists/{listId} - Delete a list
+    if (method === 'DELETE' && listMatch) {
+      return await deleteShoppingList(userId, listMatch[1]);
+    }
+
+    return errorResponse(404, 'not_found', 'Endpoint not found');
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    logger.error('Shopping lists handler error', error, { duration });
+    metrics.trackApiRequest(500, duration, 'shopping-lists');
+    logger.logFunctionEnd('shopping-lists', 500, duration);
+    return handleError(error);
+  } finally {
+    const duration = Date.now() - startTime;
+    logger.logFunctionEnd('shopping-lists', 200, duration);
+    await metrics.flush();
+  }
+}
+
+// ==================== HANDLERS ====================
+
+async function listShoppingLists(userId: string): Promise<APIGatewayProxyResult> {
+  const lists = await ShoppingListService.listShoppingLists(userId);
+
+  metrics.trackApiRequest(200, Date.now(), 'shopping-lists');
+
+  return successResponse({
+    lists,
+    total: lists.length
+  });
+}
+
+async function createShoppingList(userId: string, body: string | null): Promise<APIGatewayProxyResult> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: CreateShoppingListRequest = JSON.parse(body);
+
+  for (const field of ['saved_ids', 'post_ids', 'already_have'] as const) {
+    if (request[field] !== undefined && !Array.isArray(request[field])) {
+      throw new AppError(400, 'invalid_request', `${field} must be an array`);
+    }
+  }
+
+  const list = await ShoppingListService.createShoppingList(userId, request);
+
+  metrics.trackApiRequest(201, Date.now(), 'shopping-lists');
+
+  return successResponse({
+    message: 'Shopping list created successfully',
+    list
+  }, 201);
+}
+
+async function getShoppingList(userId: string, listId: string): Promise<APIGatewayProxyResult> {
+  const list = await ShoppingListService.getShoppingList(listId, userId);
+
+  metrics.trackApiRequest(200, Date.now(), 'shopping-lists');
+
+  return successResponse({ list });
+}
+
+async function updateItem(
+  userId: string,
+  listId: string,
+  itemId: string,
+  body: string | null
+): Promise<APIGatewayProxyResult> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: UpdateShoppingListItemRequest = JSON.parse(body);
+
+  if (typeof request.checked !== 'boolean') {
+    throw new AppError(400, 'invalid_checked', 'checked must be a boolean');
+  }
+
+  const item = await ShoppingListService.setItemChecked(listId, itemId, userId, request.checked);
+
+  metrics.trackApiRequest(200, Date.now(), 'shopping-lists');
+
+  return successResponse({ item });
+}
+
+async function shareShoppingList(userId: string, listId: string, body: string | null): Promise<APIGatewayProxyResult> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: ShareShoppingListRequest = JSON.parse(body);
+
+  if (!request.friend_id) {
+    throw new AppError(400, 'missing_friend_id', 'friend_id is required');
+  }
+
+  const list = await ShoppingListService.shareShoppingList(listId, userId, request.friend_id);
+
+  metrics.trackApiRequest(200, Date.now(), 'shopping-lists');
+
+  return successResponse({
+    message: 'Shopping list shared successfully',
+    list
+  });
+}
+
+async function unshareShoppingList(userId: string, listId: string, friendId: string): Promise<APIGatewayProxyResult> {
+  const list = await ShoppingListService.unshareShoppingList(listId, userId, friendId);
+
+  metrics.trackApiRequest(200, Date.now(), 'shopping-lists');
+
+  return successResponse({
+    message: 'Shopping list unshared successfully',
+    list
+  });
+}
+
+async function deleteShoppingList(userId: string, listId: string): Promise<APIGatewayProxyResult> {
+  await ShoppingListService.deleteShoppingList(listId, userId);
+
+  metrics.trackApiRequest(200, Date.now(), 'shopping-lists');
+
+  return successResponse({
+    message: 'Shopping list deleted successfully',
+    list_id: listId
+  });
+}
@@ -0,0 +1,526 @@
+/**
+ * Shopping List Service
+ * Aggregates ingredients from saved recipes, posts and meal plans into one
+ * grouped list, minus what the user already has
+ */
+
+import { DynamoDBHelper } from '../shared/database/dynamodb';
+import { generateUUID, formatTimestamp } from '../shared/utils/utils';
+import { logger } from '../shared/monitoring/logger';
+import { AppError } from '../shared/errors/responses';
+import { normalizeVietnamese } from '../shared/utils/vietnamese-normalizer';
+import { checkFriendship } from '../shared/auth/privacy-middleware';
+import {
+  IngredientNormalizer,
+  IngredientParserHybrid,
+  ParsedIngredient,
+  parseQuantity,
+  toBaseUnit,
+  toDisplayUnit,
+  roundQuantity
+} from '../shared/business/ingredients';
+import { SavedRecipeService } from '../saved-recipes/saved-recipe-service';
+import { PostsService } from '../posts/posts-service';
+import { MealPlanService } from '../meal-plans/meal-plan-service';
+import {
+  ShoppingList,
+  ShoppingListItem,
+  ShoppingListRef,
+  ShoppingListSource,
+  ShoppingListLine,
+  SourceIngredient,
+  CreateShoppingListRequest
+} from './types';
+
+// Aisle order used to sort the grouped list
+const CATEGORY_ORDER = ['vegetable', 'herb', 'protein', 'dairy', 'carb', 'spice', 'condiment', 'other'];
+
+const MAX_SOURCES = 30;
+
+// DynamoDB BatchGetItem limit
+const BATCH_GET_LIMIT = 100;
+
+export class ShoppingListService {
+  /**
+   * Build a shopping list from the requested sources and save it
+   */
+  static async createShoppingList(userId: string, request: CreateShoppingListRequest): Promise<ShoppingList> {
+    const { sources, ingredients } = await this.collectIngredients(userId, request);
+
+    if (sources.length === 0) {
+      throw new AppError(400, 'no_sources', 'At least one saved recipe, post or meal plan is required');
+    }
+
+    let lines = this.mergeIngredients(ingredients);
+
+    if (request.already_have && request.already_have.length > 0) {
+      const owned = await this.parseOwnedIngredients(request.already_have);
+      lines = this.subtractOwned(lines, owned);
+    }
+
+    const now = formatTimestamp();
+    const list: ShoppingList = {
+      list_id: generateUUID(),
+      owner_id: userId,
+      name: request.name?.trim() || this.defaultName(request, now),
+      sources,
+      items: await this.buildItems(lines),
+      shared_with: [],
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.saveShoppingList(list);
+    await this.putRef(userId, list.list_id, 'owner');
+
+    logger.info('Shopping list created', {
+      userId,
+      listId: list.list_id,
+      sources: sources.length,
+      items: list.items.length
+    });
+
+    return list;
+  }
+
+  /**
+   * Lists the user owns or that friends shared with them, newest first
+   */
+  static async listShoppingLists(userId: string): Promise<ShoppingList[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'SHOPPING_LIST#'
+      }
+    });
+
+    const refs = (result.Items || []) as ShoppingListRef[];
+    if (refs.length === 0) {
+      return [];
+    }
+
+    const lists: ShoppingList[] = [];
+    for (let i = 0; i < refs.length; i += BATCH_GET_LIMIT) {
+      const keys = refs.slice(i, i + BATCH_GET_LIMIT).map(ref => ({
+        PK: `SHOPPING_LIST#${ref.list_id}`,
+        SK: 'METADATA'
+      }));
+      lists.push(...(await DynamoDBHelper.batchGet(keys) as ShoppingList[]));
+    }
+
+    return lists.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * Get a list the user owns or was shared
+   */
+  static async getShoppingList(listId: string, userId: string): Promise<ShoppingList> {
+    const list = await DynamoDBHelper.get(`SHOPPING_LIST#${listId}`, 'METADATA') as ShoppingList | undefined;
+
+    if (!list) {
+      throw new AppError(404, 'shopping_list_not_found', 'Shopping list not found');
+    }
+
+    if (list.owner_id !== userId && !list.shared_with.includes(userId)) {
+      throw new AppError(403, 'forbidden', 'You do not have access to this shopping list');
+    }
+
+    return list;
+  }
+
+  /**
+   * Check or uncheck an item. Owner and shared friends can both check off items.
+   */
+  static async setItemChecked(
+    listId: string,
+    itemId: string,
+    userId: string,
+    checked: boolean
+  ): Promise<ShoppingListItem> {
+    const list = await this.getShoppingList(listId, userId);
+
+    const index = list.items.findIndex(item => item.item_id === itemId);
+    if (index === -1) {
+      throw new AppError(404, 'item_not_found', 'Shopping list item not found');
+    }
+
+    // Update the single item in place so two people shopping at once don't overwrite each other
+    await DynamoDBHelper.update(
+      `SHOPPING_LIST#${listId}`,
+      'METADATA',
+      `SET #items[${index}].#checked = :checked, #items[${index}].#checked_by = :checked_by, #updated_at = :now`,
+      {
+        ':checked': checked,
+        ':checked_by': checked ? userId : null,
+        ':now': formatTimestamp()
+      },
+      {
+        '#items': 'items',
+        '#checked': 'checked',
+        '#checked_by': 'checked_by',
+        '#updated_at': 'updated_at'
+      }
+    );
+
+    return {
+      ...list.items[index],
+      checked,
+      checked_by: checked ? userId : undefined
+    };
+  }
+
+  /**
+   * Share a list with a friend (owner only)
+   */
+  static async shareShoppingList(listId: string, userId: string, friendId: string): Promise<ShoppingList> {
+    const list = await this.getOwnedShoppingList(listId, userId);
+
+    if (friendId === userId) {
+      throw new AppError(400, 'invalid_friend', 'Cannot share a shopping list with yourself');
+    }
+
+    if (list.shared_with.includes(friendId)) {
+      return list;
+    }
+
+    const isFriend = await checkFriendship(userId, friendId);
+    if (!isFriend) {
+      throw new AppError(403, 'not_friends', 'Shopping lists can only be shared with friends');
+    }
+
+    list.shared_with.push(friendId);
+    await this.updateSharedWith(list);
+    await this.putRef(friendId, listId, 'shared');
+
+    logger.info('Shopping list shared', { listId, userId, friendId });
+
+    return list;
+  }
+
+  /**
+   * Stop sharing a list. The owner can remove anyone; a friend can remove themselves.
+   */
+  static async unshareShoppingList(listId: string, userId: string, friendId: string): Promise<ShoppingList> {
+    const list = await this.getShoppingList(listId, userId);
+
+    if (list.owner_id !== userId && friendId !== userId) {
+      throw new AppError(403, 'forbidden', 'Only the owner can change who this list is shared with');
+    }
+
+    if (!list.shared_with.includes(friendId)) {
+      throw new AppError(404, 'share_not_found', 'Shopping list is not shared with this user');
+    }
+
+    list.shared_with = list.shared_with.filter(id => id !== friendId);
+    await this.updateSharedWith(list);
+    await DynamoDBHelper.delete(`USER#${friendId}`, `SHOPPING_LIST#${listId}`);
+
+    logger.info('Shopping list unshared', { listId, userId, friendId });
+
+    return list;
+  }
+
+  /**
+   * Delete a list and every user's reference to it (owner only)
+   */
+  static async deleteShoppingList(listId: string, userId: string): Promise<void> {
+    const list = await this.getOwnedShoppingList(listId, userId);
+
+    await Promise.all([
+      DynamoDBHelper.delete(`SHOPPING_LIST#${listId}`, 'METADATA'),
+      ...[list.owner_id, ...list.shared_with].map(id =>
+        DynamoDBHelper.delete(`USER#${id}`, `SHOPPING_LIST#${listId}`)
+      )
+    ]);
+
+    logger.info('Shopping list deleted', { listId, userId });
+  }
+
+  /**
+   * Merge duplicate ingredients. Names are compared without diacritics and
+   * quantities are summed in a shared base unit (kg → g, l → ml, thìa → muỗng).
+   * Lines with units that don't convert (củ vs g) stay separate.
+   */
+  static mergeIngredients(ingredients: SourceIngredient[]): ShoppingListLine[] {
+    const lines = new Map<string, ShoppingListLine>();
+    const unquantified: SourceIngredient[] = [];
+
+    for (const ingredient of ingredients) {
+      const quantity = parseQuantity(ingredient.quantity);
+      if (quantity === null) {
+        unquantified.push(ingredient);
+        continue;
+      }
+
+      const key = this.nameKey(ingredient.name);
+      const base = toBaseUnit(quantity, ingredient.unit || '');
+      const lineKey = `${key}|${base.unit}`;
+      const line = lines.get(lineKey);
+
+      if (line) {
+        line.quantity = (line.quantity || 0) + base.quantity;
+        this.addRecipe(line, ingredient.recipe_name);
+      } else {
+        lines.set(lineKey, {
+          name: IngredientNormalizer.normalize(ingredient.name),
+          key,
+          quantity: base.quantity,
+          unit: base.unit || null,
+          recipes: [ingredient.recipe_name]
+        });
+      }
+    }
+
+    // "Vừa đủ" amounts add nothing to a measured line, they only need the ingredient on the list
+    for (const ingredient of unquantified) {
+      const key = this.nameKey(ingredient.name);
+      const line = Array.from(lines.values()).find(l => l.key === key);
+
+      if (line) {
+        this.addRecipe(line, ingredient.recipe_name);
+      } else {
+        lines.set(`${key}|`, {
+          name: IngredientNormalizer.normalize(ingredient.name),
+          key,
+          quantity: null,
+          unit: null,
+          recipes: [ingredient.recipe_name]
+        });
+      }
+    }
+
+    return Array.from(lines.values());
+  }
+
+  /**
+   * Remove what the user already has. An owned ingredient without a quantity
+   * removes the line entirely; with a quantity it is subtracted when the units convert.
+   */
+  static subtractOwned(lines: ShoppingListLine[], owned: ParsedIngredient[]): ShoppingListLine[] {
+    const remaining = lines.map(line => ({ ...line }));
+
+    for (const item of owned) {
+      const key = this.nameKey(item.name);
+      const quantity = parseQuantity(item.quantity);
+
+      if (quantity === null) {
+        for (const line of remaining) {
+          if (line.key === key) line.quantity = 0;
+        }
+        continue;
+      }
+
+      const base = toBaseUnit(quantity, item.unit || '');
+      const line = remaining.find(l => l.key === key && (l.unit || '') === base.unit);
+      if (line && line.quantity !== null) {
+        line.quantity -= base.quantity;
+      }
+    }
+
+    return remaining.filter(line => line.quantity === null || line.quantity > 0);
+  }
+
+  // ==================== PRIVATE ====================
+
+  private static async collectIngredients(
+    userId: string,
+    request: CreateShoppingListRequest
+  ): Promise<{ sources: ShoppingListSource[]; ingredients: SourceIngredient[] }> {
+    const sources: ShoppingListSource[] = [];
+    const ingredients: SourceIngredient[] = [];
+
+    const sourceCount = (request.saved_ids?.length || 0) + (request.post_ids?.length || 0);
+    if (sourceCount > MAX_SOURCES) {
+      throw new AppError(400, 'too_many_sources', `A shopping list can combine at most ${MAX_SOURCES} recipes`);
+    }
+
+    if (request.saved_ids && request.saved_ids.length > 0) {
+      const savedRecipes = await SavedRecipeService.getSavedRecipes(userId);
+
+      for (const savedId of request.saved_ids) {
+        const recipe = savedRecipes.find(r => r.saved_id === savedId);
+        if (!recipe) {
+          throw new AppError(404, 'recipe_not_found', `Saved recipe ${savedId} not found`);
+        }
+
+        sources.push({ source_type: 'saved_recipe', source_id: savedId, name: recipe.recipe_name });
+        ingredients.push(...recipe.recipe_ingredients.map(i => ({
+          name: i.name,
+          quantity: i.quantity,
+          unit: i.unit,
+          recipe_name: recipe.recipe_name
+        })));
+      }
+    }
+
+    for (const postId of request.post_ids || []) {
+      // getPost enforces the post's privacy settings for this viewer
+      const post = await PostsService.getPost(postId, userId);
+      if (!post.recipeData) {
+        throw new AppError(400, 'post_has_no_recipe', `Post ${postId} does not contain a recipe`);
+      }
+
+      const recipeName = post.recipeData.title;
+      sources.push({ source_type: 'post', source_id: postId, name: recipeName });
+      ingredients.push(...post.recipeData.ingredients.map(i => ({
+        name: i.name,
+        quantity: i.amount,
+        unit: i.unit,
+        recipe_name: recipeName
+      })));
+    }
+
+    if (request.meal_plan_week) {
+      const plan = await MealPlanService.getMealPlan(userId, request.meal_plan_week);
+      const entries = plan.days.flatMap(day => Object.values(day.meals));
+
+      if (entries.length > 0) {
+        sources.push({ source_type: 'meal_plan', source_id: plan.week_start, name: plan.week_start });
+        for (const entry of entries) {
+          ingredients.push(...entry!.recipe_ingredients.map(i => ({
+            name: i.name,
+            quantity: i.quantity,
+            unit: i.unit,
+            recipe_name: entry!.recipe_name
+          })));
+        }
+      }
+    }
+
+    return { sources, ingredients };
+  }
+
+  /**
+   * Parse "200g thịt gà" style entries. Bare names ("nước mắm") skip the parser
+   * since there is nothing to extract and they would otherwise go to the AI fallback.
+   */
+  private static async parseOwnedIngredients(alreadyHave: string[]): Promise<ParsedIngredient[]> {
+    const entries = alreadyHave.map(entry => entry.trim()).filter(Boolean);
+    const withAmounts = entries.filter(entry => /\d/.test(entry));
+    const parsed = await IngredientParserHybrid.parseIngredients(withAmounts);
+
+    return [
+      ...entries.filter(entry => !/\d/.test(entry)).map(name => ({ name })),
+      ...parsed
+    ];
+  }
+
+  /**
+   * Attach categories (from the master ingredient table when known) and display units
+   */
+  private static async buildItems(lines: ShoppingListLine[]): Promise<ShoppingListItem[]> {
+    const categories = await this.lookupCategories(lines.map(line => line.name));
+
+    const items = lines.map(line => {
+      const display = line.quantity !== null && line.unit
+        ? toDisplayUnit(line.quantity, line.unit)
+        : null;
+
+      return {
+        item_id: generateUUID(),
+        name: line.name,
+        category: categories.get(line.name) || IngredientNormalizer.categorize(line.name),
+        quantity: display ? display.quantity : line.quantity !== null ? roundQuantity(line.quantity) : null,
+        unit: display ? display.unit : null,
+        checked: false,
+        recipes: line.recipes
+      };
+    });
+
+    return items.sort((a, b) =>
+      this.categoryRank(a.category) - this.categoryRank(b.category) || a.name.localeCompare(b.name, 'vi')
+    );
+  }
+
+  private static async lookupCategories(names: string[]): Promise<Map<string, string>> {
+    const categories = new Map<string, string>();
+    const idToName = new Map(names.map(name => [IngredientNormalizer.generateId(name), name]));
+    const ids = Array.from(idToName.keys());
+
+    for (let i = 0; i < ids.length; i += BATCH_GET_LIMIT) {
+      const keys = ids.slice(i, i + BATCH_GET_LIMIT).map(id => ({ PK: `INGREDIENT#${id}`, SK: 'METADATA' }));
+      const items = await DynamoDBHelper.batchGet(keys);
+
+      for (const item of items) {
+        const name = idToName.get(item.ingredient_id);
+        if (name && item.category) {
+          categories.set(name, item.category);
+        }
+      }
+    }
+
+    return categories;
+  }
+
+  private static async getOwnedShoppingList(listId: string, userId: string): Promise<ShoppingList> {
+    const list = await this.getShoppingList(listId, userId);
+    if (list.owner_id !== userId) {
+      throw new AppError(403, 'forbidden', 'Only the owner can do this');
+    }
+    return list;
+  }
+
+  private static async saveShoppingList(list: ShoppingList): Promise<void> {
+    list.updated_at = formatTimestamp();
+
+    await DynamoDBHelper.put({
+      PK: `SHOPPING_LIST#${list.list_id}`,
+      SK: 'METADATA',
+      entity_type: 'SHOPPING_LIST',
+      ...list
+    });
+  }
+
+  // Only touches shared_with so concurrent check-offs on items are kept
+  private static async updateSharedWith(list: ShoppingList): Promise<void> {
+    list.updated_at = formatTimestamp();
+
+    await DynamoDBHelper.update(
+      `SHOPPING_LIST#${list.list_id}`,
+      'METADATA',
+      'SET #shared_with = :shared_with, #updated_at = :now',
+      {
+        ':shared_with': list.shared_with,
+        ':now': list.updated_at
+      },
+      {
+        '#shared_with': 'shared_with',
+        '#updated_at': 'updated_at'
+      }
+    );
+  }
+
+  private static async putRef(userId: string, listId: string, role: ShoppingListRef['role']): Promise<void> {
+    await DynamoDBHelper.put({
+      PK: `USER#${userId}`,
+      SK: `SHOPPING_LIST#${listId}`,
+      entity_type: 'SHOPPING_LIST_REF',
+      list_id: listId,
+      role,
+      added_at: formatTimestamp()
+    });
+  }
+
+  private static nameKey(name: string): string {
+    return normalizeVietnamese(IngredientNormalizer.normalize(name));
+  }
+
+  private static addRecipe(line: ShoppingListLine, recipeName: string): void {
+    if (!line.recipes.includes(recipeName)) {
+      line.recipes.push(recipeName);
+    }
+  }
+
+  private static categoryRank(category: string): number {
+    const rank = CATEGORY_ORDER.indexOf(category);
+    return rank === -1 ? CATEGORY_ORDER.length : rank;
+  }
+
+  private static defaultName(request: CreateShoppingListRequest, timestamp: string): string {
+    if (request.meal_plan_week) {
+      return `Đi chợ tuần ${request.meal_plan_week}`;
+    }
+    return `Đi chợ ${timestamp.slice(0, 10)}`;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Shopping List Types
+ */
+
+export type ShoppingListSourceType = 'saved_recipe' | 'post' | 'meal_plan';
+
+export interface ShoppingListSource {
+  source_type: ShoppingListSourceType;
+  source_id: string; // saved_id, post_id or meal plan week_start
+  name: string;
+}
+
+export interface ShoppingListItem {
+  item_id: string;
+  name: string;
+  category: string; // MasterIngredient.category (protein, vegetable, spice...)
+  quantity: number | null; // null when no recipe gave a numeric amount ("vừa đủ")
+  unit: string | null;
+  checked: boolean;
+  checked_by?: string;
+  recipes: string[]; // Recipe names that need this ingredient
+}
+
+/**
+ * Per-user index entry (USER#id / SHOPPING_LIST#id) for lists the user owns or was shared
+ */
+export interface ShoppingListRef {
+  list_id: string;
+  role: 'owner' | 'shared';
+  added_at: string;
+}
+
+export interface ShoppingList {
+  list_id: string;
+  owner_id: string;
+  name: string;
+  sources: ShoppingListSource[];
+  items: ShoppingListItem[];
+  shared_with: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateShoppingListRequest {
+  name?: string;
+  saved_ids?: string[];
+  post_ids?: string[];
+  meal_plan_week?: string;
+  already_have?: string[]; // Free text, e.g. "200g thịt gà", "nước mắm"
+}
+
+export interface UpdateShoppingListItemRequest {
+  checked: boolean;
+}
+
+export interface ShareShoppingListRequest {
+  friend_id: string;
+}
+
+/**
+ * A merged line in base units (g, ml, muỗng), before display conversion
+ */
+export interface ShoppingListLine {
+  name: string;
+  key: string; // Name without diacritics, used for matching
+  quantity: number | null;
+  unit: string | null;
+  recipes: string[];
+}
+
+/**
+ * An ingredient line taken from one recipe, before merging
+ */
+export interface SourceIngredient {
+  name: string;
+  quantity?: string;
+  unit?: string;
+  recipe_name: string;
+}
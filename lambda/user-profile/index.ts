@@ -4,7 +4,10 @@ import { DynamoDBHelper } from '../shared/database/dynamodb';
 import { AvatarService } from '../shared/storage/avatar-service';
 import * as S3Service from '../shared/storage/s3-service';
 import { UserSearchService } from '../shared/auth/user-search-service';
+import { UserSearchIndex } from '../shared/auth/user-search-index';
 import { UsernameService } from '../shared/auth/username-service';
+import { BlockService } from '../shared/auth/block-service';
+import { SuspensionAppealService } from '../shared/business/abuse/suspension-appeal-service';
 import {
   sanitizeInput,
   formatTimestamp,
@@ -47,12 +50,32 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
       pathParameters
     });
 
+    // Handle /v1/users/{userId}/block and /v1/users/{userId}/mute
+    const restrictionMatch = event.path.match(/\/users\/([^/]+)\/(block|mute)\/?$/);
+    if (restrictionMatch && (httpMethod === 'POST' || httpMethod === 'DELETE')) {
+      return await updateRestriction(userId, restrictionMatch[1], restrictionMatch[2] as 'block' | 'mute', httpMethod);
+    }
+
+    // Handle /v1/users/me/suspensions/{suspensionId}/appeal
+    const appealMatch = event.path.match(/\/users\/me\/suspensions\/([^/]+)\/appeal\/?$/);
+    if (appealMatch && httpMethod === 'POST') {
+      return await submitAppeal(userId, decodeURIComponent(appealMatch[1]), event.body);
+    }
+
     switch (httpMethod) {
       case 'GET':
+        // Handle /v1/users/me/suspensions
+        if (/\/users\/me\/suspensions\/?$/.test(event.path)) {
+          return await getSuspensions(userId);
+        }
         // Handle /v1/users/search
         if (event.path.includes('/users/search')) {
           return await searchUsers(userId, event.queryStringParameters);
         }
+        // Handle /v1/users/blocked and /v1/users/muted
+        if (/\/users\/(blocked|muted)\/?$/.test(event.path)) {
+          return await getRestrictedUsers(userId, event.path.includes('/blocked') ? 'block' : 'mute');
+        }
         // Handle /v1/users/me/stats
         if (event.path.includes('/users/me/stats')) {
           return await getUserStats(userId);
@@ -213,6 +236,7 @@ async function searchUsers(userId: string, queryParams: any): Promise<APIRespons
   try {
     const query = queryParams?.q || '';
     const limit = parseInt(queryParams?.limit || '20');
+    const cursor = queryParams?.cursor;
 
     if (!query || query.trim().length < 2) {
       throw new AppError(400, 'invalid_query', 'Search query must be at least 2 characters');
@@ -224,18 +248,20 @@ async function searchUsers(userId: string, queryParams: any): Promise<APIRespons
     const results = await UserSearchService.searchUsersWithFriendshipStatus(userId, {
       query,
       limit,
+      cursor,
       excludeUserId: userId
     });
 
     logStructured('INFO', 'User search completed', {
       userId,
       query,
-      resultCount: results.length
+      resultCount: results.users.length
     });
 
     return successResponse({
-      users: results,
-      count: results.length
+      users: results.users,
+      count: results.users.length,
+      next_cursor: results.next_cursor
     });
 
   } catch (error: any) {
@@ -244,6 +270,86 @@ async function searchUsers(userId: string, queryParams: any): Promise<APIRespons
   }
 }
 
+/**
+ * Block/unblock or mute/unmute a user
+ * POST|DELETE /v1/users/{userId}/block
+ * POST|DELETE /v1/users/{userId}/mute
+ */
+async function updateRestriction(
+  userId: string,
+  targetUserId: string,
+  restriction: 'block' | 'mute',
+  httpMethod: string
+): Promise<APIResponse> {
+  if (httpMethod === 'POST') {
+    const user = restriction === 'block'
+      ? await BlockService.blockUser(userId, targetUserId)
+      : await BlockService.muteUser(userId, targetUserId);
+
+    return successResponse({
+      message: restriction === 'block' ? 'User blocked' : 'User muted',
+      user
+    }, 201);
+  }
+
+  if (restriction === 'block') {
+    await BlockService.unblockUser(userId, targetUserId);
+  } else {
+    await BlockService.unmuteUser(userId, targetUserId);
+  }
+
+  return successResponse({
+    message: restriction === 'block' ? 'User unblocked' : 'User unmuted'
+  });
+}
+
+/**
+ * List users the caller has blocked or muted
+ * GET /v1/users/blocked
+ * GET /v1/users/muted
+ */
+async function getRestrictedUsers(userId: string, restriction: 'block' | 'mute'): Promise<APIResponse> {
+  const users = restriction === 'block'
+    ? await BlockService.getBlockedUsers(userId)
+    : await BlockService.getMutedUsers(userId);
+
+  return successResponse({
+    users,
+    count: users.length
+  });
+}
+
+/**
+ * Get the caller's suspension history with appeal status
+ * GET /v1/users/me/suspensions
+ */
+async function getSuspensions(userId: string): Promise<APIResponse> {
+  const suspensions = await SuspensionAppealService.getSuspensions(userId);
+
+  return successResponse({
+    suspensions,
+    count: suspensions.length
+  });
+}
+
+/**
+ * Appeal one of the caller's suspensions
+ * POST /v1/users/me/suspensions/{suspensionId}/appeal
+ */
+async function submitAppeal(userId: string, suspensionId: string, body: string | null): Promise<APIResponse> {
+  const data = parseJSON(body);
+  if (!data) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const appeal = await SuspensionAppealService.submitAppeal(userId, suspensionId, {
+    text: typeof data.text === 'string' ? data.text : undefined,
+    evidence_urls: data.evidence_urls
+  });
+
+  return successResponse({ appeal }, 201);
+}
+
 /**
  * Get user statistics (friends, posts, recipes)
  * GET /v1/users/me/stats
@@ -433,6 +539,11 @@ async function updateProfile(userId: string, body: string | null): Promise<APIRe
     // Remove DynamoDB keys from response
     const { PK, SK, GSI1PK, GSI1SK, entity_type, ...cleanProfile } = updatedProfile || {};
 
+    // Keep the search index's name tokens and display fields current
+    if (updatedProfile && (updates.full_name !== undefined || updates.avatar_url !== undefined)) {
+      await UserSearchIndex.indexUser(updatedProfile as UserProfile);
+    }
+
     logStructured('INFO', 'Profile updated successfully', { userId, updatedFields: Object.keys(updates) });
 
     return successResponse({
@@ -528,6 +639,8 @@ async function createProfile(userId: string, body: string | null): Promise<APIRe
       GSI2SK: `USER#${userId}`
     });
 
+    await UserSearchIndex.indexUser(profileData);
+
     logStructured('INFO', 'Profile created successfully', { userId, email, username: profileData.username });
 
     return successResponse({
@@ -841,7 +954,7 @@ async function uploadAvatar(userId: string, body: string | null): Promise<APIRes
     });
 
     // Update user profile with new avatar URL
-    await DynamoDBHelper.update(
+    const updatedProfile = await DynamoDBHelper.update(
       `USER#${userId}`,
       'PROFILE',
       'SET avatar_url = :avatar_url, updated_at = :updated_at',
@@ -851,6 +964,10 @@ async function uploadAvatar(userId: string, body: string | null): Promise<APIRes
       }
     );
 
+    if (updatedProfile) {
+      await UserSearchIndex.indexUser(updatedProfile as UserProfile);
+    }
+
     logStructured('INFO', 'Avatar uploaded successfully', {
       userId,
       avatarUrl: result.avatar_url,
@@ -0,0 +1,86 @@
+/**
+ * WebSocket Lambda Function
+ * Handles the API Gateway WebSocket API used for real-time notifications
+ *
+ * ROUTES:
+ * - $connect: verifies the Cognito ID token from the `token` query parameter
+ *   (browsers can't set headers on WebSocket requests) and registers the connection
+ * - $disconnect: removes the connection
+ * - $default: client messages. {"action":"sync"} replies with the current unread count,
+ *   which clients send after (re)connecting; {"action":"ping"} keeps an idle socket open.
+ */
+
+import { APIResponse } from '../shared/utils/types';
+import { AppError } from '../shared/errors/responses';
+import { TokenVerifier } from '../shared/auth/token-verifier';
+import { ConnectionRegistry, RealtimeService } from '../shared/realtime';
+import { NotificationService } from '../shared/business/notifications/notification-service';
+import { logger } from '../shared/monitoring/logger';
+
+export interface WebSocketEvent {
+  requestContext: {
+    routeKey: string;
+    connectionId: string;
+    requestId?: string;
+  };
+  queryStringParameters?: { [key: string]: string } | null;
+  body?: string | null;
+}
+
+export async function handler(event: WebSocketEvent): Promise<APIResponse> {
+  const { routeKey, connectionId } = event.requestContext;
+  logger.initFromEvent(event);
+
+  try {
+    switch (routeKey) {
+      case '$connect':
+        return await connect(connectionId, event.queryStringParameters?.token);
+      case '$disconnect':
+        await ConnectionRegistry.unregister(connectionId);
+        return respond(200);
+      default:
+        return await handleMessage(connectionId, event.body);
+    }
+  } catch (error) {
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+    logger.warn('WebSocket request failed', { routeKey, connectionId, statusCode, error });
+    return respond(statusCode);
+  }
+}
+
+async function connect(connectionId: string, token: string | undefined): Promise<APIResponse> {
+  if (!token) {
+    return respond(401);
+  }
+
+  const claims = await TokenVerifier.verifyIdToken(token);
+  await ConnectionRegistry.register(connectionId, claims.sub);
+  return respond(200);
+}
+
+async function handleMessage(connectionId: string, body: string | null | undefined): Promise<APIResponse> {
+  let message: { action?: string };
+  try {
+    message = JSON.parse(body || '{}');
+  } catch {
+    return respond(400);
+  }
+
+  if (message.action === 'sync') {
+    const userId = await ConnectionRegistry.getUserId(connectionId);
+    if (!userId) {
+      return respond(401);
+    }
+
+    await RealtimeService.sendToConnection(userId, connectionId, [
+      { type: 'unread_count', unread_count: await NotificationService.getUnreadCount(userId) }
+    ]);
+  }
+
+  return respond(200);
+}
+
+// WebSocket routes only use the status code; the body is not sent to the client
+function respond(statusCode: number): APIResponse {
+  return { statusCode, headers: {}, body: '' };
+}